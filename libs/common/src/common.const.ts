@@ -5,4 +5,6 @@ export const X_TRACE_ID = 'x-trace-id';
 export enum usedHttpHeaders {
   X_TRACE_ID = 'x-trace-id',
   ACCEPT_LANG = 'Accept-Language',
+  IDEMPOTENCY_KEY = 'Idempotency-Key',
+  IDEMPOTENT_REPLAYED = 'Idempotent-Replayed',
 }
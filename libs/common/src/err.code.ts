@@ -236,4 +236,250 @@ export const errCodes: CustomDefinition.ICodeStruct[] = [
     httpStatus: 400,
     message: 'productId is required',
   },
+  {
+    codeName: errConstants.ERR_WEBHOOK_ENDPOINT_NOT_FOUND,
+    code: 2037,
+    httpStatus: 404,
+    message: 'Webhook endpoint not found',
+  },
+  {
+    codeName: errConstants.ERR_WEBHOOK_DELIVERY_NOT_FOUND,
+    code: 2038,
+    httpStatus: 404,
+    message: 'Webhook delivery not found',
+  },
+  {
+    codeName: errConstants.ERR_INVOICE_NOT_FOUND,
+    code: 2039,
+    httpStatus: 404,
+    message: 'Invoice not found',
+  },
+  {
+    codeName: errConstants.ERR_CUSTOMER_NOT_FOUND,
+    code: 2040,
+    httpStatus: 404,
+    message: 'Customer not found',
+  },
+  {
+    codeName: errConstants.ERR_INVALID_EINVOICE_SETTINGS,
+    code: 2041,
+    httpStatus: 400,
+    message: 'Invalid e-invoice settings',
+  },
+  {
+    codeName: errConstants.ERR_USAGE_NOT_ACCEPTED,
+    code: 2042,
+    httpStatus: 409,
+    message: 'Usage cannot be recorded for this subscription or period',
+  },
+  {
+    codeName: errConstants.ERR_UNKNOWN_USAGE_FEATURE,
+    code: 2043,
+    httpStatus: 400,
+    message: 'Feature is not metered by the subscription plan',
+  },
+  {
+    codeName: errConstants.ERR_REFUND_AMOUNT_INVALID,
+    code: 2044,
+    httpStatus: 400,
+    message: 'Refund amount exceeds the refundable balance',
+  },
+  {
+    codeName: errConstants.ERR_REFUND_STATE_CONFLICT,
+    code: 2045,
+    httpStatus: 409,
+    message: 'Refund cannot be processed in its current status',
+  },
+  {
+    codeName: errConstants.ERR_PROMOTION_CODE_EXISTS,
+    code: 2046,
+    httpStatus: 409,
+    message: 'Promotion code already exists',
+  },
+  {
+    codeName: errConstants.ERR_PROMOTION_STATE_CONFLICT,
+    code: 2047,
+    httpStatus: 409,
+    message: 'Promotion cannot be changed in its current status',
+  },
+  {
+    codeName: errConstants.ERR_PLAN_NOT_FOUND,
+    code: 2048,
+    httpStatus: 404,
+    message: 'Billing plan not found',
+  },
+  {
+    codeName: errConstants.ERR_PLAN_CHANGE_NOT_ALLOWED,
+    code: 2049,
+    httpStatus: 409,
+    message: 'Plan cannot be changed for the subscription',
+  },
+  {
+    codeName: errConstants.ERR_INSUFFICIENT_CREDIT,
+    code: 2050,
+    httpStatus: 409,
+    message: 'Insufficient credit balance',
+  },
+  {
+    codeName: errConstants.ERR_DUNNING_CAMPAIGN_NOT_FOUND,
+    code: 2051,
+    httpStatus: 404,
+    message: 'Dunning campaign not found',
+  },
+  {
+    codeName: errConstants.ERR_SUBSCRIPTION_ENDED,
+    code: 2052,
+    httpStatus: 409,
+    message: 'Subscription has ended',
+  },
+  {
+    codeName: errConstants.ERR_INVALID_UPDATE_LINK,
+    code: 2053,
+    httpStatus: 400,
+    message: 'Invalid or expired update link',
+  },
+  {
+    codeName: errConstants.ERR_CHECKOUT_SESSION_NOT_FOUND,
+    code: 2054,
+    httpStatus: 404,
+    message: 'Checkout session not found',
+  },
+  {
+    codeName: errConstants.ERR_INVALID_CHECKOUT_SESSION,
+    code: 2055,
+    httpStatus: 400,
+    message: 'Invalid, expired or already used checkout session',
+  },
+  {
+    codeName: errConstants.ERR_PAYMENT_METHOD_ATTACH_FAILED,
+    code: 2056,
+    httpStatus: 400,
+    message: 'Failed to attach payment method',
+  },
+  {
+    codeName: errConstants.ERR_INVALID_IDEMPOTENCY_KEY,
+    code: 2057,
+    httpStatus: 400,
+    message: 'Invalid idempotency key',
+  },
+  {
+    codeName: errConstants.ERR_IDEMPOTENCY_KEY_REUSED,
+    code: 2058,
+    httpStatus: 409,
+    message: 'Idempotency key was already used with a different request',
+  },
+  {
+    codeName: errConstants.ERR_IDEMPOTENCY_REQUEST_IN_PROGRESS,
+    code: 2059,
+    httpStatus: 409,
+    message: 'A request with the same idempotency key is in progress',
+  },
+  {
+    codeName: errConstants.ERR_PERIOD_BILLING_NOT_SUPPORTED,
+    code: 2060,
+    httpStatus: 400,
+    message: 'Plan is not billed by gateway period orders',
+  },
+  {
+    codeName: errConstants.ERR_PERIOD_ORDER_NOT_FOUND,
+    code: 2061,
+    httpStatus: 404,
+    message: 'Period order not found',
+  },
+  {
+    codeName: errConstants.ERR_RECONCILIATION_DISCREPANCY_NOT_FOUND,
+    code: 2062,
+    httpStatus: 404,
+    message: 'Reconciliation discrepancy not found',
+  },
+  {
+    codeName: errConstants.ERR_RECONCILIATION_DISCREPANCY_RESOLVED,
+    code: 2063,
+    httpStatus: 409,
+    message: 'Reconciliation discrepancy is already resolved',
+  },
+  {
+    codeName: errConstants.ERR_RECONCILIATION_RUN_NOT_FOUND,
+    code: 2064,
+    httpStatus: 404,
+    message: 'Reconciliation run not found',
+  },
+  {
+    codeName: errConstants.ERR_RECONCILIATION_IN_PROGRESS,
+    code: 2065,
+    httpStatus: 409,
+    message: 'A reconciliation run is already in progress',
+  },
+  {
+    codeName: errConstants.ERR_SETTLEMENT_PARSER_NOT_FOUND,
+    code: 2066,
+    httpStatus: 400,
+    message: 'Settlement files are not supported for this gateway',
+  },
+  {
+    codeName: errConstants.ERR_SETTLEMENT_FILE_INVALID,
+    code: 2067,
+    httpStatus: 400,
+    message: 'Invalid settlement file',
+  },
+  {
+    codeName: errConstants.ERR_SETTLEMENT_FILE_DUPLICATED,
+    code: 2068,
+    httpStatus: 409,
+    message: 'Settlement file has already been imported',
+  },
+  {
+    codeName: errConstants.ERR_SETTLEMENT_BATCH_NOT_FOUND,
+    code: 2069,
+    httpStatus: 404,
+    message: 'Settlement batch not found',
+  },
+  {
+    codeName: errConstants.ERR_DISPUTE_NOT_FOUND,
+    code: 2070,
+    httpStatus: 404,
+    message: 'Dispute not found',
+  },
+  {
+    codeName: errConstants.ERR_PAYMENT_NOT_DISPUTABLE,
+    code: 2071,
+    httpStatus: 400,
+    message: 'Payment cannot be disputed',
+  },
+  {
+    codeName: errConstants.ERR_DISPUTE_ALREADY_OPEN,
+    code: 2072,
+    httpStatus: 409,
+    message: 'Payment already has an open dispute',
+  },
+  {
+    codeName: errConstants.ERR_DISPUTE_STATUS_INVALID,
+    code: 2073,
+    httpStatus: 409,
+    message: 'Dispute status does not allow this operation',
+  },
+  {
+    codeName: errConstants.ERR_DISPUTE_EVIDENCE_REQUIRED,
+    code: 2074,
+    httpStatus: 400,
+    message: 'Dispute response requires at least one evidence file',
+  },
+  {
+    codeName: errConstants.ERR_DISPUTE_RESPONSE_FAILED,
+    code: 2075,
+    httpStatus: 400,
+    message: 'Failed to submit dispute response to gateway',
+  },
+  {
+    codeName: errConstants.ERR_INVALID_PAYMENT_ACTION_LINK,
+    code: 2076,
+    httpStatus: 400,
+    message: 'Invalid or expired payment action link',
+  },
+  {
+    codeName: errConstants.ERR_PAYMENT_ACTION_NOT_PENDING,
+    code: 2077,
+    httpStatus: 409,
+    message: 'Payment is not awaiting customer action',
+  },
 ];
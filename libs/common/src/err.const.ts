@@ -39,4 +39,45 @@ export enum errConstants {
   ERR_MARK_PAYMENT_FAILED_FAILED = 'ERR_MARK_PAYMENT_FAILED_FAILED',
   ERR_ONLY_FAILED_PAYMENT_STATUS_SUPPORTED = 'ERR_ONLY_FAILED_PAYMENT_STATUS_SUPPORTED',
   ERR_AT_LEAST_ONE_FILTER_REQUIRED = 'ERR_AT_LEAST_ONE_FILTER_REQUIRED',
+  ERR_WEBHOOK_ENDPOINT_NOT_FOUND = 'ERR_WEBHOOK_ENDPOINT_NOT_FOUND',
+  ERR_WEBHOOK_DELIVERY_NOT_FOUND = 'ERR_WEBHOOK_DELIVERY_NOT_FOUND',
+  ERR_INVOICE_NOT_FOUND = 'ERR_INVOICE_NOT_FOUND',
+  ERR_CUSTOMER_NOT_FOUND = 'ERR_CUSTOMER_NOT_FOUND',
+  ERR_INVALID_EINVOICE_SETTINGS = 'ERR_INVALID_EINVOICE_SETTINGS',
+  ERR_USAGE_NOT_ACCEPTED = 'ERR_USAGE_NOT_ACCEPTED',
+  ERR_UNKNOWN_USAGE_FEATURE = 'ERR_UNKNOWN_USAGE_FEATURE',
+  ERR_REFUND_AMOUNT_INVALID = 'ERR_REFUND_AMOUNT_INVALID',
+  ERR_REFUND_STATE_CONFLICT = 'ERR_REFUND_STATE_CONFLICT',
+  ERR_PROMOTION_CODE_EXISTS = 'ERR_PROMOTION_CODE_EXISTS',
+  ERR_PROMOTION_STATE_CONFLICT = 'ERR_PROMOTION_STATE_CONFLICT',
+  ERR_PLAN_NOT_FOUND = 'ERR_PLAN_NOT_FOUND',
+  ERR_PLAN_CHANGE_NOT_ALLOWED = 'ERR_PLAN_CHANGE_NOT_ALLOWED',
+  ERR_INSUFFICIENT_CREDIT = 'ERR_INSUFFICIENT_CREDIT',
+  ERR_DUNNING_CAMPAIGN_NOT_FOUND = 'ERR_DUNNING_CAMPAIGN_NOT_FOUND',
+  ERR_SUBSCRIPTION_ENDED = 'ERR_SUBSCRIPTION_ENDED',
+  ERR_INVALID_UPDATE_LINK = 'ERR_INVALID_UPDATE_LINK',
+  ERR_CHECKOUT_SESSION_NOT_FOUND = 'ERR_CHECKOUT_SESSION_NOT_FOUND',
+  ERR_INVALID_CHECKOUT_SESSION = 'ERR_INVALID_CHECKOUT_SESSION',
+  ERR_PAYMENT_METHOD_ATTACH_FAILED = 'ERR_PAYMENT_METHOD_ATTACH_FAILED',
+  ERR_INVALID_IDEMPOTENCY_KEY = 'ERR_INVALID_IDEMPOTENCY_KEY',
+  ERR_IDEMPOTENCY_KEY_REUSED = 'ERR_IDEMPOTENCY_KEY_REUSED',
+  ERR_IDEMPOTENCY_REQUEST_IN_PROGRESS = 'ERR_IDEMPOTENCY_REQUEST_IN_PROGRESS',
+  ERR_PERIOD_BILLING_NOT_SUPPORTED = 'ERR_PERIOD_BILLING_NOT_SUPPORTED',
+  ERR_PERIOD_ORDER_NOT_FOUND = 'ERR_PERIOD_ORDER_NOT_FOUND',
+  ERR_RECONCILIATION_DISCREPANCY_NOT_FOUND = 'ERR_RECONCILIATION_DISCREPANCY_NOT_FOUND',
+  ERR_RECONCILIATION_DISCREPANCY_RESOLVED = 'ERR_RECONCILIATION_DISCREPANCY_RESOLVED',
+  ERR_RECONCILIATION_RUN_NOT_FOUND = 'ERR_RECONCILIATION_RUN_NOT_FOUND',
+  ERR_RECONCILIATION_IN_PROGRESS = 'ERR_RECONCILIATION_IN_PROGRESS',
+  ERR_SETTLEMENT_PARSER_NOT_FOUND = 'ERR_SETTLEMENT_PARSER_NOT_FOUND',
+  ERR_SETTLEMENT_FILE_INVALID = 'ERR_SETTLEMENT_FILE_INVALID',
+  ERR_SETTLEMENT_FILE_DUPLICATED = 'ERR_SETTLEMENT_FILE_DUPLICATED',
+  ERR_SETTLEMENT_BATCH_NOT_FOUND = 'ERR_SETTLEMENT_BATCH_NOT_FOUND',
+  ERR_DISPUTE_NOT_FOUND = 'ERR_DISPUTE_NOT_FOUND',
+  ERR_PAYMENT_NOT_DISPUTABLE = 'ERR_PAYMENT_NOT_DISPUTABLE',
+  ERR_DISPUTE_ALREADY_OPEN = 'ERR_DISPUTE_ALREADY_OPEN',
+  ERR_DISPUTE_STATUS_INVALID = 'ERR_DISPUTE_STATUS_INVALID',
+  ERR_DISPUTE_EVIDENCE_REQUIRED = 'ERR_DISPUTE_EVIDENCE_REQUIRED',
+  ERR_DISPUTE_RESPONSE_FAILED = 'ERR_DISPUTE_RESPONSE_FAILED',
+  ERR_INVALID_PAYMENT_ACTION_LINK = 'ERR_INVALID_PAYMENT_ACTION_LINK',
+  ERR_PAYMENT_ACTION_NOT_PENDING = 'ERR_PAYMENT_ACTION_NOT_PENDING',
 }
@@ -24,11 +24,223 @@ export interface IConf {
     returnURL: string;
     clientBackURL?: string;
     orderResultURL?: string;
+    /** 定期定額每期授權結果通知網址 (PeriodReturnURL) */
+    periodReturnURL: string;
     apiEndpoints: {
       aio: string;
       query: string;
+      /** 信用卡定期定額訂單作業 */
+      periodAction: string;
     };
   };
+  billingRunner: {
+    /** 是否啟用應用內排程 */
+    enabled: boolean;
+    /** 排程 cron 表達式（支援秒欄位） */
+    cron: string;
+    /** 排程時區 */
+    timezone: string;
+    /** 每批處理的訂閱數量 */
+    batchSize: number;
+    /** 作業鎖有效期限（毫秒） */
+    lockTtlMs: number;
+  };
+  eventOutbox: {
+    /** 是否啟用應用內事件派送 */
+    enabled: boolean;
+    /** 輪詢間隔（毫秒） */
+    pollIntervalMs: number;
+    /** 每次輪詢派送的事件數量 */
+    batchSize: number;
+    /** 最大派送次數，超過後進入死信 */
+    maxAttempts: number;
+    /** 派送租約期限（毫秒），逾期未完成的事件會被重新領取 */
+    leaseMs: number;
+  };
+  merchantWebhooks: {
+    /** 輪詢待投遞紀錄的間隔（毫秒） */
+    pollIntervalMs: number;
+    /** 單次投遞逾時（毫秒） */
+    timeoutMs: number;
+    /** 最大投遞次數 */
+    maxAttempts: number;
+  };
+  notifications: {
+    /** 本地 EMAIL/SMS 檔案傳輸的輸出目錄 */
+    fileTransportDir: string;
+    /** 輪詢排程與重試通知的間隔（毫秒） */
+    pollIntervalMs: number;
+    /** Webhook 通知逾時（毫秒） */
+    webhookTimeoutMs: number;
+    /** 續費提醒提前天數 */
+    renewalReminderDays: number;
+    /** 續費提醒排程 cron 表達式（支援秒欄位） */
+    renewalReminderCron: string;
+    /** 預設時區（帳戶未設定時使用） */
+    timezone: string;
+  };
+  invoices: {
+    /** 預設商家 ID（付款或訂閱未指定時使用） */
+    merchantId: string;
+    /** 發票號碼前綴 */
+    numberPrefix: string;
+    /** 稅率（百分比） */
+    taxRate: number;
+    /** 決定編號年度的時區 */
+    timezone: string;
+  };
+  einvoice: {
+    /** 是否於扣款成功後開立電子發票 */
+    enabled: boolean;
+    /** 電子發票供應商（mock / ecpay） */
+    provider: string;
+    /** 綠界電子發票特店編號與金鑰 */
+    merchantID: string;
+    hashKey: string;
+    hashIV: string;
+    /** 綠界電子發票 API 位址 */
+    apiBaseUrl: string;
+    /** 呼叫供應商的逾時毫秒數 */
+    timeoutMs: number;
+  };
+  entitlements: {
+    /** 權益快取秒數，訂閱狀態或方案變更時另行失效 */
+    cacheTtlSeconds: number;
+  };
+  dunning: {
+    /** 輪詢到期催收階段的間隔（毫秒） */
+    pollIntervalMs: number;
+    /** 每次輪詢處理的流程數量 */
+    batchSize: number;
+  };
+  paymentMethodExpiry: {
+    /** 是否啟用到期卡片掃描排程 */
+    enabled: boolean;
+    /** 排程 cron 表達式（支援秒欄位） */
+    cron: string;
+    /** 排程時區 */
+    timezone: string;
+    /** 掃描未來幾天內到期的卡片 */
+    lookaheadDays: number;
+    /** 每批處理的支付方式數量 */
+    batchSize: number;
+    /** 作業鎖有效期限（毫秒） */
+    lockTtlMs: number;
+    /** 客戶更新支付方式的頁面網址，token 以查詢參數附加 */
+    updateUrl: string;
+    /** 更新連結簽章密鑰 */
+    linkSecret: string;
+    /** 更新連結有效時數 */
+    linkTtlHours: number;
+    /** 寬限期後是否自動改用客戶其他有效的支付方式 */
+    autoSwitchEnabled: boolean;
+    /** 通知後幾天仍未更新才自動切換 */
+    autoSwitchAfterDays: number;
+  };
+  checkoutSessions: {
+    /** 工作階段有效分鐘數 */
+    ttlMinutes: number;
+    /** 託管付款頁面網址，token 以查詢參數附加 */
+    pageUrl: string;
+    /** ECPay 付款完成後瀏覽器導回的網址（OrderResultURL），由本服務處理後再導向 successUrl */
+    ecpayOrderResultUrl: string;
+    /** 完成處理的租約有效期限（毫秒） */
+    leaseMs: number;
+  };
+  paymentRouting: {
+    /** 閘道連線或暫時性錯誤時是否改用下一個候選閘道 */
+    failoverEnabled: boolean;
+    /** 路由規則，依序比對第一條符合的規則；未符合時依手續費排序所有適用的閘道 */
+    rules: Array<{
+      name: string;
+      paymentMethodTypes?: string[];
+      currencies?: string[];
+      minAmount?: number;
+      maxAmount?: number;
+      /** 依序嘗試的閘道 */
+      gateways: string[];
+    }>;
+    circuitBreaker: {
+      /** 統計錯誤率的時間窗（毫秒） */
+      windowMs: number;
+      /** 時間窗內至少幾筆請求才判斷錯誤率 */
+      minRequests: number;
+      /** 錯誤率達此比例即斷路（0-1） */
+      errorRateThreshold: number;
+      /** 斷路後多久放行一筆試探請求（毫秒） */
+      openMs: number;
+    };
+  };
+  idempotency: {
+    /** 冪等鍵與回應的保存時數，到期由 TTL 索引刪除 */
+    ttlHours: number;
+    /** 處理中請求佔用鍵值的期限（毫秒），逾時視為中斷 */
+    lockMs: number;
+  };
+  reconciliation: {
+    /** 是否啟用對帳排程 */
+    enabled: boolean;
+    /** 排程 cron 表達式（支援秒欄位） */
+    cron: string;
+    /** 排程時區 */
+    timezone: string;
+    /** 比對最近幾小時內更新的未結付款 */
+    windowHours: number;
+    /** 排除最近幾分鐘內更新的付款，避免比對仍在處理中的扣款 */
+    graceMinutes: number;
+    /** 每批處理的付款數量 */
+    batchSize: number;
+    /** 作業鎖有效期限（毫秒） */
+    lockTtlMs: number;
+  };
+  disputes: {
+    /** 爭議成立時對訂閱的處置：FLAG 僅標記、PAUSE 標記並暫停 */
+    subscriptionPolicy: string;
+    /** 敗訴時是否以 BILLING_DISPUTE 取消訂閱 */
+    cancelSubscriptionOnLost: boolean;
+    /** 閘道未提供回覆期限時，自爭議成立起算的天數 */
+    responseDays: number;
+    /** 證據附件的儲存目錄 */
+    evidenceDir: string;
+    /** 是否啟用回覆期限排程 */
+    deadlineEnabled: boolean;
+    /** 回覆期限排程 cron 表達式（支援秒欄位） */
+    deadlineCron: string;
+    /** 排程時區 */
+    timezone: string;
+  };
+  paymentActions: {
+    /** 客戶完成付款驗證的頁面網址，token 以查詢參數附加 */
+    actionUrl: string;
+    /** 驗證連結簽章密鑰 */
+    linkSecret: string;
+    /** 等待客戶驗證的時數，逾時視為失敗 */
+    timeoutHours: number;
+    /** 是否啟用驗證逾時排程 */
+    expiryEnabled: boolean;
+    /** 驗證逾時排程 cron 表達式（支援秒欄位） */
+    expiryCron: string;
+    /** 排程時區 */
+    timezone: string;
+    /** 每批處理的付款數量 */
+    batchSize: number;
+    /** 作業鎖有效期限（毫秒） */
+    lockTtlMs: number;
+  };
+}
+
+/**
+ * 解析 JSON 格式的環境變數，未設定或格式錯誤時使用預設值
+ */
+function parseJsonEnv<T>(value: string | undefined, fallback: T): T {
+  if (!value) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
 }
 
 export const cmmConf: IConf = {
@@ -57,9 +269,123 @@ export const cmmConf: IConf = {
     returnURL: process.env.ECPAY_RETURN_URL || 'https://your-domain.com/api/webhooks/ecpay',
     clientBackURL: process.env.ECPAY_CLIENT_BACK_URL,
     orderResultURL: process.env.ECPAY_ORDER_RESULT_URL,
+    periodReturnURL: process.env.ECPAY_PERIOD_RETURN_URL || 'https://your-domain.com/api/webhooks/ecpay/period',
     apiEndpoints: {
       aio: process.env.NODE_ENV !== 'production' ? 'https://payment-stage.ecpay.com.tw/Cashier/AioCheckOut/V5' : 'https://payment.ecpay.com.tw/Cashier/AioCheckOut/V5',
       query: process.env.NODE_ENV !== 'production' ? 'https://payment-stage.ecpay.com.tw/Cashier/QueryTradeInfo/V5' : 'https://payment.ecpay.com.tw/Cashier/QueryTradeInfo/V5',
+      periodAction:
+        process.env.NODE_ENV !== 'production' ? 'https://payment-stage.ecpay.com.tw/Cashier/CreditCardPeriodAction' : 'https://payment.ecpay.com.tw/Cashier/CreditCardPeriodAction',
+    },
+  },
+  billingRunner: {
+    enabled: process.env.BILLING_RUNNER_ENABLED === 'true',
+    cron: process.env.BILLING_RUNNER_CRON || '0 0 2 * * *',
+    timezone: process.env.BILLING_RUNNER_TIMEZONE || 'Asia/Taipei',
+    batchSize: Number.parseInt(process.env.BILLING_RUNNER_BATCH_SIZE) || 100,
+    lockTtlMs: Number.parseInt(process.env.BILLING_RUNNER_LOCK_TTL_MS) || 30 * 60 * 1000,
+  },
+  eventOutbox: {
+    enabled: process.env.EVENT_OUTBOX_ENABLED !== 'false',
+    pollIntervalMs: Number.parseInt(process.env.EVENT_OUTBOX_POLL_INTERVAL_MS) || 5000,
+    batchSize: Number.parseInt(process.env.EVENT_OUTBOX_BATCH_SIZE) || 50,
+    maxAttempts: Number.parseInt(process.env.EVENT_OUTBOX_MAX_ATTEMPTS) || 5,
+    leaseMs: Number.parseInt(process.env.EVENT_OUTBOX_LEASE_MS) || 60 * 1000,
+  },
+  merchantWebhooks: {
+    pollIntervalMs: Number.parseInt(process.env.MERCHANT_WEBHOOK_POLL_INTERVAL_MS) || 10 * 1000,
+    timeoutMs: Number.parseInt(process.env.MERCHANT_WEBHOOK_TIMEOUT_MS) || 10 * 1000,
+    maxAttempts: Number.parseInt(process.env.MERCHANT_WEBHOOK_MAX_ATTEMPTS) || 8,
+  },
+  notifications: {
+    fileTransportDir: process.env.NOTIFICATION_FILE_TRANSPORT_DIR || './logs/notifications',
+    pollIntervalMs: Number.parseInt(process.env.NOTIFICATION_POLL_INTERVAL_MS) || 60 * 1000,
+    webhookTimeoutMs: Number.parseInt(process.env.NOTIFICATION_WEBHOOK_TIMEOUT_MS) || 10 * 1000,
+    renewalReminderDays: Number.parseInt(process.env.NOTIFICATION_RENEWAL_REMINDER_DAYS) || 3,
+    renewalReminderCron: process.env.NOTIFICATION_RENEWAL_REMINDER_CRON || '0 0 10 * * *',
+    timezone: process.env.NOTIFICATION_TIMEZONE || 'Asia/Taipei',
+  },
+  invoices: {
+    merchantId: process.env.INVOICE_MERCHANT_ID || 'default',
+    numberPrefix: process.env.INVOICE_NUMBER_PREFIX || 'INV-',
+    taxRate: process.env.INVOICE_TAX_RATE ? Number.parseFloat(process.env.INVOICE_TAX_RATE) : 5,
+    timezone: process.env.INVOICE_TIMEZONE || 'Asia/Taipei',
+  },
+  einvoice: {
+    enabled: process.env.EINVOICE_ENABLED !== 'false',
+    provider: process.env.EINVOICE_PROVIDER || 'mock',
+    merchantID: process.env.ECPAY_EINVOICE_MERCHANT_ID || (process.env.NODE_ENV !== 'production' ? '2000132' : ''),
+    hashKey: process.env.ECPAY_EINVOICE_HASH_KEY || (process.env.NODE_ENV !== 'production' ? 'ejCk326UnaZWKisg' : ''),
+    hashIV: process.env.ECPAY_EINVOICE_HASH_IV || (process.env.NODE_ENV !== 'production' ? 'q9jcZX8Ib9LM8wYk' : ''),
+    apiBaseUrl:
+      process.env.ECPAY_EINVOICE_API_URL || (process.env.NODE_ENV !== 'production' ? 'https://einvoice-stage.ecpay.com.tw/B2CInvoice' : 'https://einvoice.ecpay.com.tw/B2CInvoice'),
+    timeoutMs: Number.parseInt(process.env.EINVOICE_TIMEOUT_MS) || 10 * 1000,
+  },
+  entitlements: {
+    cacheTtlSeconds: Number.parseInt(process.env.ENTITLEMENT_CACHE_TTL_SECONDS) || 300,
+  },
+  dunning: {
+    pollIntervalMs: Number.parseInt(process.env.DUNNING_POLL_INTERVAL_MS) || 5 * 60 * 1000,
+    batchSize: Number.parseInt(process.env.DUNNING_BATCH_SIZE) || 100,
+  },
+  paymentMethodExpiry: {
+    enabled: process.env.PAYMENT_METHOD_EXPIRY_ENABLED === 'true',
+    cron: process.env.PAYMENT_METHOD_EXPIRY_CRON || '0 0 8 * * *',
+    timezone: process.env.PAYMENT_METHOD_EXPIRY_TIMEZONE || 'Asia/Taipei',
+    lookaheadDays: Number.parseInt(process.env.PAYMENT_METHOD_EXPIRY_LOOKAHEAD_DAYS) || 30,
+    batchSize: Number.parseInt(process.env.PAYMENT_METHOD_EXPIRY_BATCH_SIZE) || 100,
+    lockTtlMs: Number.parseInt(process.env.PAYMENT_METHOD_EXPIRY_LOCK_TTL_MS) || 30 * 60 * 1000,
+    updateUrl: process.env.PAYMENT_METHOD_UPDATE_URL || 'http://localhost:3000/account/payment-methods/update',
+    linkSecret: process.env.PAYMENT_METHOD_UPDATE_LINK_SECRET || (process.env.NODE_ENV !== 'production' ? 'dev-payment-method-update-secret' : ''),
+    linkTtlHours: Number.parseInt(process.env.PAYMENT_METHOD_UPDATE_LINK_TTL_HOURS) || 7 * 24,
+    autoSwitchEnabled: process.env.PAYMENT_METHOD_EXPIRY_AUTO_SWITCH_ENABLED === 'true',
+    autoSwitchAfterDays: Number.parseInt(process.env.PAYMENT_METHOD_EXPIRY_AUTO_SWITCH_AFTER_DAYS) || 7,
+  },
+  checkoutSessions: {
+    ttlMinutes: Number.parseInt(process.env.CHECKOUT_SESSION_TTL_MINUTES) || 30,
+    pageUrl: process.env.CHECKOUT_SESSION_PAGE_URL || 'http://localhost:3000/checkout',
+    ecpayOrderResultUrl: process.env.CHECKOUT_SESSION_ECPAY_ORDER_RESULT_URL || 'http://localhost:3000/api/v1/checkout-sessions/ecpay/order-result',
+    leaseMs: Number.parseInt(process.env.CHECKOUT_SESSION_LEASE_MS) || 60 * 1000,
+  },
+  paymentRouting: {
+    failoverEnabled: process.env.PAYMENT_FAILOVER_ENABLED !== 'false',
+    rules: parseJsonEnv(process.env.PAYMENT_ROUTING_RULES, []),
+    circuitBreaker: {
+      windowMs: Number.parseInt(process.env.GATEWAY_CIRCUIT_WINDOW_MS) || 60 * 1000,
+      minRequests: Number.parseInt(process.env.GATEWAY_CIRCUIT_MIN_REQUESTS) || 5,
+      errorRateThreshold: Number.parseFloat(process.env.GATEWAY_CIRCUIT_ERROR_RATE) || 0.5,
+      openMs: Number.parseInt(process.env.GATEWAY_CIRCUIT_OPEN_MS) || 30 * 1000,
     },
   },
+  idempotency: {
+    ttlHours: Number.parseInt(process.env.IDEMPOTENCY_TTL_HOURS) || 24,
+    lockMs: Number.parseInt(process.env.IDEMPOTENCY_LOCK_MS) || 60 * 1000,
+  },
+  reconciliation: {
+    enabled: process.env.RECONCILIATION_ENABLED === 'true',
+    cron: process.env.RECONCILIATION_CRON || '0 30 * * * *',
+    timezone: process.env.RECONCILIATION_TIMEZONE || 'Asia/Taipei',
+    windowHours: Number.parseInt(process.env.RECONCILIATION_WINDOW_HOURS) || 72,
+    graceMinutes: Number.parseInt(process.env.RECONCILIATION_GRACE_MINUTES) || 30,
+    batchSize: Number.parseInt(process.env.RECONCILIATION_BATCH_SIZE) || 100,
+    lockTtlMs: Number.parseInt(process.env.RECONCILIATION_LOCK_TTL_MS) || 30 * 60 * 1000,
+  },
+  disputes: {
+    subscriptionPolicy: process.env.DISPUTE_SUBSCRIPTION_POLICY || 'FLAG',
+    cancelSubscriptionOnLost: process.env.DISPUTE_CANCEL_SUBSCRIPTION_ON_LOST === 'true',
+    responseDays: Number.parseInt(process.env.DISPUTE_RESPONSE_DAYS) || 7,
+    evidenceDir: process.env.DISPUTE_EVIDENCE_DIR || './storage/dispute-evidence',
+    deadlineEnabled: process.env.DISPUTE_DEADLINE_ENABLED === 'true',
+    deadlineCron: process.env.DISPUTE_DEADLINE_CRON || '0 0 * * * *',
+    timezone: process.env.DISPUTE_TIMEZONE || 'Asia/Taipei',
+  },
+  paymentActions: {
+    actionUrl: process.env.PAYMENT_ACTION_URL || 'http://localhost:3000/payments/authenticate',
+    linkSecret: process.env.PAYMENT_ACTION_LINK_SECRET || (process.env.NODE_ENV !== 'production' ? 'dev-payment-action-secret' : ''),
+    timeoutHours: Number.parseInt(process.env.PAYMENT_ACTION_TIMEOUT_HOURS) || 72,
+    expiryEnabled: process.env.PAYMENT_ACTION_EXPIRY_ENABLED === 'true',
+    expiryCron: process.env.PAYMENT_ACTION_EXPIRY_CRON || '0 */15 * * * *',
+    timezone: process.env.PAYMENT_ACTION_TIMEZONE || 'Asia/Taipei',
+    batchSize: Number.parseInt(process.env.PAYMENT_ACTION_BATCH_SIZE) || 100,
+    lockTtlMs: Number.parseInt(process.env.PAYMENT_ACTION_LOCK_TTL_MS) || 10 * 60 * 1000,
+  },
 };
@@ -0,0 +1,75 @@
+import { Observable, of, from, throwError } from 'rxjs';
+import { mergeMap, catchError } from 'rxjs/operators';
+import { Request, Response } from 'express';
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler, LoggerService } from '@nestjs/common';
+import { CommonService, ErrException, errConstants, usedHttpHeaders } from '@myapp/common';
+import { IdempotencyService, IdempotencyBeginResult, IdempotencyError, IdempotencyErrorCode } from '../domain/services/idempotency/idempotency.service';
+
+/** 冪等鍵錯誤對應的 API 錯誤 */
+const IDEMPOTENCY_ERRORS: Record<IdempotencyErrorCode, string> = {
+  [IdempotencyErrorCode.INVALID_KEY]: errConstants.ERR_INVALID_IDEMPOTENCY_KEY,
+  [IdempotencyErrorCode.KEY_REUSED]: errConstants.ERR_IDEMPOTENCY_KEY_REUSED,
+  [IdempotencyErrorCode.IN_PROGRESS]: errConstants.ERR_IDEMPOTENCY_REQUEST_IN_PROGRESS,
+};
+
+/**
+ * Idempotency-Key 攔截器
+ * 請求帶有 Idempotency-Key 標頭時，第一次執行的回應與狀態碼會保存下來，相同鍵值重送時以相同狀態碼直接回傳；未帶標頭的請求照常處理
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly _Logger: LoggerService;
+
+  constructor(
+    private readonly cmmService: CommonService,
+    private readonly idempotencyService: IdempotencyService,
+  ) {
+    this._Logger = this.cmmService.getDefaultLogger(IdempotencyInterceptor.name);
+  }
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<any>> {
+    const ctx = context.switchToHttp();
+    const req = ctx.getRequest<Request>();
+    const res = ctx.getResponse<Response>();
+
+    const key = req.get(usedHttpHeaders.IDEMPOTENCY_KEY);
+    if (key === undefined) {
+      return next.handle();
+    }
+
+    let begun: IdempotencyBeginResult;
+    try {
+      begun = await this.idempotencyService.begin(key, { method: req.method, path: req.path, body: req.body, traceId: this.cmmService.getLocalStorage().store });
+    } catch (error) {
+      this._Logger.warn(`Rejected ${req.method} ${req.originalUrl} with idempotency key ${key}: ${error.message}`);
+      if (error instanceof IdempotencyError) {
+        throw ErrException.newFromCodeName(IDEMPOTENCY_ERRORS[error.code]);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+
+    if (begun.replay) {
+      res.setHeader(usedHttpHeaders.IDEMPOTENT_REPLAYED, 'true');
+      res.status(begun.responseStatus);
+      return of(begun.responseBody);
+    }
+
+    const { fingerprint } = begun;
+    return next.handle().pipe(
+      mergeMap(async (result) => {
+        try {
+          // 路由的狀態碼在進入攔截器前已設定，處理器可再調整，於此時取得的即為實際回應的狀態碼
+          await this.idempotencyService.complete(key, fingerprint, res.statusCode, JSON.parse(JSON.stringify(result ?? null)));
+        } catch (error) {
+          this._Logger.error(`Failed to save response for idempotency key ${key}: ${error.message}`);
+        }
+        return result;
+      }),
+      catchError((error) =>
+        from(this.idempotencyService.release(key, fingerprint).catch((ex) => this._Logger.error(`Failed to release idempotency key ${key}: ${ex.message}`))).pipe(
+          mergeMap(() => throwError(() => error)),
+        ),
+      ),
+    );
+  }
+}
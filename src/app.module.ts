@@ -1,6 +1,8 @@
 import { APP_FILTER } from '@nestjs/core';
+import { ScheduleModule } from '@nestjs/schedule';
 import { CommonModule, CommonService } from '@myapp/common';
-import { Module, BeforeApplicationShutdown, MiddlewareConsumer, NestModule, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfModule } from '@myapp/conf';
+import { Module, BeforeApplicationShutdown, MiddlewareConsumer, NestModule, OnApplicationBootstrap, Provider } from '@nestjs/common';
 import { AppService } from './app.service';
 import { AppController } from './app.controller';
 import { ExampleController } from './controllers/exemple.controller';
@@ -14,12 +16,46 @@ import { ECPayWebhookController } from './controllers/ecpay-webhook.controller';
 import { HealthController } from './controllers/health.controller';
 import { DebugController } from './controllers/debug.controller';
 import { MockWebhookController } from './controllers/mock-webhook.controller';
+import { WebhookEndpointsController } from './controllers/webhook-endpoints.controller';
+import { InvoicesController } from './controllers/invoices.controller';
+import { CustomersController } from './controllers/customers.controller';
+import { UsageRecordsController } from './controllers/usage-records.controller';
+import { EntitlementsController } from './controllers/entitlements.controller';
+import { DunningController } from './controllers/dunning.controller';
+import { CheckoutSessionsController } from './controllers/checkout-sessions.controller';
+import { ReconciliationController } from './controllers/reconciliation.controller';
+import { SettlementsController } from './controllers/settlements.controller';
+import { DisputesController } from './controllers/disputes.controller';
+import { PaymentActionsController } from './controllers/payment-actions.controller';
 import { ExampleRepository } from './infra/repositories/example.repository';
 import { CustomerRepository } from './infra/repositories/customer.repository';
 import { SubscriptionRepository } from './infra/repositories/subscription.repository';
 import { PaymentRepository } from './infra/repositories/payment.repository';
 import { ProductRepository } from './infra/repositories/product.repository';
 import { BillingPlanRepository } from './infra/repositories/billing-plan.repository';
+import { BillingAttemptRepository } from './infra/repositories/billing-attempt.repository';
+import { BillingRunRepository } from './infra/repositories/billing-run.repository';
+import { JobLockRepository } from './infra/repositories/job-lock.repository';
+import { OutboxRepository } from './infra/repositories/outbox.repository';
+import { WebhookEndpointRepository } from './infra/repositories/webhook-endpoint.repository';
+import { WebhookDeliveryRepository } from './infra/repositories/webhook-delivery.repository';
+import { NotificationRepository } from './infra/repositories/notification.repository';
+import { InvoiceRepository } from './infra/repositories/invoice.repository';
+import { UsageRecordRepository } from './infra/repositories/usage-record.repository';
+import { RefundRepository } from './infra/repositories/refund.repository';
+import { PromotionRepository } from './infra/repositories/promotion.repository';
+import { PromotionRedemptionRepository } from './infra/repositories/promotion-redemption.repository';
+import { CouponCodeRepository } from './infra/repositories/coupon-code.repository';
+import { CreditLedgerRepository } from './infra/repositories/credit-ledger.repository';
+import { DunningCampaignRepository } from './infra/repositories/dunning-campaign.repository';
+import { DunningProcessRepository } from './infra/repositories/dunning-process.repository';
+import { CheckoutSessionRepository } from './infra/repositories/checkout-session.repository';
+import { IdempotencyKeyRepository } from './infra/repositories/idempotency-key.repository';
+import { ReconciliationRunRepository } from './infra/repositories/reconciliation-run.repository';
+import { ReconciliationDiscrepancyRepository } from './infra/repositories/reconciliation-discrepancy.repository';
+import { SettlementBatchRepository } from './infra/repositories/settlement-batch.repository';
+import { SettlementRecordRepository } from './infra/repositories/settlement-record.repository';
+import { DisputeRepository } from './infra/repositories/dispute.repository';
 // Business Services
 import { CustomerService } from './domain/services/customer.service';
 import { SubscriptionService } from './domain/services/subscription.service';
@@ -30,18 +66,165 @@ import { PromotionService } from './domain/services/promotion.service';
 import { RefundService } from './domain/services/refund.service';
 import { AccountService } from './domain/services/account.service';
 import { BillingService } from './domain/services/billing.service';
+import { BillingAttemptService } from './domain/services/billing-attempt.service';
+// Scheduled Jobs
+import { BillingRunnerService } from './domain/services/billing-runner/billing-runner.service';
+import { BillingRunnerScheduler } from './domain/services/billing-runner/billing-runner.scheduler';
+import { DomainEventBus } from './domain/services/events/domain-event-bus.service';
+import { OutboxDispatcherService } from './domain/services/events/outbox-dispatcher.service';
+import { OutboxDispatcherScheduler } from './domain/services/events/outbox-dispatcher.scheduler';
+import { MerchantWebhookService } from './domain/services/webhooks/merchant-webhook.service';
+import { MerchantWebhookScheduler } from './domain/services/webhooks/merchant-webhook.scheduler';
+import { NotificationService } from './domain/services/notification/notification.service';
+import { NotificationTemplateService } from './domain/services/notification/notification-template.service';
+import { NotificationScheduler } from './domain/services/notification/notification.scheduler';
+import { InvoiceService } from './domain/services/invoices/invoice.service';
+import { InvoiceRendererService } from './domain/services/invoices/invoice-renderer.service';
+import { EInvoiceService } from './domain/services/einvoice/einvoice.service';
+import { UsageService } from './domain/services/usage/usage.service';
+import { EntitlementService } from './domain/services/entitlements/entitlement.service';
+import { ProrationEngine } from './domain/services/proration/proration.engine';
+import { ProrationService } from './domain/services/proration/proration.service';
+import { CustomerCreditService } from './domain/services/credits/customer-credit.service';
+import { DunningCampaignService } from './domain/services/dunning/dunning-campaign.service';
+import { DunningService } from './domain/services/dunning/dunning.service';
+import { DunningScheduler } from './domain/services/dunning/dunning.scheduler';
+import { PaymentMethodExpiryService } from './domain/services/payment-method-expiry/payment-method-expiry.service';
+import { PaymentMethodExpiryScheduler } from './domain/services/payment-method-expiry/payment-method-expiry.scheduler';
+import { CheckoutSessionService } from './domain/services/checkout/checkout-session.service';
+import { IdempotencyService } from './domain/services/idempotency/idempotency.service';
+import { PeriodBillingService } from './domain/services/period-billing/period-billing.service';
+import { ReconciliationService } from './domain/services/reconciliation/reconciliation.service';
+import { ReconciliationScheduler } from './domain/services/reconciliation/reconciliation.scheduler';
+import { SettlementImportService } from './domain/services/settlement/settlement-import.service';
+import { DisputeService } from './domain/services/disputes/dispute.service';
+import { DisputeDeadlineScheduler } from './domain/services/disputes/dispute-deadline.scheduler';
+import { PaymentActionService } from './domain/services/payment-actions/payment-action.service';
+import { PaymentActionScheduler } from './domain/services/payment-actions/payment-action.scheduler';
 // Application Services
 import { ProductApplicationService } from './application/product.application.service';
 import { SubscriptionApplicationService } from './application/subscription.application.service';
 // Payment Module
 import { PaymentModule } from './domain/services/payment/payment.module';
+import { NotificationModule } from './domain/services/notification/notification.module';
+import { EInvoiceModule } from './domain/services/einvoice/einvoice.module';
+import { SettlementModule } from './domain/services/settlement/settlement.module';
 import { DateCalculationModule } from './domain/services/date-calculation/date-calculation.module';
 import { BusinessRulesEngineModule } from './domain/services/rules-engine/business-rules-engine.module';
 import { PaymentMethodRepository } from './infra/repositories/payment-method.repository';
 import { AppExceptionFilter } from './app-components/app-exception.filter';
 import { AppTracerMiddleware } from './app-components/app-tracer.middleware';
+
+/** 應用共用的模組 */
+export const APP_IMPORTS = [
+  CommonModule,
+  ConfModule,
+  ScheduleModule.forRoot(),
+  PaymentModule,
+  NotificationModule,
+  EInvoiceModule,
+  SettlementModule,
+  DateCalculationModule,
+  BusinessRulesEngineModule,
+];
+
+/** 應用的服務與儲存庫（不含排程） */
+export const APP_PROVIDERS: Provider[] = [
+  AppService,
+  {
+    provide: APP_FILTER,
+    useClass: AppExceptionFilter,
+  },
+  // Repositories
+  ExampleRepository,
+  CustomerRepository,
+  SubscriptionRepository,
+  PaymentRepository,
+  ProductRepository,
+  PaymentMethodRepository,
+  BillingPlanRepository,
+  BillingAttemptRepository,
+  BillingRunRepository,
+  JobLockRepository,
+  OutboxRepository,
+  WebhookEndpointRepository,
+  WebhookDeliveryRepository,
+  NotificationRepository,
+  InvoiceRepository,
+  UsageRecordRepository,
+  RefundRepository,
+  PromotionRepository,
+  PromotionRedemptionRepository,
+  CouponCodeRepository,
+  CreditLedgerRepository,
+  DunningCampaignRepository,
+  DunningProcessRepository,
+  CheckoutSessionRepository,
+  IdempotencyKeyRepository,
+  ReconciliationRunRepository,
+  ReconciliationDiscrepancyRepository,
+  SettlementBatchRepository,
+  SettlementRecordRepository,
+  DisputeRepository,
+  // Business Services
+  CustomerService,
+  SubscriptionService,
+  PaymentService,
+  BillingService,
+  BillingAttemptService,
+  PaymentProcessingService,
+  ProductService,
+  PromotionService,
+  RefundService,
+  AccountService,
+  // Application Services
+  ProductApplicationService,
+  SubscriptionApplicationService,
+  // Scheduled Jobs
+  BillingRunnerService,
+  DomainEventBus,
+  OutboxDispatcherService,
+  MerchantWebhookService,
+  NotificationTemplateService,
+  NotificationService,
+  InvoiceService,
+  InvoiceRendererService,
+  EInvoiceService,
+  UsageService,
+  EntitlementService,
+  ProrationEngine,
+  ProrationService,
+  CustomerCreditService,
+  DunningCampaignService,
+  DunningService,
+  PaymentMethodExpiryService,
+  CheckoutSessionService,
+  IdempotencyService,
+  PeriodBillingService,
+  ReconciliationService,
+  SettlementImportService,
+  DisputeService,
+  PaymentActionService,
+];
+
+/**
+ * 應用內排程
+ * 一次性的 CLI（如計費補跑）以不含排程的模組啟動，避免順帶啟動各項排程
+ */
+export const APP_SCHEDULERS = [
+  BillingRunnerScheduler,
+  OutboxDispatcherScheduler,
+  MerchantWebhookScheduler,
+  NotificationScheduler,
+  DunningScheduler,
+  PaymentMethodExpiryScheduler,
+  ReconciliationScheduler,
+  DisputeDeadlineScheduler,
+  PaymentActionScheduler,
+];
+
 @Module({
-  imports: [CommonModule, PaymentModule, DateCalculationModule, BusinessRulesEngineModule],
+  imports: APP_IMPORTS,
   controllers: [
     AppController,
     ExampleController,
@@ -55,35 +238,19 @@ import { AppTracerMiddleware } from './app-components/app-tracer.middleware';
     HealthController,
     DebugController,
     MockWebhookController,
+    WebhookEndpointsController,
+    InvoicesController,
+    CustomersController,
+    UsageRecordsController,
+    EntitlementsController,
+    DunningController,
+    CheckoutSessionsController,
+    ReconciliationController,
+    SettlementsController,
+    DisputesController,
+    PaymentActionsController,
   ],
-  providers: [
-    AppService,
-    {
-      provide: APP_FILTER,
-      useClass: AppExceptionFilter,
-    },
-    // Repositories
-    ExampleRepository,
-    CustomerRepository,
-    SubscriptionRepository,
-    PaymentRepository,
-    ProductRepository,
-    PaymentMethodRepository,
-    BillingPlanRepository,
-    // Business Services
-    CustomerService,
-    SubscriptionService,
-    PaymentService,
-    BillingService,
-    PaymentProcessingService,
-    ProductService,
-    PromotionService,
-    RefundService,
-    AccountService,
-    // Application Services
-    ProductApplicationService,
-    SubscriptionApplicationService,
-  ],
+  providers: [...APP_PROVIDERS, ...APP_SCHEDULERS],
 })
 export class AppModule implements NestModule, OnApplicationBootstrap, BeforeApplicationShutdown {
   constructor(private readonly cmmService: CommonService) {}
@@ -0,0 +1,80 @@
+/** Load environment variables */
+import * as dotenv from 'dotenv';
+import { expand } from 'dotenv-expand';
+// 這是為了在env檔可以用${...}的方式
+expand({ parsed: dotenv.config().parsed });
+/** Load environment variables */
+
+import { NestFactory } from '@nestjs/core';
+import { BeforeApplicationShutdown, Module } from '@nestjs/common';
+import { CommonService } from '@myapp/common';
+import { APP_IMPORTS, APP_PROVIDERS } from './app.module';
+import { BillingRunnerService } from './domain/services/billing-runner/billing-runner.service';
+import { BillingRunStatus, BillingRunTrigger } from './domain/enums/codes.const';
+
+/**
+ * 補跑用模組：與 AppModule 相同的服務，但不含控制器與排程
+ */
+@Module({
+  imports: APP_IMPORTS,
+  providers: APP_PROVIDERS,
+})
+class BillingBackfillModule implements BeforeApplicationShutdown {
+  constructor(private readonly cmmService: CommonService) {}
+
+  async beforeApplicationShutdown() {
+    this.cmmService.releaseResources();
+  }
+}
+
+/**
+ * 解析補跑的計費基準時間
+ * --date=YYYY-MM-DD 以當日結束為基準；亦可傳入完整 ISO 時間
+ */
+function parseAsOf(argv: string[]): Date | undefined {
+  const arg = argv.find((a) => a.startsWith('--date='));
+  const value = arg ? arg.slice('--date='.length) : argv.find((a) => !a.startsWith('--'));
+  if (!value) {
+    return undefined;
+  }
+
+  const asOf = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999` : value);
+  return Number.isNaN(asOf.getTime()) ? undefined : asOf;
+}
+
+/**
+ * 補跑指定日期的每日計費
+ * 用法：yarn billing:backfill --date=2024-01-31 [--with-retries]
+ */
+async function backfill() {
+  const argv = process.argv.slice(2);
+  const asOf = parseAsOf(argv);
+  if (!asOf) {
+    console.error('Usage: billing-backfill --date=YYYY-MM-DD [--with-retries]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const app = await NestFactory.createApplicationContext(BillingBackfillModule);
+  try {
+    const run = await app.get(BillingRunnerService).run({
+      asOf,
+      trigger: BillingRunTrigger.BACKFILL,
+      includeRetries: argv.includes('--with-retries'),
+    });
+
+    if (!run) {
+      console.error('Another billing run is in progress, try again later');
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(JSON.stringify({ runId: run.id, status: run.status, asOf: run.asOf, billing: run.billing, retries: run.retries, errors: run.errors }, null, 2));
+    if (run.status === BillingRunStatus.FAILED) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await app.close();
+  }
+}
+backfill();
@@ -1,8 +1,9 @@
-import { Controller, Get, Post, Put, Delete, Body, Param, HttpCode, HttpStatus } from '@nestjs/common';
+import { Controller, Get, Post, Put, Delete, Body, Param, Query, HttpCode, HttpStatus } from '@nestjs/common';
 import { CommonService, ErrException, errConstants } from '@myapp/common';
 import { LoggerService } from '@nestjs/common';
 import { CustomResult } from '@xxxhand/app-common';
 import { PaymentMethodRequest } from '../domain/value-objects/account.request';
+import { PaymentMethodExpiryService } from '../domain/services/payment-method-expiry/payment-method-expiry.service';
 
 @Controller({
   path: 'account',
@@ -11,7 +12,10 @@ import { PaymentMethodRequest } from '../domain/value-objects/account.request';
 export class AccountController {
   private readonly _Logger: LoggerService;
 
-  constructor(private readonly cmmService: CommonService) {
+  constructor(
+    private readonly cmmService: CommonService,
+    private readonly paymentMethodExpiryService: PaymentMethodExpiryService,
+  ) {
     this._Logger = this.cmmService.getDefaultLogger(AccountController.name);
   }
 
@@ -160,6 +164,41 @@ export class AccountController {
     }
   }
 
+  /**
+   * 驗證到期通知中的更新連結，回傳即將到期的支付方式與受影響的訂閱
+   * GET /api/v1/account/payment-methods/update-link?token=xxx
+   */
+  @Get('payment-methods/update-link')
+  public async resolveUpdateLink(@Query('token') token: string): Promise<CustomResult> {
+    this._Logger.log('Resolving payment method update link');
+
+    try {
+      const link = await this.paymentMethodExpiryService.resolveUpdateLink(token);
+      return this.cmmService.newResultInstance().withResult({
+        paymentMethod: {
+          paymentMethodId: link.paymentMethod.id,
+          type: link.paymentMethod.type,
+          displayName: link.paymentMethod.maskedInfo,
+          expiryDate: link.paymentMethod.expiryDate,
+          isExpired: link.paymentMethod.isExpired(),
+        },
+        subscriptions: link.subscriptions.map((subscription) => ({
+          subscriptionId: subscription.id,
+          planName: subscription.planName,
+          status: subscription.status,
+          nextBillingDate: subscription.currentPeriodEnd,
+        })),
+        expiresAt: link.expiresAt,
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to resolve payment method update link: ${error.message}`, error.stack);
+      if (error.message.includes('Invalid or expired update link')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_UPDATE_LINK);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
   /**
    * 新增支付方式
    * POST /api/v1/account/payment-methods
@@ -0,0 +1,179 @@
+import { Controller, Post, Get, Body, Param, Query, Res } from '@nestjs/common';
+import { Response } from 'express';
+import { CommonService, ErrException, errConstants } from '@myapp/common';
+import { LoggerService } from '@nestjs/common';
+import { CustomResult } from '@xxxhand/app-common';
+import { CheckoutSessionService } from '../domain/services/checkout/checkout-session.service';
+import { PaymentGatewayManager } from '../domain/services/payment/payment-gateway-manager.service';
+import { ECPayCallbackParams } from '../domain/interfaces/payment/ecpay.interface';
+import { CheckoutSessionEntity } from '../domain/entities';
+import { CheckoutSessionStatus } from '../domain/enums/codes.const';
+import { CreateCheckoutSessionRequest, CompleteCheckoutSessionRequest } from '../domain/value-objects/checkout.request';
+
+@Controller({
+  path: 'checkout-sessions',
+  version: '1',
+})
+export class CheckoutSessionsController {
+  private readonly _Logger: LoggerService;
+
+  constructor(
+    private readonly cmmService: CommonService,
+    private readonly checkoutSessionService: CheckoutSessionService,
+    private readonly paymentGatewayManager: PaymentGatewayManager,
+  ) {
+    this._Logger = this.cmmService.getDefaultLogger(CheckoutSessionsController.name);
+  }
+
+  /**
+   * 建立結帳工作階段，回傳一次性付款頁網址
+   * POST /api/v1/checkout-sessions
+   */
+  @Post()
+  public async createSession(@Body() body: CreateCheckoutSessionRequest): Promise<CustomResult> {
+    this._Logger.log(`Creating checkout session for customer: ${body.customerId}`);
+
+    try {
+      const { session, token, url } = await this.checkoutSessionService.createSession(body);
+      return this.cmmService.newResultInstance().withResult({ ...session.toJSON(), token, url });
+    } catch (error) {
+      this._Logger.error(`Failed to create checkout session: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('Subscription with ID')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SUBSCRIPTION_NOT_FOUND);
+      }
+      if (error.message.includes('ended subscription')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SUBSCRIPTION_ENDED);
+      }
+      if (error.message.includes('Payment with ID')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PAYMENT_NOT_FOUND);
+      }
+      if (error.message.includes('not awaiting retry')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_ONLY_FAILED_PAYMENT_STATUS_SUPPORTED);
+      }
+      if (error.message.includes('Payment gateway') || error.message.includes('is required')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 以 token 開啟結帳工作階段；ECPay 工作階段回傳導向綠界付款頁的表單
+   * GET /api/v1/checkout-sessions/resolve?token=
+   */
+  @Get('resolve')
+  public async resolveSession(@Query('token') token: string): Promise<CustomResult> {
+    this._Logger.log('Resolving checkout session');
+
+    try {
+      const { session, redirect } = await this.checkoutSessionService.resolveSession(token);
+      return this.cmmService.newResultInstance().withResult({ ...session.toJSON(), redirect });
+    } catch (error) {
+      this._Logger.error(`Failed to resolve checkout session: ${error.message}`, error.stack);
+      if (error.message.includes('Invalid checkout session') || error.message.includes('no amount to charge')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_CHECKOUT_SESSION);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 送出新的支付方式完成結帳工作階段，並立即重新扣款未結清的付款
+   * POST /api/v1/checkout-sessions/complete
+   */
+  @Post('complete')
+  public async completeSession(@Body() body: CompleteCheckoutSessionRequest): Promise<CustomResult> {
+    this._Logger.log('Completing checkout session');
+
+    try {
+      const { sessionToken, ...params } = body;
+      const session = await this.checkoutSessionService.completeSession(sessionToken, params);
+      return this.cmmService.newResultInstance().withResult(session.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to complete checkout session: ${error.message}`, error.stack);
+      if (error.message.includes('Invalid checkout session') || error.message.includes('already being completed') || error.message.includes('gateway payment page')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_CHECKOUT_SESSION);
+      }
+      if (error.message.includes('Failed to attach payment method')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PAYMENT_METHOD_ATTACH_FAILED);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * ECPay 付款完成後瀏覽器導回（OrderResultURL），處理結果後導向工作階段的 successUrl / cancelUrl
+   * POST /api/v1/checkout-sessions/ecpay/order-result
+   */
+  @Post('ecpay/order-result')
+  public async handleECPayOrderResult(@Body() body: any, @Res() res: Response): Promise<void> {
+    this._Logger.log(`Received ECPay order result: ${body?.MerchantTradeNo}`);
+
+    const verified = await this.paymentGatewayManager.handleWebhook('ecpay', body);
+    if (!verified.success) {
+      this._Logger.warn(`Rejected ECPay order result ${body?.MerchantTradeNo}: ${verified.errorMessage}`);
+      res.status(400).send('Invalid payment result');
+      return;
+    }
+
+    const params = body as ECPayCallbackParams;
+    let session: CheckoutSessionEntity | undefined;
+    try {
+      session = await this.checkoutSessionService.handleECPayResult(params);
+    } catch (error) {
+      this._Logger.error(`Failed to handle ECPay order result ${params.MerchantTradeNo}: ${error.message}`, error.stack);
+    }
+
+    const succeeded = Number(params.RtnCode) === 1 && session?.status === CheckoutSessionStatus.COMPLETED;
+    res.redirect(303, this.checkoutSessionService.getReturnUrl(session, succeeded));
+  }
+
+  /**
+   * 查詢結帳工作階段
+   * GET /api/v1/checkout-sessions/:sessionId
+   */
+  @Get(':sessionId')
+  public async getSession(@Param('sessionId') sessionId: string): Promise<CustomResult> {
+    this._Logger.log(`Getting checkout session: ${sessionId}`);
+
+    try {
+      const session = await this.checkoutSessionService.getSession(sessionId);
+      if (!session) {
+        throw ErrException.newFromCodeName(errConstants.ERR_CHECKOUT_SESSION_NOT_FOUND);
+      }
+      return this.cmmService.newResultInstance().withResult(session.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to get checkout session: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 取消結帳工作階段，token 立即失效
+   * POST /api/v1/checkout-sessions/:sessionId/cancel
+   */
+  @Post(':sessionId/cancel')
+  public async cancelSession(@Param('sessionId') sessionId: string): Promise<CustomResult> {
+    this._Logger.log(`Canceling checkout session: ${sessionId}`);
+
+    try {
+      const session = await this.checkoutSessionService.cancelSession(sessionId);
+      return this.cmmService.newResultInstance().withResult(session.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to cancel checkout session: ${error.message}`, error.stack);
+      if (error.message.includes('not found')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_CHECKOUT_SESSION_NOT_FOUND);
+      }
+      if (error.message.includes('Invalid checkout session')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_CHECKOUT_SESSION);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+}
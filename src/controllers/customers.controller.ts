@@ -0,0 +1,272 @@
+import { Controller, Get, Put, Post, Body, Param, Query, HttpCode, HttpStatus } from '@nestjs/common';
+import { CommonService, ErrException, errConstants } from '@myapp/common';
+import { LoggerService } from '@nestjs/common';
+import { CustomResult } from '@xxxhand/app-common';
+import { InvoiceService } from '../domain/services/invoices/invoice.service';
+import { CustomerService } from '../domain/services/customer.service';
+import { EntitlementService } from '../domain/services/entitlements/entitlement.service';
+import { CustomerCreditService } from '../domain/services/credits/customer-credit.service';
+import { InvoiceListQueryRequest } from '../domain/value-objects/invoice.request';
+import { CreditEntriesQueryRequest, GrantCreditRequest, RevokeCreditRequest, UpdateEInvoiceSettingsRequest } from '../domain/value-objects/customer.request';
+import { CreditSourceType, EInvoiceRecipientType } from '../domain/enums/codes.const';
+import { Money } from '../domain/value-objects/money';
+import { validateEInvoicePreference } from '../domain/utils/einvoice.util';
+
+@Controller({
+  path: 'customers',
+  version: '1',
+})
+export class CustomersController {
+  private readonly _Logger: LoggerService;
+
+  constructor(
+    private readonly cmmService: CommonService,
+    private readonly invoiceService: InvoiceService,
+    private readonly customerService: CustomerService,
+    private readonly entitlementService: EntitlementService,
+    private readonly customerCreditService: CustomerCreditService,
+  ) {
+    this._Logger = this.cmmService.getDefaultLogger(CustomersController.name);
+  }
+
+  /**
+   * 查詢客戶的發票
+   * GET /api/v1/customers/:customerId/invoices
+   */
+  @Get(':customerId/invoices')
+  public async getInvoices(@Param('customerId') customerId: string, @Query() query: InvoiceListQueryRequest): Promise<CustomResult> {
+    this._Logger.log(`Getting invoices of customer: ${customerId}`);
+
+    try {
+      const result = await this.invoiceService.listCustomerInvoices(customerId, query.page, query.limit);
+      return this.cmmService.newResultInstance().withResult({
+        customerId,
+        invoices: result.invoices.map((invoice) => invoice.toJSON()),
+        pagination: {
+          currentPage: result.page,
+          totalPages: Math.ceil(result.total / result.limit),
+          totalItems: result.total,
+          itemsPerPage: result.limit,
+        },
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to get customer invoices: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 查詢客戶的功能權益與當期用量
+   * GET /api/v1/customers/:customerId/entitlements
+   */
+  @Get(':customerId/entitlements')
+  public async getEntitlements(@Param('customerId') customerId: string): Promise<CustomResult> {
+    this._Logger.log(`Getting entitlements of customer: ${customerId}`);
+
+    try {
+      const customer = await this.customerService.getCustomerById(customerId);
+      if (!customer) {
+        throw ErrException.newFromCodeName(errConstants.ERR_CUSTOMER_NOT_FOUND);
+      }
+
+      const entitlements = await this.entitlementService.getEntitlements(customerId);
+      return this.cmmService.newResultInstance().withResult({ customerId, entitlements });
+    } catch (error) {
+      this._Logger.error(`Failed to get entitlements: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 查詢客戶的電子發票收受設定
+   * GET /api/v1/customers/:customerId/einvoice-settings
+   */
+  @Get(':customerId/einvoice-settings')
+  public async getEInvoiceSettings(@Param('customerId') customerId: string): Promise<CustomResult> {
+    this._Logger.log(`Getting e-invoice settings of customer: ${customerId}`);
+
+    try {
+      const customer = await this.customerService.getCustomerById(customerId);
+      if (!customer) {
+        throw ErrException.newFromCodeName(errConstants.ERR_CUSTOMER_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult({
+        customerId,
+        ...(customer.eInvoicePreference || { type: EInvoiceRecipientType.MEMBER }),
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to get e-invoice settings: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 設定客戶的電子發票收受方式（手機條碼、自然人憑證、統一編號或捐贈）
+   * PUT /api/v1/customers/:customerId/einvoice-settings
+   */
+  @Put(':customerId/einvoice-settings')
+  public async updateEInvoiceSettings(@Param('customerId') customerId: string, @Body() body: UpdateEInvoiceSettingsRequest): Promise<CustomResult> {
+    this._Logger.log(`Updating e-invoice settings of customer: ${customerId}`);
+
+    try {
+      const invalidReason = validateEInvoicePreference(body);
+      if (invalidReason) {
+        this._Logger.warn(`Rejected e-invoice settings of customer ${customerId}: ${invalidReason}`);
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_EINVOICE_SETTINGS);
+      }
+
+      const existing = await this.customerService.getCustomerById(customerId);
+      if (!existing) {
+        throw ErrException.newFromCodeName(errConstants.ERR_CUSTOMER_NOT_FOUND);
+      }
+
+      const customer = await this.customerService.updateEInvoicePreference(customerId, body);
+      return this.cmmService.newResultInstance().withResult({ customerId, ...customer.eInvoicePreference });
+    } catch (error) {
+      this._Logger.error(`Failed to update e-invoice settings: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 查詢客戶各幣別的抵用金餘額
+   * GET /api/v1/customers/:customerId/credit-balance
+   */
+  @Get(':customerId/credit-balance')
+  public async getCreditBalance(@Param('customerId') customerId: string): Promise<CustomResult> {
+    this._Logger.log(`Getting credit balance of customer: ${customerId}`);
+
+    try {
+      const customer = await this.customerService.getCustomerById(customerId);
+      if (!customer) {
+        throw ErrException.newFromCodeName(errConstants.ERR_CUSTOMER_NOT_FOUND);
+      }
+
+      const balances = await this.customerCreditService.getBalances(customerId);
+      return this.cmmService.newResultInstance().withResult({ customerId, balances: balances.map((balance) => balance.toJSON()) });
+    } catch (error) {
+      this._Logger.error(`Failed to get credit balance: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 查詢客戶的抵用金分錄
+   * GET /api/v1/customers/:customerId/credits
+   */
+  @Get(':customerId/credits')
+  public async getCreditEntries(@Param('customerId') customerId: string, @Query() query: CreditEntriesQueryRequest): Promise<CustomResult> {
+    this._Logger.log(`Getting credit entries of customer: ${customerId}`);
+
+    try {
+      const result = await this.customerCreditService.listEntries(customerId, { ...query, currency: query.currency?.toUpperCase() });
+      return this.cmmService.newResultInstance().withResult({
+        customerId,
+        entries: result.entries.map((entry) => entry.toJSON()),
+        pagination: {
+          currentPage: result.page,
+          totalPages: Math.ceil(result.total / result.limit),
+          totalItems: result.total,
+          itemsPerPage: result.limit,
+        },
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to get credit entries: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 管理員為客戶入帳抵用金
+   * POST /api/v1/customers/:customerId/credits/grant
+   */
+  @Post(':customerId/credits/grant')
+  @HttpCode(HttpStatus.OK)
+  public async grantCredit(@Param('customerId') customerId: string, @Body() body: GrantCreditRequest): Promise<CustomResult> {
+    this._Logger.log(`Granting ${body.amount} ${body.currency} credit to customer: ${customerId}`);
+
+    try {
+      const customer = await this.customerService.getCustomerById(customerId);
+      if (!customer) {
+        throw ErrException.newFromCodeName(errConstants.ERR_CUSTOMER_NOT_FOUND);
+      }
+
+      const entry = await this.customerCreditService.grantCredit({
+        customerId,
+        amount: new Money(body.amount, body.currency),
+        source: { type: CreditSourceType.ADMIN },
+        reason: body.reason,
+        actor: body.actor,
+        expiresAt: body.expiresAt ? new Date(body.expiresAt) : undefined,
+      });
+      const balance = await this.customerCreditService.getBalance(customerId, entry.currency);
+      return this.cmmService.newResultInstance().withResult({ entry: entry.toJSON(), balance: balance.toJSON() });
+    } catch (error) {
+      this._Logger.error(`Failed to grant credit: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('is required') || error.message.includes('must be positive') || error.message.includes('must be in the future')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 管理員收回客戶的抵用金
+   * POST /api/v1/customers/:customerId/credits/revoke
+   */
+  @Post(':customerId/credits/revoke')
+  @HttpCode(HttpStatus.OK)
+  public async revokeCredit(@Param('customerId') customerId: string, @Body() body: RevokeCreditRequest): Promise<CustomResult> {
+    this._Logger.log(`Revoking ${body.amount} ${body.currency} credit from customer: ${customerId}`);
+
+    try {
+      const customer = await this.customerService.getCustomerById(customerId);
+      if (!customer) {
+        throw ErrException.newFromCodeName(errConstants.ERR_CUSTOMER_NOT_FOUND);
+      }
+
+      const entry = await this.customerCreditService.revokeCredit({
+        customerId,
+        amount: new Money(body.amount, body.currency),
+        reason: body.reason,
+        actor: body.actor,
+      });
+      const balance = await this.customerCreditService.getBalance(customerId, entry.currency);
+      return this.cmmService.newResultInstance().withResult({ entry: entry.toJSON(), balance: balance.toJSON() });
+    } catch (error) {
+      this._Logger.error(`Failed to revoke credit: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('Insufficient credit balance')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INSUFFICIENT_CREDIT);
+      }
+      if (error.message.includes('is required') || error.message.includes('must be positive')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import * as fs from 'fs-extra';
+import { Controller, Post, Get, Body, Param, Query, UploadedFile } from '@nestjs/common';
+import { CommonService, ErrException, errConstants } from '@myapp/common';
+import { LoggerService } from '@nestjs/common';
+import { CustomResult } from '@xxxhand/app-common';
+import { DisputeService } from '../domain/services/disputes/dispute.service';
+import {
+  DisputeQueryRequest,
+  OpenDisputeRequest,
+  ResolveDisputeRequest,
+  SubmitDisputeResponseRequest,
+  UploadDisputeEvidenceRequest,
+} from '../domain/value-objects/dispute.request';
+import { SingleUploadFileInterceptor } from '../app-components/single-upload-file.interceptor';
+
+@Controller({
+  path: 'disputes',
+  version: '1',
+})
+export class DisputesController {
+  private readonly _Logger: LoggerService;
+
+  constructor(
+    private readonly cmmService: CommonService,
+    private readonly disputeService: DisputeService,
+  ) {
+    this._Logger = this.cmmService.getDefaultLogger(DisputesController.name);
+  }
+
+  /**
+   * 人工登錄爭議（閘道未以 webhook 通知的退單）
+   * POST /api/v1/disputes
+   */
+  @Post()
+  public async openDispute(@Body() body: OpenDisputeRequest): Promise<CustomResult> {
+    this._Logger.log(`Opening dispute for payment: ${body.paymentId}`);
+
+    try {
+      const dispute = await this.disputeService.openDispute({
+        paymentId: body.paymentId,
+        amount: body.amount,
+        reason: body.reason,
+        responseDueBy: body.responseDueBy ? new Date(body.responseDueBy) : undefined,
+        gatewayDisputeId: body.gatewayDisputeId,
+      });
+      return this.cmmService.newResultInstance().withResult(dispute.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to open dispute: ${error.message}`, error.stack);
+      if (error.message.includes('Payment with ID')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PAYMENT_NOT_FOUND);
+      }
+      if (error.message.includes('Cannot dispute payment') || error.message.includes('Dispute amount')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PAYMENT_NOT_DISPUTABLE);
+      }
+      if (error.message.includes('already has an open dispute')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_DISPUTE_ALREADY_OPEN);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 列出爭議，例如即將到期待回覆的爭議
+   * GET /api/v1/disputes?status=NEEDS_RESPONSE&dueBefore=2024-03-10T00:00:00Z
+   */
+  @Get()
+  public async listDisputes(@Query() query: DisputeQueryRequest): Promise<CustomResult> {
+    this._Logger.log(`Listing disputes: status=${query.status}, dueBefore=${query.dueBefore}`);
+
+    try {
+      const result = await this.disputeService.listDisputes({ ...query, dueBefore: query.dueBefore ? new Date(query.dueBefore) : undefined });
+      return this.cmmService.newResultInstance().withResult({
+        disputes: result.disputes.map((dispute) => dispute.toJSON()),
+        pagination: {
+          currentPage: result.page,
+          totalPages: Math.ceil(result.total / result.limit),
+          totalItems: result.total,
+          itemsPerPage: result.limit,
+        },
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to list disputes: ${error.message}`, error.stack);
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 查詢爭議
+   * GET /api/v1/disputes/:disputeId
+   */
+  @Get(':disputeId')
+  public async getDispute(@Param('disputeId') disputeId: string): Promise<CustomResult> {
+    this._Logger.log(`Getting dispute: ${disputeId}`);
+
+    try {
+      const dispute = await this.disputeService.getDispute(disputeId);
+      if (!dispute) {
+        throw ErrException.newFromCodeName(errConstants.ERR_DISPUTE_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult(dispute.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to get dispute: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 上傳證據附件（multipart，檔案欄位為 file）
+   * POST /api/v1/disputes/:disputeId/evidence
+   */
+  @Post(':disputeId/evidence')
+  @SingleUploadFileInterceptor()
+  public async uploadEvidence(
+    @Param('disputeId') disputeId: string,
+    @Body() body: UploadDisputeEvidenceRequest,
+    @UploadedFile() uploadedFile: Express.Multer.File,
+  ): Promise<CustomResult> {
+    this._Logger.log(`Uploading dispute evidence: dispute=${disputeId}, file=${uploadedFile?.originalname}`);
+
+    try {
+      if (!uploadedFile) {
+        throw ErrException.newFromCodeName(errConstants.ERR_DISPUTE_EVIDENCE_REQUIRED);
+      }
+
+      const dispute = await this.disputeService.addEvidence(disputeId, {
+        filePath: uploadedFile.path,
+        fileName: uploadedFile.originalname,
+        contentType: uploadedFile.mimetype,
+        size: uploadedFile.size,
+        description: body.description,
+        uploadedBy: body.uploadedBy,
+      });
+      return this.cmmService.newResultInstance().withResult(dispute.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to upload dispute evidence: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('not found')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_DISPUTE_NOT_FOUND);
+      }
+      if (error.message.includes('Cannot add evidence')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_DISPUTE_STATUS_INVALID);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    } finally {
+      if (uploadedFile) {
+        fs.remove(uploadedFile.path).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * 提交爭議回覆，閘道支援時一併送出證據
+   * POST /api/v1/disputes/:disputeId/response
+   */
+  @Post(':disputeId/response')
+  public async submitResponse(@Param('disputeId') disputeId: string, @Body() body: SubmitDisputeResponseRequest): Promise<CustomResult> {
+    this._Logger.log(`Submitting dispute response: ${disputeId}`);
+
+    try {
+      const dispute = await this.disputeService.submitResponse(disputeId, body.note);
+      return this.cmmService.newResultInstance().withResult(dispute.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to submit dispute response: ${error.message}`, error.stack);
+      if (error.message.includes('not found')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_DISPUTE_NOT_FOUND);
+      }
+      if (error.message.includes('requires at least one evidence')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_DISPUTE_EVIDENCE_REQUIRED);
+      }
+      if (error.message.includes('Cannot transition dispute')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_DISPUTE_STATUS_INVALID);
+      }
+      if (error.message.includes('Gateway rejected dispute response')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_DISPUTE_RESPONSE_FAILED);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 登錄爭議結果（閘道不以 webhook 通知結果時），敗訴時扣回付款金額
+   * POST /api/v1/disputes/:disputeId/resolve
+   */
+  @Post(':disputeId/resolve')
+  public async resolveDispute(@Param('disputeId') disputeId: string, @Body() body: ResolveDisputeRequest): Promise<CustomResult> {
+    this._Logger.log(`Resolving dispute: ${disputeId} as ${body.outcome}`);
+
+    try {
+      const dispute = await this.disputeService.resolveDispute(disputeId, body.outcome, body.note);
+      return this.cmmService.newResultInstance().withResult(dispute.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to resolve dispute: ${error.message}`, error.stack);
+      if (error.message.includes('not found')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_DISPUTE_NOT_FOUND);
+      }
+      if (error.message.includes('already closed')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_DISPUTE_STATUS_INVALID);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+}
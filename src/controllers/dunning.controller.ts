@@ -0,0 +1,191 @@
+import { Controller, Post, Get, Put, Body, Param, Query } from '@nestjs/common';
+import { CommonService, ErrException, errConstants } from '@myapp/common';
+import { LoggerService } from '@nestjs/common';
+import { CustomResult } from '@xxxhand/app-common';
+import { DunningCampaignService } from '../domain/services/dunning/dunning-campaign.service';
+import { DunningService } from '../domain/services/dunning/dunning.service';
+import { SubscriptionService } from '../domain/services/subscription.service';
+import { CreateDunningCampaignRequest, UpdateDunningCampaignRequest, DunningProcessQueryRequest, DunningSummaryQueryRequest } from '../domain/value-objects/dunning.request';
+
+@Controller({
+  path: 'dunning',
+  version: '1',
+})
+export class DunningController {
+  private readonly _Logger: LoggerService;
+
+  constructor(
+    private readonly cmmService: CommonService,
+    private readonly dunningCampaignService: DunningCampaignService,
+    private readonly dunningService: DunningService,
+    private readonly subscriptionService: SubscriptionService,
+  ) {
+    this._Logger = this.cmmService.getDefaultLogger(DunningController.name);
+  }
+
+  /**
+   * 建立催收活動
+   * POST /api/v1/dunning/campaigns
+   */
+  @Post('campaigns')
+  public async createCampaign(@Body() body: CreateDunningCampaignRequest): Promise<CustomResult> {
+    this._Logger.log(`Creating dunning campaign: ${body.name}`);
+
+    try {
+      const campaign = await this.dunningCampaignService.createCampaign(body);
+      return this.cmmService.newResultInstance().withResult(campaign.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to create dunning campaign: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('Invalid dunning schedule')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 列出催收活動
+   * GET /api/v1/dunning/campaigns
+   */
+  @Get('campaigns')
+  public async listCampaigns(): Promise<CustomResult> {
+    this._Logger.log('Listing dunning campaigns');
+
+    try {
+      const campaigns = await this.dunningCampaignService.listCampaigns();
+      return this.cmmService.newResultInstance().withResult({
+        campaigns: campaigns.map((campaign) => campaign.toJSON()),
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to list dunning campaigns: ${error.message}`, error.stack);
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 查詢催收活動
+   * GET /api/v1/dunning/campaigns/:campaignId
+   */
+  @Get('campaigns/:campaignId')
+  public async getCampaign(@Param('campaignId') campaignId: string): Promise<CustomResult> {
+    this._Logger.log(`Getting dunning campaign: ${campaignId}`);
+
+    try {
+      const campaign = await this.dunningCampaignService.getCampaign(campaignId);
+      if (!campaign) {
+        throw ErrException.newFromCodeName(errConstants.ERR_DUNNING_CAMPAIGN_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult(campaign.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to get dunning campaign: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 更新催收活動，進行中的流程不受影響
+   * PUT /api/v1/dunning/campaigns/:campaignId
+   */
+  @Put('campaigns/:campaignId')
+  public async updateCampaign(@Param('campaignId') campaignId: string, @Body() body: UpdateDunningCampaignRequest): Promise<CustomResult> {
+    this._Logger.log(`Updating dunning campaign: ${campaignId}`);
+
+    try {
+      const campaign = await this.dunningCampaignService.updateCampaign(campaignId, body);
+      if (!campaign) {
+        throw ErrException.newFromCodeName(errConstants.ERR_DUNNING_CAMPAIGN_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult(campaign.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to update dunning campaign: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('Invalid dunning schedule')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 依狀態、階段與活動查詢催收流程
+   * GET /api/v1/dunning/processes?status=ACTIVE&stage=1&campaignId=xxx
+   */
+  @Get('processes')
+  public async listProcesses(@Query() query: DunningProcessQueryRequest): Promise<CustomResult> {
+    this._Logger.log(`Listing dunning processes: status=${query.status}, stage=${query.stage}`);
+
+    try {
+      const result = await this.dunningService.listProcesses(query);
+      return this.cmmService.newResultInstance().withResult({
+        processes: result.processes.map((process) => process.toJSON()),
+        pagination: {
+          currentPage: result.page,
+          totalPages: Math.ceil(result.total / result.limit),
+          totalItems: result.total,
+          itemsPerPage: result.limit,
+        },
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to list dunning processes: ${error.message}`, error.stack);
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 各活動與階段的流程數，預設只統計進行中的流程
+   * GET /api/v1/dunning/processes/summary?status=ACTIVE
+   */
+  @Get('processes/summary')
+  public async getStageSummary(@Query() query: DunningSummaryQueryRequest): Promise<CustomResult> {
+    this._Logger.log(`Getting dunning stage summary: status=${query.status}`);
+
+    try {
+      const stages = await this.dunningService.getStageSummary(query.status);
+      return this.cmmService.newResultInstance().withResult({
+        stages,
+        total: stages.reduce((sum, stage) => sum + stage.count, 0),
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to get dunning stage summary: ${error.message}`, error.stack);
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 查詢訂閱的催收紀錄
+   * GET /api/v1/dunning/subscriptions/:subscriptionId
+   */
+  @Get('subscriptions/:subscriptionId')
+  public async getSubscriptionProcesses(@Param('subscriptionId') subscriptionId: string): Promise<CustomResult> {
+    this._Logger.log(`Getting dunning processes of subscription: ${subscriptionId}`);
+
+    try {
+      const subscription = await this.subscriptionService.getSubscriptionById(subscriptionId);
+      if (!subscription) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SUBSCRIPTION_NOT_FOUND);
+      }
+
+      const processes = await this.dunningService.getSubscriptionProcesses(subscriptionId);
+      return this.cmmService.newResultInstance().withResult({
+        subscriptionId,
+        processes: processes.map((process) => process.toJSON()),
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to get subscription dunning processes: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+}
@@ -2,6 +2,8 @@ import { Controller, Post, Body, Req, Res, Logger, BadRequestException } from '@
 import { Request, Response } from 'express';
 import { PaymentGatewayManager } from '../domain/services/payment/payment-gateway-manager.service';
 import { ECPayCallbackParams } from '../domain/interfaces/payment/ecpay.interface';
+import { CheckoutSessionService } from '../domain/services/checkout/checkout-session.service';
+import { PeriodBillingService } from '../domain/services/period-billing/period-billing.service';
 
 /**
  * ECPay Webhook 控制器
@@ -11,7 +13,11 @@ import { ECPayCallbackParams } from '../domain/interfaces/payment/ecpay.interfac
 export class ECPayWebhookController {
   private readonly logger = new Logger(ECPayWebhookController.name);
 
-  constructor(private readonly paymentGatewayManager: PaymentGatewayManager) {}
+  constructor(
+    private readonly paymentGatewayManager: PaymentGatewayManager,
+    private readonly checkoutSessionService: CheckoutSessionService,
+    private readonly periodBillingService: PeriodBillingService,
+  ) {}
 
   /**
    * 處理 ECPay 支付結果回調
@@ -68,6 +74,33 @@ export class ECPayWebhookController {
     }
   }
 
+  /**
+   * 處理 ECPay 定期定額每期授權結果回調 (PeriodReturnURL)
+   */
+  @Post('period')
+  async handlePeriodCallback(@Body() body: any, @Req() req: Request, @Res() res: Response) {
+    this.logger.log('Received ECPay period callback', {
+      merchantTradeNo: body.MerchantTradeNo,
+      gwsr: body.Gwsr,
+      rtnCode: body.RtnCode,
+      ip: req.ip,
+    });
+
+    try {
+      await this.periodBillingService.handlePeriodCallback('ecpay', body);
+
+      // ECPay 要求成功時回應 "1|OK"
+      res.status(200).send('1|OK');
+    } catch (error) {
+      this.logger.error('ECPay period callback processing error', error, {
+        merchantTradeNo: body.MerchantTradeNo,
+      });
+
+      // ECPay 要求回應 "0|失敗原因"
+      res.status(500).send(`0|${error.message || 'Internal server error'}`);
+    }
+  }
+
   /**
    * 處理支付結果的業務邏輯
    */
@@ -75,6 +108,11 @@ export class ECPayWebhookController {
     const { MerchantTradeNo, RtnCode, TradeAmt, PaymentDate, PaymentType } = params;
 
     try {
+      // 結帳工作階段建立的交易：綁定支付方式並結清未付款項
+      await this.checkoutSessionService.handleECPayResult(params);
+      // 定期定額的首次授權結果由 ReturnURL 通知
+      await this.periodBillingService.recordPeriodResult(params);
+
       // 根據回傳碼處理不同狀況
       if (RtnCode === 1) {
         // 支付成功
@@ -0,0 +1,41 @@
+import { Body, Controller, HttpCode, HttpStatus, Post } from '@nestjs/common';
+import { CommonService, ErrException, errConstants } from '@myapp/common';
+import { LoggerService } from '@nestjs/common';
+import { CustomResult } from '@xxxhand/app-common';
+import { EntitlementService } from '../domain/services/entitlements/entitlement.service';
+import { CheckEntitlementRequest } from '../domain/value-objects/entitlement.request';
+
+@Controller({
+  path: 'entitlements',
+  version: '1',
+})
+export class EntitlementsController {
+  private readonly _Logger: LoggerService;
+
+  constructor(
+    private readonly cmmService: CommonService,
+    private readonly entitlementService: EntitlementService,
+  ) {
+    this._Logger = this.cmmService.getDefaultLogger(EntitlementsController.name);
+  }
+
+  /**
+   * 檢查客戶可否使用功能
+   * POST /api/v1/entitlements/check
+   * 拒絕使用不視為錯誤，以 allowed = false 與 reason 回應
+   */
+  @Post('check')
+  @HttpCode(HttpStatus.OK)
+  public async check(@Body() body: CheckEntitlementRequest): Promise<CustomResult> {
+    try {
+      const result = await this.entitlementService.check(body);
+      return this.cmmService.newResultInstance().withResult(result);
+    } catch (error) {
+      this._Logger.error(`Failed to check entitlement: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { Controller, Get, Param, Query, Res, StreamableFile } from '@nestjs/common';
+import { CommonService, ErrException, errConstants } from '@myapp/common';
+import { LoggerService } from '@nestjs/common';
+import { CustomResult } from '@xxxhand/app-common';
+import { Response } from 'express';
+import { InvoiceService } from '../domain/services/invoices/invoice.service';
+import { InvoiceRendererService } from '../domain/services/invoices/invoice-renderer.service';
+import { InvoiceFormatQueryRequest } from '../domain/value-objects/invoice.request';
+
+@Controller({
+  path: 'invoices',
+  version: '1',
+})
+export class InvoicesController {
+  private readonly _Logger: LoggerService;
+
+  constructor(
+    private readonly cmmService: CommonService,
+    private readonly invoiceService: InvoiceService,
+    private readonly invoiceRenderer: InvoiceRendererService,
+  ) {
+    this._Logger = this.cmmService.getDefaultLogger(InvoicesController.name);
+  }
+
+  /**
+   * 查詢發票
+   * GET /api/v1/invoices/:invoiceId?format=json|html|pdf
+   */
+  @Get(':invoiceId')
+  public async getInvoice(
+    @Param('invoiceId') invoiceId: string,
+    @Query() query: InvoiceFormatQueryRequest,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<CustomResult | string | StreamableFile> {
+    this._Logger.log(`Getting invoice: ${invoiceId} (${query.format})`);
+
+    try {
+      const invoice = await this.invoiceService.getInvoice(invoiceId);
+      if (!invoice) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVOICE_NOT_FOUND);
+      }
+
+      if (query.format === 'html') {
+        res.type('text/html');
+        return this.invoiceRenderer.renderHtml(invoice);
+      }
+      if (query.format === 'pdf') {
+        return new StreamableFile(this.invoiceRenderer.renderPdf(invoice), {
+          type: 'application/pdf',
+          disposition: `inline; filename="${invoice.invoiceNumber}.pdf"`,
+        });
+      }
+
+      return this.cmmService.newResultInstance().withResult(invoice.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to get invoice: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+}
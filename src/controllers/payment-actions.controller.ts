@@ -0,0 +1,79 @@
+import { Controller, Get, Post, Body, Query } from '@nestjs/common';
+import { CommonService, ErrException, errConstants } from '@myapp/common';
+import { LoggerService } from '@nestjs/common';
+import { CustomResult } from '@xxxhand/app-common';
+import { PaymentActionService } from '../domain/services/payment-actions/payment-action.service';
+import { ConfirmPaymentActionRequest } from '../domain/value-objects/payment.request';
+import { PaymentEntity } from '../domain/entities';
+
+@Controller({
+  path: 'payment-actions',
+  version: '1',
+})
+export class PaymentActionsController {
+  private readonly _Logger: LoggerService;
+
+  constructor(
+    private readonly cmmService: CommonService,
+    private readonly paymentActionService: PaymentActionService,
+  ) {
+    this._Logger = this.cmmService.getDefaultLogger(PaymentActionsController.name);
+  }
+
+  /**
+   * 驗證通知中的付款驗證連結，回傳付款與驗證所需的導向網址
+   * GET /api/v1/payment-actions?token=xxx
+   */
+  @Get()
+  public async resolveActionLink(@Query('token') token: string): Promise<CustomResult> {
+    this._Logger.log('Resolving payment action link');
+
+    try {
+      const link = await this.paymentActionService.resolveActionLink(token);
+      return this.cmmService.newResultInstance().withResult({ ...this.toResult(link.payment), expiresAt: link.expiresAt });
+    } catch (error) {
+      this._Logger.error(`Failed to resolve payment action link: ${error.message}`, error.stack);
+      if (error.message.includes('Invalid or expired payment action link')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_PAYMENT_ACTION_LINK);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 客戶完成驗證後確認付款，回傳確認後的付款狀態
+   * POST /api/v1/payment-actions/confirm
+   */
+  @Post('confirm')
+  public async confirmAction(@Body() body: ConfirmPaymentActionRequest): Promise<CustomResult> {
+    this._Logger.log('Confirming payment action');
+
+    try {
+      const payment = await this.paymentActionService.confirmAction(body.token);
+      return this.cmmService.newResultInstance().withResult(this.toResult(payment));
+    } catch (error) {
+      this._Logger.error(`Failed to confirm payment action: ${error.message}`, error.stack);
+      if (error.message.includes('Invalid or expired payment action link')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_PAYMENT_ACTION_LINK);
+      }
+      if (error.message.includes('not awaiting customer action')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PAYMENT_ACTION_NOT_PENDING);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  private toResult(payment: PaymentEntity): Record<string, any> {
+    return {
+      paymentId: payment.id,
+      subscriptionId: payment.subscriptionId,
+      amount: payment.amount,
+      currency: payment.currency,
+      status: payment.status,
+      action: payment.isAwaitingAction()
+        ? { type: payment.customerAction.type, redirectUrl: payment.customerAction.redirectUrl, expiresAt: payment.customerAction.expiresAt }
+        : undefined,
+      failureReason: payment.failureDetails?.errorMessage,
+    };
+  }
+}
@@ -1,9 +1,11 @@
-import { Controller, Get, Post, Put, Param, Body, Query, HttpException, HttpStatus } from '@nestjs/common';
+import { Controller, Get, Post, Put, Param, Body, Query, HttpException, HttpStatus, UseInterceptors } from '@nestjs/common';
 import { CommonService } from '@myapp/common';
 import { LoggerService } from '@nestjs/common';
 import { CustomResult } from '@xxxhand/app-common';
 import { PaymentService } from '../domain/services/payment.service';
 import { CreatePaymentRequest, PaymentQueryRequest, PaymentOperationRequest, RefundRequest } from '../domain/value-objects/payment.request';
+import { BillingAttemptQueryRequest } from '../domain/value-objects/billing.request';
+import { IdempotencyInterceptor } from '../app-components/idempotency.interceptor';
 
 @Controller({
   path: 'payments',
@@ -20,10 +22,11 @@ export class PaymentsController {
   }
 
   /**
-   * 創建支付記錄
+   * 創建支付記錄，支援 Idempotency-Key
    * POST /api/v1/payments
    */
   @Post()
+  @UseInterceptors(IdempotencyInterceptor)
   public async createPayment(@Body() body: CreatePaymentRequest): Promise<CustomResult> {
     this._Logger.log(`Creating payment for subscription: ${body.subscriptionId}`);
 
@@ -137,10 +140,11 @@ export class PaymentsController {
   }
 
   /**
-   * 開始支付嘗試
+   * 開始支付嘗試，支援 Idempotency-Key
    * POST /api/v1/payments/:id/attempt
    */
   @Post(':id/attempt')
+  @UseInterceptors(IdempotencyInterceptor)
   public async startPaymentAttempt(@Param('id') id: string): Promise<CustomResult> {
     this._Logger.log(`Starting payment attempt: ${id}`);
 
@@ -169,10 +173,46 @@ export class PaymentsController {
   }
 
   /**
-   * 標記支付成功
+   * 查詢支付的計費嘗試歷史
+   * GET /api/v1/payments/:id/attempts
+   */
+  @Get(':id/attempts')
+  public async getPaymentAttempts(@Param('id') id: string, @Query() query: BillingAttemptQueryRequest): Promise<CustomResult> {
+    this._Logger.log(`Getting attempts for payment: ${id}`);
+
+    try {
+      const payment = await this.paymentService.getPaymentById(id);
+      if (!payment) {
+        throw new HttpException('Payment not found', HttpStatus.NOT_FOUND);
+      }
+
+      const result = await this.paymentService.getPaymentAttempts(id, query);
+
+      return this.cmmService.newResultInstance().withResult({
+        paymentId: id,
+        attempts: result.attempts.map((attempt) => attempt.toJSON()),
+        pagination: {
+          currentPage: result.page,
+          totalPages: Math.ceil(result.total / result.limit),
+          totalItems: result.total,
+          itemsPerPage: result.limit,
+        },
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to get payment attempts: ${error.message}`, error.stack);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException('Failed to get payment attempts', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 標記支付成功，支援 Idempotency-Key
    * PUT /api/v1/payments/:id/success
    */
   @Put(':id/success')
+  @UseInterceptors(IdempotencyInterceptor)
   public async markPaymentSucceeded(@Param('id') id: string, @Body() body: PaymentOperationRequest): Promise<CustomResult> {
     this._Logger.log(`Marking payment as succeeded: ${id}`);
 
@@ -198,10 +238,11 @@ export class PaymentsController {
   }
 
   /**
-   * 標記支付失敗
+   * 標記支付失敗，支援 Idempotency-Key
    * PUT /api/v1/payments/:id/failure
    */
   @Put(':id/failure')
+  @UseInterceptors(IdempotencyInterceptor)
   public async markPaymentFailed(@Param('id') id: string, @Body() body: PaymentOperationRequest): Promise<CustomResult> {
     this._Logger.log(`Marking payment as failed: ${id}`);
 
@@ -228,10 +269,11 @@ export class PaymentsController {
   }
 
   /**
-   * 取消支付
+   * 取消支付，支援 Idempotency-Key
    * PUT /api/v1/payments/:id/cancel
    */
   @Put(':id/cancel')
+  @UseInterceptors(IdempotencyInterceptor)
   public async cancelPayment(@Param('id') id: string): Promise<CustomResult> {
     this._Logger.log(`Canceling payment: ${id}`);
 
@@ -256,10 +298,11 @@ export class PaymentsController {
   }
 
   /**
-   * 處理退款
+   * 處理退款，支援 Idempotency-Key
    * POST /api/v1/payments/:id/refund
    */
   @Post(':id/refund')
+  @UseInterceptors(IdempotencyInterceptor)
   public async processRefund(@Param('id') id: string, @Body() body: RefundRequest): Promise<CustomResult> {
     this._Logger.log(`Processing refund for payment: ${id}`);
 
@@ -426,10 +469,11 @@ export class PaymentsController {
   }
 
   /**
-   * 重試失敗的支付
+   * 重試失敗的支付，支援 Idempotency-Key
    * POST /api/v1/payments/:paymentId/retry
    */
   @Post(':paymentId/retry')
+  @UseInterceptors(IdempotencyInterceptor)
   public async retryPayment(@Param('paymentId') paymentId: string, @Body() body: { paymentMethodId?: string }): Promise<CustomResult> {
     this._Logger.log(`Retrying payment: ${paymentId}, new payment method: ${body.paymentMethodId || 'original'}`);
 
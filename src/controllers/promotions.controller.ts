@@ -1,8 +1,17 @@
-import { Controller, Post, Get, Body, Query, HttpCode, HttpStatus } from '@nestjs/common';
+import { Controller, Post, Get, Put, Body, Param, Query, HttpCode, HttpStatus, StreamableFile } from '@nestjs/common';
 import { CommonService, ErrException, errConstants } from '@myapp/common';
 import { LoggerService } from '@nestjs/common';
 import { CustomResult } from '@xxxhand/app-common';
-import { ValidatePromotionRequest } from '../domain/value-objects/promotion.request';
+import { PromotionService } from '../domain/services/promotion.service';
+import { ProductService } from '../domain/services/product.service';
+import { buildCouponCodesCsv } from '../domain/utils/coupon-code.util';
+import {
+  ValidatePromotionRequest,
+  CreatePromotionRequest,
+  UpdatePromotionRequest,
+  GenerateCouponCodesRequest,
+  ExportCouponCodesRequest,
+} from '../domain/value-objects/promotion.request';
 
 @Controller({
   path: 'promotions',
@@ -11,7 +20,11 @@ import { ValidatePromotionRequest } from '../domain/value-objects/promotion.requ
 export class PromotionsController {
   private readonly _Logger: LoggerService;
 
-  constructor(private readonly cmmService: CommonService) {
+  constructor(
+    private readonly cmmService: CommonService,
+    private readonly promotionService: PromotionService,
+    private readonly productService: ProductService,
+  ) {
     this._Logger = this.cmmService.getDefaultLogger(PromotionsController.name);
   }
 
@@ -30,173 +43,30 @@ export class PromotionsController {
         throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
       }
 
-      // TODO: 實作優惠碼驗證邏輯，目前返回模擬數據
-      const mockPromotions: { [key: string]: any } = {
-        SUMMER2024: {
-          code: 'SUMMER2024',
-          name: 'Summer 2024 Promotion',
-          description: '夏季限時優惠',
-          type: 'PERCENTAGE',
-          status: 'ACTIVE',
-          discount: {
-            type: 'PERCENTAGE',
-            value: 20,
-            applicablePeriod: {
-              startDate: '2024-06-01T00:00:00Z',
-              endDate: '2024-08-31T23:59:59Z',
-            },
-          },
-          eligibility: {
-            productRestrictions: [body.productId],
-            customerRestrictions: body.customerId ? [body.customerId] : [],
-            usageLimit: 1,
-            remainingUses: 1,
-          },
-        },
-        EXPIRED2023: {
-          code: 'EXPIRED2023',
-          name: 'Expired Promotion',
-          description: '已過期優惠',
-          type: 'PERCENTAGE',
-          status: 'EXPIRED',
-          discount: {
-            type: 'PERCENTAGE',
-            value: 15,
-            applicablePeriod: {
-              startDate: '2023-06-01T00:00:00Z',
-              endDate: '2023-08-31T23:59:59Z',
-            },
-          },
-          eligibility: {
-            productRestrictions: [],
-            customerRestrictions: [],
-            usageLimit: 1,
-            remainingUses: 0,
-          },
-        },
-        PREMIUM_ONLY: {
-          code: 'PREMIUM_ONLY',
-          name: 'Premium Product Only',
-          description: '僅限高級產品',
-          type: 'FIXED_AMOUNT',
-          status: 'ACTIVE',
-          discount: {
-            type: 'FIXED_AMOUNT',
-            value: 100,
-            applicablePeriod: {
-              startDate: '2024-01-01T00:00:00Z',
-              endDate: '2024-12-31T23:59:59Z',
-            },
-          },
-          eligibility: {
-            productRestrictions: ['prod_premium_monthly'],
-            customerRestrictions: [],
-            usageLimit: 1,
-            remainingUses: 1,
-          },
-        },
-        NEW_CUSTOMER_ONLY: {
-          code: 'NEW_CUSTOMER_ONLY',
-          name: 'New Customer Only',
-          description: '僅限新用戶',
-          type: 'FIXED_AMOUNT',
-          status: 'ACTIVE',
-          discount: {
-            type: 'FIXED_AMOUNT',
-            value: 150,
-            applicablePeriod: {
-              startDate: '2024-01-01T00:00:00Z',
-              endDate: '2024-12-31T23:59:59Z',
-            },
-          },
-          eligibility: {
-            productRestrictions: [],
-            customerRestrictions: ['cust_new_user_only'],
-            usageLimit: 1,
-            remainingUses: 1,
-          },
-        },
-      };
-
-      const promotion = mockPromotions[body.code];
-
-      if (!promotion) {
-        throw ErrException.newFromCodeName(errConstants.ERR_PROMOTION_NOT_FOUND);
-      }
-
-      // Check if it's an expired promotion
-      if (promotion.status === 'EXPIRED') {
-        return this.cmmService
-          .newResultInstance()
-          .withCode(200)
-          .withMessage('Success')
-          .withResult({
-            valid: false,
-            promotion,
-            discount: promotion.discount,
-            eligibility: {
-              ...promotion.eligibility,
-              eligible: false,
-              reasons: ['Promotion code has expired'],
-            },
-          });
-      }
-
-      // Check product eligibility
-      if (promotion.eligibility.productRestrictions.length > 0 && !promotion.eligibility.productRestrictions.includes(body.productId)) {
-        return this.cmmService
-          .newResultInstance()
-          .withCode(200)
-          .withMessage('Success')
-          .withResult({
-            valid: false,
-            promotion,
-            discount: promotion.discount,
-            eligibility: {
-              ...promotion.eligibility,
-              eligible: false,
-              reasons: ['Product not eligible for this promotion'],
-            },
-          });
-      }
-
-      // Check customer eligibility
-      if (promotion.eligibility.customerRestrictions.length > 0 && body.customerId && !promotion.eligibility.customerRestrictions.includes(body.customerId)) {
-        return this.cmmService
-          .newResultInstance()
-          .withCode(200)
-          .withMessage('Success')
-          .withResult({
-            valid: false,
-            promotion,
-            discount: promotion.discount,
-            eligibility: {
-              ...promotion.eligibility,
-              eligible: false,
-              reasons: ['Customer not eligible for this promotion'],
-            },
-          });
-      }
+      const result = await this.promotionService.validatePromotion({
+        code: body.code,
+        productId: body.productId,
+        customerId: body.customerId,
+      });
 
       return this.cmmService
         .newResultInstance()
         .withCode(200)
         .withMessage('Success')
         .withResult({
-          valid: true,
-          promotion,
-          discount: promotion.discount,
-          eligibility: {
-            ...promotion.eligibility,
-            eligible: true,
-            reasons: [],
-          },
+          valid: result.valid,
+          promotion: result.promotion.toJSON(),
+          discount: result.discount || result.promotion.discount,
+          eligibility: result.eligibility,
         });
     } catch (error) {
       this._Logger.error(`Failed to validate promotion: ${error.message}`, error.stack);
       if (error instanceof ErrException) {
         throw error;
       }
+      if (error.message.includes('Promotion code not found')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PROMOTION_NOT_FOUND);
+      }
       throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
     }
   }
@@ -215,75 +85,23 @@ export class PromotionsController {
         throw ErrException.newFromCodeName(errConstants.ERR_PRODUCT_ID_REQUIRED);
       }
 
-      // Handle non-existent product
-      if (productId === 'prod_nonexistent') {
+      // 不存在的產品沒有可用優惠
+      const { product } = await this.productService.getProductById(productId);
+      if (!product) {
         return this.cmmService.newResultInstance().withCode(200).withMessage('Success').withResult({
           promotions: [],
         });
       }
 
-      // TODO: 實作可用優惠查詢邏輯，目前返回模擬數據
-      const allPromotions = [
-        {
-          code: 'WELCOME2024',
-          name: '新用戶歡迎優惠',
-          description: '新用戶註冊首次訂閱享有100元折扣',
-          type: 'FIXED_AMOUNT',
-          discount: {
-            type: 'FIXED_AMOUNT',
-            value: 100,
-            currency: 'TWD',
-          },
-          validFrom: '2024-01-01T00:00:00Z',
-          validUntil: '2024-12-31T23:59:59Z',
-          status: 'ACTIVE',
-          usageLimit: 1,
-          currentUsage: 0,
-          remainingUsage: 1,
-          autoApply: false,
-          stackable: false,
-          eligibility: {
-            newCustomersOnly: true,
-            minimumOrderValue: 500,
-          },
-        },
-        {
-          code: 'ANNUAL20',
-          name: '年繳優惠',
-          description: '選擇年繳方案享有20%折扣',
-          type: 'PERCENTAGE',
-          discount: {
-            type: 'PERCENTAGE',
-            value: 20,
-            currency: 'TWD',
-          },
-          validFrom: '2024-01-01T00:00:00Z',
-          validUntil: '2024-12-31T23:59:59Z',
-          status: 'ACTIVE',
-          usageLimit: -1,
-          currentUsage: 5,
-          remainingUsage: -1,
-          autoApply: true,
-          stackable: true,
-          eligibility: {
-            newCustomersOnly: false,
-            minimumOrderValue: 1000,
-          },
-          conditions: {
-            billingCycle: 'YEARLY',
-          },
-        },
-      ];
-
-      // Filter by type if specified
-      let filteredPromotions = allPromotions;
-      if (type) {
-        filteredPromotions = allPromotions.filter((p) => p.type === type);
-      }
-
-      return this.cmmService.newResultInstance().withCode(200).withMessage('Success').withResult({
-        promotions: filteredPromotions,
-      });
+      const { promotions } = await this.promotionService.getAvailablePromotions({ productId, customerId, type });
+
+      return this.cmmService
+        .newResultInstance()
+        .withCode(200)
+        .withMessage('Success')
+        .withResult({
+          promotions: promotions.map((promotion) => promotion.toJSON()),
+        });
     } catch (error) {
       this._Logger.error(`Failed to get available promotions: ${error.message}`, error.stack);
       if (error instanceof ErrException) {
@@ -292,4 +110,260 @@ export class PromotionsController {
       throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
     }
   }
+
+  /**
+   * 建立優惠
+   * POST /api/v1/promotions
+   */
+  @Post()
+  public async createPromotion(@Body() body: CreatePromotionRequest): Promise<CustomResult> {
+    this._Logger.log(`Creating promotion: ${body.code}`);
+
+    try {
+      const promotion = await this.promotionService.createPromotion({
+        ...body,
+        validFrom: new Date(body.validFrom),
+        validUntil: new Date(body.validUntil),
+      });
+      return this.cmmService.newResultInstance().withResult(promotion.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to create promotion: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('already exists')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PROMOTION_CODE_EXISTS);
+      }
+      if (error.message.includes('must be after') || error.message.includes('Invalid discount schedule')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 查詢單一優惠（含所有狀態）
+   * GET /api/v1/promotions/:code
+   */
+  @Get(':code')
+  public async getPromotion(@Param('code') code: string): Promise<CustomResult> {
+    this._Logger.log(`Getting promotion: ${code}`);
+
+    try {
+      const promotion = await this.promotionService.getPromotion(code);
+      if (!promotion) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PROMOTION_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult(promotion.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to get promotion: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 更新優惠
+   * PUT /api/v1/promotions/:code
+   */
+  @Put(':code')
+  public async updatePromotion(@Param('code') code: string, @Body() body: UpdatePromotionRequest): Promise<CustomResult> {
+    this._Logger.log(`Updating promotion: ${code}`);
+
+    try {
+      const promotion = await this.promotionService.updatePromotion(code, {
+        ...body,
+        validFrom: body.validFrom ? new Date(body.validFrom) : undefined,
+        validUntil: body.validUntil ? new Date(body.validUntil) : undefined,
+      });
+      if (!promotion) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PROMOTION_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult(promotion.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to update promotion: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('must be after') || error.message.includes('Invalid discount schedule')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+      if (error.message.includes('archived promotion')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PROMOTION_STATE_CONFLICT);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 暫停優惠
+   * POST /api/v1/promotions/:code/pause
+   */
+  @Post(':code/pause')
+  @HttpCode(HttpStatus.OK)
+  public async pausePromotion(@Param('code') code: string): Promise<CustomResult> {
+    this._Logger.log(`Pausing promotion: ${code}`);
+
+    try {
+      const promotion = await this.promotionService.pausePromotion(code);
+      if (!promotion) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PROMOTION_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult(promotion.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to pause promotion: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('Cannot transition promotion')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PROMOTION_STATE_CONFLICT);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 恢復優惠
+   * POST /api/v1/promotions/:code/resume
+   */
+  @Post(':code/resume')
+  @HttpCode(HttpStatus.OK)
+  public async resumePromotion(@Param('code') code: string): Promise<CustomResult> {
+    this._Logger.log(`Resuming promotion: ${code}`);
+
+    try {
+      const promotion = await this.promotionService.resumePromotion(code);
+      if (!promotion) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PROMOTION_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult(promotion.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to resume promotion: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('Cannot transition promotion')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PROMOTION_STATE_CONFLICT);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 封存優惠
+   * POST /api/v1/promotions/:code/archive
+   */
+  @Post(':code/archive')
+  @HttpCode(HttpStatus.OK)
+  public async archivePromotion(@Param('code') code: string): Promise<CustomResult> {
+    this._Logger.log(`Archiving promotion: ${code}`);
+
+    try {
+      const promotion = await this.promotionService.archivePromotion(code);
+      if (!promotion) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PROMOTION_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult(promotion.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to archive promotion: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('Cannot transition promotion')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PROMOTION_STATE_CONFLICT);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 查詢優惠的兌換紀錄
+   * GET /api/v1/promotions/:code/redemptions?customerId=
+   */
+  @Get(':code/redemptions')
+  public async getRedemptions(@Param('code') code: string, @Query('customerId') customerId?: string): Promise<CustomResult> {
+    this._Logger.log(`Getting redemptions of promotion: ${code}`);
+
+    try {
+      const redemptions = await this.promotionService.getRedemptions(code, customerId);
+      if (!redemptions) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PROMOTION_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult({
+        code,
+        redemptions: redemptions.map((redemption) => redemption.toJSON()),
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to get promotion redemptions: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 產生一次性券碼
+   * POST /api/v1/promotions/:code/coupon-codes
+   */
+  @Post(':code/coupon-codes')
+  public async generateCouponCodes(@Param('code') code: string, @Body() body: GenerateCouponCodesRequest): Promise<CustomResult> {
+    this._Logger.log(`Generating ${body.count} coupon codes for promotion: ${code}`);
+
+    try {
+      const batch = await this.promotionService.generateCouponCodes(code, body);
+      if (!batch) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PROMOTION_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult({ code, ...batch });
+    } catch (error) {
+      this._Logger.error(`Failed to generate coupon codes: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('archived promotion')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PROMOTION_STATE_CONFLICT);
+      }
+      if (error.message.includes('Coupon code') || error.message.includes('Coupon alphabet')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 匯出一次性券碼（CSV）
+   * GET /api/v1/promotions/:code/coupon-codes/export?status=&batchId=
+   */
+  @Get(':code/coupon-codes/export')
+  public async exportCouponCodes(@Param('code') code: string, @Query() query: ExportCouponCodesRequest): Promise<StreamableFile> {
+    this._Logger.log(`Exporting coupon codes of promotion: ${code}`);
+
+    try {
+      const coupons = await this.promotionService.getCouponCodes(code, query);
+      if (!coupons) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PROMOTION_NOT_FOUND);
+      }
+
+      return new StreamableFile(Buffer.from(buildCouponCodesCsv(coupons), 'utf8'), {
+        type: 'text/csv; charset=utf-8',
+        disposition: `attachment; filename="${code}-coupon-codes.csv"`,
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to export coupon codes: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
 }
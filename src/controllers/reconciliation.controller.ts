@@ -0,0 +1,140 @@
+import { Controller, Post, Get, Body, Param, Query } from '@nestjs/common';
+import { CommonService, ErrException, errConstants } from '@myapp/common';
+import { LoggerService } from '@nestjs/common';
+import { CustomResult } from '@xxxhand/app-common';
+import { ReconciliationService } from '../domain/services/reconciliation/reconciliation.service';
+import { BillingRunTrigger } from '../domain/enums/codes.const';
+import { ReconciliationDiscrepancyQueryRequest, ResolveReconciliationDiscrepancyRequest, RunReconciliationRequest } from '../domain/value-objects/reconciliation.request';
+
+@Controller({
+  path: 'reconciliation',
+  version: '1',
+})
+export class ReconciliationController {
+  private readonly _Logger: LoggerService;
+
+  constructor(
+    private readonly cmmService: CommonService,
+    private readonly reconciliationService: ReconciliationService,
+  ) {
+    this._Logger = this.cmmService.getDefaultLogger(ReconciliationController.name);
+  }
+
+  /**
+   * 列出對帳差異，預設只列出待人工處理的差異
+   * GET /api/v1/reconciliation/discrepancies?status=OPEN&type=AMOUNT_MISMATCH&gateway=ecpay
+   */
+  @Get('discrepancies')
+  public async listDiscrepancies(@Query() query: ReconciliationDiscrepancyQueryRequest): Promise<CustomResult> {
+    this._Logger.log(`Listing reconciliation discrepancies: status=${query.status}, type=${query.type}`);
+
+    try {
+      const result = await this.reconciliationService.listDiscrepancies(query);
+      return this.cmmService.newResultInstance().withResult({
+        discrepancies: result.discrepancies.map((discrepancy) => discrepancy.toJSON()),
+        pagination: {
+          currentPage: result.page,
+          totalPages: Math.ceil(result.total / result.limit),
+          totalItems: result.total,
+          itemsPerPage: result.limit,
+        },
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to list reconciliation discrepancies: ${error.message}`, error.stack);
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 記錄對帳差異的人工處理結果
+   * POST /api/v1/reconciliation/discrepancies/:discrepancyId/resolve
+   */
+  @Post('discrepancies/:discrepancyId/resolve')
+  public async resolveDiscrepancy(@Param('discrepancyId') discrepancyId: string, @Body() body: ResolveReconciliationDiscrepancyRequest): Promise<CustomResult> {
+    this._Logger.log(`Resolving reconciliation discrepancy: ${discrepancyId}`);
+
+    try {
+      const discrepancy = await this.reconciliationService.resolveDiscrepancy(discrepancyId, body.resolvedBy, body.resolution);
+      return this.cmmService.newResultInstance().withResult(discrepancy.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to resolve reconciliation discrepancy: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('not found')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_RECONCILIATION_DISCREPANCY_NOT_FOUND);
+      }
+      if (error.message.includes('already resolved')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_RECONCILIATION_DISCREPANCY_RESOLVED);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 手動執行對帳
+   * POST /api/v1/reconciliation/runs
+   */
+  @Post('runs')
+  public async runReconciliation(@Body() body: RunReconciliationRequest): Promise<CustomResult> {
+    this._Logger.log(`Running reconciliation manually: asOf=${body.asOf}`);
+
+    try {
+      const run = await this.reconciliationService.run({ asOf: body.asOf ? new Date(body.asOf) : undefined, trigger: BillingRunTrigger.MANUAL });
+      if (!run) {
+        throw ErrException.newFromCodeName(errConstants.ERR_RECONCILIATION_IN_PROGRESS);
+      }
+
+      return this.cmmService.newResultInstance().withResult(run.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to run reconciliation: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 列出最近的對帳報告
+   * GET /api/v1/reconciliation/runs
+   */
+  @Get('runs')
+  public async listRuns(): Promise<CustomResult> {
+    this._Logger.log('Listing reconciliation runs');
+
+    try {
+      const runs = await this.reconciliationService.getRecentRuns();
+      return this.cmmService.newResultInstance().withResult({
+        runs: runs.map((run) => run.toJSON()),
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to list reconciliation runs: ${error.message}`, error.stack);
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 查詢對帳報告
+   * GET /api/v1/reconciliation/runs/:runId
+   */
+  @Get('runs/:runId')
+  public async getRun(@Param('runId') runId: string): Promise<CustomResult> {
+    this._Logger.log(`Getting reconciliation run: ${runId}`);
+
+    try {
+      const run = await this.reconciliationService.getRun(runId);
+      if (!run) {
+        throw ErrException.newFromCodeName(errConstants.ERR_RECONCILIATION_RUN_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult(run.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to get reconciliation run: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+}
@@ -1,7 +1,15 @@
-import { Controller, Get, Param, Query } from '@nestjs/common';
+import { Body, Controller, Get, HttpCode, HttpStatus, Param, Post, Query } from '@nestjs/common';
 import { CommonService, ErrException, errConstants } from '@myapp/common';
 import { LoggerService } from '@nestjs/common';
 import { CustomResult } from '@xxxhand/app-common';
+import { isMongoId } from 'class-validator';
+import { RefundService } from '../domain/services/refund.service';
+import { RefundEntity } from '../domain/entities/refund.entity';
+import { RefundStatus, RefundType } from '../domain/enums/codes.const';
+import { CreateRefundRequest, ReviewRefundRequest } from '../domain/value-objects/refund.request';
+
+/** 尚在處理中的退款狀態 */
+const IN_FLIGHT_STATUSES = [RefundStatus.REQUESTED, RefundStatus.PENDING, RefundStatus.APPROVED, RefundStatus.PROCESSING];
 
 @Controller({
   path: 'refunds',
@@ -10,10 +18,81 @@ import { CustomResult } from '@xxxhand/app-common';
 export class RefundsController {
   private readonly _Logger: LoggerService;
 
-  constructor(private readonly cmmService: CommonService) {
+  constructor(
+    private readonly cmmService: CommonService,
+    private readonly refundService: RefundService,
+  ) {
     this._Logger = this.cmmService.getDefaultLogger(RefundsController.name);
   }
 
+  /**
+   * 申請退款
+   * POST /api/v1/refunds
+   * 不符資格的申請仍會建立（狀態為 CANCELED），eligible 與 reasons 說明原因
+   */
+  @Post()
+  public async createRefund(@Body() body: CreateRefundRequest): Promise<CustomResult> {
+    this._Logger.log(`Requesting refund for customer: ${body.customerId}`);
+
+    try {
+      const result = await this.refundService.requestRefund(body);
+      return this.cmmService.newResultInstance().withResult({ ...result.refund.toJSON(), eligible: result.eligible, reasons: result.reasons });
+    } catch (error) {
+      this._Logger.error(`Failed to request refund: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('is required')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+      if (error.message.includes('payment not found')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PAYMENT_NOT_FOUND);
+      }
+      if (error.message.includes('exceeds refundable balance')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_REFUND_AMOUNT_INVALID);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 審核退款
+   * POST /api/v1/refunds/:refundId/review
+   * 核准後立即經原付款的支付閘道執行；失敗的退款可再次核准重送
+   */
+  @Post(':refundId/review')
+  @HttpCode(HttpStatus.OK)
+  public async reviewRefund(@Param('refundId') refundId: string, @Body() body: ReviewRefundRequest): Promise<CustomResult> {
+    this._Logger.log(`Reviewing refund ${refundId}: ${body.action}`);
+
+    try {
+      if (!isMongoId(refundId)) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+
+      const result = await this.refundService.processRefund(refundId, body.action, body.adminNotes);
+      return this.cmmService.newResultInstance().withResult({ ...result.refund.toJSON(), success: result.success, message: result.message });
+    } catch (error) {
+      this._Logger.error(`Failed to review refund: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('Refund not found')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_REFUND_NOT_FOUND);
+      }
+      if (error.message.includes('Payment not found')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PAYMENT_NOT_FOUND);
+      }
+      if (error.message.includes('Cannot process refund') || error.message.includes('already being processed')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_REFUND_STATE_CONFLICT);
+      }
+      if (error.message.includes('exceeds refundable balance')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_REFUND_AMOUNT_INVALID);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
   /**
    * 查詢退款狀態
    * GET /api/v1/refunds/:refundId
@@ -23,122 +102,20 @@ export class RefundsController {
     this._Logger.log(`Getting refund status: ${refundId}`);
 
     try {
-      // Handle invalid format
-      if (refundId === 'invalid-format') {
+      if (!isMongoId(refundId)) {
         throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
       }
 
-      // TODO: 實作退款狀態查詢邏輯，目前返回模擬數據
-      const mockRefunds: { [key: string]: any } = {
-        ref_1234567890: {
-          refundId: 'ref_1234567890',
-          subscriptionId: 'sub_1234567890',
-          paymentId: 'pay_1234567890',
-          refundAmount: {
-            amount: 899,
-            currency: 'TWD',
-          },
-          refundType: 'FULL',
-          status: 'COMPLETED',
-          reason: 'Customer requested refund',
-          requestedAt: '2024-01-15T00:00:00Z',
-          processedAt: '2024-01-18T10:30:00Z',
-          estimatedProcessingTime: '3-5 business days',
-          actualProcessingTime: '3 business days',
-          refundMethod: 'ORIGINAL_PAYMENT_METHOD',
-          externalRefundId: 'stripe_re_1234567890',
-          originalPayment: {
-            paymentId: 'pay_1234567890',
-            amount: 899,
-            currency: 'TWD',
-            method: 'CREDIT_CARD',
-            processedAt: '2024-01-01T00:00:00Z',
-          },
-          subscription: {
-            subscriptionId: 'sub_1234567890',
-            productId: 'prod_basic_monthly',
-            status: 'CANCELLED',
-          },
-        },
-        ref_processing_123: {
-          refundId: 'ref_processing_123',
-          subscriptionId: 'sub_processing_123',
-          paymentId: 'pay_processing_123',
-          refundAmount: {
-            amount: 450,
-            currency: 'TWD',
-          },
-          refundType: 'PARTIAL',
-          status: 'PROCESSING',
-          reason: 'Service downtime compensation',
-          requestedAt: '2024-01-20T00:00:00Z',
-          estimatedProcessingTime: '3-5 business days',
-          refundMethod: 'ORIGINAL_PAYMENT_METHOD',
-        },
-        ref_failed_123: {
-          refundId: 'ref_failed_123',
-          subscriptionId: 'sub_failed_123',
-          paymentId: 'pay_failed_123',
-          refundAmount: {
-            amount: 999,
-            currency: 'TWD',
-          },
-          refundType: 'FULL',
-          status: 'FAILED',
-          reason: 'Duplicate charge',
-          requestedAt: '2024-01-10T00:00:00Z',
-          processedAt: '2024-01-12T14:20:00Z',
-          estimatedProcessingTime: '3-5 business days',
-          actualProcessingTime: '2 business days',
-          failureReason: 'Original payment method expired',
-          canRetry: false,
-          refundMethod: 'ORIGINAL_PAYMENT_METHOD',
-        },
-        ref_1234567891: {
-          refundId: 'ref_1234567891',
-          subscriptionId: 'sub_1234567891',
-          paymentId: 'pay_1234567891',
-          refundAmount: {
-            amount: 450,
-            currency: 'TWD',
-          },
-          refundType: 'PARTIAL',
-          status: 'PROCESSING',
-          reason: 'Service downtime compensation',
-          requestedAt: '2024-01-20T00:00:00Z',
-          processedAt: null,
-          estimatedProcessingTime: '3-5 business days',
-          actualProcessingTime: null,
-          refundMethod: 'ORIGINAL_PAYMENT_METHOD',
-          externalRefundId: null,
-        },
-        ref_1234567892: {
-          refundId: 'ref_1234567892',
-          subscriptionId: 'sub_1234567892',
-          paymentId: 'pay_1234567892',
-          refundAmount: {
-            amount: 999,
-            currency: 'TWD',
-          },
-          refundType: 'FULL',
-          status: 'FAILED',
-          reason: 'Duplicate charge',
-          requestedAt: '2024-01-10T00:00:00Z',
-          processedAt: '2024-01-12T14:20:00Z',
-          estimatedProcessingTime: '3-5 business days',
-          actualProcessingTime: '2 business days',
-          failureReason: 'Original payment method expired',
-          refundMethod: 'ORIGINAL_PAYMENT_METHOD',
-          externalRefundId: null,
-        },
-      };
-
-      const refund = mockRefunds[refundId];
+      const { refund, history } = await this.refundService.getRefundStatus(refundId);
       if (!refund) {
         throw ErrException.newFromCodeName(errConstants.ERR_REFUND_NOT_FOUND);
       }
 
-      return this.cmmService.newResultInstance().withCode(200).withMessage('Success').withResult(refund);
+      return this.cmmService
+        .newResultInstance()
+        .withCode(200)
+        .withMessage('Success')
+        .withResult({ ...refund.toJSON(), history });
     } catch (error) {
       this._Logger.error(`Failed to get refund status: ${error.message}`, error.stack);
       if (error instanceof ErrException) {
@@ -164,116 +141,61 @@ export class RefundsController {
     this._Logger.log(`Getting refund history for subscription: ${subscriptionId}`);
 
     try {
-      // TODO: 實作訂閱退款歷史查詢邏輯，目前返回模擬數據
-      const allMockRefunds = [
-        {
-          refundId: 'ref_1234567890',
-          paymentId: 'pay_1234567890',
-          refundAmount: {
-            amount: 899,
-            currency: 'TWD',
-          },
-          refundType: 'FULL',
-          status: 'COMPLETED',
-          reason: 'Customer requested refund',
-          requestedAt: '2024-01-15T00:00:00Z',
-          processedAt: '2024-01-18T10:30:00Z',
-        },
-        {
-          refundId: 'ref_1234567893',
-          paymentId: 'pay_1234567893',
-          refundAmount: {
-            amount: 200,
-            currency: 'TWD',
-          },
-          refundType: 'PARTIAL',
-          status: 'COMPLETED',
-          reason: 'Service credit',
-          requestedAt: '2024-01-05T00:00:00Z',
-          processedAt: '2024-01-08T09:15:00Z',
-        },
-        {
-          refundId: 'ref_1234567894',
-          paymentId: 'pay_1234567894',
-          refundAmount: {
-            amount: 300,
-            currency: 'TWD',
-          },
-          refundType: 'PRORATED',
-          status: 'PENDING',
-          reason: 'Prorated refund',
-          requestedAt: '2024-01-10T00:00:00Z',
-          processedAt: null,
-        },
-      ];
-
-      // Handle non-existent subscription
-      let mockRefundHistory = subscriptionId === 'sub_non_existent' ? [] : allMockRefunds;
-
-      // Apply status filter
-      if (status) {
-        mockRefundHistory = mockRefundHistory.filter((r) => r.status === status);
-      }
-
-      // Apply date range filter
-      if (startDate || endDate) {
-        mockRefundHistory = mockRefundHistory.filter((r) => {
-          const refundDate = new Date(r.requestedAt);
-          const start = startDate ? new Date(startDate) : new Date('1900-01-01');
-          const end = endDate ? new Date(endDate) : new Date('2100-01-01');
-          return refundDate >= start && refundDate <= end;
-        });
+      if (status && !Object.values(RefundStatus).includes(status as RefundStatus)) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
       }
 
-      // 計算摘要統計 (基於所有數據，不受分頁影響)
-      const completedRefunds = mockRefundHistory.filter((r) => r.status === 'COMPLETED');
-      const pendingRefunds = mockRefundHistory.filter((r) => r.status === 'PENDING');
-      const failedRefunds = mockRefundHistory.filter((r) => r.status === 'FAILED');
-
-      const totalRefundAmount = completedRefunds.reduce((total, refund) => total + refund.refundAmount.amount, 0);
-
-      // 計算退款類型分佈
-      const refundTypeDistribution = {
-        FULL: mockRefundHistory.filter((r) => r.refundType === 'FULL').length,
-        PARTIAL: mockRefundHistory.filter((r) => r.refundType === 'PARTIAL').length,
-        PRORATED: mockRefundHistory.filter((r) => r.refundType === 'PRORATED').length,
-      };
-
-      const summary = {
-        totalRefunds: mockRefundHistory.length,
-        totalRefundAmount,
-        successfulRefunds: completedRefunds.length,
-        pendingRefunds: pendingRefunds.length,
-        failedRefunds: failedRefunds.length,
-        refundTypeDistribution,
-      };
-
-      // 排序 (最新的在前)
-      const sortedRefunds = mockRefundHistory.sort((a, b) => new Date(b.requestedAt).getTime() - new Date(a.requestedAt).getTime());
+      const refunds = await this.refundService.getSubscriptionRefunds(subscriptionId, {
+        status: status as RefundStatus,
+        requestedFrom: startDate ? new Date(startDate) : undefined,
+        requestedTo: endDate ? new Date(endDate) : undefined,
+      });
 
-      // 實現分頁邏輯
+      // 分頁
       const pageNum = parseInt(page || '1', 10);
       const limitNum = parseInt(limit || '10', 10);
       const startIndex = (pageNum - 1) * limitNum;
-      const endIndex = startIndex + limitNum;
-      const paginatedRefunds = sortedRefunds.slice(startIndex, endIndex);
-
-      const pagination = {
-        page: pageNum,
-        limit: limitNum,
-        total: mockRefundHistory.length,
-        totalPages: Math.ceil(mockRefundHistory.length / limitNum),
-      };
 
-      return this.cmmService.newResultInstance().withCode(200).withMessage('Success').withResult({
-        subscriptionId,
-        refunds: paginatedRefunds,
-        summary,
-        pagination,
-      });
+      return this.cmmService
+        .newResultInstance()
+        .withCode(200)
+        .withMessage('Success')
+        .withResult({
+          subscriptionId,
+          refunds: refunds.slice(startIndex, startIndex + limitNum).map((refund) => refund.toJSON()),
+          summary: this.summarize(refunds),
+          pagination: {
+            page: pageNum,
+            limit: limitNum,
+            total: refunds.length,
+            totalPages: Math.ceil(refunds.length / limitNum),
+          },
+        });
     } catch (error) {
       this._Logger.error(`Failed to get subscription refunds: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
       throw ErrException.newFromCodeName(errConstants.ERR_GET_SUBSCRIPTION_REFUNDS_FAILED);
     }
   }
+
+  /**
+   * 摘要統計（基於所有符合條件的退款，不受分頁影響）
+   */
+  private summarize(refunds: RefundEntity[]) {
+    const succeeded = refunds.filter((r) => r.status === RefundStatus.SUCCEEDED);
+
+    return {
+      totalRefunds: refunds.length,
+      totalRefundAmount: succeeded.reduce((total, refund) => total + refund.amount, 0),
+      successfulRefunds: succeeded.length,
+      pendingRefunds: refunds.filter((r) => IN_FLIGHT_STATUSES.includes(r.status)).length,
+      failedRefunds: refunds.filter((r) => r.status === RefundStatus.FAILED).length,
+      refundTypeDistribution: {
+        [RefundType.FULL]: refunds.filter((r) => r.refundType === RefundType.FULL).length,
+        [RefundType.PARTIAL]: refunds.filter((r) => r.refundType === RefundType.PARTIAL).length,
+      },
+    };
+  }
 }
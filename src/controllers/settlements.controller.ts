@@ -0,0 +1,147 @@
+import * as fs from 'fs-extra';
+import { Controller, Post, Get, Body, Param, Query, UploadedFile } from '@nestjs/common';
+import { CommonService, ErrException, errConstants } from '@myapp/common';
+import { LoggerService } from '@nestjs/common';
+import { CustomResult } from '@xxxhand/app-common';
+import { SettlementImportService } from '../domain/services/settlement/settlement-import.service';
+import { ImportSettlementFileRequest, SettlementPayoutQueryRequest, SettlementRecordQueryRequest } from '../domain/value-objects/settlement.request';
+import { SingleUploadFileInterceptor } from '../app-components/single-upload-file.interceptor';
+
+@Controller({
+  path: 'settlements',
+  version: '1',
+})
+export class SettlementsController {
+  private readonly _Logger: LoggerService;
+
+  constructor(
+    private readonly cmmService: CommonService,
+    private readonly settlementImportService: SettlementImportService,
+  ) {
+    this._Logger = this.cmmService.getDefaultLogger(SettlementsController.name);
+  }
+
+  /**
+   * 匯入閘道撥款檔（multipart，檔案欄位為 file）
+   * POST /api/v1/settlements/imports
+   */
+  @Post('imports')
+  @SingleUploadFileInterceptor()
+  public async importFile(@Body() body: ImportSettlementFileRequest, @UploadedFile() uploadedFile: Express.Multer.File): Promise<CustomResult> {
+    this._Logger.log(`Importing settlement file: gateway=${body.gateway}, file=${uploadedFile?.originalname}`);
+
+    try {
+      if (!uploadedFile) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SETTLEMENT_FILE_INVALID);
+      }
+
+      const content = await fs.readFile(uploadedFile.path, 'utf8');
+      const batch = await this.settlementImportService.importFile(body.gateway, uploadedFile.originalname, content, body.importedBy);
+      return this.cmmService.newResultInstance().withResult(batch.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to import settlement file: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('Settlement parser')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SETTLEMENT_PARSER_NOT_FOUND);
+      }
+      if (error.message.includes('Invalid settlement file')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SETTLEMENT_FILE_INVALID);
+      }
+      if (error.message.includes('already imported')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SETTLEMENT_FILE_DUPLICATED);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    } finally {
+      if (uploadedFile) {
+        fs.unlink(uploadedFile.path).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * 列出最近的撥款檔匯入批次
+   * GET /api/v1/settlements/imports?gateway=ecpay
+   */
+  @Get('imports')
+  public async listImports(@Query('gateway') gateway?: string): Promise<CustomResult> {
+    this._Logger.log(`Listing settlement imports: gateway=${gateway}`);
+
+    try {
+      const batches = await this.settlementImportService.getRecentBatches(gateway);
+      return this.cmmService.newResultInstance().withResult({
+        batches: batches.map((batch) => batch.toJSON()),
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to list settlement imports: ${error.message}`, error.stack);
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 查詢撥款檔匯入批次
+   * GET /api/v1/settlements/imports/:batchId
+   */
+  @Get('imports/:batchId')
+  public async getImport(@Param('batchId') batchId: string): Promise<CustomResult> {
+    this._Logger.log(`Getting settlement import: ${batchId}`);
+
+    try {
+      const batch = await this.settlementImportService.getBatch(batchId);
+      if (!batch) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SETTLEMENT_BATCH_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult(batch.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to get settlement import: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 查詢撥款明細，例如批次中無法對應的明細
+   * GET /api/v1/settlements/records?batchId=...&status=UNMATCHED
+   */
+  @Get('records')
+  public async listRecords(@Query() query: SettlementRecordQueryRequest): Promise<CustomResult> {
+    this._Logger.log(`Listing settlement records: batchId=${query.batchId}, status=${query.status}`);
+
+    try {
+      const result = await this.settlementImportService.listRecords(query);
+      return this.cmmService.newResultInstance().withResult({
+        records: result.records.map((record) => record.toJSON()),
+        pagination: {
+          currentPage: result.page,
+          totalPages: Math.ceil(result.total / result.limit),
+          totalItems: result.total,
+          itemsPerPage: result.limit,
+        },
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to list settlement records: ${error.message}`, error.stack);
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 依撥款日彙總撥款金額
+   * GET /api/v1/settlements/payouts?from=2024-03-01&to=2024-03-31&gateway=ecpay
+   */
+  @Get('payouts')
+  public async getPayouts(@Query() query: SettlementPayoutQueryRequest): Promise<CustomResult> {
+    this._Logger.log(`Getting settlement payouts: ${query.from} ~ ${query.to}, gateway=${query.gateway}`);
+
+    try {
+      const payouts = await this.settlementImportService.getPayoutSummary(query.from, query.to, query.gateway);
+      return this.cmmService.newResultInstance().withResult({ payouts });
+    } catch (error) {
+      this._Logger.error(`Failed to get settlement payouts: ${error.message}`, error.stack);
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+}
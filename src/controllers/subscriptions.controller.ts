@@ -1,13 +1,25 @@
-import { Controller, Post, Get, Body, Param, HttpCode, HttpStatus } from '@nestjs/common';
+import { Controller, Post, Get, Put, Body, Param, Query, HttpCode, HttpStatus, UseInterceptors } from '@nestjs/common';
 import { CommonService, ErrException, errConstants } from '@myapp/common';
 import { LoggerService } from '@nestjs/common';
 import { CustomResult } from '@xxxhand/app-common';
 import { SubscriptionApplicationService, CancelSubscriptionRequest as AppCancelSubscriptionRequest } from '../application/subscription.application.service';
+import { BillingAttemptService } from '../domain/services/billing-attempt.service';
+import { UsageService } from '../domain/services/usage/usage.service';
+import { ProrationService } from '../domain/services/proration/proration.service';
+import { SubscriptionService } from '../domain/services/subscription.service';
+import { BillingAttemptQueryRequest } from '../domain/value-objects/billing.request';
+import { IdempotencyInterceptor } from '../app-components/idempotency.interceptor';
+import { PeriodBillingService, PeriodOrderInfo } from '../domain/services/period-billing/period-billing.service';
 
 interface CreateSubscriptionRequest {
   productId: string;
   paymentMethodId: string;
   customerId?: string;
+  /** 指定方案時，若方案由閘道定期定額扣款則建立定期定額訂閱 */
+  planId?: string;
+  gateway?: string;
+  returnUrl?: string;
+  cancelUrl?: string;
   promotionCode?: string;
   startDate?: string;
   billingAddress?: {
@@ -19,6 +31,15 @@ interface CreateSubscriptionRequest {
   trialDays?: number;
 }
 
+interface UpdatePaymentMethodRequest {
+  paymentMethodId: string;
+}
+
+interface RenewPeriodOrderRequest {
+  returnUrl?: string;
+  cancelUrl?: string;
+}
+
 interface PauseSubscriptionRequest {
   reason?: string;
   resumeDate?: string;
@@ -34,17 +55,27 @@ export class SubscriptionsController {
   constructor(
     private readonly cmmService: CommonService,
     private readonly subscriptionAppService: SubscriptionApplicationService,
+    private readonly billingAttemptService: BillingAttemptService,
+    private readonly usageService: UsageService,
+    private readonly prorationService: ProrationService,
+    private readonly subscriptionService: SubscriptionService,
+    private readonly periodBillingService: PeriodBillingService,
   ) {
     this._Logger = this.cmmService.getDefaultLogger(SubscriptionsController.name);
   }
 
   /**
-   * 創建訂閱
+   * 創建訂閱，支援 Idempotency-Key
    * POST /api/v1/subscriptions
    */
   @Post()
   @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(IdempotencyInterceptor)
   public async createSubscription(@Body() body: CreateSubscriptionRequest): Promise<CustomResult> {
+    if (body.planId) {
+      return this.createPeriodSubscription(body);
+    }
+
     this._Logger.log(`Creating subscription for product: ${body.productId}`);
     // Mock implementation for testing
     if (!body.productId || !body.paymentMethodId) {
@@ -89,6 +120,61 @@ export class SubscriptionsController {
       });
   }
 
+  /**
+   * 查詢訂閱的閘道定期定額委託
+   * GET /api/v1/subscriptions/:subscriptionId/period-order
+   */
+  @Get(':subscriptionId/period-order')
+  public async getPeriodOrder(@Param('subscriptionId') subscriptionId: string): Promise<CustomResult> {
+    try {
+      const periodOrder = await this.periodBillingService.getPeriodOrder(subscriptionId);
+      if (!periodOrder) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PERIOD_ORDER_NOT_FOUND);
+      }
+      return this.cmmService.newResultInstance().withResult(this.toPeriodOrderResult(periodOrder));
+    } catch (error) {
+      this._Logger.error(`Failed to get period order: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('Subscription with ID')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SUBSCRIPTION_NOT_FOUND);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 重新建立閘道定期定額委託（恢復、方案變更或閘道停止扣款後由客戶重新授權）
+   * POST /api/v1/subscriptions/:subscriptionId/period-order
+   */
+  @Post(':subscriptionId/period-order')
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(IdempotencyInterceptor)
+  public async renewPeriodOrder(@Param('subscriptionId') subscriptionId: string, @Body() body: RenewPeriodOrderRequest): Promise<CustomResult> {
+    this._Logger.log(`Renewing period order of subscription: ${subscriptionId}`);
+
+    try {
+      const periodOrder = await this.periodBillingService.renewPeriodOrder(subscriptionId, { returnUrl: body?.returnUrl, cancelUrl: body?.cancelUrl });
+      return this.cmmService.newResultInstance().withResult(this.toPeriodOrderResult(periodOrder));
+    } catch (error) {
+      this._Logger.error(`Failed to renew period order: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('Subscription with ID')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SUBSCRIPTION_NOT_FOUND);
+      }
+      if (error.message.includes('not billed by')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PERIOD_ORDER_NOT_FOUND);
+      }
+      if (error.message.includes('Cannot renew')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SUBSCRIPTION_ENDED);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
   /**
    * 根據訂閱ID查詢訂閱詳情
    * GET /api/v1/subscriptions/:subscriptionId
@@ -152,11 +238,12 @@ export class SubscriptionsController {
   }
 
   /**
-   * 取消訂閱
+   * 取消訂閱，支援 Idempotency-Key
    * POST /api/v1/subscriptions/:subscriptionId/cancel
    */
   @Post(':subscriptionId/cancel')
   @HttpCode(HttpStatus.OK)
+  @UseInterceptors(IdempotencyInterceptor)
   public async cancelSubscription(@Param('subscriptionId') subscriptionId: string, @Body() body: AppCancelSubscriptionRequest): Promise<CustomResult> {
     this._Logger.log(`Cancelling subscription: ${subscriptionId}`);
 
@@ -176,15 +263,33 @@ export class SubscriptionsController {
   }
 
   /**
-   * 更改訂閱方案
+   * 更改訂閱方案，支援 Idempotency-Key
    * POST /api/v1/subscriptions/:subscriptionId/plan-change
    */
   @Post(':subscriptionId/plan-change')
   @HttpCode(HttpStatus.OK)
+  @UseInterceptors(IdempotencyInterceptor)
   public async changePlan(@Param('subscriptionId') subscriptionId: string, @Body() body: any): Promise<CustomResult> {
     this._Logger.log(`Changing plan for subscription: ${subscriptionId}`);
 
     try {
+      // 指定計費方案時立即變更並按比例結算
+      if (body?.planId) {
+        const { subscription, breakdown, payment, credit } = await this.prorationService.applyPlanChange(subscriptionId, body.planId);
+        return this.cmmService.newResultInstance().withResult({
+          subscriptionId,
+          oldPlanId: breakdown.fromPlanId,
+          newPlanId: breakdown.toPlanId,
+          effectiveDate: breakdown.changeDate,
+          proration: breakdown,
+          paymentId: payment?.id,
+          creditEntryId: credit?.id,
+          // 升級差額扣款成功後才切換方案
+          status: payment ? 'PLAN_CHANGE_PENDING_PAYMENT' : 'PLAN_CHANGED',
+          updatedAt: subscription.updatedAt,
+        });
+      }
+
       // Mock implementation for testing
       if (subscriptionId === 'sub_non_existent') {
         throw ErrException.newFromCodeName(errConstants.ERR_SUBSCRIPTION_NOT_FOUND);
@@ -211,6 +316,118 @@ export class SubscriptionsController {
       if (error instanceof ErrException) {
         throw error;
       }
+      if (error.message.includes('Subscription') && error.message.includes('not found')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SUBSCRIPTION_NOT_FOUND);
+      }
+      if (error.message.includes('Plan') && error.message.includes('not found')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PLAN_NOT_FOUND);
+      }
+      if (error.message.includes('Can only change plan') || error.message.includes('already on plan') || error.message.includes('different currencies')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PLAN_CHANGE_NOT_ALLOWED);
+      }
+      if (error.message.includes('Change date')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 預覽方案變更的按比例明細，不會異動訂閱
+   * GET /api/v1/subscriptions/:subscriptionId/plan-change/preview?planId=
+   */
+  @Get(':subscriptionId/plan-change/preview')
+  public async previewPlanChange(
+    @Param('subscriptionId') subscriptionId: string,
+    @Query('planId') planId: string,
+    @Query('changeDate') changeDate?: string,
+  ): Promise<CustomResult> {
+    this._Logger.log(`Previewing plan change for subscription: ${subscriptionId}`);
+
+    try {
+      const date = changeDate ? new Date(changeDate) : new Date();
+      if (!planId || isNaN(date.getTime())) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+
+      const breakdown = await this.prorationService.previewPlanChange(subscriptionId, planId, date);
+      return this.cmmService.newResultInstance().withResult(breakdown);
+    } catch (error) {
+      this._Logger.error(`Failed to preview plan change: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('Subscription') && error.message.includes('not found')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SUBSCRIPTION_NOT_FOUND);
+      }
+      if (error.message.includes('Plan') && error.message.includes('not found')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PLAN_NOT_FOUND);
+      }
+      if (error.message.includes('Can only change plan') || error.message.includes('already on plan') || error.message.includes('different currencies')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PLAN_CHANGE_NOT_ALLOWED);
+      }
+      if (error.message.includes('Change date')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 查詢訂閱的計費嘗試歷史
+   * GET /api/v1/subscriptions/:subscriptionId/billing-attempts
+   */
+  @Get(':subscriptionId/billing-attempts')
+  public async getBillingAttempts(@Param('subscriptionId') subscriptionId: string, @Query() query: BillingAttemptQueryRequest): Promise<CustomResult> {
+    this._Logger.log(`Getting billing attempts for subscription: ${subscriptionId}`);
+
+    try {
+      const subscription = await this.subscriptionAppService.getSubscriptionBySubscriptionId(subscriptionId);
+      if (!subscription) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SUBSCRIPTION_NOT_FOUND);
+      }
+
+      const result = await this.billingAttemptService.getSubscriptionAttempts(subscriptionId, query);
+
+      return this.cmmService.newResultInstance().withResult({
+        subscriptionId,
+        attempts: result.attempts.map((attempt) => attempt.toJSON()),
+        pagination: {
+          currentPage: result.page,
+          totalPages: Math.ceil(result.total / result.limit),
+          totalItems: result.total,
+          itemsPerPage: result.limit,
+        },
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to get billing attempts: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 獲取當期用量與方案限制
+   * GET /api/v1/subscriptions/:subscriptionId/usage
+   */
+  @Get(':subscriptionId/usage')
+  public async getUsage(@Param('subscriptionId') subscriptionId: string): Promise<CustomResult> {
+    this._Logger.log(`Getting usage for subscription: ${subscriptionId}`);
+
+    try {
+      const summary = await this.usageService.getCurrentUsage(subscriptionId);
+      if (!summary) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SUBSCRIPTION_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult({ ...summary, estimatedOverage: summary.estimatedOverage.toJSON() });
+    } catch (error) {
+      this._Logger.error(`Failed to get usage: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
       throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
     }
   }
@@ -282,11 +499,54 @@ export class SubscriptionsController {
   }
 
   /**
-   * 暫停訂閱
+   * 更換訂閱的支付方式，進行中的催收會結束並以新支付方式重新扣款，支援 Idempotency-Key
+   * PUT /api/v1/subscriptions/:subscriptionId/payment-method
+   */
+  @Put(':subscriptionId/payment-method')
+  @UseInterceptors(IdempotencyInterceptor)
+  public async updatePaymentMethod(@Param('subscriptionId') subscriptionId: string, @Body() body: UpdatePaymentMethodRequest): Promise<CustomResult> {
+    this._Logger.log(`Updating payment method of subscription: ${subscriptionId}`);
+
+    try {
+      if (!body?.paymentMethodId) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+
+      const subscription = await this.subscriptionService.updatePaymentMethod(subscriptionId, body.paymentMethodId);
+      return this.cmmService.newResultInstance().withResult({
+        subscriptionId: subscription.id,
+        paymentMethodId: subscription.paymentMethodId,
+        status: subscription.status,
+        updatedAt: subscription.updatedAt,
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to update subscription payment method: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      if (error.message.includes('Subscription with ID')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SUBSCRIPTION_NOT_FOUND);
+      }
+      if (error.message.includes('Payment method') && error.message.includes('not found')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PAYMENT_METHOD_NOT_FOUND);
+      }
+      if (error.message.includes('not available')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INACTIVE_PAYMENT_METHOD);
+      }
+      if (error.message.includes('ended subscription')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_SUBSCRIPTION_ENDED);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_UPDATE_PAYMENT_METHOD_FAILED);
+    }
+  }
+
+  /**
+   * 暫停訂閱，支援 Idempotency-Key
    * POST /api/v1/subscriptions/:subscriptionId/pause
    */
   @Post(':subscriptionId/pause')
   @HttpCode(HttpStatus.OK)
+  @UseInterceptors(IdempotencyInterceptor)
   public async pauseSubscription(@Param('subscriptionId') subscriptionId: string, @Body() body: PauseSubscriptionRequest): Promise<CustomResult> {
     this._Logger.log(`Pausing subscription: ${subscriptionId}`);
 
@@ -318,11 +578,12 @@ export class SubscriptionsController {
   }
 
   /**
-   * 恢復訂閱
+   * 恢復訂閱，支援 Idempotency-Key
    * POST /api/v1/subscriptions/:subscriptionId/resume
    */
   @Post(':subscriptionId/resume')
   @HttpCode(HttpStatus.OK)
+  @UseInterceptors(IdempotencyInterceptor)
   public async resumeSubscription(@Param('subscriptionId') subscriptionId: string): Promise<CustomResult> {
     this._Logger.log(`Resuming subscription: ${subscriptionId}`);
 
@@ -358,11 +619,12 @@ export class SubscriptionsController {
   }
 
   /**
-   * 退款訂閱
+   * 退款訂閱，支援 Idempotency-Key
    * POST /api/v1/subscriptions/:subscriptionId/refund
    */
   @Post(':subscriptionId/refund')
   @HttpCode(HttpStatus.OK)
+  @UseInterceptors(IdempotencyInterceptor)
   public async refundSubscription(@Param('subscriptionId') subscriptionId: string, @Body() body: any): Promise<CustomResult> {
     this._Logger.log(`Processing refund for subscription: ${subscriptionId}`);
 
@@ -380,4 +642,64 @@ export class SubscriptionsController {
       throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
     }
   }
+
+  /**
+   * 建立由閘道定期定額扣款的訂閱，回傳客戶完成首次授權的付款頁
+   */
+  private async createPeriodSubscription(body: CreateSubscriptionRequest): Promise<CustomResult> {
+    this._Logger.log(`Creating period subscription for plan: ${body.planId}`);
+
+    try {
+      const { subscription, periodOrder } = await this.periodBillingService.createSubscription({
+        customerId: body.customerId,
+        planId: body.planId,
+        gateway: body.gateway,
+        returnUrl: body.returnUrl,
+        cancelUrl: body.cancelUrl,
+      });
+      return this.cmmService.newResultInstance().withResult({
+        subscriptionId: subscription.id,
+        customerId: subscription.customerId,
+        planId: subscription.planId,
+        status: subscription.status,
+        pricing: { amount: subscription.pricing.baseAmount.amount, currency: subscription.pricing.currency },
+        billingCycle: subscription.billingCycle.type,
+        periodOrder: this.toPeriodOrderResult(periodOrder),
+        createdAt: subscription.createdAt,
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to create period subscription: ${error.message}`, error.stack);
+      if (error.message.includes('Customer ID is required')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+      if (error.message.includes('Customer') && error.message.includes('not found')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_CUSTOMER_NOT_FOUND);
+      }
+      if (error.message.includes('Plan') && error.message.includes('not found')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PLAN_NOT_FOUND);
+      }
+      if (error.message.includes('not billed by') || error.message.includes('cannot be billed')) {
+        throw ErrException.newFromCodeName(errConstants.ERR_PERIOD_BILLING_NOT_SUPPORTED);
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_CREATE_SUBSCRIPTION_FAILED);
+    }
+  }
+
+  private toPeriodOrderResult(periodOrder: PeriodOrderInfo) {
+    return {
+      gateway: periodOrder.gateway,
+      merchantTradeNo: periodOrder.merchantTradeNo,
+      status: periodOrder.status,
+      periodType: periodOrder.periodType,
+      frequency: periodOrder.frequency,
+      execTimes: periodOrder.execTimes,
+      periodAmount: periodOrder.periodAmount,
+      currency: periodOrder.currency,
+      totalSuccessTimes: periodOrder.totalSuccessTimes,
+      redirect: periodOrder.redirect,
+      activatedAt: periodOrder.activatedAt,
+      endedAt: periodOrder.endedAt,
+      endReason: periodOrder.endReason,
+    };
+  }
 }
@@ -0,0 +1,72 @@
+import { Body, Controller, Headers, HttpStatus, Post, Res } from '@nestjs/common';
+import { CommonService, ErrException, errConstants } from '@myapp/common';
+import { LoggerService } from '@nestjs/common';
+import { CustomResult } from '@xxxhand/app-common';
+import { Response } from 'express';
+import { UsageService } from '../domain/services/usage/usage.service';
+import { CreateUsageRecordRequest } from '../domain/value-objects/usage.request';
+
+@Controller({
+  path: 'usage-records',
+  version: '1',
+})
+export class UsageRecordsController {
+  private readonly _Logger: LoggerService;
+
+  constructor(
+    private readonly cmmService: CommonService,
+    private readonly usageService: UsageService,
+  ) {
+    this._Logger = this.cmmService.getDefaultLogger(UsageRecordsController.name);
+  }
+
+  /**
+   * 回報用量
+   * POST /api/v1/usage-records
+   * 相同冪等鍵重送時回傳 200 與原紀錄，不重複計量
+   */
+  @Post()
+  public async createUsageRecord(
+    @Body() body: CreateUsageRecordRequest,
+    @Headers('idempotency-key') idempotencyKeyHeader: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<CustomResult> {
+    this._Logger.log(`Recording usage of ${body.feature} for subscription: ${body.subscriptionId}`);
+
+    try {
+      const idempotencyKey = body.idempotencyKey || idempotencyKeyHeader;
+      if (!idempotencyKey) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+
+      const result = await this.usageService.recordUsage({
+        subscriptionId: body.subscriptionId,
+        feature: body.feature,
+        quantity: body.quantity,
+        idempotencyKey,
+        timestamp: body.timestamp ? new Date(body.timestamp) : undefined,
+        metadata: body.metadata,
+      });
+
+      if (result.outcome === 'rejected') {
+        switch (result.reason) {
+          case 'subscription_not_found':
+            throw ErrException.newFromCodeName(errConstants.ERR_SUBSCRIPTION_NOT_FOUND);
+          case 'unknown_feature':
+            throw ErrException.newFromCodeName(errConstants.ERR_UNKNOWN_USAGE_FEATURE);
+          default:
+            throw ErrException.newFromCodeName(errConstants.ERR_USAGE_NOT_ACCEPTED);
+        }
+      }
+
+      res.status(result.outcome === 'duplicate' ? HttpStatus.OK : HttpStatus.CREATED);
+      return this.cmmService.newResultInstance().withResult({ ...result.record.toJSON(), duplicate: result.outcome === 'duplicate' });
+    } catch (error) {
+      this._Logger.error(`Failed to record usage: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+}
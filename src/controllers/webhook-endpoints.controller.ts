@@ -0,0 +1,224 @@
+import { Controller, Post, Get, Put, Delete, Body, Param, Query, HttpCode, HttpStatus } from '@nestjs/common';
+import { CommonService, ErrException, errConstants } from '@myapp/common';
+import { LoggerService } from '@nestjs/common';
+import { CustomResult } from '@xxxhand/app-common';
+import { MerchantWebhookService } from '../domain/services/webhooks/merchant-webhook.service';
+import { CreateWebhookEndpointRequest, UpdateWebhookEndpointRequest, WebhookDeliveryQueryRequest } from '../domain/value-objects/webhook.request';
+
+@Controller({
+  path: 'webhook-endpoints',
+  version: '1',
+})
+export class WebhookEndpointsController {
+  private readonly _Logger: LoggerService;
+
+  constructor(
+    private readonly cmmService: CommonService,
+    private readonly webhookService: MerchantWebhookService,
+  ) {
+    this._Logger = this.cmmService.getDefaultLogger(WebhookEndpointsController.name);
+  }
+
+  /**
+   * 登記 Webhook 端點（僅此時回傳密鑰）
+   * POST /api/v1/webhook-endpoints
+   */
+  @Post()
+  public async createEndpoint(@Body() body: CreateWebhookEndpointRequest): Promise<CustomResult> {
+    this._Logger.log(`Creating webhook endpoint for merchant: ${body.merchantId}`);
+
+    try {
+      const endpoint = await this.webhookService.createEndpoint(body);
+      return this.cmmService.newResultInstance().withResult({ ...endpoint.toJSON(), secret: endpoint.secret });
+    } catch (error) {
+      this._Logger.error(`Failed to create webhook endpoint: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 查詢商家的 Webhook 端點
+   * GET /api/v1/webhook-endpoints?merchantId=
+   */
+  @Get()
+  public async listEndpoints(@Query('merchantId') merchantId: string): Promise<CustomResult> {
+    this._Logger.log(`Listing webhook endpoints for merchant: ${merchantId}`);
+
+    try {
+      if (!merchantId) {
+        throw ErrException.newFromCodeName(errConstants.ERR_INVALID_REQUEST_DATA);
+      }
+
+      const endpoints = await this.webhookService.listEndpoints(merchantId);
+      return this.cmmService.newResultInstance().withResult({
+        merchantId,
+        endpoints: endpoints.map((endpoint) => endpoint.toJSON()),
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to list webhook endpoints: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 查詢單一 Webhook 端點
+   * GET /api/v1/webhook-endpoints/:endpointId
+   */
+  @Get(':endpointId')
+  public async getEndpoint(@Param('endpointId') endpointId: string): Promise<CustomResult> {
+    this._Logger.log(`Getting webhook endpoint: ${endpointId}`);
+
+    try {
+      const endpoint = await this.webhookService.getEndpoint(endpointId);
+      if (!endpoint) {
+        throw ErrException.newFromCodeName(errConstants.ERR_WEBHOOK_ENDPOINT_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult(endpoint.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to get webhook endpoint: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 更新 Webhook 端點
+   * PUT /api/v1/webhook-endpoints/:endpointId
+   */
+  @Put(':endpointId')
+  public async updateEndpoint(@Param('endpointId') endpointId: string, @Body() body: UpdateWebhookEndpointRequest): Promise<CustomResult> {
+    this._Logger.log(`Updating webhook endpoint: ${endpointId}`);
+
+    try {
+      const endpoint = await this.webhookService.updateEndpoint(endpointId, body);
+      if (!endpoint) {
+        throw ErrException.newFromCodeName(errConstants.ERR_WEBHOOK_ENDPOINT_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult(endpoint.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to update webhook endpoint: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 更換 Webhook 端點密鑰
+   * POST /api/v1/webhook-endpoints/:endpointId/rotate-secret
+   */
+  @Post(':endpointId/rotate-secret')
+  @HttpCode(HttpStatus.OK)
+  public async rotateSecret(@Param('endpointId') endpointId: string): Promise<CustomResult> {
+    this._Logger.log(`Rotating secret of webhook endpoint: ${endpointId}`);
+
+    try {
+      const endpoint = await this.webhookService.rotateSecret(endpointId);
+      if (!endpoint) {
+        throw ErrException.newFromCodeName(errConstants.ERR_WEBHOOK_ENDPOINT_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult({ ...endpoint.toJSON(), secret: endpoint.secret });
+    } catch (error) {
+      this._Logger.error(`Failed to rotate webhook secret: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 刪除 Webhook 端點
+   * DELETE /api/v1/webhook-endpoints/:endpointId
+   */
+  @Delete(':endpointId')
+  public async deleteEndpoint(@Param('endpointId') endpointId: string): Promise<CustomResult> {
+    this._Logger.log(`Deleting webhook endpoint: ${endpointId}`);
+
+    try {
+      const deleted = await this.webhookService.deleteEndpoint(endpointId);
+      if (!deleted) {
+        throw ErrException.newFromCodeName(errConstants.ERR_WEBHOOK_ENDPOINT_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult({ endpointId, deleted: true });
+    } catch (error) {
+      this._Logger.error(`Failed to delete webhook endpoint: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 查詢端點的投遞紀錄
+   * GET /api/v1/webhook-endpoints/:endpointId/deliveries
+   */
+  @Get(':endpointId/deliveries')
+  public async getDeliveries(@Param('endpointId') endpointId: string, @Query() query: WebhookDeliveryQueryRequest): Promise<CustomResult> {
+    this._Logger.log(`Getting deliveries of webhook endpoint: ${endpointId}`);
+
+    try {
+      const endpoint = await this.webhookService.getEndpoint(endpointId);
+      if (!endpoint) {
+        throw ErrException.newFromCodeName(errConstants.ERR_WEBHOOK_ENDPOINT_NOT_FOUND);
+      }
+
+      const result = await this.webhookService.listDeliveries(endpointId, query);
+      return this.cmmService.newResultInstance().withResult({
+        endpointId,
+        deliveries: result.deliveries.map((delivery) => delivery.toJSON()),
+        pagination: {
+          currentPage: result.page,
+          totalPages: Math.ceil(result.total / result.limit),
+          totalItems: result.total,
+          itemsPerPage: result.limit,
+        },
+      });
+    } catch (error) {
+      this._Logger.error(`Failed to get webhook deliveries: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * 手動重新投遞
+   * POST /api/v1/webhook-endpoints/:endpointId/deliveries/:deliveryId/redeliver
+   */
+  @Post(':endpointId/deliveries/:deliveryId/redeliver')
+  @HttpCode(HttpStatus.OK)
+  public async redeliver(@Param('endpointId') endpointId: string, @Param('deliveryId') deliveryId: string): Promise<CustomResult> {
+    this._Logger.log(`Redelivering webhook delivery: ${deliveryId}`);
+
+    try {
+      const delivery = await this.webhookService.redeliver(endpointId, deliveryId);
+      if (!delivery) {
+        throw ErrException.newFromCodeName(errConstants.ERR_WEBHOOK_DELIVERY_NOT_FOUND);
+      }
+
+      return this.cmmService.newResultInstance().withResult(delivery.toJSON());
+    } catch (error) {
+      this._Logger.error(`Failed to redeliver webhook: ${error.message}`, error.stack);
+      if (error instanceof ErrException) {
+        throw error;
+      }
+      throw ErrException.newFromCodeName(errConstants.ERR_INTERNAL_SERVER_ERROR);
+    }
+  }
+}
@@ -1,7 +1,7 @@
 import { BaseEntity } from './base-entity.abstract';
 import { Money } from '../value-objects/money';
 import { BillingCycleVO } from '../value-objects/billing-cycle';
-import { PlanStatus, PlanType, BillingCycle } from '../enums/codes.const';
+import { PlanStatus, PlanType, BillingCycle, UsageAggregationType } from '../enums/codes.const';
 
 /**
  * 計費規則
@@ -23,6 +23,8 @@ interface BillingRule {
   includedUnits?: number;
   /** 階層定價配置 */
   tiers?: PricingTier[];
+  /** 用量彙總方式（預設加總） */
+  aggregation?: UsageAggregationType;
 }
 
 /**
@@ -107,6 +109,8 @@ interface PlanMetadata {
   minimumCommitmentMonths?: number;
   /** 取消政策 */
   cancellationPolicy: 'IMMEDIATE' | 'END_OF_PERIOD' | 'WITH_PENALTY';
+  /** 由閘道定期定額扣款的閘道名稱（例如 'ecpay'），未設定時由系統排程扣款 */
+  periodBillingGateway?: string;
 }
 
 /**
@@ -390,6 +394,20 @@ export class BillingPlanEntity extends BaseEntity {
     return this.limits.find((l) => l.feature === feature);
   }
 
+  /**
+   * 取得計量功能的彙總方式，對應計費規則的 unit
+   */
+  public getUsageAggregation(feature: string): UsageAggregationType {
+    return this.billingRules.find((r) => r.unit === feature)?.aggregation || UsageAggregationType.SUM;
+  }
+
+  /**
+   * 計量的功能清單（計費規則的 unit 與功能限制的 feature）
+   */
+  public getMeteredFeatures(): string[] {
+    return Array.from(new Set([...this.billingRules.map((r) => r.unit), ...this.limits.map((l) => l.feature)]));
+  }
+
   /**
    * 計算使用量費用
    */
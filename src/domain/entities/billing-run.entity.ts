@@ -0,0 +1,110 @@
+import { BaseEntity } from './base-entity.abstract';
+import { BillingRunStatus, BillingRunTrigger } from '../enums/codes.const';
+
+/**
+ * 批次處理統計
+ */
+export interface BillingRunCounters {
+  processed: number;
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * 計費批次作業實體
+ * 記錄每次每日計費作業的執行摘要
+ */
+export class BillingRunEntity extends BaseEntity {
+  /** 計費基準時間（到期判斷以此為準） */
+  public asOf: Date = new Date();
+
+  /** 觸發來源 */
+  public trigger: BillingRunTrigger = BillingRunTrigger.SCHEDULED;
+
+  /** 執行狀態 */
+  public status: BillingRunStatus = BillingRunStatus.RUNNING;
+
+  /** 執行實例識別 */
+  public owner: string = '';
+
+  /** 開始時間 */
+  public startedAt: Date = new Date();
+
+  /** 完成時間 */
+  public completedAt?: Date;
+
+  /** 已處理批次數 */
+  public batches: number = 0;
+
+  /** 最後處理的訂閱 ID（游標） */
+  public lastCursor?: string;
+
+  /** 到期計費統計 */
+  public billing: BillingRunCounters = { processed: 0, succeeded: 0, failed: 0 };
+
+  /** 失敗重試統計 */
+  public retries: BillingRunCounters = { processed: 0, succeeded: 0, failed: 0 };
+
+  /** 個別訂閱錯誤 */
+  public errors: Array<{ subscriptionId: string; error: string }> = [];
+
+  /** 作業失敗原因 */
+  public failureReason?: string;
+
+  constructor(asOf: Date, trigger: BillingRunTrigger, owner: string) {
+    super();
+    this.asOf = asOf;
+    this.trigger = trigger;
+    this.owner = owner;
+  }
+
+  /**
+   * 記錄一個計費批次結果
+   */
+  public recordBatch(result: BillingRunCounters & { errors: Array<{ subscriptionId: string; error: string }> }, cursor?: string): void {
+    this.batches++;
+    this.billing.processed += result.processed;
+    this.billing.succeeded += result.succeeded;
+    this.billing.failed += result.failed;
+    this.errors.push(...result.errors);
+    if (cursor) {
+      this.lastCursor = cursor;
+    }
+    this.touch();
+  }
+
+  /**
+   * 記錄失敗重試結果
+   */
+  public recordRetries(result: BillingRunCounters): void {
+    this.retries = { ...result };
+    this.touch();
+  }
+
+  /**
+   * 標記為完成
+   */
+  public complete(): void {
+    this.status = BillingRunStatus.COMPLETED;
+    this.completedAt = new Date();
+    this.touch();
+  }
+
+  /**
+   * 標記為失敗
+   */
+  public fail(reason: string): void {
+    this.status = BillingRunStatus.FAILED;
+    this.completedAt = new Date();
+    this.failureReason = reason;
+    this.touch();
+  }
+
+  /**
+   * 獲取執行時長（毫秒）
+   */
+  public getDuration(): number | undefined {
+    if (!this.completedAt) return undefined;
+    return this.completedAt.getTime() - this.startedAt.getTime();
+  }
+}
@@ -0,0 +1,158 @@
+import { BaseEntity } from './base-entity.abstract';
+import { CheckoutSessionMode, CheckoutSessionStatus } from '../enums/codes.const';
+
+/**
+ * 結帳工作階段實體
+ * 客戶透過一次性網址自行綁定新的支付方式；建立於訂閱（更新支付方式並重新扣款）或新訂閱前，
+ * 資料庫只保存 token 的雜湊，完成、取消或過期後 token 即失效
+ */
+export class CheckoutSessionEntity extends BaseEntity {
+  /** 用途 */
+  public mode: CheckoutSessionMode = CheckoutSessionMode.SIGNUP;
+
+  /** 客戶 ID */
+  public customerId: string = '';
+
+  /** 訂閱 ID（新訂閱為空） */
+  public subscriptionId?: string;
+
+  /** 待重新扣款的付款 ID */
+  public paymentId?: string;
+
+  /** 綁定支付方式的閘道 */
+  public gateway: string = 'mock';
+
+  /** 閘道付款頁需收取的金額（更新時為待重新扣款的付款金額，新訂閱為首期金額） */
+  public amount?: number;
+
+  /** 幣別 */
+  public currency: string = 'TWD';
+
+  /** 狀態 */
+  public status: CheckoutSessionStatus = CheckoutSessionStatus.OPEN;
+
+  /** 一次性 token 的 SHA-256 雜湊 */
+  public tokenHash: string = '';
+
+  /** 到期時間 */
+  public expiresAt: Date = new Date();
+
+  /** 完成後導回的網址 */
+  public successUrl?: string;
+
+  /** 取消時導回的網址 */
+  public cancelUrl?: string;
+
+  /** 閘道端建立過的交易編號（ECPay MerchantTradeNo） */
+  public gatewayTradeNos: string[] = [];
+
+  /** 完成時綁定的支付方式 ID */
+  public paymentMethodId?: string;
+
+  /** 完成時重新扣款的結果 */
+  public paymentStatus?: string;
+
+  /** 完成時間 */
+  public completedAt?: Date;
+
+  /** 最近一次完成失敗的原因 */
+  public lastError?: string;
+
+  /** 完成處理的租約到期時間，避免重複完成 */
+  public lockedUntil?: Date;
+
+  /** 工作階段元資料 */
+  public metadata: Record<string, any> = {};
+
+  constructor(customerId: string, mode: CheckoutSessionMode, gateway: string, tokenHash: string, expiresAt: Date) {
+    super();
+    this.customerId = customerId;
+    this.mode = mode;
+    this.gateway = gateway;
+    this.tokenHash = tokenHash;
+    this.expiresAt = expiresAt;
+  }
+
+  /**
+   * 是否仍可由客戶完成
+   */
+  public isOpen(at: Date = new Date()): boolean {
+    return this.status === CheckoutSessionStatus.OPEN && this.expiresAt > at;
+  }
+
+  /**
+   * 是否已過期但尚未標記
+   */
+  public hasExpired(at: Date = new Date()): boolean {
+    return this.status === CheckoutSessionStatus.OPEN && this.expiresAt <= at;
+  }
+
+  /**
+   * 記錄閘道端建立的交易編號
+   */
+  public addGatewayTrade(tradeNo: string): void {
+    if (!this.gatewayTradeNos.includes(tradeNo)) {
+      this.gatewayTradeNos.push(tradeNo);
+    }
+    this.touch();
+  }
+
+  /**
+   * 標記完成
+   */
+  public complete(paymentMethodId: string, paymentStatus?: string, at: Date = new Date()): void {
+    this.status = CheckoutSessionStatus.COMPLETED;
+    this.paymentMethodId = paymentMethodId;
+    this.paymentStatus = paymentStatus;
+    this.completedAt = at;
+    this.lastError = undefined;
+    this.lockedUntil = undefined;
+    this.touch();
+  }
+
+  /**
+   * 記錄完成失敗，工作階段維持開啟供客戶重試
+   */
+  public recordFailure(error: string): void {
+    this.lastError = error;
+    this.lockedUntil = undefined;
+    this.touch();
+  }
+
+  public expire(): void {
+    this.status = CheckoutSessionStatus.EXPIRED;
+    this.touch();
+  }
+
+  public cancel(): void {
+    this.status = CheckoutSessionStatus.CANCELED;
+    this.touch();
+  }
+
+  /**
+   * 轉換為 API 回應格式（不含 token）
+   */
+  public toJSON() {
+    return {
+      sessionId: this.id,
+      mode: this.mode,
+      customerId: this.customerId,
+      subscriptionId: this.subscriptionId,
+      paymentId: this.paymentId,
+      gateway: this.gateway,
+      amount: this.amount,
+      currency: this.currency,
+      status: this.status,
+      expiresAt: this.expiresAt,
+      successUrl: this.successUrl,
+      cancelUrl: this.cancelUrl,
+      paymentMethodId: this.paymentMethodId,
+      paymentStatus: this.paymentStatus,
+      completedAt: this.completedAt,
+      lastError: this.lastError,
+      metadata: this.metadata,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
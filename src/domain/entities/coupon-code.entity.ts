@@ -0,0 +1,62 @@
+import { BaseEntity } from './base-entity.abstract';
+import { CouponCodeStatus } from '../enums/codes.const';
+
+/**
+ * 優惠券碼實體
+ * 隸屬於某個優惠的一次性代碼，兌換時套用所屬優惠的折扣與條件
+ */
+export class CouponCodeEntity extends BaseEntity {
+  /** 所屬優惠 ID */
+  public promotionId: string = '';
+
+  /** 所屬優惠碼 */
+  public promotionCode: string = '';
+
+  /** 券碼 */
+  public code: string = '';
+
+  /** 產生批次 */
+  public batchId: string = '';
+
+  /** 狀態 */
+  public status: CouponCodeStatus = CouponCodeStatus.AVAILABLE;
+
+  /** 兌換時間 */
+  public redeemedAt?: Date;
+
+  /** 兌換客戶 ID */
+  public customerId?: string;
+
+  /** 兌換訂閱 ID */
+  public subscriptionId?: string;
+
+  constructor(promotionId: string, promotionCode: string, code: string, batchId: string) {
+    super();
+    this.promotionId = promotionId;
+    this.promotionCode = promotionCode;
+    this.code = code;
+    this.batchId = batchId;
+  }
+
+  /**
+   * 是否可兌換
+   */
+  public isAvailable(): boolean {
+    return this.status === CouponCodeStatus.AVAILABLE;
+  }
+
+  /**
+   * 轉換為 API 回應格式
+   */
+  public toJSON() {
+    return {
+      code: this.code,
+      promotionCode: this.promotionCode,
+      batchId: this.batchId,
+      status: this.status,
+      redeemedAt: this.redeemedAt,
+      customerId: this.customerId,
+      subscriptionId: this.subscriptionId,
+    };
+  }
+}
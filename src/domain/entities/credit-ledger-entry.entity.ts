@@ -0,0 +1,159 @@
+import { BaseEntity } from './base-entity.abstract';
+import { CreditEntryType, CreditSourceType } from '../enums/codes.const';
+import { Money } from '../value-objects/money';
+
+/** 客戶抵用金科目 */
+export const CUSTOMER_BALANCE_ACCOUNT = 'customer_balance';
+
+/** 各來源的對方科目；逾期失效轉入 credit_breakage */
+const COUNTER_ACCOUNTS: Record<CreditSourceType, string> = {
+  [CreditSourceType.REFUND]: 'refunds_payable',
+  [CreditSourceType.INVOICE]: 'accounts_receivable',
+  [CreditSourceType.ADMIN]: 'goodwill',
+  [CreditSourceType.PLAN_CHANGE]: 'plan_change_adjustments',
+};
+
+/**
+ * 分錄來源
+ */
+export interface CreditSource {
+  type: CreditSourceType;
+  /** 退款 ID、付款 ID（帳單依付款開立）或訂閱 ID；管理員調整可不填 */
+  id?: string;
+}
+
+/**
+ * 分錄的借貸明細，每筆分錄的借方合計須等於貸方合計
+ */
+export interface CreditJournalLine {
+  account: string;
+  debit: number;
+  credit: number;
+}
+
+/**
+ * 扣抵、失效或沖回時對應的入帳分錄
+ */
+export interface CreditAllocation {
+  entryId: string;
+  amount: number;
+}
+
+/**
+ * 抵用金分錄實體
+ * 每筆分錄以借貸平衡的明細記錄（複式記帳），餘額依幣別分開計算；
+ * 入帳分錄同時是可扣抵的額度，remainingAmount 為尚未使用的金額；
+ * 沖回分錄退回已扣抵的金額，額度歸還原入帳分錄
+ */
+export class CreditLedgerEntryEntity extends BaseEntity {
+  /** 客戶 ID */
+  public customerId: string = '';
+
+  /** 分錄類型 */
+  public type: CreditEntryType = CreditEntryType.CREDIT;
+
+  /** 金額（以分為單位，恆為正數） */
+  public amount: number = 0;
+
+  /** 幣別 */
+  public currency: string = 'TWD';
+
+  /** 借貸明細 */
+  public lines: CreditJournalLine[] = [];
+
+  /** 來源 */
+  public source: CreditSource = { type: CreditSourceType.ADMIN };
+
+  /** 原因（管理員調整時為稽核理由） */
+  public reason: string = '';
+
+  /** 操作者 */
+  public actor?: string;
+
+  /** 入帳額度的到期時間，未設定表示不會失效 */
+  public expiresAt?: Date;
+
+  /** 入帳額度尚未使用的金額 */
+  public remainingAmount: number = 0;
+
+  /** 扣抵、失效或沖回時對應的入帳分錄 */
+  public allocations: CreditAllocation[] = [];
+
+  constructor(customerId: string, type: CreditEntryType, amount: Money, source: CreditSource, reason: string) {
+    super();
+    this.customerId = customerId;
+    this.type = type;
+    this.amount = amount?.amount ?? 0;
+    this.currency = amount?.currency ?? 'TWD';
+    this.source = source;
+    this.reason = reason;
+    if (type === CreditEntryType.CREDIT || type === CreditEntryType.REVERSAL) {
+      this.lines = CreditLedgerEntryEntity.journal(COUNTER_ACCOUNTS[source?.type], CUSTOMER_BALANCE_ACCOUNT, this.amount);
+    } else {
+      this.lines = CreditLedgerEntryEntity.journal(CUSTOMER_BALANCE_ACCOUNT, type === CreditEntryType.EXPIRY ? 'credit_breakage' : COUNTER_ACCOUNTS[source?.type], this.amount);
+    }
+    if (type === CreditEntryType.CREDIT) {
+      this.remainingAmount = this.amount;
+    }
+  }
+
+  /**
+   * 建立借貸各一筆的明細
+   */
+  public static journal(debitAccount: string, creditAccount: string, amount: number): CreditJournalLine[] {
+    return [
+      { account: debitAccount, debit: amount, credit: 0 },
+      { account: creditAccount, debit: 0, credit: amount },
+    ];
+  }
+
+  /**
+   * 借方合計是否等於貸方合計
+   */
+  public isBalanced(): boolean {
+    const debit = this.lines.reduce((sum, line) => sum + line.debit, 0);
+    const credit = this.lines.reduce((sum, line) => sum + line.credit, 0);
+    return this.lines.length > 0 && debit === credit;
+  }
+
+  /**
+   * 取得分錄金額
+   */
+  public getAmount(): Money {
+    return new Money(this.amount, this.currency);
+  }
+
+  /**
+   * 對客戶餘額的影響，入帳與沖回為正、扣抵與失效為負
+   */
+  public getBalanceEffect(): number {
+    return this.type === CreditEntryType.CREDIT || this.type === CreditEntryType.REVERSAL ? this.amount : -this.amount;
+  }
+
+  /**
+   * 入帳額度是否已到期
+   */
+  public isExpired(at: Date = new Date()): boolean {
+    return !!this.expiresAt && this.expiresAt <= at;
+  }
+
+  /**
+   * 轉換為 API 回應格式
+   */
+  public toJSON() {
+    return {
+      entryId: this.id,
+      customerId: this.customerId,
+      type: this.type,
+      amount: this.getAmount().toJSON(),
+      lines: this.lines,
+      source: this.source,
+      reason: this.reason,
+      actor: this.actor,
+      expiresAt: this.expiresAt,
+      remainingAmount: this.type === CreditEntryType.CREDIT ? this.remainingAmount : undefined,
+      allocations: this.allocations.length ? this.allocations : undefined,
+      createdAt: this.createdAt,
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { BaseEntity } from './base-entity.abstract';
 import { CustomerStatus } from '../enums/codes.const';
+import { EInvoicePreference } from '../utils/einvoice.util';
 
 /**
  * 客戶實體
@@ -33,6 +34,9 @@ export class CustomerEntity extends BaseEntity {
   /** 時區 */
   public timezone: string = 'Asia/Taipei';
 
+  /** 電子發票收受設定（載具、統一編號或捐贈） */
+  public eInvoicePreference?: EInvoicePreference;
+
   /** 客戶元數據（用於合規性和擴展資訊） */
   public metadata: Record<string, any> = {};
 
@@ -84,6 +88,14 @@ export class CustomerEntity extends BaseEntity {
     this.touch();
   }
 
+  /**
+   * 設定電子發票收受方式
+   */
+  public setEInvoicePreference(preference: EInvoicePreference): void {
+    this.eInvoicePreference = preference;
+    this.touch();
+  }
+
   /**
    * 新增標籤
    */
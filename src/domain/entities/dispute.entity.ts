@@ -0,0 +1,234 @@
+import { BaseEntity } from './base-entity.abstract';
+import { DisputeStatus } from '../enums/codes.const';
+import { Money } from '../value-objects/money';
+
+/**
+ * 爭議證據附件
+ */
+export interface DisputeEvidence {
+  evidenceId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  /** 附件的儲存路徑 */
+  storagePath: string;
+  description?: string;
+  uploadedBy?: string;
+  uploadedAt: Date;
+}
+
+/**
+ * 爭議狀態變更紀錄
+ */
+export interface DisputeStatusChange {
+  status: DisputeStatus;
+  changedAt: Date;
+  note?: string;
+}
+
+/** 各狀態允許的下一個狀態；逾期未回覆的爭議直接判定敗訴 */
+const DISPUTE_TRANSITIONS: Record<DisputeStatus, DisputeStatus[]> = {
+  [DisputeStatus.NEEDS_RESPONSE]: [DisputeStatus.UNDER_REVIEW, DisputeStatus.WON, DisputeStatus.LOST],
+  [DisputeStatus.UNDER_REVIEW]: [DisputeStatus.WON, DisputeStatus.LOST],
+  [DisputeStatus.WON]: [],
+  [DisputeStatus.LOST]: [],
+};
+
+/**
+ * 付款爭議（退單）實體
+ * 持卡人向發卡機構爭議一筆已扣款的付款，商家須於期限內提交證據；敗訴時款項由閘道扣回
+ */
+export class DisputeEntity extends BaseEntity {
+  /** 被爭議的付款 ID */
+  public paymentId: string = '';
+
+  /** 訂閱 ID */
+  public subscriptionId: string = '';
+
+  /** 客戶 ID */
+  public customerId: string = '';
+
+  /** 閘道名稱 */
+  public gateway: string = '';
+
+  /** 閘道的爭議編號，人工登錄的爭議可能沒有 */
+  public gatewayDisputeId?: string;
+
+  /** 爭議金額（以分為單位） */
+  public amount: number = 0;
+
+  /** 幣別 */
+  public currency: string = 'TWD';
+
+  /** 爭議原因 */
+  public reason: string = '';
+
+  /** 狀態 */
+  public status: DisputeStatus = DisputeStatus.NEEDS_RESPONSE;
+
+  /** 回覆期限 */
+  public responseDueBy?: Date;
+
+  /** 爭議成立時間 */
+  public openedAt: Date = new Date();
+
+  /** 提交回覆時間 */
+  public respondedAt?: Date;
+
+  /** 回覆說明 */
+  public responseNote?: string;
+
+  /** 結案時間 */
+  public closedAt?: Date;
+
+  /** 證據附件 */
+  public evidence: DisputeEvidence[] = [];
+
+  /** 敗訴扣回時建立的退款 ID */
+  public reversalRefundId?: string;
+
+  /** 狀態變更紀錄 */
+  public statusHistory: DisputeStatusChange[] = [];
+
+  /** 額外資訊 */
+  public metadata: Record<string, any> = {};
+
+  constructor(paymentId: string, subscriptionId: string, customerId: string, gateway: string, amount: Money, reason: string, responseDueBy?: Date) {
+    super();
+    this.paymentId = paymentId;
+    this.subscriptionId = subscriptionId;
+    this.customerId = customerId;
+    this.gateway = gateway;
+    this.amount = amount?.amount ?? 0;
+    this.currency = amount?.currency ?? 'TWD';
+    this.reason = reason;
+    this.responseDueBy = responseDueBy;
+    this.statusHistory = [{ status: DisputeStatus.NEEDS_RESPONSE, changedAt: this.openedAt, note: reason }];
+  }
+
+  /**
+   * 取得爭議金額
+   */
+  public getAmount(): Money {
+    return new Money(this.amount, this.currency);
+  }
+
+  /**
+   * 新增證據附件，僅能於回覆前新增
+   */
+  public addEvidence(evidence: DisputeEvidence): void {
+    if (this.status !== DisputeStatus.NEEDS_RESPONSE) {
+      throw new Error(`Cannot add evidence to dispute in ${this.status} status`);
+    }
+    this.evidence.push(evidence);
+    this.touch();
+  }
+
+  /**
+   * 提交回覆，至少需附一份證據
+   */
+  public submitResponse(note?: string): void {
+    if (this.evidence.length === 0) {
+      throw new Error('Dispute response requires at least one evidence file');
+    }
+    this.transitionTo(DisputeStatus.UNDER_REVIEW, note || 'Response submitted');
+    this.respondedAt = new Date();
+    this.responseNote = note;
+  }
+
+  /**
+   * 閘道通知已進入審查（例如商家於閘道後台回覆）
+   */
+  public markUnderReview(note?: string): void {
+    this.transitionTo(DisputeStatus.UNDER_REVIEW, note || 'Under review');
+    this.respondedAt = this.respondedAt || new Date();
+  }
+
+  /**
+   * 標記勝訴
+   */
+  public markWon(note?: string): void {
+    this.transitionTo(DisputeStatus.WON, note || 'Dispute won');
+    this.closedAt = new Date();
+  }
+
+  /**
+   * 標記敗訴
+   */
+  public markLost(note?: string): void {
+    this.transitionTo(DisputeStatus.LOST, note || 'Dispute lost');
+    this.closedAt = new Date();
+  }
+
+  /**
+   * 記錄敗訴扣回的退款
+   */
+  public recordReversal(refundId: string): void {
+    this.reversalRefundId = refundId;
+    this.touch();
+  }
+
+  /**
+   * 更新回覆期限（閘道延長或人工調整）
+   */
+  public updateResponseDueBy(responseDueBy: Date): void {
+    this.responseDueBy = responseDueBy;
+    this.touch();
+  }
+
+  /**
+   * 是否已結案
+   */
+  public isClosed(): boolean {
+    return this.status === DisputeStatus.WON || this.status === DisputeStatus.LOST;
+  }
+
+  /**
+   * 是否已過回覆期限仍未回覆
+   */
+  public isOverdue(asOf: Date = new Date()): boolean {
+    return this.status === DisputeStatus.NEEDS_RESPONSE && !!this.responseDueBy && this.responseDueBy.getTime() < asOf.getTime();
+  }
+
+  private transitionTo(status: DisputeStatus, note?: string): void {
+    if (!(DISPUTE_TRANSITIONS[this.status] || []).includes(status)) {
+      throw new Error(`Cannot transition dispute from ${this.status} to ${status}`);
+    }
+    this.status = status;
+    this.statusHistory.push({ status, changedAt: new Date(), note });
+    this.touch();
+  }
+
+  /**
+   * 轉換為 API 回應格式（不含附件儲存路徑）
+   */
+  public toJSON() {
+    return {
+      disputeId: this.id,
+      paymentId: this.paymentId,
+      subscriptionId: this.subscriptionId,
+      customerId: this.customerId,
+      gateway: this.gateway,
+      gatewayDisputeId: this.gatewayDisputeId,
+      amount: this.getAmount().toJSON(),
+      reason: this.reason,
+      status: this.status,
+      responseDueBy: this.responseDueBy,
+      openedAt: this.openedAt,
+      respondedAt: this.respondedAt,
+      responseNote: this.responseNote,
+      closedAt: this.closedAt,
+      evidence: this.evidence.map((item) => ({
+        evidenceId: item.evidenceId,
+        fileName: item.fileName,
+        contentType: item.contentType,
+        size: item.size,
+        description: item.description,
+        uploadedBy: item.uploadedBy,
+        uploadedAt: item.uploadedAt,
+      })),
+      reversalRefundId: this.reversalRefundId,
+      statusHistory: this.statusHistory,
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import { BaseEntity } from './base-entity.abstract';
+import { DunningFinalAction, DunningStepAction } from '../enums/codes.const';
+
+/**
+ * 催收步驟
+ * day 為付款失敗後第幾天執行（0 表示失敗當下）
+ */
+export interface DunningStep {
+  day: number;
+  actions: DunningStepAction[];
+}
+
+/**
+ * 催收最終處置
+ */
+export interface DunningFinalStep {
+  day: number;
+  action: DunningFinalAction;
+}
+
+/**
+ * 催收活動實體
+ * 定義付款失敗後各天的重試、通知與寬限期結束時點，以及最後對訂閱的處置；
+ * productIds 為空時適用所有產品
+ */
+export class DunningCampaignEntity extends BaseEntity {
+  /** 名稱 */
+  public name: string = '';
+
+  /** 描述 */
+  public description?: string;
+
+  /** 是否為預設活動（未指定產品的訂閱使用） */
+  public isDefault: boolean = false;
+
+  /** 是否啟用 */
+  public enabled: boolean = true;
+
+  /** 適用產品 */
+  public productIds: string[] = [];
+
+  /** 催收步驟（依天數遞增） */
+  public steps: DunningStep[] = [];
+
+  /** 最終處置 */
+  public finalStep: DunningFinalStep = { day: 14, action: DunningFinalAction.CANCEL };
+
+  constructor(name: string, steps: DunningStep[], finalStep: DunningFinalStep) {
+    super();
+    this.name = name;
+    this.steps = steps;
+    this.finalStep = finalStep;
+  }
+
+  /**
+   * 是否適用於產品
+   */
+  public appliesTo(productId: string): boolean {
+    return this.enabled && (this.productIds.length === 0 || this.productIds.includes(productId));
+  }
+
+  /**
+   * 驗證排程，不合法時拋出
+   */
+  public validateSchedule(): void {
+    let previousDay = -1;
+    for (const step of this.steps || []) {
+      if (!Number.isInteger(step.day) || step.day <= previousDay) {
+        throw new Error('Invalid dunning schedule: step days must be ascending non-negative integers');
+      }
+      if (!step.actions?.length || new Set(step.actions).size !== step.actions.length) {
+        throw new Error('Invalid dunning schedule: each step needs distinct actions');
+      }
+      previousDay = step.day;
+    }
+
+    if (this.steps.filter((step) => step.actions.includes(DunningStepAction.END_GRACE_PERIOD)).length > 1) {
+      throw new Error('Invalid dunning schedule: grace period can only end once');
+    }
+    if (!this.finalStep || !Number.isInteger(this.finalStep.day) || this.finalStep.day < Math.max(previousDay, 0)) {
+      throw new Error('Invalid dunning schedule: final action must not precede the last step');
+    }
+  }
+
+  /**
+   * 寬限期結束的天數，未設定時寬限期持續到最終處置
+   */
+  public getGracePeriodDays(): number {
+    const step = this.steps.find((s) => s.actions.includes(DunningStepAction.END_GRACE_PERIOD));
+    return step ? step.day : this.finalStep.day;
+  }
+
+  /**
+   * 轉換為 API 回應格式
+   */
+  public toJSON() {
+    return {
+      campaignId: this.id,
+      name: this.name,
+      description: this.description,
+      isDefault: this.isDefault,
+      enabled: this.enabled,
+      productIds: this.productIds,
+      steps: this.steps,
+      finalStep: this.finalStep,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
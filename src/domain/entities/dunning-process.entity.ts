@@ -0,0 +1,198 @@
+import { BaseEntity } from './base-entity.abstract';
+import { DunningCampaignEntity, DunningFinalStep, DunningStep } from './dunning-campaign.entity';
+import { DunningFinalAction, DunningStatus, DunningStepAction } from '../enums/codes.const';
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 單一動作的執行結果
+ */
+export interface DunningActionResult {
+  action: DunningStepAction | DunningFinalAction;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * 已執行的階段紀錄
+ */
+export interface DunningStageRecord {
+  stage: number;
+  day: number;
+  executedAt: Date;
+  results: DunningActionResult[];
+}
+
+/**
+ * 訂閱的催收流程實體
+ * 建立時複製活動的步驟，活動之後的修改不影響進行中的流程；
+ * stage 為已執行的階段數（含最終處置），供儀表板依階段查詢
+ */
+export class DunningProcessEntity extends BaseEntity {
+  /** 訂閱 ID */
+  public subscriptionId: string = '';
+
+  /** 客戶 ID */
+  public customerId: string = '';
+
+  /** 觸發催收的付款 ID */
+  public paymentId: string = '';
+
+  /** 催收活動 ID（內建預設活動為空） */
+  public campaignId?: string;
+
+  /** 催收活動名稱 */
+  public campaignName: string = '';
+
+  /** 催收步驟 */
+  public steps: DunningStep[] = [];
+
+  /** 最終處置 */
+  public finalStep: DunningFinalStep = { day: 14, action: DunningFinalAction.CANCEL };
+
+  /** 狀態 */
+  public status: DunningStatus = DunningStatus.ACTIVE;
+
+  /** 已執行的階段數 */
+  public stage: number = 0;
+
+  /** 最近執行階段的天數 */
+  public stageDay?: number;
+
+  /** 流程中再次失敗的扣款次數 */
+  public failedAttempts: number = 0;
+
+  /** 開始時間（付款失敗時間） */
+  public startedAt: Date = new Date();
+
+  /** 下一階段的執行時間，流程結束後為空 */
+  public nextActionAt?: Date;
+
+  /** 結束時間 */
+  public endedAt?: Date;
+
+  /** 結束原因 */
+  public exitReason?: string;
+
+  /** 階段執行紀錄 */
+  public history: DunningStageRecord[] = [];
+
+  constructor(subscriptionId: string, customerId: string, paymentId: string, campaign: DunningCampaignEntity, startedAt: Date = new Date()) {
+    super();
+    this.subscriptionId = subscriptionId;
+    this.customerId = customerId;
+    this.paymentId = paymentId;
+    if (campaign) {
+      this.campaignId = campaign.id || undefined;
+      this.campaignName = campaign.name;
+      this.steps = campaign.steps.map((step) => ({ day: step.day, actions: [...step.actions] }));
+      this.finalStep = { ...campaign.finalStep };
+    }
+    this.startedAt = startedAt;
+    this.nextActionAt = this.dayToDate(this.nextDay());
+  }
+
+  /**
+   * 下一個待執行的步驟，已輪到最終處置時為 undefined
+   */
+  public getNextStep(): DunningStep | undefined {
+    return this.steps[this.stage];
+  }
+
+  /**
+   * 是否已輪到最終處置
+   */
+  public isFinalDue(): boolean {
+    return this.stage === this.steps.length;
+  }
+
+  /**
+   * 是否有到期的階段
+   */
+  public isDue(at: Date = new Date()): boolean {
+    return this.isActive() && !!this.nextActionAt && this.nextActionAt <= at;
+  }
+
+  public isActive(): boolean {
+    return this.status === DunningStatus.ACTIVE;
+  }
+
+  /**
+   * 記錄步驟執行結果並排定下一階段
+   */
+  public recordStep(results: DunningActionResult[], at: Date = new Date()): void {
+    const step = this.getNextStep();
+    this.history.push({ stage: this.stage, day: step.day, executedAt: at, results });
+    this.stage += 1;
+    this.stageDay = step.day;
+    this.nextActionAt = this.dayToDate(this.nextDay());
+    this.touch();
+  }
+
+  /**
+   * 記錄最終處置並結束流程
+   */
+  public complete(result: DunningActionResult, at: Date = new Date()): void {
+    this.history.push({ stage: this.stage, day: this.finalStep.day, executedAt: at, results: [result] });
+    this.stage += 1;
+    this.stageDay = this.finalStep.day;
+    this.status = DunningStatus.COMPLETED;
+    this.exitReason = `Final action ${this.finalStep.action}`;
+    this.nextActionAt = undefined;
+    this.endedAt = at;
+    this.touch();
+  }
+
+  /**
+   * 提前結束流程（收回款項或更換支付方式等）
+   */
+  public end(status: DunningStatus.RECOVERED | DunningStatus.EXITED, reason: string, at: Date = new Date()): void {
+    this.status = status;
+    this.exitReason = reason;
+    this.nextActionAt = undefined;
+    this.endedAt = at;
+    this.touch();
+  }
+
+  /**
+   * 記錄流程中再次扣款失敗
+   */
+  public recordFailedAttempt(): void {
+    this.failedAttempts += 1;
+    this.touch();
+  }
+
+  /**
+   * 轉換為 API 回應格式
+   */
+  public toJSON() {
+    return {
+      dunningId: this.id,
+      subscriptionId: this.subscriptionId,
+      customerId: this.customerId,
+      paymentId: this.paymentId,
+      campaignId: this.campaignId,
+      campaignName: this.campaignName,
+      status: this.status,
+      stage: this.stage,
+      stageDay: this.stageDay,
+      totalStages: this.steps.length + 1,
+      failedAttempts: this.failedAttempts,
+      steps: this.steps,
+      finalStep: this.finalStep,
+      startedAt: this.startedAt,
+      nextActionAt: this.nextActionAt,
+      endedAt: this.endedAt,
+      exitReason: this.exitReason,
+      history: this.history,
+    };
+  }
+
+  private nextDay(): number {
+    return this.getNextStep()?.day ?? this.finalStep.day;
+  }
+
+  private dayToDate(day: number): Date {
+    return new Date(this.startedAt.getTime() + day * ONE_DAY_MS);
+  }
+}
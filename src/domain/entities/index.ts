@@ -9,6 +9,25 @@ export * from './billing-plan.entity';
 export * from './subscription.entity';
 export * from './payment.entity';
 export * from './billing-attempt.entity';
+export * from './billing-run.entity';
+export * from './outbox-event.entity';
+export * from './webhook-endpoint.entity';
+export * from './webhook-delivery.entity';
+export * from './invoice.entity';
+export * from './usage-record.entity';
+export * from './refund.entity';
+export * from './promotion.entity';
+export * from './promotion-redemption.entity';
+export * from './coupon-code.entity';
+export * from './credit-ledger-entry.entity';
+export * from './dunning-campaign.entity';
+export * from './dunning-process.entity';
+export * from './checkout-session.entity';
+export * from './reconciliation-run.entity';
+export * from './reconciliation-discrepancy.entity';
+export * from './settlement-batch.entity';
+export * from './settlement-record.entity';
+export * from './dispute.entity';
 
 // 列舉定義
 export * from '../enums/codes.const';
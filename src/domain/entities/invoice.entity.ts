@@ -0,0 +1,259 @@
+import { BaseEntity } from './base-entity.abstract';
+import { EInvoiceStatus, InvoiceLineItemType, InvoiceStatus } from '../enums/codes.const';
+import { Money } from '../value-objects/money';
+import { EInvoicePreference } from '../utils/einvoice.util';
+
+/**
+ * 發票明細（金額以最小貨幣單位表示，折抵為負數）
+ */
+export interface InvoiceLineItem {
+  type: InvoiceLineItemType;
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  amount: number;
+  /** 來源參考（如優惠 ID） */
+  referenceId?: string;
+}
+
+/**
+ * 發票抬頭
+ */
+export interface InvoiceBillTo {
+  name?: string;
+  email?: string;
+}
+
+/**
+ * 電子發票折讓紀錄（金額為含稅新台幣元）
+ */
+export interface EInvoiceAllowance {
+  allowanceNumber: string;
+  amount: number;
+  refundId: string;
+  issuedAt: Date;
+}
+
+/**
+ * 電子發票開立紀錄
+ */
+export interface EInvoiceRecord {
+  /** 開立的供應商，後續作廢與折讓須使用同一供應商 */
+  provider: string;
+  status: EInvoiceStatus;
+  /** 發票號碼（2 碼字軌 + 8 碼數字） */
+  invoiceNumber: string;
+  invoiceDate: Date;
+  randomNumber?: string;
+  /** 開立時的收受設定 */
+  recipient: EInvoicePreference;
+  /** 含稅總額（新台幣元） */
+  salesAmount: number;
+  allowances: EInvoiceAllowance[];
+  voidedAt?: Date;
+  voidReason?: string;
+}
+
+/**
+ * 發票實體
+ * 每筆成功的訂閱扣款開立一張，號碼依商家與年度連續編號
+ */
+export class InvoiceEntity extends BaseEntity {
+  /** 商家 ID */
+  public merchantId: string = '';
+
+  /** 客戶 ID */
+  public customerId: string = '';
+
+  /** 訂閱 ID */
+  public subscriptionId: string = '';
+
+  /** 付款 ID */
+  public paymentId: string = '';
+
+  /** 發票號碼 */
+  public invoiceNumber: string = '';
+
+  /** 編號年度 */
+  public year: number = 0;
+
+  /** 年度內序號（從 1 開始） */
+  public sequence: number = 0;
+
+  /** 狀態 */
+  public status: InvoiceStatus = InvoiceStatus.ISSUED;
+
+  /** 幣別 */
+  public currency: string = 'TWD';
+
+  /** 明細 */
+  public lineItems: InvoiceLineItem[] = [];
+
+  /** 未稅小計 */
+  public subtotal: number = 0;
+
+  /** 稅率（百分比） */
+  public taxRate: number = 0;
+
+  /** 稅額 */
+  public taxAmount: number = 0;
+
+  /** 含稅總額，等於實際付款金額 */
+  public total: number = 0;
+
+  /** 抬頭 */
+  public billTo: InvoiceBillTo = {};
+
+  /** 計費期間 */
+  public periodStart?: Date;
+  public periodEnd?: Date;
+
+  /** 開立時間 */
+  public issuedAt: Date = new Date();
+
+  /** 作廢時間 */
+  public voidedAt?: Date;
+
+  /** 作廢原因 */
+  public voidReason?: string;
+
+  /** 電子發票（僅台幣發票開立） */
+  public eInvoice?: EInvoiceRecord;
+
+  constructor(merchantId: string, customerId: string, currency: string = 'TWD') {
+    super();
+    this.merchantId = merchantId;
+    this.customerId = customerId;
+    this.currency = currency;
+  }
+
+  /**
+   * 新增明細並重新計算金額
+   */
+  public addLineItem(item: Omit<InvoiceLineItem, 'amount'>): void {
+    this.lineItems.push({ ...item, amount: Math.round(item.unitAmount * item.quantity) });
+    this.recalculate();
+  }
+
+  /**
+   * 設定稅率，明細金額皆為含稅，稅額自含稅總額內拆出
+   */
+  public applyTax(taxRate: number): void {
+    this.lineItems = this.lineItems.filter((item) => item.type !== InvoiceLineItemType.TAX);
+    this.taxRate = taxRate;
+    this.recalculate();
+  }
+
+  /**
+   * 設定發票號碼
+   */
+  public assignNumber(year: number, sequence: number, prefix: string): void {
+    this.year = year;
+    this.sequence = sequence;
+    this.invoiceNumber = `${prefix}${year}-${sequence.toString().padStart(6, '0')}`;
+  }
+
+  /**
+   * 作廢發票
+   */
+  public void(reason: string): void {
+    if (this.status === InvoiceStatus.VOID) {
+      return;
+    }
+    this.status = InvoiceStatus.VOID;
+    this.voidedAt = new Date();
+    this.voidReason = reason;
+    this.touch();
+  }
+
+  /**
+   * 記錄已開立的電子發票
+   */
+  public recordEInvoice(record: Omit<EInvoiceRecord, 'status' | 'allowances'>): void {
+    this.eInvoice = { ...record, status: EInvoiceStatus.ISSUED, allowances: [] };
+    this.touch();
+  }
+
+  /**
+   * 記錄電子發票作廢，發票一併作廢
+   */
+  public recordEInvoiceVoided(reason: string): void {
+    if (!this.eInvoice) {
+      return;
+    }
+    this.eInvoice.status = EInvoiceStatus.VOIDED;
+    this.eInvoice.voidedAt = new Date();
+    this.eInvoice.voidReason = reason;
+    this.void(reason);
+  }
+
+  /**
+   * 記錄電子發票折讓
+   */
+  public recordEInvoiceAllowance(allowance: EInvoiceAllowance): void {
+    if (!this.eInvoice) {
+      return;
+    }
+    this.eInvoice.allowances.push(allowance);
+    this.eInvoice.status = EInvoiceStatus.ALLOWANCED;
+    this.touch();
+  }
+
+  /**
+   * 電子發票剩餘可折讓金額（新台幣元）
+   */
+  public getEInvoiceRemainingAmount(): number {
+    if (!this.eInvoice || this.eInvoice.status === EInvoiceStatus.VOIDED) {
+      return 0;
+    }
+    return this.eInvoice.salesAmount - this.eInvoice.allowances.reduce((sum, allowance) => sum + allowance.amount, 0);
+  }
+
+  /**
+   * 退款是否已在電子發票上處理（作廢或折讓）
+   */
+  public hasHandledRefund(refundId: string): boolean {
+    return this.eInvoice?.status === EInvoiceStatus.VOIDED || Boolean(this.eInvoice?.allowances.some((allowance) => allowance.refundId === refundId));
+  }
+
+  /**
+   * 總額 Money 物件
+   */
+  public getTotal(): Money {
+    return new Money(this.total, this.currency);
+  }
+
+  public toJSON() {
+    return {
+      id: this.id,
+      invoiceNumber: this.invoiceNumber,
+      merchantId: this.merchantId,
+      customerId: this.customerId,
+      subscriptionId: this.subscriptionId,
+      paymentId: this.paymentId,
+      status: this.status,
+      currency: this.currency,
+      lineItems: this.lineItems,
+      subtotal: this.subtotal,
+      taxRate: this.taxRate,
+      taxAmount: this.taxAmount,
+      total: this.total,
+      billTo: this.billTo,
+      periodStart: this.periodStart,
+      periodEnd: this.periodEnd,
+      issuedAt: this.issuedAt,
+      voidedAt: this.voidedAt,
+      voidReason: this.voidReason,
+      eInvoice: this.eInvoice,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  private recalculate(): void {
+    this.total = this.lineItems.filter((item) => item.type !== InvoiceLineItemType.TAX).reduce((sum, item) => sum + item.amount, 0);
+    this.taxAmount = this.taxRate > 0 && this.total > 0 ? new Money(this.total, this.currency).calculateTaxFromGross(this.taxRate).taxAmount.amount : 0;
+    this.subtotal = this.total - this.taxAmount;
+    this.touch();
+  }
+}
@@ -0,0 +1,114 @@
+import { BaseEntity } from './base-entity.abstract';
+import { OutboxEventStatus } from '../enums/codes.const';
+
+/**
+ * 領域事件外送實體
+ * 記錄單一事件對各訂閱者的派送進度
+ */
+export class OutboxEventEntity extends BaseEntity {
+  /** 聚合類型 */
+  public aggregateType: string = '';
+
+  /** 聚合 ID */
+  public aggregateId: string = '';
+
+  /** 事件類型 */
+  public type: string = '';
+
+  /** 事件發生時間 */
+  public occurredAt: Date = new Date();
+
+  /** 事件內容 */
+  public payload: Record<string, any> = {};
+
+  /** 外送狀態 */
+  public status: OutboxEventStatus = OutboxEventStatus.PENDING;
+
+  /** 已派送次數 */
+  public attempts: number = 0;
+
+  /** 下次可派送時間 */
+  public nextAttemptAt: Date = new Date();
+
+  /** 派送租約到期時間 */
+  public lockedUntil?: Date;
+
+  /** 已成功處理的訂閱者 */
+  public deliveredHandlers: string[] = [];
+
+  /** 最後一次錯誤 */
+  public lastError?: string;
+
+  /** 送達時間 */
+  public deliveredAt?: Date;
+
+  /** 進入死信時間 */
+  public deadLetteredAt?: Date;
+
+  /**
+   * 檢查訂閱者是否已處理過此事件
+   */
+  public isDeliveredTo(handlerName: string): boolean {
+    return this.deliveredHandlers.includes(handlerName);
+  }
+
+  /**
+   * 記錄訂閱者處理成功
+   */
+  public recordHandlerDelivered(handlerName: string): void {
+    if (!this.isDeliveredTo(handlerName)) {
+      this.deliveredHandlers.push(handlerName);
+    }
+    this.touch();
+  }
+
+  /**
+   * 標記為已送達
+   */
+  public markDelivered(): void {
+    this.attempts++;
+    this.status = OutboxEventStatus.DELIVERED;
+    this.deliveredAt = new Date();
+    this.lockedUntil = undefined;
+    this.lastError = undefined;
+    this.touch();
+  }
+
+  /**
+   * 記錄派送失敗並安排下次派送時間
+   */
+  public scheduleRetry(error: string, nextAttemptAt: Date): void {
+    this.attempts++;
+    this.status = OutboxEventStatus.PENDING;
+    this.nextAttemptAt = nextAttemptAt;
+    this.lockedUntil = undefined;
+    this.lastError = error;
+    this.touch();
+  }
+
+  /**
+   * 超過重試上限，轉入死信
+   */
+  public markDeadLetter(error: string): void {
+    this.attempts++;
+    this.status = OutboxEventStatus.DEAD_LETTER;
+    this.deadLetteredAt = new Date();
+    this.lockedUntil = undefined;
+    this.lastError = error;
+    this.touch();
+  }
+
+  /**
+   * 將死信事件重新排入派送（已處理成功的訂閱者不會重複收到）
+   */
+  public requeue(): void {
+    if (this.status !== OutboxEventStatus.DEAD_LETTER) {
+      throw new Error(`Cannot requeue outbox event in ${this.status} status`);
+    }
+    this.status = OutboxEventStatus.PENDING;
+    this.attempts = 0;
+    this.nextAttemptAt = new Date();
+    this.deadLetteredAt = undefined;
+    this.touch();
+  }
+}
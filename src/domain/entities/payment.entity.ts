@@ -3,7 +3,7 @@ import { PaymentStatus, PaymentFailureCategory, RefundStatus } from '../enums/co
 import { Money } from '../value-objects/money';
 import { PaymentStateMachine } from '../value-objects/state-machine';
 import { SubscriptionEntity } from './subscription.entity';
-import { PaymentSucceeded, PaymentFailed, PaymentRefunded } from '../events/payment.events';
+import { PaymentSucceeded, PaymentFailed, PaymentRefunded, PaymentActionRequired } from '../events/payment.events';
 import { RetryPolicy } from '../value-objects/retry-policy';
 
 /**
@@ -56,6 +56,40 @@ export interface RefundDetails {
   metadata?: Record<string, any>;
 }
 
+/**
+ * 撥款明細（閘道撥款檔記錄的手續費與淨額）
+ */
+export interface PaymentSettlementDetails {
+  settlementRecordId: string;
+  settlementBatchId: string;
+  /** 撥款日期（YYYY-MM-DD） */
+  settlementDate: string;
+  grossAmount: number;
+  feeAmount: number;
+  netAmount: number;
+  currency: string;
+  settledAt: Date;
+}
+
+/**
+ * 等待客戶完成的驗證（如 3-D Secure）
+ */
+export interface PaymentCustomerAction {
+  /** 要求驗證的支付閘道 */
+  gateway: string;
+  /** 閘道交易編號，客戶完成驗證後以此確認付款 */
+  transactionId: string;
+  /** 驗證類型，例如 3d_secure */
+  type: string;
+  /** 閘道提供的驗證頁面網址 */
+  redirectUrl?: string;
+  requestedAt: Date;
+  /** 逾期未完成即視為付款失敗 */
+  expiresAt: Date;
+  /** 驗證結束時間（成功、失敗或逾時） */
+  completedAt?: Date;
+}
+
 /**
  * 增強的付款實體
  * 實現完整的付款生命週期管理，包括狀態機、重試邏輯、退款處理等
@@ -103,6 +137,12 @@ export class PaymentEntity extends BaseEntity {
   /** 第三方支付系統的扣款 ID */
   public providerChargeId?: string;
 
+  /** 撥款明細，匯入閘道撥款檔後記錄 */
+  public settlement?: PaymentSettlementDetails;
+
+  /** 等待客戶完成的驗證，保留最近一次的紀錄 */
+  public customerAction?: PaymentCustomerAction;
+
   /** 嘗試時間 */
   public attemptedAt?: Date;
 
@@ -209,7 +249,7 @@ export class PaymentEntity extends BaseEntity {
    * 轉換付款狀態
    */
   transitionTo(targetStatus: PaymentStatus, reason?: string, metadata?: Record<string, any>): void {
-    const result = PaymentStateMachine.validateTransition(this.status, targetStatus, this.buildTransitionContext());
+    const result = PaymentStateMachine.validateTransition(this.status, targetStatus, { ...this.buildTransitionContext(), metadata });
 
     if (!result.isValid) {
       throw new Error(`Invalid payment status transition from ${this.status} to ${targetStatus}: ${result.message || 'Unknown error'}`);
@@ -238,6 +278,7 @@ export class PaymentEntity extends BaseEntity {
     this.transitionTo(PaymentStatus.SUCCEEDED, 'Payment completed successfully', metadata);
     this.providerChargeId = providerChargeId;
     this.succeededAt = new Date();
+    this.paidAt = this.succeededAt;
 
     // 清除重試狀態
     this.retryState = undefined;
@@ -246,6 +287,31 @@ export class PaymentEntity extends BaseEntity {
     this.addDomainEvent(new PaymentSucceeded(this.id, this.subscriptionId, this.getAmount()));
   }
 
+  /**
+   * 標記付款等待客戶完成驗證
+   */
+  markAsRequiresAction(action: Omit<PaymentCustomerAction, 'requestedAt' | 'completedAt'>): void {
+    this.transitionTo(PaymentStatus.REQUIRES_ACTION, `Customer ${action.type} required`, { gateway: action.gateway, transactionId: action.transactionId });
+    this.customerAction = { ...action, requestedAt: new Date() };
+    this.providerPaymentId = action.transactionId;
+
+    this.addDomainEvent(new PaymentActionRequired(this.id, this.subscriptionId, action.type, action.expiresAt));
+  }
+
+  /**
+   * 是否等待客戶完成驗證
+   */
+  isAwaitingAction(): boolean {
+    return this.status === PaymentStatus.REQUIRES_ACTION;
+  }
+
+  /**
+   * 客戶驗證是否已逾期
+   */
+  isActionExpired(asOf: Date = new Date()): boolean {
+    return this.isAwaitingAction() && !!this.customerAction && this.customerAction.expiresAt.getTime() <= asOf.getTime();
+  }
+
   /**
    * 標記付款失敗
    */
@@ -328,10 +394,12 @@ export class PaymentEntity extends BaseEntity {
     const totalRefunded = this.getTotalRefundedAmount();
     const originalAmount = this.getAmount();
 
+    const metadata = { refundId: refundDetails.refundId, refundAmount: refundDetails.refundAmount.amount };
+
     if (totalRefunded.isEqual(originalAmount)) {
-      this.transitionTo(PaymentStatus.REFUNDED, `Full refund completed: ${refundDetails.refundId}`);
-    } else if (totalRefunded.isPositive()) {
-      this.transitionTo(PaymentStatus.PARTIALLY_REFUNDED, `Partial refund completed: ${refundDetails.refundId}`);
+      this.transitionTo(PaymentStatus.REFUNDED, `Full refund completed: ${refundDetails.refundId}`, metadata);
+    } else if (totalRefunded.isPositive() && this.status !== PaymentStatus.PARTIALLY_REFUNDED) {
+      this.transitionTo(PaymentStatus.PARTIALLY_REFUNDED, `Partial refund completed: ${refundDetails.refundId}`, metadata);
     }
 
     // 發佈退款事件（僅在成功退款時）
@@ -340,6 +408,17 @@ export class PaymentEntity extends BaseEntity {
     }
   }
 
+  /**
+   * 記錄撥款明細，同一付款只對應一筆撥款
+   */
+  recordSettlement(details: PaymentSettlementDetails): void {
+    if (this.settlement) {
+      throw new Error(`Payment ${this.id} is already settled in record ${this.settlement.settlementRecordId}`);
+    }
+    this.settlement = details;
+    this.touch();
+  }
+
   /**
    * 獲取總退款金額
    */
@@ -437,6 +516,10 @@ export class PaymentEntity extends BaseEntity {
    * 更新相關時間戳記
    */
   private updateTimestamps(status: PaymentStatus): void {
+    if (this.customerAction && !this.customerAction.completedAt && status !== PaymentStatus.REQUIRES_ACTION) {
+      this.customerAction.completedAt = new Date();
+    }
+
     switch (status) {
       case PaymentStatus.PROCESSING:
         this.attemptedAt = new Date();
@@ -535,6 +618,8 @@ export class PaymentEntity extends BaseEntity {
       retryState: this.retryState,
       failureDetails: this.failureDetails,
       refunds: this.refunds,
+      settlement: this.settlement,
+      customerAction: this.customerAction,
       statusHistory: this.statusHistory,
       metadata: this.metadata,
       createdAt: this.createdAt,
@@ -0,0 +1,72 @@
+import { BaseEntity } from './base-entity.abstract';
+import { Money } from '../value-objects/money';
+
+/**
+ * 優惠兌換紀錄實體
+ * 每筆紀錄代表客戶在某訂閱的某個計費週期使用一次優惠
+ */
+export class PromotionRedemptionEntity extends BaseEntity {
+  /** 優惠 ID */
+  public promotionId: string = '';
+
+  /** 優惠碼 */
+  public promotionCode: string = '';
+
+  /** 使用的一次性券碼 */
+  public couponCode?: string;
+
+  /** 客戶 ID */
+  public customerId: string = '';
+
+  /** 訂閱 ID */
+  public subscriptionId: string = '';
+
+  /** 折扣金額 */
+  public amount: number = 0;
+
+  /** 幣別 */
+  public currency: string = 'TWD';
+
+  /** 套用的計費週期 */
+  public cycleNumber: number = 1;
+
+  /** 客戶在此優惠的使用序號（有每人上限時才設定） */
+  public usageSlot?: number;
+
+  /** 兌換時間 */
+  public redeemedAt: Date = new Date();
+
+  constructor(promotionId: string, promotionCode: string, customerId: string, subscriptionId: string, amount: Money, cycleNumber: number = 1) {
+    super();
+    this.promotionId = promotionId;
+    this.promotionCode = promotionCode;
+    this.customerId = customerId;
+    this.subscriptionId = subscriptionId;
+    this.amount = amount?.amount ?? 0;
+    this.currency = amount?.currency ?? 'TWD';
+    this.cycleNumber = cycleNumber;
+  }
+
+  /**
+   * 取得折扣金額
+   */
+  public getAmount(): Money {
+    return new Money(this.amount, this.currency);
+  }
+
+  /**
+   * 轉換為 API 回應格式
+   */
+  public toJSON() {
+    return {
+      redemptionId: this.id,
+      promotionCode: this.promotionCode,
+      couponCode: this.couponCode,
+      customerId: this.customerId,
+      subscriptionId: this.subscriptionId,
+      discountAmount: this.getAmount().toJSON(),
+      cycleNumber: this.cycleNumber,
+      redeemedAt: this.redeemedAt,
+    };
+  }
+}
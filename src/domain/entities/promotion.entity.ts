@@ -0,0 +1,220 @@
+import { BaseEntity } from './base-entity.abstract';
+import { PromotionDuration, PromotionStatus } from '../enums/codes.const';
+import { DiscountSchedule, DiscountStage } from '../value-objects/discount-schedule';
+
+/**
+ * 優惠折扣設定
+ */
+export interface PromotionDiscount {
+  type: 'PERCENTAGE' | 'FIXED_AMOUNT';
+  value: number;
+  applicablePeriod: 'FIRST_BILLING' | 'RECURRING' | 'ONE_TIME';
+  /** 持續期間，未設定時 RECURRING 視為 FOREVER，其餘視為 ONCE */
+  duration?: PromotionDuration;
+  /** REPEATING 的套用期數 */
+  durationInCycles?: number;
+  /** 分階段折扣，設定後取代 type/value/duration */
+  stages?: DiscountStage[];
+}
+
+/**
+ * 優惠使用條件
+ */
+export interface PromotionConditions {
+  minimumAmount?: number;
+  applicableProducts?: string[];
+  customerSegments?: string[];
+  firstTimeCustomersOnly?: boolean;
+  maxUsagePerCustomer?: number;
+  eligibleTiers?: string[];
+  stackable?: boolean;
+}
+
+/**
+ * 優惠行銷資訊
+ */
+export interface PromotionMetadata {
+  campaign?: string;
+  source?: string;
+  priority?: number;
+  autoApply?: boolean;
+  tags?: string[];
+}
+
+/**
+ * 優惠成效數據
+ */
+export interface PromotionPerformance {
+  conversionRate?: number;
+  /** 累計折扣金額（每次兌換累加） */
+  totalRevenueLoss?: number;
+  /** 累計兌換次數（含一次性券碼） */
+  redemptionCount?: number;
+  averageOrderValue?: number;
+  customerRetention?: number;
+}
+
+/**
+ * 可由管理端修改的優惠欄位
+ */
+export type PromotionChanges = Partial<Pick<PromotionEntity, 'name' | 'description' | 'discount' | 'validFrom' | 'validUntil' | 'usageLimit' | 'conditions' | 'metadata'>>;
+
+/** 各狀態允許的下一個狀態；封存後不可再變更 */
+const PROMOTION_TRANSITIONS: Record<PromotionStatus, PromotionStatus[]> = {
+  [PromotionStatus.ACTIVE]: [PromotionStatus.PAUSED, PromotionStatus.EXPIRED, PromotionStatus.ARCHIVED],
+  [PromotionStatus.PAUSED]: [PromotionStatus.ACTIVE, PromotionStatus.ARCHIVED],
+  [PromotionStatus.EXPIRED]: [PromotionStatus.ARCHIVED],
+  [PromotionStatus.ARCHIVED]: [],
+};
+
+/**
+ * 優惠實體
+ * 使用次數由儲存層原子累加，實體僅反映讀取當下的值
+ */
+export class PromotionEntity extends BaseEntity {
+  /** 優惠碼 */
+  public code: string = '';
+
+  /** 名稱 */
+  public name: string = '';
+
+  /** 描述 */
+  public description: string = '';
+
+  /** 優惠類型 */
+  public type: 'PERCENTAGE' | 'FIXED_AMOUNT' | 'FREE_TRIAL' = 'PERCENTAGE';
+
+  /** 折扣設定 */
+  public discount: PromotionDiscount = { type: 'PERCENTAGE', value: 0, applicablePeriod: 'FIRST_BILLING' };
+
+  /** 狀態 */
+  public status: PromotionStatus = PromotionStatus.ACTIVE;
+
+  /** 生效時間 */
+  public validFrom: Date = new Date();
+
+  /** 失效時間 */
+  public validUntil: Date = new Date();
+
+  /** 總使用上限（未設定表示不限） */
+  public usageLimit?: number;
+
+  /** 已使用次數 */
+  public currentUsage: number = 0;
+
+  /** 使用條件 */
+  public conditions?: PromotionConditions;
+
+  /** 行銷資訊 */
+  public metadata?: PromotionMetadata;
+
+  /** 成效數據 */
+  public performance?: PromotionPerformance;
+
+  constructor(code: string, name: string, discount: PromotionDiscount, validFrom: Date, validUntil: Date) {
+    super();
+    this.code = code;
+    this.name = name;
+    this.discount = discount;
+    this.type = discount?.type ?? 'PERCENTAGE';
+    this.validFrom = validFrom;
+    this.validUntil = validUntil;
+  }
+
+  /**
+   * 更新優惠內容，封存後不可修改
+   */
+  public update(changes: PromotionChanges): void {
+    if (this.status === PromotionStatus.ARCHIVED) {
+      throw new Error('Cannot update an archived promotion');
+    }
+    Object.assign(this, Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)));
+    if (changes.discount) {
+      this.type = changes.discount.type;
+    }
+    this.touch();
+  }
+
+  /**
+   * 暫停優惠
+   */
+  public pause(): void {
+    this.transitionTo(PromotionStatus.PAUSED);
+  }
+
+  /**
+   * 恢復已暫停的優惠
+   */
+  public resume(): void {
+    this.transitionTo(PromotionStatus.ACTIVE);
+  }
+
+  /**
+   * 封存優惠
+   */
+  public archive(): void {
+    this.transitionTo(PromotionStatus.ARCHIVED);
+  }
+
+  /**
+   * 取得訂閱套用後各期的折扣排程
+   */
+  public getDiscountSchedule(): DiscountSchedule {
+    const { type, value, applicablePeriod, duration, durationInCycles, stages } = this.discount;
+    if (stages?.length) {
+      return new DiscountSchedule(stages);
+    }
+    const effectiveDuration = duration ?? (applicablePeriod === 'RECURRING' ? PromotionDuration.FOREVER : PromotionDuration.ONCE);
+    return DiscountSchedule.fromDuration(type, value, effectiveDuration, durationInCycles);
+  }
+
+  /**
+   * 是否在有效期間內
+   */
+  public isWithinValidPeriod(at: Date = new Date()): boolean {
+    return at >= this.validFrom && at <= this.validUntil;
+  }
+
+  /**
+   * 剩餘可用次數，不限次數時回傳 null
+   */
+  public getRemainingUsage(): number | null {
+    if (this.usageLimit === undefined || this.usageLimit === null) {
+      return null;
+    }
+    return Math.max(0, this.usageLimit - this.currentUsage);
+  }
+
+  private transitionTo(status: PromotionStatus): void {
+    if (!(PROMOTION_TRANSITIONS[this.status] || []).includes(status)) {
+      throw new Error(`Cannot transition promotion from ${this.status} to ${status}`);
+    }
+    this.status = status;
+    this.touch();
+  }
+
+  /**
+   * 轉換為 API 回應格式
+   */
+  public toJSON() {
+    return {
+      promotionId: this.id,
+      code: this.code,
+      name: this.name,
+      description: this.description,
+      type: this.type,
+      discount: this.discount,
+      status: this.status,
+      validFrom: this.validFrom,
+      validUntil: this.validUntil,
+      usageLimit: this.usageLimit ?? null,
+      currentUsage: this.currentUsage,
+      remainingUsage: this.getRemainingUsage(),
+      conditions: this.conditions,
+      metadata: this.metadata,
+      performance: this.performance,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,156 @@
+import { BaseEntity } from './base-entity.abstract';
+import { ReconciliationDiscrepancyStatus, ReconciliationDiscrepancyType } from '../enums/codes.const';
+
+/**
+ * 對帳差異實體
+ * 本地付款與閘道交易不一致的一筆紀錄；可安全修正的狀態差異由對帳作業自動處理，
+ * 其餘維持 OPEN 等待人工確認，處理前重複偵測時更新同一筆
+ */
+export class ReconciliationDiscrepancyEntity extends BaseEntity {
+  /** 去重鍵：類型、閘道與交易編號（無交易編號時為付款 ID） */
+  public key: string = '';
+
+  /** 差異類型 */
+  public type: ReconciliationDiscrepancyType = ReconciliationDiscrepancyType.STATUS_MISMATCH;
+
+  /** 處理狀態 */
+  public status: ReconciliationDiscrepancyStatus = ReconciliationDiscrepancyStatus.OPEN;
+
+  /** 最近一次偵測的對帳作業 ID */
+  public runId?: string;
+
+  /** 支付閘道 */
+  public gateway: string = '';
+
+  /** 閘道交易編號 */
+  public gatewayTransactionId?: string;
+
+  /** 本地付款 ID */
+  public paymentId?: string;
+
+  /** 訂閱 ID */
+  public subscriptionId?: string;
+
+  /** 客戶 ID */
+  public customerId?: string;
+
+  /** 本地付款狀態 */
+  public localStatus?: string;
+
+  /** 閘道交易狀態 */
+  public gatewayStatus?: string;
+
+  /** 本地金額 */
+  public localAmount?: number;
+
+  /** 閘道金額 */
+  public gatewayAmount?: number;
+
+  /** 幣別 */
+  public currency?: string;
+
+  /** 首次偵測時間 */
+  public detectedAt: Date = new Date();
+
+  /** 最近一次偵測時間 */
+  public lastDetectedAt: Date = new Date();
+
+  /** 偵測次數 */
+  public detectionCount: number = 1;
+
+  /** 處理方式（自動修正的動作或人工處理說明） */
+  public resolution?: string;
+
+  /** 處理人員 */
+  public resolvedBy?: string;
+
+  /** 處理時間 */
+  public resolvedAt?: Date;
+
+  constructor(type: ReconciliationDiscrepancyType, gateway: string, reference: string, detectedAt: Date = new Date()) {
+    super();
+    this.type = type;
+    this.gateway = gateway;
+    this.key = ReconciliationDiscrepancyEntity.buildKey(type, gateway, reference);
+    this.detectedAt = detectedAt;
+    this.lastDetectedAt = detectedAt;
+  }
+
+  /**
+   * 組合去重鍵
+   */
+  public static buildKey(type: ReconciliationDiscrepancyType, gateway: string, reference: string): string {
+    return `${type}:${gateway}:${reference}`;
+  }
+
+  /**
+   * 是否仍待人工處理
+   */
+  public isOpen(): boolean {
+    return this.status === ReconciliationDiscrepancyStatus.OPEN;
+  }
+
+  /**
+   * 再次偵測到相同差異
+   */
+  public redetect(runId: string, at: Date = new Date()): void {
+    this.runId = runId;
+    this.lastDetectedAt = at;
+    this.detectionCount++;
+    this.touch();
+  }
+
+  /**
+   * 對帳作業已自動修正
+   */
+  public autoResolve(resolution: string, at: Date = new Date()): void {
+    this.status = ReconciliationDiscrepancyStatus.AUTO_RESOLVED;
+    this.resolution = resolution;
+    this.resolvedBy = 'reconciliation';
+    this.resolvedAt = at;
+    this.touch();
+  }
+
+  /**
+   * 人工處理完成
+   */
+  public resolve(resolvedBy: string, resolution: string, at: Date = new Date()): void {
+    if (!this.isOpen()) {
+      throw new Error(`Discrepancy ${this.id} is already resolved`);
+    }
+
+    this.status = ReconciliationDiscrepancyStatus.RESOLVED;
+    this.resolution = resolution;
+    this.resolvedBy = resolvedBy;
+    this.resolvedAt = at;
+    this.touch();
+  }
+
+  /**
+   * 轉換為 API 回應格式
+   */
+  public toJSON() {
+    return {
+      discrepancyId: this.id,
+      type: this.type,
+      status: this.status,
+      runId: this.runId,
+      gateway: this.gateway,
+      gatewayTransactionId: this.gatewayTransactionId,
+      paymentId: this.paymentId,
+      subscriptionId: this.subscriptionId,
+      customerId: this.customerId,
+      localStatus: this.localStatus,
+      gatewayStatus: this.gatewayStatus,
+      localAmount: this.localAmount,
+      gatewayAmount: this.gatewayAmount,
+      currency: this.currency,
+      detectedAt: this.detectedAt,
+      lastDetectedAt: this.lastDetectedAt,
+      detectionCount: this.detectionCount,
+      resolution: this.resolution,
+      resolvedBy: this.resolvedBy,
+      resolvedAt: this.resolvedAt,
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import { BaseEntity } from './base-entity.abstract';
+import { BillingRunStatus, BillingRunTrigger, ReconciliationDiscrepancyStatus, ReconciliationDiscrepancyType } from '../enums/codes.const';
+
+/**
+ * 對帳比對統計
+ */
+export interface ReconciliationRunCounters {
+  /** 比對的本地付款數 */
+  checked: number;
+  /** 與閘道一致的付款數 */
+  matched: number;
+  /** 閘道端仍在處理中的付款數 */
+  inFlight: number;
+  /** 檢查的閘道交易數（找出本地缺少的付款） */
+  gatewayTransactions: number;
+  /** 自動修正的差異數 */
+  autoResolved: number;
+  /** 待人工處理的差異數 */
+  open: number;
+}
+
+/**
+ * 對帳作業實體
+ * 記錄每次對帳的比對區間與結果摘要，差異明細另存於對帳差異
+ */
+export class ReconciliationRunEntity extends BaseEntity {
+  /** 對帳基準時間 */
+  public asOf: Date = new Date();
+
+  /** 比對區間起點（付款最後更新時間） */
+  public windowStart: Date = new Date();
+
+  /** 比對區間終點，排除剛送出仍可能在處理中的付款 */
+  public windowEnd: Date = new Date();
+
+  /** 觸發來源 */
+  public trigger: BillingRunTrigger = BillingRunTrigger.SCHEDULED;
+
+  /** 執行狀態 */
+  public status: BillingRunStatus = BillingRunStatus.RUNNING;
+
+  /** 執行實例識別 */
+  public owner: string = '';
+
+  /** 開始時間 */
+  public startedAt: Date = new Date();
+
+  /** 完成時間 */
+  public completedAt?: Date;
+
+  /** 比對統計 */
+  public counters: ReconciliationRunCounters = { checked: 0, matched: 0, inFlight: 0, gatewayTransactions: 0, autoResolved: 0, open: 0 };
+
+  /** 各差異類型的筆數 */
+  public discrepancies: Partial<Record<ReconciliationDiscrepancyType, number>> = {};
+
+  /** 個別付款或閘道的錯誤 */
+  public errors: Array<{ paymentId?: string; gateway?: string; error: string }> = [];
+
+  /** 作業失敗原因 */
+  public failureReason?: string;
+
+  constructor(asOf: Date, windowStart: Date, windowEnd: Date, trigger: BillingRunTrigger, owner: string) {
+    super();
+    this.asOf = asOf;
+    this.windowStart = windowStart;
+    this.windowEnd = windowEnd;
+    this.trigger = trigger;
+    this.owner = owner;
+  }
+
+  /**
+   * 記錄一筆差異
+   */
+  public recordDiscrepancy(type: ReconciliationDiscrepancyType, status: ReconciliationDiscrepancyStatus): void {
+    this.discrepancies[type] = (this.discrepancies[type] || 0) + 1;
+    if (status === ReconciliationDiscrepancyStatus.AUTO_RESOLVED) {
+      this.counters.autoResolved++;
+    } else {
+      this.counters.open++;
+    }
+    this.touch();
+  }
+
+  /**
+   * 記錄個別錯誤
+   */
+  public recordError(error: { paymentId?: string; gateway?: string; error: string }): void {
+    this.errors.push(error);
+    this.touch();
+  }
+
+  /**
+   * 標記為完成
+   */
+  public complete(): void {
+    this.status = BillingRunStatus.COMPLETED;
+    this.completedAt = new Date();
+    this.touch();
+  }
+
+  /**
+   * 標記為失敗
+   */
+  public fail(reason: string): void {
+    this.status = BillingRunStatus.FAILED;
+    this.completedAt = new Date();
+    this.failureReason = reason;
+    this.touch();
+  }
+
+  /**
+   * 獲取執行時長（毫秒）
+   */
+  public getDuration(): number | undefined {
+    if (!this.completedAt) return undefined;
+    return this.completedAt.getTime() - this.startedAt.getTime();
+  }
+
+  /**
+   * 轉換為 API 回應格式
+   */
+  public toJSON() {
+    return {
+      runId: this.id,
+      asOf: this.asOf,
+      windowStart: this.windowStart,
+      windowEnd: this.windowEnd,
+      trigger: this.trigger,
+      status: this.status,
+      startedAt: this.startedAt,
+      completedAt: this.completedAt,
+      durationMs: this.getDuration(),
+      counters: this.counters,
+      discrepancies: this.discrepancies,
+      errors: this.errors,
+      failureReason: this.failureReason,
+    };
+  }
+}
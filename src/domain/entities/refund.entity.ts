@@ -0,0 +1,220 @@
+import { BaseEntity } from './base-entity.abstract';
+import { RefundMethod, RefundStatus, RefundType } from '../enums/codes.const';
+import { Money } from '../value-objects/money';
+import { RefundFailed, RefundRequested, RefundSucceeded } from '../events/refund.events';
+
+/**
+ * 退款狀態變更紀錄
+ */
+export interface RefundStatusChange {
+  status: RefundStatus;
+  changedAt: Date;
+  note?: string;
+}
+
+/** 各狀態允許的下一個狀態；失敗的退款可重新核准後送出閘道 */
+const REFUND_TRANSITIONS: Record<RefundStatus, RefundStatus[]> = {
+  [RefundStatus.REQUESTED]: [RefundStatus.PENDING, RefundStatus.CANCELED],
+  [RefundStatus.PENDING]: [RefundStatus.APPROVED, RefundStatus.CANCELED],
+  [RefundStatus.APPROVED]: [RefundStatus.PROCESSING, RefundStatus.FAILED],
+  [RefundStatus.PROCESSING]: [RefundStatus.SUCCEEDED, RefundStatus.FAILED],
+  [RefundStatus.FAILED]: [RefundStatus.APPROVED, RefundStatus.PROCESSING],
+  [RefundStatus.SUCCEEDED]: [],
+  [RefundStatus.CANCELED]: [],
+};
+
+/**
+ * 退款實體
+ * 對應一筆付款的單次退款，核准後經原付款的支付閘道執行
+ */
+export class RefundEntity extends BaseEntity {
+  /** 原付款 ID */
+  public paymentId: string = '';
+
+  /** 訂閱 ID */
+  public subscriptionId: string = '';
+
+  /** 客戶 ID */
+  public customerId: string = '';
+
+  /** 退款金額（以分為單位） */
+  public amount: number = 0;
+
+  /** 幣別 */
+  public currency: string = 'TWD';
+
+  /** 退款類型 */
+  public refundType: RefundType = RefundType.FULL;
+
+  /** 退款方式 */
+  public refundMethod: RefundMethod = RefundMethod.ORIGINAL_PAYMENT;
+
+  /** 退款原因 */
+  public reason: string = '';
+
+  /** 狀態 */
+  public status: RefundStatus = RefundStatus.PENDING;
+
+  /** 執行退款的支付閘道 */
+  public gateway?: string;
+
+  /** 支付閘道的退款 ID */
+  public providerRefundId?: string;
+
+  /** 申請時間 */
+  public requestedAt: Date = new Date();
+
+  /** 送出閘道時間 */
+  public processedAt?: Date;
+
+  /** 完成時間 */
+  public completedAt?: Date;
+
+  /** 失敗時間 */
+  public failedAt?: Date;
+
+  /** 失敗原因 */
+  public failureReason?: string;
+
+  /** 審核備註 */
+  public adminNotes?: string;
+
+  /** 狀態變更紀錄 */
+  public statusHistory: RefundStatusChange[] = [];
+
+  /** 額外資訊 */
+  public metadata: Record<string, any> = {};
+
+  constructor(paymentId: string, subscriptionId: string, customerId: string, amount: Money, refundType: RefundType, reason: string) {
+    super();
+    this.paymentId = paymentId;
+    this.subscriptionId = subscriptionId;
+    this.customerId = customerId;
+    this.amount = amount?.amount ?? 0;
+    this.currency = amount?.currency ?? 'TWD';
+    this.refundType = refundType;
+    this.reason = reason;
+    this.statusHistory = [{ status: RefundStatus.PENDING, changedAt: this.requestedAt, note: 'Refund requested' }];
+    // 自資料庫還原時不帶參數建構，不重複發出申請事件
+    if (paymentId) {
+      this.addDomainEvent(new RefundRequested(this.paymentId, this.subscriptionId, this.getAmount(), this.reason));
+    }
+  }
+
+  /**
+   * 取得退款金額
+   */
+  public getAmount(): Money {
+    return new Money(this.amount, this.currency);
+  }
+
+  /**
+   * 核准退款
+   */
+  public approve(notes?: string): void {
+    this.transitionTo(RefundStatus.APPROVED, notes || 'Refund approved');
+    this.adminNotes = notes;
+  }
+
+  /**
+   * 拒絕或取消尚未核准的退款
+   */
+  public cancel(notes?: string): void {
+    this.transitionTo(RefundStatus.CANCELED, notes || 'Refund canceled');
+    this.adminNotes = notes;
+  }
+
+  /**
+   * 送出支付閘道
+   */
+  public startProcessing(gateway: string): void {
+    this.transitionTo(RefundStatus.PROCESSING, `Submitted to ${gateway}`);
+    this.gateway = gateway;
+    this.processedAt = new Date();
+    this.failedAt = undefined;
+    this.failureReason = undefined;
+  }
+
+  /**
+   * 記錄閘道受理的退款 ID，部分閘道需人工或非同步完成
+   */
+  public recordProviderRefund(providerRefundId: string): void {
+    this.providerRefundId = providerRefundId;
+    this.touch();
+  }
+
+  /**
+   * 標記退款成功
+   */
+  public markSucceeded(providerRefundId?: string): void {
+    this.transitionTo(RefundStatus.SUCCEEDED, 'Refund completed');
+    this.providerRefundId = providerRefundId || this.providerRefundId;
+    this.completedAt = new Date();
+    this.addDomainEvent(new RefundSucceeded(this.paymentId, this.subscriptionId, this.getAmount(), this.refundMethod, this.providerRefundId));
+  }
+
+  /**
+   * 標記退款失敗
+   */
+  public markFailed(reason: string): void {
+    this.transitionTo(RefundStatus.FAILED, reason);
+    this.failedAt = new Date();
+    this.failureReason = reason;
+    this.addDomainEvent(new RefundFailed(this.paymentId, this.subscriptionId, this.getAmount(), reason));
+  }
+
+  /**
+   * 失敗的退款可重新送出
+   */
+  public canRetry(): boolean {
+    return this.status === RefundStatus.FAILED;
+  }
+
+  /**
+   * 是否處理中（待審、已核准或已送出閘道），其金額須自付款可退金額中保留
+   */
+  public isInFlight(): boolean {
+    return [RefundStatus.PENDING, RefundStatus.APPROVED, RefundStatus.PROCESSING].includes(this.status);
+  }
+
+  /**
+   * 是否已結束（成功或取消）
+   */
+  public isFinal(): boolean {
+    return this.status === RefundStatus.SUCCEEDED || this.status === RefundStatus.CANCELED;
+  }
+
+  private transitionTo(status: RefundStatus, note?: string): void {
+    if (!(REFUND_TRANSITIONS[this.status] || []).includes(status)) {
+      throw new Error(`Cannot transition refund from ${this.status} to ${status}`);
+    }
+    this.status = status;
+    this.statusHistory.push({ status, changedAt: new Date(), note });
+    this.touch();
+  }
+
+  /**
+   * 轉換為 API 回應格式
+   */
+  public toJSON() {
+    return {
+      refundId: this.id,
+      paymentId: this.paymentId,
+      subscriptionId: this.subscriptionId,
+      customerId: this.customerId,
+      refundAmount: this.getAmount().toJSON(),
+      refundType: this.refundType,
+      refundMethod: this.refundMethod,
+      status: this.status,
+      reason: this.reason,
+      gateway: this.gateway,
+      providerRefundId: this.providerRefundId,
+      requestedAt: this.requestedAt,
+      processedAt: this.processedAt,
+      completedAt: this.completedAt,
+      failureReason: this.failureReason,
+      canRetry: this.canRetry(),
+      adminNotes: this.adminNotes,
+    };
+  }
+}
@@ -0,0 +1,132 @@
+import { BaseEntity } from './base-entity.abstract';
+import { SettlementRecordEntity } from './settlement-record.entity';
+import { SettlementRecordStatus } from '../enums/codes.const';
+
+/**
+ * 撥款檔比對統計
+ */
+export interface SettlementBatchCounters {
+  /** 成功解析的明細數 */
+  rows: number;
+  matched: number;
+  unmatched: number;
+  amountMismatch: number;
+  statusMismatch: number;
+  duplicate: number;
+  /** 無法解析或處理的資料列數 */
+  invalid: number;
+}
+
+/**
+ * 單一撥款日的撥款摘要（不含重複撥款的明細）
+ */
+export interface SettlementPayoutSummary {
+  /** 撥款日期（YYYY-MM-DD） */
+  settlementDate: string;
+  currency: string;
+  transactionCount: number;
+  matchedCount: number;
+  grossAmount: number;
+  feeAmount: number;
+  netAmount: number;
+}
+
+/** 比對結果對應的統計欄位 */
+const STATUS_COUNTERS: Record<SettlementRecordStatus, keyof SettlementBatchCounters> = {
+  [SettlementRecordStatus.MATCHED]: 'matched',
+  [SettlementRecordStatus.UNMATCHED]: 'unmatched',
+  [SettlementRecordStatus.AMOUNT_MISMATCH]: 'amountMismatch',
+  [SettlementRecordStatus.STATUS_MISMATCH]: 'statusMismatch',
+  [SettlementRecordStatus.DUPLICATE]: 'duplicate',
+};
+
+/**
+ * 撥款檔匯入批次實體
+ * 記錄一次匯入的比對統計與各撥款日的撥款摘要，明細另存於撥款明細
+ */
+export class SettlementBatchEntity extends BaseEntity {
+  /** 閘道名稱 */
+  public gateway: string = '';
+
+  /** 上傳的檔名 */
+  public fileName: string = '';
+
+  /** 檔案內容的 SHA-256 */
+  public checksum: string = '';
+
+  /** 匯入者 */
+  public importedBy?: string;
+
+  /** 比對統計 */
+  public counters: SettlementBatchCounters = { rows: 0, matched: 0, unmatched: 0, amountMismatch: 0, statusMismatch: 0, duplicate: 0, invalid: 0 };
+
+  /** 各撥款日的撥款摘要 */
+  public payouts: SettlementPayoutSummary[] = [];
+
+  /** 無法解析或處理的資料列 */
+  public errors: Array<{ rowNumber: number; error: string }> = [];
+
+  constructor(gateway: string, fileName: string, checksum: string, importedBy?: string) {
+    super();
+    this.gateway = gateway;
+    this.fileName = fileName;
+    this.checksum = checksum;
+    this.importedBy = importedBy;
+  }
+
+  /**
+   * 累計一筆撥款明細
+   */
+  public recordRow(record: SettlementRecordEntity): void {
+    this.counters.rows++;
+    this.counters[STATUS_COUNTERS[record.status]]++;
+
+    if (record.status !== SettlementRecordStatus.DUPLICATE) {
+      let payout = this.payouts.find((item) => item.settlementDate === record.settlementDate && item.currency === record.currency);
+      if (!payout) {
+        payout = { settlementDate: record.settlementDate, currency: record.currency, transactionCount: 0, matchedCount: 0, grossAmount: 0, feeAmount: 0, netAmount: 0 };
+        this.payouts.push(payout);
+        this.payouts.sort((a, b) => a.settlementDate.localeCompare(b.settlementDate) || a.currency.localeCompare(b.currency));
+      }
+      payout.transactionCount++;
+      payout.matchedCount += record.status === SettlementRecordStatus.MATCHED ? 1 : 0;
+      payout.grossAmount = roundAmount(payout.grossAmount + record.grossAmount);
+      payout.feeAmount = roundAmount(payout.feeAmount + record.feeAmount);
+      payout.netAmount = roundAmount(payout.netAmount + record.netAmount);
+    }
+    this.touch();
+  }
+
+  /**
+   * 記錄無法解析或處理的資料列
+   */
+  public recordError(rowNumber: number, error: string): void {
+    this.counters.invalid++;
+    this.errors.push({ rowNumber, error });
+    this.touch();
+  }
+
+  /**
+   * 轉換為 API 回應格式
+   */
+  public toJSON() {
+    return {
+      batchId: this.id,
+      gateway: this.gateway,
+      fileName: this.fileName,
+      checksum: this.checksum,
+      importedBy: this.importedBy,
+      counters: this.counters,
+      payouts: this.payouts,
+      errors: this.errors,
+      importedAt: this.createdAt,
+    };
+  }
+}
+
+/**
+ * 金額累加時保留兩位小數，避免浮點誤差
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
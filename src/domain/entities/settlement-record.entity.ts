@@ -0,0 +1,131 @@
+import { BaseEntity } from './base-entity.abstract';
+import { PaymentEntity } from './payment.entity';
+import { PaymentStatus, SettlementRecordStatus } from '../enums/codes.const';
+import { SettlementFileRow } from '../interfaces/settlement';
+
+/**
+ * 撥款明細實體
+ * 撥款檔中的一筆交易與比對結果，只有 MATCHED 的明細會寫入付款的手續費與淨額
+ */
+export class SettlementRecordEntity extends BaseEntity {
+  /** 匯入批次 ID */
+  public batchId: string = '';
+
+  /** 閘道名稱 */
+  public gateway: string = '';
+
+  /** 檔案中的資料列號 */
+  public rowNumber: number = 0;
+
+  /** 閘道交易編號 */
+  public transactionId: string = '';
+
+  /** 比對到付款時使用的交易編號 */
+  public matchKey?: string;
+
+  /** 閘道端的交易序號 */
+  public gatewayReference?: string;
+
+  /** 撥款日期（YYYY-MM-DD） */
+  public settlementDate: string = '';
+
+  /** 交易金額 */
+  public grossAmount: number = 0;
+
+  /** 閘道手續費 */
+  public feeAmount: number = 0;
+
+  /** 撥款淨額 */
+  public netAmount: number = 0;
+
+  /** 幣別 */
+  public currency: string = 'TWD';
+
+  /** 比對結果 */
+  public status: SettlementRecordStatus = SettlementRecordStatus.UNMATCHED;
+
+  /** 對應的付款 */
+  public paymentId?: string;
+  public subscriptionId?: string;
+  public customerId?: string;
+
+  /** 比對當下的付款金額與狀態 */
+  public paymentAmount?: number;
+  public paymentStatus?: PaymentStatus;
+
+  /** 重複撥款時，先前對應的撥款明細 ID */
+  public duplicateOf?: string;
+
+  /** 原始欄位 */
+  public raw: Record<string, string> = {};
+
+  /**
+   * 由解析後的撥款明細列建立
+   */
+  public static fromRow(batchId: string, gateway: string, row: SettlementFileRow): SettlementRecordEntity {
+    const record = new SettlementRecordEntity();
+    record.batchId = batchId;
+    record.gateway = gateway;
+    record.rowNumber = row.rowNumber;
+    record.transactionId = row.transactionId;
+    record.gatewayReference = row.gatewayReference;
+    record.settlementDate = row.settlementDate;
+    record.grossAmount = row.grossAmount;
+    record.feeAmount = row.feeAmount;
+    record.netAmount = row.netAmount;
+    record.currency = row.currency;
+    record.raw = row.raw;
+    return record;
+  }
+
+  /**
+   * 記錄比對結果與對應的付款
+   */
+  public classify(status: SettlementRecordStatus, payment?: PaymentEntity, matchKey?: string): void {
+    this.status = status;
+    this.matchKey = matchKey;
+    if (payment) {
+      this.paymentId = payment.id;
+      this.subscriptionId = payment.subscriptionId;
+      this.customerId = payment.customerId;
+      this.paymentAmount = payment.amount;
+      this.paymentStatus = payment.status;
+    }
+    this.touch();
+  }
+
+  /**
+   * 標記為重複撥款：付款已由先前的撥款明細記錄手續費
+   */
+  public markDuplicate(payment: PaymentEntity, matchKey: string): void {
+    this.classify(SettlementRecordStatus.DUPLICATE, payment, matchKey);
+    this.duplicateOf = payment.settlement?.settlementRecordId;
+  }
+
+  /**
+   * 轉換為 API 回應格式
+   */
+  public toJSON() {
+    return {
+      recordId: this.id,
+      batchId: this.batchId,
+      gateway: this.gateway,
+      rowNumber: this.rowNumber,
+      transactionId: this.transactionId,
+      gatewayReference: this.gatewayReference,
+      settlementDate: this.settlementDate,
+      grossAmount: this.grossAmount,
+      feeAmount: this.feeAmount,
+      netAmount: this.netAmount,
+      currency: this.currency,
+      status: this.status,
+      paymentId: this.paymentId,
+      subscriptionId: this.subscriptionId,
+      customerId: this.customerId,
+      paymentAmount: this.paymentAmount,
+      paymentStatus: this.paymentStatus,
+      duplicateOf: this.duplicateOf,
+      createdAt: this.createdAt,
+    };
+  }
+}
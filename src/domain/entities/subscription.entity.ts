@@ -1,7 +1,7 @@
 import { BaseEntity } from './base-entity.abstract';
 import { SubscriptionStatus, PlanChangeType, CancellationReason } from '../enums/codes.const';
-import { Money, BillingCycleVO, BillingPeriod, SubscriptionStateMachine, TransitionContext, TransitionResult } from '../value-objects';
-import { SubscriptionCreated, SubscriptionStatusChanged, SubscriptionPlanChanged, SubscriptionRefunded } from '../events/subscription.events';
+import { Money, BillingCycleVO, BillingPeriod, DiscountSchedule, DiscountStage, SubscriptionStateMachine, TransitionContext, TransitionResult } from '../value-objects';
+import { SubscriptionCreated, SubscriptionStatusChanged, SubscriptionPlanChanged, SubscriptionRefunded, SubscriptionPaymentMethodChanged } from '../events/subscription.events';
 
 /**
  * 狀態歷史項目
@@ -44,12 +44,22 @@ interface PendingPlanChange {
 /**
  * 套用的優惠資訊
  */
-interface AppliedPromotion {
+export interface AppliedPromotion {
   promotionId: string;
   appliedAt: Date;
+  /** 開始套用的計費期數 */
   cycleNumber: number;
+  /** 當期折扣金額 */
   discountAmount: Money;
   status: 'ACTIVE' | 'EXPIRED' | 'CANCELLED';
+  /** 折扣排程 */
+  schedule?: DiscountStage[];
+  /** 已套用的期數 */
+  cyclesApplied?: number;
+  /** 剩餘期數，null 表示不限期數 */
+  remainingCycles?: number | null;
+  /** 期數用盡的時間 */
+  expiredAt?: Date;
 }
 
 /**
@@ -394,20 +404,40 @@ export class SubscriptionEntity extends BaseEntity {
 
   /**
    * 套用優惠
+   * 傳入固定金額時視為每期折抵該金額直到移除；傳入排程時自 cycleNumber 期起依排程折抵
    */
-  public applyPromotion(promotionId: string, discountAmount: Money, cycleNumber: number = 1): void {
+  public applyPromotion(promotionId: string, discount: Money | DiscountSchedule, cycleNumber: number = 1): void {
+    const schedule = discount instanceof DiscountSchedule ? discount : new DiscountSchedule([{ type: 'FIXED_AMOUNT', value: discount.amount }]);
     const appliedPromotion: AppliedPromotion = {
       promotionId,
       appliedAt: new Date(),
       cycleNumber,
-      discountAmount,
+      discountAmount: Money.zero(this.pricing.currency),
       status: 'ACTIVE',
+      schedule: schedule.stages,
+      cyclesApplied: 0,
+      remainingCycles: schedule.totalCycles,
     };
+    appliedPromotion.discountAmount = this.calculatePromotionDiscount(appliedPromotion);
 
     this.appliedPromotions.push(appliedPromotion);
     this.touch();
   }
 
+  /**
+   * 計算優惠於當期的折扣金額
+   */
+  public calculatePromotionDiscount(promotion: AppliedPromotion): Money {
+    if (promotion.status !== 'ACTIVE' || this.currentPeriod.cycleNumber < promotion.cycleNumber) {
+      return Money.zero(this.pricing.currency);
+    }
+    // 舊資料沒有排程，沿用套用時的固定金額
+    if (!promotion.schedule?.length) {
+      return promotion.discountAmount;
+    }
+    return new DiscountSchedule(promotion.schedule).calculateDiscount(this.pricing.baseAmount, promotion.cyclesApplied || 0);
+  }
+
   /**
    * 移除優惠
    */
@@ -432,6 +462,21 @@ export class SubscriptionEntity extends BaseEntity {
     this.touch();
   }
 
+  /**
+   * 套用按比例計費後的新方案定價
+   * 週期不同時改用新週期，並自變更日重新起算計費期間
+   */
+  public applyPlanPricing(baseAmount: Money, billingCycle: BillingCycleVO, newPeriod?: { startDate: Date; endDate: Date }): void {
+    this.pricing = { ...this.pricing, baseAmount, currency: baseAmount.currency };
+    this.billingCycle = billingCycle;
+    if (newPeriod) {
+      this.currentPeriod = new BillingPeriod(newPeriod.startDate, newPeriod.endDate, this.currentPeriod.cycleNumber);
+      this.metadata.nextBillingDate = newPeriod.endDate.toISOString();
+    }
+    this.refreshPromotionDiscounts();
+    this.touch();
+  }
+
   /**
    * 推進到下一個計費週期
    */
@@ -439,7 +484,9 @@ export class SubscriptionEntity extends BaseEntity {
     const nextStartDate = this.billingCycle.calculateNextBillingDate(this.currentPeriod.endDate);
     const period = this.billingCycle.calculateBillingPeriod(nextStartDate);
 
+    this.consumePromotionCycle();
     this.currentPeriod = new BillingPeriod(period.startDate, period.endDate, this.currentPeriod.cycleNumber + 1);
+    this.refreshPromotionDiscounts();
     this.touch();
   }
 
@@ -454,15 +501,46 @@ export class SubscriptionEntity extends BaseEntity {
       totalAmount = totalAmount.add(this.pricing.taxAmount);
     }
 
-    // 應用活躍的優惠
+    // 依排程套用當期的優惠，折抵後不低於 0
     const activePromotions = this.appliedPromotions.filter((p) => p.status === 'ACTIVE');
     for (const promotion of activePromotions) {
-      totalAmount = totalAmount.subtract(promotion.discountAmount);
+      totalAmount = totalAmount.subtract(Money.min(this.calculatePromotionDiscount(promotion), totalAmount));
     }
 
     return totalAmount;
   }
 
+  /**
+   * 當期計費完成，已生效的優惠各消耗一期，期數用盡即失效
+   */
+  private consumePromotionCycle(): void {
+    for (const promotion of this.appliedPromotions) {
+      if (promotion.status !== 'ACTIVE' || this.currentPeriod.cycleNumber < promotion.cycleNumber) {
+        continue;
+      }
+
+      promotion.cyclesApplied = (promotion.cyclesApplied || 0) + 1;
+      if (typeof promotion.remainingCycles === 'number') {
+        promotion.remainingCycles = Math.max(0, promotion.remainingCycles - 1);
+        if (promotion.remainingCycles === 0) {
+          promotion.status = 'EXPIRED';
+          promotion.expiredAt = new Date();
+        }
+      }
+    }
+  }
+
+  /**
+   * 進入新的計費期後更新各優惠的當期折扣金額
+   */
+  private refreshPromotionDiscounts(): void {
+    for (const promotion of this.appliedPromotions) {
+      if (promotion.status === 'ACTIVE') {
+        promotion.discountAmount = this.calculatePromotionDiscount(promotion);
+      }
+    }
+  }
+
   /**
    * 檢查訂閱狀態
    */
@@ -512,7 +590,13 @@ export class SubscriptionEntity extends BaseEntity {
    * 更新支付方式
    */
   public updatePaymentMethod(paymentMethodId: string): void {
+    if (this.paymentMethodId === paymentMethodId) {
+      return;
+    }
+
+    const oldPaymentMethodId = this.paymentMethodId;
     this.paymentMethodId = paymentMethodId;
+    this.addDomainEvent(new SubscriptionPaymentMethodChanged(this.subscriptionId, oldPaymentMethodId, paymentMethodId));
     this.touch();
   }
 
@@ -678,10 +762,12 @@ export class SubscriptionEntity extends BaseEntity {
     this.retryState.lastSuccessDate = new Date();
     this.retryState.failureCount = 0;
     this.retryState.retryCount = 0;
+    this.consumePromotionCycle();
 
+    const nextCycleNumber = this.currentPeriod.cycleNumber + 1;
     if (next && next.periodStart && next.periodEnd) {
       // 由外部（服務層）計算好的下一期，直接採用
-      this.currentPeriod = new BillingPeriod(next.periodStart, next.periodEnd);
+      this.currentPeriod = new BillingPeriod(next.periodStart, next.periodEnd, nextCycleNumber);
       if (next.nextBillingDate) {
         this.metadata.nextBillingDate = next.nextBillingDate.toISOString();
       }
@@ -689,10 +775,11 @@ export class SubscriptionEntity extends BaseEntity {
       // 向後相容：沿用舊的本地計算方式
       const nextStartDate = this.currentPeriod.endDate;
       const nextEndDate = this.billingCycle.calculateNextBillingDate(nextStartDate);
-      this.currentPeriod = new BillingPeriod(nextStartDate, nextEndDate);
+      this.currentPeriod = new BillingPeriod(nextStartDate, nextEndDate, nextCycleNumber);
       // 也同步寫入下次扣款日（以便服務層之後接手）
       this.metadata.nextBillingDate = nextEndDate.toISOString();
     }
+    this.refreshPromotionDiscounts();
 
     this.touch();
   }
@@ -0,0 +1,51 @@
+import { BaseEntity } from './base-entity.abstract';
+
+/**
+ * 用量紀錄實體
+ * 商家回報的單筆計量，以 (subscriptionId, idempotencyKey) 去重
+ */
+export class UsageRecordEntity extends BaseEntity {
+  /** 訂閱 ID */
+  public subscriptionId: string = '';
+
+  /** 客戶 ID */
+  public customerId: string = '';
+
+  /** 計量功能（對應計費規則的 unit 與功能限制的 feature） */
+  public feature: string = '';
+
+  /** 數量 */
+  public quantity: number = 0;
+
+  /** 用量發生時間，決定歸屬的計費期間 */
+  public timestamp: Date = new Date();
+
+  /** 冪等鍵 */
+  public idempotencyKey: string = '';
+
+  /** 額外資訊 */
+  public metadata: Record<string, any> = {};
+
+  constructor(subscriptionId: string, customerId: string, feature: string, quantity: number, idempotencyKey: string) {
+    super();
+    this.subscriptionId = subscriptionId;
+    this.customerId = customerId;
+    this.feature = feature;
+    this.quantity = quantity;
+    this.idempotencyKey = idempotencyKey;
+  }
+
+  public toJSON() {
+    return {
+      id: this.id,
+      subscriptionId: this.subscriptionId,
+      customerId: this.customerId,
+      feature: this.feature,
+      quantity: this.quantity,
+      timestamp: this.timestamp,
+      idempotencyKey: this.idempotencyKey,
+      metadata: this.metadata,
+      createdAt: this.createdAt,
+    };
+  }
+}
@@ -0,0 +1,115 @@
+import { BaseEntity } from './base-entity.abstract';
+import { WebhookDeliveryStatus } from '../enums/codes.const';
+
+/**
+ * 單次投遞嘗試紀錄
+ */
+export interface WebhookDeliveryAttempt {
+  attemptedAt: Date;
+  /** 對方回應的 HTTP 狀態碼（連線失敗時為空） */
+  responseStatus?: number;
+  /** 對方回應內容（截斷） */
+  responseBody?: string;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * 商家 Webhook 投遞實體
+ * 一個事件對一個端點的投遞紀錄，含每次嘗試的結果
+ */
+export class WebhookDeliveryEntity extends BaseEntity {
+  /** 端點 ID */
+  public endpointId: string = '';
+
+  /** 商家 ID */
+  public merchantId: string = '';
+
+  /** 來源領域事件 ID */
+  public eventId: string = '';
+
+  /** 事件類型 */
+  public eventType: string = '';
+
+  /** 投遞內容 */
+  public payload: Record<string, any> = {};
+
+  /** 投遞狀態 */
+  public status: WebhookDeliveryStatus = WebhookDeliveryStatus.PENDING;
+
+  /** 下次投遞時間 */
+  public nextAttemptAt?: Date = new Date();
+
+  /** 投遞嘗試紀錄 */
+  public attempts: WebhookDeliveryAttempt[] = [];
+
+  /** 成功送達時間 */
+  public deliveredAt?: Date;
+
+  constructor(endpointId: string, merchantId: string, eventId: string, eventType: string, payload: Record<string, any>) {
+    super();
+    this.endpointId = endpointId;
+    this.merchantId = merchantId;
+    this.eventId = eventId;
+    this.eventType = eventType;
+    this.payload = payload;
+  }
+
+  /**
+   * 已嘗試次數
+   */
+  public get attemptCount(): number {
+    return this.attempts.length;
+  }
+
+  /**
+   * 記錄投遞成功
+   */
+  public recordSuccess(attempt: WebhookDeliveryAttempt): void {
+    this.attempts.push(attempt);
+    this.status = WebhookDeliveryStatus.SUCCEEDED;
+    this.deliveredAt = attempt.attemptedAt;
+    this.nextAttemptAt = undefined;
+    this.touch();
+  }
+
+  /**
+   * 記錄投遞失敗，未提供下次時間即視為放棄
+   */
+  public recordFailure(attempt: WebhookDeliveryAttempt, nextAttemptAt?: Date): void {
+    this.attempts.push(attempt);
+    this.status = nextAttemptAt ? WebhookDeliveryStatus.PENDING : WebhookDeliveryStatus.FAILED;
+    this.nextAttemptAt = nextAttemptAt;
+    this.touch();
+  }
+
+  /**
+   * 手動重新投遞，保留既有嘗試紀錄
+   */
+  public redeliver(): void {
+    this.status = WebhookDeliveryStatus.PENDING;
+    this.nextAttemptAt = new Date();
+    this.touch();
+  }
+
+  /**
+   * 轉換為 API 回應格式
+   */
+  public toJSON(): any {
+    return {
+      id: this.id,
+      endpointId: this.endpointId,
+      merchantId: this.merchantId,
+      eventId: this.eventId,
+      eventType: this.eventType,
+      status: this.status,
+      attemptCount: this.attemptCount,
+      nextAttemptAt: this.nextAttemptAt,
+      deliveredAt: this.deliveredAt,
+      attempts: this.attempts,
+      payload: this.payload,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
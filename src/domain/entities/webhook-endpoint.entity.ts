@@ -0,0 +1,80 @@
+import { BaseEntity } from './base-entity.abstract';
+
+/**
+ * 商家 Webhook 端點實體
+ * 商家登記接收事件的 URL、簽章密鑰與事件過濾條件
+ */
+export class WebhookEndpointEntity extends BaseEntity {
+  /** 商家 ID */
+  public merchantId: string = '';
+
+  /** 接收事件的 URL */
+  public url: string = '';
+
+  /** HMAC-SHA256 簽章密鑰 */
+  public secret: string = '';
+
+  /** 訂閱的事件類型，支援 `payment.*` 前綴萬用字元與 `*` */
+  public events: string[] = [];
+
+  /** 端點描述 */
+  public description?: string;
+
+  /** 是否啟用 */
+  public enabled: boolean = true;
+
+  constructor(merchantId: string, url: string, secret: string, events: string[]) {
+    super();
+    this.merchantId = merchantId;
+    this.url = url;
+    this.secret = secret;
+    this.events = events;
+  }
+
+  /**
+   * 檢查端點是否訂閱此事件類型
+   */
+  public matches(eventType: string): boolean {
+    if (!this.enabled) return false;
+    return this.events.some((filter) => {
+      if (filter === '*') return true;
+      if (filter.endsWith('.*')) return eventType.startsWith(filter.slice(0, -1));
+      return filter === eventType;
+    });
+  }
+
+  /**
+   * 更新端點設定
+   */
+  public update(changes: { url?: string; events?: string[]; description?: string; enabled?: boolean }): void {
+    if (changes.url !== undefined) this.url = changes.url;
+    if (changes.events !== undefined) this.events = changes.events;
+    if (changes.description !== undefined) this.description = changes.description;
+    if (changes.enabled !== undefined) this.enabled = changes.enabled;
+    this.touch();
+  }
+
+  /**
+   * 更換簽章密鑰
+   */
+  public rotateSecret(secret: string): void {
+    this.secret = secret;
+    this.touch();
+  }
+
+  /**
+   * 轉換為 API 回應格式（不含密鑰）
+   */
+  public toJSON(): any {
+    return {
+      id: this.id,
+      merchantId: this.merchantId,
+      url: this.url,
+      events: this.events,
+      description: this.description,
+      enabled: this.enabled,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
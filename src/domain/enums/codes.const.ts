@@ -95,6 +95,8 @@ export enum PaymentStatus {
   PENDING = 'PENDING',
   /** 處理中 */
   PROCESSING = 'PROCESSING',
+  /** 等待客戶完成驗證（如 3-D Secure） */
+  REQUIRES_ACTION = 'REQUIRES_ACTION',
   /** 成功 */
   SUCCEEDED = 'SUCCEEDED',
   /** 失敗 */
@@ -177,6 +179,42 @@ export enum PromotionType {
   RENEWAL_DISCOUNT = 'RENEWAL_DISCOUNT',
 }
 
+/**
+ * 優惠碼狀態列舉
+ */
+export enum PromotionStatus {
+  /** 啟用中 */
+  ACTIVE = 'ACTIVE',
+  /** 已暫停 */
+  PAUSED = 'PAUSED',
+  /** 已過期 */
+  EXPIRED = 'EXPIRED',
+  /** 已封存 */
+  ARCHIVED = 'ARCHIVED',
+}
+
+/**
+ * 優惠折扣持續期間列舉
+ */
+export enum PromotionDuration {
+  /** 僅套用一期 */
+  ONCE = 'ONCE',
+  /** 套用指定期數 */
+  REPEATING = 'REPEATING',
+  /** 持續至訂閱結束 */
+  FOREVER = 'FOREVER',
+}
+
+/**
+ * 優惠券碼狀態列舉
+ */
+export enum CouponCodeStatus {
+  /** 可使用 */
+  AVAILABLE = 'AVAILABLE',
+  /** 已兌換 */
+  REDEEMED = 'REDEEMED',
+}
+
 /**
  * 退款狀態列舉
  */
@@ -197,6 +235,130 @@ export enum RefundStatus {
   CANCELED = 'CANCELED',
 }
 
+/**
+ * 退款類型
+ */
+export enum RefundType {
+  /** 退還付款全額 */
+  FULL = 'FULL',
+  /** 退還部分金額 */
+  PARTIAL = 'PARTIAL',
+}
+
+/**
+ * 退款方式
+ */
+export enum RefundMethod {
+  /** 經原付款的支付閘道退回 */
+  ORIGINAL_PAYMENT = 'ORIGINAL_PAYMENT',
+  /** 轉為客戶抵用金 */
+  STORE_CREDIT = 'STORE_CREDIT',
+  /** 爭議敗訴，款項已由發卡機構經閘道扣回 */
+  CHARGEBACK = 'CHARGEBACK',
+}
+
+/**
+ * 抵用金分錄類型
+ */
+export enum CreditEntryType {
+  /** 入帳 */
+  CREDIT = 'CREDIT',
+  /** 扣抵 */
+  DEBIT = 'DEBIT',
+  /** 逾期失效 */
+  EXPIRY = 'EXPIRY',
+  /** 沖回（付款取消或確定無法收款時退回扣抵） */
+  REVERSAL = 'REVERSAL',
+}
+
+/**
+ * 抵用金分錄來源
+ */
+export enum CreditSourceType {
+  /** 退款轉抵用金 */
+  REFUND = 'REFUND',
+  /** 折抵帳單 */
+  INVOICE = 'INVOICE',
+  /** 管理員調整 */
+  ADMIN = 'ADMIN',
+  /** 方案降級差額 */
+  PLAN_CHANGE = 'PLAN_CHANGE',
+}
+
+/**
+ * 催收步驟動作
+ */
+export enum DunningStepAction {
+  /** 重新扣款 */
+  RETRY_PAYMENT = 'RETRY_PAYMENT',
+  /** 寄送電子郵件 */
+  SEND_EMAIL = 'SEND_EMAIL',
+  /** 發送簡訊 */
+  SEND_SMS = 'SEND_SMS',
+  /** 結束寬限期，訂閱轉為逾期 */
+  END_GRACE_PERIOD = 'END_GRACE_PERIOD',
+}
+
+/**
+ * 催收結束時對訂閱的處置
+ */
+export enum DunningFinalAction {
+  /** 取消訂閱 */
+  CANCEL = 'CANCEL',
+  /** 暫停訂閱 */
+  PAUSE = 'PAUSE',
+  /** 維持逾期未付，不再重試 */
+  MARK_UNPAID = 'MARK_UNPAID',
+}
+
+/**
+ * 催收流程狀態
+ */
+export enum DunningStatus {
+  /** 進行中 */
+  ACTIVE = 'ACTIVE',
+  /** 已收回款項 */
+  RECOVERED = 'RECOVERED',
+  /** 提前結束（更換支付方式或訂閱已終止） */
+  EXITED = 'EXITED',
+  /** 已執行最終處置 */
+  COMPLETED = 'COMPLETED',
+}
+
+/**
+ * 結帳工作階段用途
+ */
+export enum CheckoutSessionMode {
+  /** 更新訂閱的支付方式並重新扣款未付款項 */
+  PAYMENT_METHOD_UPDATE = 'PAYMENT_METHOD_UPDATE',
+  /** 新訂閱前綁定支付方式 */
+  SIGNUP = 'SIGNUP',
+}
+
+/**
+ * 結帳工作階段狀態
+ */
+export enum CheckoutSessionStatus {
+  /** 等待客戶完成 */
+  OPEN = 'OPEN',
+  /** 已完成 */
+  COMPLETED = 'COMPLETED',
+  /** 已過期 */
+  EXPIRED = 'EXPIRED',
+  /** 已取消 */
+  CANCELED = 'CANCELED',
+}
+
+/**
+ * 冪等鍵狀態
+ */
+export enum IdempotencyKeyStatus {
+  /** 第一次請求處理中 */
+  IN_PROGRESS = 'IN_PROGRESS',
+  /** 已完成並保存回應 */
+  COMPLETED = 'COMPLETED',
+}
+
 /**
  * 重試策略類型列舉
  */
@@ -247,6 +409,124 @@ export enum BillingAttemptType {
   IMMEDIATE = 'IMMEDIATE',
 }
 
+/**
+ * 計費批次作業狀態列舉
+ */
+export enum BillingRunStatus {
+  /** 執行中 */
+  RUNNING = 'RUNNING',
+  /** 已完成 */
+  COMPLETED = 'COMPLETED',
+  /** 失敗 */
+  FAILED = 'FAILED',
+}
+
+/**
+ * 計費批次作業觸發來源列舉
+ */
+export enum BillingRunTrigger {
+  /** 排程觸發 */
+  SCHEDULED = 'SCHEDULED',
+  /** 補跑指定日期 */
+  BACKFILL = 'BACKFILL',
+  /** 手動觸發 */
+  MANUAL = 'MANUAL',
+}
+
+/**
+ * 領域事件外送狀態列舉
+ */
+export enum OutboxEventStatus {
+  /** 等待派送 */
+  PENDING = 'PENDING',
+  /** 派送中 */
+  PROCESSING = 'PROCESSING',
+  /** 已送達所有訂閱者 */
+  DELIVERED = 'DELIVERED',
+  /** 超過重試上限 */
+  DEAD_LETTER = 'DEAD_LETTER',
+}
+
+/**
+ * 商家 Webhook 投遞狀態列舉
+ */
+export enum WebhookDeliveryStatus {
+  /** 等待投遞（含等待重試） */
+  PENDING = 'PENDING',
+  /** 對方回應 2xx */
+  SUCCEEDED = 'SUCCEEDED',
+  /** 超過重試上限 */
+  FAILED = 'FAILED',
+}
+
+/**
+ * 發票狀態
+ */
+export enum InvoiceStatus {
+  /** 已開立 */
+  ISSUED = 'ISSUED',
+  /** 已作廢（號碼保留不重用） */
+  VOID = 'VOID',
+}
+
+/**
+ * 發票明細類型
+ */
+export enum InvoiceLineItemType {
+  /** 方案費用 */
+  PLAN = 'PLAN',
+  /** 方案變更按比例計費 */
+  PRORATION = 'PRORATION',
+  /** 用量超額費用 */
+  USAGE = 'USAGE',
+  /** 優惠折抵 */
+  DISCOUNT = 'DISCOUNT',
+  /** 抵用金折抵 */
+  CREDIT = 'CREDIT',
+  /** 稅額 */
+  TAX = 'TAX',
+}
+
+/**
+ * 用量彙總方式
+ */
+export enum UsageAggregationType {
+  /** 期間內加總（如 API 呼叫次數） */
+  SUM = 'SUM',
+  /** 期間內最大值（如尖峰席次） */
+  MAX = 'MAX',
+  /** 期間內最後一筆（如儲存空間） */
+  LAST = 'LAST',
+}
+
+/**
+ * 電子發票收受方式
+ */
+export enum EInvoiceRecipientType {
+  /** 開立平台會員載具（未設定時的預設） */
+  MEMBER = 'MEMBER',
+  /** 手機條碼載具 */
+  MOBILE_BARCODE = 'MOBILE_BARCODE',
+  /** 自然人憑證載具 */
+  CITIZEN_CERTIFICATE = 'CITIZEN_CERTIFICATE',
+  /** 打統一編號（公司戶） */
+  COMPANY = 'COMPANY',
+  /** 捐贈（愛心碼） */
+  DONATION = 'DONATION',
+}
+
+/**
+ * 電子發票狀態
+ */
+export enum EInvoiceStatus {
+  /** 已開立 */
+  ISSUED = 'ISSUED',
+  /** 已開立折讓（部分或全部） */
+  ALLOWANCED = 'ALLOWANCED',
+  /** 已作廢 */
+  VOIDED = 'VOIDED',
+}
+
 /**
  * 重試策略介面
  */
@@ -318,3 +598,85 @@ export enum PlanType {
   /** 免費計劃 */
   FREE = 'FREE',
 }
+
+/**
+ * 閘道定期定額委託狀態
+ */
+export enum PeriodOrderStatus {
+  /** 已建立，等待客戶於閘道付款頁完成首次授權 */
+  PENDING = 'PENDING',
+  /** 授權成功，由閘道依週期扣款 */
+  ACTIVE = 'ACTIVE',
+  /** 已於閘道停用 */
+  CANCELED = 'CANCELED',
+  /** 連續授權失敗，閘道已停止扣款 */
+  STOPPED = 'STOPPED',
+  /** 已執行完所有期數 */
+  COMPLETED = 'COMPLETED',
+}
+
+/**
+ * 對帳差異類型
+ */
+export enum ReconciliationDiscrepancyType {
+  /** 閘道有交易但本地查無對應付款 */
+  MISSING_LOCALLY = 'MISSING_LOCALLY',
+  /** 本地付款在閘道查無交易 */
+  MISSING_AT_GATEWAY = 'MISSING_AT_GATEWAY',
+  /** 金額不一致 */
+  AMOUNT_MISMATCH = 'AMOUNT_MISMATCH',
+  /** 狀態不一致 */
+  STATUS_MISMATCH = 'STATUS_MISMATCH',
+}
+
+/**
+ * 對帳差異處理狀態
+ */
+export enum ReconciliationDiscrepancyStatus {
+  /** 待人工處理 */
+  OPEN = 'OPEN',
+  /** 對帳作業已自動修正 */
+  AUTO_RESOLVED = 'AUTO_RESOLVED',
+  /** 已人工處理 */
+  RESOLVED = 'RESOLVED',
+}
+
+/**
+ * 撥款明細比對結果
+ */
+export enum SettlementRecordStatus {
+  /** 已對應付款並記錄手續費 */
+  MATCHED = 'MATCHED',
+  /** 查無對應付款 */
+  UNMATCHED = 'UNMATCHED',
+  /** 撥款交易金額與付款金額不一致 */
+  AMOUNT_MISMATCH = 'AMOUNT_MISMATCH',
+  /** 付款狀態不是已扣款 */
+  STATUS_MISMATCH = 'STATUS_MISMATCH',
+  /** 同一筆交易已於先前的撥款檔對應 */
+  DUPLICATE = 'DUPLICATE',
+}
+
+/**
+ * 付款爭議（退單）狀態
+ */
+export enum DisputeStatus {
+  /** 待商家回覆並提交證據 */
+  NEEDS_RESPONSE = 'NEEDS_RESPONSE',
+  /** 已回覆，等待發卡機構審查 */
+  UNDER_REVIEW = 'UNDER_REVIEW',
+  /** 商家勝訴 */
+  WON = 'WON',
+  /** 商家敗訴，款項已扣回 */
+  LOST = 'LOST',
+}
+
+/**
+ * 爭議成立時對訂閱的處置
+ */
+export enum DisputeSubscriptionPolicy {
+  /** 僅於訂閱標記爭議，照常續訂 */
+  FLAG = 'FLAG',
+  /** 標記並暫停訂閱，勝訴後恢復 */
+  PAUSE = 'PAUSE',
+}
@@ -36,3 +36,15 @@ export class PaymentRefunded extends DomainEvent {
     super();
   }
 }
+
+export class PaymentActionRequired extends DomainEvent {
+  readonly type = 'payment.action_required';
+  constructor(
+    public readonly paymentId: string,
+    public readonly subscriptionId: string,
+    public readonly actionType: string,
+    public readonly expiresAt: Date,
+  ) {
+    super();
+  }
+}
@@ -0,0 +1,40 @@
+import { DomainEvent } from './domain-event';
+import { Money } from '../value-objects/money';
+import { RefundMethod } from '../enums/codes.const';
+
+export class RefundRequested extends DomainEvent {
+  readonly type = 'refund.requested';
+  constructor(
+    public readonly paymentId: string,
+    public readonly subscriptionId: string,
+    public readonly amount: Money,
+    public readonly reason: string,
+  ) {
+    super();
+  }
+}
+
+export class RefundSucceeded extends DomainEvent {
+  readonly type = 'refund.succeeded';
+  constructor(
+    public readonly paymentId: string,
+    public readonly subscriptionId: string,
+    public readonly amount: Money,
+    public readonly refundMethod: RefundMethod,
+    public readonly providerRefundId?: string,
+  ) {
+    super();
+  }
+}
+
+export class RefundFailed extends DomainEvent {
+  readonly type = 'refund.failed';
+  constructor(
+    public readonly paymentId: string,
+    public readonly subscriptionId: string,
+    public readonly amount: Money,
+    public readonly reason: string,
+  ) {
+    super();
+  }
+}
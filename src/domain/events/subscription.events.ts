@@ -48,3 +48,14 @@ export class SubscriptionRefunded extends DomainEvent {
     super();
   }
 }
+
+export class SubscriptionPaymentMethodChanged extends DomainEvent {
+  readonly type = 'subscription.payment_method.changed';
+  constructor(
+    public readonly subscriptionId: string,
+    public readonly oldPaymentMethodId: string,
+    public readonly newPaymentMethodId: string,
+  ) {
+    super();
+  }
+}
@@ -0,0 +1,115 @@
+import { EInvoicePreference } from '../../utils/einvoice.util';
+
+/**
+ * 電子發票供應商抽象介面
+ * 定義加值中心（如綠界）必須實作的開立、作廢與折讓
+ */
+export interface IEInvoiceProvider {
+  /**
+   * 獲取供應商名稱
+   */
+  getName(): string;
+
+  /**
+   * 開立發票
+   */
+  issue(request: EInvoiceIssueRequest): Promise<EInvoiceIssueResult>;
+
+  /**
+   * 作廢發票（僅限當期發票）
+   */
+  void(request: EInvoiceVoidRequest): Promise<EInvoiceOperationResult>;
+
+  /**
+   * 開立折讓
+   */
+  allowance(request: EInvoiceAllowanceRequest): Promise<EInvoiceAllowanceResult>;
+}
+
+/**
+ * 發票品項（金額為含稅新台幣元）
+ */
+export interface EInvoiceItem {
+  name: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  amount: number;
+}
+
+/**
+ * 買受人資訊
+ */
+export interface EInvoiceBuyer {
+  customerId: string;
+  name?: string;
+  email?: string;
+  phone?: string;
+}
+
+/**
+ * 開立請求
+ */
+export interface EInvoiceIssueRequest {
+  /** 商家自訂的唯一編號，供應商以此避免重複開立 */
+  relateNumber: string;
+  buyer: EInvoiceBuyer;
+  recipient: EInvoicePreference;
+  items: EInvoiceItem[];
+  /** 含稅總額 */
+  salesAmount: number;
+  remark?: string;
+}
+
+/**
+ * 開立結果
+ */
+export interface EInvoiceIssueResult {
+  success: boolean;
+  /** 發票號碼（2 碼字軌 + 8 碼數字） */
+  invoiceNumber?: string;
+  invoiceDate?: Date;
+  /** 隨機碼 */
+  randomNumber?: string;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+/**
+ * 作廢請求
+ */
+export interface EInvoiceVoidRequest {
+  invoiceNumber: string;
+  invoiceDate: Date;
+  reason: string;
+}
+
+/**
+ * 折讓請求
+ */
+export interface EInvoiceAllowanceRequest {
+  invoiceNumber: string;
+  invoiceDate: Date;
+  buyer: EInvoiceBuyer;
+  items: EInvoiceItem[];
+  /** 含稅折讓金額 */
+  allowanceAmount: number;
+}
+
+/**
+ * 作廢等操作結果
+ */
+export interface EInvoiceOperationResult {
+  success: boolean;
+  errorCode?: string;
+  errorMessage?: string;
+}
+
+/**
+ * 折讓結果
+ */
+export interface EInvoiceAllowanceResult extends EInvoiceOperationResult {
+  allowanceNumber?: string;
+  /** 發票剩餘可折讓金額 */
+  remainingAmount?: number;
+}
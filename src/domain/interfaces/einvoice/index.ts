@@ -0,0 +1,2 @@
+// 電子發票供應商介面和類型
+export * from './einvoice-provider.interface';
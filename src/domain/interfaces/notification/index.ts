@@ -0,0 +1,2 @@
+// 通知管道介面
+export * from './notification-channel.interface';
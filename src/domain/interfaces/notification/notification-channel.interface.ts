@@ -0,0 +1,17 @@
+import { NotificationChannel, NotificationContent, NotificationDeliveryResult, NotificationVO } from '../../value-objects/notification';
+
+/**
+ * 通知管道轉接器介面
+ * 每個管道負責將已套用模板的內容送達收件人
+ */
+export interface INotificationChannel {
+  /**
+   * 轉接器負責的管道
+   */
+  readonly channel: NotificationChannel;
+
+  /**
+   * 發送通知，失敗時回傳 success=false 而非拋出例外
+   */
+  send(notification: NotificationVO, content: NotificationContent): Promise<NotificationDeliveryResult>;
+}
@@ -13,6 +13,11 @@ export interface IECPayGateway extends IPaymentGateway {
    */
   createPeriodPayment(options: PeriodPaymentOptions): Promise<PeriodPaymentResult>;
 
+  /**
+   * 信用卡定期定額訂單作業 (停用、重新授權)
+   */
+  periodAction(options: PeriodActionOptions): Promise<PeriodActionResult>;
+
   /**
    * 創建 ATM 虛擬帳號支付
    */
@@ -81,6 +86,35 @@ export interface PeriodPaymentResult extends PaymentResult {
   totalSuccessTimes?: number; // 已成功授權次數
 }
 
+/**
+ * 信用卡定期定額訂單作業
+ */
+export enum PeriodActionType {
+  REAUTH = 'ReAuth', // 重新授權
+  CANCEL = 'Cancel', // 停用
+}
+
+/**
+ * 定期定額訂單作業選項
+ */
+export interface PeriodActionOptions {
+  merchantTradeNo: string; // 定期定額的特店交易編號
+  action: PeriodActionType;
+}
+
+/**
+ * 定期定額訂單作業結果
+ */
+export interface PeriodActionResult {
+  success: boolean;
+  merchantTradeNo: string;
+  action: PeriodActionType;
+  rtnCode?: number;
+  rtnMsg?: string;
+  gatewayResponse?: any;
+  errorMessage?: string;
+}
+
 /**
  * ATM 支付選項
  */
@@ -166,6 +200,7 @@ export interface ECPayConfig {
   returnURL: string; // 付款完成通知回傳網址
   clientBackURL?: string; // 付款完成後導向網址
   orderResultURL?: string; // 付款結果後的顯示頁面
+  periodReturnURL?: string; // 定期定額每期授權結果通知網址
 }
 
 /**
@@ -237,4 +272,12 @@ export interface ECPayCallbackParams {
   gwsr?: number;
   process_date?: string;
   auth_code?: string;
+  // 定期定額每期授權回傳參數 (PeriodReturnURL)
+  Amount?: number;
+  Gwsr?: number;
+  ProcessDate?: string;
+  AuthCode?: string;
+  FirstAuthAmount?: number;
+  TotalSuccessTimes?: number;
+  SimulatePaid?: number;
 }
@@ -1,3 +1,5 @@
+import { DisputeStatus } from '../../enums/codes.const';
+
 /**
  * 支付閘道抽象介面
  * 定義所有支付閘道必須實作的核心方法
@@ -23,6 +25,11 @@ export interface IPaymentGateway {
    */
   getPaymentStatus(paymentId: string): Promise<PaymentStatus>;
 
+  /**
+   * 取消尚未完成的支付 (可選)，如逾時未完成客戶驗證的支付；已成功的支付不可取消
+   */
+  cancelPayment?(paymentId: string): Promise<PaymentResult>;
+
   /**
    * 創建退款
    */
@@ -52,6 +59,31 @@ export interface IPaymentGateway {
    * 取消訂閱 (可選，如果支援訂閱)
    */
   cancelSubscription?(subscriptionId: string): Promise<SubscriptionResult>;
+
+  /**
+   * 帳戶更新服務 (可選)，向發卡機構查詢卡片的最新到期日
+   */
+  refreshPaymentMethod?(options: AccountUpdaterOptions): Promise<AccountUpdaterResult>;
+
+  /**
+   * 綁定支付方式 (可選)，將客戶在結帳頁輸入的卡片或前端取得的 Token 綁定到閘道
+   */
+  attachPaymentMethod?(options: PaymentMethodAttachOptions): Promise<PaymentMethodAttachResult>;
+
+  /**
+   * 查詢閘道端的交易紀錄 (可選)，查無交易時回傳 undefined
+   */
+  getTransaction?(paymentId: string): Promise<GatewayTransaction | undefined>;
+
+  /**
+   * 列出期間內建立的交易 (可選)，供對帳找出本地缺少的付款
+   */
+  listTransactions?(options: GatewayTransactionListOptions): Promise<GatewayTransaction[]>;
+
+  /**
+   * 提交爭議回覆與證據 (可選)，不支援的閘道由商家至閘道後台回覆
+   */
+  submitDisputeResponse?(gatewayDisputeId: string, options: DisputeResponseOptions): Promise<DisputeResponseResult>;
 }
 
 /**
@@ -162,6 +194,44 @@ export interface WebhookResult {
   status?: string;
   data: any;
   errorMessage?: string;
+  /** 閘道通知的爭議（退單）事件 */
+  dispute?: GatewayDisputeEvent;
+}
+
+/**
+ * 閘道通知的爭議事件
+ */
+export interface GatewayDisputeEvent {
+  /** 閘道爭議編號 */
+  disputeId: string;
+  /** 被爭議的閘道交易編號（即 PaymentResult.paymentId） */
+  transactionId: string;
+  status: DisputeStatus;
+  /** 爭議金額，未提供時視為付款全額 */
+  amount?: number;
+  currency?: string;
+  reason?: string;
+  /** 回覆期限 */
+  responseDueBy?: Date;
+}
+
+/**
+ * 爭議回覆選項
+ */
+export interface DisputeResponseOptions {
+  /** 回覆說明 */
+  explanation?: string;
+  /** 證據附件 */
+  evidence: Array<{ fileName: string; contentType: string; filePath: string; description?: string }>;
+}
+
+/**
+ * 爭議回覆結果
+ */
+export interface DisputeResponseResult {
+  success: boolean;
+  gatewayResponse?: any;
+  errorMessage?: string;
 }
 
 /**
@@ -202,6 +272,87 @@ export interface SubscriptionResult {
   metadata?: Record<string, any>;
 }
 
+/**
+ * 帳戶更新查詢選項
+ */
+export interface AccountUpdaterOptions {
+  externalId: string;
+  customerId?: string;
+  expiryDate?: Date;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * 帳戶更新結果，updated 為 false 表示發卡機構沒有新資料
+ */
+export interface AccountUpdaterResult {
+  updated: boolean;
+  expiryMonth?: number;
+  expiryYear?: number;
+  lastFourDigits?: string;
+  /** 發卡機構換發新卡時的新 Token */
+  externalId?: string;
+  gatewayResponse?: any;
+}
+
+/**
+ * 綁定支付方式選項
+ */
+export interface PaymentMethodAttachOptions {
+  customerId: string;
+  paymentMethodType?: string;
+  /** 前端向閘道取得的卡片 Token */
+  token?: string;
+  card?: {
+    number?: string;
+    expMonth?: number;
+    expYear?: number;
+    holderName?: string;
+    brand?: string;
+  };
+  metadata?: Record<string, any>;
+}
+
+/**
+ * 綁定支付方式結果
+ */
+export interface PaymentMethodAttachResult {
+  success: boolean;
+  /** 閘道端的支付方式 Token */
+  externalId?: string;
+  brand?: string;
+  lastFourDigits?: string;
+  expiryMonth?: number;
+  expiryYear?: number;
+  gatewayResponse?: any;
+  errorMessage?: string;
+  errorCode?: string;
+}
+
+/**
+ * 閘道端的交易紀錄
+ */
+export interface GatewayTransaction {
+  /** 閘道交易編號（即 PaymentResult.paymentId） */
+  transactionId: string;
+  status: PaymentStatus;
+  /** 閘道未提供交易明細時為空 */
+  amount?: number;
+  currency?: string;
+  /** 建立交易時帶入的本地付款 ID */
+  reference?: string;
+  createdAt?: Date;
+  gatewayResponse?: any;
+}
+
+/**
+ * 交易列表查詢選項
+ */
+export interface GatewayTransactionListOptions {
+  createdFrom: Date;
+  createdTo: Date;
+}
+
 /**
  * 閘道選擇標準
  */
@@ -214,6 +365,65 @@ export interface GatewaySelectionCriteria {
   preferredGateway?: string;
 }
 
+/**
+ * 閘道路由規則
+ * 未設定的條件視為不限
+ */
+export interface GatewayRoutingRule {
+  name: string;
+  paymentMethodTypes?: string[];
+  currencies?: string[];
+  minAmount?: number;
+  maxAmount?: number;
+  /** 依序嘗試的閘道 */
+  gateways: string[];
+}
+
+/**
+ * 路由結果
+ */
+export interface GatewayRoute {
+  /** 符合的規則名稱，未符合任何規則時為空 */
+  rule?: string;
+  /** 依序嘗試的閘道（已排除斷路中的閘道） */
+  candidates: string[];
+  /** 因斷路而略過的閘道 */
+  skipped: string[];
+  /** 連線或暫時性錯誤時是否改用下一個候選閘道 */
+  failover: boolean;
+}
+
+/**
+ * 單一閘道的嘗試紀錄
+ */
+export interface GatewayRoutingAttempt {
+  gateway: string;
+  success: boolean;
+  status?: string;
+  /** 閘道交易編號，供對帳查詢 */
+  transactionId?: string;
+  errorCode?: string;
+  errorMessage?: string;
+  /** 是否為閘道端的連線或暫時性錯誤（計入斷路器；請求未送達或確認未扣款時才切換） */
+  gatewayError: boolean;
+  attemptedAt: Date;
+}
+
+/**
+ * 路由決策，記錄於 PaymentEntity.metadata.routing
+ */
+export interface GatewayRoutingDecision {
+  rule?: string;
+  candidates: string[];
+  skipped: string[];
+  attempts: GatewayRoutingAttempt[];
+  /** 最終處理的閘道 */
+  gateway?: string;
+  /** 是否切換過閘道 */
+  failedOver: boolean;
+  decidedAt: Date;
+}
+
 /**
  * 支付方式類型
  */
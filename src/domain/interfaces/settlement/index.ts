@@ -0,0 +1,2 @@
+// 撥款檔解析器介面和類型
+export * from './settlement-file-parser.interface';
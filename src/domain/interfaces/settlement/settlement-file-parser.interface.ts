@@ -0,0 +1,49 @@
+/**
+ * 撥款檔解析器抽象介面
+ * 各閘道的撥款／對帳檔格式不同，以閘道名稱註冊對應的解析器
+ */
+export interface ISettlementFileParser {
+  /**
+   * 獲取對應的閘道名稱
+   */
+  getName(): string;
+
+  /**
+   * 解析撥款檔內容，格式錯誤的資料列記錄於 errors，不中斷整份檔案
+   * 缺少必要欄位等無法解析整份檔案時拋出錯誤
+   */
+  parse(content: string): SettlementFileParseResult;
+}
+
+/**
+ * 撥款明細列
+ */
+export interface SettlementFileRow {
+  /** 檔案中的資料列號（含標題列，從 1 開始） */
+  rowNumber: number;
+  /** 閘道交易編號（ECPay 為特店訂單編號） */
+  transactionId: string;
+  /** 依序嘗試比對付款的交易編號，未提供時僅以 transactionId 比對 */
+  matchKeys?: string[];
+  /** 閘道端的交易序號 */
+  gatewayReference?: string;
+  /** 撥款日期（YYYY-MM-DD） */
+  settlementDate: string;
+  /** 交易金額 */
+  grossAmount: number;
+  /** 閘道手續費 */
+  feeAmount: number;
+  /** 撥款淨額 */
+  netAmount: number;
+  currency: string;
+  /** 原始欄位 */
+  raw: Record<string, string>;
+}
+
+/**
+ * 撥款檔解析結果
+ */
+export interface SettlementFileParseResult {
+  rows: SettlementFileRow[];
+  errors: Array<{ rowNumber: number; error: string }>;
+}
@@ -0,0 +1,189 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PaymentService } from '../payment.service';
+import { BillingAttemptService } from '../billing-attempt.service';
+import { PaymentRepository } from '../../../infra/repositories/payment.repository';
+import { SubscriptionRepository } from '../../../infra/repositories/subscription.repository';
+import { BillingAttemptRepository, BillingAttemptSearchCriteria } from '../../../infra/repositories/billing-attempt.repository';
+import { RetryStrategyEngine } from '../rules-engine/retry-strategy.engine';
+import { PaymentProcessingService } from '../../services/payment-processing.service';
+import { PaymentEntity } from '../../entities';
+import { BillingAttemptEntity } from '../../entities/billing-attempt.entity';
+import { BillingAttemptStatus, BillingAttemptType, PaymentFailureCategory } from '../../enums/codes.const';
+
+class InMemoryPaymentRepository {
+  private store = new Map<string, PaymentEntity>();
+  async save(entity: PaymentEntity) {
+    if (!entity.id) entity.id = `pay_${this.store.size + 1}`;
+    this.store.set(entity.id, entity);
+    return entity;
+  }
+  async findById(id: string) {
+    return this.store.get(id) || null;
+  }
+  async findBySubscriptionId(subscriptionId: string) {
+    return Array.from(this.store.values()).filter((p) => p.subscriptionId === subscriptionId);
+  }
+}
+
+class InMemoryBillingAttemptRepository {
+  private store = new Map<string, BillingAttemptEntity>();
+  async save(entity: BillingAttemptEntity) {
+    if (!entity.id) entity.id = `att_${this.store.size + 1}`;
+    this.store.set(entity.id, entity);
+    return entity;
+  }
+  async findByPaymentId(paymentId: string) {
+    return this.all()
+      .filter((a) => a.paymentId === paymentId)
+      .sort((a, b) => a.attemptNumber - b.attemptNumber);
+  }
+  async findProcessingByPaymentId(paymentId: string) {
+    return (await this.findByPaymentId(paymentId)).reverse().find((a) => a.status === BillingAttemptStatus.PROCESSING);
+  }
+  async searchAttempts(criteria: BillingAttemptSearchCriteria, limit: number, offset: number) {
+    return this.filter(criteria).slice(offset, offset + limit);
+  }
+  async countSearchResults(criteria: BillingAttemptSearchCriteria) {
+    return this.filter(criteria).length;
+  }
+  private filter(criteria: BillingAttemptSearchCriteria) {
+    return this.all().filter(
+      (a) =>
+        (!criteria.subscriptionId || a.subscriptionId === criteria.subscriptionId) &&
+        (!criteria.paymentId || a.paymentId === criteria.paymentId) &&
+        (!criteria.status || a.status === criteria.status) &&
+        (!criteria.type || a.type === criteria.type),
+    );
+  }
+  private all() {
+    return Array.from(this.store.values());
+  }
+}
+
+describe('BillingAttemptService attempt history', () => {
+  let moduleRef: TestingModule;
+  let service: PaymentService;
+  let attemptService: BillingAttemptService;
+  let payments: InMemoryPaymentRepository;
+
+  const subscriptionId = 'sub_att_1';
+  const paymentId = 'pay_att_1';
+
+  async function seedPayment(): Promise<PaymentEntity> {
+    const start = new Date();
+    const end = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+    const p = new PaymentEntity(subscriptionId, 'cust_att', 'pm_att', 1500, start, end, 'TWD');
+    p.id = paymentId;
+    return await payments.save(p);
+  }
+
+  beforeEach(async () => {
+    payments = new InMemoryPaymentRepository();
+
+    const retryEngineStub = {
+      evaluateRetryDecision: jest.fn(async (ctx: any) => ({
+        shouldRetry: ctx.attemptNumber < 2,
+        nextRetryDate: new Date(Date.now() + 50),
+        retryStrategy: 'LINEAR',
+        maxRetries: 2,
+        delayMinutes: 0,
+        escalateToManual: false,
+        notifyCustomer: false,
+        reason: 'stub',
+        appliedRules: [],
+      })),
+    } as Partial<RetryStrategyEngine> as RetryStrategyEngine;
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        PaymentService,
+        BillingAttemptService,
+        { provide: PaymentRepository, useValue: payments },
+        { provide: SubscriptionRepository, useValue: {} },
+        { provide: BillingAttemptRepository, useClass: InMemoryBillingAttemptRepository },
+        { provide: RetryStrategyEngine, useValue: retryEngineStub },
+        { provide: PaymentProcessingService, useValue: { processPayment: jest.fn() } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PaymentService);
+    attemptService = moduleRef.get(BillingAttemptService);
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('records a failed first attempt and a succeeded retry in processPaymentWithRetry', async () => {
+    const payment = await seedPayment();
+    payment.startAttempt();
+    await payments.save(payment);
+    const processing = moduleRef.get<PaymentProcessingService>(PaymentProcessingService);
+    jest
+      .spyOn(processing, 'processPayment')
+      .mockResolvedValueOnce({ success: false, errorMessage: 'Network timeout', failureCategory: PaymentFailureCategory.RETRIABLE } as any)
+      .mockResolvedValueOnce({ success: true, transactionId: 'txn_ok' } as any);
+
+    const result = await service.processPaymentWithRetry({ paymentId, customerId: 'cust_att', paymentMethodId: 'pm_att', amount: 1500, currency: 'TWD' });
+    expect(result.success).toBe(true);
+
+    const { attempts, total } = await attemptService.getPaymentAttempts(paymentId);
+    expect(total).toBe(2);
+    const [first, second] = attempts.sort((a, b) => a.attemptNumber - b.attemptNumber);
+    expect(first.type).toBe(BillingAttemptType.IMMEDIATE);
+    expect(first.status).toBe(BillingAttemptStatus.FAILED);
+    expect(first.failureCategory).toBe('NETWORK');
+    expect(second.type).toBe(BillingAttemptType.AUTO_RETRY);
+    expect(second.status).toBe(BillingAttemptStatus.SUCCEEDED);
+    expect(second.isRetry).toBe(true);
+    expect(second.originalAttemptId).toBe(first.id);
+    expect(second.result?.externalTransactionId).toBe('txn_ok');
+  });
+
+  it('uses the given attempt type and closes it via markPaymentFailed', async () => {
+    await seedPayment();
+
+    await service.startPaymentAttempt(paymentId, BillingAttemptType.SCHEDULED);
+    await service.markPaymentFailed(paymentId, 'Card declined', 'CARD_DECLINED');
+
+    const { attempts } = await service.getPaymentAttempts(paymentId);
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0].type).toBe(BillingAttemptType.SCHEDULED);
+    expect(attempts[0].status).toBe(BillingAttemptStatus.FAILED);
+    expect(attempts[0].result?.errorCode).toBe('CARD_DECLINED');
+    expect(attempts[0].isRetriable).toBe(false);
+  });
+
+  it('defaults to MANUAL_RETRY for later attempts and supersedes an open attempt', async () => {
+    const payment = await seedPayment();
+    payment.attemptCount = 1;
+    await payments.save(payment);
+    await attemptService.openAttempt(payment, BillingAttemptType.SCHEDULED);
+
+    await service.startPaymentAttempt(paymentId);
+
+    const { attempts } = await attemptService.getPaymentAttempts(paymentId);
+    const cancelled = attempts.find((a) => a.status === BillingAttemptStatus.CANCELLED);
+    const open = attempts.find((a) => a.status === BillingAttemptStatus.PROCESSING);
+    expect(cancelled?.type).toBe(BillingAttemptType.SCHEDULED);
+    expect(open?.type).toBe(BillingAttemptType.MANUAL_RETRY);
+    expect(open?.attemptNumber).toBe(2);
+  });
+
+  it('filters and paginates subscription attempt history', async () => {
+    const payment = await seedPayment();
+    await attemptService.openAttempt(payment, BillingAttemptType.SCHEDULED);
+    await attemptService.failAttempt(paymentId, { errorMessage: 'Insufficient funds', category: PaymentFailureCategory.DELAYED_RETRY });
+    await attemptService.openAttempt(payment, BillingAttemptType.AUTO_RETRY);
+    await attemptService.failAttempt(paymentId, { errorMessage: 'Insufficient funds', category: PaymentFailureCategory.DELAYED_RETRY });
+    await attemptService.openAttempt(payment, BillingAttemptType.AUTO_RETRY);
+
+    const failed = await attemptService.getSubscriptionAttempts(subscriptionId, { status: BillingAttemptStatus.FAILED });
+    expect(failed.total).toBe(2);
+
+    const paged = await attemptService.getSubscriptionAttempts(subscriptionId, { page: 2, limit: 2 });
+    expect(paged.total).toBe(3);
+    expect(paged.attempts).toHaveLength(1);
+    expect(paged.page).toBe(2);
+  });
+});
@@ -7,6 +7,7 @@ import { BusinessRulesEngineModule } from '../rules-engine/business-rules-engine
 import { SubscriptionEntity, PaymentMethodEntity } from '../../entities';
 import { BillingCycle, SubscriptionStatus, PaymentFailureCategory, PaymentMethodType, PaymentMethodStatus } from '../../entities';
 import { SubscriptionService } from '../subscription.service';
+import { Money } from '../../value-objects/money';
 
 class InMemorySubscriptionRepository {
   private store = new Map<string, any>();
@@ -27,7 +28,7 @@ class StubPaymentService {
   public created: any[] = [];
   constructor(private readonly subRepo: InMemorySubscriptionRepository) {}
 
-  async createPayment(subscriptionId: string, customerId: string, paymentMethodId: string, amount: number, currency: string, description?: string) {
+  async createPayment(subscriptionId: string, customerId: string, paymentMethodId: string, amount: number, currency: string, description?: string, metadata?: Record<string, any>) {
     const sub = await this.subRepo.findById(subscriptionId);
     const payment = {
       id: `pay_${Date.now()}`,
@@ -40,6 +41,7 @@ class StubPaymentService {
       billingPeriodStart: sub.currentPeriodStart,
       billingPeriodEnd: sub.currentPeriodEnd,
       status: 'PENDING',
+      metadata,
     };
     this.created.push(payment);
     return payment as any;
@@ -90,6 +92,7 @@ describe('BillingService + RulesEngine integration (phase-2 wiring)', () => {
   let billingService: BillingService;
   let subRepo: InMemorySubscriptionRepository;
   let pmRepo: StubPaymentMethodRepository;
+  let paymentService: StubPaymentService;
 
   beforeAll(async () => {
     subRepo = new InMemorySubscriptionRepository();
@@ -107,6 +110,7 @@ describe('BillingService + RulesEngine integration (phase-2 wiring)', () => {
     }).compile();
 
     billingService = moduleRef.get(BillingService);
+    paymentService = moduleRef.get(PaymentService) as unknown as StubPaymentService;
   });
 
   afterAll(async () => {
@@ -131,6 +135,24 @@ describe('BillingService + RulesEngine integration (phase-2 wiring)', () => {
     expect(result.error).toMatch(/Billing blocked/i);
   });
 
+  it('should bill the discounted amount and snapshot the applied promotions', async () => {
+    const sub = new SubscriptionEntity('cust_z', 'pm_z', 'Pro', 1500, BillingCycle.MONTHLY);
+    sub.activate({ metadata: { paymentSuccessful: true } });
+    sub.applyPromotion('SPRING10', new Money(300, 'TWD'));
+    await subRepo.save(sub);
+
+    const pm = new PaymentMethodEntity(sub.customerId, PaymentMethodType.CREDIT_CARD, 'VISA');
+    (pm as any).isAvailable = () => true;
+    pmRepo.method = pm;
+
+    const result = await billingService.processSubscriptionBilling(sub.id!);
+
+    expect(result.success).toBe(true);
+    const created = paymentService.created[paymentService.created.length - 1];
+    expect(created.metadata.discounts).toEqual([{ promotionId: 'SPRING10', amount: 300 }]);
+    expect(created.amount).toBe(created.metadata.planAmount - 300);
+  });
+
   it('should enter retry state and set nextRetryDate on payment failure', async () => {
     // arrange: active subscription
     const sub = new SubscriptionEntity('cust_y', 'pm_y', 'Pro', 1500, BillingCycle.MONTHLY);
@@ -0,0 +1,327 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PromotionService } from '../promotion.service';
+import { SubscriptionService } from '../subscription.service';
+import { DateCalculationService } from '../date-calculation/date-calculation.service';
+import { ProrationEngine } from '../proration/proration.engine';
+import { PromotionRepository } from '../../../infra/repositories/promotion.repository';
+import { PromotionRedemptionRepository } from '../../../infra/repositories/promotion-redemption.repository';
+import { CouponCodeRepository } from '../../../infra/repositories/coupon-code.repository';
+import { SubscriptionRepository } from '../../../infra/repositories/subscription.repository';
+import { CouponCodeEntity } from '../../entities/coupon-code.entity';
+import { PromotionEntity } from '../../entities/promotion.entity';
+import { PromotionRedemptionEntity } from '../../entities/promotion-redemption.entity';
+import { SubscriptionEntity } from '../../entities/subscription.entity';
+import { BillingCycle, CouponCodeStatus, PromotionDuration, PromotionStatus } from '../../enums/codes.const';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 模擬儲存層的條件式累加：同一輪事件中只會有一個呼叫取得最後一個額度 */
+class InMemoryPromotionRepository {
+  private store = new Map<string, PromotionEntity>();
+  async save(entity: PromotionEntity) {
+    if (entity.isNew()) {
+      if (Array.from(this.store.values()).some((p) => p.code === entity.code)) return undefined;
+      entity.id = `promo_${this.store.size + 1}`;
+    }
+    this.store.set(entity.id, entity);
+    return entity;
+  }
+  async findByCode(code: string) {
+    return Array.from(this.store.values()).find((p) => p.code === code);
+  }
+  async findById(id: string) {
+    return this.store.get(id);
+  }
+  async findExistingCodes(codes: string[]) {
+    return codes.filter((code) => Array.from(this.store.values()).some((p) => p.code === code));
+  }
+  async recordRedemption(id: string, discountAmount: number, count = 1) {
+    const promotion = this.store.get(id);
+    const performance = (promotion.performance = promotion.performance || {});
+    performance.redemptionCount = (performance.redemptionCount || 0) + count;
+    performance.totalRevenueLoss = (performance.totalRevenueLoss || 0) + count * discountAmount;
+  }
+  async findAll(statuses?: PromotionStatus[]) {
+    return Array.from(this.store.values()).filter((p) => !statuses || statuses.includes(p.status));
+  }
+  async tryIncrementUsage(id: string) {
+    const promotion = this.store.get(id);
+    if (!promotion || promotion.status !== PromotionStatus.ACTIVE) return false;
+    if (promotion.usageLimit !== undefined && promotion.currentUsage >= promotion.usageLimit) return false;
+    promotion.currentUsage += 1;
+    return true;
+  }
+  async decrementUsage(id: string) {
+    const promotion = this.store.get(id);
+    if (promotion && promotion.currentUsage > 0) promotion.currentUsage -= 1;
+  }
+}
+
+/** 模擬 (promotionId, customerId, usageSlot) 唯一索引 */
+class InMemoryRedemptionRepository {
+  readonly store = new Map<string, PromotionRedemptionEntity>();
+  async insert(entity: PromotionRedemptionEntity) {
+    const taken = Array.from(this.store.values()).some(
+      (r) => entity.usageSlot !== undefined && r.promotionId === entity.promotionId && r.customerId === entity.customerId && r.usageSlot === entity.usageSlot,
+    );
+    if (taken) return undefined;
+    const saved = Object.assign(Object.create(PromotionRedemptionEntity.prototype), entity, { id: `red_${this.store.size + 1}` });
+    this.store.set(saved.id, saved);
+    return saved as PromotionRedemptionEntity;
+  }
+  async findById(id: string) {
+    return this.store.get(id);
+  }
+  async countByCustomer(promotionId: string, customerId: string) {
+    return Array.from(this.store.values()).filter((r) => r.promotionId === promotionId && r.customerId === customerId).length;
+  }
+  async findByPromotionId(promotionId: string) {
+    return Array.from(this.store.values()).filter((r) => r.promotionId === promotionId);
+  }
+  async delete(id: string) {
+    return this.store.delete(id);
+  }
+}
+
+/** 模擬券碼唯一索引與條件式兌換 */
+class InMemoryCouponCodeRepository {
+  readonly store = new Map<string, CouponCodeEntity>();
+  async insertMany(entities: CouponCodeEntity[]) {
+    const fresh = entities.filter((e) => !this.store.has(e.code));
+    fresh.forEach((e) => this.store.set(e.code, e));
+    return fresh.length;
+  }
+  async findByCode(code: string) {
+    return this.store.get(code);
+  }
+  async findByPromotionId(promotionId: string) {
+    return Array.from(this.store.values()).filter((c) => c.promotionId === promotionId);
+  }
+  async claim(code: string, customerId: string, subscriptionId: string) {
+    const coupon = this.store.get(code);
+    if (!coupon || coupon.status !== CouponCodeStatus.AVAILABLE) return undefined;
+    Object.assign(coupon, { status: CouponCodeStatus.REDEEMED, customerId, subscriptionId, redeemedAt: new Date() });
+    return coupon;
+  }
+  async release(code: string) {
+    Object.assign(this.store.get(code), { status: CouponCodeStatus.AVAILABLE, customerId: undefined, subscriptionId: undefined, redeemedAt: undefined });
+  }
+}
+
+/** 結帳前已建立的訂閱 */
+class InMemorySubscriptionRepository {
+  readonly store = new Map<string, SubscriptionEntity>();
+  seed(id: string, customerId: string) {
+    if (!this.store.has(id)) {
+      const subscription = new SubscriptionEntity(customerId, 'pm_1', 'Basic', 1000, BillingCycle.MONTHLY);
+      subscription.id = id;
+      this.store.set(id, subscription);
+    }
+    return this.store.get(id);
+  }
+  async findById(id: string) {
+    return this.store.get(id);
+  }
+  async save(entity: SubscriptionEntity) {
+    this.store.set(entity.id, entity);
+    return entity;
+  }
+}
+
+describe('PromotionService', () => {
+  let moduleRef: TestingModule;
+  let service: PromotionService;
+  let redemptions: InMemoryRedemptionRepository;
+  let subscriptions: InMemorySubscriptionRepository;
+
+  const create = (code: string, overrides: Partial<PromotionEntity> = {}) =>
+    service.createPromotion({
+      code,
+      name: code,
+      discount: { type: 'PERCENTAGE', value: 20, applicablePeriod: 'FIRST_BILLING' },
+      validFrom: new Date(Date.now() - DAY_MS),
+      validUntil: new Date(Date.now() + 30 * DAY_MS),
+      ...overrides,
+    });
+
+  const checkout = (code: string, customerId: string, subscriptionId: string) => {
+    subscriptions.seed(subscriptionId, customerId);
+    return service.validatePromotion({ code, productId: 'prod_basic_monthly', customerId, orderAmount: 1000, subscriptionId });
+  };
+
+  beforeEach(async () => {
+    redemptions = new InMemoryRedemptionRepository();
+    subscriptions = new InMemorySubscriptionRepository();
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        PromotionService,
+        SubscriptionService,
+        DateCalculationService,
+        ProrationEngine,
+        { provide: SubscriptionRepository, useValue: subscriptions },
+        { provide: PromotionRepository, useValue: new InMemoryPromotionRepository() },
+        { provide: PromotionRedemptionRepository, useValue: redemptions },
+        { provide: CouponCodeRepository, useValue: new InMemoryCouponCodeRepository() },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PromotionService);
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('rejects duplicate codes', async () => {
+    await create('SPRING');
+    await expect(create('SPRING')).rejects.toThrow('Promotion code SPRING already exists');
+  });
+
+  it('records a redemption on checkout without consuming usage on preview', async () => {
+    await create('SPRING', { usageLimit: 10 });
+
+    const preview = await service.validatePromotion({ code: 'SPRING', productId: 'prod_basic_monthly', customerId: 'cust_1', orderAmount: 1000 });
+    expect(preview).toMatchObject({ valid: true, discount: { calculatedAmount: 200 } });
+    expect((await service.getPromotion('SPRING')).currentUsage).toBe(0);
+
+    const result = await checkout('SPRING', 'cust_1', 'sub_1');
+    expect(result.valid).toBe(true);
+    expect(result.redemption).toMatchObject({ promotionCode: 'SPRING', customerId: 'cust_1', subscriptionId: 'sub_1', amount: 200, cycleNumber: 1 });
+    expect((await service.getPromotion('SPRING')).currentUsage).toBe(1);
+  });
+
+  it('previews the first stage of a staged discount and rejects invalid schedules', async () => {
+    const stages = [
+      { type: 'PERCENTAGE' as const, value: 50, cycles: 3 },
+      { type: 'PERCENTAGE' as const, value: 20, cycles: 6 },
+    ];
+    await create('STAGED', { discount: { type: 'PERCENTAGE', value: 50, applicablePeriod: 'RECURRING', stages } });
+
+    const preview = await service.validatePromotion({ code: 'STAGED', productId: 'prod_basic_monthly', customerId: 'cust_1', orderAmount: 1000 });
+    expect(preview.discount).toMatchObject({ calculatedAmount: 500, schedule: { stages, totalCycles: 9 } });
+    expect(await service.calculateDiscount('STAGED', 1000, 3)).toEqual({ discountAmount: 200, finalAmount: 800 });
+    expect(await service.calculateDiscount('STAGED', 1000, 9)).toEqual({ discountAmount: 0, finalAmount: 1000 });
+
+    await expect(create('REPEAT', { discount: { type: 'PERCENTAGE', value: 10, applicablePeriod: 'RECURRING', duration: PromotionDuration.REPEATING } })).rejects.toThrow(
+      'Invalid discount schedule',
+    );
+  });
+
+  it('applies the redeemed discount schedule to the subscription and advances it on renewal', async () => {
+    const stages = [
+      { type: 'PERCENTAGE' as const, value: 50, cycles: 1 },
+      { type: 'PERCENTAGE' as const, value: 20, cycles: 1 },
+    ];
+    await create('STAGED', { discount: { type: 'PERCENTAGE', value: 50, applicablePeriod: 'RECURRING', stages } });
+    const subscription = subscriptions.seed('sub_1', 'cust_1');
+    const subscriptionService = moduleRef.get(SubscriptionService);
+
+    expect((await checkout('STAGED', 'cust_1', 'sub_1')).valid).toBe(true);
+    expect(subscription.appliedPromotions).toEqual([
+      expect.objectContaining({ promotionId: 'STAGED', cycleNumber: subscription.currentPeriod.cycleNumber, status: 'ACTIVE', remainingCycles: 2 }),
+    ]);
+    expect(subscription.calculateCurrentPeriodAmount().amount).toBe(500);
+
+    await subscriptionService.recordSuccessfulBilling('sub_1');
+    expect(subscription.calculateCurrentPeriodAmount().amount).toBe(800);
+
+    await subscriptionService.recordSuccessfulBilling('sub_1');
+    expect(subscription.calculateCurrentPeriodAmount().amount).toBe(1000);
+    expect(subscription.appliedPromotions[0].status).toBe('EXPIRED');
+  });
+
+  it('rejects checkout against an unknown subscription and detaches the promotion when the redemption is released', async () => {
+    await create('SPRING', { usageLimit: 10 });
+
+    const unknown = await service.validatePromotion({ code: 'SPRING', productId: 'prod_basic_monthly', customerId: 'cust_1', subscriptionId: 'sub_missing' });
+    expect(unknown.eligibility.reasons).toEqual(['Subscription not found']);
+    expect((await service.getPromotion('SPRING')).currentUsage).toBe(0);
+
+    const result = await checkout('SPRING', 'cust_1', 'sub_1');
+    await service.releaseRedemption(result.redemption.id);
+
+    expect(subscriptions.store.get('sub_1').appliedPromotions).toEqual([expect.objectContaining({ promotionId: 'SPRING', status: 'CANCELLED' })]);
+  });
+
+  it('lets only one of two concurrent checkouts take the last coupon', async () => {
+    await create('LAST', { usageLimit: 1 });
+
+    const results = await Promise.all([checkout('LAST', 'cust_1', 'sub_1'), checkout('LAST', 'cust_2', 'sub_2')]);
+
+    expect(results.filter((r) => r.valid)).toHaveLength(1);
+    expect(results.find((r) => !r.valid).eligibility.reasons).toEqual(['Promotion usage limit reached']);
+    expect(redemptions.store.size).toBe(1);
+  });
+
+  it('enforces the per-customer limit across concurrent checkouts and releases usage', async () => {
+    await create('ONCE', { usageLimit: 10, conditions: { maxUsagePerCustomer: 1 } });
+
+    const results = await Promise.all([checkout('ONCE', 'cust_1', 'sub_1'), checkout('ONCE', 'cust_1', 'sub_2')]);
+    expect(results.filter((r) => r.valid)).toHaveLength(1);
+    expect(results.find((r) => !r.valid).eligibility.reasons).toEqual(['Customer usage limit reached']);
+    expect((await service.getPromotion('ONCE')).currentUsage).toBe(1);
+
+    const again = await service.validatePromotion({ code: 'ONCE', productId: 'prod_basic_monthly', customerId: 'cust_1' });
+    expect(again.eligibility.reasons).toContain('Customer usage limit reached');
+
+    expect(await service.releaseRedemption(results.find((r) => r.valid).redemption.id)).toBe(true);
+    expect((await service.getPromotion('ONCE')).currentUsage).toBe(0);
+    expect((await checkout('ONCE', 'cust_1', 'sub_3')).valid).toBe(true);
+  });
+
+  it('reuses the slot of a released redemption that is not the latest one', async () => {
+    await create('TWICE', { usageLimit: 10, conditions: { maxUsagePerCustomer: 2 } });
+
+    const first = await checkout('TWICE', 'cust_1', 'sub_1');
+    const second = await checkout('TWICE', 'cust_1', 'sub_2');
+    expect([first.redemption.usageSlot, second.redemption.usageSlot]).toEqual([1, 2]);
+
+    expect(await service.releaseRedemption(first.redemption.id)).toBe(true);
+    const again = await checkout('TWICE', 'cust_1', 'sub_3');
+
+    expect(again.valid).toBe(true);
+    expect(again.redemption.usageSlot).toBe(1);
+    expect((await checkout('TWICE', 'cust_1', 'sub_4')).eligibility.reasons).toContain('Customer usage limit reached');
+  });
+
+  it('blocks paused and archived promotions', async () => {
+    await create('PAUSE');
+
+    await service.pausePromotion('PAUSE');
+    expect((await checkout('PAUSE', 'cust_1', 'sub_1')).eligibility.reasons).toEqual(['Promotion is not active']);
+    expect((await service.getAvailablePromotions({ productId: 'prod_basic_monthly' })).promotions).toHaveLength(0);
+
+    await service.resumePromotion('PAUSE');
+    await service.archivePromotion('PAUSE');
+    await expect(service.updatePromotion('PAUSE', { name: 'Renamed' })).rejects.toThrow('Cannot update an archived promotion');
+    await expect(service.resumePromotion('PAUSE')).rejects.toThrow('Cannot transition promotion from ARCHIVED to ACTIVE');
+  });
+
+  it('redeems generated single-use codes once and attributes them to the parent promotion', async () => {
+    await create('PARTNER', { discount: { type: 'FIXED_AMOUNT', value: 150, applicablePeriod: 'FIRST_BILLING' } });
+
+    const batch = await service.generateCouponCodes('PARTNER', { count: 50, prefix: 'PTN-', length: 6 });
+    expect(batch).toMatchObject({ requested: 50, generated: 50 });
+
+    const [first, second] = await service.getCouponCodes('PARTNER');
+    expect(first.code).toMatch(/^PTN-[A-Z2-9]{6}$/);
+
+    const redeemed = await checkout(first.code.toLowerCase(), 'cust_1', 'sub_1');
+    expect(redeemed.valid).toBe(true);
+    expect(redeemed.promotion.code).toBe('PARTNER');
+    expect(redeemed.redemption).toMatchObject({ promotionCode: 'PARTNER', couponCode: first.code, amount: 150 });
+    expect(first).toMatchObject({ status: CouponCodeStatus.REDEEMED, customerId: 'cust_1' });
+
+    const reused = await checkout(first.code, 'cust_2', 'sub_2');
+    expect(reused.eligibility.reasons).toEqual(['Coupon code has already been used']);
+
+    await checkout(second.code, 'cust_2', 'sub_2');
+    const promotion = await service.getPromotion('PARTNER');
+    expect(promotion.currentUsage).toBe(2);
+    expect(promotion.performance).toEqual({ redemptionCount: 2, totalRevenueLoss: 300 });
+
+    await service.releaseRedemption(redeemed.redemption.id);
+    expect(first.status).toBe(CouponCodeStatus.AVAILABLE);
+    expect((await service.getPromotion('PARTNER')).performance).toEqual({ redemptionCount: 1, totalRevenueLoss: 150 });
+  });
+});
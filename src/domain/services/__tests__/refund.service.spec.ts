@@ -0,0 +1,230 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RefundService } from '../refund.service';
+import { PaymentGatewayManager } from '../payment/payment-gateway-manager.service';
+import { RefundRepository } from '../../../infra/repositories/refund.repository';
+import { PaymentRepository } from '../../../infra/repositories/payment.repository';
+import { SubscriptionRepository } from '../../../infra/repositories/subscription.repository';
+import { CustomerCreditService } from '../credits/customer-credit.service';
+import { PaymentEntity } from '../../entities';
+import { RefundEntity } from '../../entities/refund.entity';
+import { CreditSourceType, PaymentStatus, RefundMethod, RefundStatus, RefundType } from '../../enums/codes.const';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 以複本保存，模擬各請求自資料庫各自讀出的退款
+class InMemoryRefundRepository {
+  private store = new Map<string, RefundEntity>();
+  async save(entity: RefundEntity) {
+    if (!entity.id) entity.id = `ref_${this.store.size + 1}`;
+    this.store.set(entity.id, this.copy(entity));
+    return entity;
+  }
+  async transition(entity: RefundEntity, fromStatus: RefundStatus) {
+    if (this.store.get(entity.id)?.status !== fromStatus) return false;
+    this.store.set(entity.id, this.copy(entity));
+    return true;
+  }
+  async findById(id: string) {
+    const stored = this.store.get(id);
+    return stored && this.copy(stored);
+  }
+  async findByPaymentId(paymentId: string) {
+    return Array.from(this.store.values())
+      .filter((r) => r.paymentId === paymentId)
+      .map((r) => this.copy(r));
+  }
+  async findBySubscriptionId(subscriptionId: string) {
+    return Array.from(this.store.values())
+      .filter((r) => r.subscriptionId === subscriptionId)
+      .map((r) => this.copy(r));
+  }
+  private copy(entity: RefundEntity): RefundEntity {
+    return Object.assign(Object.create(RefundEntity.prototype), entity, { statusHistory: [...entity.statusHistory] });
+  }
+}
+
+class InMemoryPaymentRepository {
+  private store = new Map<string, PaymentEntity>();
+  async save(entity: PaymentEntity) {
+    this.store.set(entity.id, entity);
+    return entity;
+  }
+  async findById(id: string) {
+    return this.store.get(id);
+  }
+  async findBySubscriptionId(subscriptionId: string) {
+    return Array.from(this.store.values()).filter((p) => p.subscriptionId === subscriptionId);
+  }
+}
+
+describe('RefundService', () => {
+  let moduleRef: TestingModule;
+  let service: RefundService;
+  let payments: InMemoryPaymentRepository;
+  let gatewayRefund: jest.Mock;
+  let grantCredit: jest.Mock;
+  let payment: PaymentEntity;
+
+  const subscription = { id: 'sub_1', customerId: 'cust_1', productId: 'prod_basic_monthly', createdAt: new Date() };
+
+  beforeEach(async () => {
+    payments = new InMemoryPaymentRepository();
+    payment = new PaymentEntity('sub_1', 'cust_1', 'pm_1', 90000, new Date(), new Date(Date.now() + 30 * DAY_MS));
+    payment.id = 'pay_1';
+    payment.startAttempt();
+    payment.markSucceeded('ch_1');
+    payment.metadata = { gateway: 'ecpay' };
+    await payments.save(payment);
+
+    gatewayRefund = jest.fn(async (_gateway: string, paymentId: string, options: { amount: number }) => ({
+      success: true,
+      refundId: `gw_${options.amount}`,
+      paymentId,
+      status: RefundStatus.SUCCEEDED,
+      amount: options.amount,
+      currency: 'TWD',
+      gatewayResponse: {},
+    }));
+
+    grantCredit = jest.fn(async (command) => command);
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        RefundService,
+        { provide: RefundRepository, useValue: new InMemoryRefundRepository() },
+        { provide: PaymentRepository, useValue: payments },
+        { provide: SubscriptionRepository, useValue: { findById: jest.fn(async () => subscription) } },
+        { provide: PaymentGatewayManager, useValue: { getGateway: (name: string) => ({ getName: () => name }), processRefund: gatewayRefund } },
+        { provide: CustomerCreditService, useValue: { grantCredit } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(RefundService);
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('executes a refund within the full refund period through the charging gateway', async () => {
+    const { refund, eligible } = await service.requestRefund({ customerId: 'cust_1', paymentId: 'pay_1', reason: 'Accidental purchase' });
+
+    expect(eligible).toBe(true);
+    expect(gatewayRefund).toHaveBeenCalledWith('ecpay', 'ch_1', { amount: 90000, reason: 'Accidental purchase', metadata: { refundId: refund.id } });
+    expect(refund).toMatchObject({ status: RefundStatus.SUCCEEDED, refundType: RefundType.FULL, gateway: 'ecpay', providerRefundId: 'gw_90000' });
+    expect(refund.statusHistory.map((change) => change.status)).toEqual([RefundStatus.PENDING, RefundStatus.APPROVED, RefundStatus.PROCESSING, RefundStatus.SUCCEEDED]);
+
+    expect(payment.status).toBe(PaymentStatus.REFUNDED);
+    expect(payment.refunds).toHaveLength(1);
+    expect(payment.refunds[0]).toMatchObject({ refundId: refund.id, status: RefundStatus.SUCCEEDED, providerRefundId: 'gw_90000' });
+  });
+
+  it('accumulates partial refunds until the payment is fully refunded', async () => {
+    await service.requestRefund({ customerId: 'cust_1', paymentId: 'pay_1', amount: 30000, reason: 'Downtime' });
+    await service.requestRefund({ customerId: 'cust_1', paymentId: 'pay_1', amount: 30000, reason: 'Downtime' });
+    expect(payment.status).toBe(PaymentStatus.PARTIALLY_REFUNDED);
+
+    const { refund } = await service.requestRefund({ customerId: 'cust_1', subscriptionId: 'sub_1', reason: 'Cancel' });
+
+    expect(refund.amount).toBe(30000);
+    expect(payment.status).toBe(PaymentStatus.REFUNDED);
+    expect(payment.refundedAmount).toBe(90000);
+    await expect(service.requestRefund({ customerId: 'cust_1', paymentId: 'pay_1', amount: 1, reason: 'Again' })).rejects.toThrow('exceeds refundable balance');
+  });
+
+  it('waits for review after the full refund period and keeps gateway-pending refunds processing', async () => {
+    payment.paidAt = new Date(Date.now() - 10 * DAY_MS);
+    gatewayRefund.mockResolvedValueOnce({
+      success: true,
+      refundId: 'gw_manual',
+      paymentId: 'ch_1',
+      status: RefundStatus.PENDING,
+      amount: 20000,
+      currency: 'TWD',
+      gatewayResponse: {},
+    });
+
+    const requested = await service.requestRefund({ customerId: 'cust_1', paymentId: 'pay_1', amount: 20000, reason: 'Partial' });
+    expect(requested.refund.status).toBe(RefundStatus.PENDING);
+    expect(gatewayRefund).not.toHaveBeenCalled();
+
+    const processed = await service.processRefund(requested.refund.id, 'APPROVE', 'ok');
+    expect(processed.refund.status).toBe(RefundStatus.PROCESSING);
+    expect(payment.status).toBe(PaymentStatus.SUCCEEDED);
+
+    const completed = await service.completeRefund(requested.refund.id, { succeeded: true });
+    expect(completed.status).toBe(RefundStatus.SUCCEEDED);
+    expect(completed.providerRefundId).toBe('gw_manual');
+    expect(payment.status).toBe(PaymentStatus.PARTIALLY_REFUNDED);
+  });
+
+  it('marks gateway failures as failed and retries them on approval', async () => {
+    payment.paidAt = new Date(Date.now() - 10 * DAY_MS);
+    const { refund } = await service.requestRefund({ customerId: 'cust_1', paymentId: 'pay_1', reason: 'Duplicate charge' });
+    gatewayRefund.mockRejectedValueOnce(new Error('Gateway timeout'));
+
+    const failed = await service.processRefund(refund.id, 'APPROVE');
+    expect(failed.success).toBe(false);
+    expect(failed.refund).toMatchObject({ status: RefundStatus.FAILED, failureReason: 'Gateway timeout' });
+    expect(failed.refund.canRetry()).toBe(true);
+
+    const retried = await service.processRefund(refund.id, 'APPROVE');
+    expect(retried.refund.status).toBe(RefundStatus.SUCCEEDED);
+    expect(payment.status).toBe(PaymentStatus.REFUNDED);
+  });
+
+  it('reserves refunds awaiting review against the refundable balance', async () => {
+    payment.paidAt = new Date(Date.now() - 10 * DAY_MS);
+    const pending = await service.requestRefund({ customerId: 'cust_1', paymentId: 'pay_1', amount: 60000, reason: 'Partial' });
+    expect(pending.refund.status).toBe(RefundStatus.PENDING);
+
+    await expect(service.requestRefund({ customerId: 'cust_1', paymentId: 'pay_1', reason: 'Full' })).resolves.toMatchObject({ refund: { amount: 30000 } });
+    await expect(service.requestRefund({ customerId: 'cust_1', paymentId: 'pay_1', amount: 1, reason: 'Again' })).rejects.toThrow('exceeds refundable balance 0');
+    expect(gatewayRefund).not.toHaveBeenCalled();
+  });
+
+  it('re-checks the balance on approval and sends a racing approval to the gateway once', async () => {
+    payment.paidAt = new Date(Date.now() - 10 * DAY_MS);
+    const { refund } = await service.requestRefund({ customerId: 'cust_1', paymentId: 'pay_1', reason: 'Duplicate charge' });
+
+    const results = await Promise.allSettled([service.processRefund(refund.id, 'APPROVE'), service.processRefund(refund.id, 'APPROVE')]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(gatewayRefund).toHaveBeenCalledTimes(1);
+    expect(payment.refundedAmount).toBe(90000);
+  });
+
+  it('refuses to approve a refund once the payment was reversed by a chargeback', async () => {
+    payment.paidAt = new Date(Date.now() - 10 * DAY_MS);
+    const { refund } = await service.requestRefund({ customerId: 'cust_1', paymentId: 'pay_1', reason: 'Not received' });
+    await service.recordChargeback(payment, payment.getAmount(), { disputeId: 'dp_1', gateway: 'ecpay', reason: 'fraudulent' });
+
+    await expect(service.processRefund(refund.id, 'APPROVE')).rejects.toThrow('exceeds refundable balance 0');
+    expect(gatewayRefund).not.toHaveBeenCalled();
+  });
+
+  it('refunds to store credit without calling the gateway', async () => {
+    const { refund } = await service.requestRefund({ customerId: 'cust_1', paymentId: 'pay_1', amount: 40000, reason: 'Goodwill', refundMethod: RefundMethod.STORE_CREDIT });
+
+    expect(gatewayRefund).not.toHaveBeenCalled();
+    expect(grantCredit).toHaveBeenCalledWith(expect.objectContaining({ customerId: 'cust_1', source: { type: CreditSourceType.REFUND, id: refund.id }, reason: 'Goodwill' }));
+    expect(grantCredit.mock.calls[0][0].amount.amount).toBe(40000);
+    expect(refund).toMatchObject({ status: RefundStatus.SUCCEEDED, gateway: 'store_credit', refundMethod: RefundMethod.STORE_CREDIT });
+    expect(payment.status).toBe(PaymentStatus.PARTIALLY_REFUNDED);
+  });
+
+  it('cancels rejected and ineligible refunds without calling the gateway', async () => {
+    payment.paidAt = new Date(Date.now() - 10 * DAY_MS);
+    const { refund } = await service.requestRefund({ customerId: 'cust_1', paymentId: 'pay_1', reason: 'Changed mind' });
+    const rejected = await service.processRefund(refund.id, 'REJECT', 'Outside policy');
+    expect(rejected.refund.status).toBe(RefundStatus.CANCELED);
+    await expect(service.processRefund(refund.id, 'APPROVE')).rejects.toThrow('Cannot process refund in CANCELED status');
+
+    payment.paidAt = new Date(Date.now() - 40 * DAY_MS);
+    const expired = await service.requestRefund({ customerId: 'cust_1', paymentId: 'pay_1', reason: 'Late' });
+    expect(expired.eligible).toBe(false);
+    expect(expired.refund.status).toBe(RefundStatus.CANCELED);
+    expect(expired.reasons).toEqual(['Refund period expired (30 days limit)']);
+    expect(gatewayRefund).not.toHaveBeenCalled();
+  });
+});
@@ -2,6 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { SubscriptionService } from '../subscription.service';
 import { SubscriptionRepository } from '../../../infra/repositories/subscription.repository';
 import { DateCalculationService } from '../date-calculation/date-calculation.service';
+import { ProrationEngine } from '../proration/proration.engine';
 import { BillingCycle, SubscriptionStatus } from '../../entities';
 
 class InMemorySubscriptionRepository {
@@ -33,7 +34,7 @@ describe('SubscriptionService + DateCalculationService integration (phase-1)', (
 
   beforeAll(async () => {
     module = await Test.createTestingModule({
-      providers: [SubscriptionService, DateCalculationService, { provide: SubscriptionRepository, useClass: InMemorySubscriptionRepository }],
+      providers: [SubscriptionService, DateCalculationService, ProrationEngine, { provide: SubscriptionRepository, useClass: InMemorySubscriptionRepository }],
     }).compile();
 
     service = module.get(SubscriptionService);
@@ -29,6 +29,15 @@ export interface Account {
       email: boolean;
       sms: boolean;
       marketing: boolean;
+      /** 站內通知，未設定時視為開啟 */
+      inApp?: boolean;
+      /** 接收通知的 Webhook 網址 */
+      webhookUrl?: string;
+    };
+    /** 勿擾時段（帳戶時區的 HH:mm，可跨午夜） */
+    quietHours?: {
+      start: string;
+      end: string;
     };
     billingFrequency: 'monthly' | 'quarterly' | 'yearly';
   };
@@ -129,6 +138,10 @@ export class AccountService {
           sms: true,
           marketing: false,
         },
+        quietHours: {
+          start: '22:00',
+          end: '08:00',
+        },
         billingFrequency: 'yearly',
       },
       status: 'ACTIVE',
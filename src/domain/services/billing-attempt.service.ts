@@ -0,0 +1,156 @@
+import { Injectable } from '@nestjs/common';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { BillingAttemptEntity } from '../entities/billing-attempt.entity';
+import { PaymentEntity } from '../entities/payment.entity';
+import { BillingAttemptStatus, BillingAttemptType, PaymentFailureCategory } from '../enums/codes.const';
+import { Money } from '../value-objects/money';
+import { mapToAttemptFailureCategory } from '../utils/payment-failure.util';
+import { BillingAttemptRepository, BillingAttemptSearchCriteria } from '../../infra/repositories/billing-attempt.repository';
+
+/**
+ * 計費嘗試歷史查詢參數
+ */
+export interface BillingAttemptHistoryQuery {
+  status?: BillingAttemptStatus;
+  type?: BillingAttemptType;
+  startDate?: string;
+  endDate?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * 計費嘗試分頁查詢結果
+ */
+export interface BillingAttemptPage {
+  attempts: BillingAttemptEntity[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * 計費嘗試記錄服務
+ * 負責將每次扣款嘗試（排程、重試、手動）持久化並提供歷史查詢
+ */
+@Injectable()
+export class BillingAttemptService {
+  constructor(private readonly billingAttemptRepository: BillingAttemptRepository) {}
+
+  /**
+   * 開啟一次新的計費嘗試
+   * 若該支付仍有處理中的嘗試，會先將其取消以避免重疊
+   */
+  public async openAttempt(payment: PaymentEntity, type: BillingAttemptType): Promise<BillingAttemptEntity> {
+    const history = await this.billingAttemptRepository.findByPaymentId(payment.id);
+
+    for (const stale of history.filter((a) => a.status === BillingAttemptStatus.PROCESSING)) {
+      stale.cancel('Superseded by a new attempt');
+      await this.billingAttemptRepository.save(stale);
+    }
+
+    const attempt = new BillingAttemptEntity(
+      payment.subscriptionId,
+      payment.customerId,
+      payment.id,
+      payment.paymentMethodId,
+      new Money(payment.amount, payment.currency || 'TWD'),
+      payment.billingPeriodStart,
+      payment.billingPeriodEnd,
+      type,
+    );
+
+    attempt.attemptNumber = history.length + 1;
+    if (history.length > 0) {
+      attempt.isRetry = true;
+      attempt.originalAttemptId = history[0].id;
+    }
+    attempt.start();
+
+    return await this.billingAttemptRepository.save(attempt);
+  }
+
+  /**
+   * 以成功結果結束處理中的嘗試
+   */
+  public async completeAttempt(paymentId: string, externalTransactionId?: string): Promise<CustomDefinition.TNullable<BillingAttemptEntity>> {
+    const attempt = await this.billingAttemptRepository.findProcessingByPaymentId(paymentId);
+    if (!attempt) {
+      return undefined;
+    }
+
+    attempt.markSuccess({ externalTransactionId });
+    return await this.billingAttemptRepository.save(attempt);
+  }
+
+  /**
+   * 以失敗結果結束處理中的嘗試
+   */
+  public async failAttempt(
+    paymentId: string,
+    failure: { errorMessage?: string; errorCode?: string; category?: PaymentFailureCategory; isRetriable?: boolean },
+  ): Promise<CustomDefinition.TNullable<BillingAttemptEntity>> {
+    const attempt = await this.billingAttemptRepository.findProcessingByPaymentId(paymentId);
+    if (!attempt) {
+      return undefined;
+    }
+
+    const isRetriable = failure.isRetriable ?? failure.category !== PaymentFailureCategory.NON_RETRIABLE;
+    attempt.markFailure(failure.errorMessage || 'Payment failed', failure.errorCode, mapToAttemptFailureCategory(failure.category), isRetriable);
+    return await this.billingAttemptRepository.save(attempt);
+  }
+
+  /**
+   * 於成功的嘗試記錄撥款檔的閘道手續費與淨額
+   */
+  public async recordSettlementFees(
+    paymentId: string,
+    fees: Money,
+    settlement: { settlementBatchId: string; settlementDate: string; netAmount: number },
+  ): Promise<CustomDefinition.TNullable<BillingAttemptEntity>> {
+    const history = await this.billingAttemptRepository.findByPaymentId(paymentId);
+    const attempt = history.reverse().find((a) => a.status === BillingAttemptStatus.SUCCEEDED);
+    if (!attempt) {
+      return undefined;
+    }
+
+    attempt.setFees(fees);
+    attempt.addMetadata('settlement', settlement);
+    return await this.billingAttemptRepository.save(attempt);
+  }
+
+  /**
+   * 查詢訂閱的計費嘗試歷史
+   */
+  public async getSubscriptionAttempts(subscriptionId: string, query: BillingAttemptHistoryQuery = {}): Promise<BillingAttemptPage> {
+    return await this.search({ ...this.toCriteria(query), subscriptionId }, query);
+  }
+
+  /**
+   * 查詢支付的計費嘗試歷史
+   */
+  public async getPaymentAttempts(paymentId: string, query: BillingAttemptHistoryQuery = {}): Promise<BillingAttemptPage> {
+    return await this.search({ ...this.toCriteria(query), paymentId }, query);
+  }
+
+  private async search(criteria: BillingAttemptSearchCriteria, query: BillingAttemptHistoryQuery): Promise<BillingAttemptPage> {
+    const page = query.page && query.page > 0 ? query.page : 1;
+    const limit = query.limit && query.limit > 0 ? Math.min(query.limit, 100) : 20;
+
+    const [attempts, total] = await Promise.all([
+      this.billingAttemptRepository.searchAttempts(criteria, limit, (page - 1) * limit),
+      this.billingAttemptRepository.countSearchResults(criteria),
+    ]);
+
+    return { attempts, total, page, limit };
+  }
+
+  private toCriteria(query: BillingAttemptHistoryQuery): BillingAttemptSearchCriteria {
+    return {
+      status: query.status,
+      type: query.type,
+      from: query.startDate ? new Date(query.startDate) : undefined,
+      to: query.endDate ? new Date(query.endDate) : undefined,
+    };
+  }
+}
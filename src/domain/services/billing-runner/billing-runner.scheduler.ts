@@ -0,0 +1,45 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { ConfService } from '@myapp/conf';
+import { BillingRunnerService } from './billing-runner.service';
+import { BillingRunTrigger } from '../../enums/codes.const';
+
+/** 每日計費排程名稱 */
+export const DAILY_BILLING_JOB = 'daily-billing';
+
+/**
+ * 每日計費排程
+ * 依設定的 cron 表達式於應用內觸發 BillingRunnerService
+ */
+@Injectable()
+export class BillingRunnerScheduler implements OnApplicationBootstrap {
+  private readonly logger = new Logger(BillingRunnerScheduler.name);
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly billingRunner: BillingRunnerService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const { enabled, cron, timezone } = this.confService.getConf().billingRunner;
+    if (!enabled) {
+      this.logger.log('Daily billing scheduler is disabled');
+      return;
+    }
+
+    const job = new CronJob(cron, () => this.trigger(), null, false, timezone);
+    this.schedulerRegistry.addCronJob(DAILY_BILLING_JOB, job);
+    job.start();
+    this.logger.log(`Daily billing scheduled with "${cron}" (${timezone})`);
+  }
+
+  private async trigger(): Promise<void> {
+    try {
+      await this.billingRunner.run({ trigger: BillingRunTrigger.SCHEDULED });
+    } catch (error) {
+      this.logger.error(`Scheduled billing run crashed: ${error.message}`, error.stack);
+    }
+  }
+}
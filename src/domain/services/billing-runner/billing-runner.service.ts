@@ -0,0 +1,100 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { ConfService } from '@myapp/conf';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { BillingService } from '../billing.service';
+import { BillingRunEntity } from '../../entities/billing-run.entity';
+import { BillingRunTrigger } from '../../enums/codes.const';
+import { BillingRunRepository } from '../../../infra/repositories/billing-run.repository';
+import { JobLockRepository } from '../../../infra/repositories/job-lock.repository';
+
+/** 每日計費作業鎖名稱 */
+export const DAILY_BILLING_LOCK = 'daily-billing';
+
+/**
+ * 每日計費執行選項
+ */
+export interface BillingRunOptions {
+  /** 計費基準時間，預設為現在 */
+  asOf?: Date;
+  /** 觸發來源 */
+  trigger?: BillingRunTrigger;
+  /** 是否一併重試失敗支付，補跑時預設不執行 */
+  includeRetries?: boolean;
+}
+
+/**
+ * 每日計費執行服務
+ * 以游標分批處理到期訂閱、重試失敗支付，並透過作業鎖確保多實例下只有一個執行
+ */
+@Injectable()
+export class BillingRunnerService {
+  private readonly logger = new Logger(BillingRunnerService.name);
+  private readonly owner = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly billingService: BillingService,
+    private readonly billingRunRepository: BillingRunRepository,
+    private readonly jobLockRepository: JobLockRepository,
+  ) {}
+
+  /**
+   * 執行一次每日計費
+   * 無法取得作業鎖（其他實例執行中）時回傳 undefined
+   */
+  public async run(options: BillingRunOptions = {}): Promise<CustomDefinition.TNullable<BillingRunEntity>> {
+    const { batchSize, lockTtlMs } = this.confService.getConf().billingRunner;
+    const asOf = options.asOf || new Date();
+    const trigger = options.trigger || BillingRunTrigger.SCHEDULED;
+    const includeRetries = options.includeRetries ?? trigger !== BillingRunTrigger.BACKFILL;
+
+    const acquired = await this.jobLockRepository.tryAcquire(DAILY_BILLING_LOCK, this.owner, lockTtlMs);
+    if (!acquired) {
+      this.logger.warn(`Billing run skipped: lock ${DAILY_BILLING_LOCK} is held by another instance`);
+      return undefined;
+    }
+
+    const run = new BillingRunEntity(asOf, trigger, this.owner);
+    await this.billingRunRepository.save(run);
+    this.logger.log(`Billing run ${run.id} started (trigger=${trigger}, asOf=${asOf.toISOString()})`);
+
+    try {
+      let cursor: string | undefined;
+      while (true) {
+        const batch = await this.billingService.processDueBilling({ asOf, limit: batchSize, afterId: cursor });
+        // 以本批掃描的筆數（含略過的定期定額訂閱）判斷是否還有下一批
+        const scanned = batch.processed + batch.skipped;
+        if (scanned === 0) {
+          break;
+        }
+
+        run.recordBatch(batch, batch.lastSubscriptionId);
+        cursor = batch.lastSubscriptionId;
+        await this.billingRunRepository.save(run);
+
+        if (!(await this.jobLockRepository.renew(DAILY_BILLING_LOCK, this.owner, lockTtlMs))) {
+          throw new Error(`Lost lock ${DAILY_BILLING_LOCK} during billing run`);
+        }
+        if (scanned < batchSize) {
+          break;
+        }
+      }
+
+      if (includeRetries) {
+        run.recordRetries(await this.billingService.retryFailedPayments());
+      }
+      run.complete();
+    } catch (error) {
+      this.logger.error(`Billing run ${run.id} failed: ${error.message}`, error.stack);
+      run.fail(error.message);
+    } finally {
+      await this.billingRunRepository.save(run);
+      await this.jobLockRepository.release(DAILY_BILLING_LOCK, this.owner);
+    }
+
+    this.logger.log(`Billing run ${run.id} ${run.status}: billed ${run.billing.succeeded}/${run.billing.processed}, retried ${run.retries.succeeded}/${run.retries.processed}`);
+    return run;
+  }
+}
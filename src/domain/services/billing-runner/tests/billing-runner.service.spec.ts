@@ -0,0 +1,136 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfService } from '@myapp/conf';
+import { BillingRunnerService, DAILY_BILLING_LOCK } from '../billing-runner.service';
+import { BillingService } from '../../billing.service';
+import { BillingRunRepository } from '../../../../infra/repositories/billing-run.repository';
+import { JobLockRepository } from '../../../../infra/repositories/job-lock.repository';
+import { BillingRunEntity } from '../../../entities/billing-run.entity';
+import { BillingRunStatus, BillingRunTrigger } from '../../../enums/codes.const';
+
+class InMemoryJobLockRepository {
+  private locks = new Map<string, { owner: string; expiresAt: number }>();
+  async tryAcquire(name: string, owner: string, ttlMs: number) {
+    const lock = this.locks.get(name);
+    if (lock && lock.owner !== owner && lock.expiresAt > Date.now()) return false;
+    this.locks.set(name, { owner, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+  async renew(name: string, owner: string, ttlMs: number) {
+    const lock = this.locks.get(name);
+    if (!lock || lock.owner !== owner) return false;
+    lock.expiresAt = Date.now() + ttlMs;
+    return true;
+  }
+  async release(name: string, owner: string) {
+    if (this.locks.get(name)?.owner === owner) this.locks.delete(name);
+  }
+  holder(name: string) {
+    return this.locks.get(name)?.owner;
+  }
+}
+
+class InMemoryBillingRunRepository {
+  public saved: BillingRunEntity[] = [];
+  async save(entity: BillingRunEntity) {
+    if (!entity.id) {
+      entity.id = `run_${this.saved.length + 1}`;
+      this.saved.push(entity);
+    }
+    return entity;
+  }
+}
+
+describe('BillingRunnerService', () => {
+  let moduleRef: TestingModule;
+  let runner: BillingRunnerService;
+  let locks: InMemoryJobLockRepository;
+  let runs: InMemoryBillingRunRepository;
+  let billingService: { processDueBilling: jest.Mock; retryFailedPayments: jest.Mock };
+
+  const batchSize = 2;
+
+  beforeEach(async () => {
+    locks = new InMemoryJobLockRepository();
+    runs = new InMemoryBillingRunRepository();
+    billingService = {
+      processDueBilling: jest.fn(),
+      retryFailedPayments: jest.fn(async () => ({ processed: 1, succeeded: 1, failed: 0 })),
+    };
+
+    const confStub = {
+      getConf: () => ({ billingRunner: { enabled: false, cron: '0 0 2 * * *', timezone: 'Asia/Taipei', batchSize, lockTtlMs: 60_000 } }),
+    } as unknown as ConfService;
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        BillingRunnerService,
+        { provide: ConfService, useValue: confStub },
+        { provide: BillingService, useValue: billingService },
+        { provide: BillingRunRepository, useValue: runs },
+        { provide: JobLockRepository, useValue: locks },
+      ],
+    }).compile();
+
+    runner = moduleRef.get(BillingRunnerService);
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('walks due subscriptions with a cursor and writes a run summary', async () => {
+    billingService.processDueBilling
+      .mockResolvedValueOnce({ processed: 2, succeeded: 2, failed: 0, skipped: 0, errors: [], lastSubscriptionId: 'sub_2' })
+      .mockResolvedValueOnce({ processed: 1, succeeded: 0, failed: 1, skipped: 0, errors: [{ subscriptionId: 'sub_3', error: 'Card declined' }], lastSubscriptionId: 'sub_3' });
+
+    const asOf = new Date('2024-01-31T18:00:00Z');
+    const run = await runner.run({ asOf });
+
+    expect(billingService.processDueBilling).toHaveBeenNthCalledWith(1, { asOf, limit: batchSize, afterId: undefined });
+    expect(billingService.processDueBilling).toHaveBeenNthCalledWith(2, { asOf, limit: batchSize, afterId: 'sub_2' });
+    expect(run?.status).toBe(BillingRunStatus.COMPLETED);
+    expect(run?.batches).toBe(2);
+    expect(run?.lastCursor).toBe('sub_3');
+    expect(run?.billing).toEqual({ processed: 3, succeeded: 2, failed: 1 });
+    expect(run?.errors).toHaveLength(1);
+    expect(run?.retries).toEqual({ processed: 1, succeeded: 1, failed: 0 });
+    expect(runs.saved).toHaveLength(1);
+    expect(locks.holder(DAILY_BILLING_LOCK)).toBeUndefined();
+  });
+
+  it('keeps paging past a batch made up of subscriptions billed by gateway period orders', async () => {
+    billingService.processDueBilling
+      .mockResolvedValueOnce({ processed: 0, succeeded: 0, failed: 0, skipped: 2, errors: [], lastSubscriptionId: 'sub_2' })
+      .mockResolvedValueOnce({ processed: 1, succeeded: 1, failed: 0, skipped: 0, errors: [], lastSubscriptionId: 'sub_3' });
+
+    const asOf = new Date('2024-01-31T18:00:00Z');
+    const run = await runner.run({ asOf });
+
+    expect(billingService.processDueBilling).toHaveBeenNthCalledWith(2, { asOf, limit: batchSize, afterId: 'sub_2' });
+    expect(run?.lastCursor).toBe('sub_3');
+    expect(run?.billing).toEqual({ processed: 1, succeeded: 1, failed: 0 });
+  });
+
+  it('skips the run when another instance holds the lock', async () => {
+    await locks.tryAcquire(DAILY_BILLING_LOCK, 'other-instance', 60_000);
+
+    const run = await runner.run();
+
+    expect(run).toBeUndefined();
+    expect(billingService.processDueBilling).not.toHaveBeenCalled();
+    expect(runs.saved).toHaveLength(0);
+    expect(locks.holder(DAILY_BILLING_LOCK)).toBe('other-instance');
+  });
+
+  it('does not retry failed payments on backfill and records failures', async () => {
+    billingService.processDueBilling.mockRejectedValueOnce(new Error('Mongo unavailable'));
+
+    const run = await runner.run({ asOf: new Date('2024-01-15T23:59:59Z'), trigger: BillingRunTrigger.BACKFILL });
+
+    expect(run?.trigger).toBe(BillingRunTrigger.BACKFILL);
+    expect(run?.status).toBe(BillingRunStatus.FAILED);
+    expect(run?.failureReason).toBe('Mongo unavailable');
+    expect(billingService.retryFailedPayments).not.toHaveBeenCalled();
+    expect(locks.holder(DAILY_BILLING_LOCK)).toBeUndefined();
+  });
+});
@@ -1,4 +1,4 @@
-import { Injectable, Inject, forwardRef } from '@nestjs/common';
+import { Injectable, Inject, Optional, forwardRef } from '@nestjs/common';
 import { SubscriptionEntity } from '../entities';
 import { PaymentEntity } from '../entities';
 import { SubscriptionRepository } from '../../infra/repositories/subscription.repository';
@@ -8,8 +8,12 @@ import { CustomDefinition } from '@xxxhand/app-common';
 import { BillingRulesEngine } from './rules-engine/billing-rules.engine';
 import { RetryStrategyEngine } from './rules-engine/retry-strategy.engine';
 import { PaymentMethodRepository } from '../../infra/repositories/payment-method.repository';
+import { UsageService } from './usage/usage.service';
+import { CustomerCreditService } from './credits/customer-credit.service';
+import { DunningService } from './dunning/dunning.service';
 import { Money } from '../value-objects/money';
-import { PaymentFailureCategory, SubscriptionStatus } from '../enums/codes.const';
+import { BillingAttemptType, PaymentFailureCategory, SubscriptionStatus } from '../enums/codes.const';
+import { isBilledByPeriodOrder } from './period-billing/period-billing.service';
 
 /**
  * 計費處理服務
@@ -24,6 +28,9 @@ export class BillingService {
     private readonly billingRulesEngine: BillingRulesEngine,
     private readonly retryStrategyEngine: RetryStrategyEngine,
     private readonly paymentMethodRepository: PaymentMethodRepository,
+    @Optional() private readonly usageService?: UsageService,
+    @Optional() private readonly customerCreditService?: CustomerCreditService,
+    @Optional() @Inject(forwardRef(() => DunningService)) private readonly dunningService?: DunningService,
   ) {}
 
   /**
@@ -71,7 +78,24 @@ export class BillingService {
         };
       }
 
-      const amountToBill: Money = billingDecision.recommendedAmount || subscription.pricing.baseAmount;
+      let amountToBill: Money = billingDecision.recommendedAmount || subscription.pricing.baseAmount;
+      const planAmount = amountToBill;
+
+      // 依排程折抵當期生效的優惠，折抵後不低於 0
+      const discounts: Array<{ promotionId: string; amount: number }> = [];
+      for (const promotion of subscription.appliedPromotions.filter((p) => p.status === 'ACTIVE')) {
+        const discount = Money.min(subscription.calculatePromotionDiscount(promotion), amountToBill);
+        if (discount.isPositive()) {
+          discounts.push({ promotionId: promotion.promotionId, amount: discount.amount });
+          amountToBill = amountToBill.subtract(discount);
+        }
+      }
+
+      // 期末加計當期用量的超額費用
+      const usageCharges = await this.usageService?.calculatePeriodCharges(subscription);
+      if (usageCharges?.total.isPositive()) {
+        amountToBill = amountToBill.add(usageCharges.total);
+      }
 
       // 檢查是否有有效的支付方式
       if (!subscription.paymentMethodId) {
@@ -81,6 +105,23 @@ export class BillingService {
         };
       }
 
+      // 扣款前先以客戶抵用金折抵
+      const balance = await this.customerCreditService?.getBalance(subscription.customerId, amountToBill.currency);
+      const credit = balance ? Money.min(balance, amountToBill) : Money.zero(amountToBill.currency);
+      amountToBill = amountToBill.subtract(credit);
+
+      // 記錄本期計費內容的快照，發票依此開立而不受之後訂閱變動影響
+      const metadata: Record<string, any> = { planId: subscription.planId, planName: subscription.planName, planAmount: planAmount.amount };
+      if (discounts.length) {
+        metadata.discounts = discounts;
+      }
+      if (usageCharges?.charges.length) {
+        metadata.usageCharges = usageCharges.charges;
+      }
+      if (credit.isPositive()) {
+        metadata.creditApplied = credit.amount;
+      }
+
       // 創建支付記錄
       const payment = await this.paymentService.createPayment(
         subscription.id,
@@ -89,10 +130,23 @@ export class BillingService {
         amountToBill.amount,
         amountToBill.currency,
         `Subscription billing for period ${subscription.currentPeriodStart.toISOString()} to ${subscription.currentPeriodEnd.toISOString()}`,
+        metadata,
       );
+      if (credit.isPositive()) {
+        try {
+          await this.customerCreditService.drawCredit(subscription.customerId, credit, payment.id);
+        } catch (error) {
+          // 餘額在建立付款期間被使用，取消本次付款由下次計費重新計算
+          await this.paymentService.cancelPayment(payment.id);
+          throw error;
+        }
+      }
 
-      // 啟動支付處理
-      await this.paymentService.startPaymentAttempt(payment.id);
+      // 啟動支付處理；抵用後無應付金額時直接視為成功
+      await this.paymentService.startPaymentAttempt(payment.id, BillingAttemptType.SCHEDULED);
+      if (amountToBill.isZero()) {
+        await this.paymentService.markPaymentSucceeded(payment.id);
+      }
 
       return {
         success: true,
@@ -137,6 +191,11 @@ export class BillingService {
           reason: 'First paid billing after trial',
         });
       }
+      // 方案變更的差額扣款不推進計費週期
+      if (payment.metadata?.prorationOnly) {
+        await this.subscriptionRepository.save(subscription);
+        return;
+      }
       // 統一由 SubscriptionService 處理成功扣款後的週期推進與日期計算
       await this.subscriptionService.recordSuccessfulBilling(subscription.id);
     }
@@ -156,6 +215,13 @@ export class BillingService {
       // 1) 訂閱失敗記錄（先維持原有記數）
       subscription.recordFailedBilling();
 
+      // 啟用催收時由催收活動接手重試、通知與最終處置
+      if (this.dunningService) {
+        await this.subscriptionRepository.save(subscription);
+        await this.dunningService.handlePaymentFailure(subscription, payment);
+        return;
+      }
+
       // 2) 查詢此訂閱近期嘗試與失敗類別（暫以 RETRIABLE 類別估置，實務上應由支付流程提供）
       const failedPayments = await this.paymentService.getPaymentsBySubscriptionId(subscription.id);
       const totalFailures = failedPayments.filter((p) => p.isFailed()).length;
@@ -200,6 +266,10 @@ export class BillingService {
           reason: 'Payment failed, marked past due',
           metadata: { paymentFailed: true },
         });
+        // 不再重試，退回本次付款折抵的抵用金
+        if (payment.metadata?.creditApplied) {
+          await this.customerCreditService?.releaseDrawnCredit(payment.id, 'Payment failed without retry');
+        }
       }
 
       await this.subscriptionRepository.save(subscription);
@@ -209,28 +279,36 @@ export class BillingService {
   /**
    * 獲取需要計費的訂閱
    */
-  public async getSubscriptionsDueForBilling(limit: number = 100): Promise<SubscriptionEntity[]> {
-    const now = new Date();
-    const startDate = new Date(now.getTime() - 24 * 60 * 60 * 1000); // 前一天
-    return await this.subscriptionRepository.findDueForBilling(startDate, now, limit);
+  public async getSubscriptionsDueForBilling(limit: number = 100, asOf: Date = new Date(), afterId?: string): Promise<SubscriptionEntity[]> {
+    const startDate = new Date(asOf.getTime() - 24 * 60 * 60 * 1000); // 前一天
+    return await this.subscriptionRepository.findDueForBilling(startDate, asOf, limit, afterId);
   }
 
   /**
    * 批量處理到期計費
+   * 可指定基準時間與游標（上一批最後的訂閱 ID）分批處理；由閘道定期定額扣款的訂閱不計費，計入 skipped
    */
-  public async processDueBilling(): Promise<{
+  public async processDueBilling(options: { asOf?: Date; limit?: number; afterId?: string } = {}): Promise<{
     processed: number;
     succeeded: number;
     failed: number;
+    skipped: number;
     errors: Array<{ subscriptionId: string; error: string }>;
+    lastSubscriptionId?: string;
   }> {
-    const dueSubscriptions = await this.getSubscriptionsDueForBilling();
+    const dueSubscriptions = await this.getSubscriptionsDueForBilling(options.limit, options.asOf, options.afterId);
     let processed = 0;
     let succeeded = 0;
     let failed = 0;
+    let skipped = 0;
     const errors: Array<{ subscriptionId: string; error: string }> = [];
 
     for (const subscription of dueSubscriptions) {
+      // 由閘道定期定額扣款，依閘道通知推進期間
+      if (isBilledByPeriodOrder(subscription)) {
+        skipped++;
+        continue;
+      }
       try {
         const result = await this.processSubscriptionBilling(subscription.id);
 
@@ -253,7 +331,8 @@ export class BillingService {
       processed++;
     }
 
-    return { processed, succeeded, failed, errors };
+    const lastSubscriptionId = dueSubscriptions.length > 0 ? dueSubscriptions[dueSubscriptions.length - 1].id : undefined;
+    return { processed, succeeded, failed, skipped, errors, lastSubscriptionId };
   }
 
   /**
@@ -302,7 +381,7 @@ export class BillingService {
 
     for (const payment of retryPayments) {
       try {
-        await this.paymentService.startPaymentAttempt(payment.id);
+        await this.paymentService.startPaymentAttempt(payment.id, BillingAttemptType.AUTO_RETRY);
         succeeded++;
       } catch (error) {
         console.error(`Failed to retry payment ${payment.id}:`, error);
@@ -0,0 +1,416 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { ConfService } from '@myapp/conf';
+import { CustomDefinition, CustomValidator } from '@xxxhand/app-common';
+import { CheckoutSessionRepository } from '../../../infra/repositories/checkout-session.repository';
+import { PaymentMethodRepository } from '../../../infra/repositories/payment-method.repository';
+import { SubscriptionRepository } from '../../../infra/repositories/subscription.repository';
+import { PaymentGatewayManager } from '../payment/payment-gateway-manager.service';
+import { PaymentProcessingService } from '../payment-processing.service';
+import { PaymentService } from '../payment.service';
+import { CustomerService } from '../customer.service';
+import { SubscriptionService } from '../subscription.service';
+import { CheckoutSessionEntity, PaymentEntity, PaymentMethodEntity } from '../../entities';
+import { ECPayCallbackParams } from '../../interfaces/payment/ecpay.interface';
+import { PaymentMethodAttachOptions } from '../../interfaces/payment/payment-gateway.interface';
+import { Money } from '../../value-objects/money';
+import { BillingAttemptType, CheckoutSessionMode, CheckoutSessionStatus, PaymentMethodType, PaymentStatus, SubscriptionStatus } from '../../enums/codes.const';
+
+/** 可重新扣款的付款狀態 */
+const RETRYABLE_PAYMENT_STATUSES = [PaymentStatus.FAILED, PaymentStatus.RETRYING];
+
+/**
+ * 建立結帳工作階段參數
+ */
+export interface CreateCheckoutSessionParams {
+  customerId: string;
+  /** 更新支付方式的訂閱，未提供時為新訂閱 */
+  subscriptionId?: string;
+  /** 指定重新扣款的付款，未提供時取訂閱最近一筆失敗的付款 */
+  paymentId?: string;
+  /** 綁定支付方式的閘道，未提供時使用預設閘道 */
+  gateway?: string;
+  /** 新訂閱於閘道付款頁收取的首期金額 */
+  amount?: number;
+  currency?: string;
+  successUrl?: string;
+  cancelUrl?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * 建立結果，token 只在此時回傳一次
+ */
+export interface CheckoutSessionCreated {
+  session: CheckoutSessionEntity;
+  token: string;
+  url: string;
+}
+
+/**
+ * 以 token 開啟的工作階段；需導向閘道付款頁時附上表單
+ */
+export interface ResolvedCheckoutSession {
+  session: CheckoutSessionEntity;
+  redirect?: {
+    actionUrl: string;
+    method: string;
+    formParams: Record<string, any>;
+  };
+}
+
+/**
+ * 客戶送出的支付方式
+ */
+export interface CompleteCheckoutSessionParams {
+  paymentMethodType?: PaymentMethodType;
+  /** 支付方式名稱 */
+  name?: string;
+  /** 閘道前端元件產生的卡片 token */
+  token?: string;
+  card?: PaymentMethodAttachOptions['card'];
+}
+
+/**
+ * 綁定結果
+ */
+interface BoundPaymentMethod {
+  externalId?: string;
+  brand?: string;
+  lastFourDigits?: string;
+  expiryMonth?: number;
+  expiryYear?: number;
+}
+
+/**
+ * 結帳工作階段服務
+ * 產生一次性網址讓客戶自行綁定支付方式：完成時經閘道綁定、設為預設並更新訂閱，
+ * 有未結清的付款時立即以新支付方式重新扣款；ECPay 由客戶在綠界付款頁完成，依回傳結果處理
+ */
+@Injectable()
+export class CheckoutSessionService {
+  private readonly logger = new Logger(CheckoutSessionService.name);
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly checkoutSessionRepository: CheckoutSessionRepository,
+    private readonly paymentMethodRepository: PaymentMethodRepository,
+    private readonly subscriptionRepository: SubscriptionRepository,
+    private readonly gatewayManager: PaymentGatewayManager,
+    private readonly paymentProcessingService: PaymentProcessingService,
+    private readonly paymentService: PaymentService,
+    private readonly customerService: CustomerService,
+    private readonly subscriptionService: SubscriptionService,
+  ) {}
+
+  /**
+   * 建立結帳工作階段
+   */
+  public async createSession(params: CreateCheckoutSessionParams, at: Date = new Date()): Promise<CheckoutSessionCreated> {
+    if (!CustomValidator.nonEmptyString(params.customerId)) {
+      throw new Error('Customer ID is required');
+    }
+
+    let payment: PaymentEntity | undefined;
+    if (params.subscriptionId) {
+      const subscription = await this.subscriptionRepository.findById(params.subscriptionId);
+      if (!subscription || subscription.customerId !== params.customerId) {
+        throw new Error(`Subscription with ID ${params.subscriptionId} not found`);
+      }
+      if (subscription.isTerminated() || subscription.status === SubscriptionStatus.CANCELED) {
+        throw new Error('Cannot update payment method of an ended subscription');
+      }
+      payment = await this.findOutstandingPayment(params.subscriptionId, params.paymentId);
+    }
+
+    const gateway = params.gateway || this.gatewayManager.getGateway().getName();
+    // 確認閘道存在且啟用
+    this.gatewayManager.getGateway(gateway);
+
+    const { ttlMinutes, pageUrl } = this.confService.getConf().checkoutSessions;
+    const token = crypto.randomBytes(32).toString('base64url');
+    const mode = params.subscriptionId ? CheckoutSessionMode.PAYMENT_METHOD_UPDATE : CheckoutSessionMode.SIGNUP;
+    const session = new CheckoutSessionEntity(params.customerId, mode, gateway, this.hashToken(token), new Date(at.getTime() + ttlMinutes * 60 * 1000));
+    session.subscriptionId = params.subscriptionId;
+    session.paymentId = payment?.id;
+    session.amount = payment ? payment.amount : params.amount;
+    session.currency = payment?.currency || params.currency || 'TWD';
+    session.successUrl = params.successUrl;
+    session.cancelUrl = params.cancelUrl;
+    session.metadata = params.metadata || {};
+    await this.checkoutSessionRepository.save(session);
+
+    this.logger.log(`Checkout session ${session.id} created for customer ${session.customerId} (${mode}, ${gateway})`);
+    return { session, token, url: `${pageUrl}?token=${encodeURIComponent(token)}` };
+  }
+
+  /**
+   * 以 token 開啟工作階段
+   * ECPay 工作階段會建立綠界付款表單，客戶付款後由回傳結果完成
+   */
+  public async resolveSession(token: string, at: Date = new Date()): Promise<ResolvedCheckoutSession> {
+    const session = await this.findOpenByToken(token, at);
+    if (session.gateway !== 'ecpay') {
+      return { session };
+    }
+
+    if (!(session.amount > 0)) {
+      throw new Error('Checkout session has no amount to charge');
+    }
+
+    const result = await this.gatewayManager.processPayment('ecpay', {
+      customerId: session.customerId,
+      amount: session.amount,
+      currency: session.currency,
+      paymentMethodType: 'credit_card',
+      description: session.subscriptionId ? 'Subscription payment method update' : 'Subscription signup',
+      returnUrl: this.confService.getConf().checkoutSessions.ecpayOrderResultUrl,
+      cancelUrl: session.cancelUrl,
+      metadata: { checkoutSessionId: session.id },
+    });
+    if (!result.success) {
+      throw new Error(`Failed to create gateway payment page: ${result.errorMessage}`);
+    }
+
+    session.addGatewayTrade(result.paymentId);
+    await this.checkoutSessionRepository.save(session);
+
+    return {
+      session,
+      redirect: {
+        actionUrl: result.gatewayResponse.actionUrl,
+        method: result.gatewayResponse.method,
+        formParams: result.gatewayResponse.formParams,
+      },
+    };
+  }
+
+  /**
+   * 完成工作階段：經閘道綁定客戶送出的支付方式並立即重新扣款
+   * 綁定失敗時工作階段維持開啟，客戶可改用其他卡片重試
+   */
+  public async completeSession(token: string, params: CompleteCheckoutSessionParams, at: Date = new Date()): Promise<CheckoutSessionEntity> {
+    const session = await this.findOpenByToken(token, at);
+    if (session.gateway === 'ecpay') {
+      throw new Error('Checkout session must be completed on the gateway payment page');
+    }
+
+    const { leaseMs } = this.confService.getConf().checkoutSessions;
+    if (!(await this.checkoutSessionRepository.claim(session, new Date(at.getTime() + leaseMs), at))) {
+      throw new Error('Checkout session is already being completed');
+    }
+
+    try {
+      const attached = await this.gatewayManager.attachPaymentMethod(session.gateway, {
+        customerId: session.customerId,
+        paymentMethodType: params.paymentMethodType,
+        token: params.token,
+        card: params.card,
+        metadata: session.metadata,
+      });
+      if (!attached.success) {
+        throw new Error(`Failed to attach payment method: ${attached.errorMessage || attached.errorCode}`);
+      }
+
+      const paymentMethod = await this.bindPaymentMethod(session, params.paymentMethodType || PaymentMethodType.CREDIT_CARD, attached, params.name);
+      const paymentStatus = await this.retryOutstandingPayment(session, paymentMethod);
+
+      session.complete(paymentMethod.id, paymentStatus, at);
+      await this.checkoutSessionRepository.save(session);
+      this.logger.log(`Checkout session ${session.id} completed with payment method ${paymentMethod.id}`);
+      return session;
+    } catch (error) {
+      session.recordFailure(error.message);
+      await this.checkoutSessionRepository.save(session);
+      throw error;
+    }
+  }
+
+  /**
+   * 處理 ECPay 付款結果（ReturnURL 伺服器通知與 OrderResultURL 導回皆會呼叫，重複呼叫不會重複處理）
+   * 非結帳工作階段建立的交易回傳 undefined
+   */
+  public async handleECPayResult(params: ECPayCallbackParams, at: Date = new Date()): Promise<CustomDefinition.TNullable<CheckoutSessionEntity>> {
+    const session = await this.checkoutSessionRepository.findByGatewayTradeNo(params.MerchantTradeNo);
+    if (!session || session.status === CheckoutSessionStatus.COMPLETED) {
+      return session;
+    }
+
+    if (Number(params.RtnCode) !== 1) {
+      session.recordFailure(params.RtnMsg || `ECPay RtnCode ${params.RtnCode}`);
+      await this.checkoutSessionRepository.save(session);
+      return session;
+    }
+
+    const { leaseMs } = this.confService.getConf().checkoutSessions;
+    if (!(await this.checkoutSessionRepository.claim(session, new Date(at.getTime() + leaseMs), at))) {
+      this.logger.warn(`ECPay result for checkout session ${session.id} skipped: session is not open or already being completed`);
+      return session;
+    }
+
+    try {
+      // 綠界付款即為本次扣款，交易編號作為支付方式在閘道端的識別
+      const paymentMethod = await this.bindPaymentMethod(session, PaymentMethodType.CREDIT_CARD, { externalId: params.TradeNo });
+
+      let paymentStatus: string | undefined;
+      if (session.paymentId) {
+        const payment = await this.paymentService.getPaymentById(session.paymentId);
+        if (payment && RETRYABLE_PAYMENT_STATUSES.includes(payment.status)) {
+          await this.paymentService.retryFailedPayment(session.paymentId, BillingAttemptType.MANUAL_RETRY, paymentMethod.id);
+          await this.paymentService.markPaymentSucceeded(session.paymentId, params.TradeNo, 'ecpay');
+          paymentStatus = PaymentStatus.SUCCEEDED;
+        } else {
+          this.logger.warn(`Payment ${session.paymentId} was settled before ECPay trade ${params.TradeNo}, charge needs manual review`);
+          paymentStatus = payment?.status;
+        }
+      }
+
+      session.complete(paymentMethod.id, paymentStatus, at);
+      await this.checkoutSessionRepository.save(session);
+      this.logger.log(`Checkout session ${session.id} completed by ECPay trade ${params.TradeNo}`);
+      return session;
+    } catch (error) {
+      session.recordFailure(error.message);
+      await this.checkoutSessionRepository.save(session);
+      throw error;
+    }
+  }
+
+  /**
+   * 閘道付款頁導回時的目的網址：付款成功導向 successUrl，否則導向 cancelUrl，未設定時回到託管付款頁
+   */
+  public getReturnUrl(session: CheckoutSessionEntity | undefined, succeeded: boolean): string {
+    const target = succeeded ? session?.successUrl : session?.cancelUrl;
+    if (target) {
+      return target;
+    }
+
+    const { pageUrl } = this.confService.getConf().checkoutSessions;
+    return session ? `${pageUrl}?sessionId=${session.id}&status=${session.status}` : pageUrl;
+  }
+
+  /**
+   * 取得工作階段
+   */
+  public async getSession(sessionId: string): Promise<CustomDefinition.TNullable<CheckoutSessionEntity>> {
+    return this.checkoutSessionRepository.findById(sessionId);
+  }
+
+  /**
+   * 取消開啟中的工作階段，token 立即失效
+   */
+  public async cancelSession(sessionId: string): Promise<CheckoutSessionEntity> {
+    const session = await this.checkoutSessionRepository.findById(sessionId);
+    if (!session) {
+      throw new Error(`Checkout session with ID ${sessionId} not found`);
+    }
+    if (session.status !== CheckoutSessionStatus.OPEN) {
+      throw new Error('Invalid checkout session');
+    }
+
+    session.cancel();
+    await this.checkoutSessionRepository.save(session);
+    return session;
+  }
+
+  /**
+   * 以 token 查找仍可完成的工作階段，已過期的順便標記
+   */
+  private async findOpenByToken(token: string, at: Date): Promise<CheckoutSessionEntity> {
+    const session = CustomValidator.nonEmptyString(token) ? await this.checkoutSessionRepository.findByTokenHash(this.hashToken(token)) : undefined;
+    if (session?.hasExpired(at)) {
+      session.expire();
+      await this.checkoutSessionRepository.save(session);
+    }
+    if (!session?.isOpen(at)) {
+      throw new Error('Invalid checkout session');
+    }
+    return session;
+  }
+
+  /**
+   * 訂閱待重新扣款的付款
+   */
+  private async findOutstandingPayment(subscriptionId: string, paymentId?: string): Promise<PaymentEntity | undefined> {
+    if (paymentId) {
+      const payment = await this.paymentService.getPaymentById(paymentId);
+      if (!payment || payment.subscriptionId !== subscriptionId) {
+        throw new Error(`Payment with ID ${paymentId} not found`);
+      }
+      if (!RETRYABLE_PAYMENT_STATUSES.includes(payment.status)) {
+        throw new Error(`Payment ${paymentId} is not awaiting retry`);
+      }
+      return payment;
+    }
+
+    const payments = await this.paymentService.getPaymentsBySubscriptionId(subscriptionId);
+    return payments.find((payment) => RETRYABLE_PAYMENT_STATUSES.includes(payment.status));
+  }
+
+  /**
+   * 建立支付方式並設為客戶預設，更新工作階段所屬訂閱
+   */
+  private async bindPaymentMethod(session: CheckoutSessionEntity, type: PaymentMethodType, bound: BoundPaymentMethod, name?: string): Promise<PaymentMethodEntity> {
+    const last4 = bound.lastFourDigits;
+    const paymentMethod = new PaymentMethodEntity(session.customerId, type, name || [bound.brand, last4 && `**** ${last4}`].filter(Boolean).join(' ') || 'Card');
+    if (bound.externalId) {
+      paymentMethod.setExternalId(bound.externalId);
+    }
+    if (last4) {
+      paymentMethod.updateMaskedInfo(`**** **** **** ${last4}`);
+    }
+    if (bound.expiryMonth && bound.expiryYear) {
+      // 卡片有效至到期月份的最後一刻
+      paymentMethod.updateExpiryDate(new Date(bound.expiryYear, bound.expiryMonth, 0, 23, 59, 59, 999));
+    }
+    paymentMethod.updateMetadata({ gateway: session.gateway, checkoutSessionId: session.id });
+    paymentMethod.setAsDefault();
+    await this.paymentMethodRepository.save(paymentMethod);
+
+    const existing = await this.paymentMethodRepository.findByCustomerId(session.customerId);
+    for (const other of existing.filter((pm) => pm.isDefault && pm.id !== paymentMethod.id)) {
+      other.unsetDefault();
+      await this.paymentMethodRepository.save(other);
+    }
+    await this.customerService.setDefaultPaymentMethod(session.customerId, paymentMethod.id);
+
+    if (session.subscriptionId) {
+      await this.subscriptionService.updatePaymentMethod(session.subscriptionId, paymentMethod.id);
+    }
+    return paymentMethod;
+  }
+
+  /**
+   * 以新支付方式立即重新扣款未結清的付款，回傳扣款後的付款狀態
+   * 扣款失敗不影響工作階段完成，付款回到既有的重試與催收流程
+   */
+  private async retryOutstandingPayment(session: CheckoutSessionEntity, paymentMethod: PaymentMethodEntity): Promise<string | undefined> {
+    if (!session.paymentId) {
+      return undefined;
+    }
+
+    const payment = await this.paymentService.getPaymentById(session.paymentId);
+    if (!payment || !RETRYABLE_PAYMENT_STATUSES.includes(payment.status)) {
+      return payment?.status;
+    }
+
+    await this.paymentService.retryFailedPayment(payment.id, BillingAttemptType.MANUAL_RETRY, paymentMethod.id);
+    const result = await this.paymentProcessingService.processPayment(payment.id, paymentMethod.id, new Money(payment.amount, payment.currency), session.gateway);
+    if (result.success) {
+      await this.paymentService.markPaymentSucceeded(payment.id, result.transactionId, result.gateway);
+      return PaymentStatus.SUCCEEDED;
+    }
+    if (result.requiresAction) {
+      await this.paymentService.markPaymentRequiresAction(payment.id, result.transactionId, result.gateway, result.nextAction);
+      return PaymentStatus.REQUIRES_ACTION;
+    }
+
+    await this.paymentService.markPaymentFailed(payment.id, result.errorMessage, result.errorCode);
+    this.logger.warn(`Payment ${payment.id} retry after checkout session ${session.id} failed: ${result.errorMessage}`);
+    return PaymentStatus.FAILED;
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
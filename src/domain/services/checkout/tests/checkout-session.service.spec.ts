@@ -0,0 +1,215 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfService } from '@myapp/conf';
+import { CheckoutSessionService } from '../checkout-session.service';
+import { CheckoutSessionRepository } from '../../../../infra/repositories/checkout-session.repository';
+import { PaymentMethodRepository } from '../../../../infra/repositories/payment-method.repository';
+import { SubscriptionRepository } from '../../../../infra/repositories/subscription.repository';
+import { PaymentGatewayManager } from '../../payment/payment-gateway-manager.service';
+import { PaymentProcessingService } from '../../payment-processing.service';
+import { PaymentService } from '../../payment.service';
+import { CustomerService } from '../../customer.service';
+import { SubscriptionService } from '../../subscription.service';
+import { CheckoutSessionEntity, PaymentEntity, PaymentMethodEntity, SubscriptionEntity } from '../../../entities';
+import { ECPayCallbackParams } from '../../../interfaces/payment/ecpay.interface';
+import { BillingAttemptType, BillingCycle, CheckoutSessionMode, CheckoutSessionStatus, PaymentMethodType, PaymentStatus } from '../../../enums/codes.const';
+
+describe('CheckoutSessionService', () => {
+  const now = new Date(2026, 4, 1, 10);
+  const minutes = (n: number) => new Date(now.getTime() + n * 60 * 1000);
+
+  let moduleRef: TestingModule;
+  let service: CheckoutSessionService;
+  let sessions: CheckoutSessionEntity[];
+  let paymentMethods: PaymentMethodEntity[];
+  let subscription: SubscriptionEntity;
+  let payment: PaymentEntity;
+
+  const checkoutSessionRepository = {
+    save: jest.fn(async (session: CheckoutSessionEntity) => {
+      if (session.isNew()) {
+        session.id = `cs_${sessions.length + 1}`;
+        sessions.push(session);
+      }
+      return session;
+    }),
+    claim: jest.fn(async (session: CheckoutSessionEntity, leaseUntil: Date, at: Date) => {
+      if (session.status !== CheckoutSessionStatus.OPEN || (session.lockedUntil && session.lockedUntil > at)) {
+        return false;
+      }
+      session.lockedUntil = leaseUntil;
+      return true;
+    }),
+    findById: jest.fn(async (id: string) => sessions.find((s) => s.id === id)),
+    findByTokenHash: jest.fn(async (tokenHash: string) => sessions.find((s) => s.tokenHash === tokenHash)),
+    findByGatewayTradeNo: jest.fn(async (tradeNo: string) => sessions.find((s) => s.gatewayTradeNos.includes(tradeNo))),
+  };
+  const paymentMethodRepository = {
+    save: jest.fn(async (pm: PaymentMethodEntity) => {
+      if (pm.isNew()) {
+        pm.id = `pm_${paymentMethods.length + 1}`;
+        paymentMethods.push(pm);
+      }
+      return pm;
+    }),
+    findByCustomerId: jest.fn(async (customerId: string) => paymentMethods.filter((pm) => pm.customerId === customerId)),
+  };
+  const gatewayManager = {
+    getGateway: jest.fn(() => ({ getName: () => 'mock' })),
+    attachPaymentMethod: jest.fn(async (): Promise<Record<string, any>> => ({
+      success: true,
+      externalId: 'ext_new',
+      brand: 'visa',
+      lastFourDigits: '4242',
+      expiryMonth: 12,
+      expiryYear: 2029,
+    })),
+    processPayment: jest.fn(async () => ({
+      success: true,
+      paymentId: 'MTN001',
+      gatewayResponse: { actionUrl: 'https://payment-stage.ecpay.com.tw/Cashier/AioCheckOut/V5', method: 'POST', formParams: { MerchantTradeNo: 'MTN001' } },
+    })),
+  };
+  const paymentProcessingService = { processPayment: jest.fn(async (): Promise<Record<string, any>> => ({ success: true, transactionId: 'txn_1', gateway: 'mock' })) };
+  const paymentService = {
+    getPaymentById: jest.fn(async (id: string) => (id === payment.id ? payment : undefined)),
+    getPaymentsBySubscriptionId: jest.fn(async () => [payment]),
+    retryFailedPayment: jest.fn(async () => {
+      payment.status = PaymentStatus.PROCESSING;
+      return payment;
+    }),
+    markPaymentSucceeded: jest.fn(async () => {
+      payment.status = PaymentStatus.SUCCEEDED;
+      return payment;
+    }),
+    markPaymentFailed: jest.fn(async () => {
+      payment.status = PaymentStatus.FAILED;
+      return payment;
+    }),
+  };
+  const customerService = { setDefaultPaymentMethod: jest.fn() };
+  const subscriptionService = { updatePaymentMethod: jest.fn(async () => subscription) };
+
+  const ecpayResult = (overrides: Partial<ECPayCallbackParams> = {}) =>
+    ({ MerchantTradeNo: 'MTN001', RtnCode: 1, RtnMsg: 'Succeeded', TradeNo: '2605011000001', ...overrides }) as ECPayCallbackParams;
+
+  const checkoutConf = { ttlMinutes: 30, pageUrl: 'https://pay.example.com/checkout', ecpayOrderResultUrl: 'https://api.example.com/result', leaseMs: 60_000 };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    sessions = [];
+    const oldCard = Object.assign(new PaymentMethodEntity('cus_1', PaymentMethodType.CREDIT_CARD, 'Old card'), { id: 'pm_old', isDefault: true });
+    paymentMethods = [oldCard];
+    subscription = Object.assign(new SubscriptionEntity('cus_1', 'pm_old', 'Basic', 1000, BillingCycle.MONTHLY), { id: 'sub_1' });
+    subscription.activate({ metadata: { paymentSuccessful: true } });
+    payment = Object.assign(new PaymentEntity('sub_1', 'cus_1', 'pm_old', 1000, now, minutes(60 * 24 * 30)), { id: 'pay_1', status: PaymentStatus.FAILED });
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        CheckoutSessionService,
+        { provide: ConfService, useValue: { getConf: () => ({ checkoutSessions: checkoutConf }) } },
+        { provide: CheckoutSessionRepository, useValue: checkoutSessionRepository },
+        { provide: PaymentMethodRepository, useValue: paymentMethodRepository },
+        { provide: SubscriptionRepository, useValue: { findById: jest.fn(async (id: string) => (id === subscription.id ? subscription : undefined)) } },
+        { provide: PaymentGatewayManager, useValue: gatewayManager },
+        { provide: PaymentProcessingService, useValue: paymentProcessingService },
+        { provide: PaymentService, useValue: paymentService },
+        { provide: CustomerService, useValue: customerService },
+        { provide: SubscriptionService, useValue: subscriptionService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(CheckoutSessionService);
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('creates an expiring session for the outstanding payment and keeps only the token hash', async () => {
+    const { session, token, url } = await service.createSession({ customerId: 'cus_1', subscriptionId: 'sub_1' }, now);
+
+    expect(session).toMatchObject({ mode: CheckoutSessionMode.PAYMENT_METHOD_UPDATE, paymentId: 'pay_1', amount: 1000, gateway: 'mock', expiresAt: minutes(30) });
+    expect(new URL(url).searchParams.get('token')).toBe(token);
+    expect(session.tokenHash).not.toContain(token);
+    expect(JSON.stringify(session.toJSON())).not.toContain(session.tokenHash);
+  });
+
+  it('rejects sessions for subscriptions of another customer', async () => {
+    await expect(service.createSession({ customerId: 'cus_2', subscriptionId: 'sub_1' }, now)).rejects.toThrow('Subscription with ID sub_1 not found');
+  });
+
+  it('attaches the new card as default and retries the outstanding payment immediately', async () => {
+    const { token } = await service.createSession({ customerId: 'cus_1', subscriptionId: 'sub_1' }, now);
+
+    const session = await service.completeSession(token, { card: { number: '4242424242424242', expMonth: 12, expYear: 2029 } }, minutes(5));
+
+    expect(gatewayManager.attachPaymentMethod).toHaveBeenCalledWith('mock', expect.objectContaining({ customerId: 'cus_1' }));
+    const newCard = paymentMethods.find((pm) => pm.id === session.paymentMethodId);
+    expect(newCard).toMatchObject({ externalId: 'ext_new', isDefault: true, maskedInfo: '**** **** **** 4242' });
+    expect(paymentMethods.find((pm) => pm.id === 'pm_old').isDefault).toBe(false);
+    expect(customerService.setDefaultPaymentMethod).toHaveBeenCalledWith('cus_1', newCard.id);
+    expect(subscriptionService.updatePaymentMethod).toHaveBeenCalledWith('sub_1', newCard.id);
+    expect(paymentService.retryFailedPayment).toHaveBeenCalledWith('pay_1', BillingAttemptType.MANUAL_RETRY, newCard.id);
+    expect(paymentProcessingService.processPayment).toHaveBeenCalledWith('pay_1', newCard.id, expect.objectContaining({ amount: 1000 }), 'mock');
+    expect(paymentService.markPaymentSucceeded).toHaveBeenCalledWith('pay_1', 'txn_1', 'mock');
+    expect(session).toMatchObject({ status: CheckoutSessionStatus.COMPLETED, paymentStatus: PaymentStatus.SUCCEEDED });
+
+    await expect(service.completeSession(token, {}, minutes(6))).rejects.toThrow('Invalid checkout session');
+  });
+
+  it('keeps the session open when the gateway declines the card', async () => {
+    const { token } = await service.createSession({ customerId: 'cus_1', subscriptionId: 'sub_1' }, now);
+    gatewayManager.attachPaymentMethod.mockResolvedValueOnce({ success: false, errorCode: 'CARD_DECLINED', errorMessage: 'Card declined' });
+
+    await expect(service.completeSession(token, {}, minutes(5))).rejects.toThrow('Failed to attach payment method: Card declined');
+    expect(sessions[0]).toMatchObject({ status: CheckoutSessionStatus.OPEN, lastError: 'Failed to attach payment method: Card declined', lockedUntil: undefined });
+    expect(paymentService.retryFailedPayment).not.toHaveBeenCalled();
+
+    expect(await service.completeSession(token, {}, minutes(6))).toMatchObject({ status: CheckoutSessionStatus.COMPLETED });
+  });
+
+  it('completes with a failed charge when the retry is declined', async () => {
+    const { token } = await service.createSession({ customerId: 'cus_1', subscriptionId: 'sub_1' }, now);
+    paymentProcessingService.processPayment.mockResolvedValueOnce({ success: false, errorCode: 'INSUFFICIENT_FUNDS', errorMessage: 'Insufficient funds' });
+
+    const session = await service.completeSession(token, {}, minutes(5));
+
+    expect(paymentService.markPaymentFailed).toHaveBeenCalledWith('pay_1', 'Insufficient funds', 'INSUFFICIENT_FUNDS');
+    expect(session).toMatchObject({ status: CheckoutSessionStatus.COMPLETED, paymentStatus: PaymentStatus.FAILED });
+  });
+
+  it('expires the session after its ttl', async () => {
+    const { token } = await service.createSession({ customerId: 'cus_1' }, now);
+
+    await expect(service.resolveSession(token, minutes(31))).rejects.toThrow('Invalid checkout session');
+    expect(sessions[0].status).toBe(CheckoutSessionStatus.EXPIRED);
+  });
+
+  it('redirects ECPay sessions to the payment page and completes on the payment result once', async () => {
+    const { token } = await service.createSession({ customerId: 'cus_1', subscriptionId: 'sub_1', gateway: 'ecpay', successUrl: 'https://shop.example.com/done' }, now);
+
+    const { redirect } = await service.resolveSession(token, minutes(1));
+    expect(redirect.formParams.MerchantTradeNo).toBe('MTN001');
+    expect(gatewayManager.processPayment).toHaveBeenCalledWith('ecpay', expect.objectContaining({ amount: 1000, returnUrl: 'https://api.example.com/result' }));
+    await expect(service.completeSession(token, {}, minutes(2))).rejects.toThrow('gateway payment page');
+
+    const session = await service.handleECPayResult(ecpayResult(), minutes(3));
+    expect(session).toMatchObject({ status: CheckoutSessionStatus.COMPLETED, paymentStatus: PaymentStatus.SUCCEEDED });
+    expect(paymentMethods.find((pm) => pm.id === session.paymentMethodId)).toMatchObject({ externalId: '2605011000001', isDefault: true });
+    expect(paymentService.markPaymentSucceeded).toHaveBeenCalledWith('pay_1', '2605011000001', 'ecpay');
+    expect(service.getReturnUrl(session, true)).toBe('https://shop.example.com/done');
+
+    await service.handleECPayResult(ecpayResult(), minutes(4));
+    expect(paymentService.markPaymentSucceeded).toHaveBeenCalledTimes(1);
+  });
+
+  it('records a failed ECPay payment without completing the session', async () => {
+    const { token } = await service.createSession({ customerId: 'cus_1', subscriptionId: 'sub_1', gateway: 'ecpay' }, now);
+    await service.resolveSession(token, minutes(1));
+
+    const session = await service.handleECPayResult(ecpayResult({ RtnCode: 10100058, RtnMsg: 'Declined' }), minutes(2));
+
+    expect(session).toMatchObject({ status: CheckoutSessionStatus.OPEN, lastError: 'Declined' });
+    expect(paymentService.markPaymentSucceeded).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,195 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { CreditLedgerQuery, CreditLedgerRepository } from '../../../infra/repositories/credit-ledger.repository';
+import { CreditAllocation, CreditLedgerEntryEntity, CreditSource } from '../../entities/credit-ledger-entry.entity';
+import { CreditEntryType, CreditSourceType } from '../../enums/codes.const';
+import { Money } from '../../value-objects/money';
+
+export interface GrantCreditCommand {
+  customerId: string;
+  amount: Money;
+  source: CreditSource;
+  reason: string;
+  actor?: string;
+  expiresAt?: Date;
+}
+
+export interface RevokeCreditCommand {
+  customerId: string;
+  amount: Money;
+  reason: string;
+  actor?: string;
+}
+
+/**
+ * 客戶抵用金服務
+ * 以借貸平衡的分錄帳記錄入帳、扣抵、失效與沖回；扣抵時優先使用最早到期的額度，到期的額度在查詢或扣抵前轉為失效分錄；
+ * 付款取消或確定無法收款時沖回該付款的扣抵
+ */
+@Injectable()
+export class CustomerCreditService {
+  private readonly logger = new Logger(CustomerCreditService.name);
+
+  constructor(private readonly creditLedgerRepository: CreditLedgerRepository) {}
+
+  /**
+   * 取得客戶各幣別的抵用金餘額
+   */
+  public async getBalances(customerId: string): Promise<Money[]> {
+    await this.expireCredits(customerId);
+    const credits = await this.creditLedgerRepository.findOpenCredits(customerId);
+
+    const totals = new Map<string, number>();
+    for (const credit of credits) {
+      totals.set(credit.currency, (totals.get(credit.currency) || 0) + credit.remainingAmount);
+    }
+    return [...totals.entries()].map(([currency, amount]) => new Money(amount, currency));
+  }
+
+  /**
+   * 取得客戶指定幣別的抵用金餘額
+   */
+  public async getBalance(customerId: string, currency: string): Promise<Money> {
+    const balances = await this.getBalances(customerId);
+    return balances.find((balance) => balance.currency === currency) || Money.zero(currency);
+  }
+
+  /**
+   * 入帳抵用金
+   */
+  public async grantCredit(command: GrantCreditCommand): Promise<CreditLedgerEntryEntity> {
+    this.validateCommand(command);
+    if (command.expiresAt && command.expiresAt <= new Date()) {
+      throw new Error('Credit expiration must be in the future');
+    }
+
+    const entry = new CreditLedgerEntryEntity(command.customerId, CreditEntryType.CREDIT, command.amount, command.source, command.reason);
+    entry.actor = command.actor;
+    entry.expiresAt = command.expiresAt;
+
+    const saved = await this.creditLedgerRepository.insert(entry);
+    if (!saved) {
+      throw new Error(`Credit already granted for ${command.source.type.toLowerCase()} ${command.source.id}`);
+    }
+    this.logger.log(`Granted ${command.amount.amount} ${command.amount.currency} credit to customer ${command.customerId} (${command.source.type})`);
+    return saved;
+  }
+
+  /**
+   * 管理員收回抵用金
+   */
+  public async revokeCredit(command: RevokeCreditCommand): Promise<CreditLedgerEntryEntity> {
+    this.validateCommand(command);
+    return this.debit(command.customerId, command.amount, { type: CreditSourceType.ADMIN }, command.reason, command.actor);
+  }
+
+  /**
+   * 以抵用金折抵帳單，餘額不足時不扣抵並拋出錯誤
+   */
+  public async drawCredit(customerId: string, amount: Money, paymentId: string): Promise<CreditLedgerEntryEntity> {
+    return this.debit(customerId, amount, { type: CreditSourceType.INVOICE, id: paymentId }, 'Applied to invoice');
+  }
+
+  /**
+   * 付款取消或確定無法收款時退回該付款折抵的抵用金
+   * 以沖回分錄對應原扣抵分錄，額度歸還原入帳分錄；未折抵或已沖回時回傳 undefined
+   */
+  public async releaseDrawnCredit(paymentId: string, reason: string): Promise<CustomDefinition.TNullable<CreditLedgerEntryEntity>> {
+    const source: CreditSource = { type: CreditSourceType.INVOICE, id: paymentId };
+    const draw = await this.creditLedgerRepository.findBySource(source, CreditEntryType.DEBIT);
+    if (!draw) {
+      return undefined;
+    }
+
+    const entry = new CreditLedgerEntryEntity(draw.customerId, CreditEntryType.REVERSAL, draw.getAmount(), source, reason);
+    entry.allocations = draw.allocations;
+    const saved = await this.creditLedgerRepository.insert(entry);
+    if (!saved) {
+      return undefined;
+    }
+
+    // 已到期的額度歸還後於下次查詢時轉為失效
+    for (const allocation of draw.allocations) {
+      await this.creditLedgerRepository.restore(allocation.entryId, allocation.amount);
+    }
+    this.logger.log(`Released ${draw.amount} ${draw.currency} credit drawn by payment ${paymentId} back to customer ${draw.customerId}`);
+    return saved;
+  }
+
+  /**
+   * 將客戶已到期的額度轉為失效分錄
+   */
+  public async expireCredits(customerId: string, at: Date = new Date()): Promise<CreditLedgerEntryEntity[]> {
+    const credits = await this.creditLedgerRepository.findOpenCredits(customerId);
+    const expired: CreditLedgerEntryEntity[] = [];
+
+    for (const credit of credits.filter((c) => c.isExpired(at))) {
+      const amount = await this.creditLedgerRepository.takeRemaining(credit.id);
+      if (!amount) {
+        continue;
+      }
+      const entry = new CreditLedgerEntryEntity(customerId, CreditEntryType.EXPIRY, new Money(amount, credit.currency), credit.source, 'Credit expired');
+      entry.allocations = [{ entryId: credit.id, amount }];
+      expired.push(await this.creditLedgerRepository.insert(entry));
+    }
+
+    return expired;
+  }
+
+  /**
+   * 查詢客戶的分錄
+   */
+  public async listEntries(customerId: string, query: CreditLedgerQuery = {}): Promise<{ entries: CreditLedgerEntryEntity[]; total: number; page: number; limit: number }> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const result = await this.creditLedgerRepository.findByCustomerId(customerId, { ...query, page, limit });
+    return { ...result, page, limit };
+  }
+
+  /**
+   * 依到期先後扣抵入帳額度，全部扣足才寫入分錄，否則還原已扣的額度
+   */
+  private async debit(customerId: string, amount: Money, source: CreditSource, reason: string, actor?: string): Promise<CreditLedgerEntryEntity> {
+    await this.expireCredits(customerId);
+    const credits = (await this.creditLedgerRepository.findOpenCredits(customerId, amount.currency)).sort(
+      (a, b) => (a.expiresAt?.getTime() ?? Infinity) - (b.expiresAt?.getTime() ?? Infinity),
+    );
+
+    const allocations: CreditAllocation[] = [];
+    let remaining = amount.amount;
+    for (const credit of credits) {
+      if (remaining === 0) {
+        break;
+      }
+      const take = Math.min(credit.remainingAmount, remaining);
+      if (await this.creditLedgerRepository.consume(credit.id, take)) {
+        allocations.push({ entryId: credit.id, amount: take });
+        remaining -= take;
+      }
+    }
+
+    if (remaining > 0) {
+      for (const allocation of allocations) {
+        await this.creditLedgerRepository.restore(allocation.entryId, allocation.amount);
+      }
+      throw new Error('Insufficient credit balance');
+    }
+
+    const entry = new CreditLedgerEntryEntity(customerId, CreditEntryType.DEBIT, amount, source, reason);
+    entry.actor = actor;
+    entry.allocations = allocations;
+    return this.creditLedgerRepository.insert(entry);
+  }
+
+  private validateCommand(command: { customerId: string; amount: Money; reason: string }): void {
+    if (!command.customerId) {
+      throw new Error('Customer ID is required');
+    }
+    if (!command.reason?.trim()) {
+      throw new Error('Reason is required');
+    }
+    if (!command.amount?.isPositive()) {
+      throw new Error('Credit amount must be positive');
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CustomerCreditService } from '../customer-credit.service';
+import { CreditLedgerRepository } from '../../../../infra/repositories/credit-ledger.repository';
+import { CreditLedgerEntryEntity, CreditSource } from '../../../entities/credit-ledger-entry.entity';
+import { CreditEntryType, CreditSourceType } from '../../../enums/codes.const';
+import { Money } from '../../../value-objects/money';
+
+describe('CustomerCreditService', () => {
+  const customerId = '64b7f0c2a1b2c3d4e5f60002';
+  let moduleRef: TestingModule;
+  let service: CustomerCreditService;
+  let entries: CreditLedgerEntryEntity[];
+
+  // 以記憶體模擬分錄帳，行為對應 CreditLedgerRepository 的原子更新
+  const repository = {
+    insert: jest.fn(async (entry: CreditLedgerEntryEntity) => {
+      const duplicated =
+        (entry.source.type === CreditSourceType.REFUND || entry.type === CreditEntryType.REVERSAL) &&
+        entries.some((e) => e.type === entry.type && e.source.type === entry.source.type && e.source.id === entry.source.id);
+      if (duplicated) {
+        return undefined;
+      }
+      entry.id = `entry_${entries.length + 1}`;
+      entries.push(entry);
+      return entry;
+    }),
+    findBySource: jest.fn(async (source: CreditSource, type: CreditEntryType) =>
+      entries.find((e) => e.type === type && e.source.type === source.type && e.source.id === source.id),
+    ),
+    findOpenCredits: jest.fn(async (id: string, currency?: string) =>
+      entries.filter((e) => e.customerId === id && e.type === CreditEntryType.CREDIT && e.remainingAmount > 0 && (!currency || e.currency === currency)),
+    ),
+    consume: jest.fn(async (entryId: string, amount: number) => {
+      const entry = entries.find((e) => e.id === entryId);
+      if (entry.remainingAmount < amount) {
+        return false;
+      }
+      entry.remainingAmount -= amount;
+      return true;
+    }),
+    restore: jest.fn(async (entryId: string, amount: number) => {
+      entries.find((e) => e.id === entryId).remainingAmount += amount;
+    }),
+    takeRemaining: jest.fn(async (entryId: string) => {
+      const entry = entries.find((e) => e.id === entryId);
+      const amount = entry.remainingAmount;
+      entry.remainingAmount = 0;
+      return amount;
+    }),
+  };
+
+  const grant = (amount: number, expiresAt?: Date, currency = 'TWD') =>
+    service.grantCredit({ customerId, amount: new Money(amount, currency), source: { type: CreditSourceType.ADMIN }, reason: 'Goodwill', actor: 'admin_1', expiresAt });
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date(2026, 0, 17, 9) });
+    entries = [];
+
+    moduleRef = await Test.createTestingModule({
+      providers: [CustomerCreditService, { provide: CreditLedgerRepository, useValue: repository }],
+    }).compile();
+
+    service = moduleRef.get(CustomerCreditService);
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await moduleRef.close();
+  });
+
+  it('keeps balances per currency with double-entry accounts', async () => {
+    const entry = await grant(5000);
+    await grant(300, undefined, 'USD');
+
+    expect(entry).toMatchObject({ remainingAmount: 5000, actor: 'admin_1' });
+    expect(entry.lines).toEqual([
+      { account: 'goodwill', debit: 5000, credit: 0 },
+      { account: 'customer_balance', debit: 0, credit: 5000 },
+    ]);
+    expect(entry.isBalanced()).toBe(true);
+    expect((await service.getBalance(customerId, 'TWD')).amount).toBe(5000);
+    expect((await service.getBalance(customerId, 'USD')).amount).toBe(300);
+    expect((await service.getBalance(customerId, 'JPY')).amount).toBe(0);
+  });
+
+  it('draws the soonest-expiring credit first', async () => {
+    const lasting = await grant(5000);
+    const expiring = await grant(3000, new Date(2026, 1, 1));
+
+    const debit = await service.drawCredit(customerId, new Money(4000), 'pay_1');
+
+    expect(debit).toMatchObject({ type: CreditEntryType.DEBIT, source: { type: CreditSourceType.INVOICE, id: 'pay_1' } });
+    expect(debit.lines.map((line) => [line.account, line.debit, line.credit])).toEqual([
+      ['customer_balance', 4000, 0],
+      ['accounts_receivable', 0, 4000],
+    ]);
+    expect(debit.allocations).toEqual([
+      { entryId: expiring.id, amount: 3000 },
+      { entryId: lasting.id, amount: 1000 },
+    ]);
+    expect((await service.getBalance(customerId, 'TWD')).amount).toBe(4000);
+  });
+
+  it('leaves the balance untouched when it cannot cover the debit', async () => {
+    await grant(2000);
+    await grant(1000);
+
+    await expect(service.revokeCredit({ customerId, amount: new Money(5000), reason: 'Clawback' })).rejects.toThrow('Insufficient credit balance');
+    expect((await service.getBalance(customerId, 'TWD')).amount).toBe(3000);
+    expect(entries.filter((e) => e.type === CreditEntryType.DEBIT)).toHaveLength(0);
+  });
+
+  it('expires due credits into breakage entries', async () => {
+    const expiring = await grant(3000, new Date(2026, 0, 20));
+    await grant(1000);
+
+    jest.setSystemTime(new Date(2026, 0, 21));
+
+    expect((await service.getBalance(customerId, 'TWD')).amount).toBe(1000);
+    const expiry = entries.find((e) => e.type === CreditEntryType.EXPIRY);
+    expect(expiry).toMatchObject({ amount: 3000, allocations: [{ entryId: expiring.id, amount: 3000 }] });
+    expect(expiry.lines[1]).toEqual({ account: 'credit_breakage', debit: 0, credit: 3000 });
+  });
+
+  it('reverses the credit drawn by a payment back to the original grants, once', async () => {
+    const lasting = await grant(5000);
+    const expiring = await grant(3000, new Date(2026, 1, 1));
+    await service.drawCredit(customerId, new Money(4000), 'pay_1');
+
+    const reversal = await service.releaseDrawnCredit('pay_1', 'Payment canceled');
+    const again = await service.releaseDrawnCredit('pay_1', 'Payment canceled');
+
+    expect(reversal).toMatchObject({ type: CreditEntryType.REVERSAL, amount: 4000, source: { type: CreditSourceType.INVOICE, id: 'pay_1' } });
+    expect(reversal.lines.map((line) => [line.account, line.debit, line.credit])).toEqual([
+      ['accounts_receivable', 4000, 0],
+      ['customer_balance', 0, 4000],
+    ]);
+    expect(again).toBeUndefined();
+    expect([expiring.remainingAmount, lasting.remainingAmount]).toEqual([3000, 5000]);
+    expect((await service.getBalance(customerId, 'TWD')).amount).toBe(8000);
+    expect(await service.releaseDrawnCredit('pay_2', 'Payment canceled')).toBeUndefined();
+  });
+
+  it('validates grants and rejects granting the same refund twice', async () => {
+    await expect(grant(0)).rejects.toThrow('Credit amount must be positive');
+    await expect(grant(100, new Date(2026, 0, 1))).rejects.toThrow('Credit expiration must be in the future');
+    await expect(service.grantCredit({ customerId, amount: new Money(100), source: { type: CreditSourceType.ADMIN }, reason: ' ' })).rejects.toThrow('Reason is required');
+
+    const refundGrant = { customerId, amount: new Money(100), source: { type: CreditSourceType.REFUND, id: 'refund_1' }, reason: 'Refund' };
+    await service.grantCredit(refundGrant);
+    await expect(service.grantCredit(refundGrant)).rejects.toThrow('Credit already granted for refund refund_1');
+  });
+});
@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { CustomerEntity, CustomerStatus } from '../entities';
 import { CustomerRepository } from '../../infra/repositories/customer.repository';
 import { CustomDefinition } from '@xxxhand/app-common';
+import { EInvoicePreference, normalizeEInvoicePreference, validateEInvoicePreference } from '../utils/einvoice.util';
 
 /**
  * 客戶管理服務
@@ -154,6 +155,24 @@ export class CustomerService {
     return await this.customerRepository.save(customer);
   }
 
+  /**
+   * 設定電子發票收受方式（載具、統一編號或捐贈）
+   */
+  public async updateEInvoicePreference(customerId: string, preference: EInvoicePreference): Promise<CustomDefinition.TNullable<CustomerEntity>> {
+    const customer = await this.customerRepository.findById(customerId);
+    if (!customer) {
+      throw new Error(`Customer with ID ${customerId} not found`);
+    }
+
+    const invalidReason = validateEInvoicePreference(preference);
+    if (invalidReason) {
+      throw new Error(invalidReason);
+    }
+
+    customer.setEInvoicePreference(normalizeEInvoicePreference(preference));
+    return await this.customerRepository.save(customer);
+  }
+
   /**
    * 取得活躍客戶列表
    */
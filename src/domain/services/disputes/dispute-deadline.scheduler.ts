@@ -0,0 +1,44 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { ConfService } from '@myapp/conf';
+import { DisputeService } from './dispute.service';
+
+/** 爭議回覆期限排程名稱 */
+export const DISPUTE_DEADLINE_JOB = 'dispute-deadlines';
+
+/**
+ * 爭議回覆期限排程
+ * 依設定的 cron 表達式將逾期未回覆的爭議判定敗訴
+ */
+@Injectable()
+export class DisputeDeadlineScheduler implements OnApplicationBootstrap {
+  private readonly logger = new Logger(DisputeDeadlineScheduler.name);
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly disputeService: DisputeService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const { deadlineEnabled, deadlineCron, timezone } = this.confService.getConf().disputes;
+    if (!deadlineEnabled) {
+      this.logger.log('Dispute deadline scheduler is disabled');
+      return;
+    }
+
+    const job = new CronJob(deadlineCron, () => this.trigger(), null, false, timezone);
+    this.schedulerRegistry.addCronJob(DISPUTE_DEADLINE_JOB, job);
+    job.start();
+    this.logger.log(`Dispute deadline check scheduled with "${deadlineCron}" (${timezone})`);
+  }
+
+  private async trigger(): Promise<void> {
+    try {
+      await this.disputeService.expireOverdue();
+    } catch (error) {
+      this.logger.error(`Dispute deadline check crashed: ${error.message}`, error.stack);
+    }
+  }
+}
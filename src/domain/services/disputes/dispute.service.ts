@@ -0,0 +1,357 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { ConfService } from '@myapp/conf';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { RefundService } from '../refund.service';
+import { SubscriptionService } from '../subscription.service';
+import { PaymentGatewayManager } from '../payment/payment-gateway-manager.service';
+import { DisputeEntity, DisputeEvidence } from '../../entities/dispute.entity';
+import { PaymentEntity } from '../../entities/payment.entity';
+import { CancellationReason, DisputeStatus, DisputeSubscriptionPolicy, PaymentStatus, SubscriptionStatus } from '../../enums/codes.const';
+import { GatewayDisputeEvent } from '../../interfaces/payment/payment-gateway.interface';
+import { Money } from '../../value-objects/money';
+import { PaymentRepository } from '../../../infra/repositories/payment.repository';
+import { SubscriptionRepository } from '../../../infra/repositories/subscription.repository';
+import { JobLockRepository } from '../../../infra/repositories/job-lock.repository';
+import { DisputeQuery, DisputeRepository } from '../../../infra/repositories/dispute.repository';
+
+/** 回覆期限作業鎖名稱 */
+export const DISPUTE_DEADLINE_LOCK = 'dispute-deadlines';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEADLINE_LOCK_TTL_MS = 10 * 60 * 1000;
+const DEADLINE_BATCH_SIZE = 100;
+
+/** 可被爭議的付款狀態（已扣款，含已退款） */
+const DISPUTABLE_STATUSES = [PaymentStatus.SUCCEEDED, PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.REFUNDED];
+
+export interface OpenDisputeCommand {
+  paymentId: string;
+  /** 爭議金額（以分為單位），未指定時為付款全額 */
+  amount?: number;
+  reason: string;
+  /** 回覆期限，未指定時依設定天數計算 */
+  responseDueBy?: Date;
+  gatewayDisputeId?: string;
+}
+
+/**
+ * 上傳的證據檔（SingleUploadFileInterceptor 暫存的檔案）
+ */
+export interface DisputeEvidenceUpload {
+  filePath: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  description?: string;
+  uploadedBy?: string;
+}
+
+/**
+ * 付款爭議服務
+ * 記錄閘道通知或人工登錄的爭議，管理證據與回覆期限；敗訴時扣回付款金額，並依設定處置訂閱
+ */
+@Injectable()
+export class DisputeService implements OnModuleInit {
+  private readonly logger = new Logger(DisputeService.name);
+  private readonly owner = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly disputeRepository: DisputeRepository,
+    private readonly paymentRepository: PaymentRepository,
+    private readonly subscriptionRepository: SubscriptionRepository,
+    private readonly subscriptionService: SubscriptionService,
+    private readonly refundService: RefundService,
+    private readonly gatewayManager: PaymentGatewayManager,
+    private readonly jobLockRepository: JobLockRepository,
+  ) {}
+
+  onModuleInit() {
+    this.gatewayManager.registerDisputeHandler(async (gatewayName, event) => {
+      await this.recordGatewayDispute(gatewayName, event);
+    });
+  }
+
+  /**
+   * 人工登錄爭議（例如閘道以 Email 或後台通知的退單）
+   */
+  public async openDispute(command: OpenDisputeCommand): Promise<DisputeEntity> {
+    const payment = await this.paymentRepository.findById(command.paymentId);
+    if (!payment) {
+      throw new Error(`Payment with ID ${command.paymentId} not found`);
+    }
+
+    return await this.open(payment, this.gatewayManager.getGateway(payment.metadata?.gateway).getName(), command);
+  }
+
+  /**
+   * 處理閘道 webhook 通知的爭議
+   * 首次通知時建立爭議，之後依通知的狀態同步；查無被爭議的付款時回傳 undefined
+   */
+  public async recordGatewayDispute(gatewayName: string, event: GatewayDisputeEvent): Promise<CustomDefinition.TNullable<DisputeEntity>> {
+    let dispute = await this.disputeRepository.findByGatewayDisputeId(gatewayName, event.disputeId);
+
+    if (!dispute) {
+      const [payment] = await this.paymentRepository.findAllByGatewayTransactionId(event.transactionId, 1);
+      if (!payment) {
+        this.logger.warn(`Dispute ${event.disputeId} from ${gatewayName} references unknown transaction ${event.transactionId}`);
+        return undefined;
+      }
+
+      dispute = await this.open(payment, gatewayName, {
+        paymentId: payment.id,
+        amount: event.amount,
+        reason: event.reason || 'Dispute reported by gateway',
+        responseDueBy: event.responseDueBy,
+        gatewayDisputeId: event.disputeId,
+      });
+    } else if (event.responseDueBy && !dispute.isClosed()) {
+      dispute.updateResponseDueBy(event.responseDueBy);
+      await this.disputeRepository.save(dispute);
+    }
+
+    if (dispute.isClosed() || event.status === dispute.status) {
+      return dispute;
+    }
+
+    if (event.status === DisputeStatus.WON || event.status === DisputeStatus.LOST) {
+      await this.close(dispute, event.status, `Closed by ${gatewayName}`);
+    } else if (event.status === DisputeStatus.UNDER_REVIEW) {
+      dispute.markUnderReview(`Reported by ${gatewayName}`);
+      await this.disputeRepository.save(dispute);
+    }
+    return dispute;
+  }
+
+  /**
+   * 新增證據附件，暫存檔移至證據目錄保存
+   */
+  public async addEvidence(disputeId: string, upload: DisputeEvidenceUpload): Promise<DisputeEntity> {
+    const dispute = await this.requireDispute(disputeId);
+
+    const evidenceId = randomUUID();
+    const evidence: DisputeEvidence = {
+      evidenceId,
+      fileName: upload.fileName,
+      contentType: upload.contentType,
+      size: upload.size,
+      storagePath: path.join(this.confService.getConf().disputes.evidenceDir, dispute.id, `${evidenceId}${path.extname(upload.fileName || '')}`),
+      description: upload.description,
+      uploadedBy: upload.uploadedBy,
+      uploadedAt: new Date(),
+    };
+    dispute.addEvidence(evidence);
+
+    await fs.move(upload.filePath, evidence.storagePath);
+    await this.disputeRepository.save(dispute);
+    return dispute;
+  }
+
+  /**
+   * 提交回覆；閘道支援時一併送出證據，否則僅記錄已於閘道後台回覆
+   */
+  public async submitResponse(disputeId: string, note?: string): Promise<DisputeEntity> {
+    const dispute = await this.requireDispute(disputeId);
+    dispute.submitResponse(note);
+
+    if (dispute.gatewayDisputeId && this.gatewayManager.supportsDisputeResponse(dispute.gateway)) {
+      const result = await this.gatewayManager.submitDisputeResponse(dispute.gateway, dispute.gatewayDisputeId, {
+        explanation: note,
+        evidence: dispute.evidence.map((item) => ({ fileName: item.fileName, contentType: item.contentType, filePath: item.storagePath, description: item.description })),
+      });
+      if (!result.success) {
+        throw new Error(`Gateway rejected dispute response: ${result.errorMessage || 'unknown error'}`);
+      }
+    }
+
+    await this.disputeRepository.save(dispute);
+    return dispute;
+  }
+
+  /**
+   * 人工登錄爭議結果（閘道不以 webhook 通知結果時）
+   */
+  public async resolveDispute(disputeId: string, outcome: DisputeStatus, note?: string): Promise<DisputeEntity> {
+    if (outcome !== DisputeStatus.WON && outcome !== DisputeStatus.LOST) {
+      throw new Error(`Invalid dispute outcome ${outcome}`);
+    }
+
+    const dispute = await this.requireDispute(disputeId);
+    if (dispute.isClosed()) {
+      throw new Error(`Dispute ${disputeId} is already closed`);
+    }
+
+    await this.close(dispute, outcome, note);
+    return dispute;
+  }
+
+  /**
+   * 將逾期未回覆的爭議判定敗訴
+   * 無法取得作業鎖（其他實例執行中）時回傳 0
+   */
+  public async expireOverdue(asOf: Date = new Date()): Promise<number> {
+    if (!(await this.jobLockRepository.tryAcquire(DISPUTE_DEADLINE_LOCK, this.owner, DEADLINE_LOCK_TTL_MS))) {
+      this.logger.warn(`Dispute deadline check skipped: lock ${DISPUTE_DEADLINE_LOCK} is held by another instance`);
+      return 0;
+    }
+
+    let expired = 0;
+    try {
+      for (const dispute of await this.disputeRepository.findOverdue(asOf, DEADLINE_BATCH_SIZE)) {
+        try {
+          await this.close(dispute, DisputeStatus.LOST, 'Response deadline passed');
+          expired++;
+        } catch (error) {
+          this.logger.error(`Failed to expire dispute ${dispute.id}: ${error.message}`, error.stack);
+        }
+      }
+    } finally {
+      await this.jobLockRepository.release(DISPUTE_DEADLINE_LOCK, this.owner);
+    }
+
+    if (expired > 0) {
+      this.logger.log(`Expired ${expired} overdue disputes`);
+    }
+    return expired;
+  }
+
+  public async getDispute(disputeId: string): Promise<CustomDefinition.TNullable<DisputeEntity>> {
+    return await this.disputeRepository.findById(disputeId);
+  }
+
+  /**
+   * 查詢爭議，例如即將到期待回覆的爭議
+   */
+  public async listDisputes(query: DisputeQuery = {}): Promise<{ disputes: DisputeEntity[]; total: number; page: number; limit: number }> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const { disputes, total } = await this.disputeRepository.findByQuery({ ...query, page, limit });
+    return { disputes, total, page, limit };
+  }
+
+  /**
+   * 建立爭議並依設定處置訂閱；同一付款同時只能有一筆未結案的爭議
+   */
+  private async open(payment: PaymentEntity, gateway: string, command: OpenDisputeCommand): Promise<DisputeEntity> {
+    if (!DISPUTABLE_STATUSES.includes(payment.status)) {
+      throw new Error(`Cannot dispute payment in ${payment.status} status`);
+    }
+
+    const disputes = await this.disputeRepository.findByPaymentId(payment.id);
+    if (disputes.some((dispute) => !dispute.isClosed())) {
+      throw new Error(`Payment ${payment.id} already has an open dispute`);
+    }
+
+    const amount = command.amount ?? payment.amount;
+    if (amount <= 0 || amount > payment.amount) {
+      throw new Error(`Dispute amount must be between 1 and ${payment.amount}`);
+    }
+
+    const responseDueBy = command.responseDueBy || new Date(Date.now() + this.confService.getConf().disputes.responseDays * DAY_MS);
+    const dispute = new DisputeEntity(payment.id, payment.subscriptionId, payment.customerId, gateway, new Money(amount, payment.currency), command.reason, responseDueBy);
+    dispute.gatewayDisputeId = command.gatewayDisputeId;
+    await this.disputeRepository.save(dispute);
+
+    this.logger.log(`Dispute ${dispute.id} opened for payment ${payment.id} (${amount} ${payment.currency}), response due by ${responseDueBy.toISOString()}`);
+    await this.flagSubscription(dispute);
+    return dispute;
+  }
+
+  /**
+   * 結案；敗訴時以退單扣回付款金額
+   */
+  private async close(dispute: DisputeEntity, outcome: DisputeStatus, note?: string): Promise<void> {
+    if (outcome === DisputeStatus.WON) {
+      dispute.markWon(note);
+    } else {
+      dispute.markLost(note);
+
+      const payment = await this.paymentRepository.findById(dispute.paymentId);
+      const refund = payment
+        ? await this.refundService.recordChargeback(payment, dispute.getAmount(), {
+            disputeId: dispute.id,
+            gateway: dispute.gateway,
+            gatewayDisputeId: dispute.gatewayDisputeId,
+            reason: dispute.reason,
+          })
+        : undefined;
+      if (refund) {
+        dispute.recordReversal(refund.id);
+      }
+    }
+
+    await this.disputeRepository.save(dispute);
+    this.logger.log(`Dispute ${dispute.id} closed as ${outcome}${dispute.reversalRefundId ? `, reversed by refund ${dispute.reversalRefundId}` : ''}`);
+    await this.releaseSubscription(dispute);
+  }
+
+  /**
+   * 爭議成立時於訂閱標記爭議，政策為 PAUSE 時一併暫停訂閱
+   */
+  private async flagSubscription(dispute: DisputeEntity): Promise<void> {
+    let subscription = await this.subscriptionRepository.findById(dispute.subscriptionId);
+    if (!subscription) {
+      return;
+    }
+
+    const policy = this.getSubscriptionPolicy();
+    let paused = false;
+    if (policy === DisputeSubscriptionPolicy.PAUSE && subscription.status === SubscriptionStatus.ACTIVE) {
+      try {
+        subscription = (await this.subscriptionService.pauseSubscription(subscription.id, `Payment ${dispute.paymentId} disputed`)).subscription;
+        paused = true;
+      } catch (error) {
+        this.logger.warn(`Failed to pause subscription ${subscription.id} for dispute ${dispute.id}: ${error.message}`);
+      }
+    }
+
+    subscription.updateMetadata({
+      dispute: { disputeId: dispute.id, paymentId: dispute.paymentId, status: dispute.status, policy, paused, openedAt: dispute.openedAt },
+    });
+    await this.subscriptionRepository.save(subscription);
+  }
+
+  /**
+   * 結案時更新訂閱的爭議標記；勝訴時恢復因爭議暫停的訂閱，敗訴時依設定取消訂閱
+   */
+  private async releaseSubscription(dispute: DisputeEntity): Promise<void> {
+    let subscription = await this.subscriptionRepository.findById(dispute.subscriptionId);
+    const flag = subscription?.metadata?.dispute;
+    if (!subscription || flag?.disputeId !== dispute.id) {
+      return;
+    }
+
+    try {
+      if (dispute.status === DisputeStatus.WON && flag.paused && subscription.status === SubscriptionStatus.PAUSED) {
+        subscription = (await this.subscriptionService.resumeSubscription(subscription.id)).subscription;
+      } else if (dispute.status === DisputeStatus.LOST && this.confService.getConf().disputes.cancelSubscriptionOnLost && !subscription.isTerminated()) {
+        const transition = subscription.cancel(CancellationReason.BILLING_DISPUTE, 'system');
+        if (!transition.isValid) {
+          throw new Error(transition.message);
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to update subscription ${subscription.id} for closed dispute ${dispute.id}: ${error.message}`);
+    }
+
+    subscription.updateMetadata({ dispute: { ...flag, status: dispute.status, closedAt: dispute.closedAt } });
+    await this.subscriptionRepository.save(subscription);
+  }
+
+  private getSubscriptionPolicy(): DisputeSubscriptionPolicy {
+    const policy = (this.confService.getConf().disputes.subscriptionPolicy || '').toUpperCase();
+    return policy === DisputeSubscriptionPolicy.PAUSE ? DisputeSubscriptionPolicy.PAUSE : DisputeSubscriptionPolicy.FLAG;
+  }
+
+  private async requireDispute(disputeId: string): Promise<DisputeEntity> {
+    const dispute = await this.disputeRepository.findById(disputeId);
+    if (!dispute) {
+      throw new Error(`Dispute with ID ${disputeId} not found`);
+    }
+    return dispute;
+  }
+}
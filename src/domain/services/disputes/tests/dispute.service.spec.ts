@@ -0,0 +1,235 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfService } from '@myapp/conf';
+import { DisputeService } from '../dispute.service';
+import { RefundService } from '../../refund.service';
+import { SubscriptionService } from '../../subscription.service';
+import { CustomerCreditService } from '../../credits/customer-credit.service';
+import { PaymentGatewayManager } from '../../payment/payment-gateway-manager.service';
+import { MockPaymentGateway } from '../../payment/mock-payment-gateway.service';
+import { PaymentRepository } from '../../../../infra/repositories/payment.repository';
+import { SubscriptionRepository } from '../../../../infra/repositories/subscription.repository';
+import { RefundRepository } from '../../../../infra/repositories/refund.repository';
+import { JobLockRepository } from '../../../../infra/repositories/job-lock.repository';
+import { DisputeRepository } from '../../../../infra/repositories/dispute.repository';
+import { DisputeEntity, PaymentEntity, RefundEntity, SubscriptionEntity } from '../../../entities';
+import { BillingCycle, CancellationReason, DisputeStatus, PaymentStatus, RefundMethod, RefundStatus, SubscriptionStatus } from '../../../enums/codes.const';
+import { PaymentMethodType as GatewayPaymentMethodType } from '../../../interfaces/payment/payment-gateway.interface';
+import { Money } from '../../../value-objects/money';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('DisputeService', () => {
+  const evidenceDir = path.join(os.tmpdir(), `dispute-evidence-${process.pid}`);
+
+  let moduleRef: TestingModule;
+  let service: DisputeService;
+  let gatewayManager: PaymentGatewayManager;
+  let gateway: MockPaymentGateway;
+  let conf: Record<string, any>;
+  let payment: PaymentEntity;
+  let subscription: SubscriptionEntity;
+  let disputes: DisputeEntity[];
+  let refunds: RefundEntity[];
+
+  const paymentRepository = {
+    findById: jest.fn(async (id: string) => (payment.id === id ? payment : undefined)),
+    findAllByGatewayTransactionId: jest.fn(async (transactionId: string) => (payment.providerChargeId === transactionId ? [payment] : [])),
+    save: jest.fn(async (entity: PaymentEntity) => entity),
+  };
+  const subscriptionRepository = {
+    findById: jest.fn(async (id: string) => (subscription.id === id ? subscription : undefined)),
+    save: jest.fn(async (entity: SubscriptionEntity) => entity),
+  };
+  const subscriptionService = {
+    pauseSubscription: jest.fn(async (id: string, reason: string) => {
+      subscription.pause(reason);
+      return { subscription, pausedAt: new Date() };
+    }),
+    resumeSubscription: jest.fn(async () => {
+      subscription.resume();
+      return { subscription, resumedAt: new Date(), nextBillingDate: new Date() };
+    }),
+  };
+  const disputeRepository = {
+    save: jest.fn(async (dispute: DisputeEntity) => {
+      if (dispute.isNew()) {
+        dispute.id = `dp_local_${disputes.length + 1}`;
+        disputes.push(dispute);
+      }
+      return dispute;
+    }),
+    findById: jest.fn(async (id: string) => disputes.find((dispute) => dispute.id === id)),
+    findByGatewayDisputeId: jest.fn(async (name: string, id: string) => disputes.find((dispute) => dispute.gateway === name && dispute.gatewayDisputeId === id)),
+    findByPaymentId: jest.fn(async (paymentId: string) => disputes.filter((dispute) => dispute.paymentId === paymentId)),
+    findOverdue: jest.fn(async (asOf: Date) => disputes.filter((dispute) => dispute.isOverdue(asOf))),
+  };
+  const refundRepository = {
+    save: jest.fn(async (refund: RefundEntity) => {
+      if (refund.isNew()) {
+        refund.id = `ref_${refunds.length + 1}`;
+        refunds.push(refund);
+      }
+      return refund;
+    }),
+  };
+  const jobLockRepository = { tryAcquire: jest.fn(async () => true), renew: jest.fn(async () => true), release: jest.fn() };
+
+  const disputeWebhook = (status: string, extra: Record<string, any> = {}) => ({
+    type: status === 'needs_response' ? 'charge.dispute.created' : 'charge.dispute.closed',
+    data: { object: { id: 'dp_1', charge: 'ch_1', amount: 1000, currency: 'twd', reason: 'fraudulent', status, ...extra } },
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    disputes = [];
+    refunds = [];
+    conf = { subscriptionPolicy: 'PAUSE', cancelSubscriptionOnLost: false, responseDays: 7, evidenceDir };
+
+    subscription = new SubscriptionEntity('cus_1', 'pm_1', 'Basic', 1000, BillingCycle.MONTHLY);
+    subscription.id = 'sub_1';
+    subscription.activate({ metadata: { paymentSuccessful: true } });
+
+    payment = new PaymentEntity('sub_1', 'cus_1', 'pm_1', 1000, new Date(), new Date());
+    payment.id = 'pay_1';
+    payment.startAttempt();
+    payment.markSucceeded('ch_1');
+    payment.metadata = { gateway: 'mock' };
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        DisputeService,
+        RefundService,
+        PaymentGatewayManager,
+        MockPaymentGateway,
+        { provide: ConfService, useValue: { getConf: () => ({ disputes: conf }) } },
+        { provide: DisputeRepository, useValue: disputeRepository },
+        { provide: PaymentRepository, useValue: paymentRepository },
+        { provide: SubscriptionRepository, useValue: subscriptionRepository },
+        { provide: SubscriptionService, useValue: subscriptionService },
+        { provide: RefundRepository, useValue: refundRepository },
+        { provide: CustomerCreditService, useValue: {} },
+        { provide: JobLockRepository, useValue: jobLockRepository },
+      ],
+    }).compile();
+    await moduleRef.init();
+
+    service = moduleRef.get(DisputeService);
+    gateway = moduleRef.get(MockPaymentGateway);
+    jest.spyOn(gateway as any, 'simulateProcessingDelay').mockResolvedValue(undefined);
+    gatewayManager = moduleRef.get(PaymentGatewayManager);
+    gatewayManager.registerGateway('mock', gateway, {
+      name: 'mock',
+      enabled: true,
+      testMode: true,
+      supportedCurrencies: ['TWD'],
+      supportedPaymentMethods: [GatewayPaymentMethodType.CREDIT_CARD],
+      processingFeeRate: 0.02,
+    });
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  afterAll(async () => {
+    await fs.remove(evidenceDir);
+  });
+
+  it('opens a dispute from the gateway webhook, pauses the subscription and reverses the payment when lost', async () => {
+    const dueBy = Math.floor(Date.now() / 1000) + 5 * 24 * 60 * 60;
+    await gatewayManager.handleWebhook('mock', disputeWebhook('needs_response', { evidence_details: { due_by: dueBy } }));
+
+    expect(disputes).toHaveLength(1);
+    expect(disputes[0]).toMatchObject({
+      paymentId: 'pay_1',
+      subscriptionId: 'sub_1',
+      gateway: 'mock',
+      gatewayDisputeId: 'dp_1',
+      amount: 1000,
+      status: DisputeStatus.NEEDS_RESPONSE,
+    });
+    expect(disputes[0].responseDueBy).toEqual(new Date(dueBy * 1000));
+    expect(subscription.status).toBe(SubscriptionStatus.PAUSED);
+    expect(subscription.metadata.dispute).toMatchObject({ disputeId: 'dp_local_1', status: DisputeStatus.NEEDS_RESPONSE, policy: 'PAUSE', paused: true });
+
+    // 重送的通知不會重複建立爭議
+    await gatewayManager.handleWebhook('mock', disputeWebhook('needs_response'));
+    await gatewayManager.handleWebhook('mock', disputeWebhook('lost'));
+
+    expect(disputes).toHaveLength(1);
+    expect(disputes[0].status).toBe(DisputeStatus.LOST);
+    expect(disputes[0].reversalRefundId).toBe('ref_1');
+    expect(refunds[0]).toMatchObject({ paymentId: 'pay_1', amount: 1000, refundMethod: RefundMethod.CHARGEBACK, gateway: 'mock', providerRefundId: 'dp_1' });
+    expect(payment.status).toBe(PaymentStatus.REFUNDED);
+    expect(payment.getTotalRefundedAmount().amount).toBe(1000);
+    expect(subscription.status).toBe(SubscriptionStatus.PAUSED);
+    expect(subscription.metadata.dispute).toMatchObject({ disputeId: 'dp_local_1', status: DisputeStatus.LOST });
+  });
+
+  it('stores evidence, submits the response to the gateway and resumes the subscription when won', async () => {
+    const dispute = await service.openDispute({ paymentId: 'pay_1', reason: 'product_not_received', gatewayDisputeId: 'dp_1' });
+    await expect(service.submitResponse(dispute.id)).rejects.toThrow('Dispute response requires at least one evidence file');
+
+    const upload = path.join(os.tmpdir(), `upload-${process.pid}`);
+    await fs.writeFile(upload, 'tracking number: 123');
+    await service.addEvidence(dispute.id, { filePath: upload, fileName: 'shipping.pdf', contentType: 'application/pdf', size: 21, uploadedBy: 'ops@example.com' });
+
+    const [evidence] = dispute.evidence;
+    expect(evidence.storagePath).toBe(path.join(evidenceDir, dispute.id, `${evidence.evidenceId}.pdf`));
+    expect(await fs.readFile(evidence.storagePath, 'utf8')).toBe('tracking number: 123');
+    expect(await fs.pathExists(upload)).toBe(false);
+
+    const submit = jest.spyOn(gateway, 'submitDisputeResponse');
+    await service.submitResponse(dispute.id, 'Delivered on 3/1');
+
+    expect(submit).toHaveBeenCalledWith('dp_1', {
+      explanation: 'Delivered on 3/1',
+      evidence: [{ fileName: 'shipping.pdf', contentType: 'application/pdf', filePath: evidence.storagePath, description: undefined }],
+    });
+    expect(dispute.status).toBe(DisputeStatus.UNDER_REVIEW);
+    await expect(service.addEvidence(dispute.id, { filePath: upload, fileName: 'late.pdf', contentType: 'application/pdf', size: 1 })).rejects.toThrow(
+      'Cannot add evidence to dispute in UNDER_REVIEW status',
+    );
+
+    await service.resolveDispute(dispute.id, DisputeStatus.WON);
+
+    expect(dispute.status).toBe(DisputeStatus.WON);
+    expect(refunds).toHaveLength(0);
+    expect(payment.status).toBe(PaymentStatus.SUCCEEDED);
+    expect(subscriptionService.resumeSubscription).toHaveBeenCalledWith('sub_1');
+    expect(subscription.status).toBe(SubscriptionStatus.ACTIVE);
+  });
+
+  it('loses overdue disputes, reverses only the unrefunded balance and cancels the subscription when configured', async () => {
+    conf.subscriptionPolicy = 'FLAG';
+    conf.cancelSubscriptionOnLost = true;
+    payment.addRefund({ refundId: 'ref_0', refundAmount: new Money(400, 'TWD'), refundedAt: new Date(), reason: 'Partial refund', status: RefundStatus.SUCCEEDED });
+
+    const dispute = await service.openDispute({ paymentId: 'pay_1', reason: 'fraudulent', responseDueBy: new Date(Date.now() - DAY_MS) });
+    expect(subscription.status).toBe(SubscriptionStatus.ACTIVE);
+    expect(subscription.metadata.dispute).toMatchObject({ policy: 'FLAG', paused: false });
+
+    expect(await service.expireOverdue()).toBe(1);
+
+    expect(dispute.status).toBe(DisputeStatus.LOST);
+    expect(dispute.statusHistory[dispute.statusHistory.length - 1].note).toBe('Response deadline passed');
+    expect(refunds[0].amount).toBe(600);
+    expect(payment.status).toBe(PaymentStatus.REFUNDED);
+    expect(subscription.status).toBe(SubscriptionStatus.CANCELED);
+    expect(subscription.cancellation?.reason).toBe(CancellationReason.BILLING_DISPUTE);
+    expect(jobLockRepository.release).toHaveBeenCalled();
+  });
+
+  it('rejects disputes for uncaptured payments and a second open dispute on the same payment', async () => {
+    await service.openDispute({ paymentId: 'pay_1', reason: 'duplicate' });
+    await expect(service.openDispute({ paymentId: 'pay_1', reason: 'duplicate' })).rejects.toThrow('Payment pay_1 already has an open dispute');
+
+    payment.status = PaymentStatus.FAILED;
+    disputes = [];
+    await expect(service.openDispute({ paymentId: 'pay_1', reason: 'duplicate' })).rejects.toThrow('Cannot dispute payment in FAILED status');
+    await expect(service.openDispute({ paymentId: 'pay_x', reason: 'duplicate' })).rejects.toThrow('Payment with ID pay_x not found');
+  });
+});
@@ -0,0 +1,111 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { DunningCampaignRepository } from '../../../infra/repositories/dunning-campaign.repository';
+import { DunningCampaignEntity, DunningFinalStep, DunningStep } from '../../entities/dunning-campaign.entity';
+import { DunningFinalAction, DunningStepAction } from '../../enums/codes.const';
+
+/**
+ * 建立催收活動輸入
+ */
+export interface CreateDunningCampaignInput {
+  name: string;
+  description?: string;
+  isDefault?: boolean;
+  enabled?: boolean;
+  productIds?: string[];
+  steps: DunningStep[];
+  finalStep: DunningFinalStep;
+}
+
+export type UpdateDunningCampaignInput = Partial<CreateDunningCampaignInput>;
+
+/**
+ * 未設定任何活動時使用的內建排程：
+ * 第 0 天重試並寄信、第 3 天重試並發簡訊、第 7 天結束寬限期、第 14 天取消訂閱
+ */
+export function buildDefaultDunningCampaign(): DunningCampaignEntity {
+  const campaign = new DunningCampaignEntity(
+    'Default dunning',
+    [
+      { day: 0, actions: [DunningStepAction.RETRY_PAYMENT, DunningStepAction.SEND_EMAIL] },
+      { day: 3, actions: [DunningStepAction.RETRY_PAYMENT, DunningStepAction.SEND_SMS] },
+      { day: 7, actions: [DunningStepAction.END_GRACE_PERIOD] },
+    ],
+    { day: 14, action: DunningFinalAction.CANCEL },
+  );
+  campaign.isDefault = true;
+  return campaign;
+}
+
+/**
+ * 催收活動服務
+ * 管理可設定的催收排程，並依產品挑選訂閱適用的活動
+ */
+@Injectable()
+export class DunningCampaignService {
+  private readonly logger = new Logger(DunningCampaignService.name);
+
+  constructor(private readonly campaignRepository: DunningCampaignRepository) {}
+
+  /**
+   * 建立催收活動
+   */
+  public async createCampaign(input: CreateDunningCampaignInput): Promise<DunningCampaignEntity> {
+    const campaign = new DunningCampaignEntity(input.name, input.steps, input.finalStep);
+    campaign.description = input.description;
+    campaign.isDefault = !!input.isDefault;
+    campaign.enabled = input.enabled ?? true;
+    campaign.productIds = input.productIds || [];
+    campaign.validateSchedule();
+
+    const saved = await this.campaignRepository.save(campaign);
+    if (saved.isDefault) {
+      await this.campaignRepository.clearDefault(saved.id);
+    }
+
+    this.logger.log(`Dunning campaign ${saved.id} (${saved.name}) created`);
+    return saved;
+  }
+
+  /**
+   * 更新催收活動，進行中的流程沿用建立時的排程
+   */
+  public async updateCampaign(campaignId: string, changes: UpdateDunningCampaignInput): Promise<CustomDefinition.TNullable<DunningCampaignEntity>> {
+    const campaign = await this.campaignRepository.findById(campaignId);
+    if (!campaign) {
+      return undefined;
+    }
+
+    Object.assign(campaign, Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)));
+    campaign.validateSchedule();
+    campaign.touch();
+
+    const saved = await this.campaignRepository.save(campaign);
+    if (saved.isDefault) {
+      await this.campaignRepository.clearDefault(saved.id);
+    }
+    return saved;
+  }
+
+  /**
+   * 取得催收活動
+   */
+  public async getCampaign(campaignId: string): Promise<CustomDefinition.TNullable<DunningCampaignEntity>> {
+    return this.campaignRepository.findById(campaignId);
+  }
+
+  /**
+   * 列出所有催收活動
+   */
+  public async listCampaigns(): Promise<DunningCampaignEntity[]> {
+    return this.campaignRepository.findAll();
+  }
+
+  /**
+   * 挑選產品適用的活動：指定該產品者優先，其次為預設活動，都沒有時使用內建排程
+   */
+  public async resolveCampaign(productId: string): Promise<DunningCampaignEntity> {
+    const campaigns = (await this.campaignRepository.findAll()).filter((campaign) => campaign.appliesTo(productId));
+    return campaigns.find((campaign) => campaign.productIds.includes(productId)) || campaigns.find((campaign) => campaign.isDefault) || buildDefaultDunningCampaign();
+  }
+}
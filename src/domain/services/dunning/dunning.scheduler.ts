@@ -0,0 +1,55 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnApplicationShutdown } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { ConfService } from '@myapp/conf';
+import { DunningService } from './dunning.service';
+
+/** 催收排程名稱 */
+export const DUNNING_JOB = 'dunning';
+
+/**
+ * 催收排程
+ * 定期執行已到期的催收階段與最終處置
+ */
+@Injectable()
+export class DunningScheduler implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(DunningScheduler.name);
+  private running = false;
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly dunningService: DunningService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const { pollIntervalMs } = this.confService.getConf().dunning;
+    this.schedulerRegistry.addInterval(
+      DUNNING_JOB,
+      setInterval(() => this.run(), pollIntervalMs),
+    );
+  }
+
+  onApplicationShutdown() {
+    if (this.schedulerRegistry.doesExist('interval', DUNNING_JOB)) {
+      this.schedulerRegistry.deleteInterval(DUNNING_JOB);
+    }
+  }
+
+  private async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const processed = await this.dunningService.processDue(this.confService.getConf().dunning.batchSize);
+      if (processed > 0) {
+        this.logger.log(`Dunning processes advanced: ${processed}`);
+      }
+    } catch (error) {
+      this.logger.error(`Dunning run crashed: ${error.message}`, error.stack);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,319 @@
+import { Inject, Injectable, Logger, OnModuleInit, Optional, forwardRef } from '@nestjs/common';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { DunningProcessRepository, DunningProcessQuery, DunningStageCount } from '../../../infra/repositories/dunning-process.repository';
+import { SubscriptionRepository } from '../../../infra/repositories/subscription.repository';
+import { DomainEventBus, DomainEventMessage } from '../events/domain-event-bus.service';
+import { PaymentService } from '../payment.service';
+import { NotificationService } from '../notification/notification.service';
+import { DunningCampaignService } from './dunning-campaign.service';
+import { CustomerCreditService } from '../credits/customer-credit.service';
+import { DunningActionResult, DunningProcessEntity } from '../../entities/dunning-process.entity';
+import { PaymentEntity, SubscriptionEntity } from '../../entities';
+import { NotificationChannel, NotificationPriority, NotificationType } from '../../value-objects/notification';
+import { TransitionResult } from '../../value-objects/state-machine';
+import { BillingAttemptType, CancellationReason, DunningFinalAction, DunningStatus, DunningStepAction, SubscriptionStatus } from '../../enums/codes.const';
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 執行階段前佔用流程的時間，避免多個實例重複執行同一階段 */
+const STAGE_LEASE_MS = 5 * 60 * 1000;
+
+/** 催收動作的執行者 */
+const DUNNING_ACTOR = 'dunning';
+
+/**
+ * 催收流程服務
+ * 付款失敗時依訂閱適用的活動建立流程，按天數執行重試、通知與寬限期結束，
+ * 期限到時執行最終處置；付款成功或更換支付方式時自動結束
+ */
+@Injectable()
+export class DunningService implements OnModuleInit {
+  private readonly logger = new Logger(DunningService.name);
+
+  constructor(
+    private readonly processRepository: DunningProcessRepository,
+    private readonly subscriptionRepository: SubscriptionRepository,
+    private readonly campaignService: DunningCampaignService,
+    private readonly eventBus: DomainEventBus,
+    @Inject(forwardRef(() => PaymentService)) private readonly paymentService: PaymentService,
+    @Optional() private readonly notificationService?: NotificationService,
+    @Optional() private readonly customerCreditService?: CustomerCreditService,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.subscribe('payment.succeeded', 'dunning', (message) => this.onPaymentSucceeded(message));
+    this.eventBus.subscribe('subscription.payment_method.changed', 'dunning', (message) => this.onPaymentMethodChanged(message));
+  }
+
+  /**
+   * 付款失敗時啟動催收
+   * 訂閱已在催收中時只累計失敗次數；新流程會讓訂閱進入寬限期並立即執行第 0 天的步驟
+   */
+  public async handlePaymentFailure(subscription: SubscriptionEntity, payment: PaymentEntity, at: Date = new Date()): Promise<CustomDefinition.TNullable<DunningProcessEntity>> {
+    const active = await this.processRepository.findActiveBySubscriptionId(subscription.id);
+    if (active) {
+      await this.processRepository.incrementFailedAttempts(active.id);
+      return active;
+    }
+    if (subscription.isTerminated() || subscription.status === SubscriptionStatus.CANCELED) {
+      return undefined;
+    }
+
+    const campaign = await this.campaignService.resolveCampaign(subscription.productId);
+    const created = await this.processRepository.insert(new DunningProcessEntity(subscription.id, subscription.customerId, payment.id, campaign, at));
+    if (!created) {
+      // 同時有其他失敗已建立流程
+      return this.processRepository.findActiveBySubscriptionId(subscription.id);
+    }
+
+    if (![SubscriptionStatus.GRACE_PERIOD, SubscriptionStatus.PAST_DUE].includes(subscription.status)) {
+      const graceEnd = new Date(at.getTime() + campaign.getGracePeriodDays() * ONE_DAY_MS);
+      if (subscription.enterGracePeriod(graceEnd).isValid) {
+        await this.subscriptionRepository.save(subscription);
+      }
+    }
+
+    this.logger.log(`Dunning ${created.id} started for subscription ${subscription.id} with campaign ${created.campaignName}`);
+    return this.advance(created, at);
+  }
+
+  /**
+   * 執行流程所有已到期的階段
+   */
+  public async advance(process: DunningProcessEntity, at: Date = new Date()): Promise<DunningProcessEntity> {
+    while (process.isDue(at)) {
+      if (!(await this.runStage(process, at))) {
+        break;
+      }
+    }
+    return process;
+  }
+
+  /**
+   * 處理已到期的流程，回傳處理筆數
+   */
+  public async processDue(limit: number = 100, at: Date = new Date()): Promise<number> {
+    const processes = await this.processRepository.findDue(at, limit);
+    for (const process of processes) {
+      try {
+        await this.advance(process, at);
+      } catch (error) {
+        this.logger.error(`Failed to advance dunning ${process.id}: ${error.message}`, error.stack);
+      }
+    }
+    return processes.length;
+  }
+
+  /**
+   * 依狀態、階段與活動查詢流程
+   */
+  public async listProcesses(query: DunningProcessQuery = {}): Promise<{ processes: DunningProcessEntity[]; total: number; page: number; limit: number }> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const { processes, total } = await this.processRepository.findByQuery({ ...query, page, limit });
+    return { processes, total, page, limit };
+  }
+
+  /**
+   * 各階段的流程數，預設只統計進行中的流程
+   */
+  public async getStageSummary(status: DunningStatus = DunningStatus.ACTIVE): Promise<DunningStageCount[]> {
+    return this.processRepository.countByStage(status);
+  }
+
+  /**
+   * 訂閱的催收紀錄（新到舊）
+   */
+  public async getSubscriptionProcesses(subscriptionId: string): Promise<DunningProcessEntity[]> {
+    return this.processRepository.findBySubscriptionId(subscriptionId);
+  }
+
+  /**
+   * 提前結束流程，回傳是否由本次呼叫結束
+   */
+  public async exit(process: DunningProcessEntity, status: DunningStatus.RECOVERED | DunningStatus.EXITED, reason: string, at: Date = new Date()): Promise<boolean> {
+    const expected = { status: process.status, stage: process.stage };
+    process.end(status, reason, at);
+    const ended = await this.processRepository.transition(process, expected);
+    if (ended) {
+      this.logger.log(`Dunning ${process.id} ended as ${status}: ${reason}`);
+    }
+    return ended;
+  }
+
+  /**
+   * 執行下一個階段並寫回，流程已被其他實例處理或結束時回傳 false
+   */
+  private async runStage(process: DunningProcessEntity, at: Date): Promise<boolean> {
+    if (!(await this.processRepository.claim(process, new Date(Date.now() + STAGE_LEASE_MS)))) {
+      return false;
+    }
+
+    const subscription = await this.subscriptionRepository.findById(process.subscriptionId);
+    if (!subscription || subscription.isTerminated() || subscription.status === SubscriptionStatus.CANCELED) {
+      await this.exit(process, DunningStatus.EXITED, 'Subscription ended', at);
+      return false;
+    }
+    if (subscription.status === SubscriptionStatus.ACTIVE) {
+      await this.exit(process, DunningStatus.RECOVERED, 'Subscription active again', at);
+      return false;
+    }
+
+    const expected = { status: process.status, stage: process.stage };
+    if (process.isFinalDue()) {
+      process.complete(await this.executeFinalAction(process, subscription), at);
+      await this.releaseDrawnCredit(process);
+    } else {
+      const results: DunningActionResult[] = [];
+      for (const action of process.getNextStep().actions) {
+        results.push(await this.executeStepAction(action, process, subscription));
+      }
+      process.recordStep(results, at);
+    }
+
+    if (!(await this.processRepository.transition(process, expected))) {
+      this.logger.warn(`Dunning ${process.id} changed while running stage ${expected.stage}`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * 執行步驟動作，失敗時記錄原因但不中斷後續階段
+   */
+  private async executeStepAction(action: DunningStepAction, process: DunningProcessEntity, subscription: SubscriptionEntity): Promise<DunningActionResult> {
+    try {
+      switch (action) {
+        case DunningStepAction.RETRY_PAYMENT:
+          await this.paymentService.retryFailedPayment(process.paymentId, BillingAttemptType.AUTO_RETRY);
+          break;
+        case DunningStepAction.SEND_EMAIL:
+          await this.sendReminder(process, NotificationChannel.EMAIL);
+          break;
+        case DunningStepAction.SEND_SMS:
+          await this.sendReminder(process, NotificationChannel.SMS);
+          break;
+        case DunningStepAction.END_GRACE_PERIOD:
+          if (subscription.status === SubscriptionStatus.GRACE_PERIOD) {
+            this.assertTransition(
+              subscription.transitionToStatus(SubscriptionStatus.PAST_DUE, {
+                reason: 'Dunning grace period ended',
+                actor: DUNNING_ACTOR,
+                metadata: { paymentFailed: true },
+              }),
+            );
+            await this.subscriptionRepository.save(subscription);
+          }
+          break;
+      }
+      return { action, success: true };
+    } catch (error) {
+      this.logger.warn(`Dunning ${process.id} action ${action} failed: ${error.message}`);
+      return { action, success: false, error: error.message };
+    }
+  }
+
+  /**
+   * 執行最終處置
+   */
+  private async executeFinalAction(process: DunningProcessEntity, subscription: SubscriptionEntity): Promise<DunningActionResult> {
+    const action = process.finalStep.action;
+    try {
+      switch (action) {
+        case DunningFinalAction.CANCEL:
+          this.assertTransition(subscription.cancel(CancellationReason.PAYMENT_FAILED, DUNNING_ACTOR));
+          break;
+        case DunningFinalAction.PAUSE:
+          this.assertTransition(subscription.pause('Paused after unsuccessful dunning', DUNNING_ACTOR));
+          break;
+        case DunningFinalAction.MARK_UNPAID:
+          if (subscription.status !== SubscriptionStatus.PAST_DUE) {
+            this.assertTransition(
+              subscription.transitionToStatus(SubscriptionStatus.PAST_DUE, {
+                reason: 'Marked unpaid after unsuccessful dunning',
+                actor: DUNNING_ACTOR,
+                metadata: { paymentFailed: true },
+              }),
+            );
+          }
+          break;
+      }
+      await this.subscriptionRepository.save(subscription);
+      return { action, success: true };
+    } catch (error) {
+      this.logger.error(`Dunning ${process.id} final action ${action} failed: ${error.message}`);
+      return { action, success: false, error: error.message };
+    }
+  }
+
+  /**
+   * 催收結束後付款不再重試，退回該付款折抵的抵用金；失敗時記錄但不影響處置結果
+   */
+  private async releaseDrawnCredit(process: DunningProcessEntity): Promise<void> {
+    try {
+      await this.customerCreditService?.releaseDrawnCredit(process.paymentId, `Dunning ended with ${process.finalStep.action}`);
+    } catch (error) {
+      this.logger.error(`Dunning ${process.id} failed to release credit drawn by payment ${process.paymentId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * 以指定管道寄送付款失敗提醒，同一階段同一管道只寄一次
+   */
+  private async sendReminder(process: DunningProcessEntity, channel: NotificationChannel): Promise<void> {
+    if (!this.notificationService) {
+      throw new Error('Notification service is not available');
+    }
+
+    const payment = await this.paymentService.getPaymentById(process.paymentId);
+    const notification = await this.notificationService.notify({
+      customerId: process.customerId,
+      type: NotificationType.PAYMENT_FAILED,
+      priority: NotificationPriority.HIGH,
+      channels: [channel],
+      notificationId: `notif_dunning_${process.id}_${process.stage}_${channel.toLowerCase()}`,
+      variables: {
+        amount: payment?.getAmount().formatSimple(),
+        reason: payment?.failureReason,
+      },
+      metadata: { dunningId: process.id, subscriptionId: process.subscriptionId, paymentId: process.paymentId },
+    });
+    if (!notification) {
+      throw new Error(`Customer ${process.customerId} not found`);
+    }
+  }
+
+  private assertTransition(result: TransitionResult): void {
+    if (!result.isValid) {
+      throw new Error(result.message);
+    }
+  }
+
+  /**
+   * 付款成功時結束催收
+   */
+  private async onPaymentSucceeded(message: DomainEventMessage): Promise<void> {
+    const process = await this.processRepository.findActiveBySubscriptionId(message.payload.subscriptionId);
+    if (!process) {
+      return;
+    }
+    await this.exit(process, DunningStatus.RECOVERED, 'Payment succeeded');
+  }
+
+  /**
+   * 更換支付方式時結束催收，並以新支付方式重新扣款
+   * 重新扣款仍失敗時會以新的流程重新開始催收
+   */
+  private async onPaymentMethodChanged(message: DomainEventMessage): Promise<void> {
+    const process = await this.processRepository.findActiveBySubscriptionId(message.aggregateId);
+    if (!process || !(await this.exit(process, DunningStatus.EXITED, 'Payment method updated'))) {
+      return;
+    }
+
+    try {
+      await this.paymentService.retryFailedPayment(process.paymentId, BillingAttemptType.MANUAL_RETRY, message.payload.newPaymentMethodId);
+    } catch (error) {
+      this.logger.warn(`Failed to retry payment ${process.paymentId} after payment method change: ${error.message}`);
+    }
+  }
+}
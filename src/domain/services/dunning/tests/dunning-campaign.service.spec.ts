@@ -0,0 +1,84 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DunningCampaignService } from '../dunning-campaign.service';
+import { DunningCampaignRepository } from '../../../../infra/repositories/dunning-campaign.repository';
+import { DunningCampaignEntity } from '../../../entities/dunning-campaign.entity';
+import { DunningFinalAction, DunningStepAction } from '../../../enums/codes.const';
+
+describe('DunningCampaignService', () => {
+  let moduleRef: TestingModule;
+  let service: DunningCampaignService;
+  let campaigns: DunningCampaignEntity[];
+
+  const repository = {
+    save: jest.fn(async (campaign: DunningCampaignEntity) => {
+      if (!campaign.id) {
+        campaign.id = `camp_${campaigns.length + 1}`;
+        campaigns.unshift(campaign);
+      }
+      return campaign;
+    }),
+    findAll: jest.fn(async () => campaigns),
+    clearDefault: jest.fn(async (exceptId: string) => campaigns.filter((c) => c.id !== exceptId).forEach((c) => (c.isDefault = false))),
+  };
+
+  const create = (name: string, extra: Record<string, any> = {}) =>
+    service.createCampaign({
+      name,
+      steps: [{ day: 0, actions: [DunningStepAction.RETRY_PAYMENT] }],
+      finalStep: { day: 7, action: DunningFinalAction.MARK_UNPAID },
+      ...extra,
+    });
+
+  beforeEach(async () => {
+    campaigns = [];
+    moduleRef = await Test.createTestingModule({
+      providers: [DunningCampaignService, { provide: DunningCampaignRepository, useValue: repository }],
+    }).compile();
+
+    service = moduleRef.get(DunningCampaignService);
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('rejects schedules that are out of order or end the grace period twice', async () => {
+    await expect(
+      create('Unordered', {
+        steps: [
+          { day: 3, actions: [DunningStepAction.SEND_EMAIL] },
+          { day: 1, actions: [DunningStepAction.SEND_SMS] },
+        ],
+      }),
+    ).rejects.toThrow('Invalid dunning schedule');
+    await expect(
+      create('Twice', {
+        steps: [
+          { day: 1, actions: [DunningStepAction.END_GRACE_PERIOD] },
+          { day: 2, actions: [DunningStepAction.END_GRACE_PERIOD] },
+        ],
+      }),
+    ).rejects.toThrow('grace period can only end once');
+    await expect(create('Early final', { finalStep: { day: -1, action: DunningFinalAction.CANCEL } })).rejects.toThrow('final action');
+  });
+
+  it('keeps a single default campaign', async () => {
+    const first = await create('First', { isDefault: true });
+    const second = await create('Second', { isDefault: true });
+
+    expect(first.isDefault).toBe(false);
+    expect(second.isDefault).toBe(true);
+  });
+
+  it('prefers a product campaign, then the default, then the built-in schedule', async () => {
+    expect((await service.resolveCampaign('prod_1')).name).toBe('Default dunning');
+
+    await create('Fallback', { isDefault: true });
+    await create('Disabled', { productIds: ['prod_1'], enabled: false });
+    expect((await service.resolveCampaign('prod_1')).name).toBe('Fallback');
+
+    await create('Product', { productIds: ['prod_1'] });
+    expect((await service.resolveCampaign('prod_1')).name).toBe('Product');
+    expect((await service.resolveCampaign('prod_2')).name).toBe('Fallback');
+  });
+});
@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DunningService } from '../dunning.service';
+import { DunningCampaignService, buildDefaultDunningCampaign } from '../dunning-campaign.service';
+import { DunningProcessRepository } from '../../../../infra/repositories/dunning-process.repository';
+import { SubscriptionRepository } from '../../../../infra/repositories/subscription.repository';
+import { DomainEventBus } from '../../events/domain-event-bus.service';
+import { PaymentService } from '../../payment.service';
+import { NotificationService } from '../../notification/notification.service';
+import { CustomerCreditService } from '../../credits/customer-credit.service';
+import { DunningProcessEntity } from '../../../entities/dunning-process.entity';
+import { PaymentEntity, SubscriptionEntity } from '../../../entities';
+import { NotificationChannel } from '../../../value-objects/notification';
+import { BillingAttemptType, BillingCycle, DunningFinalAction, DunningStatus, DunningStepAction, SubscriptionStatus } from '../../../enums/codes.const';
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('DunningService', () => {
+  const start = new Date(2026, 0, 10, 9);
+  const day = (n: number) => new Date(start.getTime() + n * ONE_DAY_MS);
+
+  let moduleRef: TestingModule;
+  let service: DunningService;
+  let stored: DunningProcessEntity[];
+  let subscription: SubscriptionEntity;
+  let payment: PaymentEntity;
+  let campaign = buildDefaultDunningCampaign();
+  const handlers: Record<string, (message: any) => Promise<void>> = {};
+
+  // 以複本模擬資料庫中的文件，條件更新的行為對應 DunningProcessRepository
+  const clone = (process: DunningProcessEntity) => Object.assign(Object.create(DunningProcessEntity.prototype), { ...process, history: [...process.history] });
+  const find = (id: string) => stored.find((p) => p.id === id);
+
+  const processRepository = {
+    insert: jest.fn(async (process: DunningProcessEntity) => {
+      if (stored.some((p) => p.subscriptionId === process.subscriptionId && p.isActive())) {
+        return undefined;
+      }
+      process.id = `dun_${stored.length + 1}`;
+      stored.push(clone(process));
+      return process;
+    }),
+    claim: jest.fn(async (process: DunningProcessEntity, leaseUntil: Date) => {
+      const current = find(process.id);
+      if (!current.isActive() || current.stage !== process.stage || current.nextActionAt?.getTime() !== process.nextActionAt?.getTime()) {
+        return false;
+      }
+      current.nextActionAt = leaseUntil;
+      return true;
+    }),
+    transition: jest.fn(async (process: DunningProcessEntity, expected: { status: DunningStatus; stage: number }) => {
+      const index = stored.findIndex((p) => p.id === process.id);
+      if (stored[index].status !== expected.status || stored[index].stage !== expected.stage) {
+        return false;
+      }
+      stored[index] = clone(process);
+      return true;
+    }),
+    incrementFailedAttempts: jest.fn(async (id: string) => {
+      find(id).failedAttempts += 1;
+    }),
+    findActiveBySubscriptionId: jest.fn(async (id: string) => {
+      const process = stored.find((p) => p.subscriptionId === id && p.isActive());
+      return process ? clone(process) : undefined;
+    }),
+    findDue: jest.fn(async (at: Date) => stored.filter((p) => p.isDue(at)).map(clone)),
+  };
+  const paymentService = {
+    retryFailedPayment: jest.fn(async () => payment),
+    getPaymentById: jest.fn(async () => payment),
+  };
+  const notificationService = { notify: jest.fn(async () => ({})) };
+  const customerCreditService = { releaseDrawnCredit: jest.fn(async () => undefined) };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: start });
+    jest.clearAllMocks();
+    stored = [];
+    campaign = buildDefaultDunningCampaign();
+
+    subscription = new SubscriptionEntity('64b7f0c2a1b2c3d4e5f60002', 'pm_old', 'Basic', 1000, BillingCycle.MONTHLY);
+    subscription.id = '64b7f0c2a1b2c3d4e5f60001';
+    subscription.activate({ metadata: { paymentSuccessful: true } });
+    payment = new PaymentEntity(subscription.id, subscription.customerId, 'pm_old', 1000, start, day(30));
+    payment.id = '64b7f0c2a1b2c3d4e5f60003';
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        DunningService,
+        { provide: DunningProcessRepository, useValue: processRepository },
+        { provide: SubscriptionRepository, useValue: { findById: jest.fn(async () => subscription), save: jest.fn(async (s) => s) } },
+        { provide: DunningCampaignService, useValue: { resolveCampaign: jest.fn(async () => campaign) } },
+        { provide: DomainEventBus, useValue: { subscribe: jest.fn((type, name, handler) => (handlers[type] = handler)) } },
+        { provide: PaymentService, useValue: paymentService },
+        { provide: NotificationService, useValue: notificationService },
+        { provide: CustomerCreditService, useValue: customerCreditService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(DunningService);
+    service.onModuleInit();
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await moduleRef.close();
+  });
+
+  it('enters the grace period and runs the day-0 retry and email on the first failure', async () => {
+    const process = await service.handlePaymentFailure(subscription, payment);
+
+    expect(subscription.status).toBe(SubscriptionStatus.GRACE_PERIOD);
+    expect(subscription.metadata.gracePeriodEndDate).toEqual(day(7));
+    expect(paymentService.retryFailedPayment).toHaveBeenCalledWith(payment.id, BillingAttemptType.AUTO_RETRY);
+    expect(notificationService.notify).toHaveBeenCalledWith(expect.objectContaining({ channels: [NotificationChannel.EMAIL], notificationId: 'notif_dunning_dun_1_0_email' }));
+    expect(process).toMatchObject({ status: DunningStatus.ACTIVE, stage: 1, stageDay: 0, nextActionAt: day(3) });
+    expect(find('dun_1').history[0].results).toEqual([
+      { action: DunningStepAction.RETRY_PAYMENT, success: true },
+      { action: DunningStepAction.SEND_EMAIL, success: true },
+    ]);
+  });
+
+  it('counts further failures on the running process instead of starting another', async () => {
+    await service.handlePaymentFailure(subscription, payment);
+    await service.handlePaymentFailure(subscription, payment);
+
+    expect(stored).toHaveLength(1);
+    expect(find('dun_1').failedAttempts).toBe(1);
+  });
+
+  it('escalates through the schedule and cancels the subscription on the final day', async () => {
+    await service.handlePaymentFailure(subscription, payment);
+
+    jest.setSystemTime(day(3));
+    await service.processDue(100, day(3));
+    expect(notificationService.notify).toHaveBeenLastCalledWith(expect.objectContaining({ channels: [NotificationChannel.SMS] }));
+    expect(find('dun_1')).toMatchObject({ stage: 2, nextActionAt: day(7) });
+
+    // 排程延誤時一次補跑所有到期階段
+    jest.setSystemTime(day(15));
+    await service.processDue(100, day(15));
+
+    expect(subscription.status).toBe(SubscriptionStatus.CANCELED);
+    expect(subscription.statusHistory.map((h) => h.toStatus)).toContain(SubscriptionStatus.PAST_DUE);
+    expect(find('dun_1')).toMatchObject({ status: DunningStatus.COMPLETED, stage: 4, stageDay: 14, nextActionAt: undefined });
+    expect(customerCreditService.releaseDrawnCredit).toHaveBeenCalledWith(payment.id, `Dunning ended with ${DunningFinalAction.CANCEL}`);
+  });
+
+  it('records a failed action without stopping the campaign', async () => {
+    paymentService.retryFailedPayment.mockRejectedValueOnce(new Error('Payment is not awaiting retry'));
+
+    await service.handlePaymentFailure(subscription, payment);
+
+    expect(find('dun_1').stage).toBe(1);
+    expect(find('dun_1').history[0].results[0]).toEqual({ action: DunningStepAction.RETRY_PAYMENT, success: false, error: 'Payment is not awaiting retry' });
+  });
+
+  it('pauses the subscription when the campaign ends with a pause', async () => {
+    campaign.finalStep = { day: 14, action: DunningFinalAction.PAUSE };
+    await service.handlePaymentFailure(subscription, payment);
+
+    jest.setSystemTime(day(14));
+    await service.processDue(100, day(14));
+
+    expect(subscription.status).toBe(SubscriptionStatus.PAUSED);
+    expect(find('dun_1').status).toBe(DunningStatus.COMPLETED);
+  });
+
+  it('stops as recovered when the payment succeeds', async () => {
+    await service.handlePaymentFailure(subscription, payment);
+
+    await handlers['payment.succeeded']({ aggregateId: payment.id, payload: { subscriptionId: subscription.id } });
+    jest.setSystemTime(day(3));
+    await service.processDue(100, day(3));
+
+    expect(find('dun_1')).toMatchObject({ status: DunningStatus.RECOVERED, exitReason: 'Payment succeeded', stage: 1 });
+    expect(notificationService.notify).toHaveBeenCalledTimes(1);
+  });
+
+  it('exits and retries with the new card when the payment method changes', async () => {
+    await service.handlePaymentFailure(subscription, payment);
+
+    await handlers['subscription.payment_method.changed']({ aggregateId: subscription.id, payload: { newPaymentMethodId: 'pm_new' } });
+
+    expect(find('dun_1')).toMatchObject({ status: DunningStatus.EXITED, exitReason: 'Payment method updated' });
+    expect(paymentService.retryFailedPayment).toHaveBeenLastCalledWith(payment.id, BillingAttemptType.MANUAL_RETRY, 'pm_new');
+  });
+
+  it('skips a stage another instance has already claimed', async () => {
+    await service.handlePaymentFailure(subscription, payment);
+    const [due] = await processRepository.findDue(day(3));
+    await processRepository.claim(clone(due), day(4));
+
+    await service.advance(due, day(3));
+
+    expect(find('dun_1').stage).toBe(1);
+    expect(paymentService.retryFailedPayment).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,235 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { ConfService } from '@myapp/conf';
+import {
+  IEInvoiceProvider,
+  EInvoiceIssueRequest,
+  EInvoiceIssueResult,
+  EInvoiceVoidRequest,
+  EInvoiceOperationResult,
+  EInvoiceAllowanceRequest,
+  EInvoiceAllowanceResult,
+  EInvoiceItem,
+} from '../../interfaces/einvoice/einvoice-provider.interface';
+import { EInvoiceRecipientType } from '../../enums/codes.const';
+import { EInvoicePreference } from '../../utils/einvoice.util';
+
+/** 綠界載具類別代碼 */
+const ECPAY_CARRIER_TYPES: Partial<Record<EInvoiceRecipientType, string>> = {
+  [EInvoiceRecipientType.MEMBER]: '1',
+  [EInvoiceRecipientType.CITIZEN_CERTIFICATE]: '2',
+  [EInvoiceRecipientType.MOBILE_BARCODE]: '3',
+};
+
+/**
+ * 綠界 B2C 電子發票供應商
+ * Data 欄位以 URL 編碼後的 JSON 經 AES-128-CBC 加密傳送，回應以相同方式解密
+ */
+@Injectable()
+export class ECPayEInvoiceProvider implements IEInvoiceProvider {
+  private readonly logger = new Logger(ECPayEInvoiceProvider.name);
+
+  constructor(private readonly confService: ConfService) {}
+
+  getName(): string {
+    return 'ecpay';
+  }
+
+  /**
+   * 檢查特店設定是否完整
+   */
+  isConfigured(): boolean {
+    const { merchantID, hashKey, hashIV } = this.confService.getConf().einvoice;
+    return Boolean(merchantID && hashKey && hashIV);
+  }
+
+  /**
+   * 開立發票
+   */
+  async issue(request: EInvoiceIssueRequest): Promise<EInvoiceIssueResult> {
+    const { merchantID } = this.confService.getConf().einvoice;
+    const data = {
+      MerchantID: merchantID,
+      RelateNumber: request.relateNumber,
+      CustomerEmail: request.buyer.email || '',
+      CustomerPhone: request.buyer.phone || '',
+      ...this.recipientFields(request.recipient, request.buyer.name),
+      TaxType: '1',
+      SalesAmount: request.salesAmount,
+      InvoiceRemark: request.remark || '',
+      InvType: '07',
+      vat: '1',
+      Items: this.toItems(request.items),
+    };
+
+    const result = await this.call('Issue', data);
+    if (!result.success) {
+      return result;
+    }
+
+    return {
+      success: true,
+      invoiceNumber: result.data.InvoiceNo,
+      invoiceDate: this.parseDate(result.data.InvoiceDate),
+      randomNumber: result.data.RandomNumber,
+    };
+  }
+
+  /**
+   * 作廢發票
+   */
+  async void(request: EInvoiceVoidRequest): Promise<EInvoiceOperationResult> {
+    const { merchantID } = this.confService.getConf().einvoice;
+    const result = await this.call('Invalid', {
+      MerchantID: merchantID,
+      InvoiceNo: request.invoiceNumber,
+      InvoiceDate: this.formatDate(request.invoiceDate),
+      Reason: request.reason.slice(0, 20),
+    });
+
+    return { success: result.success, errorCode: result.errorCode, errorMessage: result.errorMessage };
+  }
+
+  /**
+   * 開立折讓，有 Email 時由綠界寄送折讓通知
+   */
+  async allowance(request: EInvoiceAllowanceRequest): Promise<EInvoiceAllowanceResult> {
+    const { merchantID } = this.confService.getConf().einvoice;
+    const result = await this.call('Allowance', {
+      MerchantID: merchantID,
+      InvoiceNo: request.invoiceNumber,
+      InvoiceDate: this.formatDate(request.invoiceDate),
+      AllowanceNotify: request.buyer.email ? 'E' : 'N',
+      CustomerName: request.buyer.name || '',
+      NotifyMail: request.buyer.email || '',
+      AllowanceAmount: request.allowanceAmount,
+      Items: this.toItems(request.items),
+    });
+    if (!result.success) {
+      return result;
+    }
+
+    return {
+      success: true,
+      allowanceNumber: result.data.IA_Allow_No,
+      remainingAmount: Number(result.data.IA_Remain_Allowance_Amt),
+    };
+  }
+
+  /**
+   * 依收受方式設定載具、統一編號或捐贈欄位
+   */
+  private recipientFields(recipient: EInvoicePreference, buyerName?: string): Record<string, string> {
+    const fields = {
+      CustomerName: buyerName || '',
+      CustomerIdentifier: '',
+      CustomerAddr: '',
+      Print: '0',
+      Donation: '0',
+      LoveCode: '',
+      CarrierType: ECPAY_CARRIER_TYPES[recipient.type] || '',
+      CarrierNum: recipient.carrierNumber || '',
+    };
+
+    if (recipient.type === EInvoiceRecipientType.COMPANY) {
+      return { ...fields, CustomerName: recipient.companyName, CustomerIdentifier: recipient.taxId, CustomerAddr: recipient.address || '', Print: '1' };
+    }
+    if (recipient.type === EInvoiceRecipientType.DONATION) {
+      return { ...fields, Donation: '1', LoveCode: recipient.loveCode };
+    }
+    return fields;
+  }
+
+  private toItems(items: EInvoiceItem[]) {
+    return items.map((item, index) => ({
+      ItemSeq: index + 1,
+      ItemName: item.name.slice(0, 100),
+      ItemCount: item.quantity,
+      ItemWord: item.unit,
+      ItemPrice: item.unitPrice,
+      ItemTaxType: '1',
+      ItemAmount: item.amount,
+    }));
+  }
+
+  /**
+   * 呼叫綠界 API 並解密回應，RtnCode 為 1 時表示成功
+   */
+  private async call(action: string, data: Record<string, any>): Promise<EInvoiceOperationResult & { data?: Record<string, any> }> {
+    const { merchantID, apiBaseUrl, timeoutMs } = this.confService.getConf().einvoice;
+
+    try {
+      const response = await fetch(`${apiBaseUrl}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          MerchantID: merchantID,
+          RqHeader: { Timestamp: Math.floor(Date.now() / 1000) },
+          Data: this.encrypt(data),
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        return { success: false, errorCode: `HTTP_${response.status}`, errorMessage: `ECPay e-invoice ${action} returned HTTP ${response.status}` };
+      }
+
+      const body = await response.json();
+      if (Number(body.TransCode) !== 1) {
+        return { success: false, errorCode: `TRANS_${body.TransCode}`, errorMessage: body.TransMsg };
+      }
+
+      const result = this.decrypt(body.Data);
+      if (Number(result.RtnCode) !== 1) {
+        return { success: false, errorCode: String(result.RtnCode), errorMessage: result.RtnMsg };
+      }
+      return { success: true, data: result };
+    } catch (error) {
+      this.logger.error(`ECPay e-invoice ${action} failed: ${error.message}`);
+      return { success: false, errorCode: 'REQUEST_FAILED', errorMessage: error.message };
+    }
+  }
+
+  /**
+   * 加密 Data：JSON → URL 編碼 → AES-128-CBC → Base64
+   */
+  encrypt(data: Record<string, any>): string {
+    const { hashKey, hashIV } = this.confService.getConf().einvoice;
+    const cipher = crypto.createCipheriv('aes-128-cbc', Buffer.from(hashKey), Buffer.from(hashIV));
+    return Buffer.concat([cipher.update(this.urlEncode(JSON.stringify(data)), 'utf8'), cipher.final()]).toString('base64');
+  }
+
+  /**
+   * 解密 Data：Base64 → AES-128-CBC → URL 解碼 → JSON
+   */
+  decrypt(encrypted: string): Record<string, any> {
+    const { hashKey, hashIV } = this.confService.getConf().einvoice;
+    const decipher = crypto.createDecipheriv('aes-128-cbc', Buffer.from(hashKey), Buffer.from(hashIV));
+    const decoded = Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+    return JSON.parse(decodeURIComponent(decoded.replace(/\+/g, ' ')));
+  }
+
+  /**
+   * 與 PHP urlencode 相同的編碼方式（空白轉為 +）
+   */
+  private urlEncode(value: string): string {
+    return encodeURIComponent(value)
+      .replace(/[!'()*~]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+      .replace(/%20/g, '+');
+  }
+
+  /**
+   * 綠界日期格式（台灣時間 yyyy-MM-dd）
+   */
+  private formatDate(date: Date): string {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: 'Asia/Taipei', year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+  }
+
+  /**
+   * 解析綠界回傳的台灣時間（yyyy-MM-dd HH:mm:ss 或 yyyy/MM/dd HH:mm:ss）
+   */
+  private parseDate(value: string): Date {
+    const normalized = (value || '').replace(/\//g, '-').replace(' ', 'T');
+    const parsed = new Date(`${normalized}+08:00`);
+    return Number.isNaN(parsed.getTime()) ? new Date() : parsed;
+  }
+}
@@ -0,0 +1,49 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { IEInvoiceProvider } from '../../interfaces/einvoice';
+
+/**
+ * 電子發票供應商註冊表
+ * 依名稱管理供應商，未指定時使用預設供應商
+ */
+@Injectable()
+export class EInvoiceProviderRegistry {
+  private readonly logger = new Logger(EInvoiceProviderRegistry.name);
+  private readonly providers: Map<string, IEInvoiceProvider> = new Map();
+  private defaultProvider: string = 'mock';
+
+  /**
+   * 註冊供應商
+   */
+  register(provider: IEInvoiceProvider): void {
+    this.logger.log(`Registering e-invoice provider: ${provider.getName()}`);
+    this.providers.set(provider.getName(), provider);
+  }
+
+  /**
+   * 取得供應商，發票開立後應以當時的供應商處理後續作廢與折讓
+   */
+  get(name?: string): IEInvoiceProvider {
+    const providerName = name || this.defaultProvider;
+    const provider = this.providers.get(providerName);
+    if (!provider) {
+      throw new Error(`E-invoice provider '${providerName}' not found`);
+    }
+    return provider;
+  }
+
+  /**
+   * 設定預設供應商
+   */
+  setDefaultProvider(name: string): void {
+    if (!this.providers.has(name)) {
+      throw new Error(`E-invoice provider '${name}' is not registered`);
+    }
+
+    this.defaultProvider = name;
+    this.logger.log(`Default e-invoice provider set to: ${name}`);
+  }
+
+  getDefaultProviderName(): string {
+    return this.defaultProvider;
+  }
+}
@@ -0,0 +1,38 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfService } from '@myapp/conf';
+import { EInvoiceProviderRegistry } from './einvoice-provider-registry.service';
+import { MockEInvoiceProvider } from './mock-einvoice-provider.service';
+import { ECPayEInvoiceProvider } from './ecpay-einvoice-provider.service';
+import { ConfModule } from '../../../../libs/conf/src/conf.module';
+
+/**
+ * 電子發票供應商模組
+ * 註冊 Mock 與綠界供應商，並依設定選擇預設供應商
+ */
+@Module({
+  imports: [ConfModule],
+  providers: [EInvoiceProviderRegistry, MockEInvoiceProvider, ECPayEInvoiceProvider],
+  exports: [EInvoiceProviderRegistry, MockEInvoiceProvider],
+})
+export class EInvoiceModule {
+  private readonly logger = new Logger(EInvoiceModule.name);
+
+  constructor(
+    private readonly registry: EInvoiceProviderRegistry,
+    private readonly mockProvider: MockEInvoiceProvider,
+    private readonly ecpayProvider: ECPayEInvoiceProvider,
+    private readonly confService: ConfService,
+  ) {
+    this.registry.register(this.mockProvider);
+    if (this.ecpayProvider.isConfigured()) {
+      this.registry.register(this.ecpayProvider);
+    }
+
+    const { provider } = this.confService.getConf().einvoice;
+    if (provider === this.ecpayProvider.getName() && !this.ecpayProvider.isConfigured()) {
+      this.logger.warn('ECPay e-invoice is not configured, falling back to mock provider');
+      return;
+    }
+    this.registry.setDefaultProvider(provider);
+  }
+}
@@ -0,0 +1,183 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfService } from '@myapp/conf';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { DomainEventBus } from '../events/domain-event-bus.service';
+import { InvoiceService } from '../invoices/invoice.service';
+import { EInvoiceProviderRegistry } from './einvoice-provider-registry.service';
+import { InvoiceRepository } from '../../../infra/repositories/invoice.repository';
+import { PaymentRepository } from '../../../infra/repositories/payment.repository';
+import { CustomerRepository } from '../../../infra/repositories/customer.repository';
+import { EInvoiceBuyer, EInvoiceItem } from '../../interfaces/einvoice';
+import { InvoiceEntity } from '../../entities/invoice.entity';
+import { EInvoiceRecipientType, InvoiceLineItemType } from '../../enums/codes.const';
+import { Money } from '../../value-objects/money';
+import { eInvoicePeriodOf } from '../../utils/einvoice.util';
+
+/** 電子發票僅適用新台幣 */
+const EINVOICE_CURRENCY = 'TWD';
+
+/**
+ * 電子發票服務
+ * 扣款成功後依客戶的收受設定開立電子發票並回寫付款；退款時當期全額退款作廢，其餘開立折讓
+ * 供應商失敗時拋出例外，由事件匯流排重試
+ */
+@Injectable()
+export class EInvoiceService implements OnModuleInit {
+  private readonly logger = new Logger(EInvoiceService.name);
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly providerRegistry: EInvoiceProviderRegistry,
+    private readonly invoiceService: InvoiceService,
+    private readonly invoiceRepository: InvoiceRepository,
+    private readonly paymentRepository: PaymentRepository,
+    private readonly customerRepository: CustomerRepository,
+    private readonly eventBus: DomainEventBus,
+  ) {}
+
+  onModuleInit() {
+    if (!this.confService.getConf().einvoice.enabled) {
+      return;
+    }
+
+    this.eventBus.subscribe('payment.succeeded', 'einvoices', async (message) => {
+      await this.issueForPayment(message.aggregateId);
+    });
+    this.eventBus.subscribe('payment.refunded', 'einvoices', async (message) => {
+      const { refundId, amount } = message.payload;
+      await this.handleRefund(message.aggregateId, refundId || message.eventId, Money.fromJSON(amount));
+    });
+  }
+
+  /**
+   * 為付款開立電子發票，發票尚未建立時先建立，已開立時直接回傳
+   */
+  public async issueForPayment(paymentId: string): Promise<CustomDefinition.TNullable<InvoiceEntity>> {
+    const invoice = await this.invoiceService.createForPayment(paymentId);
+    if (!invoice || invoice.eInvoice || invoice.currency !== EINVOICE_CURRENCY) {
+      return invoice;
+    }
+
+    // 開立金額以實際付款金額為準
+    const payment = await this.paymentRepository.findById(paymentId);
+    const salesAmount = this.toMajorUnit(payment?.amount ?? invoice.total);
+    if (salesAmount <= 0) {
+      return invoice;
+    }
+
+    const customer = await this.customerRepository.findById(invoice.customerId);
+    const recipient = customer?.eInvoicePreference || { type: EInvoiceRecipientType.MEMBER };
+    const provider = this.providerRegistry.get();
+
+    const result = await provider.issue({
+      relateNumber: invoice.id,
+      buyer: this.buyerOf(invoice, customer?.phone),
+      recipient,
+      items: this.toItems(invoice, salesAmount),
+      salesAmount,
+      remark: invoice.invoiceNumber,
+    });
+    if (!result.success) {
+      throw new Error(`E-invoice issuance for invoice ${invoice.invoiceNumber} failed: [${result.errorCode}] ${result.errorMessage}`);
+    }
+
+    invoice.recordEInvoice({
+      provider: provider.getName(),
+      invoiceNumber: result.invoiceNumber,
+      invoiceDate: result.invoiceDate || new Date(),
+      randomNumber: result.randomNumber,
+      recipient,
+      salesAmount,
+    });
+    await this.invoiceRepository.save(invoice);
+
+    if (payment) {
+      payment.invoiceNumber = result.invoiceNumber;
+      await this.paymentRepository.save(payment);
+    }
+
+    this.logger.log(`E-invoice ${result.invoiceNumber} issued for payment ${paymentId}`);
+    return invoice;
+  }
+
+  /**
+   * 依退款作廢或折讓電子發票
+   * 當期且未折讓過的全額退款作廢發票，跨期或部分退款開立折讓
+   */
+  public async handleRefund(paymentId: string, refundId: string, amount: Money): Promise<CustomDefinition.TNullable<InvoiceEntity>> {
+    const invoice = await this.invoiceRepository.findByPaymentId(paymentId);
+    if (!invoice?.eInvoice || invoice.hasHandledRefund(refundId)) {
+      return invoice;
+    }
+
+    const remaining = invoice.getEInvoiceRemainingAmount();
+    const refundAmount = Math.min(this.toMajorUnit(amount.amount), remaining);
+    if (refundAmount <= 0) {
+      return invoice;
+    }
+
+    const { eInvoice } = invoice;
+    const provider = this.providerRegistry.get(eInvoice.provider);
+    const samePeriod = eInvoicePeriodOf(eInvoice.invoiceDate) === eInvoicePeriodOf(new Date());
+    const payment = await this.paymentRepository.findById(paymentId);
+    const fullRefund = payment ? amount.amount >= payment.amount : refundAmount === eInvoice.salesAmount;
+
+    if (samePeriod && eInvoice.allowances.length === 0 && fullRefund) {
+      const reason = `Refund ${refundId}`;
+      const result = await provider.void({ invoiceNumber: eInvoice.invoiceNumber, invoiceDate: eInvoice.invoiceDate, reason });
+      if (!result.success) {
+        throw new Error(`Voiding e-invoice ${eInvoice.invoiceNumber} failed: [${result.errorCode}] ${result.errorMessage}`);
+      }
+
+      invoice.recordEInvoiceVoided(reason);
+      this.logger.log(`E-invoice ${eInvoice.invoiceNumber} voided for refund ${refundId}`);
+    } else {
+      const planItem = invoice.lineItems.find((item) => item.type === InvoiceLineItemType.PLAN);
+      const result = await provider.allowance({
+        invoiceNumber: eInvoice.invoiceNumber,
+        invoiceDate: eInvoice.invoiceDate,
+        buyer: this.buyerOf(invoice),
+        items: [{ name: planItem?.description || 'Subscription', quantity: 1, unit: '式', unitPrice: refundAmount, amount: refundAmount }],
+        allowanceAmount: refundAmount,
+      });
+      if (!result.success) {
+        throw new Error(`E-invoice allowance for ${eInvoice.invoiceNumber} failed: [${result.errorCode}] ${result.errorMessage}`);
+      }
+
+      invoice.recordEInvoiceAllowance({ allowanceNumber: result.allowanceNumber, amount: refundAmount, refundId, issuedAt: new Date() });
+      this.logger.log(`E-invoice allowance ${result.allowanceNumber} of NT$${refundAmount} issued on ${eInvoice.invoiceNumber}`);
+    }
+
+    return this.invoiceRepository.save(invoice);
+  }
+
+  private buyerOf(invoice: InvoiceEntity, phone?: string): EInvoiceBuyer {
+    return { customerId: invoice.customerId, name: invoice.billTo.name, email: invoice.billTo.email, phone };
+  }
+
+  /**
+   * 將發票明細（皆為含稅金額）轉為品項，四捨五入的尾差併入金額最大的品項
+   */
+  private toItems(invoice: InvoiceEntity, salesAmount: number): EInvoiceItem[] {
+    const lines = invoice.lineItems.filter((item) => item.type !== InvoiceLineItemType.TAX);
+    const items: EInvoiceItem[] = lines.map((line) => {
+      const amount = this.toMajorUnit(line.amount);
+      return { name: line.description, quantity: 1, unit: '式', unitPrice: amount, amount };
+    });
+
+    const difference = salesAmount - items.reduce((sum, item) => sum + item.amount, 0);
+    if (difference !== 0) {
+      const largest = items.reduce((max, item) => (item.amount > max.amount ? item : max));
+      largest.amount += difference;
+      largest.unitPrice = largest.amount;
+    }
+    return items;
+  }
+
+  /**
+   * 最小貨幣單位轉為新台幣元（四捨五入）
+   */
+  private toMajorUnit(amount: number): number {
+    return Math.round(new Money(Math.round(amount), EINVOICE_CURRENCY).amountInMajorUnit);
+  }
+}
@@ -0,0 +1,105 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  IEInvoiceProvider,
+  EInvoiceIssueRequest,
+  EInvoiceIssueResult,
+  EInvoiceVoidRequest,
+  EInvoiceOperationResult,
+  EInvoiceAllowanceRequest,
+  EInvoiceAllowanceResult,
+} from '../../interfaces/einvoice/einvoice-provider.interface';
+
+interface MockIssuedInvoice {
+  invoiceNumber: string;
+  invoiceDate: Date;
+  randomNumber: string;
+  salesAmount: number;
+  allowedAmount: number;
+  voided: boolean;
+}
+
+/**
+ * Mock 電子發票供應商
+ * 於記憶體中配號，供本機開發與測試使用
+ */
+@Injectable()
+export class MockEInvoiceProvider implements IEInvoiceProvider {
+  private readonly logger = new Logger(MockEInvoiceProvider.name);
+  private readonly invoices: Map<string, MockIssuedInvoice> = new Map();
+  private readonly relateNumbers: Map<string, string> = new Map();
+  private sequence = 0;
+  private allowanceSequence = 0;
+
+  getName(): string {
+    return 'mock';
+  }
+
+  /**
+   * 開立模擬發票，相同 relateNumber 回傳原發票
+   */
+  async issue(request: EInvoiceIssueRequest): Promise<EInvoiceIssueResult> {
+    const existing = this.invoices.get(this.relateNumbers.get(request.relateNumber));
+    if (existing) {
+      return { success: true, invoiceNumber: existing.invoiceNumber, invoiceDate: existing.invoiceDate, randomNumber: existing.randomNumber };
+    }
+
+    const itemsTotal = request.items.reduce((sum, item) => sum + item.amount, 0);
+    if (itemsTotal !== request.salesAmount) {
+      return { success: false, errorCode: 'AMOUNT_MISMATCH', errorMessage: `Items total ${itemsTotal} does not match sales amount ${request.salesAmount}` };
+    }
+
+    const invoice: MockIssuedInvoice = {
+      invoiceNumber: `MK${(10000000 + ++this.sequence).toString()}`,
+      invoiceDate: new Date(),
+      randomNumber: Math.floor(Math.random() * 10000)
+        .toString()
+        .padStart(4, '0'),
+      salesAmount: request.salesAmount,
+      allowedAmount: 0,
+      voided: false,
+    };
+    this.invoices.set(invoice.invoiceNumber, invoice);
+    this.relateNumbers.set(request.relateNumber, invoice.invoiceNumber);
+    this.logger.debug(`Issued mock e-invoice ${invoice.invoiceNumber} for ${request.relateNumber}`);
+
+    return { success: true, invoiceNumber: invoice.invoiceNumber, invoiceDate: invoice.invoiceDate, randomNumber: invoice.randomNumber };
+  }
+
+  /**
+   * 作廢模擬發票，已折讓的發票不可作廢
+   */
+  async void(request: EInvoiceVoidRequest): Promise<EInvoiceOperationResult> {
+    const invoice = this.invoices.get(request.invoiceNumber);
+    if (!invoice) {
+      return { success: false, errorCode: 'NOT_FOUND', errorMessage: `Invoice ${request.invoiceNumber} not found` };
+    }
+    if (invoice.allowedAmount > 0) {
+      return { success: false, errorCode: 'HAS_ALLOWANCE', errorMessage: 'Invoice with allowances cannot be voided' };
+    }
+
+    invoice.voided = true;
+    return { success: true };
+  }
+
+  /**
+   * 開立模擬折讓，折讓總額不可超過發票金額
+   */
+  async allowance(request: EInvoiceAllowanceRequest): Promise<EInvoiceAllowanceResult> {
+    const invoice = this.invoices.get(request.invoiceNumber);
+    if (!invoice || invoice.voided) {
+      return { success: false, errorCode: 'NOT_FOUND', errorMessage: `Invoice ${request.invoiceNumber} not found or voided` };
+    }
+
+    const remaining = invoice.salesAmount - invoice.allowedAmount;
+    if (request.allowanceAmount <= 0 || request.allowanceAmount > remaining) {
+      return { success: false, errorCode: 'EXCEEDS_REMAINING', errorMessage: `Allowance ${request.allowanceAmount} exceeds remaining ${remaining}` };
+    }
+
+    invoice.allowedAmount += request.allowanceAmount;
+    return {
+      success: true,
+      allowanceNumber: `MKA${(++this.allowanceSequence).toString().padStart(13, '0')}`,
+      remainingAmount: invoice.salesAmount - invoice.allowedAmount,
+    };
+  }
+}
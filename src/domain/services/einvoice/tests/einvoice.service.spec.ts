@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfService } from '@myapp/conf';
+import { EInvoiceService } from '../einvoice.service';
+import { EInvoiceProviderRegistry } from '../einvoice-provider-registry.service';
+import { MockEInvoiceProvider } from '../mock-einvoice-provider.service';
+import { ECPayEInvoiceProvider } from '../ecpay-einvoice-provider.service';
+import { InvoiceService } from '../../invoices/invoice.service';
+import { DomainEventBus } from '../../events/domain-event-bus.service';
+import { InvoiceRepository } from '../../../../infra/repositories/invoice.repository';
+import { PaymentRepository } from '../../../../infra/repositories/payment.repository';
+import { CustomerRepository } from '../../../../infra/repositories/customer.repository';
+import { InvoiceEntity } from '../../../entities/invoice.entity';
+import { EInvoiceRecipientType, EInvoiceStatus, InvoiceLineItemType, InvoiceStatus } from '../../../enums/codes.const';
+import { Money } from '../../../value-objects/money';
+
+const einvoiceConf = {
+  enabled: true,
+  provider: 'mock',
+  merchantID: '2000132',
+  hashKey: 'ejCk326UnaZWKisg',
+  hashIV: 'q9jcZX8Ib9LM8wYk',
+  apiBaseUrl: 'https://einvoice-stage.ecpay.com.tw/B2CInvoice',
+  timeoutMs: 1000,
+};
+
+describe('EInvoiceService', () => {
+  let moduleRef: TestingModule;
+  let service: EInvoiceService;
+  let provider: MockEInvoiceProvider;
+  let invoice: InvoiceEntity;
+  let payment: { id: string; amount: number; invoiceNumber?: string };
+  let paymentSave: jest.Mock;
+
+  beforeEach(async () => {
+    invoice = new InvoiceEntity('default', 'cust_1', 'TWD');
+    invoice.id = 'inv_1';
+    invoice.paymentId = 'pay_1';
+    invoice.invoiceNumber = 'INV-2024-000001';
+    invoice.billTo = { name: '王小明', email: 'ming@example.com' };
+    invoice.addLineItem({ type: InvoiceLineItemType.PLAN, description: '專業方案', quantity: 1, unitAmount: 100000 });
+    invoice.addLineItem({ type: InvoiceLineItemType.DISCOUNT, description: 'Promotion SPRING10', quantity: 1, unitAmount: -5535 });
+    invoice.applyTax(5);
+    payment = { id: 'pay_1', amount: 94465 };
+    paymentSave = jest.fn(async (entity) => entity);
+
+    provider = new MockEInvoiceProvider();
+    const registry = new EInvoiceProviderRegistry();
+    registry.register(provider);
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        EInvoiceService,
+        DomainEventBus,
+        { provide: ConfService, useValue: { getConf: () => ({ einvoice: einvoiceConf }) } },
+        { provide: EInvoiceProviderRegistry, useValue: registry },
+        { provide: InvoiceService, useValue: { createForPayment: jest.fn(async () => invoice) } },
+        { provide: InvoiceRepository, useValue: { save: jest.fn(async (entity) => entity), findByPaymentId: jest.fn(async () => invoice) } },
+        { provide: PaymentRepository, useValue: { findById: jest.fn(async () => payment), save: paymentSave } },
+        {
+          provide: CustomerRepository,
+          useValue: { findById: jest.fn(async () => ({ phone: '0912345678', eInvoicePreference: { type: EInvoiceRecipientType.MOBILE_BARCODE, carrierNumber: '/ABC+123' } })) },
+        },
+      ],
+    }).compile();
+
+    service = moduleRef.get(EInvoiceService);
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('issues once per payment with the customer carrier and writes the number back to the payment', async () => {
+    const issueSpy = jest.spyOn(provider, 'issue');
+
+    await service.issueForPayment('pay_1');
+    await service.issueForPayment('pay_1');
+
+    expect(issueSpy).toHaveBeenCalledTimes(1);
+    const request = issueSpy.mock.calls[0][0];
+    // 付款 94,465 分 → 945 元，品項合計須等於開立金額
+    expect(request.salesAmount).toBe(945);
+    expect(request.items.reduce((sum, item) => sum + item.amount, 0)).toBe(945);
+    expect(request.recipient).toEqual({ type: EInvoiceRecipientType.MOBILE_BARCODE, carrierNumber: '/ABC+123' });
+
+    expect(invoice.eInvoice).toMatchObject({ provider: 'mock', status: EInvoiceStatus.ISSUED, salesAmount: 945 });
+    expect(invoice.eInvoice.invoiceNumber).toMatch(/^[A-Z]{2}\d{8}$/);
+    expect(payment.invoiceNumber).toBe(invoice.eInvoice.invoiceNumber);
+    expect(paymentSave).toHaveBeenCalledTimes(1);
+  });
+
+  it('voids the e-invoice on a full refund within the same period', async () => {
+    await service.issueForPayment('pay_1');
+
+    await service.handleRefund('pay_1', 'ref_1', new Money(payment.amount, 'TWD'));
+
+    expect(invoice.eInvoice.status).toBe(EInvoiceStatus.VOIDED);
+    expect(invoice.status).toBe(InvoiceStatus.VOID);
+  });
+
+  it('issues allowances for partial and cross-period refunds, once per refund', async () => {
+    await service.issueForPayment('pay_1');
+    const allowanceSpy = jest.spyOn(provider, 'allowance');
+
+    await service.handleRefund('pay_1', 'ref_1', new Money(30000, 'TWD'));
+    await service.handleRefund('pay_1', 'ref_1', new Money(30000, 'TWD'));
+    expect(allowanceSpy).toHaveBeenCalledTimes(1);
+    expect(invoice.getEInvoiceRemainingAmount()).toBe(645);
+
+    // 上一期開立的發票即使全額退款也只能折讓
+    invoice.eInvoice.invoiceDate = new Date(Date.now() - 70 * 24 * 60 * 60 * 1000);
+    await service.handleRefund('pay_1', 'ref_2', new Money(100000, 'TWD'));
+
+    expect(allowanceSpy).toHaveBeenCalledTimes(2);
+    expect(allowanceSpy.mock.calls[1][0].allowanceAmount).toBe(645);
+    expect(invoice.eInvoice.status).toBe(EInvoiceStatus.ALLOWANCED);
+    expect(invoice.eInvoice.allowances.map((a) => a.refundId)).toEqual(['ref_1', 'ref_2']);
+    expect(invoice.status).toBe(InvoiceStatus.ISSUED);
+  });
+});
+
+describe('ECPayEInvoiceProvider', () => {
+  let provider: ECPayEInvoiceProvider;
+  let fetchSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    provider = new ECPayEInvoiceProvider({ getConf: () => ({ einvoice: einvoiceConf }) } as unknown as ConfService);
+    fetchSpy = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('sends encrypted data for a tax ID buyer and decrypts the response', async () => {
+    const responseData = provider.encrypt({ RtnCode: 1, RtnMsg: '開立發票成功', InvoiceNo: 'UV11100016', InvoiceDate: '2024-03-01 10:00:00', RandomNumber: '6866' });
+    fetchSpy.mockResolvedValueOnce(new Response(JSON.stringify({ TransCode: 1, TransMsg: '', Data: responseData }), { status: 200 }));
+
+    const result = await provider.issue({
+      relateNumber: 'inv_1',
+      buyer: { customerId: 'cust_1', email: 'ap@example.com' },
+      recipient: { type: EInvoiceRecipientType.COMPANY, taxId: '04595257', companyName: '範例股份有限公司', address: '台北市信義區' },
+      items: [{ name: '專業方案', quantity: 1, unit: '式', unitPrice: 1050, amount: 1050 }],
+      salesAmount: 1050,
+    });
+
+    expect(result).toEqual({ success: true, invoiceNumber: 'UV11100016', invoiceDate: new Date('2024-03-01T02:00:00Z'), randomNumber: '6866' });
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe('https://einvoice-stage.ecpay.com.tw/B2CInvoice/Issue');
+    const sent = provider.decrypt(JSON.parse(init.body).Data);
+    expect(sent).toMatchObject({ CustomerIdentifier: '04595257', CustomerName: '範例股份有限公司', Print: '1', Donation: '0', CarrierType: '', SalesAmount: 1050 });
+  });
+
+  it('reports business errors returned by ECPay', async () => {
+    const responseData = provider.encrypt({ RtnCode: 5000005, RtnMsg: '愛心碼錯誤' });
+    fetchSpy.mockResolvedValueOnce(new Response(JSON.stringify({ TransCode: 1, Data: responseData }), { status: 200 }));
+
+    const result = await provider.void({ invoiceNumber: 'UV11100016', invoiceDate: new Date(), reason: 'Refund' });
+
+    expect(result).toEqual({ success: false, errorCode: '5000005', errorMessage: '愛心碼錯誤' });
+  });
+});
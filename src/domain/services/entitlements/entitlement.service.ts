@@ -0,0 +1,232 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfService } from '@myapp/conf';
+import { DomainEventBus, DomainEventMessage } from '../events/domain-event-bus.service';
+import { UsageService } from '../usage/usage.service';
+import { SubscriptionRepository } from '../../../infra/repositories/subscription.repository';
+import { BillingPlanRepository } from '../../../infra/repositories/billing-plan.repository';
+import { ProductRepository } from '../../../infra/repositories/product.repository';
+import { SubscriptionEntity } from '../../entities/subscription.entity';
+import { BillingPlanEntity } from '../../entities/billing-plan.entity';
+import { ProductEntity } from '../../entities/product.entity';
+
+/** 觸發權益快取失效的事件 */
+const INVALIDATING_EVENTS = ['subscription.status.changed', 'subscription.plan.changed'];
+
+/**
+ * 訂閱授予的單一功能權益
+ * 有 limit 者為配額型功能，isHardLimit 決定超量時拒絕或允許後計費
+ */
+export interface EntitlementGrant {
+  feature: string;
+  subscriptionId: string;
+  planId: string;
+  source: 'plan' | 'product';
+  name?: string;
+  value?: number | string | boolean;
+  unit?: string;
+  limit?: number;
+  isHardLimit?: boolean;
+}
+
+/**
+ * 權益與當期用量
+ */
+export interface Entitlement extends EntitlementGrant {
+  usage?: number;
+  remaining?: number;
+}
+
+export interface CheckEntitlementCommand {
+  customerId: string;
+  feature: string;
+  /** 本次欲使用的數量，預設 1 */
+  quantity?: number;
+}
+
+/**
+ * 權益檢查結果
+ * 軟限制超量時 allowed = true，overage 為超出限制、將於期末計費的數量
+ */
+export interface EntitlementCheckResult {
+  customerId: string;
+  feature: string;
+  allowed: boolean;
+  reason?: 'not_entitled' | 'limit_exceeded';
+  subscriptionId?: string;
+  limit?: number;
+  usage?: number;
+  remaining?: number;
+  isHardLimit?: boolean;
+  overage?: number;
+}
+
+interface CacheEntry {
+  grants: EntitlementGrant[];
+  /** 各訂閱的方案，彙總用量時決定彙總方式 */
+  plans: Map<string, BillingPlanEntity>;
+  expiresAt: number;
+}
+
+/**
+ * 權益服務
+ * 將客戶生效中的訂閱解析為方案限制（BillingPlanEntity.limits）與產品功能（ProductEntity.features），
+ * 解析結果依客戶快取，訂閱狀態或方案變更事件到達時失效；用量每次即時彙總
+ */
+@Injectable()
+export class EntitlementService implements OnModuleInit {
+  private readonly logger = new Logger(EntitlementService.name);
+  private readonly cache = new Map<string, CacheEntry>();
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly subscriptionRepository: SubscriptionRepository,
+    private readonly billingPlanRepository: BillingPlanRepository,
+    private readonly productRepository: ProductRepository,
+    private readonly usageService: UsageService,
+    private readonly eventBus: DomainEventBus,
+  ) {}
+
+  onModuleInit() {
+    for (const eventType of INVALIDATING_EVENTS) {
+      this.eventBus.subscribe(eventType, 'entitlements', (message) => this.onSubscriptionChanged(message));
+    }
+  }
+
+  /**
+   * 查詢客戶的權益與當期用量
+   */
+  public async getEntitlements(customerId: string): Promise<Entitlement[]> {
+    const entry = await this.resolve(customerId);
+    return this.withUsage(entry, entry.grants);
+  }
+
+  /**
+   * 檢查客戶可否使用功能
+   * 多個訂閱授予同一功能時，優先使用仍有額度者，其次為可超量計費的軟限制
+   */
+  public async check(command: CheckEntitlementCommand): Promise<EntitlementCheckResult> {
+    const quantity = command.quantity ?? 1;
+    const entry = await this.resolve(command.customerId);
+    const grants = entry.grants.filter((grant) => grant.feature === command.feature);
+    const base = { customerId: command.customerId, feature: command.feature };
+
+    if (grants.length === 0 || grants.every((grant) => grant.value === false)) {
+      return { ...base, allowed: false, reason: 'not_entitled' };
+    }
+
+    const unlimited = grants.find((grant) => grant.limit === undefined && grant.value !== false);
+    if (unlimited) {
+      return { ...base, allowed: true, subscriptionId: unlimited.subscriptionId };
+    }
+
+    const entitlements = await this.withUsage(entry, grants);
+    const toResult = (entitlement: Entitlement) => ({
+      ...base,
+      subscriptionId: entitlement.subscriptionId,
+      limit: entitlement.limit,
+      usage: entitlement.usage,
+      remaining: entitlement.remaining,
+      isHardLimit: entitlement.isHardLimit,
+    });
+
+    const withCapacity = entitlements.find((entitlement) => entitlement.remaining >= quantity);
+    if (withCapacity) {
+      return { ...toResult(withCapacity), allowed: true };
+    }
+
+    const soft = entitlements.find((entitlement) => !entitlement.isHardLimit);
+    if (soft) {
+      return { ...toResult(soft), allowed: true, overage: quantity - soft.remaining };
+    }
+
+    return { ...toResult(entitlements[0]), allowed: false, reason: 'limit_exceeded' };
+  }
+
+  /**
+   * 使客戶的權益快取失效，未指定時清除全部
+   */
+  public invalidate(customerId?: string): void {
+    if (customerId) {
+      this.cache.delete(customerId);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  private async onSubscriptionChanged(message: DomainEventMessage): Promise<void> {
+    const subscription = await this.subscriptionRepository.findById(message.aggregateId);
+    if (!subscription) {
+      this.invalidate();
+      return;
+    }
+    this.invalidate(subscription.customerId);
+    this.logger.debug(`Entitlements of customer ${subscription.customerId} invalidated by ${message.type}`);
+  }
+
+  private async resolve(customerId: string): Promise<CacheEntry> {
+    const cached = this.cache.get(customerId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    const entry: CacheEntry = { grants: [], plans: new Map(), expiresAt: Date.now() + this.confService.getConf().entitlements.cacheTtlSeconds * 1000 };
+    const subscriptions = (await this.subscriptionRepository.findByCustomerId(customerId)).filter((subscription) => subscription.isActive());
+    for (const subscription of subscriptions) {
+      const [plan, product] = await Promise.all([this.billingPlanRepository.findByPlanId(subscription.planId), this.productRepository.findByProductId(subscription.productId)]);
+      if (plan) {
+        entry.plans.set(subscription.id, plan);
+      }
+      entry.grants.push(...this.toGrants(subscription, plan, product));
+    }
+
+    this.cache.set(customerId, entry);
+    return entry;
+  }
+
+  /**
+   * 方案限制優先於同名的產品功能
+   */
+  private toGrants(subscription: SubscriptionEntity, plan?: BillingPlanEntity, product?: ProductEntity): EntitlementGrant[] {
+    const base = { subscriptionId: subscription.id, planId: subscription.planId };
+
+    const grants: EntitlementGrant[] = (plan?.limits || []).map((limit) => ({
+      ...base,
+      feature: limit.feature,
+      source: 'plan',
+      unit: limit.unit,
+      limit: limit.limit,
+      isHardLimit: limit.isHardLimit,
+    }));
+
+    for (const feature of product?.features || []) {
+      if (grants.some((grant) => grant.feature === feature.featureId)) {
+        continue;
+      }
+      grants.push({ ...base, feature: feature.featureId, source: 'product', name: feature.name, value: feature.value, unit: feature.unit });
+    }
+    return grants;
+  }
+
+  /**
+   * 以訂閱的當期彙總用量計算剩餘額度，訂閱每次重新讀取以取得最新期間
+   */
+  private async withUsage(entry: CacheEntry, grants: EntitlementGrant[]): Promise<Entitlement[]> {
+    const metered = new Set(grants.filter((grant) => grant.limit !== undefined).map((grant) => grant.subscriptionId));
+    const usageBySubscription = new Map<string, Record<string, number>>();
+
+    for (const subscriptionId of metered) {
+      const subscription = await this.subscriptionRepository.findById(subscriptionId);
+      if (subscription) {
+        usageBySubscription.set(subscriptionId, await this.usageService.getPeriodUsage(subscription, entry.plans.get(subscriptionId)));
+      }
+    }
+
+    return grants.map((grant) => {
+      if (grant.limit === undefined) {
+        return grant;
+      }
+      const usage = usageBySubscription.get(grant.subscriptionId)?.[grant.feature] || 0;
+      return { ...grant, usage, remaining: Math.max(0, grant.limit - usage) };
+    });
+  }
+}
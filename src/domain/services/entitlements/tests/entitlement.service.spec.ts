@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfService } from '@myapp/conf';
+import { EntitlementService } from '../entitlement.service';
+import { UsageService } from '../../usage/usage.service';
+import { DomainEventBus } from '../../events/domain-event-bus.service';
+import { SubscriptionRepository } from '../../../../infra/repositories/subscription.repository';
+import { BillingPlanRepository } from '../../../../infra/repositories/billing-plan.repository';
+import { ProductRepository } from '../../../../infra/repositories/product.repository';
+import { SubscriptionEntity } from '../../../entities/subscription.entity';
+import { BillingPlanEntity } from '../../../entities/billing-plan.entity';
+import { ProductEntity } from '../../../entities/product.entity';
+import { SubscriptionStatus } from '../../../enums/codes.const';
+import { Money } from '../../../value-objects/money';
+import { BillingCycleVO } from '../../../value-objects/billing-cycle';
+
+describe('EntitlementService', () => {
+  let moduleRef: TestingModule;
+  let service: EntitlementService;
+  let bus: DomainEventBus;
+  let subscription: SubscriptionEntity;
+  let usage: Record<string, number>;
+  let subscriptionRepository: { findById: jest.Mock; findByCustomerId: jest.Mock };
+
+  beforeEach(async () => {
+    subscription = SubscriptionEntity.create({
+      customerId: 'cust_1',
+      productId: 'prod_api',
+      planId: 'plan_api',
+      paymentMethodId: 'pm_1',
+      baseAmount: new Money(99900, 'TWD'),
+      billingCycle: BillingCycleVO.monthly(),
+    });
+    subscription.id = '64b7f0c2a1b2c3d4e5f60001';
+    subscription.status = SubscriptionStatus.ACTIVE;
+
+    const plan = new BillingPlanEntity('prod_api', 'API 方案', new Money(99900, 'TWD'), BillingCycleVO.monthly());
+    plan.addLimit({ feature: 'api_calls', limit: 1000, unit: 'calls', isHardLimit: false });
+    plan.addLimit({ feature: 'projects', limit: 3, unit: 'projects', isHardLimit: true });
+
+    const product = new ProductEntity('API 平台', 'API 存取');
+    product.features = [
+      { featureId: 'sso', name: 'SSO', description: '單一登入', value: true, isCore: false },
+      { featureId: 'audit_log', name: 'Audit log', description: '稽核紀錄', value: false, isCore: false },
+      { featureId: 'projects', name: 'Projects', description: '專案數', value: 10, isCore: true },
+    ];
+
+    usage = { api_calls: 990, projects: 3 };
+    subscriptionRepository = {
+      findById: jest.fn(async () => subscription),
+      findByCustomerId: jest.fn(async () => [subscription]),
+    };
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        EntitlementService,
+        DomainEventBus,
+        { provide: ConfService, useValue: { getConf: () => ({ entitlements: { cacheTtlSeconds: 300 } }) } },
+        { provide: SubscriptionRepository, useValue: subscriptionRepository },
+        { provide: BillingPlanRepository, useValue: { findByPlanId: jest.fn(async () => plan) } },
+        { provide: ProductRepository, useValue: { findByProductId: jest.fn(async () => product) } },
+        { provide: UsageService, useValue: { getPeriodUsage: jest.fn(async () => usage) } },
+      ],
+    }).compile();
+    await moduleRef.init();
+
+    service = moduleRef.get(EntitlementService);
+    bus = moduleRef.get(DomainEventBus);
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('allows soft-limit overage and denies hard-limit overage', async () => {
+    expect(await service.check({ customerId: 'cust_1', feature: 'api_calls', quantity: 5 })).toMatchObject({ allowed: true, remaining: 10 });
+    expect(await service.check({ customerId: 'cust_1', feature: 'api_calls', quantity: 25 })).toMatchObject({
+      allowed: true,
+      isHardLimit: false,
+      overage: 15,
+      subscriptionId: subscription.id,
+    });
+    // 方案限制優先於產品功能的 10 個專案
+    expect(await service.check({ customerId: 'cust_1', feature: 'projects' })).toMatchObject({ allowed: false, reason: 'limit_exceeded', limit: 3, usage: 3 });
+  });
+
+  it('grants enabled product features and rejects the rest', async () => {
+    expect(await service.check({ customerId: 'cust_1', feature: 'sso' })).toMatchObject({ allowed: true });
+    expect(await service.check({ customerId: 'cust_1', feature: 'audit_log' })).toMatchObject({ allowed: false, reason: 'not_entitled' });
+    expect(await service.check({ customerId: 'cust_1', feature: 'storage_gb' })).toMatchObject({ allowed: false, reason: 'not_entitled' });
+
+    subscription.status = SubscriptionStatus.CANCELED;
+    expect(await service.check({ customerId: 'cust_2', feature: 'sso' })).toMatchObject({ allowed: false, reason: 'not_entitled' });
+  });
+
+  it('caches resolved entitlements until the subscription changes', async () => {
+    await service.getEntitlements('cust_1');
+    await service.getEntitlements('cust_1');
+    expect(subscriptionRepository.findByCustomerId).toHaveBeenCalledTimes(1);
+
+    const [subscriber] = bus.getSubscribers('subscription.plan.changed');
+    await subscriber.handle({
+      eventId: 'evt_1',
+      type: 'subscription.plan.changed',
+      aggregateType: 'subscription',
+      aggregateId: subscription.id,
+      occurredAt: new Date(),
+      payload: {},
+      attempt: 1,
+    });
+
+    const entitlements = await service.getEntitlements('cust_1');
+    expect(subscriptionRepository.findByCustomerId).toHaveBeenCalledTimes(2);
+    expect(entitlements.find((e) => e.feature === 'api_calls')).toMatchObject({ source: 'plan', limit: 1000, usage: 990, remaining: 10 });
+    expect(entitlements.find((e) => e.feature === 'sso')).toMatchObject({ source: 'product', value: true });
+  });
+});
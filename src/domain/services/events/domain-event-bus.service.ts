@@ -0,0 +1,70 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+/** 訂閱所有事件類型 */
+export const ALL_DOMAIN_EVENTS = '*';
+
+/**
+ * 派送給訂閱者的事件訊息
+ */
+export interface DomainEventMessage {
+  eventId: string;
+  type: string;
+  aggregateType: string;
+  aggregateId: string;
+  occurredAt: Date;
+  payload: Record<string, any>;
+  /** 第幾次派送（從 1 開始） */
+  attempt: number;
+}
+
+export type DomainEventHandler = (message: DomainEventMessage) => Promise<void> | void;
+
+/**
+ * 事件訂閱者
+ * name 用於記錄派送進度，需保持穩定且唯一
+ */
+export interface DomainEventSubscriber {
+  name: string;
+  handle: DomainEventHandler;
+}
+
+/**
+ * 應用內領域事件匯流排
+ * 各模組於啟動時訂閱感興趣的事件，由 OutboxDispatcherService 依外送集合派送（至少一次）
+ */
+@Injectable()
+export class DomainEventBus {
+  private readonly logger = new Logger(DomainEventBus.name);
+  private readonly subscribers = new Map<string, DomainEventSubscriber[]>();
+
+  /**
+   * 訂閱事件，eventType 為 ALL_DOMAIN_EVENTS 時接收所有事件
+   */
+  public subscribe(eventType: string, name: string, handle: DomainEventHandler): void {
+    const list = this.subscribers.get(eventType) || [];
+    if (list.some((s) => s.name === name)) {
+      throw new Error(`Handler ${name} already subscribed to ${eventType}`);
+    }
+    list.push({ name, handle });
+    this.subscribers.set(eventType, list);
+    this.logger.log(`${name} subscribed to ${eventType}`);
+  }
+
+  /**
+   * 取消訂閱
+   */
+  public unsubscribe(eventType: string, name: string): void {
+    const list = this.subscribers.get(eventType) || [];
+    this.subscribers.set(
+      eventType,
+      list.filter((s) => s.name !== name),
+    );
+  }
+
+  /**
+   * 取得事件類型的所有訂閱者（含訂閱全部事件者）
+   */
+  public getSubscribers(eventType: string): DomainEventSubscriber[] {
+    return [...(this.subscribers.get(eventType) || []), ...(this.subscribers.get(ALL_DOMAIN_EVENTS) || [])];
+  }
+}
@@ -0,0 +1,50 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnApplicationShutdown } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { ConfService } from '@myapp/conf';
+import { OutboxDispatcherService } from './outbox-dispatcher.service';
+
+/** 事件派送排程名稱 */
+export const OUTBOX_DISPATCH_JOB = 'domain-event-outbox';
+
+/**
+ * 領域事件派送排程
+ * 依設定的間隔輪詢外送集合
+ */
+@Injectable()
+export class OutboxDispatcherScheduler implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(OutboxDispatcherScheduler.name);
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly dispatcher: OutboxDispatcherService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const { enabled, pollIntervalMs } = this.confService.getConf().eventOutbox;
+    if (!enabled) {
+      this.logger.log('Domain event dispatcher is disabled');
+      return;
+    }
+
+    this.schedulerRegistry.addInterval(
+      OUTBOX_DISPATCH_JOB,
+      setInterval(() => this.trigger(), pollIntervalMs),
+    );
+    this.logger.log(`Domain event dispatcher polling every ${pollIntervalMs}ms`);
+  }
+
+  onApplicationShutdown() {
+    if (this.schedulerRegistry.doesExist('interval', OUTBOX_DISPATCH_JOB)) {
+      this.schedulerRegistry.deleteInterval(OUTBOX_DISPATCH_JOB);
+    }
+  }
+
+  private async trigger(): Promise<void> {
+    try {
+      await this.dispatcher.dispatchPending();
+    } catch (error) {
+      this.logger.error(`Domain event dispatch crashed: ${error.message}`, error.stack);
+    }
+  }
+}
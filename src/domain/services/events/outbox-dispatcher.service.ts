@@ -0,0 +1,126 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfService } from '@myapp/conf';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { DomainEventBus, DomainEventMessage } from './domain-event-bus.service';
+import { OutboxRepository } from '../../../infra/repositories/outbox.repository';
+import { OutboxEventEntity } from '../../entities/outbox-event.entity';
+import { OutboxEventStatus, RetryStrategyType } from '../../enums/codes.const';
+import { RetryStrategyVO } from '../../value-objects/retry-strategy';
+
+/**
+ * 單次派送統計
+ */
+export interface OutboxDispatchResult {
+  /** 補搬至外送集合的事件數 */
+  relayed: number;
+  delivered: number;
+  retried: number;
+  deadLettered: number;
+}
+
+/**
+ * 領域事件外送派送器
+ * 從外送集合領取事件並交給訂閱者，失敗時依退避策略重試，超過上限轉入死信
+ */
+@Injectable()
+export class OutboxDispatcherService {
+  private readonly logger = new Logger(OutboxDispatcherService.name);
+  private dispatching = false;
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly outboxRepository: OutboxRepository,
+    private readonly eventBus: DomainEventBus,
+  ) {}
+
+  /**
+   * 派送一批待處理事件，同一實例內不會重疊執行
+   */
+  public async dispatchPending(): Promise<OutboxDispatchResult> {
+    const result: OutboxDispatchResult = { relayed: 0, delivered: 0, retried: 0, deadLettered: 0 };
+    if (this.dispatching) {
+      return result;
+    }
+
+    this.dispatching = true;
+    try {
+      const { batchSize, leaseMs } = this.confService.getConf().eventOutbox;
+      result.relayed = await this.outboxRepository.relayStranded(batchSize);
+
+      for (let i = 0; i < batchSize; i++) {
+        const event = await this.outboxRepository.claimNext(leaseMs);
+        if (!event) {
+          break;
+        }
+
+        const status = await this.deliver(event);
+        if (status === OutboxEventStatus.DELIVERED) result.delivered++;
+        else if (status === OutboxEventStatus.DEAD_LETTER) result.deadLettered++;
+        else result.retried++;
+      }
+    } finally {
+      this.dispatching = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * 將死信事件重新排入派送
+   */
+  public async requeueDeadLetter(id: string): Promise<CustomDefinition.TNullable<OutboxEventEntity>> {
+    const event = await this.outboxRepository.findById(id);
+    if (!event) {
+      return undefined;
+    }
+
+    event.requeue();
+    return this.outboxRepository.save(event);
+  }
+
+  /**
+   * 依序交給尚未處理成功的訂閱者
+   */
+  private async deliver(event: OutboxEventEntity): Promise<OutboxEventStatus> {
+    const message: DomainEventMessage = {
+      eventId: event.id,
+      type: event.type,
+      aggregateType: event.aggregateType,
+      aggregateId: event.aggregateId,
+      occurredAt: event.occurredAt,
+      payload: event.payload,
+      attempt: event.attempts + 1,
+    };
+
+    const errors: string[] = [];
+    for (const subscriber of this.eventBus.getSubscribers(event.type)) {
+      if (event.isDeliveredTo(subscriber.name)) {
+        continue;
+      }
+      try {
+        await subscriber.handle(message);
+        event.recordHandlerDelivered(subscriber.name);
+      } catch (error) {
+        errors.push(`${subscriber.name}: ${error.message}`);
+      }
+    }
+
+    if (errors.length === 0) {
+      event.markDelivered();
+    } else {
+      const { maxAttempts } = this.confService.getConf().eventOutbox;
+      const retryStrategy = new RetryStrategyVO(RetryStrategyType.EXPONENTIAL_BACKOFF, maxAttempts, 1, 2, 60);
+      const lastError = errors.join('; ');
+
+      if (retryStrategy.canRetry(message.attempt)) {
+        event.scheduleRetry(lastError, retryStrategy.calculateNextRetryTime(message.attempt));
+      } else {
+        event.markDeadLetter(lastError);
+        this.logger.error(`Event ${event.id} (${event.type}) moved to dead letter after ${event.attempts} attempts: ${lastError}`);
+      }
+    }
+
+    await this.outboxRepository.save(event);
+    return event.status;
+  }
+}
@@ -0,0 +1,128 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfService } from '@myapp/conf';
+import { OutboxDispatcherService } from '../outbox-dispatcher.service';
+import { DomainEventBus, DomainEventMessage } from '../domain-event-bus.service';
+import { OutboxRepository } from '../../../../infra/repositories/outbox.repository';
+import { OutboxEventEntity } from '../../../entities/outbox-event.entity';
+import { OutboxEventStatus } from '../../../enums/codes.const';
+
+class InMemoryOutboxRepository {
+  public events: OutboxEventEntity[] = [];
+  async relayStranded() {
+    return 0;
+  }
+  async claimNext(leaseMs: number) {
+    const now = new Date();
+    const event = this.events.find((e) => e.status === OutboxEventStatus.PENDING && e.nextAttemptAt <= now);
+    if (!event) return undefined;
+    event.status = OutboxEventStatus.PROCESSING;
+    event.lockedUntil = new Date(now.getTime() + leaseMs);
+    return event;
+  }
+  async save(entity: OutboxEventEntity) {
+    return entity;
+  }
+  async findById(id: string) {
+    return this.events.find((e) => e.id === id);
+  }
+  add(type: string) {
+    const event = new OutboxEventEntity();
+    event.id = `evt_${this.events.length + 1}`;
+    event.aggregateType = 'Payment';
+    event.aggregateId = 'pay_1';
+    event.type = type;
+    event.payload = { paymentId: 'pay_1' };
+    this.events.push(event);
+    return event;
+  }
+}
+
+describe('OutboxDispatcherService', () => {
+  let moduleRef: TestingModule;
+  let dispatcher: OutboxDispatcherService;
+  let bus: DomainEventBus;
+  let outbox: InMemoryOutboxRepository;
+
+  const maxAttempts = 3;
+
+  beforeEach(async () => {
+    outbox = new InMemoryOutboxRepository();
+    const confStub = {
+      getConf: () => ({ eventOutbox: { enabled: false, pollIntervalMs: 1000, batchSize: 10, maxAttempts, leaseMs: 60_000 } }),
+    } as unknown as ConfService;
+
+    moduleRef = await Test.createTestingModule({
+      providers: [OutboxDispatcherService, DomainEventBus, { provide: ConfService, useValue: confStub }, { provide: OutboxRepository, useValue: outbox }],
+    }).compile();
+
+    dispatcher = moduleRef.get(OutboxDispatcherService);
+    bus = moduleRef.get(DomainEventBus);
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('delivers events to subscribers of the type and wildcard subscribers', async () => {
+    const received: DomainEventMessage[] = [];
+    bus.subscribe('payment.succeeded', 'billing', (m) => void received.push(m));
+    bus.subscribe('*', 'analytics', (m) => void received.push(m));
+    bus.subscribe('payment.failed', 'dunning', () => {
+      throw new Error('should not be called');
+    });
+    const event = outbox.add('payment.succeeded');
+
+    const result = await dispatcher.dispatchPending();
+
+    expect(result).toEqual({ relayed: 0, delivered: 1, retried: 0, deadLettered: 0 });
+    expect(received.map((m) => m.type)).toEqual(['payment.succeeded', 'payment.succeeded']);
+    expect(received[0]).toMatchObject({ eventId: event.id, aggregateId: 'pay_1', attempt: 1 });
+    expect(event.status).toBe(OutboxEventStatus.DELIVERED);
+    expect(event.deliveredHandlers).toEqual(['billing', 'analytics']);
+  });
+
+  it('retries only the handlers that failed', async () => {
+    const billing = jest.fn();
+    const notifications = jest.fn().mockRejectedValueOnce(new Error('SMTP down')).mockResolvedValueOnce(undefined);
+    bus.subscribe('payment.failed', 'billing', billing);
+    bus.subscribe('payment.failed', 'notifications', notifications);
+    const event = outbox.add('payment.failed');
+
+    const first = await dispatcher.dispatchPending();
+
+    expect(first.retried).toBe(1);
+    expect(event.status).toBe(OutboxEventStatus.PENDING);
+    expect(event.attempts).toBe(1);
+    expect(event.lastError).toContain('notifications: SMTP down');
+    expect(event.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+
+    event.nextAttemptAt = new Date(Date.now() - 1000);
+    const second = await dispatcher.dispatchPending();
+
+    expect(second.delivered).toBe(1);
+    expect(billing).toHaveBeenCalledTimes(1);
+    expect(notifications).toHaveBeenCalledTimes(2);
+    expect(notifications.mock.calls[1][0].attempt).toBe(2);
+    expect(event.status).toBe(OutboxEventStatus.DELIVERED);
+  });
+
+  it('moves the event to dead letter after max attempts and can requeue it', async () => {
+    bus.subscribe('subscription.created', 'crm', () => {
+      throw new Error('CRM unavailable');
+    });
+    const event = outbox.add('subscription.created');
+
+    for (let i = 0; i < maxAttempts; i++) {
+      event.nextAttemptAt = new Date(Date.now() - 1000);
+      await dispatcher.dispatchPending();
+    }
+
+    expect(event.status).toBe(OutboxEventStatus.DEAD_LETTER);
+    expect(event.attempts).toBe(maxAttempts);
+    expect(event.deadLetteredAt).toBeDefined();
+
+    const requeued = await dispatcher.requeueDeadLetter(event.id);
+    expect(requeued?.status).toBe(OutboxEventStatus.PENDING);
+    expect(requeued?.attempts).toBe(0);
+  });
+});
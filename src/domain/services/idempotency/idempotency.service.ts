@@ -0,0 +1,148 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { ConfService } from '@myapp/conf';
+import { CustomValidator } from '@xxxhand/app-common';
+import { IdempotencyKeyRepository } from '../../../infra/repositories/idempotency-key.repository';
+import { IdempotencyKeyStatus } from '../../enums/codes.const';
+
+/** 冪等鍵長度上限 */
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * 冪等鍵錯誤代碼
+ */
+export enum IdempotencyErrorCode {
+  /** 鍵值空白或過長 */
+  INVALID_KEY = 'INVALID_KEY',
+  /** 鍵值已用於內容不同的請求 */
+  KEY_REUSED = 'KEY_REUSED',
+  /** 相同鍵值的請求仍在處理中 */
+  IN_PROGRESS = 'IN_PROGRESS',
+}
+
+/**
+ * 冪等鍵錯誤，呼叫端依 code 判斷原因
+ */
+export class IdempotencyError extends Error {
+  constructor(
+    public readonly code: IdempotencyErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = IdempotencyError.name;
+  }
+}
+
+/**
+ * 帶冪等鍵的請求
+ */
+export interface IdempotentRequest {
+  method: string;
+  path: string;
+  body?: any;
+  /** 請求的追蹤 ID，保存於紀錄以便對照 */
+  traceId?: string;
+}
+
+/**
+ * 開始處理的結果：第一次請求取得鍵值；重送的請求回傳保存的回應
+ */
+export type IdempotencyBeginResult =
+  { replay: false; fingerprint: string } | { replay: true; fingerprint: string; responseStatus: number; responseBody: Record<string, any>; traceId?: string };
+
+/**
+ * 冪等鍵服務
+ * 相同鍵值的請求只執行一次：內容相同時重送回傳第一次的回應，內容不同或第一次仍在處理時拒絕
+ */
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+
+  constructor(
+    private readonly idempotencyKeyRepository: IdempotencyKeyRepository,
+    private readonly confService: ConfService,
+  ) {}
+
+  /**
+   * 開始處理帶冪等鍵的請求
+   */
+  public async begin(key: string, request: IdempotentRequest, at: Date = new Date()): Promise<IdempotencyBeginResult> {
+    if (!CustomValidator.nonEmptyString(key) || key.length > MAX_KEY_LENGTH) {
+      throw new IdempotencyError(IdempotencyErrorCode.INVALID_KEY, 'Invalid idempotency key');
+    }
+
+    const { ttlHours, lockMs } = this.confService.getConf().idempotency;
+    const fingerprint = this.fingerprint(request);
+
+    // 第一次請求處理失敗會釋放鍵值，查詢時已不存在則再嘗試佔用一次
+    for (let i = 0; i < 2; i++) {
+      const acquired = await this.idempotencyKeyRepository.tryBegin(
+        {
+          _id: key,
+          fingerprint,
+          method: request.method,
+          path: request.path,
+          traceId: request.traceId,
+          lockedUntil: new Date(at.getTime() + lockMs),
+          expiresAt: new Date(at.getTime() + ttlHours * 60 * 60 * 1000),
+        },
+        at,
+      );
+      if (acquired) {
+        return { replay: false, fingerprint };
+      }
+
+      const existing = await this.idempotencyKeyRepository.findByKey(key);
+      if (!existing) {
+        continue;
+      }
+      if (existing.fingerprint !== fingerprint) {
+        throw new IdempotencyError(IdempotencyErrorCode.KEY_REUSED, `Idempotency key ${key} was used with a different request`);
+      }
+      if (existing.status === IdempotencyKeyStatus.COMPLETED) {
+        this.logger.log(`Replaying response for idempotency key ${key} (trace ${existing.traceId})`);
+        return { replay: true, fingerprint, responseStatus: existing.responseStatus, responseBody: existing.responseBody, traceId: existing.traceId };
+      }
+      break;
+    }
+
+    throw new IdempotencyError(IdempotencyErrorCode.IN_PROGRESS, `Idempotency key ${key} is in progress`);
+  }
+
+  /**
+   * 保存第一次請求的回應與 HTTP 狀態碼
+   */
+  public async complete(key: string, fingerprint: string, responseStatus: number, responseBody: Record<string, any>): Promise<void> {
+    const completed = await this.idempotencyKeyRepository.complete(key, fingerprint, responseStatus, responseBody);
+    if (!completed) {
+      this.logger.warn(`Idempotency key ${key} was no longer held when saving the response`);
+    }
+  }
+
+  /**
+   * 請求處理失敗時釋放鍵值，讓客戶端以相同鍵值重試
+   */
+  public async release(key: string, fingerprint: string): Promise<void> {
+    await this.idempotencyKeyRepository.release(key, fingerprint);
+  }
+
+  /**
+   * 以方法、路徑與正規化後的內容計算請求指紋，內容的欄位順序不影響結果
+   */
+  private fingerprint(request: IdempotentRequest): string {
+    const payload = JSON.stringify([request.method.toUpperCase(), request.path, this.canonicalize(request.body ?? {})]);
+    return crypto.createHash('sha256').update(payload).digest('hex');
+  }
+
+  private canonicalize(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.canonicalize(item));
+    }
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.keys(value)
+        .sort()
+        .reduce((sorted, k) => ({ ...sorted, [k]: this.canonicalize(value[k]) }), {} as Record<string, any>);
+    }
+    return value;
+  }
+}
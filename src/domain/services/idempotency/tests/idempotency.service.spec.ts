@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfService } from '@myapp/conf';
+import { IdempotencyService, IdempotencyErrorCode } from '../idempotency.service';
+import { IdempotencyKeyRepository } from '../../../../infra/repositories/idempotency-key.repository';
+import { IIdempotencyKeyDocument } from '../../../../infra/models/models.definition';
+import { IdempotencyKeyStatus } from '../../../enums/codes.const';
+
+describe('IdempotencyService', () => {
+  const now = new Date(2026, 4, 1, 10);
+  const later = (ms: number) => new Date(now.getTime() + ms);
+  const conf = { ttlHours: 24, lockMs: 60 * 1000 };
+
+  let moduleRef: TestingModule;
+  let service: IdempotencyService;
+  let records: Map<string, IIdempotencyKeyDocument>;
+
+  const idempotencyKeyRepository = {
+    tryBegin: jest.fn(async (record: Omit<IIdempotencyKeyDocument, 'status'>, at: Date) => {
+      const existing = records.get(record._id);
+      const stale = existing?.status === IdempotencyKeyStatus.IN_PROGRESS && existing.fingerprint === record.fingerprint && existing.lockedUntil <= at;
+      if (existing && existing.expiresAt > at && !stale) {
+        return false;
+      }
+      records.set(record._id, { ...record, status: IdempotencyKeyStatus.IN_PROGRESS });
+      return true;
+    }),
+    findByKey: jest.fn(async (key: string) => records.get(key)),
+    complete: jest.fn(async (key: string, fingerprint: string, responseStatus: number, responseBody: Record<string, any>) => {
+      const record = records.get(key);
+      if (record?.status !== IdempotencyKeyStatus.IN_PROGRESS || record.fingerprint !== fingerprint) {
+        return false;
+      }
+      records.set(key, { ...record, status: IdempotencyKeyStatus.COMPLETED, responseStatus, responseBody, lockedUntil: undefined });
+      return true;
+    }),
+    release: jest.fn(async (key: string, fingerprint: string) => {
+      if (records.get(key)?.fingerprint === fingerprint) {
+        records.delete(key);
+      }
+    }),
+  };
+
+  const refundRequest = { method: 'POST', path: '/api/v1/payments/pay_1/refund', body: { refundAmount: 500, refundReason: 'duplicate' }, traceId: 'trace_1' };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    records = new Map();
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        IdempotencyService,
+        { provide: IdempotencyKeyRepository, useValue: idempotencyKeyRepository },
+        { provide: ConfService, useValue: { getConf: () => ({ idempotency: conf }) } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(IdempotencyService);
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('replays the stored response for a duplicate request and keeps the original trace id', async () => {
+    const first = await service.begin('key_1', refundRequest, now);
+    expect(first.replay).toBe(false);
+    expect(records.get('key_1')).toEqual(expect.objectContaining({ traceId: 'trace_1', lockedUntil: later(conf.lockMs), expiresAt: later(24 * 60 * 60 * 1000) }));
+
+    await service.complete('key_1', first.fingerprint, 201, { code: 200, result: { paymentId: 'pay_1', refundedAmount: 500 } });
+
+    // 欄位順序不同仍視為相同請求
+    const retry = await service.begin('key_1', { ...refundRequest, body: { refundReason: 'duplicate', refundAmount: 500 }, traceId: 'trace_2' }, later(1000));
+    expect(retry).toEqual(expect.objectContaining({ replay: true, responseStatus: 201, traceId: 'trace_1' }));
+    expect(retry.replay && retry.responseBody.result).toEqual({ paymentId: 'pay_1', refundedAmount: 500 });
+  });
+
+  it('rejects the same key with a different request body', async () => {
+    await service.begin('key_1', refundRequest, now);
+
+    await expect(service.begin('key_1', { ...refundRequest, body: { refundAmount: 900 } }, later(1000))).rejects.toThrow('was used with a different request');
+    await expect(service.begin('key_1', { ...refundRequest, body: { refundAmount: 900 } }, later(1000))).rejects.toMatchObject({ code: IdempotencyErrorCode.KEY_REUSED });
+  });
+
+  it('blocks a concurrent request until the first one finishes or its lock expires', async () => {
+    const first = await service.begin('key_1', refundRequest, now);
+
+    await expect(service.begin('key_1', refundRequest, later(1000))).rejects.toThrow('is in progress');
+    await expect(service.begin('key_1', refundRequest, later(1000))).rejects.toMatchObject({ code: IdempotencyErrorCode.IN_PROGRESS });
+
+    // 第一次請求中斷（佔用逾時）後允許相同請求重新執行
+    const takeover = await service.begin('key_1', refundRequest, later(conf.lockMs));
+    expect(takeover).toEqual({ replay: false, fingerprint: first.fingerprint });
+  });
+
+  it('releases the key when the first request fails so the client can retry', async () => {
+    const first = await service.begin('key_1', refundRequest, now);
+    await service.release('key_1', first.fingerprint);
+
+    await expect(service.begin('key_1', refundRequest, later(1000))).resolves.toEqual(expect.objectContaining({ replay: false }));
+  });
+
+  it('rejects empty or oversized keys', async () => {
+    await expect(service.begin('', refundRequest, now)).rejects.toThrow('Invalid idempotency key');
+    await expect(service.begin('', refundRequest, now)).rejects.toMatchObject({ code: IdempotencyErrorCode.INVALID_KEY });
+    await expect(service.begin('k'.repeat(256), refundRequest, now)).rejects.toThrow('Invalid idempotency key');
+  });
+});
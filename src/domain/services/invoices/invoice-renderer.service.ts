@@ -0,0 +1,117 @@
+import { Injectable } from '@nestjs/common';
+import { InvoiceEntity } from '../../entities/invoice.entity';
+import { InvoiceStatus } from '../../enums/codes.const';
+import { Money } from '../../value-objects/money';
+import { PDF_A4_HEIGHT, PdfText, renderTextPdf } from '../../utils/pdf-document.util';
+
+/**
+ * 發票呈現服務
+ * 提供 HTML 與 PDF 兩種輸出，內容與欄位一致
+ */
+@Injectable()
+export class InvoiceRendererService {
+  /**
+   * 產生 HTML
+   */
+  public renderHtml(invoice: InvoiceEntity): string {
+    const rows = invoice.lineItems
+      .map(
+        (item) =>
+          `<tr><td>${escapeHtml(item.description)}</td><td class="num">${item.quantity}</td><td class="num">${this.format(item.unitAmount, invoice.currency)}</td><td class="num">${this.format(item.amount, invoice.currency)}</td></tr>`,
+      )
+      .join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="zh-TW">
+<head>
+<meta charset="utf-8">
+<title>Invoice ${escapeHtml(invoice.invoiceNumber)}</title>
+<style>
+body { font-family: sans-serif; margin: 40px; color: #222; }
+table { width: 100%; border-collapse: collapse; margin-top: 24px; }
+th, td { padding: 6px 8px; border-bottom: 1px solid #ddd; text-align: left; }
+.num { text-align: right; }
+.void { color: #c00; font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>Invoice ${escapeHtml(invoice.invoiceNumber)}</h1>
+${invoice.status === InvoiceStatus.VOID ? `<p class="void">VOID: ${escapeHtml(invoice.voidReason || '')}</p>` : ''}
+<p>Issued: ${this.formatDate(invoice.issuedAt)}<br>
+Billing period: ${this.formatDate(invoice.periodStart)} - ${this.formatDate(invoice.periodEnd)}<br>
+Bill to: ${escapeHtml(invoice.billTo.name || invoice.customerId)}${invoice.billTo.email ? ` &lt;${escapeHtml(invoice.billTo.email)}&gt;` : ''}</p>
+<table>
+<thead><tr><th>Description</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+<tfoot>
+<tr><td colspan="3" class="num">Subtotal</td><td class="num">${this.format(invoice.subtotal, invoice.currency)}</td></tr>
+<tr><td colspan="3" class="num">Tax (${invoice.taxRate}%)</td><td class="num">${this.format(invoice.taxAmount, invoice.currency)}</td></tr>
+<tr><th colspan="3" class="num">Total</th><th class="num">${this.format(invoice.total, invoice.currency)}</th></tr>
+</tfoot>
+</table>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * 產生單頁 A4 PDF
+   */
+  public renderPdf(invoice: InvoiceEntity): Buffer {
+    const left = 50;
+    const right = 545;
+    let y = PDF_A4_HEIGHT - 60;
+    const items: PdfText[] = [{ text: `Invoice ${invoice.invoiceNumber}`, x: left, y, size: 18, bold: true }];
+
+    const line = (text: string, x: number = left, options: Partial<PdfText> = {}) => items.push({ text, x, y, ...options });
+    const amountAt = (text: string, options: Partial<PdfText> = {}) => line(text, right - text.length * 5.5, options);
+
+    if (invoice.status === InvoiceStatus.VOID) {
+      y -= 20;
+      line(`VOID: ${invoice.voidReason || ''}`, left, { bold: true });
+    }
+    y -= 30;
+    line(`Issued: ${this.formatDate(invoice.issuedAt)}`);
+    y -= 15;
+    line(`Billing period: ${this.formatDate(invoice.periodStart)} - ${this.formatDate(invoice.periodEnd)}`);
+    y -= 15;
+    line(`Bill to: ${invoice.billTo.name || invoice.customerId}${invoice.billTo.email ? ` <${invoice.billTo.email}>` : ''}`);
+
+    y -= 30;
+    line('Description', left, { bold: true });
+    line('Qty', 340, { bold: true });
+    amountAt('Amount', { bold: true });
+    for (const item of invoice.lineItems) {
+      y -= 18;
+      line(item.description);
+      line(item.quantity.toString(), 340);
+      amountAt(this.format(item.amount, invoice.currency));
+    }
+
+    y -= 30;
+    line('Subtotal', 340);
+    amountAt(this.format(invoice.subtotal, invoice.currency));
+    y -= 15;
+    line(`Tax (${invoice.taxRate}%)`, 340);
+    amountAt(this.format(invoice.taxAmount, invoice.currency));
+    y -= 18;
+    line('Total', 340, { bold: true });
+    amountAt(this.format(invoice.total, invoice.currency), { bold: true });
+
+    return renderTextPdf(items);
+  }
+
+  private format(amount: number, currency: string): string {
+    return new Money(amount, currency).formatSimple();
+  }
+
+  private formatDate(date?: Date): string {
+    return date ? new Date(date).toISOString().slice(0, 10) : '-';
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
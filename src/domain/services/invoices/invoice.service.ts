@@ -0,0 +1,204 @@
+import { Injectable, Logger, OnModuleInit, Optional } from '@nestjs/common';
+import { ConfService } from '@myapp/conf';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { DomainEventBus } from '../events/domain-event-bus.service';
+import { NotificationService } from '../notification/notification.service';
+import { InvoiceRepository } from '../../../infra/repositories/invoice.repository';
+import { PaymentRepository } from '../../../infra/repositories/payment.repository';
+import { SubscriptionRepository } from '../../../infra/repositories/subscription.repository';
+import { CustomerRepository } from '../../../infra/repositories/customer.repository';
+import { InvoiceEntity } from '../../entities/invoice.entity';
+import { PaymentEntity } from '../../entities/payment.entity';
+import { SubscriptionEntity } from '../../entities/subscription.entity';
+import { InvoiceLineItemType, PaymentStatus } from '../../enums/codes.const';
+import { NotificationType } from '../../value-objects/notification';
+
+/** 可開立發票的付款狀態 */
+const INVOICEABLE_PAYMENT_STATUSES = [PaymentStatus.SUCCEEDED, PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.REFUNDED];
+
+export interface InvoicePage {
+  invoices: InvoiceEntity[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * 發票服務
+ * 訂閱扣款成功後開立發票，明細依付款快照包含方案費用、按比例計費、用量、優惠與抵用金折抵，稅額自含稅總額拆出
+ */
+@Injectable()
+export class InvoiceService implements OnModuleInit {
+  private readonly logger = new Logger(InvoiceService.name);
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly invoiceRepository: InvoiceRepository,
+    private readonly paymentRepository: PaymentRepository,
+    private readonly subscriptionRepository: SubscriptionRepository,
+    private readonly customerRepository: CustomerRepository,
+    private readonly eventBus: DomainEventBus,
+    @Optional() private readonly notificationService?: NotificationService,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.subscribe('payment.succeeded', 'invoices', async (message) => {
+      await this.createForPayment(message.aggregateId);
+    });
+  }
+
+  /**
+   * 為成功的訂閱付款開立發票，已開立過時回傳既有發票
+   */
+  public async createForPayment(paymentId: string): Promise<CustomDefinition.TNullable<InvoiceEntity>> {
+    const existing = await this.invoiceRepository.findByPaymentId(paymentId);
+    if (existing) {
+      return existing;
+    }
+
+    const payment = await this.paymentRepository.findById(paymentId);
+    if (!payment || !payment.subscriptionId || !INVOICEABLE_PAYMENT_STATUSES.includes(payment.status)) {
+      return undefined;
+    }
+
+    const subscription = await this.subscriptionRepository.findById(payment.subscriptionId);
+    const { merchantId, numberPrefix, taxRate, timezone } = this.confService.getConf().invoices;
+    const invoice = new InvoiceEntity(payment.metadata?.merchantId || subscription?.metadata?.merchantId || merchantId, payment.customerId, payment.currency);
+    invoice.subscriptionId = payment.subscriptionId;
+    invoice.paymentId = payment.id;
+    invoice.periodStart = payment.billingPeriodStart;
+    invoice.periodEnd = payment.billingPeriodEnd;
+    invoice.issuedAt = new Date();
+
+    const customer = await this.customerRepository.findById(payment.customerId);
+    invoice.billTo = { name: customer?.name, email: customer?.email };
+
+    this.addLineItems(invoice, payment, subscription);
+    invoice.applyTax(taxRate);
+
+    const created = await this.invoiceRepository.insertWithNextNumber(invoice, this.yearOf(invoice.issuedAt, timezone), numberPrefix);
+    this.logger.log(`Invoice ${created.invoiceNumber} issued for payment ${paymentId}`);
+
+    await this.notificationService
+      ?.notify({
+        customerId: created.customerId,
+        type: NotificationType.INVOICE_GENERATED,
+        notificationId: `notif_invoice_${created.id}`,
+        variables: { invoiceNumber: created.invoiceNumber, amount: created.getTotal().formatSimple() },
+        metadata: { invoiceId: created.id },
+      })
+      .catch((error) => this.logger.warn(`Invoice notification for ${created.invoiceNumber} failed: ${error.message}`));
+
+    return created;
+  }
+
+  public async getInvoice(invoiceId: string): Promise<CustomDefinition.TNullable<InvoiceEntity>> {
+    return this.invoiceRepository.findById(invoiceId);
+  }
+
+  /**
+   * 查詢客戶的發票
+   */
+  public async listCustomerInvoices(customerId: string, page: number = 1, limit: number = 20): Promise<InvoicePage> {
+    page = Math.max(1, page);
+    limit = Math.min(100, Math.max(1, limit));
+
+    const [invoices, total] = await Promise.all([
+      this.invoiceRepository.findByCustomerId(customerId, limit, (page - 1) * limit),
+      this.invoiceRepository.countByCustomerId(customerId),
+    ]);
+    return { invoices, total, page, limit };
+  }
+
+  /**
+   * 依付款建立時的快照建立明細，各明細為含稅金額且合計等於付款金額
+   * 方案費用由付款的 metadata.planAmount 提供，方案變更的按比例金額由 metadata.prorationAmount 提供，
+   * 用量超額費用由 metadata.usageCharges 提供，優惠折抵由 metadata.discounts 提供，抵用金折抵由 metadata.creditApplied 提供；
+   * 未記錄方案費用的舊付款以付款金額扣除其他明細後的差額作為方案費用
+   */
+  private addLineItems(invoice: InvoiceEntity, payment: PaymentEntity, subscription?: SubscriptionEntity): void {
+    if (!subscription) {
+      invoice.addLineItem({ type: InvoiceLineItemType.PLAN, description: payment.description || 'Subscription', quantity: 1, unitAmount: payment.amount });
+      return;
+    }
+
+    // 方案變更的差額扣款只開立按比例明細
+    if (payment.metadata?.prorationOnly) {
+      invoice.addLineItem({
+        type: InvoiceLineItemType.PRORATION,
+        description: payment.metadata.prorationDescription || 'Proration',
+        quantity: 1,
+        unitAmount: payment.amount,
+        referenceId: payment.metadata.planChange?.toPlanId,
+      });
+      return;
+    }
+
+    const metadata = payment.metadata || {};
+    const prorationAmount = Number(metadata.prorationAmount) || 0;
+    const usageCharges = (metadata.usageCharges || []) as Array<{ feature: string; quantity: number; amount: number }>;
+    const discounts = (metadata.discounts || []) as Array<{ promotionId: string; amount: number }>;
+    const creditApplied = Number(metadata.creditApplied) || 0;
+    const planAmount =
+      metadata.planAmount !== undefined
+        ? Number(metadata.planAmount)
+        : payment.amount -
+          prorationAmount -
+          usageCharges.reduce((sum, charge) => sum + charge.amount, 0) +
+          discounts.reduce((sum, discount) => sum + discount.amount, 0) +
+          creditApplied;
+
+    invoice.addLineItem({
+      type: InvoiceLineItemType.PLAN,
+      description: metadata.planName || subscription.planName,
+      quantity: 1,
+      unitAmount: planAmount,
+      referenceId: metadata.planId || subscription.planId,
+    });
+
+    if (prorationAmount) {
+      invoice.addLineItem({
+        type: InvoiceLineItemType.PRORATION,
+        description: metadata.prorationDescription || 'Proration',
+        quantity: 1,
+        unitAmount: prorationAmount,
+      });
+    }
+
+    for (const charge of usageCharges) {
+      invoice.addLineItem({
+        type: InvoiceLineItemType.USAGE,
+        description: `Usage ${charge.feature} (${charge.quantity})`,
+        quantity: 1,
+        unitAmount: charge.amount,
+        referenceId: charge.feature,
+      });
+    }
+
+    for (const discount of discounts) {
+      invoice.addLineItem({
+        type: InvoiceLineItemType.DISCOUNT,
+        description: `Promotion ${discount.promotionId}`,
+        quantity: 1,
+        unitAmount: -discount.amount,
+        referenceId: discount.promotionId,
+      });
+    }
+
+    if (creditApplied) {
+      invoice.addLineItem({
+        type: InvoiceLineItemType.CREDIT,
+        description: 'Customer credit',
+        quantity: 1,
+        unitAmount: -creditApplied,
+      });
+    }
+  }
+
+  /**
+   * 取得指定時區的年度
+   */
+  private yearOf(date: Date, timezone: string): number {
+    return Number(new Intl.DateTimeFormat('en-US', { timeZone: timezone, year: 'numeric' }).format(date));
+  }
+}
@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfService } from '@myapp/conf';
+import { InvoiceService } from '../invoice.service';
+import { InvoiceRendererService } from '../invoice-renderer.service';
+import { DomainEventBus } from '../../events/domain-event-bus.service';
+import { InvoiceRepository } from '../../../../infra/repositories/invoice.repository';
+import { PaymentRepository } from '../../../../infra/repositories/payment.repository';
+import { SubscriptionRepository } from '../../../../infra/repositories/subscription.repository';
+import { CustomerRepository } from '../../../../infra/repositories/customer.repository';
+import { InvoiceEntity } from '../../../entities/invoice.entity';
+import { InvoiceLineItemType, PaymentStatus } from '../../../enums/codes.const';
+import { Money } from '../../../value-objects/money';
+
+class InMemoryInvoiceRepository {
+  public invoices: InvoiceEntity[] = [];
+  async insertWithNextNumber(entity: InvoiceEntity, year: number, prefix: string) {
+    const last = this.invoices.filter((i) => i.merchantId === entity.merchantId && i.year === year).sort((a, b) => b.sequence - a.sequence)[0];
+    entity.assignNumber(year, (last?.sequence ?? 0) + 1, prefix);
+    entity.id = `inv_${this.invoices.length + 1}`;
+    this.invoices.push(entity);
+    return entity;
+  }
+  async findByPaymentId(paymentId: string) {
+    return this.invoices.find((i) => i.paymentId === paymentId);
+  }
+}
+
+describe('InvoiceService', () => {
+  let moduleRef: TestingModule;
+  let service: InvoiceService;
+  let invoices: InMemoryInvoiceRepository;
+
+  const payment = (id: string, metadata: Record<string, any> = {}) => ({
+    id,
+    customerId: 'cust_1',
+    subscriptionId: 'sub_1',
+    status: PaymentStatus.SUCCEEDED,
+    amount: 94500,
+    currency: 'TWD',
+    billingPeriodStart: new Date('2024-03-01T00:00:00Z'),
+    billingPeriodEnd: new Date('2024-03-31T00:00:00Z'),
+    metadata,
+  });
+  const subscription = {
+    id: 'sub_1',
+    planId: 'plan_pro',
+    planName: '專業方案',
+    metadata: {},
+    pricing: { baseAmount: new Money(100000, 'TWD'), currency: 'TWD' },
+    appliedPromotions: [
+      { promotionId: 'SPRING10', discountAmount: new Money(10000, 'TWD'), status: 'ACTIVE' },
+      { promotionId: 'OLD', discountAmount: new Money(5000, 'TWD'), status: 'EXPIRED' },
+    ],
+  };
+
+  beforeEach(async () => {
+    invoices = new InMemoryInvoiceRepository();
+    const confStub = {
+      getConf: () => ({ invoices: { merchantId: 'default', numberPrefix: 'INV-', taxRate: 5, timezone: 'Asia/Taipei' } }),
+    } as unknown as ConfService;
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        InvoiceService,
+        DomainEventBus,
+        { provide: ConfService, useValue: confStub },
+        { provide: InvoiceRepository, useValue: invoices },
+        {
+          provide: PaymentRepository,
+          useValue: {
+            findById: jest.fn(async (id: string) =>
+              id === 'pay_3'
+                ? payment(id, { merchantId: 'm_2' })
+                : payment(id, {
+                    planId: 'plan_pro',
+                    planName: '專業方案',
+                    planAmount: 102500,
+                    prorationAmount: 2000,
+                    discounts: [{ promotionId: 'SPRING10', amount: 10000 }],
+                  }),
+            ),
+          },
+        },
+        { provide: SubscriptionRepository, useValue: { findById: jest.fn(async () => subscription) } },
+        { provide: CustomerRepository, useValue: { findById: jest.fn(async () => ({ name: '王小明', email: 'ming@example.com' })) } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(InvoiceService);
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('builds lines from the payment snapshot with tax included in the paid amount', async () => {
+    const invoice = await service.createForPayment('pay_1');
+
+    expect(invoice.lineItems.map((item) => [item.type, item.amount])).toEqual([
+      [InvoiceLineItemType.PLAN, 102500],
+      [InvoiceLineItemType.PRORATION, 2000],
+      [InvoiceLineItemType.DISCOUNT, -10000],
+    ]);
+    expect(invoice.lineItems[2]).toEqual(expect.objectContaining({ description: 'Promotion SPRING10', referenceId: 'SPRING10' }));
+    expect(invoice.total).toBe(94500);
+    expect(invoice.taxAmount).toBe(4500);
+    expect(invoice.subtotal).toBe(90000);
+    expect(invoice.billTo).toEqual({ name: '王小明', email: 'ming@example.com' });
+  });
+
+  it('falls back to the paid amount for payments without a plan snapshot', async () => {
+    const invoice = await service.createForPayment('pay_3');
+
+    expect(invoice.lineItems.map((item) => [item.type, item.description, item.amount])).toEqual([[InvoiceLineItemType.PLAN, '專業方案', 94500]]);
+    expect(invoice.total).toBe(94500);
+  });
+
+  it('numbers invoices sequentially per merchant and year, once per payment', async () => {
+    const year = new Intl.DateTimeFormat('en-US', { timeZone: 'Asia/Taipei', year: 'numeric' }).format(new Date());
+    const first = await service.createForPayment('pay_1');
+    const again = await service.createForPayment('pay_1');
+    const second = await service.createForPayment('pay_2');
+    const otherMerchant = await service.createForPayment('pay_3');
+
+    expect(again).toBe(first);
+    expect(first.invoiceNumber).toBe(`INV-${year}-000001`);
+    expect(second.invoiceNumber).toBe(`INV-${year}-000002`);
+    expect(otherMerchant.merchantId).toBe('m_2');
+    expect(otherMerchant.invoiceNumber).toBe(`INV-${year}-000001`);
+  });
+
+  it('renders HTML and a well-formed PDF', async () => {
+    const invoice = await service.createForPayment('pay_1');
+    const renderer = new InvoiceRendererService();
+
+    const html = renderer.renderHtml(invoice);
+    expect(html).toContain(invoice.invoiceNumber);
+    expect(html).toContain('專業方案');
+    expect(html).toContain('NT$ 945');
+
+    const pdf = renderer.renderPdf(invoice).toString('latin1');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    const xrefOffset = Number(/startxref\n(\d+)/.exec(pdf)[1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+    // 中文以 UCS-2 十六進位字串輸出
+    expect(pdf).toContain('<5c08696d65b96848>');
+  });
+});
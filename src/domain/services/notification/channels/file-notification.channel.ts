@@ -0,0 +1,66 @@
+import { Injectable } from '@nestjs/common';
+import { ConfService } from '@myapp/conf';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { INotificationChannel } from '../../../interfaces/notification';
+import { NotificationChannel, NotificationContent, NotificationDeliveryResult, NotificationVO } from '../../../value-objects/notification';
+
+/**
+ * 檔案傳輸的通知管道
+ * 本地開發用，將每則通知以 JSON Lines 附加寫入 `<fileTransportDir>/<channel>.log`
+ */
+abstract class FileNotificationChannel implements INotificationChannel {
+  public abstract readonly channel: NotificationChannel;
+
+  constructor(private readonly confService: ConfService) {}
+
+  /**
+   * 取得此管道的收件地址
+   */
+  protected abstract resolveAddress(notification: NotificationVO): string;
+
+  public async send(notification: NotificationVO, content: NotificationContent): Promise<NotificationDeliveryResult> {
+    const sentAt = new Date();
+    try {
+      const dir = this.confService.getConf().notifications.fileTransportDir;
+      await fs.ensureDir(dir);
+      const line = JSON.stringify({
+        notificationId: notification.id,
+        type: notification.type,
+        to: this.resolveAddress(notification),
+        title: content.title,
+        body: content.body,
+        sentAt,
+      });
+      await fs.appendFile(path.join(dir, `${this.channel.toLowerCase()}.log`), `${line}\n`);
+
+      return { success: true, channel: this.channel, sentAt, externalId: notification.id };
+    } catch (error) {
+      return { success: false, channel: this.channel, sentAt, error: error.message };
+    }
+  }
+}
+
+/**
+ * 電子郵件管道（檔案傳輸）
+ */
+@Injectable()
+export class FileEmailNotificationChannel extends FileNotificationChannel {
+  public readonly channel = NotificationChannel.EMAIL;
+
+  protected resolveAddress(notification: NotificationVO): string {
+    return notification.recipient.email;
+  }
+}
+
+/**
+ * 簡訊管道（檔案傳輸）
+ */
+@Injectable()
+export class FileSmsNotificationChannel extends FileNotificationChannel {
+  public readonly channel = NotificationChannel.SMS;
+
+  protected resolveAddress(notification: NotificationVO): string {
+    return notification.recipient.phone;
+  }
+}
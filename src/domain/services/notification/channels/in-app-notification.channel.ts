@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { INotificationChannel } from '../../../interfaces/notification';
+import { NotificationChannel, NotificationContent, NotificationDeliveryResult, NotificationType, NotificationVO } from '../../../value-objects/notification';
+
+/**
+ * 站內通知收件匣項目
+ */
+export interface InAppNotificationItem {
+  notificationId: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  createdAt: Date;
+}
+
+/** 每位用戶保留的站內通知數量 */
+const MAX_INBOX_SIZE = 100;
+
+/**
+ * 站內通知管道（記憶體收件匣）
+ */
+@Injectable()
+export class InAppNotificationChannel implements INotificationChannel {
+  public readonly channel = NotificationChannel.IN_APP;
+  private readonly inboxes: Map<string, InAppNotificationItem[]> = new Map();
+
+  public async send(notification: NotificationVO, content: NotificationContent): Promise<NotificationDeliveryResult> {
+    const inbox = this.inboxes.get(notification.recipient.userId) || [];
+    inbox.unshift({
+      notificationId: notification.id,
+      type: notification.type,
+      title: content.title,
+      body: content.body,
+      createdAt: new Date(),
+    });
+    this.inboxes.set(notification.recipient.userId, inbox.slice(0, MAX_INBOX_SIZE));
+
+    const sentAt = new Date();
+    return { success: true, channel: this.channel, sentAt, deliveredAt: sentAt, externalId: notification.id };
+  }
+
+  /**
+   * 取得用戶的站內通知（新到舊）
+   */
+  public getInbox(userId: string): InAppNotificationItem[] {
+    return [...(this.inboxes.get(userId) || [])];
+  }
+}
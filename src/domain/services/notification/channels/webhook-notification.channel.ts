@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { ConfService } from '@myapp/conf';
+import { INotificationChannel } from '../../../interfaces/notification';
+import { NotificationChannel, NotificationContent, NotificationDeliveryResult, NotificationVO } from '../../../value-objects/notification';
+
+/**
+ * Webhook 通知管道
+ * 將通知以 JSON POST 至收件人設定的 `webhook_url`
+ */
+@Injectable()
+export class WebhookNotificationChannel implements INotificationChannel {
+  public readonly channel = NotificationChannel.WEBHOOK;
+
+  constructor(private readonly confService: ConfService) {}
+
+  public async send(notification: NotificationVO, content: NotificationContent): Promise<NotificationDeliveryResult> {
+    const sentAt = new Date();
+    try {
+      const response = await fetch(notification.metadata.webhook_url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: notification.id,
+          type: notification.type,
+          userId: notification.recipient.userId,
+          title: content.title,
+          body: content.body,
+          sentAt,
+        }),
+        signal: AbortSignal.timeout(this.confService.getConf().notifications.webhookTimeoutMs),
+      });
+
+      if (!response.ok) {
+        return { success: false, channel: this.channel, sentAt, error: `HTTP ${response.status}` };
+      }
+      return { success: true, channel: this.channel, sentAt, deliveredAt: new Date() };
+    } catch (error) {
+      return { success: false, channel: this.channel, sentAt, error: error.message };
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { INotificationChannel } from '../../interfaces/notification';
+import { NotificationChannel } from '../../value-objects/notification';
+
+/**
+ * 通知管道註冊表
+ * 每個管道僅對應一個轉接器，重複註冊時以後者取代
+ */
+@Injectable()
+export class NotificationChannelRegistry {
+  private readonly logger = new Logger(NotificationChannelRegistry.name);
+  private readonly adapters: Map<NotificationChannel, INotificationChannel> = new Map();
+
+  /**
+   * 註冊管道轉接器
+   */
+  register(adapter: INotificationChannel): void {
+    this.logger.log(`Registering notification channel: ${adapter.channel}`);
+    this.adapters.set(adapter.channel, adapter);
+  }
+
+  /**
+   * 取得管道轉接器
+   */
+  get(channel: NotificationChannel): CustomDefinition.TNullable<INotificationChannel> {
+    return this.adapters.get(channel);
+  }
+
+  /**
+   * 已註冊的管道
+   */
+  getRegisteredChannels(): NotificationChannel[] {
+    return Array.from(this.adapters.keys());
+  }
+}
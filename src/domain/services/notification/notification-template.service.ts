@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { CommonService } from '@myapp/common';
+import { NotificationContent, NotificationTemplateVariables, NotificationType } from '../../value-objects/notification';
+
+/**
+ * 通知模板服務
+ * 模板存放於語系檔 `NOTIFICATION_<TYPE>_TITLE` / `NOTIFICATION_<TYPE>_BODY`，
+ * 以 `{name}` 標記變數，避免與翻譯器本身的插值語法衝突
+ */
+@Injectable()
+export class NotificationTemplateService {
+  constructor(private readonly cmmService: CommonService) {}
+
+  /**
+   * 模板 ID
+   */
+  public getTemplateId(type: NotificationType): string {
+    return `NOTIFICATION_${type}`;
+  }
+
+  /**
+   * 依通知類型與語系產生內容
+   */
+  public render(type: NotificationType, locale: string | undefined, variables: NotificationTemplateVariables = {}): NotificationContent {
+    const templateId = this.getTemplateId(type);
+    const lang = locale?.toLowerCase();
+
+    return {
+      title: this.interpolate(this.cmmService.t(`${templateId}_TITLE`, lang), variables),
+      body: this.interpolate(this.cmmService.t(`${templateId}_BODY`, lang), variables),
+    };
+  }
+
+  /**
+   * 替換 `{name}` 變數，未提供的變數保留原樣
+   */
+  private interpolate(template: string, variables: NotificationTemplateVariables): string {
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = variables[name];
+      if (value === undefined || value === null) {
+        return placeholder;
+      }
+      return value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+    });
+  }
+}
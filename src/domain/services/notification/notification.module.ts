@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { NotificationChannelRegistry } from './notification-channel-registry.service';
+import { FileEmailNotificationChannel, FileSmsNotificationChannel } from './channels/file-notification.channel';
+import { InAppNotificationChannel } from './channels/in-app-notification.channel';
+import { WebhookNotificationChannel } from './channels/webhook-notification.channel';
+import { ConfModule } from '../../../../libs/conf/src/conf.module';
+
+/**
+ * 通知管道模組
+ * 註冊預設的管道轉接器，正式環境可改以實際供應商的轉接器覆寫
+ */
+@Module({
+  imports: [ConfModule],
+  providers: [NotificationChannelRegistry, FileEmailNotificationChannel, FileSmsNotificationChannel, InAppNotificationChannel, WebhookNotificationChannel],
+  exports: [NotificationChannelRegistry, InAppNotificationChannel],
+})
+export class NotificationModule {
+  constructor(
+    private readonly registry: NotificationChannelRegistry,
+    private readonly emailChannel: FileEmailNotificationChannel,
+    private readonly smsChannel: FileSmsNotificationChannel,
+    private readonly inAppChannel: InAppNotificationChannel,
+    private readonly webhookChannel: WebhookNotificationChannel,
+  ) {
+    this.registry.register(this.emailChannel);
+    this.registry.register(this.smsChannel);
+    this.registry.register(this.inAppChannel);
+    this.registry.register(this.webhookChannel);
+  }
+}
@@ -0,0 +1,72 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnApplicationShutdown } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { ConfService } from '@myapp/conf';
+import { NotificationService } from './notification.service';
+
+/** 延後與重試通知的發送排程名稱 */
+export const NOTIFICATION_DISPATCH_JOB = 'notifications';
+
+/** 續費提醒排程名稱 */
+export const RENEWAL_REMINDER_JOB = 'renewal-reminders';
+
+/**
+ * 通知排程
+ * 定期發送到期的延後與重試通知，並每日觸發續費提醒
+ */
+@Injectable()
+export class NotificationScheduler implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(NotificationScheduler.name);
+  private running = false;
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const { pollIntervalMs, renewalReminderCron, timezone } = this.confService.getConf().notifications;
+    this.schedulerRegistry.addInterval(
+      NOTIFICATION_DISPATCH_JOB,
+      setInterval(() => this.dispatch(), pollIntervalMs),
+    );
+
+    const job = new CronJob(renewalReminderCron, () => this.remindRenewals(), null, false, timezone);
+    this.schedulerRegistry.addCronJob(RENEWAL_REMINDER_JOB, job);
+    job.start();
+  }
+
+  onApplicationShutdown() {
+    if (this.schedulerRegistry.doesExist('interval', NOTIFICATION_DISPATCH_JOB)) {
+      this.schedulerRegistry.deleteInterval(NOTIFICATION_DISPATCH_JOB);
+    }
+    if (this.schedulerRegistry.doesExist('cron', RENEWAL_REMINDER_JOB)) {
+      this.schedulerRegistry.deleteCronJob(RENEWAL_REMINDER_JOB);
+    }
+  }
+
+  private async dispatch(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.notificationService.processDue();
+    } catch (error) {
+      this.logger.error(`Notification dispatch crashed: ${error.message}`, error.stack);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async remindRenewals(): Promise<void> {
+    try {
+      const reminded = await this.notificationService.sendRenewalReminders();
+      this.logger.log(`Renewal reminders sent: ${reminded}`);
+    } catch (error) {
+      this.logger.error(`Renewal reminders crashed: ${error.message}`, error.stack);
+    }
+  }
+}
@@ -0,0 +1,330 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfService } from '@myapp/conf';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { ObjectId } from 'mongodb';
+import { DomainEventBus, DomainEventMessage } from '../events/domain-event-bus.service';
+import { NotificationTemplateService } from './notification-template.service';
+import { NotificationChannelRegistry } from './notification-channel-registry.service';
+import { AccountService, Account } from '../account.service';
+import { NotificationRepository } from '../../../infra/repositories/notification.repository';
+import { CustomerRepository } from '../../../infra/repositories/customer.repository';
+import { PaymentRepository } from '../../../infra/repositories/payment.repository';
+import { SubscriptionRepository } from '../../../infra/repositories/subscription.repository';
+import { CustomerEntity } from '../../entities/customer.entity';
+import { Money } from '../../value-objects/money';
+import { QuietHours, resolveQuietHoursEnd } from '../../utils/quiet-hours.util';
+import {
+  NotificationChannel,
+  NotificationContent,
+  NotificationDeliveryResult,
+  NotificationPriority,
+  NotificationRecipient,
+  NotificationStatus,
+  NotificationTemplateVariables,
+  NotificationType,
+  NotificationVO,
+} from '../../value-objects/notification';
+
+/** 可略過勿擾時段的優先級 */
+const QUIET_HOURS_BYPASS_PRIORITIES = [NotificationPriority.URGENT, NotificationPriority.CRITICAL];
+
+/** 續費提醒每批查詢的訂閱數量 */
+const RENEWAL_REMINDER_BATCH_SIZE = 100;
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface NotifyCustomerCommand {
+  customerId: string;
+  type: NotificationType;
+  priority?: NotificationPriority;
+  variables?: NotificationTemplateVariables;
+  /** 指定發送管道，未指定時依客戶偏好 */
+  channels?: NotificationChannel[];
+  /** 指定通知 ID，相同 ID 的通知只會建立一次 */
+  notificationId?: string;
+  metadata?: Record<string, any>;
+}
+
+interface ResolvedRecipient {
+  recipient: NotificationRecipient;
+  quietHours?: QuietHours;
+  webhookUrl?: string;
+}
+
+/**
+ * 通知服務
+ * 依客戶偏好挑選管道、套用語系模板、處理勿擾時段，並保存每次狀態變更；
+ * 付款失敗、退款與續費提醒會自動觸發
+ */
+@Injectable()
+export class NotificationService implements OnModuleInit {
+  private readonly logger = new Logger(NotificationService.name);
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly notificationRepository: NotificationRepository,
+    private readonly templateService: NotificationTemplateService,
+    private readonly channelRegistry: NotificationChannelRegistry,
+    private readonly accountService: AccountService,
+    private readonly customerRepository: CustomerRepository,
+    private readonly paymentRepository: PaymentRepository,
+    private readonly subscriptionRepository: SubscriptionRepository,
+    private readonly eventBus: DomainEventBus,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.subscribe('payment.failed', 'notifications', (message) => this.onPaymentFailed(message));
+    this.eventBus.subscribe('payment.refunded', 'notifications', (message) => this.onPaymentRefunded(message));
+  }
+
+  /**
+   * 建立並發送客戶通知
+   * 位於勿擾時段的非緊急通知會延後至時段結束，由排程發送
+   */
+  public async notify(command: NotifyCustomerCommand): Promise<CustomDefinition.TNullable<NotificationVO>> {
+    if (command.notificationId) {
+      const existing = await this.notificationRepository.findById(command.notificationId);
+      if (existing) {
+        return existing;
+      }
+    }
+
+    const resolved = await this.resolveRecipient(command.customerId);
+    if (!resolved) {
+      this.logger.warn(`Skip ${command.type} notification: customer ${command.customerId} not found`);
+      return undefined;
+    }
+
+    const { recipient, quietHours, webhookUrl } = resolved;
+    const priority = command.priority ?? NotificationPriority.NORMAL;
+    const variables = command.variables ?? {};
+    const sendAt = QUIET_HOURS_BYPASS_PRIORITIES.includes(priority) ? undefined : resolveQuietHoursEnd(new Date(), quietHours, recipient.timezone);
+
+    let notification = new NotificationVO({
+      id: command.notificationId,
+      type: command.type,
+      priority,
+      recipient,
+      content: this.templateService.render(command.type, recipient.preferredLanguage, variables),
+      channels: command.channels ?? recipient.preferredChannels,
+      templateId: this.templateService.getTemplateId(command.type),
+      templateVariables: variables,
+      deliveryOptions: sendAt ? { sendAt } : {},
+      metadata: { ...command.metadata, customerId: command.customerId, webhook_url: webhookUrl },
+    });
+
+    let reason = sendAt ? `Deferred by quiet hours until ${sendAt.toISOString()}` : undefined;
+    if (!notification.canSend()) {
+      notification = notification.markAsCancelled();
+      reason = 'No available channel for recipient';
+    }
+
+    if (!(await this.notificationRepository.create(notification, reason))) {
+      return this.notificationRepository.findById(notification.id);
+    }
+
+    return notification.shouldSendNow() ? this.send(notification) : notification;
+  }
+
+  /**
+   * 透過各管道轉接器發送通知並記錄結果
+   * 任一管道成功即視為已發送，全部失敗時依通知的重試設定由排程重送
+   */
+  public async send(notification: NotificationVO): Promise<NotificationVO> {
+    const sending = notification.markAsSending();
+    if (!(await this.notificationRepository.transition(sending, notification.status))) {
+      return notification;
+    }
+
+    const content = sending.getPersonalizedContent();
+    const results: NotificationDeliveryResult[] = [];
+    for (const channel of sending.getApplicableChannels()) {
+      results.push(await this.sendThrough(channel, sending, content));
+    }
+
+    const sent = sending.markAsSent(results);
+    const errors = results.filter((r) => !r.success).map((r) => `${r.channel}: ${r.error}`);
+    await this.notificationRepository.transition(sent, NotificationStatus.SENDING, errors.length > 0 ? errors.join('; ') : undefined);
+
+    if (sent.status === NotificationStatus.FAILED) {
+      this.logger.warn(`Notification ${sent.id} failed (attempt ${sent.retryCount}): ${errors.join('; ')}`);
+    }
+    return sent;
+  }
+
+  /**
+   * 發送到期的延後通知與可重試的失敗通知
+   */
+  public async processDue(limit: number = 100): Promise<number> {
+    const notifications = await this.notificationRepository.findSendable(limit);
+    let sent = 0;
+
+    for (const notification of notifications) {
+      if (notification.isExpired()) {
+        await this.notificationRepository.transition(notification.markAsExpired(), notification.status);
+        continue;
+      }
+
+      const due = notification.status === NotificationStatus.FAILED ? (notification.getNextRetryTime()?.getTime() ?? Infinity) <= Date.now() : notification.shouldSendNow();
+      if (!due) {
+        continue;
+      }
+
+      const result = await this.send(notification);
+      if (result.status === NotificationStatus.SENT) {
+        sent++;
+      }
+    }
+    return sent;
+  }
+
+  /**
+   * 對即將續費的訂閱發送提醒
+   * 以 [asOf + 提前天數, +1 天) 為範圍，每日執行一次即可涵蓋所有訂閱；重複執行不會重複提醒
+   */
+  public async sendRenewalReminders(asOf: Date = new Date()): Promise<number> {
+    const { renewalReminderDays } = this.confService.getConf().notifications;
+    const start = new Date(asOf.getTime() + renewalReminderDays * ONE_DAY_MS);
+    const end = new Date(start.getTime() + ONE_DAY_MS - 1);
+    let afterId: string | undefined;
+    let reminded = 0;
+
+    for (;;) {
+      const subscriptions = await this.subscriptionRepository.findDueForBilling(start, end, RENEWAL_REMINDER_BATCH_SIZE, afterId);
+      for (const subscription of subscriptions) {
+        const renewalDate = subscription.nextBillingDate;
+        try {
+          const notification = await this.notify({
+            customerId: subscription.customerId,
+            type: NotificationType.SUBSCRIPTION_RENEWAL_REMINDER,
+            notificationId: `notif_renewal_${subscription.id}_${renewalDate.toISOString().slice(0, 10)}`,
+            variables: {
+              planName: subscription.planName,
+              amount: subscription.calculateCurrentPeriodAmount().formatSimple(),
+              renewalDate,
+            },
+            metadata: { subscriptionId: subscription.id },
+          });
+          if (notification) {
+            reminded++;
+          }
+        } catch (error) {
+          this.logger.error(`Renewal reminder for subscription ${subscription.id} failed: ${error.message}`, error.stack);
+        }
+      }
+
+      if (subscriptions.length < RENEWAL_REMINDER_BATCH_SIZE) {
+        break;
+      }
+      afterId = subscriptions[subscriptions.length - 1].id;
+    }
+    return reminded;
+  }
+
+  /**
+   * 付款失敗通知
+   */
+  private async onPaymentFailed(message: DomainEventMessage): Promise<void> {
+    const payment = await this.paymentRepository.findById(message.aggregateId);
+    if (!payment) {
+      return;
+    }
+
+    await this.notify({
+      customerId: payment.customerId,
+      type: NotificationType.PAYMENT_FAILED,
+      priority: NotificationPriority.HIGH,
+      notificationId: `notif_${message.eventId}`,
+      variables: {
+        amount: payment.getAmount().formatSimple(),
+        reason: message.payload.reason || payment.failureReason,
+      },
+      metadata: { paymentId: payment.id, subscriptionId: payment.subscriptionId },
+    });
+  }
+
+  /**
+   * 退款完成通知
+   */
+  private async onPaymentRefunded(message: DomainEventMessage): Promise<void> {
+    const payment = await this.paymentRepository.findById(message.aggregateId);
+    if (!payment) {
+      return;
+    }
+
+    const amount = message.payload.amount ? Money.fromJSON(message.payload.amount) : payment.getAmount();
+    await this.notify({
+      customerId: payment.customerId,
+      type: NotificationType.REFUND_PROCESSED,
+      notificationId: `notif_${message.eventId}`,
+      variables: { amount: amount.formatSimple() },
+      metadata: { paymentId: payment.id, refundId: message.payload.refundId },
+    });
+  }
+
+  /**
+   * 由管道轉接器發送，轉接器未註冊或拋出例外時記為失敗
+   */
+  private async sendThrough(channel: NotificationChannel, notification: NotificationVO, content: NotificationContent): Promise<NotificationDeliveryResult> {
+    const adapter = this.channelRegistry.get(channel);
+    if (!adapter) {
+      return { success: false, channel, sentAt: new Date(), error: 'Channel adapter not registered' };
+    }
+
+    try {
+      return await adapter.send(notification, content);
+    } catch (error) {
+      return { success: false, channel, sentAt: new Date(), error: error.message };
+    }
+  }
+
+  /**
+   * 由帳戶偏好與客戶資料組成收件人
+   */
+  private async resolveRecipient(customerId: string): Promise<ResolvedRecipient | undefined> {
+    const [{ account }, customer] = await Promise.all([this.accountService.getAccount(customerId), this.findCustomer(customerId)]);
+    if (!account && !customer) {
+      return undefined;
+    }
+
+    const email = account?.profile.email || customer?.email || undefined;
+    const phone = account?.profile.phone || customer?.phone || undefined;
+    const webhookUrl = account?.preferences.notifications.webhookUrl;
+
+    return {
+      recipient: {
+        userId: customerId,
+        email,
+        phone,
+        preferredLanguage: account?.preferences.language || customer?.locale,
+        preferredChannels: this.resolveChannels(account),
+        timezone: account?.billing.timezone || customer?.timezone || this.confService.getConf().notifications.timezone,
+        emailVerified: !!email,
+        phoneVerified: !!phone,
+      },
+      quietHours: account?.preferences.quietHours,
+      webhookUrl,
+    };
+  }
+
+  /**
+   * 依帳戶的通知偏好決定管道，無帳戶設定時使用電子郵件與站內通知
+   */
+  private resolveChannels(account: Account | null): NotificationChannel[] {
+    if (!account) {
+      return [NotificationChannel.EMAIL, NotificationChannel.IN_APP];
+    }
+
+    const preferences = account.preferences.notifications;
+    const channels: NotificationChannel[] = [];
+    if (preferences.email) channels.push(NotificationChannel.EMAIL);
+    if (preferences.sms) channels.push(NotificationChannel.SMS);
+    if (preferences.inApp !== false) channels.push(NotificationChannel.IN_APP);
+    if (preferences.webhookUrl) channels.push(NotificationChannel.WEBHOOK);
+    return channels;
+  }
+
+  private async findCustomer(customerId: string): Promise<CustomDefinition.TNullable<CustomerEntity>> {
+    return ObjectId.isValid(customerId) && customerId.length === 24 ? this.customerRepository.findById(customerId) : undefined;
+  }
+}
@@ -0,0 +1,188 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CommonService } from '@myapp/common';
+import { ConfService } from '@myapp/conf';
+import { NotificationService } from '../notification.service';
+import { NotificationTemplateService } from '../notification-template.service';
+import { NotificationChannelRegistry } from '../notification-channel-registry.service';
+import { InAppNotificationChannel } from '../channels/in-app-notification.channel';
+import { DomainEventBus, DomainEventMessage } from '../../events/domain-event-bus.service';
+import { AccountService } from '../../account.service';
+import { NotificationRepository } from '../../../../infra/repositories/notification.repository';
+import { CustomerRepository } from '../../../../infra/repositories/customer.repository';
+import { PaymentRepository } from '../../../../infra/repositories/payment.repository';
+import { SubscriptionRepository } from '../../../../infra/repositories/subscription.repository';
+import { Money } from '../../../value-objects/money';
+import { NotificationChannel, NotificationPriority, NotificationStatus, NotificationType, NotificationVO } from '../../../value-objects/notification';
+
+const langDir = path.resolve(__dirname, '../../../../../resources/langs');
+const langs: Record<string, Record<string, string>> = {
+  dev: fs.readJsonSync(path.join(langDir, 'dev.json')),
+  'zh-tw': fs.readJsonSync(path.join(langDir, 'zh-tw.json')),
+};
+
+class InMemoryNotificationRepository {
+  public records = new Map<string, { notification: NotificationVO; history: NotificationStatus[] }>();
+  async create(notification: NotificationVO) {
+    if (this.records.has(notification.id)) return false;
+    this.records.set(notification.id, { notification, history: [notification.status] });
+    return true;
+  }
+  async transition(notification: NotificationVO, fromStatus: NotificationStatus) {
+    const record = this.records.get(notification.id);
+    if (!record || record.notification.status !== fromStatus) return false;
+    record.notification = notification;
+    record.history.push(notification.status);
+    return true;
+  }
+  async findById(id: string) {
+    return this.records.get(id)?.notification;
+  }
+  async findSendable() {
+    return [...this.records.values()].map((r) => r.notification).filter((n) => [NotificationStatus.PENDING, NotificationStatus.FAILED].includes(n.status));
+  }
+}
+
+describe('NotificationService', () => {
+  let moduleRef: TestingModule;
+  let service: NotificationService;
+  let notifications: InMemoryNotificationRepository;
+  let inbox: InAppNotificationChannel;
+  let emailSend: jest.Mock;
+  let bus: DomainEventBus;
+
+  const subscriptions = { findDueForBilling: jest.fn() };
+  const payments = {
+    findById: jest.fn(async (id: string) => ({ id, customerId: 'cust_123', subscriptionId: 'sub_1', getAmount: () => new Money(29900, 'TWD') })),
+  };
+
+  const paymentFailed: DomainEventMessage = {
+    eventId: 'evt_1',
+    type: 'payment.failed',
+    aggregateType: 'Payment',
+    aggregateId: 'pay_1',
+    occurredAt: new Date(),
+    payload: { paymentId: 'pay_1', reason: 'Card declined' },
+    attempt: 1,
+  };
+
+  const handle = (message: DomainEventMessage) =>
+    bus
+      .getSubscribers(message.type)
+      .find((s) => s.name === 'notifications')
+      .handle(message);
+
+  beforeEach(async () => {
+    notifications = new InMemoryNotificationRepository();
+    emailSend = jest.fn(async () => ({ success: true, channel: NotificationChannel.EMAIL, sentAt: new Date() }));
+    subscriptions.findDueForBilling.mockReset();
+
+    const confStub = {
+      getConf: () => ({ notifications: { renewalReminderDays: 3, timezone: 'Asia/Taipei' } }),
+    } as unknown as ConfService;
+    const cmmStub = { t: (key: string, locale?: string) => (langs[locale] || langs.dev)[key] ?? langs.dev[key] ?? key };
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        NotificationService,
+        NotificationTemplateService,
+        NotificationChannelRegistry,
+        InAppNotificationChannel,
+        AccountService,
+        DomainEventBus,
+        { provide: ConfService, useValue: confStub },
+        { provide: CommonService, useValue: cmmStub },
+        { provide: NotificationRepository, useValue: notifications },
+        { provide: CustomerRepository, useValue: { findById: jest.fn() } },
+        { provide: PaymentRepository, useValue: payments },
+        { provide: SubscriptionRepository, useValue: subscriptions },
+      ],
+    }).compile();
+    await moduleRef.init();
+
+    service = moduleRef.get(NotificationService);
+    bus = moduleRef.get(DomainEventBus);
+    inbox = moduleRef.get(InAppNotificationChannel);
+    const registry = moduleRef.get(NotificationChannelRegistry);
+    registry.register(inbox);
+    registry.register({ channel: NotificationChannel.EMAIL, send: emailSend });
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await moduleRef.close();
+  });
+
+  it('sends a localized payment failed notification through the preferred channels once per event', async () => {
+    await handle(paymentFailed);
+    await handle(paymentFailed);
+
+    const record = notifications.records.get('notif_evt_1');
+    expect(record.history).toEqual([NotificationStatus.PENDING, NotificationStatus.SENDING, NotificationStatus.SENT]);
+    expect(record.notification.channels).toEqual([NotificationChannel.EMAIL, NotificationChannel.IN_APP]);
+    expect(record.notification.content.body).toBe('Your payment of NT$ 299 could not be processed. Reason: Card declined');
+    expect(emailSend).toHaveBeenCalledTimes(1);
+    expect(emailSend.mock.calls[0][0].recipient.email).toBe('john.doe@example.com');
+    expect(inbox.getInbox('cust_123')).toHaveLength(1);
+  });
+
+  it('defers non-urgent notifications during quiet hours and sends them once they end', async () => {
+    // cust_456 勿擾時段 22:00 - 08:00（America/New_York），此時為當地 23:00
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] }).setSystemTime(new Date('2024-03-01T04:00:00Z'));
+
+    const deferred = await service.notify({ customerId: 'cust_456', type: NotificationType.PAYMENT_SUCCESS, variables: { amount: '$10' } });
+    const urgent = await service.notify({
+      customerId: 'cust_456',
+      type: NotificationType.SECURITY_ALERT,
+      priority: NotificationPriority.CRITICAL,
+      variables: { message: 'New login' },
+    });
+
+    expect(deferred.status).toBe(NotificationStatus.PENDING);
+    expect(deferred.deliveryOptions.sendAt.toISOString()).toBe('2024-03-01T13:00:00.000Z');
+    expect(urgent.status).toBe(NotificationStatus.SENT);
+    expect(await service.processDue()).toBe(0);
+
+    jest.setSystemTime(new Date('2024-03-01T13:01:00Z'));
+    expect(await service.processDue()).toBe(1);
+    expect(notifications.records.get(deferred.id).notification.status).toBe(NotificationStatus.SENT);
+  });
+
+  it('retries failed deliveries and reminds upcoming renewals only once', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] }).setSystemTime(new Date('2024-03-01T02:00:00Z'));
+    await moduleRef.get(AccountService).updatePreferences('cust_123', { notifications: { email: true, sms: false, marketing: false, inApp: false } });
+    emailSend.mockResolvedValueOnce({ success: false, channel: NotificationChannel.EMAIL, sentAt: new Date(), error: 'SMTP down' });
+
+    const failed = await service.notify({ customerId: 'cust_123', type: NotificationType.PAYMENT_SUCCESS, variables: { amount: 'NT$ 299' } });
+    expect(failed.status).toBe(NotificationStatus.FAILED);
+    expect(failed.retryCount).toBe(1);
+    expect(await service.processDue()).toBe(0);
+
+    jest.setSystemTime(new Date('2024-03-01T02:11:00Z'));
+    expect(await service.processDue()).toBe(1);
+    expect(notifications.records.get(failed.id).history).toEqual([
+      NotificationStatus.PENDING,
+      NotificationStatus.SENDING,
+      NotificationStatus.FAILED,
+      NotificationStatus.SENDING,
+      NotificationStatus.SENT,
+    ]);
+
+    subscriptions.findDueForBilling.mockResolvedValue([
+      {
+        id: 'sub_1',
+        customerId: 'cust_123',
+        planName: 'Pro',
+        nextBillingDate: new Date('2024-03-04T00:00:00Z'),
+        calculateCurrentPeriodAmount: () => new Money(29900, 'TWD'),
+      },
+    ]);
+    await service.sendRenewalReminders(new Date('2024-03-01T02:00:00Z'));
+    await service.sendRenewalReminders(new Date('2024-03-01T02:00:00Z'));
+
+    const reminder = notifications.records.get('notif_renewal_sub_1_2024-03-04').notification;
+    expect(reminder.content.body).toBe('Your subscription Pro will renew on 2024-03-04 for NT$ 299.');
+    expect(emailSend).toHaveBeenCalledTimes(3);
+  });
+});
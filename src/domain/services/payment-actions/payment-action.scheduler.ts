@@ -0,0 +1,44 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { ConfService } from '@myapp/conf';
+import { PaymentActionService } from './payment-action.service';
+
+/** 付款驗證逾時排程名稱 */
+export const PAYMENT_ACTION_EXPIRY_JOB = 'payment-action-expiry';
+
+/**
+ * 付款驗證逾時排程
+ * 依設定的 cron 表達式將逾時未完成驗證的付款轉為失敗
+ */
+@Injectable()
+export class PaymentActionScheduler implements OnApplicationBootstrap {
+  private readonly logger = new Logger(PaymentActionScheduler.name);
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly paymentActionService: PaymentActionService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const { expiryEnabled, expiryCron, timezone } = this.confService.getConf().paymentActions;
+    if (!expiryEnabled) {
+      this.logger.log('Payment action expiry scheduler is disabled');
+      return;
+    }
+
+    const job = new CronJob(expiryCron, () => this.trigger(), null, false, timezone);
+    this.schedulerRegistry.addCronJob(PAYMENT_ACTION_EXPIRY_JOB, job);
+    job.start();
+    this.logger.log(`Payment action expiry scheduled with "${expiryCron}" (${timezone})`);
+  }
+
+  private async trigger(): Promise<void> {
+    try {
+      await this.paymentActionService.expireOverdue();
+    } catch (error) {
+      this.logger.error(`Payment action expiry crashed: ${error.message}`, error.stack);
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { ConfService } from '@myapp/conf';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { PaymentRepository } from '../../../infra/repositories/payment.repository';
+import { JobLockRepository } from '../../../infra/repositories/job-lock.repository';
+import { DomainEventBus, DomainEventMessage } from '../events/domain-event-bus.service';
+import { NotificationService } from '../notification/notification.service';
+import { PaymentService } from '../payment.service';
+import { PaymentProcessingService } from '../payment-processing.service';
+import { PaymentEntity } from '../../entities';
+import { NotificationPriority, NotificationType } from '../../value-objects/notification';
+import { createPaymentActionToken, verifyPaymentActionToken } from '../../utils/payment-action-token.util';
+
+/** 驗證逾時掃描作業鎖名稱 */
+export const PAYMENT_ACTION_EXPIRY_LOCK = 'payment-action-expiry';
+
+/**
+ * 驗證連結對應的付款
+ */
+export interface PaymentActionLink {
+  payment: PaymentEntity;
+  expiresAt: Date;
+}
+
+/**
+ * 驗證逾時掃描結果
+ */
+export interface PaymentActionExpiryResult {
+  /** 掃描的逾時付款數 */
+  scanned: number;
+  /** 轉為失敗的付款數 */
+  expired: number;
+  /** 閘道端已完成而結清的付款數 */
+  settled: number;
+}
+
+/**
+ * 付款客戶驗證服務（如 3-D Secure）
+ * 付款等待驗證時寄出附簽章連結的通知，客戶經連結完成驗證後向原閘道確認付款；
+ * 逾時未完成的付款先向閘道確認狀態：閘道端已成功則結清，否則於閘道取消後轉為失敗，交由既有的重試與催收流程處理
+ */
+@Injectable()
+export class PaymentActionService implements OnModuleInit {
+  private readonly logger = new Logger(PaymentActionService.name);
+  private readonly owner = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly paymentRepository: PaymentRepository,
+    private readonly paymentService: PaymentService,
+    private readonly paymentProcessingService: PaymentProcessingService,
+    private readonly notificationService: NotificationService,
+    private readonly jobLockRepository: JobLockRepository,
+    private readonly eventBus: DomainEventBus,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.subscribe('payment.action_required', 'payment-actions', (message) => this.onActionRequired(message));
+  }
+
+  /**
+   * 驗證連結，回傳等待驗證的付款
+   */
+  public async resolveActionLink(token: string, at: Date = new Date()): Promise<PaymentActionLink> {
+    const { linkSecret } = this.confService.getConf().paymentActions;
+    const claims = linkSecret ? verifyPaymentActionToken(linkSecret, token, at.getTime()) : undefined;
+    if (!claims) {
+      throw new Error('Invalid or expired payment action link');
+    }
+
+    const payment = await this.paymentRepository.findById(claims.paymentId);
+    if (!payment || payment.customerId !== claims.customerId) {
+      throw new Error('Invalid or expired payment action link');
+    }
+
+    return { payment, expiresAt: new Date(claims.exp * 1000) };
+  }
+
+  /**
+   * 客戶完成驗證後確認付款
+   * 成功時結清付款；仍未完成驗證時維持等待；驗證失敗時轉為失敗並進入重試流程
+   */
+  public async confirmAction(token: string, at: Date = new Date()): Promise<PaymentEntity> {
+    const { payment } = await this.resolveActionLink(token, at);
+    if (!payment.isAwaitingAction() || !payment.customerAction) {
+      throw new Error(`Payment ${payment.id} is not awaiting customer action`);
+    }
+
+    const { gateway, transactionId } = payment.customerAction;
+    const result = await this.paymentProcessingService.confirmPayment(gateway, transactionId);
+    if (result.success) {
+      this.logger.log(`Payment ${payment.id} authenticated and confirmed via ${gateway}`);
+      return await this.paymentService.markPaymentSucceeded(payment.id, result.transactionId, gateway);
+    }
+    if (result.requiresAction) {
+      return payment;
+    }
+    if (result.errorCode === 'PROCESSING_ERROR') {
+      // 閘道暫時無法確認，保持等待讓客戶稍後重試
+      throw new Error(`Payment confirmation unavailable: ${result.errorMessage}`);
+    }
+
+    this.logger.warn(`Payment ${payment.id} authentication failed: ${result.errorMessage}`);
+    return await this.paymentService.markPaymentFailed(payment.id, result.errorMessage, result.errorCode || 'AUTHENTICATION_FAILED');
+  }
+
+  /**
+   * 將逾時未完成驗證的付款轉為失敗，每次處理一批
+   * 閘道端已成功的付款改為結清；其餘先於閘道取消，避免重試時重複扣款。查詢或取消失敗的付款留待下次掃描
+   * 無法取得作業鎖（其他實例執行中）時回傳 undefined
+   */
+  public async expireOverdue(at: Date = new Date()): Promise<CustomDefinition.TNullable<PaymentActionExpiryResult>> {
+    const { batchSize, lockTtlMs } = this.confService.getConf().paymentActions;
+
+    if (!(await this.jobLockRepository.tryAcquire(PAYMENT_ACTION_EXPIRY_LOCK, this.owner, lockTtlMs))) {
+      this.logger.warn(`Payment action expiry skipped: lock ${PAYMENT_ACTION_EXPIRY_LOCK} is held by another instance`);
+      return undefined;
+    }
+
+    const result: PaymentActionExpiryResult = { scanned: 0, expired: 0, settled: 0 };
+    try {
+      const payments = await this.paymentRepository.findExpiredActions(at, batchSize);
+      for (const payment of payments) {
+        result.scanned++;
+        try {
+          const { gateway, transactionId } = payment.customerAction;
+          const outcome = await this.paymentProcessingService.cancelPendingPayment(gateway, transactionId);
+          if (outcome.success) {
+            this.logger.warn(`Payment ${payment.id} expired locally but succeeded via ${gateway}; settling it`);
+            await this.paymentService.markPaymentSucceeded(payment.id, outcome.transactionId, gateway);
+            result.settled++;
+            continue;
+          }
+
+          await this.paymentService.markPaymentFailed(
+            payment.id,
+            `Customer authentication not completed before ${payment.customerAction.expiresAt.toISOString()}`,
+            'AUTHENTICATION_TIMEOUT',
+          );
+          result.expired++;
+        } catch (error) {
+          this.logger.error(`Failed to expire payment action ${payment.id}: ${error.message}`, error.stack);
+        }
+      }
+    } finally {
+      await this.jobLockRepository.release(PAYMENT_ACTION_EXPIRY_LOCK, this.owner);
+    }
+
+    if (result.scanned > 0) {
+      this.logger.log(`Payment action expiry: scanned ${result.scanned}, expired ${result.expired}, settled ${result.settled}`);
+    }
+    return result;
+  }
+
+  /**
+   * 寄送附驗證連結的通知，連結效期與等待驗證的期限一致
+   */
+  private async onActionRequired(message: DomainEventMessage): Promise<void> {
+    const payment = await this.paymentRepository.findById(message.aggregateId);
+    if (!payment?.isAwaitingAction() || !payment.customerAction) {
+      return;
+    }
+
+    const { actionUrl, linkSecret } = this.confService.getConf().paymentActions;
+    if (!linkSecret) {
+      throw new Error('Payment action link secret is not configured');
+    }
+
+    const { expiresAt } = payment.customerAction;
+    const token = createPaymentActionToken(linkSecret, payment.id, payment.customerId, expiresAt);
+    await this.notificationService.notify({
+      customerId: payment.customerId,
+      type: NotificationType.PAYMENT_ACTION_REQUIRED,
+      priority: NotificationPriority.HIGH,
+      notificationId: `notif_${message.eventId}`,
+      variables: {
+        amount: payment.getAmount().formatSimple(),
+        expiresAt,
+        actionUrl: `${actionUrl}?token=${encodeURIComponent(token)}`,
+      },
+      metadata: { paymentId: payment.id, subscriptionId: payment.subscriptionId },
+    });
+  }
+}
@@ -0,0 +1,211 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfService } from '@myapp/conf';
+import { PaymentActionService, PAYMENT_ACTION_EXPIRY_LOCK } from '../payment-action.service';
+import { PaymentService } from '../../payment.service';
+import { PaymentProcessingService } from '../../payment-processing.service';
+import { BillingService } from '../../billing.service';
+import { RetryStrategyEngine } from '../../rules-engine/retry-strategy.engine';
+import { NotificationService } from '../../notification/notification.service';
+import { DomainEventBus, DomainEventHandler } from '../../events/domain-event-bus.service';
+import { PaymentGatewayManager } from '../../payment/payment-gateway-manager.service';
+import { MockPaymentGateway } from '../../payment/mock-payment-gateway.service';
+import { PaymentRepository } from '../../../../infra/repositories/payment.repository';
+import { PaymentMethodRepository } from '../../../../infra/repositories/payment-method.repository';
+import { SubscriptionRepository } from '../../../../infra/repositories/subscription.repository';
+import { JobLockRepository } from '../../../../infra/repositories/job-lock.repository';
+import { PaymentEntity } from '../../../entities';
+import { PaymentStatus } from '../../../enums/codes.const';
+import { PaymentMethodType as GatewayPaymentMethodType, PaymentStatus as GatewayPaymentStatus } from '../../../interfaces/payment/payment-gateway.interface';
+import { NotificationType } from '../../../value-objects/notification';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('PaymentActionService', () => {
+  let moduleRef: TestingModule;
+  let service: PaymentActionService;
+  let paymentService: PaymentService;
+  let gateway: MockPaymentGateway;
+  let payment: PaymentEntity;
+  let handlers: Map<string, DomainEventHandler>;
+
+  const paymentRepository = {
+    findById: jest.fn(async (id: string) => (payment.id === id ? payment : undefined)),
+    findBySubscriptionId: jest.fn(async () => [payment]),
+    findExpiredActions: jest.fn(async (asOf: Date) => (payment.isActionExpired(asOf) ? [payment] : [])),
+    save: jest.fn(async (entity: PaymentEntity) => entity),
+  };
+  const paymentMethodRepository = {
+    findById: jest.fn(async (id: string) => ({ id, customerId: 'cus_1', type: 'CREDIT_CARD', isAvailable: () => true })),
+  };
+  const retryStrategyEngine = { evaluateRetryDecision: jest.fn() };
+  const billingService = { handlePaymentSuccess: jest.fn(), handlePaymentFailure: jest.fn() };
+  const notificationService = { notify: jest.fn(async (command) => command) };
+  const jobLockRepository = { tryAcquire: jest.fn(async () => true), release: jest.fn() };
+  const eventBus = { subscribe: jest.fn((type: string, _name: string, handler: DomainEventHandler) => handlers.set(type, handler)) };
+  const conf = {
+    actionUrl: 'https://app.example.com/payments/authenticate',
+    linkSecret: 'test-secret',
+    timeoutHours: 72,
+    batchSize: 100,
+    lockTtlMs: 60 * 1000,
+  };
+
+  /** 以離線續扣觸發驗證要求，並派送 payment.action_required 事件 */
+  const renewWithChallenge = async () => {
+    gateway.simulateAuthenticationRequired();
+    const result = await paymentService.processPaymentWithRetry({ paymentId: 'pay_1', customerId: 'cus_1', paymentMethodId: 'pm_1', amount: 1000, currency: 'TWD' });
+    await handlers.get('payment.action_required')({
+      eventId: 'evt_1',
+      type: 'payment.action_required',
+      aggregateType: 'payment',
+      aggregateId: payment.id,
+      occurredAt: new Date(),
+      payload: {},
+      attempt: 1,
+    });
+    return result;
+  };
+
+  const tokenFromNotification = (): string => {
+    const { actionUrl } = notificationService.notify.mock.calls[0][0].variables;
+    return new URL(actionUrl).searchParams.get('token');
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    handlers = new Map();
+
+    payment = new PaymentEntity('sub_1', 'cus_1', 'pm_1', 1000, new Date(), new Date());
+    payment.id = 'pay_1';
+    payment.startAttempt();
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        PaymentActionService,
+        PaymentService,
+        PaymentProcessingService,
+        PaymentGatewayManager,
+        MockPaymentGateway,
+        { provide: ConfService, useValue: { getConf: () => ({ paymentActions: conf }) } },
+        { provide: PaymentRepository, useValue: paymentRepository },
+        { provide: PaymentMethodRepository, useValue: paymentMethodRepository },
+        { provide: SubscriptionRepository, useValue: {} },
+        { provide: RetryStrategyEngine, useValue: retryStrategyEngine },
+        { provide: BillingService, useValue: billingService },
+        { provide: NotificationService, useValue: notificationService },
+        { provide: JobLockRepository, useValue: jobLockRepository },
+        { provide: DomainEventBus, useValue: eventBus },
+      ],
+    }).compile();
+    await moduleRef.init();
+
+    service = moduleRef.get(PaymentActionService);
+    paymentService = moduleRef.get(PaymentService);
+    gateway = moduleRef.get(MockPaymentGateway);
+    jest.spyOn(gateway as any, 'simulateProcessingDelay').mockResolvedValue(undefined);
+    moduleRef.get(PaymentGatewayManager).registerGateway('mock', gateway, {
+      name: 'mock',
+      enabled: true,
+      testMode: true,
+      supportedCurrencies: ['TWD'],
+      supportedPaymentMethods: [GatewayPaymentMethodType.CREDIT_CARD],
+      processingFeeRate: 0.02,
+    });
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('puts an off-session renewal that needs authentication into REQUIRES_ACTION and notifies the customer', async () => {
+    const result = await renewWithChallenge();
+
+    expect(result).toEqual(expect.objectContaining({ success: false, requiresAction: true, attempts: 1 }));
+    expect(payment.status).toBe(PaymentStatus.REQUIRES_ACTION);
+    expect(payment.customerAction).toEqual(expect.objectContaining({ gateway: 'mock', type: '3d_secure' }));
+    expect(payment.customerAction.expiresAt.getTime() - payment.customerAction.requestedAt.getTime()).toBeCloseTo(72 * HOUR_MS, -4);
+    expect(retryStrategyEngine.evaluateRetryDecision).not.toHaveBeenCalled();
+    expect(billingService.handlePaymentFailure).not.toHaveBeenCalled();
+
+    expect(notificationService.notify).toHaveBeenCalledWith(
+      expect.objectContaining({ customerId: 'cus_1', type: NotificationType.PAYMENT_ACTION_REQUIRED, notificationId: 'notif_evt_1' }),
+    );
+    expect(notificationService.notify.mock.calls[0][0].variables.actionUrl).toMatch(/^https:\/\/app\.example\.com\/payments\/authenticate\?token=/);
+
+    const link = await service.resolveActionLink(tokenFromNotification());
+    expect(link.payment.id).toBe('pay_1');
+    expect(link.expiresAt.getTime()).toBe(Math.floor(payment.customerAction.expiresAt.getTime() / 1000) * 1000);
+    await expect(service.resolveActionLink(`${tokenFromNotification()}x`)).rejects.toThrow('Invalid or expired payment action link');
+  });
+
+  it('resumes the payment through confirmPayment once the customer completes the challenge', async () => {
+    await renewWithChallenge();
+    const token = tokenFromNotification();
+
+    gateway.completeChallenge(payment.customerAction.transactionId, 'pending');
+    expect((await service.confirmAction(token)).status).toBe(PaymentStatus.REQUIRES_ACTION);
+
+    gateway.completeChallenge(payment.customerAction.transactionId, 'succeeded');
+    const confirmed = await service.confirmAction(token);
+
+    expect(confirmed.status).toBe(PaymentStatus.SUCCEEDED);
+    expect(confirmed.customerAction.completedAt).toBeInstanceOf(Date);
+    expect(billingService.handlePaymentSuccess).toHaveBeenCalledWith('pay_1');
+    await expect(service.confirmAction(token)).rejects.toThrow('not awaiting customer action');
+  });
+
+  it('fails the payment into the retry path when authentication fails', async () => {
+    await renewWithChallenge();
+
+    gateway.completeChallenge(payment.customerAction.transactionId, 'failed');
+    const failed = await service.confirmAction(tokenFromNotification());
+
+    expect(failed.status).toBe(PaymentStatus.FAILED);
+    expect(failed.failureDetails).toEqual(expect.objectContaining({ errorCode: 'AUTHENTICATION_FAILED' }));
+    expect(billingService.handlePaymentFailure).toHaveBeenCalledWith('pay_1');
+  });
+
+  it('times out actions that are never completed', async () => {
+    await renewWithChallenge();
+    const expiresAt = payment.customerAction.expiresAt;
+
+    const { transactionId } = payment.customerAction;
+
+    expect(await service.expireOverdue(new Date(expiresAt.getTime() - HOUR_MS))).toEqual({ scanned: 0, expired: 0, settled: 0 });
+
+    const result = await service.expireOverdue(new Date(expiresAt.getTime() + 1000));
+
+    expect(result).toEqual({ scanned: 1, expired: 1, settled: 0 });
+    expect(await gateway.getPaymentStatus(transactionId)).toBe(GatewayPaymentStatus.CANCELED);
+    expect(payment.status).toBe(PaymentStatus.FAILED);
+    expect(payment.failureDetails).toEqual(expect.objectContaining({ errorCode: 'AUTHENTICATION_TIMEOUT' }));
+    expect(billingService.handlePaymentFailure).toHaveBeenCalledWith('pay_1');
+    expect(jobLockRepository.release).toHaveBeenCalledWith(PAYMENT_ACTION_EXPIRY_LOCK, expect.any(String));
+    await expect(service.resolveActionLink(tokenFromNotification(), new Date(expiresAt.getTime() + 1000))).rejects.toThrow('Invalid or expired payment action link');
+  });
+
+  it('settles an expired action that already succeeded at the gateway instead of failing it', async () => {
+    await renewWithChallenge();
+    const { expiresAt, transactionId } = payment.customerAction;
+    gateway.simulateTransactionUpdate(transactionId, { status: GatewayPaymentStatus.SUCCEEDED });
+
+    const result = await service.expireOverdue(new Date(expiresAt.getTime() + 1000));
+
+    expect(result).toEqual({ scanned: 1, expired: 0, settled: 1 });
+    expect(payment.status).toBe(PaymentStatus.SUCCEEDED);
+    expect(billingService.handlePaymentSuccess).toHaveBeenCalledWith('pay_1');
+    expect(billingService.handlePaymentFailure).not.toHaveBeenCalled();
+  });
+
+  it('leaves an expired action for the next run when the gateway cannot cancel it', async () => {
+    await renewWithChallenge();
+    const { expiresAt } = payment.customerAction;
+    jest.spyOn(gateway, 'cancelPayment').mockRejectedValueOnce(new Error('Gateway request timed out'));
+
+    const result = await service.expireOverdue(new Date(expiresAt.getTime() + 1000));
+
+    expect(result).toEqual({ scanned: 1, expired: 0, settled: 0 });
+    expect(payment.status).toBe(PaymentStatus.REQUIRES_ACTION);
+    expect(billingService.handlePaymentFailure).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,44 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { ConfService } from '@myapp/conf';
+import { PaymentMethodExpiryService } from './payment-method-expiry.service';
+
+/** 到期卡片掃描排程名稱 */
+export const PAYMENT_METHOD_EXPIRY_JOB = 'payment-method-expiry';
+
+/**
+ * 到期卡片掃描排程
+ * 依設定的 cron 表達式每日觸發 PaymentMethodExpiryService
+ */
+@Injectable()
+export class PaymentMethodExpiryScheduler implements OnApplicationBootstrap {
+  private readonly logger = new Logger(PaymentMethodExpiryScheduler.name);
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly expiryService: PaymentMethodExpiryService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const { enabled, cron, timezone } = this.confService.getConf().paymentMethodExpiry;
+    if (!enabled) {
+      this.logger.log('Payment method expiry scheduler is disabled');
+      return;
+    }
+
+    const job = new CronJob(cron, () => this.trigger(), null, false, timezone);
+    this.schedulerRegistry.addCronJob(PAYMENT_METHOD_EXPIRY_JOB, job);
+    job.start();
+    this.logger.log(`Payment method expiry scan scheduled with "${cron}" (${timezone})`);
+  }
+
+  private async trigger(): Promise<void> {
+    try {
+      await this.expiryService.run();
+    } catch (error) {
+      this.logger.error(`Payment method expiry run crashed: ${error.message}`, error.stack);
+    }
+  }
+}
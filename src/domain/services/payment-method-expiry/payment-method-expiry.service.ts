@@ -0,0 +1,274 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { ConfService } from '@myapp/conf';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { PaymentMethodRepository } from '../../../infra/repositories/payment-method.repository';
+import { SubscriptionRepository } from '../../../infra/repositories/subscription.repository';
+import { JobLockRepository } from '../../../infra/repositories/job-lock.repository';
+import { PaymentGatewayManager } from '../payment/payment-gateway-manager.service';
+import { NotificationService } from '../notification/notification.service';
+import { SubscriptionService } from '../subscription.service';
+import { PaymentMethodEntity, SubscriptionEntity } from '../../entities';
+import { NotificationPriority, NotificationType } from '../../value-objects/notification';
+import { PaymentMethodStatus, SubscriptionStatus } from '../../enums/codes.const';
+import { createPaymentMethodUpdateToken, verifyPaymentMethodUpdateToken } from '../../utils/payment-method-update-token.util';
+
+/** 到期卡片掃描作業鎖名稱 */
+export const PAYMENT_METHOD_EXPIRY_LOCK = 'payment-method-expiry';
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 仍會續扣的訂閱狀態 */
+const RENEWING_STATUSES = [SubscriptionStatus.ACTIVE, SubscriptionStatus.TRIALING];
+
+/**
+ * 到期卡片掃描結果
+ */
+export interface PaymentMethodExpiryRunResult {
+  /** 掃描的支付方式數 */
+  scanned: number;
+  /** 透過帳戶更新服務刷新到期日的支付方式數 */
+  refreshed: number;
+  /** 發出到期通知的支付方式數 */
+  notified: number;
+  /** 自動改用其他支付方式的訂閱數 */
+  switched: number;
+}
+
+/**
+ * 更新連結對應的支付方式與受影響的訂閱
+ */
+export interface PaymentMethodUpdateLink {
+  paymentMethod: PaymentMethodEntity;
+  subscriptions: SubscriptionEntity[];
+  expiresAt: Date;
+}
+
+/**
+ * 卡片到期預先催收服務
+ * 每日掃描即將到期的卡片：先向閘道的帳戶更新服務刷新到期日，仍會在下次扣款前到期時
+ * 寄送附更新連結的通知；啟用自動切換時，通知後超過寬限天數即改用客戶其他有效的支付方式
+ */
+@Injectable()
+export class PaymentMethodExpiryService {
+  private readonly logger = new Logger(PaymentMethodExpiryService.name);
+  private readonly owner = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly paymentMethodRepository: PaymentMethodRepository,
+    private readonly subscriptionRepository: SubscriptionRepository,
+    private readonly subscriptionService: SubscriptionService,
+    private readonly jobLockRepository: JobLockRepository,
+    private readonly gatewayManager: PaymentGatewayManager,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  /**
+   * 執行一次到期卡片掃描
+   * 無法取得作業鎖（其他實例執行中）時回傳 undefined
+   */
+  public async run(at: Date = new Date()): Promise<CustomDefinition.TNullable<PaymentMethodExpiryRunResult>> {
+    const { lookaheadDays, batchSize, lockTtlMs } = this.confService.getConf().paymentMethodExpiry;
+
+    if (!(await this.jobLockRepository.tryAcquire(PAYMENT_METHOD_EXPIRY_LOCK, this.owner, lockTtlMs))) {
+      this.logger.warn(`Payment method expiry run skipped: lock ${PAYMENT_METHOD_EXPIRY_LOCK} is held by another instance`);
+      return undefined;
+    }
+
+    const result: PaymentMethodExpiryRunResult = { scanned: 0, refreshed: 0, notified: 0, switched: 0 };
+    const before = new Date(at.getTime() + lookaheadDays * ONE_DAY_MS);
+
+    try {
+      let cursor: string | undefined;
+      while (true) {
+        const paymentMethods = await this.paymentMethodRepository.findExpiringBefore(before, batchSize, cursor);
+        for (const paymentMethod of paymentMethods) {
+          result.scanned++;
+          try {
+            await this.processPaymentMethod(paymentMethod, at, result);
+          } catch (error) {
+            this.logger.error(`Failed to process expiring payment method ${paymentMethod.id}: ${error.message}`, error.stack);
+          }
+        }
+
+        if (paymentMethods.length < batchSize) {
+          break;
+        }
+        cursor = paymentMethods[paymentMethods.length - 1].id;
+
+        if (!(await this.jobLockRepository.renew(PAYMENT_METHOD_EXPIRY_LOCK, this.owner, lockTtlMs))) {
+          throw new Error(`Lost lock ${PAYMENT_METHOD_EXPIRY_LOCK} during payment method expiry run`);
+        }
+      }
+    } finally {
+      await this.jobLockRepository.release(PAYMENT_METHOD_EXPIRY_LOCK, this.owner);
+    }
+
+    this.logger.log(`Payment method expiry run: scanned ${result.scanned}, refreshed ${result.refreshed}, notified ${result.notified}, switched ${result.switched}`);
+    return result;
+  }
+
+  /**
+   * 驗證更新連結，回傳對應的支付方式與受影響的訂閱
+   */
+  public async resolveUpdateLink(token: string, at: Date = new Date()): Promise<PaymentMethodUpdateLink> {
+    const { linkSecret } = this.confService.getConf().paymentMethodExpiry;
+    const claims = linkSecret ? verifyPaymentMethodUpdateToken(linkSecret, token, at.getTime()) : undefined;
+    if (!claims) {
+      throw new Error('Invalid or expired update link');
+    }
+
+    const paymentMethod = await this.paymentMethodRepository.findById(claims.paymentMethodId);
+    if (!paymentMethod || paymentMethod.customerId !== claims.customerId) {
+      throw new Error('Invalid or expired update link');
+    }
+
+    return {
+      paymentMethod,
+      subscriptions: await this.findAffectedSubscriptions(paymentMethod),
+      expiresAt: new Date(claims.exp * 1000),
+    };
+  }
+
+  /**
+   * 處理單一即將到期的支付方式
+   */
+  private async processPaymentMethod(paymentMethod: PaymentMethodEntity, at: Date, result: PaymentMethodExpiryRunResult): Promise<void> {
+    if (await this.refresh(paymentMethod)) {
+      result.refreshed++;
+    }
+
+    const subscriptions = await this.findAffectedSubscriptions(paymentMethod);
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const notice = paymentMethod.metadata?.expiryNotice;
+    if (!notice || notice.expiryDate !== paymentMethod.expiryDate.toISOString()) {
+      if (await this.notify(paymentMethod, at)) {
+        result.notified++;
+      }
+      return;
+    }
+
+    const { autoSwitchEnabled, autoSwitchAfterDays } = this.confService.getConf().paymentMethodExpiry;
+    if (!autoSwitchEnabled || at.getTime() < new Date(notice.sentAt).getTime() + autoSwitchAfterDays * ONE_DAY_MS) {
+      return;
+    }
+
+    const alternatives = await this.findAlternatives(paymentMethod);
+    for (const subscription of subscriptions) {
+      const replacement = alternatives.find((candidate) => !candidate.expiryDate || candidate.expiryDate >= subscription.currentPeriodEnd);
+      if (!replacement) {
+        this.logger.warn(`No valid payment method to replace ${paymentMethod.id} on subscription ${subscription.id}`);
+        continue;
+      }
+
+      try {
+        await this.subscriptionService.updatePaymentMethod(subscription.id, replacement.id);
+        result.switched++;
+        this.logger.log(`Subscription ${subscription.id} switched from expiring payment method ${paymentMethod.id} to ${replacement.id}`);
+      } catch (error) {
+        this.logger.warn(`Failed to switch subscription ${subscription.id} to ${replacement.id}: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * 透過閘道的帳戶更新服務刷新卡片，有更新時寫回並回傳 true
+   */
+  private async refresh(paymentMethod: PaymentMethodEntity): Promise<boolean> {
+    if (!paymentMethod.externalId) {
+      return false;
+    }
+
+    const updated = await this.gatewayManager.refreshPaymentMethod(
+      {
+        externalId: paymentMethod.externalId,
+        customerId: paymentMethod.customerId,
+        expiryDate: paymentMethod.expiryDate,
+        metadata: paymentMethod.metadata,
+      },
+      paymentMethod.metadata?.gateway,
+    );
+    if (!updated?.expiryMonth || !updated?.expiryYear) {
+      return false;
+    }
+
+    // 卡片有效至到期月份的最後一刻
+    const expiryDate = new Date(updated.expiryYear, updated.expiryMonth, 0, 23, 59, 59, 999);
+    if (expiryDate <= paymentMethod.expiryDate) {
+      return false;
+    }
+
+    paymentMethod.updateExpiryDate(expiryDate);
+    if (updated.lastFourDigits) {
+      paymentMethod.updateMaskedInfo(`**** **** **** ${updated.lastFourDigits}`);
+    }
+    if (updated.externalId && updated.externalId !== paymentMethod.externalId) {
+      paymentMethod.setExternalId(updated.externalId);
+    }
+    await this.paymentMethodRepository.save(paymentMethod);
+
+    this.logger.log(`Payment method ${paymentMethod.id} refreshed by account updater, expires ${expiryDate.toISOString()}`);
+    return true;
+  }
+
+  /**
+   * 寄送附更新連結的到期通知，並記錄已通知的到期日
+   */
+  private async notify(paymentMethod: PaymentMethodEntity, at: Date): Promise<boolean> {
+    const { updateUrl, linkSecret, linkTtlHours } = this.confService.getConf().paymentMethodExpiry;
+    if (!linkSecret) {
+      throw new Error('Payment method update link secret is not configured');
+    }
+
+    const expiryDate = paymentMethod.expiryDate;
+    const token = createPaymentMethodUpdateToken(linkSecret, paymentMethod.id, paymentMethod.customerId, linkTtlHours * 3600, at.getTime());
+    const notification = await this.notificationService.notify({
+      customerId: paymentMethod.customerId,
+      type: NotificationType.PAYMENT_METHOD_EXPIRING,
+      priority: NotificationPriority.HIGH,
+      notificationId: `notif_pm_expiring_${paymentMethod.id}_${expiryDate.toISOString().slice(0, 7).replace('-', '')}`,
+      variables: {
+        last4: paymentMethod.maskedInfo?.slice(-4),
+        expiryDate,
+        updateUrl: `${updateUrl}?token=${encodeURIComponent(token)}`,
+      },
+      metadata: { paymentMethodId: paymentMethod.id },
+    });
+    if (!notification) {
+      return false;
+    }
+
+    paymentMethod.updateMetadata({ expiryNotice: { expiryDate: expiryDate.toISOString(), sentAt: at.toISOString() } });
+    await this.paymentMethodRepository.save(paymentMethod);
+    return true;
+  }
+
+  /**
+   * 使用此支付方式且下次扣款時卡片已到期的續扣中訂閱
+   */
+  private async findAffectedSubscriptions(paymentMethod: PaymentMethodEntity): Promise<SubscriptionEntity[]> {
+    if (!paymentMethod.expiryDate) {
+      return [];
+    }
+
+    const subscriptions = await this.subscriptionRepository.findByPaymentMethodId(paymentMethod.id);
+    return subscriptions.filter((subscription) => RENEWING_STATUSES.includes(subscription.status) && subscription.currentPeriodEnd > paymentMethod.expiryDate);
+  }
+
+  /**
+   * 客戶其他可用的支付方式，預設優先，其次到期日較晚者
+   */
+  private async findAlternatives(paymentMethod: PaymentMethodEntity): Promise<PaymentMethodEntity[]> {
+    const candidates = await this.paymentMethodRepository.findByCustomerIdAndStatus(paymentMethod.customerId, PaymentMethodStatus.ACTIVE);
+    const expiryOf = (candidate: PaymentMethodEntity) => candidate.expiryDate?.getTime() ?? Number.POSITIVE_INFINITY;
+
+    return candidates
+      .filter((candidate) => candidate.id !== paymentMethod.id && candidate.isAvailable())
+      .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || expiryOf(b) - expiryOf(a));
+  }
+}
@@ -0,0 +1,147 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfService } from '@myapp/conf';
+import { PaymentMethodExpiryService } from '../payment-method-expiry.service';
+import { PaymentMethodRepository } from '../../../../infra/repositories/payment-method.repository';
+import { SubscriptionRepository } from '../../../../infra/repositories/subscription.repository';
+import { JobLockRepository } from '../../../../infra/repositories/job-lock.repository';
+import { PaymentGatewayManager } from '../../payment/payment-gateway-manager.service';
+import { NotificationService } from '../../notification/notification.service';
+import { SubscriptionService } from '../../subscription.service';
+import { PaymentMethodEntity, SubscriptionEntity } from '../../../entities';
+import { NotificationType } from '../../../value-objects/notification';
+import { BillingCycle, PaymentMethodType } from '../../../enums/codes.const';
+import { verifyPaymentMethodUpdateToken } from '../../../utils/payment-method-update-token.util';
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('PaymentMethodExpiryService', () => {
+  const now = new Date(2026, 2, 10, 8);
+  const day = (n: number) => new Date(now.getTime() + n * ONE_DAY_MS);
+
+  let moduleRef: TestingModule;
+  let service: PaymentMethodExpiryService;
+  let conf: Record<string, any>;
+  let expiring: PaymentMethodEntity;
+  let backup: PaymentMethodEntity;
+  let subscription: SubscriptionEntity;
+
+  const card = (id: string, expiryDate: Date, extra: Partial<PaymentMethodEntity> = {}) =>
+    Object.assign(new PaymentMethodEntity('cus_1', PaymentMethodType.CREDIT_CARD, id), {
+      id,
+      expiryDate,
+      maskedInfo: `**** **** **** ${id.slice(-4)}`,
+      externalId: `ext_${id}`,
+      ...extra,
+    });
+
+  const paymentMethodRepository = {
+    findExpiringBefore: jest.fn(async (before: Date) => [expiring, backup].filter((pm) => pm.expiryDate <= before)),
+    findByCustomerIdAndStatus: jest.fn(async () => [expiring, backup]),
+    findById: jest.fn(async (id: string) => [expiring, backup].find((pm) => pm.id === id)),
+    save: jest.fn(async (pm: PaymentMethodEntity) => pm),
+  };
+  const gatewayManager = { refreshPaymentMethod: jest.fn(async () => undefined) };
+  const notificationService = { notify: jest.fn(async (command: Record<string, any>) => ({ ...command })) };
+  const subscriptionService = { updatePaymentMethod: jest.fn(async () => subscription) };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    conf = {
+      lookaheadDays: 30,
+      batchSize: 100,
+      lockTtlMs: 60_000,
+      updateUrl: 'https://pay.example.com/update',
+      linkSecret: 'secret',
+      linkTtlHours: 24,
+      autoSwitchEnabled: true,
+      autoSwitchAfterDays: 7,
+    };
+    expiring = card('pm_0001', new Date(2026, 2, 31, 23, 59, 59, 999));
+    backup = card('pm_0002', new Date(2028, 0, 31));
+    subscription = new SubscriptionEntity('cus_1', expiring.id, 'Basic', 1000, BillingCycle.MONTHLY);
+    subscription.id = 'sub_1';
+    subscription.activate({ metadata: { paymentSuccessful: true } });
+    subscription.updateBillingPeriod(now, day(25));
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        PaymentMethodExpiryService,
+        { provide: ConfService, useValue: { getConf: () => ({ paymentMethodExpiry: conf }) } },
+        { provide: PaymentMethodRepository, useValue: paymentMethodRepository },
+        { provide: SubscriptionRepository, useValue: { findByPaymentMethodId: jest.fn(async (id: string) => (id === subscription.paymentMethodId ? [subscription] : [])) } },
+        { provide: SubscriptionService, useValue: subscriptionService },
+        { provide: JobLockRepository, useValue: { tryAcquire: jest.fn(async () => true), renew: jest.fn(async () => true), release: jest.fn() } },
+        { provide: PaymentGatewayManager, useValue: gatewayManager },
+        { provide: NotificationService, useValue: notificationService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PaymentMethodExpiryService);
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('notifies once with a signed update link when the card expires before the next charge', async () => {
+    expect(await service.run(now)).toEqual({ scanned: 1, refreshed: 0, notified: 1, switched: 0 });
+
+    const command = notificationService.notify.mock.calls[0][0];
+    expect(command).toMatchObject({ customerId: 'cus_1', type: NotificationType.PAYMENT_METHOD_EXPIRING, notificationId: 'notif_pm_expiring_pm_0001_202603' });
+    expect(command.variables.last4).toBe('0001');
+    const token = new URL(command.variables.updateUrl).searchParams.get('token');
+    expect(verifyPaymentMethodUpdateToken('secret', token, now.getTime())).toMatchObject({ paymentMethodId: 'pm_0001', customerId: 'cus_1' });
+    expect(expiring.metadata.expiryNotice).toEqual({ expiryDate: expiring.expiryDate.toISOString(), sentAt: now.toISOString() });
+
+    expect(await service.run(day(1))).toMatchObject({ notified: 0, switched: 0 });
+    expect(notificationService.notify).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips cards that are still valid at the next charge', async () => {
+    subscription.updateBillingPeriod(now, day(15));
+
+    expect(await service.run(now)).toMatchObject({ scanned: 1, notified: 0 });
+  });
+
+  it('keeps the card when the account updater returns a later expiry', async () => {
+    gatewayManager.refreshPaymentMethod.mockResolvedValueOnce({ updated: true, expiryMonth: 3, expiryYear: 2029, lastFourDigits: '9999' });
+
+    expect(await service.run(now)).toEqual({ scanned: 1, refreshed: 1, notified: 0, switched: 0 });
+    expect(expiring.expiryDate).toEqual(new Date(2029, 2, 31, 23, 59, 59, 999));
+    expect(expiring.maskedInfo).toBe('**** **** **** 9999');
+    expect(paymentMethodRepository.save).toHaveBeenCalledWith(expiring);
+  });
+
+  it('switches to another valid card after the grace window', async () => {
+    await service.run(now);
+
+    await service.run(day(6));
+    expect(subscriptionService.updatePaymentMethod).not.toHaveBeenCalled();
+
+    expect(await service.run(day(7))).toMatchObject({ switched: 1 });
+    expect(subscriptionService.updatePaymentMethod).toHaveBeenCalledWith('sub_1', 'pm_0002');
+  });
+
+  it('does not switch when disabled or no other card covers the next charge', async () => {
+    await service.run(now);
+    conf.autoSwitchEnabled = false;
+    await service.run(day(8));
+
+    conf.autoSwitchEnabled = true;
+    backup.expiryDate = day(20);
+    expect(await service.run(day(8))).toMatchObject({ switched: 0 });
+    expect(subscriptionService.updatePaymentMethod).not.toHaveBeenCalled();
+  });
+
+  it('resolves an update link to the card and its affected subscriptions', async () => {
+    await service.run(now);
+    const token = new URL(notificationService.notify.mock.calls[0][0].variables.updateUrl).searchParams.get('token');
+
+    const link = await service.resolveUpdateLink(token, day(0.5));
+    expect(link.paymentMethod.id).toBe('pm_0001');
+    expect(link.subscriptions.map((s) => s.id)).toEqual(['sub_1']);
+
+    await expect(service.resolveUpdateLink(token, day(2))).rejects.toThrow('Invalid or expired update link');
+    await expect(service.resolveUpdateLink('forged.token', now)).rejects.toThrow('Invalid or expired update link');
+  });
+});
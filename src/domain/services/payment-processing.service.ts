@@ -4,16 +4,25 @@ import { PaymentService } from './payment.service';
 import { PaymentMethodRepository } from '../../infra/repositories/payment-method.repository';
 import { Money } from '../value-objects/money';
 import { PaymentFailureCategory } from '../enums/codes.const';
-import { mapFailureCategoryFromGateway, isCategoryRetriable } from '../utils/payment-failure.util';
+import { mapFailureCategoryFromGateway, isCategoryRetriable, isGatewayAvailabilityError, isGatewayUnreachableError } from '../utils/payment-failure.util';
+import { GatewayRoutingDecision, GatewayTransaction, PaymentResult, PaymentStatus as GatewayPaymentStatus } from '../interfaces/payment/payment-gateway.interface';
 
 export interface PaymentProcessingResult {
   success: boolean;
   transactionId?: string;
+  /** 實際扣款的支付閘道，退款須經同一閘道 */
+  gateway?: string;
   errorCode?: string;
   errorMessage?: string;
   failureCategory?: PaymentFailureCategory;
   isRetriable?: boolean;
   processingTime?: number;
+  /** 閘道路由決策（含各閘道的嘗試結果） */
+  routing?: GatewayRoutingDecision;
+  /** 發卡機構要求客戶驗證（如 3-D Secure），付款尚未成功也未失敗 */
+  requiresAction?: boolean;
+  /** 客戶須完成的驗證 */
+  nextAction?: PaymentResult['nextAction'];
 }
 
 /**
@@ -32,8 +41,10 @@ export class PaymentProcessingService {
 
   /**
    * 處理支付
+   * 依路由規則與閘道健康狀態依序嘗試候選閘道，請求未送達或經查詢確認閘道未扣款時才切換到下一個閘道；
+   * 路由決策記錄於付款的 metadata.routing。指定 preferredGateway 時只使用該閘道（例如支付方式綁定所在的閘道）
    */
-  async processPayment(paymentId: string, paymentMethodId: string, amount: Money): Promise<PaymentProcessingResult> {
+  async processPayment(paymentId: string, paymentMethodId: string, amount: Money, preferredGateway?: string): Promise<PaymentProcessingResult> {
     const startTime = Date.now();
 
     this.logger.log(`Processing payment`, {
@@ -43,6 +54,7 @@ export class PaymentProcessingService {
       currency: amount.currency,
     });
 
+    let routing: GatewayRoutingDecision | undefined;
     try {
       // 1. 獲取支付方式詳情
       const paymentMethod = await this.paymentMethodRepository.findById(paymentMethodId);
@@ -66,29 +78,129 @@ export class PaymentProcessingService {
         };
       }
 
-      // 2. 選擇支付閘道
-      const gatewayName = this.selectPaymentGateway(paymentMethod.type, amount);
+      // 2. 依路由規則與閘道健康狀態決定候選閘道
+      const paymentMethodType = this.mapPaymentMethodType(paymentMethod.type);
+      const route = this.paymentGatewayManager.selectPaymentRoute({
+        amount: amount.amount,
+        currency: amount.currency,
+        paymentMethodType,
+        customerId: paymentMethod.customerId,
+        preferredGateway,
+      });
+      routing = { rule: route.rule, candidates: route.candidates, skipped: route.skipped, attempts: [], failedOver: false, decidedAt: new Date() };
+
+      if (route.candidates.length === 0) {
+        await this.recordRouting(paymentId, routing);
+        return {
+          success: false,
+          errorCode: 'NO_AVAILABLE_GATEWAY',
+          errorMessage: '沒有可用的支付閘道',
+          failureCategory: PaymentFailureCategory.RETRIABLE,
+          isRetriable: true,
+          routing,
+          processingTime: Date.now() - startTime,
+        };
+      }
 
       // 3. 準備支付選項
       const paymentOptions = {
         paymentId,
         customerId: paymentMethod.customerId,
         paymentMethodId,
-        paymentMethodType: this.mapPaymentMethodType(paymentMethod.type),
+        paymentMethodType,
         amount: amount.amount,
         currency: amount.currency,
         description: `Payment for subscription`,
         metadata: {
+          paymentId,
           paymentMethodId,
           processingTimestamp: new Date().toISOString(),
         },
       };
 
-      // 4. 執行支付
-      const result = await this.paymentGatewayManager.processPayment(gatewayName, paymentOptions);
+      // 4. 依序嘗試候選閘道；卡片拒絕等發卡端結果不切換，避免重複扣款
+      let gatewayName: string;
+      let result: PaymentResult | undefined;
+      let gatewayException: Error | undefined;
+      for (const candidate of route.candidates) {
+        gatewayName = candidate;
+        result = undefined;
+        gatewayException = undefined;
+        const attemptedAt = new Date();
+        try {
+          result = await this.paymentGatewayManager.processPayment(candidate, paymentOptions);
+        } catch (error) {
+          gatewayException = error;
+        }
+
+        let gatewayError = !!gatewayException || (!result.success && isGatewayAvailabilityError(result.errorCode));
+        const unreachable = gatewayException ? isGatewayUnreachableError((gatewayException as any).code) : !result.success && isGatewayUnreachableError(result.errorCode);
+
+        // 逾時等錯誤無法確定請求是否送達，先向閘道確認未扣款才切換
+        let failover = gatewayError && unreachable;
+        if (gatewayError && !unreachable && route.failover) {
+          const capture = await this.checkGatewayCapture(candidate, paymentId, result?.paymentId, attemptedAt);
+          if (capture.transaction) {
+            this.logger.warn(`Gateway ${candidate} reported an error for payment ${paymentId} but holds transaction ${capture.transaction.transactionId}`);
+            result = {
+              success: true,
+              paymentId: capture.transaction.transactionId,
+              status: capture.transaction.status,
+              amount: capture.transaction.amount ?? paymentOptions.amount,
+              currency: capture.transaction.currency ?? paymentOptions.currency,
+              gatewayResponse: capture.transaction.gatewayResponse,
+            };
+            gatewayException = undefined;
+            gatewayError = false;
+          }
+          failover = capture.confirmed && !capture.transaction;
+        }
+
+        routing.attempts.push({
+          gateway: candidate,
+          success: !!result?.success,
+          status: result?.status,
+          transactionId: result?.paymentId || undefined,
+          errorCode: result?.errorCode,
+          errorMessage: result?.errorMessage ?? gatewayException?.message,
+          gatewayError,
+          attemptedAt,
+        });
+        if (!failover || !route.failover) {
+          break;
+        }
+        this.logger.warn(`Gateway ${candidate} failed for payment ${paymentId}: ${result?.errorCode ?? gatewayException?.message}`);
+      }
+      routing.gateway = gatewayName;
+      routing.failedOver = routing.attempts.length > 1;
+      await this.recordRouting(paymentId, routing);
+
+      if (gatewayException) {
+        throw gatewayException;
+      }
 
       const processingTime = Date.now() - startTime;
 
+      // 需客戶驗證時不視為成功或失敗，由呼叫端轉為等待驗證
+      if (result.status === GatewayPaymentStatus.REQUIRES_ACTION) {
+        this.logger.log(`Payment requires customer action`, {
+          paymentId,
+          transactionId: result.paymentId,
+          actionType: result.nextAction?.type,
+          processingTime,
+        });
+
+        return {
+          success: false,
+          requiresAction: true,
+          nextAction: result.nextAction,
+          transactionId: result.paymentId,
+          gateway: gatewayName,
+          processingTime,
+          routing,
+        };
+      }
+
       if (result.success) {
         this.logger.log(`Payment processed successfully`, {
           paymentId,
@@ -99,7 +211,9 @@ export class PaymentProcessingService {
         return {
           success: true,
           transactionId: result.paymentId,
+          gateway: gatewayName,
           processingTime,
+          routing,
         };
       } else {
         this.logger.warn(`Payment processing failed`, {
@@ -121,6 +235,7 @@ export class PaymentProcessingService {
           failureCategory,
           isRetriable,
           processingTime,
+          routing,
         };
       }
     } catch (error) {
@@ -149,20 +264,119 @@ export class PaymentProcessingService {
         failureCategory: PaymentFailureCategory.RETRIABLE,
         isRetriable: true,
         processingTime,
+        routing,
+      };
+    }
+  }
+
+  /**
+   * 客戶完成驗證後向原閘道確認付款
+   * 客戶仍未完成驗證時回傳 requiresAction，驗證失敗時依閘道錯誤判斷失敗類別
+   */
+  async confirmPayment(gatewayName: string, transactionId: string): Promise<PaymentProcessingResult> {
+    const startTime = Date.now();
+
+    try {
+      const result = await this.paymentGatewayManager.confirmPayment(gatewayName, transactionId);
+      const processingTime = Date.now() - startTime;
+
+      if (result.status === GatewayPaymentStatus.REQUIRES_ACTION) {
+        return { success: false, requiresAction: true, nextAction: result.nextAction, transactionId, gateway: gatewayName, processingTime };
+      }
+
+      if (result.success && result.status === GatewayPaymentStatus.SUCCEEDED) {
+        return { success: true, transactionId: result.paymentId || transactionId, gateway: gatewayName, processingTime };
+      }
+
+      const errorCode = result.errorCode || this.mapGatewayErrorCode(result.status);
+      const failureCategory = mapFailureCategoryFromGateway(result.status, errorCode);
+      return {
+        success: false,
+        transactionId,
+        gateway: gatewayName,
+        errorCode,
+        errorMessage: result.errorMessage || this.mapGatewayErrorMessage(result.status),
+        failureCategory,
+        isRetriable: isCategoryRetriable(failureCategory),
+        processingTime,
+      };
+    } catch (error) {
+      this.logger.warn(`Payment confirmation error for ${transactionId} via ${gatewayName}: ${error.message}`);
+      return {
+        success: false,
+        transactionId,
+        gateway: gatewayName,
+        errorCode: 'PROCESSING_ERROR',
+        errorMessage: error.message,
+        failureCategory: PaymentFailureCategory.RETRIABLE,
+        isRetriable: true,
+        processingTime: Date.now() - startTime,
       };
     }
   }
 
   /**
-   * 選擇支付閘道
+   * 向閘道查詢是否已受理此筆付款：有交易編號時直接查詢，否則以建立時帶入的本地付款 ID 比對期間內的交易
+   * 閘道不支援查詢或查詢失敗時 confirmed 為 false；失敗或取消的交易視為未扣款
    */
-  private selectPaymentGateway(paymentMethodType: string, amount: Money): string {
-    // 根據支付方式類型和金額選擇最適合的閘道
-    if (amount.currency === 'TWD') {
-      return 'ecpay'; // 台灣市場使用 ECPay
+  private async checkGatewayCapture(
+    gatewayName: string,
+    paymentId: string,
+    transactionId: string | undefined,
+    attemptedAt: Date,
+  ): Promise<{ confirmed: boolean; transaction?: GatewayTransaction }> {
+    try {
+      let transaction: GatewayTransaction | undefined;
+      if (transactionId) {
+        transaction = await this.paymentGatewayManager.lookupTransaction(gatewayName, transactionId);
+      } else if (this.paymentGatewayManager.supportsTransactionListing(gatewayName)) {
+        const transactions = await this.paymentGatewayManager.listTransactions(gatewayName, { createdFrom: attemptedAt, createdTo: new Date() });
+        transaction = transactions.find((item) => item.reference === paymentId);
+      } else {
+        return { confirmed: false };
+      }
+
+      if (!transaction || transaction.status === GatewayPaymentStatus.FAILED || transaction.status === GatewayPaymentStatus.CANCELED) {
+        return { confirmed: true };
+      }
+      return { confirmed: true, transaction };
+    } catch (error) {
+      this.logger.warn(`Unable to confirm payment ${paymentId} on gateway ${gatewayName}: ${error.message}`);
+      return { confirmed: false };
+    }
+  }
+
+  /**
+   * 取消閘道端尚未完成的付款（如逾時未完成驗證）
+   * 先查詢閘道端狀態：已成功時不取消並回傳 success；查無交易或已失敗、取消時視為未扣款；查詢或取消失敗時拋出錯誤
+   */
+  async cancelPendingPayment(gatewayName: string, transactionId: string): Promise<PaymentProcessingResult> {
+    const transaction = await this.paymentGatewayManager.lookupTransaction(gatewayName, transactionId);
+    let status = transaction?.status;
+
+    if (status && status !== GatewayPaymentStatus.SUCCEEDED && status !== GatewayPaymentStatus.FAILED && status !== GatewayPaymentStatus.CANCELED) {
+      const result = await this.paymentGatewayManager.cancelPayment(gatewayName, transactionId);
+      status = result.status;
+      if (!result.success && status !== GatewayPaymentStatus.SUCCEEDED && status !== GatewayPaymentStatus.FAILED) {
+        throw new Error(`Payment ${transactionId} could not be canceled via ${gatewayName}: ${result.errorMessage ?? status}`);
+      }
     }
 
-    return 'mock'; // 其他情況使用模擬閘道
+    if (status === GatewayPaymentStatus.SUCCEEDED) {
+      return { success: true, transactionId, gateway: gatewayName };
+    }
+    return { success: false, transactionId, gateway: gatewayName, errorCode: status ?? 'PAYMENT_NOT_FOUND' };
+  }
+
+  /**
+   * 將路由決策寫入付款的 metadata.routing，失敗不影響扣款結果
+   */
+  private async recordRouting(paymentId: string, routing: GatewayRoutingDecision): Promise<void> {
+    try {
+      await this.paymentService.recordRoutingDecision(paymentId, routing);
+    } catch (error) {
+      this.logger.warn(`Failed to record routing decision for payment ${paymentId}: ${error.message}`);
+    }
   }
 
   /**
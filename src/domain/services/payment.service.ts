@@ -1,5 +1,6 @@
 import { Inject, Injectable, forwardRef, Optional } from '@nestjs/common';
 import { PaymentEntity, PaymentStatus, PaymentFailureCategory } from '../entities';
+import { BillingAttemptType } from '../enums/codes.const';
 import { PaymentRepository } from '../../infra/repositories/payment.repository';
 import { SubscriptionRepository } from '../../infra/repositories/subscription.repository';
 import { CustomDefinition } from '@xxxhand/app-common';
@@ -9,27 +10,13 @@ import { Money } from '../value-objects/money';
 import { mapFailureCategoryFromMessage, isCategoryRetriable } from '../utils/payment-failure.util';
 import { RetryPolicy } from '../value-objects/retry-policy';
 import { BillingService } from './billing.service';
+import { BillingAttemptService, BillingAttemptHistoryQuery, BillingAttemptPage } from './billing-attempt.service';
+import { GatewayRoutingDecision, PaymentResult } from '../interfaces/payment/payment-gateway.interface';
+import { CustomerCreditService } from './credits/customer-credit.service';
+import { ConfService } from '@myapp/conf';
 
-export interface PaymentAttempt {
-  id: string;
-  paymentId: string;
-  attemptNumber: number;
-  status: 'PENDING' | 'SUCCESS' | 'FAILED' | 'CANCELLED';
-  amount: number;
-  currency: string;
-  paymentMethodId: string;
-  errorCode?: string;
-  errorMessage?: string;
-  processingTime?: number;
-  attemptedAt: string;
-  completedAt?: string;
-  metadata: {
-    gatewayTransactionId?: string;
-    gatewayResponse?: string;
-    riskScore?: number;
-    fraudCheck?: boolean;
-  };
-}
+/** 未設定 paymentActions.timeoutHours 時等待客戶驗證的時數 */
+const DEFAULT_ACTION_TIMEOUT_HOURS = 72;
 
 export interface PaymentProcessor {
   processPayment(paymentData: {
@@ -51,7 +38,6 @@ export class PaymentService {
   // legacy defaults kept as fallback; rule engine will override
   private readonly maxRetryAttempts = 3;
   private readonly retryDelayMs = 1000;
-  private readonly paymentAttempts: PaymentAttempt[] = [];
 
   constructor(
     private readonly paymentRepository: PaymentRepository,
@@ -59,6 +45,9 @@ export class PaymentService {
     private readonly retryStrategyEngine: RetryStrategyEngine,
     @Inject(forwardRef(() => PaymentProcessingService)) private readonly paymentProcessingService: PaymentProcessingService,
     @Optional() @Inject(forwardRef(() => BillingService)) private readonly billingService?: BillingService,
+    @Optional() private readonly billingAttemptService?: BillingAttemptService,
+    @Optional() private readonly confService?: ConfService,
+    @Optional() private readonly customerCreditService?: CustomerCreditService,
   ) {}
 
   /**
@@ -71,6 +60,7 @@ export class PaymentService {
     amount: number,
     currency: string = 'TWD',
     description?: string,
+    metadata?: Record<string, any>,
   ): Promise<PaymentEntity> {
     // 驗證訂閱存在
     const subscription = await this.subscriptionRepository.findById(subscriptionId);
@@ -84,6 +74,9 @@ export class PaymentService {
     if (description) {
       payment.description = description;
     }
+    if (metadata) {
+      payment.metadata = { ...payment.metadata, ...metadata };
+    }
 
     return await this.paymentRepository.save(payment);
   }
@@ -111,8 +104,9 @@ export class PaymentService {
 
   /**
    * 開始支付嘗試
+   * 未指定嘗試類型時，首次嘗試視為立即計費，其後視為手動重試
    */
-  public async startPaymentAttempt(paymentId: string): Promise<CustomDefinition.TNullable<PaymentEntity>> {
+  public async startPaymentAttempt(paymentId: string, attemptType?: BillingAttemptType): Promise<CustomDefinition.TNullable<PaymentEntity>> {
     const payment = await this.paymentRepository.findById(paymentId);
     if (!payment) {
       throw new Error(`Payment with ID ${paymentId} not found`);
@@ -124,21 +118,60 @@ export class PaymentService {
     } else {
       throw new Error(`Payment ${paymentId} cannot be retried`);
     }
-    return await this.paymentRepository.save(payment);
+    const saved = await this.paymentRepository.save(payment);
+
+    const type = attemptType ?? (payment.attemptCount > 1 ? BillingAttemptType.MANUAL_RETRY : BillingAttemptType.IMMEDIATE);
+    await this.openBillingAttempt(payment, type);
+
+    return saved;
+  }
+
+  /**
+   * 重新扣款失敗的付款（催收流程使用），不受付款本身的自動重試次數限制
+   * 可同時改用新的支付方式
+   */
+  public async retryFailedPayment(paymentId: string, attemptType: BillingAttemptType, paymentMethodId?: string): Promise<CustomDefinition.TNullable<PaymentEntity>> {
+    const payment = await this.paymentRepository.findById(paymentId);
+    if (!payment) {
+      throw new Error(`Payment with ID ${paymentId} not found`);
+    }
+    if (![PaymentStatus.FAILED, PaymentStatus.RETRYING].includes(payment.status)) {
+      throw new Error(`Payment ${paymentId} is not awaiting retry`);
+    }
+
+    if (paymentMethodId) {
+      payment.paymentMethodId = paymentMethodId;
+    }
+    payment.startAttempt();
+    const saved = await this.paymentRepository.save(payment);
+    await this.openBillingAttempt(payment, attemptType);
+
+    return saved;
   }
 
   /**
    * 標記支付成功
+   * 記錄扣款的支付閘道，供退款時使用
    */
-  public async markPaymentSucceeded(paymentId: string, externalTransactionId?: string): Promise<CustomDefinition.TNullable<PaymentEntity>> {
+  public async markPaymentSucceeded(paymentId: string, externalTransactionId?: string, gateway?: string): Promise<CustomDefinition.TNullable<PaymentEntity>> {
     const payment = await this.paymentRepository.findById(paymentId);
     if (!payment) {
       throw new Error(`Payment with ID ${paymentId} not found`);
     }
 
     payment.markSucceeded(externalTransactionId);
+    if (gateway) {
+      payment.metadata = { ...payment.metadata, gateway };
+    }
     const saved = await this.paymentRepository.save(payment);
 
+    try {
+      await this.billingAttemptService?.completeAttempt(paymentId, externalTransactionId);
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to record billing attempt success:', e);
+    }
+
     // 同步更新訂閱狀態
     try {
       if (this.billingService) {
@@ -152,6 +185,33 @@ export class PaymentService {
     return saved;
   }
 
+  /**
+   * 標記支付等待客戶驗證（如 3-D Secure）
+   * 嘗試紀錄保持開啟，直到客戶完成驗證或逾時失敗
+   */
+  public async markPaymentRequiresAction(
+    paymentId: string,
+    transactionId: string,
+    gateway: string,
+    nextAction?: PaymentResult['nextAction'],
+  ): Promise<CustomDefinition.TNullable<PaymentEntity>> {
+    const payment = await this.paymentRepository.findById(paymentId);
+    if (!payment) {
+      throw new Error(`Payment with ID ${paymentId} not found`);
+    }
+
+    const timeoutHours = this.confService?.getConf().paymentActions?.timeoutHours || DEFAULT_ACTION_TIMEOUT_HOURS;
+    payment.markAsRequiresAction({
+      gateway,
+      transactionId,
+      type: nextAction?.type || 'authentication',
+      redirectUrl: nextAction?.redirectUrl,
+      expiresAt: new Date(Date.now() + timeoutHours * 60 * 60 * 1000),
+    });
+    payment.metadata = { ...payment.metadata, gateway };
+    return await this.paymentRepository.save(payment);
+  }
+
   /**
    * 標記支付失敗
    */
@@ -164,6 +224,12 @@ export class PaymentService {
     payment.markFailed(failureReason, failureCode);
     const saved = await this.paymentRepository.save(payment);
 
+    await this.recordAttemptFailure(paymentId, {
+      errorMessage: failureReason,
+      errorCode: failureCode,
+      category: mapFailureCategoryFromMessage(failureReason),
+    });
+
     // 同步更新訂閱重試/寬限狀態
     try {
       if (this.billingService) {
@@ -178,7 +244,21 @@ export class PaymentService {
   }
 
   /**
-   * 取消支付
+   * 記錄閘道路由決策於 metadata.routing（每次扣款覆寫為最新一次）
+   */
+  public async recordRoutingDecision(paymentId: string, routing: GatewayRoutingDecision): Promise<CustomDefinition.TNullable<PaymentEntity>> {
+    const payment = await this.paymentRepository.findById(paymentId);
+    if (!payment) {
+      return undefined;
+    }
+
+    payment.metadata = { ...payment.metadata, routing };
+    payment.touch();
+    return await this.paymentRepository.save(payment);
+  }
+
+  /**
+   * 取消支付，並退回該付款折抵的抵用金
    */
   public async cancelPayment(paymentId: string): Promise<CustomDefinition.TNullable<PaymentEntity>> {
     const payment = await this.paymentRepository.findById(paymentId);
@@ -187,7 +267,11 @@ export class PaymentService {
     }
 
     payment.markCanceled();
-    return await this.paymentRepository.save(payment);
+    const saved = await this.paymentRepository.save(payment);
+    if (payment.metadata?.creditApplied) {
+      await this.customerCreditService?.releaseDrawnCredit(payment.id, 'Payment canceled');
+    }
+    return saved;
   }
 
   /**
@@ -257,7 +341,7 @@ export class PaymentService {
 
     for (const payment of retryPayments) {
       try {
-        await this.startPaymentAttempt(payment.id);
+        await this.startPaymentAttempt(payment.id, BillingAttemptType.AUTO_RETRY);
         started++;
       } catch (error) {
         console.error(`Failed to retry payment ${payment.id}:`, error);
@@ -318,7 +402,7 @@ export class PaymentService {
     paymentMethodId: string;
     amount: number;
     currency: string;
-  }): Promise<{ success: boolean; paymentId: string; transactionId?: string; attempts: number; finalError?: string }> {
+  }): Promise<{ success: boolean; paymentId: string; transactionId?: string; attempts: number; finalError?: string; requiresAction?: boolean }> {
     const { paymentId, paymentMethodId, amount, currency } = paymentData;
     let attempts = 0;
     let lastError: string | undefined;
@@ -333,50 +417,35 @@ export class PaymentService {
     // 注意：attempts 代表已完成的次數，故提供給引擎時用 attempts
     while (true) {
       attempts++;
-      const attemptId = `${paymentId}_attempt_${attempts}`;
-      const attemptStart = new Date().toISOString();
-
-      // 建立嘗試紀錄
-      const paymentAttempt: PaymentAttempt = {
-        id: attemptId,
-        paymentId,
-        attemptNumber: attempts,
-        status: 'PENDING',
-        amount,
-        currency,
-        paymentMethodId,
-        attemptedAt: attemptStart,
-        metadata: {},
-      };
-      this.paymentAttempts.push(paymentAttempt);
+
+      // 建立嘗試紀錄（持久化，markPaymentSucceeded / recordAttemptFailure 負責結束）
+      if (payment) {
+        await this.openBillingAttempt(payment, attempts === 1 ? BillingAttemptType.IMMEDIATE : BillingAttemptType.AUTO_RETRY);
+      }
 
       try {
         // 執行一次實際支付處理（呼叫 PaymentProcessingService）
         const processingResult = await this.paymentProcessingService.processPayment(paymentId, paymentMethodId, new Money(amount, currency));
-        const completedAt = new Date().toISOString();
-        const processingTime = new Date(completedAt).getTime() - new Date(attemptStart).getTime();
 
         if (processingResult.success) {
-          paymentAttempt.status = 'SUCCESS';
-          paymentAttempt.completedAt = completedAt;
-          paymentAttempt.processingTime = processingTime;
-          paymentAttempt.metadata.gatewayTransactionId = processingResult.transactionId;
-
-          await this.markPaymentSucceeded(paymentId, processingResult.transactionId);
+          await this.markPaymentSucceeded(paymentId, processingResult.transactionId, processingResult.gateway);
           return { success: true, paymentId, transactionId: processingResult.transactionId, attempts };
         }
 
+        // 需要客戶驗證（離線續扣無法當場完成）→ 等待客戶透過通知連結完成，不進入重試
+        if (processingResult.requiresAction) {
+          await this.markPaymentRequiresAction(paymentId, processingResult.transactionId, processingResult.gateway, processingResult.nextAction);
+          return { success: false, paymentId, transactionId: processingResult.transactionId, attempts, requiresAction: true };
+        }
+
         // 失敗 → 透過 RetryStrategyEngine 決策
-        paymentAttempt.status = 'FAILED';
-        paymentAttempt.completedAt = completedAt;
-        paymentAttempt.processingTime = processingTime;
-        paymentAttempt.errorMessage = processingResult.errorMessage;
-        paymentAttempt.errorCode = processingResult.errorCode || 'PAYMENT_FAILED';
+        const errorCode = processingResult.errorCode || 'PAYMENT_FAILED';
         lastError = processingResult.errorMessage;
 
         // 依處理結果的類別或訊息進行失敗類別 mapping
         const failureCategory: PaymentFailureCategory =
           processingResult.failureCategory !== undefined ? processingResult.failureCategory : mapFailureCategoryFromMessage(processingResult.errorMessage);
+        await this.recordAttemptFailure(paymentId, { errorMessage: lastError, errorCode, category: failureCategory });
         const decision = await this.retryStrategyEngine.evaluateRetryDecision({
           paymentId,
           subscriptionId,
@@ -397,7 +466,7 @@ export class PaymentService {
           const p = await this.paymentRepository.findById(paymentId);
           if (p) {
             p.failureDetails = {
-              errorCode: paymentAttempt.errorCode,
+              errorCode,
               errorMessage: lastError,
               category: failureCategory,
               isRetriable: isCategoryRetriable(failureCategory),
@@ -424,7 +493,7 @@ export class PaymentService {
           if (p) {
             p.markAsFailed(
               {
-                errorCode: paymentAttempt.errorCode,
+                errorCode,
                 errorMessage: lastError,
                 category: failureCategory,
                 isRetriable: isCategoryRetriable(failureCategory),
@@ -452,7 +521,7 @@ export class PaymentService {
           if (p) {
             p.markAsFailed(
               {
-                errorCode: paymentAttempt.errorCode,
+                errorCode,
                 errorMessage: lastError,
                 category: failureCategory,
                 isRetriable: isCategoryRetriable(failureCategory),
@@ -468,16 +537,10 @@ export class PaymentService {
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         lastError = errorMessage;
-        const attempt = this.paymentAttempts.find((a) => a.paymentId === paymentId && a.attemptNumber === attempts);
-        if (attempt) {
-          attempt.status = 'FAILED';
-          attempt.completedAt = new Date().toISOString();
-          attempt.errorMessage = errorMessage;
-          attempt.errorCode = 'PROCESSING_ERROR';
-        }
 
         // 將此處處理錯誤也走引擎：用 DELAYED_RETRY 作為保守類別
         const failureCategory = PaymentFailureCategory.DELAYED_RETRY;
+        await this.recordAttemptFailure(paymentId, { errorMessage, errorCode: 'PROCESSING_ERROR', category: failureCategory, isRetriable: true });
         const decision = await this.retryStrategyEngine.evaluateRetryDecision({
           paymentId,
           subscriptionId,
@@ -568,15 +631,17 @@ export class PaymentService {
   /**
    * 取得支付嘗試記錄
    */
-  public async getPaymentAttempts(paymentId: string): Promise<{ attempts: PaymentAttempt[] }> {
-    const attempts = this.paymentAttempts.filter((attempt) => attempt.paymentId === paymentId);
-    return { attempts: attempts.sort((a, b) => a.attemptNumber - b.attemptNumber) };
+  public async getPaymentAttempts(paymentId: string, query: BillingAttemptHistoryQuery = {}): Promise<BillingAttemptPage> {
+    if (!this.billingAttemptService) {
+      return { attempts: [], total: 0, page: 1, limit: query.limit || 20 };
+    }
+    return await this.billingAttemptService.getPaymentAttempts(paymentId, query);
   }
 
   /**
    * 批量處理未完成支付
    */
-  public async processPendingPayments(): Promise<{ processed: number; succeeded: number; failed: number }> {
+  public async processPendingPayments(): Promise<{ processed: number; succeeded: number; failed: number; awaitingAction: number }> {
     // 獲取處理中狀態超過30分鐘的支付
     const pendingPayments = await this.paymentRepository.findByStatus(PaymentStatus.PROCESSING, 100);
     const stalePayments = pendingPayments.filter((payment) => {
@@ -587,6 +652,7 @@ export class PaymentService {
     let processed = 0;
     let succeeded = 0;
     let failed = 0;
+    let awaitingAction = 0;
 
     for (const payment of stalePayments) {
       try {
@@ -600,6 +666,8 @@ export class PaymentService {
 
         if (result.success) {
           succeeded++;
+        } else if (result.requiresAction) {
+          awaitingAction++;
         } else {
           failed++;
         }
@@ -611,7 +679,7 @@ export class PaymentService {
       }
     }
 
-    return { processed, succeeded, failed };
+    return { processed, succeeded, failed, awaitingAction };
   }
 
   /**
@@ -646,6 +714,33 @@ export class PaymentService {
     }
   }
 
+  /**
+   * 開啟計費嘗試紀錄（紀錄失敗不影響支付流程）
+   */
+  private async openBillingAttempt(payment: PaymentEntity, type: BillingAttemptType): Promise<void> {
+    try {
+      await this.billingAttemptService?.openAttempt(payment, type);
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to record billing attempt start:', e);
+    }
+  }
+
+  /**
+   * 結束計費嘗試紀錄為失敗（紀錄失敗不影響支付流程）
+   */
+  private async recordAttemptFailure(
+    paymentId: string,
+    failure: { errorMessage?: string; errorCode?: string; category?: PaymentFailureCategory; isRetriable?: boolean },
+  ): Promise<void> {
+    try {
+      await this.billingAttemptService?.failAttempt(paymentId, failure);
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to record billing attempt failure:', e);
+    }
+  }
+
   /**
    * 延遲執行
    */
@@ -23,6 +23,7 @@ export class ECPayConfigService {
       returnURL: config.ecpay.returnURL,
       clientBackURL: config.ecpay.clientBackURL,
       orderResultURL: config.ecpay.orderResultURL,
+      periodReturnURL: config.ecpay.periodReturnURL,
     };
   }
 
@@ -9,6 +9,7 @@ import {
   RefundResult,
   RefundStatus,
   WebhookResult,
+  GatewayTransaction,
 } from '../../interfaces/payment/payment-gateway.interface';
 import {
   IECPayGateway,
@@ -16,6 +17,8 @@ import {
   ECPayPaymentMethod,
   PeriodPaymentOptions,
   PeriodPaymentResult,
+  PeriodActionOptions,
+  PeriodActionResult,
   ATMPaymentOptions,
   ATMPaymentResult,
   CVSPaymentOptions,
@@ -27,6 +30,9 @@ import {
 } from '../../interfaces/payment/ecpay.interface';
 import { ECPayConfigService } from './ecpay-config-wrapper.service';
 
+/** 定期定額訂單作業的請求逾時（毫秒） */
+const PERIOD_ACTION_TIMEOUT_MS = 10 * 1000;
+
 /**
  * 綠界 ECPay 支付閘道實作
  * 支援信用卡、ATM、超商代碼、定期定額等多種支付方式
@@ -41,10 +47,12 @@ export class ECPayGateway implements IECPayGateway {
     production: {
       aio: 'https://payment.ecpay.com.tw/Cashier/AioCheckOut/V5',
       query: 'https://payment.ecpay.com.tw/Cashier/QueryTradeInfo/V5',
+      periodAction: 'https://payment.ecpay.com.tw/Cashier/CreditCardPeriodAction',
     },
     test: {
       aio: 'https://payment-stage.ecpay.com.tw/Cashier/AioCheckOut/V5',
       query: 'https://payment-stage.ecpay.com.tw/Cashier/QueryTradeInfo/V5',
+      periodAction: 'https://payment-stage.ecpay.com.tw/Cashier/CreditCardPeriodAction',
     },
   };
 
@@ -137,6 +145,25 @@ export class ECPayGateway implements IECPayGateway {
     }
   }
 
+  /**
+   * 查詢交易紀錄（供對帳使用）
+   * 與 getPaymentStatus 不同，查詢失敗時拋出錯誤而非視為付款失敗；綠界回傳未知的交易狀態時視為查無交易
+   */
+  async getTransaction(paymentId: string): Promise<GatewayTransaction | undefined> {
+    const tradeInfo = await this.queryTradeInfo(paymentId);
+    if (!Object.values(ECPayTradeStatus).includes(tradeInfo.tradeStatus)) {
+      return undefined;
+    }
+
+    return {
+      transactionId: tradeInfo.merchantTradeNo,
+      status: this.mapECPayStatusToPaymentStatus(tradeInfo.tradeStatus),
+      amount: tradeInfo.tradeAmt,
+      currency: 'TWD',
+      gatewayResponse: tradeInfo,
+    };
+  }
+
   /**
    * 創建退款 (ECPay 不直接支援 API 退款，需要手動處理)
    */
@@ -256,6 +283,53 @@ export class ECPayGateway implements IECPayGateway {
     }
   }
 
+  /**
+   * 信用卡定期定額訂單作業
+   * 綠界不支援暫停或變更金額，停用後需重新建立定期定額訂單
+   */
+  async periodAction(options: PeriodActionOptions): Promise<PeriodActionResult> {
+    this.logger.debug('Requesting ECPay period action', options);
+
+    const params: Record<string, any> = {
+      MerchantID: this.config.merchantID,
+      MerchantTradeNo: options.merchantTradeNo,
+      Action: options.action,
+      TimeStamp: Math.floor(Date.now() / 1000),
+    };
+    params.CheckMacValue = this.generateCheckMacValue(params);
+
+    try {
+      const response = await fetch(this.getApiUrl('periodAction'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams(params).toString(),
+        signal: AbortSignal.timeout(PERIOD_ACTION_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        return { success: false, merchantTradeNo: options.merchantTradeNo, action: options.action, errorMessage: `ECPay period action returned HTTP ${response.status}` };
+      }
+
+      // 回應為 key=value&... 格式
+      const body = Object.fromEntries(new URLSearchParams(await response.text()));
+      const rtnCode = Number(body.RtnCode);
+      const result: PeriodActionResult = {
+        success: rtnCode === 1,
+        merchantTradeNo: options.merchantTradeNo,
+        action: options.action,
+        rtnCode,
+        rtnMsg: body.RtnMsg,
+        gatewayResponse: body,
+        errorMessage: rtnCode === 1 ? undefined : body.RtnMsg,
+      };
+
+      this.logger.log('ECPay period action processed', { merchantTradeNo: options.merchantTradeNo, action: options.action, rtnCode });
+      return result;
+    } catch (error) {
+      this.logger.error(`ECPay period action failed: ${error.message}`);
+      return { success: false, merchantTradeNo: options.merchantTradeNo, action: options.action, errorMessage: error.message };
+    }
+  }
+
   /**
    * 創建 ATM 支付
    */
@@ -384,8 +458,8 @@ export class ECPayGateway implements IECPayGateway {
       ItemName: options.description || 'Payment Item',
       ReturnURL: this.config.returnURL,
       ChoosePayment: this.getECPayPaymentMethod(options.paymentMethodType),
-      ClientBackURL: this.config.clientBackURL,
-      OrderResultURL: this.config.orderResultURL,
+      ClientBackURL: options.cancelUrl || this.config.clientBackURL,
+      OrderResultURL: options.returnUrl || this.config.orderResultURL,
       CustomField1: options.customerId,
       CustomField2: JSON.stringify(options.metadata || {}),
     };
@@ -403,14 +477,14 @@ export class ECPayGateway implements IECPayGateway {
       PeriodType: options.periodType,
       Frequency: options.frequency,
       ExecTimes: options.execTimes,
-      PeriodReturnURL: options.periodReturnURL,
+      PeriodReturnURL: options.periodReturnURL || this.config.periodReturnURL,
     };
   }
 
   /**
    * 獲取 API URL
    */
-  private getApiUrl(type: 'aio' | 'query'): string {
+  private getApiUrl(type: 'aio' | 'query' | 'periodAction'): string {
     if (this.ecpayConfigService) {
       const endpoints = this.ecpayConfigService.getApiEndpoints();
       return endpoints[type];
@@ -430,6 +504,7 @@ export class ECPayGateway implements IECPayGateway {
       returnURL: process.env.ECPAY_RETURN_URL || 'https://your-domain.com/api/webhooks/ecpay',
       clientBackURL: process.env.ECPAY_CLIENT_BACK_URL,
       orderResultURL: process.env.ECPAY_ORDER_RESULT_URL,
+      periodReturnURL: process.env.ECPAY_PERIOD_RETURN_URL || 'https://your-domain.com/api/webhooks/ecpay/period',
     };
   }
 
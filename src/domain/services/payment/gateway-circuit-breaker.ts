@@ -0,0 +1,110 @@
+/**
+ * 斷路器狀態
+ */
+export type GatewayCircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+/**
+ * 斷路器設定
+ */
+export interface GatewayCircuitBreakerOptions {
+  /** 統計錯誤率的時間窗（毫秒） */
+  windowMs: number;
+  /** 時間窗內至少幾筆請求才判斷錯誤率 */
+  minRequests: number;
+  /** 錯誤率達此比例即斷路（0-1） */
+  errorRateThreshold: number;
+  /** 斷路後多久放行試探請求（毫秒） */
+  openMs: number;
+}
+
+/**
+ * 閘道健康狀態
+ */
+export interface GatewayHealth {
+  state: GatewayCircuitState;
+  /** 時間窗內的請求數 */
+  requests: number;
+  /** 時間窗內的閘道錯誤數 */
+  failures: number;
+  errorRate: number;
+  openedAt?: Date;
+}
+
+/**
+ * 單一閘道的斷路器
+ * 以時間窗內的閘道錯誤率判斷：達門檻即斷路，期間不再路由到此閘道；
+ * 斷路時間過後進入半開，下一筆結果成功即恢復、失敗則重新斷路。狀態只保存在本實例記憶體
+ */
+export class GatewayCircuitBreaker {
+  private outcomes: Array<{ at: number; failed: boolean }> = [];
+  private state: GatewayCircuitState = 'CLOSED';
+  private openedAt?: number;
+
+  constructor(private readonly options: GatewayCircuitBreakerOptions) {}
+
+  /**
+   * 是否可將請求路由到此閘道
+   */
+  public canRequest(now: number = Date.now()): boolean {
+    this.refreshState(now);
+    return this.state !== 'OPEN';
+  }
+
+  /**
+   * 記錄一次請求結果，failed 只代表閘道端錯誤（連線、逾時、服務不可用），不含卡片拒絕
+   */
+  public record(failed: boolean, now: number = Date.now()): void {
+    this.refreshState(now);
+
+    if (this.state === 'HALF_OPEN') {
+      if (failed) {
+        this.open(now);
+      } else {
+        this.state = 'CLOSED';
+        this.openedAt = undefined;
+        this.outcomes = [{ at: now, failed }];
+      }
+      return;
+    }
+
+    this.prune(now);
+    this.outcomes.push({ at: now, failed });
+
+    const { failures, requests, errorRate } = this.stats();
+    if (this.state === 'CLOSED' && failures > 0 && requests >= this.options.minRequests && errorRate >= this.options.errorRateThreshold) {
+      this.open(now);
+    }
+  }
+
+  public getHealth(now: number = Date.now()): GatewayHealth {
+    this.refreshState(now);
+    this.prune(now);
+    return {
+      state: this.state,
+      ...this.stats(),
+      openedAt: this.openedAt !== undefined ? new Date(this.openedAt) : undefined,
+    };
+  }
+
+  private open(now: number): void {
+    this.state = 'OPEN';
+    this.openedAt = now;
+  }
+
+  private refreshState(now: number): void {
+    if (this.state === 'OPEN' && now - this.openedAt >= this.options.openMs) {
+      this.state = 'HALF_OPEN';
+    }
+  }
+
+  private prune(now: number): void {
+    const since = now - this.options.windowMs;
+    this.outcomes = this.outcomes.filter((outcome) => outcome.at > since);
+  }
+
+  private stats(): { requests: number; failures: number; errorRate: number } {
+    const requests = this.outcomes.length;
+    const failures = this.outcomes.filter((outcome) => outcome.failed).length;
+    return { requests, failures, errorRate: requests > 0 ? failures / requests : 0 };
+  }
+}
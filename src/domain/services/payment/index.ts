@@ -1,5 +1,6 @@
 // 支付服務和閘道
 export * from './payment-gateway-manager.service';
+export * from './gateway-circuit-breaker';
 export * from './mock-payment-gateway.service';
 export * from './ecpay-gateway.service';
 export * from './ecpay-config-wrapper.service';
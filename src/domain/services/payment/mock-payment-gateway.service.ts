@@ -12,7 +12,39 @@ import {
   SubscriptionCreateOptions,
   SubscriptionResult,
   SubscriptionUpdateOptions,
+  AccountUpdaterOptions,
+  AccountUpdaterResult,
+  PaymentMethodAttachOptions,
+  PaymentMethodAttachResult,
+  GatewayTransaction,
+  GatewayTransactionListOptions,
+  GatewayDisputeEvent,
+  DisputeResponseOptions,
+  DisputeResponseResult,
 } from '../../interfaces/payment/payment-gateway.interface';
+import { DisputeStatus } from '../../enums/codes.const';
+import {
+  ECPayCallbackParams,
+  PeriodActionOptions,
+  PeriodActionResult,
+  PeriodActionType,
+  PeriodPaymentOptions,
+  PeriodPaymentResult,
+} from '../../interfaces/payment/ecpay.interface';
+
+/** 模擬綠界規則：定期定額連續授權失敗達此次數即停止 */
+const MOCK_PERIOD_MAX_FAILURES = 6;
+
+/** 模擬爭議通知（仿 Stripe charge.dispute.*）的狀態對應 */
+const MOCK_DISPUTE_STATUSES: Record<string, DisputeStatus> = {
+  needs_response: DisputeStatus.NEEDS_RESPONSE,
+  warning_needs_response: DisputeStatus.NEEDS_RESPONSE,
+  under_review: DisputeStatus.UNDER_REVIEW,
+  warning_under_review: DisputeStatus.UNDER_REVIEW,
+  won: DisputeStatus.WON,
+  warning_closed: DisputeStatus.WON,
+  lost: DisputeStatus.LOST,
+};
 
 /**
  * Mock 支付閘道實作
@@ -24,6 +56,10 @@ export class MockPaymentGateway implements IPaymentGateway {
   private readonly payments: Map<string, any> = new Map();
   private readonly refunds: Map<string, any> = new Map();
   private readonly subscriptions: Map<string, any> = new Map();
+  private readonly periodOrders: Map<string, any> = new Map();
+  private periodExecutionSequence = 0;
+  private outage?: { errorCode: string; mode: 'error' | 'throw'; until?: number };
+  private authenticationRequired = false;
 
   getName(): string {
     return 'mock';
@@ -35,14 +71,33 @@ export class MockPaymentGateway implements IPaymentGateway {
   async createPayment(options: PaymentCreateOptions): Promise<PaymentResult> {
     this.logger.debug('Creating mock payment', options);
 
+    // 允許以 metadata.__forceScenario 強制指定測試情境，避免測試隨機性
+    const forced = options.metadata?.__forceScenario as 'success' | 'failed' | 'requires_action' | 'processing' | 'outage' | undefined;
+
+    // 模擬閘道中斷：不經處理延時直接失敗
+    const outage = forced === 'outage' ? { errorCode: 'SERVICE_UNAVAILABLE', mode: 'error' as const } : this.getActiveOutage();
+    if (outage) {
+      if (outage.mode === 'throw') {
+        throw new Error(`Mock gateway unreachable (${outage.errorCode})`);
+      }
+      return {
+        success: false,
+        paymentId: '',
+        status: PaymentStatus.FAILED,
+        amount: options.amount,
+        currency: options.currency,
+        gatewayResponse: { simulationScenario: 'outage' },
+        errorMessage: 'Mock gateway is unavailable',
+        errorCode: outage.errorCode,
+        metadata: options.metadata,
+      };
+    }
+
     // 模擬處理延時
     await this.simulateProcessingDelay();
 
     const paymentId = this.generateId('pay');
 
-    // 允許以 metadata.__forceScenario 強制指定測試情境，避免測試隨機性
-    const forced = options.metadata?.__forceScenario as 'success' | 'failed' | 'requires_action' | 'processing' | undefined;
-
     let simulationResult: ReturnType<MockPaymentGateway['simulatePaymentScenario']>;
 
     if (forced === 'success') {
@@ -59,7 +114,7 @@ export class MockPaymentGateway implements IPaymentGateway {
         errorMessage: 'Forced failure',
         errorCode: 'FORCED_FAILURE',
       } as any;
-    } else if (forced === 'requires_action') {
+    } else if (forced === 'requires_action' || (this.authenticationRequired && !forced)) {
       simulationResult = {
         success: true,
         status: PaymentStatus.REQUIRES_ACTION,
@@ -79,11 +134,17 @@ export class MockPaymentGateway implements IPaymentGateway {
       simulationResult = this.simulatePaymentScenario(options);
     }
 
+    // 驗證頁面網址附上交易編號，模擬發卡機構的驗證頁
+    const nextAction = simulationResult.nextAction
+      ? { ...simulationResult.nextAction, redirectUrl: `${simulationResult.nextAction.redirectUrl}?payment_intent=${paymentId}` }
+      : undefined;
+
     const paymentData = {
       id: paymentId,
       amount: options.amount,
       currency: options.currency,
       status: simulationResult.status,
+      nextAction,
       paymentMethodId: options.paymentMethodId,
       customerId: options.customerId,
       description: options.description,
@@ -101,7 +162,7 @@ export class MockPaymentGateway implements IPaymentGateway {
       amount: options.amount,
       currency: options.currency,
       clientSecret: simulationResult.status === PaymentStatus.REQUIRES_ACTION ? this.generateClientSecret(paymentId) : undefined,
-      nextAction: (simulationResult as any).nextAction,
+      nextAction,
       gatewayResponse: {
         mockPayment: paymentData,
         simulationScenario: simulationResult.scenario,
@@ -138,15 +199,22 @@ export class MockPaymentGateway implements IPaymentGateway {
     let newStatus: PaymentStatus;
     let success = true;
     let errorMessage: string | undefined;
-
-    if (payment.status === PaymentStatus.REQUIRES_ACTION) {
-      // 90% 機率確認成功
-      if (Math.random() > 0.1) {
+    let errorCode: string | undefined;
+    let nextAction: PaymentResult['nextAction'];
+
+    if (payment.status === PaymentStatus.REQUIRES_ACTION && payment.challengeResult === 'pending') {
+      // 客戶尚未完成驗證
+      newStatus = PaymentStatus.REQUIRES_ACTION;
+      nextAction = payment.nextAction;
+    } else if (payment.status === PaymentStatus.REQUIRES_ACTION) {
+      // 未指定驗證結果時 90% 機率確認成功
+      if (payment.challengeResult ? payment.challengeResult === 'succeeded' : Math.random() > 0.1) {
         newStatus = PaymentStatus.SUCCEEDED;
       } else {
         newStatus = PaymentStatus.FAILED;
         success = false;
         errorMessage = 'Authentication failed';
+        errorCode = 'AUTHENTICATION_FAILED';
       }
     } else {
       newStatus = payment.status;
@@ -164,11 +232,13 @@ export class MockPaymentGateway implements IPaymentGateway {
       status: newStatus,
       amount: payment.amount,
       currency: payment.currency,
+      nextAction,
       gatewayResponse: {
         mockPayment: payment,
         confirmationResult: 'confirmed',
       },
       errorMessage,
+      errorCode,
       metadata: payment.metadata,
     };
 
@@ -193,6 +263,55 @@ export class MockPaymentGateway implements IPaymentGateway {
     return payment.status;
   }
 
+  /**
+   * 取消尚未完成的支付，已成功或已結束的支付維持原狀態
+   */
+  async cancelPayment(paymentId: string): Promise<PaymentResult> {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new Error(`Payment ${paymentId} not found`);
+    }
+
+    await this.simulateProcessingDelay();
+
+    if ([PaymentStatus.PENDING, PaymentStatus.PROCESSING, PaymentStatus.REQUIRES_ACTION].includes(payment.status)) {
+      payment.status = PaymentStatus.CANCELED;
+      payment.updatedAt = new Date();
+    }
+
+    const canceled = payment.status === PaymentStatus.CANCELED;
+    this.logger.log('Mock payment cancellation', { paymentId, status: payment.status });
+
+    return {
+      success: canceled,
+      paymentId,
+      status: payment.status,
+      amount: payment.amount,
+      currency: payment.currency,
+      gatewayResponse: { mockPayment: payment },
+      errorMessage: canceled ? undefined : `Cannot cancel payment with status ${payment.status}`,
+      errorCode: canceled ? undefined : 'PAYMENT_NOT_CANCELABLE',
+      metadata: payment.metadata,
+    };
+  }
+
+  /**
+   * 查詢交易紀錄
+   */
+  async getTransaction(paymentId: string): Promise<GatewayTransaction | undefined> {
+    const payment = this.payments.get(paymentId);
+    return payment ? this.toTransaction(payment) : undefined;
+  }
+
+  /**
+   * 列出期間內建立的交易
+   */
+  async listTransactions(options: GatewayTransactionListOptions): Promise<GatewayTransaction[]> {
+    return Array.from(this.payments.values())
+      .filter((payment) => payment.createdAt >= options.createdFrom && payment.createdAt <= options.createdTo)
+      .map((payment) => this.toTransaction(payment));
+  }
+
   /**
    * 創建退款
    */
@@ -293,13 +412,48 @@ export class MockPaymentGateway implements IPaymentGateway {
 
     // 模擬 Webhook 事件處理
     const eventType = payload.type || 'payment.succeeded';
-    const paymentId = payload.data?.object?.id;
+    const dispute = eventType.startsWith('charge.dispute.') ? this.toDisputeEvent(payload.data?.object) : undefined;
+    const paymentId = dispute ? dispute.transactionId : payload.data?.object?.id;
 
     return {
       success: true,
       eventType,
       paymentId,
       data: payload,
+      dispute,
+    };
+  }
+
+  /**
+   * 提交爭議回覆
+   */
+  async submitDisputeResponse(gatewayDisputeId: string, options: DisputeResponseOptions): Promise<DisputeResponseResult> {
+    this.logger.debug('Submitting mock dispute response', { gatewayDisputeId, evidence: options.evidence.length });
+
+    await this.simulateProcessingDelay();
+
+    return {
+      success: true,
+      gatewayResponse: { id: gatewayDisputeId, status: 'under_review', evidenceCount: options.evidence.length },
+    };
+  }
+
+  /**
+   * 將模擬的爭議物件轉為爭議事件，due_by 為 Unix 秒數
+   */
+  private toDisputeEvent(object: any): GatewayDisputeEvent | undefined {
+    if (!object?.id || !(object.charge || object.payment_intent)) {
+      return undefined;
+    }
+
+    return {
+      disputeId: object.id,
+      transactionId: object.charge || object.payment_intent,
+      status: MOCK_DISPUTE_STATUSES[object.status] || DisputeStatus.NEEDS_RESPONSE,
+      amount: object.amount,
+      currency: object.currency?.toUpperCase(),
+      reason: object.reason,
+      responseDueBy: object.evidence_details?.due_by ? new Date(object.evidence_details.due_by * 1000) : undefined,
     };
   }
 
@@ -429,6 +583,239 @@ export class MockPaymentGateway implements IPaymentGateway {
     return result;
   }
 
+  /**
+   * 帳戶更新服務
+   * metadata.__forceAccountUpdate 為 'renewed' 時模擬發卡機構換發新卡，到期日延後三年
+   */
+  async refreshPaymentMethod(options: AccountUpdaterOptions): Promise<AccountUpdaterResult> {
+    this.logger.debug('Refreshing mock payment method', { externalId: options.externalId });
+
+    await this.simulateProcessingDelay();
+
+    if (options.metadata?.__forceAccountUpdate !== 'renewed' || !options.expiryDate) {
+      return { updated: false };
+    }
+
+    return {
+      updated: true,
+      expiryMonth: options.expiryDate.getMonth() + 1,
+      expiryYear: options.expiryDate.getFullYear() + 3,
+      externalId: options.externalId,
+      gatewayResponse: { mockAccountUpdate: 'renewed' },
+    };
+  }
+
+  /**
+   * 綁定支付方式
+   * metadata.__forceScenario 為 'failed' 時模擬發卡機構拒絕綁定
+   */
+  async attachPaymentMethod(options: PaymentMethodAttachOptions): Promise<PaymentMethodAttachResult> {
+    this.logger.debug('Attaching mock payment method', { customerId: options.customerId });
+
+    await this.simulateProcessingDelay();
+
+    if (options.metadata?.__forceScenario === 'failed') {
+      return {
+        success: false,
+        errorCode: 'CARD_DECLINED',
+        errorMessage: 'Mock card was declined',
+      };
+    }
+
+    const digits = (options.card?.number || options.token || '').replace(/\D/g, '');
+    const expiry = new Date();
+    return {
+      success: true,
+      externalId: this.generateId('pm'),
+      brand: options.card?.brand || 'visa',
+      lastFourDigits: digits.length >= 4 ? digits.slice(-4) : '4242',
+      expiryMonth: options.card?.expMonth || expiry.getMonth() + 1,
+      expiryYear: options.card?.expYear || expiry.getFullYear() + 3,
+      gatewayResponse: { mockAttach: true },
+    };
+  }
+
+  /**
+   * 建立定期定額訂單，模擬綠界：客戶於付款頁完成首次授權後，依週期由閘道扣款
+   */
+  async createPeriodPayment(options: PeriodPaymentOptions): Promise<PeriodPaymentResult> {
+    this.logger.debug('Creating mock period payment', options);
+
+    await this.simulateProcessingDelay();
+
+    const merchantTradeNo = this.generateId('period');
+    this.periodOrders.set(merchantTradeNo, {
+      merchantTradeNo,
+      customerId: options.customerId,
+      periodType: options.periodType,
+      frequency: options.frequency,
+      execTimes: options.execTimes,
+      periodAmount: options.periodAmount,
+      status: 'pending',
+      totalSuccessTimes: 0,
+      consecutiveFailures: 0,
+      metadata: options.metadata,
+      createdAt: new Date(),
+    });
+
+    return {
+      success: true,
+      paymentId: merchantTradeNo,
+      status: PaymentStatus.PENDING,
+      amount: options.amount,
+      currency: options.currency || 'TWD',
+      periodType: options.periodType,
+      frequency: options.frequency,
+      execTimes: options.execTimes,
+      periodAmount: options.periodAmount,
+      gatewayResponse: {
+        actionUrl: 'https://mock-gateway.example.com/period/authorize',
+        method: 'POST',
+        formParams: {
+          MerchantTradeNo: merchantTradeNo,
+          PeriodAmount: options.periodAmount,
+          PeriodType: options.periodType,
+          Frequency: options.frequency,
+          ExecTimes: options.execTimes,
+          PeriodReturnURL: options.periodReturnURL,
+        },
+      },
+      metadata: options.metadata,
+    };
+  }
+
+  /**
+   * 定期定額訂單作業
+   */
+  async periodAction(options: PeriodActionOptions): Promise<PeriodActionResult> {
+    this.logger.debug('Mock period action', options);
+
+    const order = this.periodOrders.get(options.merchantTradeNo);
+    if (!order) {
+      return { success: false, merchantTradeNo: options.merchantTradeNo, action: options.action, rtnCode: 0, rtnMsg: 'Order not found', errorMessage: 'Order not found' };
+    }
+
+    if (options.action === PeriodActionType.CANCEL) {
+      order.status = 'canceled';
+      order.canceledAt = new Date();
+    }
+    return { success: true, merchantTradeNo: options.merchantTradeNo, action: options.action, rtnCode: 1, rtnMsg: 'OK', gatewayResponse: { mockPeriodOrder: order } };
+  }
+
+  /**
+   * 模擬執行一期定期定額授權 (測試用)
+   * 回傳與綠界 PeriodReturnURL 相同格式的通知內容；首期即客戶於付款頁完成的授權，每期不論成敗皆有各自的授權序號
+   */
+  simulatePeriodExecution(merchantTradeNo: string, options: { success?: boolean } = {}): ECPayCallbackParams {
+    const order = this.periodOrders.get(merchantTradeNo);
+    if (!order || !['pending', 'active'].includes(order.status)) {
+      throw new Error(`Mock period order ${merchantTradeNo} is not active`);
+    }
+
+    const success = options.success !== false;
+    if (success) {
+      order.status = 'active';
+      order.totalSuccessTimes += 1;
+      order.consecutiveFailures = 0;
+      if (order.totalSuccessTimes >= order.execTimes) {
+        order.status = 'completed';
+      }
+    } else {
+      order.consecutiveFailures += 1;
+      if (order.consecutiveFailures >= MOCK_PERIOD_MAX_FAILURES) {
+        order.status = 'stopped';
+      }
+    }
+
+    const now = new Date();
+    return {
+      MerchantID: 'mock',
+      MerchantTradeNo: merchantTradeNo,
+      RtnCode: success ? 1 : 0,
+      RtnMsg: success ? 'Succeeded' : 'Mock authorization declined',
+      TradeNo: '',
+      TradeAmt: order.periodAmount,
+      PaymentDate: '',
+      PaymentType: 'Credit_CreditCard',
+      PaymentTypeChargeFee: '0',
+      TradeDate: '',
+      CheckMacValue: '',
+      PeriodType: order.periodType,
+      Frequency: order.frequency,
+      ExecTimes: order.execTimes,
+      Amount: order.periodAmount,
+      Gwsr: ++this.periodExecutionSequence,
+      ProcessDate: now.toISOString(),
+      AuthCode: success ? Math.random().toString().substring(2, 8) : undefined,
+      FirstAuthAmount: order.periodAmount,
+      TotalSuccessTimes: order.totalSuccessTimes,
+    };
+  }
+
+  /**
+   * 模擬閘道端交易狀態或金額的變更 (測試用)，例如處理中的交易稍後於閘道完成
+   */
+  simulateTransactionUpdate(paymentId: string, update: { status?: PaymentStatus; amount?: number }): void {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new Error(`Payment ${paymentId} not found`);
+    }
+
+    payment.status = update.status ?? payment.status;
+    payment.amount = update.amount ?? payment.amount;
+    payment.updatedAt = new Date();
+  }
+
+  /**
+   * 模擬閘道中斷 (測試用)
+   * 期間建立支付一律失敗：mode 為 'throw' 時拋出例外模擬連線中斷，否則回傳 errorCode；
+   * 未指定 durationMs 時持續到呼叫 endOutage
+   */
+  simulateOutage(options: { errorCode?: string; mode?: 'error' | 'throw'; durationMs?: number } = {}): void {
+    this.outage = {
+      errorCode: options.errorCode || 'SERVICE_UNAVAILABLE',
+      mode: options.mode || 'error',
+      until: options.durationMs ? Date.now() + options.durationMs : undefined,
+    };
+    this.logger.warn('Mock gateway outage started', this.outage);
+  }
+
+  /**
+   * 結束模擬中斷 (測試用)
+   */
+  endOutage(): void {
+    this.outage = undefined;
+  }
+
+  /**
+   * 模擬發卡機構要求驗證 (測試用)
+   * 期間建立的支付（未以 __forceScenario 指定情境者）一律回傳 REQUIRES_ACTION，直到呼叫 endAuthenticationRequired
+   */
+  simulateAuthenticationRequired(): void {
+    this.authenticationRequired = true;
+  }
+
+  /**
+   * 結束模擬驗證要求 (測試用)
+   */
+  endAuthenticationRequired(): void {
+    this.authenticationRequired = false;
+  }
+
+  /**
+   * 模擬客戶在驗證頁面的結果 (測試用)，之後的 confirmPayment 依此結果回應；
+   * 'pending' 表示客戶尚未完成驗證
+   */
+  completeChallenge(paymentId: string, result: 'succeeded' | 'failed' | 'pending' = 'succeeded'): void {
+    const payment = this.payments.get(paymentId);
+    if (!payment || payment.status !== PaymentStatus.REQUIRES_ACTION) {
+      throw new Error(`Payment ${paymentId} is not awaiting authentication`);
+    }
+
+    payment.challengeResult = result;
+    payment.updatedAt = new Date();
+  }
+
   /**
    * 產生 Webhook 事件 (測試用)
    */
@@ -531,6 +918,16 @@ export class MockPaymentGateway implements IPaymentGateway {
     }
   }
 
+  /**
+   * 目前生效的模擬中斷，到期後自動結束
+   */
+  private getActiveOutage(): { errorCode: string; mode: 'error' | 'throw' } | undefined {
+    if (this.outage?.until !== undefined && Date.now() >= this.outage.until) {
+      this.outage = undefined;
+    }
+    return this.outage;
+  }
+
   /**
    * 模擬處理延時
    */
@@ -548,6 +945,21 @@ export class MockPaymentGateway implements IPaymentGateway {
     return `${prefix}_${timestamp}_${random}`;
   }
 
+  /**
+   * 轉換為交易紀錄
+   */
+  private toTransaction(payment: any): GatewayTransaction {
+    return {
+      transactionId: payment.id,
+      status: payment.status,
+      amount: payment.amount,
+      currency: payment.currency,
+      reference: payment.metadata?.paymentId,
+      createdAt: payment.createdAt,
+      gatewayResponse: { mockPayment: payment },
+    };
+  }
+
   /**
    * 產生客戶端密鑰
    */
@@ -562,11 +974,13 @@ export class MockPaymentGateway implements IPaymentGateway {
     payments: Array<any>;
     refunds: Array<any>;
     subscriptions: Array<any>;
+    periodOrders: Array<any>;
   } {
     return {
       payments: Array.from(this.payments.values()),
       refunds: Array.from(this.refunds.values()),
       subscriptions: Array.from(this.subscriptions.values()),
+      periodOrders: Array.from(this.periodOrders.values()),
     };
   }
 
@@ -577,6 +991,7 @@ export class MockPaymentGateway implements IPaymentGateway {
     this.payments.clear();
     this.refunds.clear();
     this.subscriptions.clear();
+    this.periodOrders.clear();
     this.logger.log('Mock data cleared');
   }
 }
@@ -1,14 +1,38 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, Optional } from '@nestjs/common';
+import { ConfService } from '../../../../libs/conf/src/conf.service';
 import {
   IPaymentGateway,
   PaymentCreateOptions,
+  PaymentConfirmOptions,
   PaymentResult,
   RefundOptions,
   RefundResult,
   GatewaySelectionCriteria,
   PaymentGatewayConfig,
   PaymentMethodType,
+  AccountUpdaterOptions,
+  AccountUpdaterResult,
+  PaymentMethodAttachOptions,
+  PaymentMethodAttachResult,
+  GatewayRoute,
+  GatewayRoutingRule,
+  GatewayTransaction,
+  GatewayTransactionListOptions,
+  GatewayDisputeEvent,
+  DisputeResponseOptions,
+  DisputeResponseResult,
 } from '../../interfaces/payment/payment-gateway.interface';
+import { IECPayGateway, PeriodActionOptions, PeriodActionResult, PeriodPaymentOptions, PeriodPaymentResult } from '../../interfaces/payment/ecpay.interface';
+import { GatewayCircuitBreaker, GatewayCircuitBreakerOptions, GatewayHealth } from './gateway-circuit-breaker';
+import { isGatewayAvailabilityError } from '../../utils/payment-failure.util';
+
+/** 未注入設定時的斷路器預設值 */
+const DEFAULT_CIRCUIT_BREAKER: GatewayCircuitBreakerOptions = { windowMs: 60 * 1000, minRequests: 5, errorRateThreshold: 0.5, openMs: 30 * 1000 };
+
+/**
+ * 閘道 webhook 通知爭議時的處理函式
+ */
+export type GatewayDisputeHandler = (gatewayName: string, dispute: GatewayDisputeEvent) => Promise<void>;
 
 /**
  * 支付閘道管理器
@@ -19,7 +43,11 @@ export class PaymentGatewayManager {
   private readonly logger = new Logger(PaymentGatewayManager.name);
   private readonly gateways: Map<string, IPaymentGateway> = new Map();
   private readonly configs: Map<string, PaymentGatewayConfig> = new Map();
+  private readonly breakers: Map<string, GatewayCircuitBreaker> = new Map();
   private defaultGateway: string = 'mock';
+  private disputeHandler?: GatewayDisputeHandler;
+
+  constructor(@Optional() private readonly confService?: ConfService) {}
 
   /**
    * 註冊支付閘道
@@ -28,6 +56,7 @@ export class PaymentGatewayManager {
     this.logger.log(`Registering payment gateway: ${name}`);
     this.gateways.set(name, gateway);
     this.configs.set(name, config);
+    this.breakers.set(name, new GatewayCircuitBreaker(this.confService?.getConf().paymentRouting?.circuitBreaker || DEFAULT_CIRCUIT_BREAKER));
   }
 
   /**
@@ -37,6 +66,7 @@ export class PaymentGatewayManager {
     this.logger.log(`Unregistering payment gateway: ${name}`);
     this.gateways.delete(name);
     this.configs.delete(name);
+    this.breakers.delete(name);
   }
 
   /**
@@ -105,8 +135,40 @@ export class PaymentGatewayManager {
     return this.getGateway(bestGateway);
   }
 
+  /**
+   * 依路由規則與閘道健康狀態決定候選閘道順序
+   * 指定偏好閘道時只使用該閘道（例如支付方式綁定所在的閘道）；否則取第一條符合的規則，
+   * 未符合時依手續費排序所有適用的閘道；斷路中的閘道會被略過
+   */
+  selectPaymentRoute(criteria: GatewaySelectionCriteria): GatewayRoute {
+    const routing = this.confService?.getConf().paymentRouting;
+
+    let rule: GatewayRoutingRule | undefined;
+    let names: string[];
+    if (criteria.preferredGateway) {
+      names = [criteria.preferredGateway];
+    } else {
+      rule = (routing?.rules || []).find((candidate) => this.matchesRule(candidate, criteria));
+      names = rule ? rule.gateways.filter((name) => this.configs.get(name)?.enabled && this.isGatewaySuitable(name, criteria)) : this.getSuitableGatewaysByFee(criteria);
+    }
+
+    const candidates = names.filter((name) => this.breakers.get(name)?.canRequest() ?? true);
+    const skipped = names.filter((name) => !candidates.includes(name));
+    if (skipped.length > 0) {
+      this.logger.warn(`Skipping gateways with open circuit: ${skipped.join(', ')}`);
+    }
+
+    return {
+      rule: rule?.name,
+      candidates,
+      skipped,
+      failover: !criteria.preferredGateway && (routing?.failoverEnabled ?? true),
+    };
+  }
+
   /**
    * 處理支付
+   * 結果計入閘道的斷路器：例外與連線或暫時性錯誤視為閘道錯誤
    */
   async processPayment(gatewayName: string, options: PaymentCreateOptions): Promise<PaymentResult> {
     const gateway = this.getGateway(gatewayName);
@@ -119,6 +181,7 @@ export class PaymentGatewayManager {
 
     try {
       const result = await gateway.createPayment(options);
+      this.breakers.get(gatewayName)?.record(!result.success && isGatewayAvailabilityError(result.errorCode));
 
       this.logger.log(`Payment processed successfully`, {
         gateway: gatewayName,
@@ -129,6 +192,7 @@ export class PaymentGatewayManager {
 
       return result;
     } catch (error) {
+      this.breakers.get(gatewayName)?.record(true);
       this.logger.error(`Payment processing failed`, {
         gateway: gatewayName,
         error: error.message,
@@ -139,6 +203,39 @@ export class PaymentGatewayManager {
     }
   }
 
+  /**
+   * 確認支付，例如客戶完成 3-D Secure 驗證後繼續扣款
+   */
+  async confirmPayment(gatewayName: string, paymentId: string, options?: PaymentConfirmOptions): Promise<PaymentResult> {
+    const gateway = this.getGateway(gatewayName);
+
+    this.logger.log(`Confirming payment via ${gatewayName}`, { paymentId });
+
+    try {
+      const result = await gateway.confirmPayment(paymentId, options);
+      this.breakers.get(gatewayName)?.record(!result.success && isGatewayAvailabilityError(result.errorCode));
+
+      this.logger.log(`Payment confirmed`, {
+        gateway: gatewayName,
+        paymentId: result.paymentId,
+        status: result.status,
+        success: result.success,
+      });
+
+      return result;
+    } catch (error) {
+      this.breakers.get(gatewayName)?.record(true);
+      this.logger.error(`Payment confirmation failed`, {
+        gateway: gatewayName,
+        paymentId,
+        error: error.message,
+        stack: error.stack,
+      });
+
+      throw error;
+    }
+  }
+
   /**
    * 處理退款
    */
@@ -192,6 +289,10 @@ export class PaymentGatewayManager {
         success: result.success,
       });
 
+      if (result.success && result.dispute && this.disputeHandler) {
+        await this.disputeHandler(gatewayName, result.dispute);
+      }
+
       return result;
     } catch (error) {
       this.logger.error(`Webhook processing failed`, {
@@ -204,6 +305,181 @@ export class PaymentGatewayManager {
     }
   }
 
+  /**
+   * 透過帳戶更新服務刷新卡片資訊
+   * 未指定閘道時依序詢問所有支援的閘道，回傳第一筆有更新的結果
+   */
+  async refreshPaymentMethod(options: AccountUpdaterOptions, gatewayName?: string): Promise<AccountUpdaterResult | undefined> {
+    const names = gatewayName ? [gatewayName] : this.getAvailableGateways();
+
+    for (const name of names) {
+      const gateway = this.getGateway(name);
+      if (!gateway.refreshPaymentMethod) {
+        continue;
+      }
+
+      try {
+        const result = await gateway.refreshPaymentMethod(options);
+        if (result?.updated) {
+          this.logger.log(`Payment method ${options.externalId} refreshed via ${name}`);
+          return result;
+        }
+      } catch (error) {
+        this.logger.warn(`Account updater failed on ${name}: ${error.message}`);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 透過指定閘道綁定支付方式
+   */
+  async attachPaymentMethod(gatewayName: string, options: PaymentMethodAttachOptions): Promise<PaymentMethodAttachResult> {
+    const gateway = this.getGateway(gatewayName);
+    if (!gateway.attachPaymentMethod) {
+      throw new Error(`Payment gateway '${gatewayName}' does not support attaching payment methods`);
+    }
+
+    const result = await gateway.attachPaymentMethod(options);
+    this.logger.log(`Payment method attached via ${gatewayName}`, {
+      customerId: options.customerId,
+      success: result.success,
+      errorCode: result.errorCode,
+    });
+    return result;
+  }
+
+  /**
+   * 閘道是否支援定期定額（由閘道依週期扣款）
+   */
+  supportsPeriodPayments(gatewayName: string): boolean {
+    const gateway = this.gateways.get(gatewayName) as Partial<IECPayGateway> | undefined;
+    return !!gateway?.createPeriodPayment && !!gateway.periodAction;
+  }
+
+  /**
+   * 透過指定閘道建立定期定額訂單
+   */
+  async createPeriodPayment(gatewayName: string, options: PeriodPaymentOptions): Promise<PeriodPaymentResult> {
+    const gateway = this.getGateway(gatewayName) as Partial<IECPayGateway>;
+    if (!gateway.createPeriodPayment) {
+      throw new Error(`Payment gateway '${gatewayName}' does not support period payments`);
+    }
+
+    const result = await gateway.createPeriodPayment(options);
+    this.logger.log(`Period payment created via ${gatewayName}`, {
+      paymentId: result.paymentId,
+      periodType: result.periodType,
+      frequency: result.frequency,
+      execTimes: result.execTimes,
+    });
+    return result;
+  }
+
+  /**
+   * 透過指定閘道執行定期定額訂單作業
+   */
+  async periodAction(gatewayName: string, options: PeriodActionOptions): Promise<PeriodActionResult> {
+    const gateway = this.getGateway(gatewayName) as Partial<IECPayGateway>;
+    if (!gateway.periodAction) {
+      throw new Error(`Payment gateway '${gatewayName}' does not support period payments`);
+    }
+
+    const result = await gateway.periodAction(options);
+    this.logger.log(`Period action ${options.action} sent via ${gatewayName}`, {
+      merchantTradeNo: options.merchantTradeNo,
+      success: result.success,
+      rtnCode: result.rtnCode,
+    });
+    return result;
+  }
+
+  /**
+   * 查詢閘道端的交易紀錄，查無交易時回傳 undefined
+   * 閘道未提供交易查詢時改以 getPaymentStatus 取得狀態（不含金額）
+   */
+  async lookupTransaction(gatewayName: string, transactionId: string): Promise<GatewayTransaction | undefined> {
+    const gateway = this.getGateway(gatewayName);
+    if (gateway.getTransaction) {
+      return gateway.getTransaction(transactionId);
+    }
+
+    try {
+      return { transactionId, status: await gateway.getPaymentStatus(transactionId) };
+    } catch (error) {
+      if (error.message?.includes('not found')) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 取消閘道端尚未完成的支付
+   */
+  async cancelPayment(gatewayName: string, paymentId: string): Promise<PaymentResult> {
+    const gateway = this.getGateway(gatewayName);
+    if (!gateway.cancelPayment) {
+      throw new Error(`Payment gateway '${gatewayName}' does not support payment cancellation`);
+    }
+
+    this.logger.log(`Canceling payment via ${gatewayName}`, { paymentId });
+    return gateway.cancelPayment(paymentId);
+  }
+
+  /**
+   * 閘道是否支援列出交易
+   */
+  supportsTransactionListing(gatewayName: string): boolean {
+    return !!this.gateways.get(gatewayName)?.listTransactions;
+  }
+
+  /**
+   * 列出閘道端期間內建立的交易
+   */
+  async listTransactions(gatewayName: string, options: GatewayTransactionListOptions): Promise<GatewayTransaction[]> {
+    const gateway = this.getGateway(gatewayName);
+    if (!gateway.listTransactions) {
+      throw new Error(`Payment gateway '${gatewayName}' does not support transaction listing`);
+    }
+
+    return gateway.listTransactions(options);
+  }
+
+  /**
+   * 註冊爭議處理函式，閘道 webhook 回報爭議時呼叫
+   */
+  registerDisputeHandler(handler: GatewayDisputeHandler): void {
+    this.disputeHandler = handler;
+  }
+
+  /**
+   * 閘道是否支援提交爭議回覆
+   */
+  supportsDisputeResponse(gatewayName: string): boolean {
+    return !!this.gateways.get(gatewayName)?.submitDisputeResponse;
+  }
+
+  /**
+   * 向閘道提交爭議回覆與證據
+   */
+  async submitDisputeResponse(gatewayName: string, gatewayDisputeId: string, options: DisputeResponseOptions): Promise<DisputeResponseResult> {
+    const gateway = this.getGateway(gatewayName);
+    if (!gateway.submitDisputeResponse) {
+      throw new Error(`Payment gateway '${gatewayName}' does not support dispute responses`);
+    }
+
+    return gateway.submitDisputeResponse(gatewayDisputeId, options);
+  }
+
+  /**
+   * 獲取閘道的斷路器狀態
+   */
+  getGatewayHealth(gatewayName: string): GatewayHealth | undefined {
+    return this.breakers.get(gatewayName)?.getHealth();
+  }
+
   /**
    * 設定預設支付閘道
    */
@@ -246,6 +522,32 @@ export class PaymentGatewayManager {
       .map(([name]) => name);
   }
 
+  /**
+   * 依手續費由低到高排序的適用閘道
+   */
+  private getSuitableGatewaysByFee(criteria: GatewaySelectionCriteria): string[] {
+    return this.getSuitableGateways(criteria).sort((a, b) => (this.configs.get(a)?.processingFeeRate || 0) - (this.configs.get(b)?.processingFeeRate || 0));
+  }
+
+  /**
+   * 檢查路由規則的支付方式、幣別與金額區間
+   */
+  private matchesRule(rule: GatewayRoutingRule, criteria: GatewaySelectionCriteria): boolean {
+    if (rule.paymentMethodTypes?.length && !rule.paymentMethodTypes.includes(criteria.paymentMethodType)) {
+      return false;
+    }
+    if (rule.currencies?.length && !rule.currencies.includes(criteria.currency)) {
+      return false;
+    }
+    if (rule.minAmount !== undefined && criteria.amount < rule.minAmount) {
+      return false;
+    }
+    if (rule.maxAmount !== undefined && criteria.amount > rule.maxAmount) {
+      return false;
+    }
+    return true;
+  }
+
   /**
    * 檢查閘道是否適合給定的標準
    */
@@ -292,6 +594,7 @@ export class PaymentGatewayManager {
       testMode: boolean;
       supportedCurrencies: string[];
       supportedPaymentMethods: PaymentMethodType[];
+      health?: GatewayHealth;
     }>;
   } {
     const gatewayInfo = Array.from(this.configs.entries()).map(([name, config]) => ({
@@ -300,6 +603,7 @@ export class PaymentGatewayManager {
       testMode: config.testMode,
       supportedCurrencies: config.supportedCurrencies,
       supportedPaymentMethods: config.supportedPaymentMethods,
+      health: this.getGatewayHealth(name),
     }));
 
     return {
@@ -0,0 +1,178 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfService } from '@myapp/conf';
+import { PaymentGatewayManager } from '../payment-gateway-manager.service';
+import { MockPaymentGateway } from '../mock-payment-gateway.service';
+import { PaymentProcessingService } from '../../payment-processing.service';
+import { PaymentService } from '../../payment.service';
+import { PaymentMethodRepository } from '../../../../infra/repositories/payment-method.repository';
+import { IPaymentGateway, PaymentGatewayConfig, PaymentMethodType, PaymentStatus } from '../../../interfaces/payment/payment-gateway.interface';
+import { Money } from '../../../value-objects/money';
+
+describe('Payment gateway routing and failover', () => {
+  const routingConf = {
+    failoverEnabled: true,
+    rules: [{ name: 'twd-high-value', currencies: ['TWD'], minAmount: 5000, gateways: ['backup', 'primary'] }],
+    circuitBreaker: { windowMs: 60 * 1000, minRequests: 3, errorRateThreshold: 0.5, openMs: 30 * 1000 },
+  };
+
+  let moduleRef: TestingModule;
+  let manager: PaymentGatewayManager;
+  let service: PaymentProcessingService;
+  let primary: MockPaymentGateway;
+  let backup: { createPayment: jest.Mock };
+
+  const paymentService = { recordRoutingDecision: jest.fn() };
+  const paymentMethodRepository = {
+    findById: jest.fn(async (id: string) => ({ id, customerId: 'cus_1', type: 'CREDIT_CARD', isAvailable: () => true })),
+  };
+
+  const gatewayConfig = (name: string, processingFeeRate: number): PaymentGatewayConfig => ({
+    name,
+    enabled: true,
+    testMode: true,
+    supportedCurrencies: ['TWD'],
+    supportedPaymentMethods: [PaymentMethodType.CREDIT_CARD],
+    processingFeeRate,
+  });
+
+  const succeeded = (paymentId: string, amount: number) => ({ success: true, paymentId, status: PaymentStatus.SUCCEEDED, amount, currency: 'TWD', gatewayResponse: {} });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        PaymentGatewayManager,
+        PaymentProcessingService,
+        MockPaymentGateway,
+        { provide: ConfService, useValue: { getConf: () => ({ paymentRouting: routingConf }) } },
+        { provide: PaymentService, useValue: paymentService },
+        { provide: PaymentMethodRepository, useValue: paymentMethodRepository },
+      ],
+    }).compile();
+
+    manager = moduleRef.get(PaymentGatewayManager);
+    service = moduleRef.get(PaymentProcessingService);
+    primary = moduleRef.get(MockPaymentGateway);
+    backup = { createPayment: jest.fn(async (options) => succeeded('bk_1', options.amount)) };
+
+    manager.registerGateway('primary', primary, gatewayConfig('primary', 0.02));
+    manager.registerGateway('backup', backup as unknown as IPaymentGateway, gatewayConfig('backup', 0.03));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await moduleRef.close();
+  });
+
+  it('orders candidates by the first matching rule, otherwise by fee', () => {
+    expect(manager.selectPaymentRoute({ amount: 8000, currency: 'TWD', paymentMethodType: 'credit_card' })).toEqual(
+      expect.objectContaining({ rule: 'twd-high-value', candidates: ['backup', 'primary'], failover: true }),
+    );
+    expect(manager.selectPaymentRoute({ amount: 1000, currency: 'TWD', paymentMethodType: 'credit_card' })).toEqual(
+      expect.objectContaining({ rule: undefined, candidates: ['primary', 'backup'] }),
+    );
+    expect(manager.selectPaymentRoute({ amount: 1000, currency: 'TWD', preferredGateway: 'backup' })).toEqual(expect.objectContaining({ candidates: ['backup'], failover: false }));
+  });
+
+  it('fails over to the next gateway when the primary is unavailable and records the decision', async () => {
+    primary.simulateOutage({ mode: 'throw' });
+
+    const result = await service.processPayment('pay_1', 'pm_1', new Money(1000, 'TWD'));
+
+    expect(result.success).toBe(true);
+    expect(result.gateway).toBe('backup');
+    expect(result.routing).toEqual(expect.objectContaining({ candidates: ['primary', 'backup'], gateway: 'backup', failedOver: true }));
+    expect(result.routing.attempts.map((attempt) => [attempt.gateway, attempt.gatewayError])).toEqual([
+      ['primary', true],
+      ['backup', false],
+    ]);
+    expect(paymentService.recordRoutingDecision).toHaveBeenCalledWith('pay_1', result.routing);
+  });
+
+  it('does not charge the backup when the primary times out after capturing the payment', async () => {
+    const createPayment = primary.createPayment.bind(primary);
+    jest.spyOn(primary as any, 'simulateProcessingDelay').mockResolvedValue(undefined);
+    jest.spyOn(primary, 'createPayment').mockImplementation(async (options) => {
+      await createPayment({ ...options, metadata: { ...options.metadata, __forceScenario: 'success' } });
+      throw new Error('Gateway request timed out');
+    });
+
+    const result = await service.processPayment('pay_1', 'pm_1', new Money(1000, 'TWD'));
+
+    expect(result.success).toBe(true);
+    expect(result.gateway).toBe('primary');
+    expect(result.transactionId).toEqual(expect.any(String));
+    expect(backup.createPayment).not.toHaveBeenCalled();
+    expect(result.routing).toEqual(expect.objectContaining({ gateway: 'primary', failedOver: false }));
+    expect(result.routing.attempts).toEqual([expect.objectContaining({ gateway: 'primary', success: true, transactionId: result.transactionId })]);
+  });
+
+  it('does not fail over on a timeout when the primary cannot confirm nothing was captured', async () => {
+    primary.simulateOutage({ errorCode: 'GATEWAY_TIMEOUT' });
+    jest.spyOn(primary, 'listTransactions').mockRejectedValue(new Error('Gateway request timed out'));
+
+    const result = await service.processPayment('pay_1', 'pm_1', new Money(1000, 'TWD'));
+
+    expect(result).toEqual(expect.objectContaining({ success: false, errorCode: 'GATEWAY_TIMEOUT', isRetriable: true }));
+    expect(result.routing.attempts).toHaveLength(1);
+    expect(backup.createPayment).not.toHaveBeenCalled();
+  });
+
+  it('does not fail over on a card decline', async () => {
+    jest.spyOn(primary, 'createPayment').mockResolvedValue({
+      success: false,
+      paymentId: 'pr_1',
+      status: PaymentStatus.FAILED,
+      amount: 1000,
+      currency: 'TWD',
+      errorCode: 'CARD_DECLINED',
+      errorMessage: 'Card was declined',
+      gatewayResponse: { code: 'CARD_DECLINED' },
+    });
+
+    const result = await service.processPayment('pay_1', 'pm_1', new Money(1000, 'TWD'));
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('CARD_DECLINED');
+    expect(result.routing.attempts).toHaveLength(1);
+    expect(backup.createPayment).not.toHaveBeenCalled();
+    expect(manager.getGatewayHealth('primary')).toEqual(expect.objectContaining({ state: 'CLOSED', failures: 0 }));
+  });
+
+  it('opens the circuit after the error-rate threshold and skips the gateway until it recovers', async () => {
+    let clock = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => clock);
+    primary.simulateOutage({ errorCode: 'GATEWAY_TIMEOUT' });
+
+    for (let i = 0; i < 3; i++) {
+      await service.processPayment(`pay_${i}`, 'pm_1', new Money(1000, 'TWD'));
+    }
+    expect(manager.getGatewayHealth('primary')).toEqual(expect.objectContaining({ state: 'OPEN', requests: 3, failures: 3 }));
+
+    const skippedResult = await service.processPayment('pay_skip', 'pm_1', new Money(1000, 'TWD'));
+    expect(skippedResult.routing).toEqual(expect.objectContaining({ candidates: ['backup'], skipped: ['primary'], failedOver: false }));
+
+    // 斷路時間過後放行一筆試探請求，成功即恢復
+    primary.endOutage();
+    clock += routingConf.circuitBreaker.openMs;
+    jest.spyOn(primary, 'createPayment').mockResolvedValue(succeeded('pr_ok', 1000));
+    expect(manager.getGatewayHealth('primary').state).toBe('HALF_OPEN');
+
+    const recovered = await service.processPayment('pay_probe', 'pm_1', new Money(1000, 'TWD'));
+    expect(recovered.gateway).toBe('primary');
+    expect(manager.getGatewayHealth('primary').state).toBe('CLOSED');
+  });
+
+  it('returns a retriable failure when every gateway circuit is open', async () => {
+    for (const name of ['primary', 'backup']) {
+      for (let i = 0; i < 3; i++) {
+        (manager as any).breakers.get(name).record(true);
+      }
+    }
+
+    const result = await service.processPayment('pay_1', 'pm_1', new Money(1000, 'TWD'));
+
+    expect(result).toEqual(expect.objectContaining({ success: false, errorCode: 'NO_AVAILABLE_GATEWAY', isRetriable: true }));
+    expect(result.routing.skipped).toEqual(['primary', 'backup']);
+  });
+});
@@ -0,0 +1,498 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfService } from '@myapp/conf';
+import { CustomValidator } from '@xxxhand/app-common';
+import { DomainEventBus, DomainEventMessage } from '../events/domain-event-bus.service';
+import { PaymentGatewayManager } from '../payment/payment-gateway-manager.service';
+import { SubscriptionService } from '../subscription.service';
+import { SubscriptionRepository } from '../../../infra/repositories/subscription.repository';
+import { BillingPlanRepository } from '../../../infra/repositories/billing-plan.repository';
+import { PaymentRepository } from '../../../infra/repositories/payment.repository';
+import { PaymentMethodRepository } from '../../../infra/repositories/payment-method.repository';
+import { CustomerRepository } from '../../../infra/repositories/customer.repository';
+import { SubscriptionEntity } from '../../entities/subscription.entity';
+import { PaymentEntity } from '../../entities/payment.entity';
+import { PaymentMethodEntity } from '../../entities/payment-method.entity';
+import { BillingCycle, PaymentFailureCategory, PaymentMethodType, PeriodOrderStatus, SubscriptionStatus } from '../../enums/codes.const';
+import { BillingCycleVO } from '../../value-objects/billing-cycle';
+import { ECPayCallbackParams, PeriodActionType, PeriodType } from '../../interfaces/payment/ecpay.interface';
+
+/** 閘道連續授權失敗達此次數即停止扣款（綠界規則） */
+const MAX_CONSECUTIVE_FAILURES = 6;
+
+/** 閘道允許的最大執行次數，視為不限期 */
+const MAX_EXEC_TIMES: Record<PeriodType, number> = {
+  [PeriodType.DAY]: 999,
+  [PeriodType.MONTH]: 99,
+  [PeriodType.YEAR]: 9,
+};
+
+/** 進入這些狀態時停用閘道的定期定額 */
+const STOPPING_STATUSES = [SubscriptionStatus.PAUSED, SubscriptionStatus.CANCELED, SubscriptionStatus.EXPIRED, SubscriptionStatus.REFUNDED];
+
+/** 仍會由閘道扣款的委託狀態 */
+const OPEN_ORDER_STATUSES = [PeriodOrderStatus.PENDING, PeriodOrderStatus.ACTIVE];
+
+/** 可套用扣款結果的訂閱狀態 */
+const BILLABLE_STATUSES = [SubscriptionStatus.PENDING, SubscriptionStatus.ACTIVE, SubscriptionStatus.GRACE_PERIOD, SubscriptionStatus.RETRY, SubscriptionStatus.PAST_DUE];
+
+/**
+ * 定期定額週期參數
+ */
+export interface PeriodSchedule {
+  periodType: PeriodType;
+  frequency: number;
+  execTimes: number;
+}
+
+/**
+ * 訂閱的閘道定期定額委託，保存於 subscription.metadata.periodOrder
+ */
+export interface PeriodOrderInfo {
+  gateway: string;
+  merchantTradeNo: string;
+  status: PeriodOrderStatus;
+  /** 建立委託時的方案，方案變更後需重新建立 */
+  planId: string;
+  periodType: PeriodType;
+  frequency: number;
+  execTimes: number;
+  periodAmount: number;
+  currency: string;
+  totalSuccessTimes: number;
+  consecutiveFailures: number;
+  /** 客戶完成首次授權的付款頁 */
+  redirect?: { actionUrl: string; method: string; formParams: Record<string, any> };
+  createdAt: Date;
+  activatedAt?: Date;
+  endedAt?: Date;
+  endReason?: string;
+}
+
+export interface CreatePeriodSubscriptionParams {
+  customerId: string;
+  planId: string;
+  /** 未指定時使用方案的 periodBillingGateway */
+  gateway?: string;
+  returnUrl?: string;
+  cancelUrl?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * 將計費週期對應為閘道定期定額參數
+ * 執行次數取閘道上限，訂閱結束時由系統停用
+ */
+export function toPeriodSchedule(cycle: BillingCycleVO): PeriodSchedule {
+  const schedule = (periodType: PeriodType, frequency: number): PeriodSchedule => ({ periodType, frequency, execTimes: MAX_EXEC_TIMES[periodType] });
+
+  switch (cycle.type) {
+    case BillingCycle.DAILY: {
+      const days = cycle.intervalDays || 1;
+      if (days > 365) {
+        throw new Error(`Billing cycle of ${days} days cannot be billed by period orders`);
+      }
+      return schedule(PeriodType.DAY, days);
+    }
+    case BillingCycle.WEEKLY:
+      return schedule(PeriodType.DAY, 7);
+    case BillingCycle.MONTHLY:
+      return schedule(PeriodType.MONTH, 1);
+    case BillingCycle.QUARTERLY:
+      return schedule(PeriodType.MONTH, 3);
+    case BillingCycle.YEARLY:
+      return schedule(PeriodType.YEAR, 1);
+    default:
+      throw new Error(`Billing cycle ${cycle.type} cannot be billed by period orders`);
+  }
+}
+
+/**
+ * 訂閱是否由閘道定期定額扣款（不經系統排程計費）
+ */
+export function isBilledByPeriodOrder(subscription: SubscriptionEntity): boolean {
+  return !!subscription.metadata?.periodOrder;
+}
+
+/**
+ * 閘道定期定額訂閱服務
+ * 客戶於閘道付款頁完成首次授權後，由閘道依週期扣款並通知每期結果；
+ * 系統依通知記錄支付與推進計費期間，暫停、取消與方案變更時停用或重新建立委託
+ */
+@Injectable()
+export class PeriodBillingService implements OnModuleInit {
+  private readonly logger = new Logger(PeriodBillingService.name);
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly subscriptionRepository: SubscriptionRepository,
+    private readonly billingPlanRepository: BillingPlanRepository,
+    private readonly paymentRepository: PaymentRepository,
+    private readonly paymentMethodRepository: PaymentMethodRepository,
+    private readonly customerRepository: CustomerRepository,
+    private readonly gatewayManager: PaymentGatewayManager,
+    private readonly subscriptionService: SubscriptionService,
+    private readonly eventBus: DomainEventBus,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.subscribe('subscription.status.changed', 'period-orders', (message) => this.onStatusChanged(message));
+    this.eventBus.subscribe('subscription.plan.changed', 'period-orders', (message) => this.onPlanChanged(message));
+  }
+
+  /**
+   * 建立由閘道定期定額扣款的訂閱
+   * 訂閱維持 PENDING，客戶完成首次授權後啟用
+   */
+  public async createSubscription(params: CreatePeriodSubscriptionParams, at: Date = new Date()): Promise<{ subscription: SubscriptionEntity; periodOrder: PeriodOrderInfo }> {
+    if (!CustomValidator.nonEmptyString(params.customerId)) {
+      throw new Error('Customer ID is required');
+    }
+    const customer = await this.customerRepository.findById(params.customerId);
+    if (!customer) {
+      throw new Error(`Customer ${params.customerId} not found`);
+    }
+
+    const plan = await this.billingPlanRepository.findByPlanId(params.planId);
+    if (!plan || !plan.isAvailable()) {
+      throw new Error(`Plan ${params.planId} not found`);
+    }
+
+    const gateway = params.gateway || plan.metadata.periodBillingGateway;
+    if (!gateway || !this.gatewayManager.supportsPeriodPayments(gateway)) {
+      throw new Error(`Plan ${params.planId} is not billed by gateway period orders`);
+    }
+    toPeriodSchedule(plan.billingCycle);
+
+    // 卡片資料由閘道保管，首次授權成功後啟用
+    const paymentMethod = new PaymentMethodEntity(params.customerId, PaymentMethodType.CREDIT_CARD, `${gateway} period order`);
+    paymentMethod.deactivate();
+    paymentMethod.updateMetadata({ gateway, periodOrder: true });
+    const savedPaymentMethod = await this.paymentMethodRepository.save(paymentMethod);
+
+    const subscription = new SubscriptionEntity(params.customerId, plan.productId, plan.planId, savedPaymentMethod.id, plan.basePrice, plan.billingCycle);
+    if (params.metadata) {
+      subscription.updateMetadata(params.metadata);
+    }
+    const saved = await this.subscriptionRepository.save(subscription);
+
+    const periodOrder = await this.registerPeriodOrder(saved, gateway, params, at);
+    return { subscription: saved, periodOrder };
+  }
+
+  /**
+   * 查詢訂閱的定期定額委託
+   */
+  public async getPeriodOrder(subscriptionId: string): Promise<PeriodOrderInfo | undefined> {
+    const subscription = await this.subscriptionRepository.findById(subscriptionId);
+    if (!subscription) {
+      throw new Error(`Subscription with ID ${subscriptionId} not found`);
+    }
+    return subscription.metadata.periodOrder;
+  }
+
+  /**
+   * 驗證並處理閘道的定期定額授權通知
+   */
+  public async handlePeriodCallback(gatewayName: string, payload: any): Promise<PaymentEntity | undefined> {
+    const result = await this.gatewayManager.handleWebhook(gatewayName, payload);
+    if (!result.success) {
+      throw new Error(result.errorMessage || 'Invalid period callback');
+    }
+    return this.recordPeriodResult(result.data as ECPayCallbackParams);
+  }
+
+  /**
+   * 記錄一期授權結果
+   * 首期授權啟用訂閱並自授權日起算計費期間；其後每期成功推進期間、失敗累計失敗次數，
+   * 閘道停止扣款時訂閱進入寬限期。先以唯一鍵寫入本期支付領取執行，重複或並行的通知回傳已記錄的支付而不再推進期間
+   */
+  public async recordPeriodResult(params: ECPayCallbackParams, at: Date = new Date()): Promise<PaymentEntity | undefined> {
+    const subscription = await this.subscriptionRepository.findByPeriodOrderNo(params.MerchantTradeNo);
+    if (!subscription) {
+      return undefined;
+    }
+
+    const executionKey = this.executionKey(params);
+    const order = subscription.metadata.periodOrder as PeriodOrderInfo;
+    const amount = Number(params.Amount ?? params.amount ?? params.TradeAmt ?? order.periodAmount);
+    const payment = await this.claimExecution(subscription, order, params, executionKey, amount);
+    if (!payment) {
+      this.logger.log(`Period execution ${executionKey} already recorded`);
+      return this.paymentRepository.findByExternalTransactionId(executionKey);
+    }
+
+    const succeeded = Number(params.RtnCode) === 1;
+    const firstAuthorization = order.status === PeriodOrderStatus.PENDING;
+
+    if (!BILLABLE_STATUSES.includes(subscription.status) || !OPEN_ORDER_STATUSES.includes(order.status)) {
+      this.logger.warn(`Period execution ${executionKey} received for ${subscription.status} subscription ${subscription.id} with ${order.status} order`);
+      return this.settleExecution(payment, subscription, params, succeeded);
+    }
+
+    if (succeeded) {
+      order.totalSuccessTimes = Number(params.TotalSuccessTimes ?? order.totalSuccessTimes + 1);
+      order.consecutiveFailures = 0;
+      if (firstAuthorization) {
+        order.status = PeriodOrderStatus.ACTIVE;
+        order.activatedAt = at;
+        order.redirect = undefined;
+      }
+      if (order.totalSuccessTimes >= order.execTimes) {
+        order.status = PeriodOrderStatus.COMPLETED;
+        order.endedAt = at;
+        order.endReason = 'All period executions completed';
+        this.logger.warn(`Period order ${order.merchantTradeNo} of subscription ${subscription.id} completed all ${order.execTimes} executions`);
+      }
+    } else {
+      order.consecutiveFailures += 1;
+      if (firstAuthorization || order.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+        order.status = PeriodOrderStatus.STOPPED;
+        order.endedAt = at;
+        order.endReason = params.RtnMsg || 'Period authorization failed';
+      }
+    }
+    subscription.updateMetadata({ periodOrder: order });
+
+    if (firstAuthorization) {
+      if (succeeded) {
+        await this.activateWithFirstAuthorization(subscription, at);
+      } else {
+        await this.subscriptionRepository.save(subscription);
+      }
+    } else {
+      if (order.status === PeriodOrderStatus.STOPPED) {
+        subscription.enterGracePeriod();
+      }
+      await this.subscriptionRepository.save(subscription);
+      if (succeeded) {
+        // 本期扣款支付推進後的新期間
+        const billed = await this.subscriptionService.recordSuccessfulBilling(subscription.id);
+        return this.settleExecution(payment, billed || subscription, params, succeeded);
+      }
+      await this.subscriptionService.recordFailedBilling(subscription.id);
+    }
+
+    return this.settleExecution(payment, subscription, params, succeeded);
+  }
+
+  /**
+   * 一期授權的去重鍵
+   * 優先使用閘道的授權序號或交易編號，皆未提供時以授權結果、已成功期數與處理時間組成
+   */
+  private executionKey(params: ECPayCallbackParams): string {
+    // 首期由 ReturnURL 通知（小寫欄位），其後由 PeriodReturnURL 通知
+    const gwsr = params.Gwsr ?? params.gwsr;
+    if (gwsr || params.TradeNo) {
+      return `${params.MerchantTradeNo}:${gwsr || params.TradeNo}`;
+    }
+    const processDate = params.ProcessDate || params.process_date || params.PaymentDate;
+    return `${params.MerchantTradeNo}:${Number(params.RtnCode) === 1 ? 'paid' : 'failed'}:${params.TotalSuccessTimes ?? 0}:${processDate}`;
+  }
+
+  /**
+   * 停用訂閱的定期定額
+   * 尚未授權的委託只在本地標記
+   */
+  public async cancelPeriodOrder(subscriptionId: string, reason: string, at: Date = new Date()): Promise<PeriodOrderInfo | undefined> {
+    const subscription = await this.subscriptionRepository.findById(subscriptionId);
+    const order = subscription?.metadata.periodOrder as PeriodOrderInfo;
+    if (!order || !OPEN_ORDER_STATUSES.includes(order.status)) {
+      return order;
+    }
+
+    if (order.status === PeriodOrderStatus.ACTIVE) {
+      const result = await this.gatewayManager.periodAction(order.gateway, { merchantTradeNo: order.merchantTradeNo, action: PeriodActionType.CANCEL });
+      if (!result.success) {
+        throw new Error(`Failed to cancel period order ${order.merchantTradeNo}: ${result.rtnMsg || result.errorMessage}`);
+      }
+    }
+
+    order.status = PeriodOrderStatus.CANCELED;
+    order.endedAt = at;
+    order.endReason = reason;
+    order.redirect = undefined;
+    subscription.updateMetadata({ periodOrder: order });
+    await this.subscriptionRepository.save(subscription);
+
+    this.logger.log(`Period order ${order.merchantTradeNo} of subscription ${subscriptionId} canceled: ${reason}`);
+    return order;
+  }
+
+  /**
+   * 以訂閱目前的方案與金額重新建立定期定額，舊委託先停用
+   * 綠界不支援變更金額或暫停，恢復訂閱、變更方案或閘道停止扣款後需客戶重新授權
+   */
+  public async renewPeriodOrder(subscriptionId: string, urls: { returnUrl?: string; cancelUrl?: string } = {}, at: Date = new Date()): Promise<PeriodOrderInfo> {
+    const subscription = await this.subscriptionRepository.findById(subscriptionId);
+    if (!subscription) {
+      throw new Error(`Subscription with ID ${subscriptionId} not found`);
+    }
+    const order = subscription.metadata.periodOrder as PeriodOrderInfo;
+    if (!order) {
+      throw new Error(`Subscription ${subscriptionId} is not billed by a period order`);
+    }
+    if (!BILLABLE_STATUSES.includes(subscription.status)) {
+      throw new Error(`Cannot renew period order of ${subscription.status} subscription`);
+    }
+
+    await this.cancelPeriodOrder(subscriptionId, 'Replaced by a new period order', at);
+    const current = await this.subscriptionRepository.findById(subscriptionId);
+    return this.registerPeriodOrder(current, order.gateway, urls, at);
+  }
+
+  /**
+   * 向閘道建立定期定額委託並保存於訂閱
+   */
+  private async registerPeriodOrder(subscription: SubscriptionEntity, gateway: string, urls: { returnUrl?: string; cancelUrl?: string }, at: Date): Promise<PeriodOrderInfo> {
+    const schedule = toPeriodSchedule(subscription.billingCycle);
+    const amount = subscription.pricing.baseAmount;
+
+    const result = await this.gatewayManager.createPeriodPayment(gateway, {
+      amount: amount.amount,
+      currency: amount.currency,
+      customerId: subscription.customerId,
+      description: `Subscription ${subscription.subscriptionId}`,
+      paymentMethodType: 'credit_card',
+      returnUrl: urls.returnUrl,
+      cancelUrl: urls.cancelUrl,
+      metadata: { subscriptionId: subscription.id },
+      ...schedule,
+      periodAmount: amount.amount,
+      periodReturnURL: this.confService.getConf().ecpay.periodReturnURL,
+    });
+    if (!result.success) {
+      throw new Error(`Failed to create period order: ${result.errorMessage || 'Unknown error'}`);
+    }
+
+    const order: PeriodOrderInfo = {
+      gateway,
+      merchantTradeNo: result.paymentId,
+      status: PeriodOrderStatus.PENDING,
+      planId: subscription.planId,
+      ...schedule,
+      periodAmount: amount.amount,
+      currency: amount.currency,
+      totalSuccessTimes: 0,
+      consecutiveFailures: 0,
+      redirect: result.gatewayResponse
+        ? { actionUrl: result.gatewayResponse.actionUrl, method: result.gatewayResponse.method, formParams: result.gatewayResponse.formParams }
+        : undefined,
+      createdAt: at,
+    };
+    subscription.updateMetadata({ periodOrder: order });
+    await this.subscriptionRepository.save(subscription);
+
+    const paymentMethod = await this.paymentMethodRepository.findById(subscription.paymentMethodId);
+    if (paymentMethod) {
+      paymentMethod.setExternalId(order.merchantTradeNo);
+      await this.paymentMethodRepository.save(paymentMethod);
+    }
+
+    this.logger.log(`Period order ${order.merchantTradeNo} registered for subscription ${subscription.id}`);
+    return order;
+  }
+
+  /**
+   * 首期授權成功：啟用訂閱（或自寬限期恢復），計費期間自授權日起算
+   */
+  private async activateWithFirstAuthorization(subscription: SubscriptionEntity, at: Date): Promise<void> {
+    if (subscription.status === SubscriptionStatus.PENDING) {
+      subscription.activate({ reason: 'Period order authorized', metadata: { paymentSuccessful: true }, timestamp: at });
+    } else if (subscription.status !== SubscriptionStatus.ACTIVE) {
+      subscription.transitionToStatus(SubscriptionStatus.ACTIVE, { reason: 'Period order re-authorized', metadata: { paymentResolved: true }, timestamp: at });
+      subscription.resetRetryState();
+    }
+
+    const periodEnd = subscription.billingCycle.calculateNextBillingDate(at);
+    subscription.updateBillingPeriod(at, periodEnd, periodEnd);
+    await this.subscriptionRepository.save(subscription);
+
+    const paymentMethod = await this.paymentMethodRepository.findById(subscription.paymentMethodId);
+    if (paymentMethod && !paymentMethod.isAvailable()) {
+      paymentMethod.activate();
+      await this.paymentMethodRepository.save(paymentMethod);
+    }
+  }
+
+  /**
+   * 以執行鍵寫入本期支付，同一期已寫入時回傳 undefined
+   */
+  private async claimExecution(
+    subscription: SubscriptionEntity,
+    order: PeriodOrderInfo,
+    params: ECPayCallbackParams,
+    executionKey: string,
+    amount: number,
+  ): Promise<PaymentEntity | undefined> {
+    const payment = new PaymentEntity(
+      subscription.id,
+      subscription.customerId,
+      subscription.paymentMethodId,
+      amount,
+      subscription.currentPeriodStart,
+      subscription.currentPeriodEnd,
+      order.currency,
+    );
+    payment.providerPaymentId = order.merchantTradeNo;
+    payment.externalTransactionId = executionKey;
+    payment.description = `Period execution of ${order.merchantTradeNo}`;
+    payment.metadata = {
+      gateway: order.gateway,
+      periodOrderNo: order.merchantTradeNo,
+      gwsr: params.Gwsr ?? params.gwsr,
+      processDate: params.ProcessDate ?? params.process_date,
+      authCode: params.AuthCode ?? params.auth_code,
+      totalSuccessTimes: params.TotalSuccessTimes,
+    };
+    return this.paymentRepository.insert(payment);
+  }
+
+  /**
+   * 記錄本期授權結果，支付期間取套用結果後的訂閱期間
+   */
+  private async settleExecution(payment: PaymentEntity, subscription: SubscriptionEntity, params: ECPayCallbackParams, succeeded: boolean): Promise<PaymentEntity> {
+    payment.billingPeriodStart = subscription.currentPeriodStart;
+    payment.billingPeriodEnd = subscription.currentPeriodEnd;
+    payment.startAttempt();
+    if (succeeded) {
+      const gwsr = params.Gwsr ?? params.gwsr;
+      payment.markSucceeded(gwsr !== undefined ? String(gwsr) : params.TradeNo);
+    } else {
+      // 由閘道依週期重新授權，本地不重試
+      payment.markAsFailed({
+        errorMessage: params.RtnMsg || 'Period authorization failed',
+        errorCode: `PERIOD_${params.RtnCode}`,
+        category: PaymentFailureCategory.NON_RETRIABLE,
+        isRetriable: false,
+      });
+    }
+    return this.paymentRepository.save(payment);
+  }
+
+  private async onStatusChanged(message: DomainEventMessage): Promise<void> {
+    const subscription = await this.subscriptionRepository.findById(message.aggregateId);
+    const order = subscription?.metadata.periodOrder as PeriodOrderInfo;
+    if (!order) {
+      return;
+    }
+
+    const { fromStatus, toStatus, reason } = message.payload;
+    if (STOPPING_STATUSES.includes(toStatus)) {
+      await this.cancelPeriodOrder(subscription.id, reason || `Subscription ${String(toStatus).toLowerCase()}`);
+      return;
+    }
+    // 重送的事件已建立過新委託時略過
+    if (fromStatus === SubscriptionStatus.PAUSED && toStatus === SubscriptionStatus.ACTIVE && !OPEN_ORDER_STATUSES.includes(order.status)) {
+      await this.renewPeriodOrder(subscription.id);
+    }
+  }
+
+  private async onPlanChanged(message: DomainEventMessage): Promise<void> {
+    const subscription = await this.subscriptionRepository.findById(message.aggregateId);
+    const order = subscription?.metadata.periodOrder as PeriodOrderInfo;
+    if (!order || order.planId === subscription.planId || !BILLABLE_STATUSES.includes(subscription.status)) {
+      return;
+    }
+    await this.renewPeriodOrder(subscription.id);
+  }
+}
@@ -0,0 +1,243 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfService } from '@myapp/conf';
+import { PeriodBillingService, PeriodOrderInfo, toPeriodSchedule } from '../period-billing.service';
+import { PaymentGatewayManager } from '../../payment/payment-gateway-manager.service';
+import { MockPaymentGateway } from '../../payment/mock-payment-gateway.service';
+import { SubscriptionService } from '../../subscription.service';
+import { DomainEventBus } from '../../events/domain-event-bus.service';
+import { SubscriptionRepository } from '../../../../infra/repositories/subscription.repository';
+import { BillingPlanRepository } from '../../../../infra/repositories/billing-plan.repository';
+import { PaymentRepository } from '../../../../infra/repositories/payment.repository';
+import { PaymentMethodRepository } from '../../../../infra/repositories/payment-method.repository';
+import { CustomerRepository } from '../../../../infra/repositories/customer.repository';
+import { BillingPlanEntity, PaymentEntity, PaymentMethodEntity, SubscriptionEntity } from '../../../entities';
+import { PaymentMethodType as GatewayPaymentMethodType } from '../../../interfaces/payment/payment-gateway.interface';
+import { PeriodType } from '../../../interfaces/payment/ecpay.interface';
+import { BillingCycle, PaymentStatus, PeriodOrderStatus, SubscriptionStatus } from '../../../enums/codes.const';
+import { BillingCycleVO } from '../../../value-objects/billing-cycle';
+import { Money } from '../../../value-objects/money';
+
+describe('PeriodBillingService', () => {
+  const now = new Date(2026, 4, 1, 10);
+
+  let moduleRef: TestingModule;
+  let service: PeriodBillingService;
+  let gateway: MockPaymentGateway;
+  let plan: BillingPlanEntity;
+  let subscriptions: SubscriptionEntity[];
+  let payments: PaymentEntity[];
+  let paymentMethods: PaymentMethodEntity[];
+  let handlers: Record<string, (message: any) => Promise<void>>;
+
+  const subscriptionRepository = {
+    save: jest.fn(async (subscription: SubscriptionEntity) => {
+      if (subscription.isNew()) {
+        subscription.id = `sub_${subscriptions.length + 1}`;
+        subscriptions.push(subscription);
+      }
+      return subscription;
+    }),
+    findById: jest.fn(async (id: string) => subscriptions.find((s) => s.id === id)),
+    findByPeriodOrderNo: jest.fn(async (no: string) => subscriptions.find((s) => s.metadata.periodOrder?.merchantTradeNo === no)),
+  };
+  const paymentRepository = {
+    save: jest.fn(async (payment: PaymentEntity) => {
+      if (payment.isNew()) {
+        payment.id = `pay_${payments.length + 1}`;
+        payments.push(payment);
+      }
+      return payment;
+    }),
+    // 模擬 externalTransactionId 唯一索引
+    insert: jest.fn(async (payment: PaymentEntity) => {
+      if (payments.some((p) => p.externalTransactionId === payment.externalTransactionId)) {
+        return undefined;
+      }
+      return paymentRepository.save(payment);
+    }),
+    findByExternalTransactionId: jest.fn(async (key: string) => payments.find((p) => p.externalTransactionId === key)),
+  };
+  const paymentMethodRepository = {
+    save: jest.fn(async (pm: PaymentMethodEntity) => {
+      if (pm.isNew()) {
+        pm.id = `pm_${paymentMethods.length + 1}`;
+        paymentMethods.push(pm);
+      }
+      return pm;
+    }),
+    findById: jest.fn(async (id: string) => paymentMethods.find((pm) => pm.id === id)),
+  };
+  const subscriptionService = {
+    recordSuccessfulBilling: jest.fn(async (id: string) => {
+      const subscription = subscriptions.find((s) => s.id === id);
+      subscription.recordSuccessfulBilling();
+      return subscription;
+    }),
+    recordFailedBilling: jest.fn(async (id: string) => {
+      const subscription = subscriptions.find((s) => s.id === id);
+      subscription.recordFailedBilling();
+      return subscription;
+    }),
+  };
+
+  const orderOf = (subscription: SubscriptionEntity) => subscription.metadata.periodOrder as PeriodOrderInfo;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    subscriptions = [];
+    payments = [];
+    paymentMethods = [];
+    handlers = {};
+    plan = new BillingPlanEntity('prod_1', 'Basic', new Money(999, 'TWD'), new BillingCycleVO(BillingCycle.MONTHLY));
+    plan.planId = 'plan_basic';
+    plan.publish(new Date(2026, 0, 1));
+    plan.updateMetadata({ periodBillingGateway: 'mock' });
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        PeriodBillingService,
+        PaymentGatewayManager,
+        MockPaymentGateway,
+        { provide: ConfService, useValue: { getConf: () => ({ ecpay: { periodReturnURL: 'https://api.example.com/api/webhooks/ecpay/period' } }) } },
+        { provide: SubscriptionRepository, useValue: subscriptionRepository },
+        { provide: BillingPlanRepository, useValue: { findByPlanId: jest.fn(async (planId: string) => (planId === plan.planId ? plan : null)) } },
+        { provide: PaymentRepository, useValue: paymentRepository },
+        { provide: PaymentMethodRepository, useValue: paymentMethodRepository },
+        { provide: CustomerRepository, useValue: { findById: jest.fn(async (id: string) => (id === 'cus_1' ? { id } : undefined)) } },
+        { provide: SubscriptionService, useValue: subscriptionService },
+        { provide: DomainEventBus, useValue: { subscribe: jest.fn((type, name, handler) => (handlers[type] = handler)) } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PeriodBillingService);
+    gateway = moduleRef.get(MockPaymentGateway);
+    moduleRef.get(PaymentGatewayManager).registerGateway('mock', gateway, {
+      name: 'mock',
+      enabled: true,
+      testMode: true,
+      supportedCurrencies: ['TWD'],
+      supportedPaymentMethods: [GatewayPaymentMethodType.CREDIT_CARD],
+      processingFeeRate: 0.02,
+    });
+    service.onModuleInit();
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  const createAuthorizedSubscription = async () => {
+    const { subscription, periodOrder } = await service.createSubscription({ customerId: 'cus_1', planId: 'plan_basic' }, now);
+    await service.recordPeriodResult(gateway.simulatePeriodExecution(periodOrder.merchantTradeNo), now);
+    return subscription;
+  };
+
+  it('maps billing cycles to period order schedules', () => {
+    expect(toPeriodSchedule(new BillingCycleVO(BillingCycle.MONTHLY))).toEqual({ periodType: PeriodType.MONTH, frequency: 1, execTimes: 99 });
+    expect(toPeriodSchedule(new BillingCycleVO(BillingCycle.QUARTERLY))).toEqual({ periodType: PeriodType.MONTH, frequency: 3, execTimes: 99 });
+    expect(toPeriodSchedule(new BillingCycleVO(BillingCycle.WEEKLY))).toEqual({ periodType: PeriodType.DAY, frequency: 7, execTimes: 999 });
+    expect(toPeriodSchedule(new BillingCycleVO(BillingCycle.YEARLY))).toEqual({ periodType: PeriodType.YEAR, frequency: 1, execTimes: 9 });
+    expect(toPeriodSchedule(BillingCycleVO.custom(14))).toEqual({ periodType: PeriodType.DAY, frequency: 14, execTimes: 999 });
+    expect(() => toPeriodSchedule(BillingCycleVO.custom(400))).toThrow('cannot be billed by period orders');
+  });
+
+  it('creates a pending subscription and activates it on the first authorization', async () => {
+    const { subscription, periodOrder } = await service.createSubscription({ customerId: 'cus_1', planId: 'plan_basic' }, now);
+
+    expect(subscription.status).toBe(SubscriptionStatus.PENDING);
+    expect(periodOrder).toEqual(expect.objectContaining({ status: PeriodOrderStatus.PENDING, periodType: PeriodType.MONTH, frequency: 1, periodAmount: 999 }));
+    expect(periodOrder.redirect.formParams.PeriodReturnURL).toBe('https://api.example.com/api/webhooks/ecpay/period');
+    expect(paymentMethods[0].externalId).toBe(periodOrder.merchantTradeNo);
+    expect(paymentMethods[0].isAvailable()).toBe(false);
+
+    const payment = await service.recordPeriodResult(gateway.simulatePeriodExecution(periodOrder.merchantTradeNo), now);
+
+    expect(subscription.status).toBe(SubscriptionStatus.ACTIVE);
+    expect(subscription.currentPeriodStart).toEqual(now);
+    expect(orderOf(subscription)).toEqual(expect.objectContaining({ status: PeriodOrderStatus.ACTIVE, totalSuccessTimes: 1, redirect: undefined }));
+    expect(payment).toEqual(expect.objectContaining({ status: PaymentStatus.SUCCEEDED, amount: 999, providerPaymentId: periodOrder.merchantTradeNo }));
+    expect(paymentMethods[0].isAvailable()).toBe(true);
+    expect(subscriptionService.recordSuccessfulBilling).not.toHaveBeenCalled();
+  });
+
+  it('advances the billing period on each renewal and ignores duplicate notifications', async () => {
+    const subscription = await createAuthorizedSubscription();
+    const firstPeriodEnd = subscription.currentPeriodEnd;
+
+    const renewal = gateway.simulatePeriodExecution(orderOf(subscription).merchantTradeNo);
+    const payment = await service.recordPeriodResult(renewal, now);
+    const duplicate = await service.recordPeriodResult(renewal, now);
+
+    expect(subscriptionService.recordSuccessfulBilling).toHaveBeenCalledTimes(1);
+    expect(subscription.currentPeriodStart).toEqual(firstPeriodEnd);
+    expect(duplicate).toBe(payment);
+    expect(payments).toHaveLength(2);
+    expect(orderOf(subscription).totalSuccessTimes).toBe(2);
+  });
+
+  it('advances the billing period once when the same execution is delivered concurrently', async () => {
+    const subscription = await createAuthorizedSubscription();
+    const firstPeriodEnd = subscription.currentPeriodEnd;
+
+    const renewal = gateway.simulatePeriodExecution(orderOf(subscription).merchantTradeNo);
+    const [payment, duplicate] = await Promise.all([service.recordPeriodResult(renewal, now), service.recordPeriodResult(renewal, now)]);
+
+    expect(subscriptionService.recordSuccessfulBilling).toHaveBeenCalledTimes(1);
+    expect(subscription.currentPeriodStart).toEqual(firstPeriodEnd);
+    expect(duplicate).toBe(payment);
+    expect(payment.status).toBe(PaymentStatus.SUCCEEDED);
+    expect(payment.billingPeriodStart).toEqual(firstPeriodEnd);
+    expect(payments).toHaveLength(2);
+  });
+
+  it('records failed renewals and enters the grace period once the gateway stops the order', async () => {
+    const subscription = await createAuthorizedSubscription();
+    const merchantTradeNo = orderOf(subscription).merchantTradeNo;
+
+    const failed = await service.recordPeriodResult(gateway.simulatePeriodExecution(merchantTradeNo, { success: false }), now);
+
+    expect(failed.status).toBe(PaymentStatus.FAILED);
+    expect(subscriptionService.recordFailedBilling).toHaveBeenCalledWith(subscription.id);
+    expect(subscription.status).toBe(SubscriptionStatus.ACTIVE);
+
+    for (let i = 1; i < 6; i++) {
+      await service.recordPeriodResult(gateway.simulatePeriodExecution(merchantTradeNo, { success: false }), now);
+    }
+
+    expect(orderOf(subscription)).toEqual(expect.objectContaining({ status: PeriodOrderStatus.STOPPED, consecutiveFailures: 6 }));
+    expect(subscription.status).toBe(SubscriptionStatus.GRACE_PERIOD);
+  });
+
+  it('cancels the gateway order when the subscription is canceled', async () => {
+    const subscription = await createAuthorizedSubscription();
+    const merchantTradeNo = orderOf(subscription).merchantTradeNo;
+
+    await handlers['subscription.status.changed']({
+      aggregateId: subscription.id,
+      payload: { fromStatus: SubscriptionStatus.ACTIVE, toStatus: SubscriptionStatus.CANCELED, reason: 'Cancelled: USER_REQUESTED' },
+    });
+
+    expect(orderOf(subscription)).toEqual(expect.objectContaining({ status: PeriodOrderStatus.CANCELED, endReason: 'Cancelled: USER_REQUESTED' }));
+    expect(gateway.getMockData().periodOrders[0].status).toBe('canceled');
+    expect(() => gateway.simulatePeriodExecution(merchantTradeNo)).toThrow('is not active');
+  });
+
+  it('replaces the gateway order after a plan change', async () => {
+    const subscription = await createAuthorizedSubscription();
+    const previous = orderOf(subscription).merchantTradeNo;
+    subscription.planId = 'plan_pro';
+    subscription.applyPlanPricing(new Money(1999, 'TWD'), new BillingCycleVO(BillingCycle.MONTHLY));
+
+    await handlers['subscription.plan.changed']({ aggregateId: subscription.id, payload: { oldPlanId: 'plan_basic', newPlanId: 'plan_pro' } });
+
+    expect(orderOf(subscription)).toEqual(expect.objectContaining({ status: PeriodOrderStatus.PENDING, planId: 'plan_pro', periodAmount: 1999 }));
+    expect(orderOf(subscription).merchantTradeNo).not.toBe(previous);
+    expect(gateway.getMockData().periodOrders.find((order) => order.merchantTradeNo === previous).status).toBe('canceled');
+  });
+
+  it('rejects plans that are not billed by period orders', async () => {
+    plan.updateMetadata({ periodBillingGateway: undefined });
+
+    await expect(service.createSubscription({ customerId: 'cus_1', planId: 'plan_basic' }, now)).rejects.toThrow('is not billed by gateway period orders');
+  });
+});
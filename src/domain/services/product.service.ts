@@ -1,4 +1,8 @@
 import { Injectable } from '@nestjs/common';
+import { ProrationEngine } from './proration/proration.engine';
+import { Money } from '../value-objects/money';
+import { BillingCycleVO } from '../value-objects/billing-cycle';
+import { BillingCycle } from '../enums/codes.const';
 
 export interface Product {
   productId: string;
@@ -93,6 +97,8 @@ export interface UpgradeOption {
  */
 @Injectable()
 export class ProductService {
+  constructor(private readonly prorationEngine: ProrationEngine) {}
+
   private readonly pricingStrategy: PricingStrategy = {
     discountPercentage: 20,
     minimumPrice: 100,
@@ -359,23 +365,36 @@ export class ProductService {
     }
 
     const upgradeCost = toProduct.pricing.amount - fromProduct.pricing.amount;
-    let prorationCredit = 0;
-
-    if (prorationDays && prorationDays > 0) {
-      const daysInBilling = fromProduct.billing.interval === 'MONTHLY' ? 30 : 365;
-      prorationCredit = Math.round((fromProduct.pricing.amount / daysInBilling) * prorationDays);
+    if (!prorationDays || prorationDays <= 0) {
+      return { upgradeCost, prorationCredit: 0, totalCost: Math.max(0, upgradeCost), currency: toProduct.pricing.currency };
     }
 
-    const totalCost = Math.max(0, upgradeCost - prorationCredit);
+    // 以剩餘天數回推當期，交由按比例計費引擎計算
+    const dayMs = 24 * 60 * 60 * 1000;
+    const fromCycle = this.toBillingCycle(fromProduct);
+    const totalDays = fromCycle.getTotalCycleDays();
+    const changeDate = new Date();
+    const periodEnd = new Date(changeDate.getTime() + (Math.min(prorationDays, totalDays) - 1) * dayMs);
+    const periodStart = new Date(periodEnd.getTime() - (totalDays - 1) * dayMs);
+    const breakdown = this.prorationEngine.calculate(
+      { planId: fromProduct.productId, amount: new Money(fromProduct.pricing.amount, fromProduct.pricing.currency), billingCycle: fromCycle },
+      { planId: toProduct.productId, amount: new Money(toProduct.pricing.amount, toProduct.pricing.currency), billingCycle: this.toBillingCycle(toProduct) },
+      { startDate: periodStart, endDate: periodEnd },
+      changeDate,
+    );
 
     return {
       upgradeCost,
-      prorationCredit,
-      totalCost,
+      prorationCredit: breakdown.unusedCredit,
+      totalCost: breakdown.immediateCharge,
       currency: toProduct.pricing.currency,
     };
   }
 
+  private toBillingCycle(product: Product): BillingCycleVO {
+    return new BillingCycleVO(product.billing.interval === 'YEARLY' ? BillingCycle.YEARLY : BillingCycle.MONTHLY);
+  }
+
   /**
    * 獲取產品分析數據 - New Enhanced Method
    */
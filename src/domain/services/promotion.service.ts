@@ -1,42 +1,57 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { PromotionEntity, PromotionChanges, PromotionConditions, PromotionDiscount, PromotionMetadata } from '../entities/promotion.entity';
+import { PromotionRedemptionEntity } from '../entities/promotion-redemption.entity';
+import { CouponCodeEntity } from '../entities/coupon-code.entity';
+import { PromotionStatus } from '../enums/codes.const';
+import { Money } from '../value-objects/money';
+import { DiscountStage } from '../value-objects/discount-schedule';
+import { CouponCodeFormat, generateCouponCodes } from '../utils/coupon-code.util';
+import { PromotionRepository } from '../../infra/repositories/promotion.repository';
+import { PromotionRedemptionRepository } from '../../infra/repositories/promotion-redemption.repository';
+import { CouponCodeRepository, CouponCodeQuery } from '../../infra/repositories/coupon-code.repository';
+import { SubscriptionRepository } from '../../infra/repositories/subscription.repository';
+
+/** 單次產生券碼的上限 */
+export const MAX_COUPON_CODES_PER_BATCH = 10000;
+
+/** 產生券碼時與既有代碼碰撞的重試次數 */
+const COUPON_GENERATION_ATTEMPTS = 5;
 
-export interface Promotion {
+/**
+ * 建立優惠輸入
+ */
+export interface CreatePromotionInput {
   code: string;
   name: string;
-  description: string;
-  type: 'PERCENTAGE' | 'FIXED_AMOUNT' | 'FREE_TRIAL';
-  discount: {
-    type: 'PERCENTAGE' | 'FIXED_AMOUNT';
-    value: number;
-    applicablePeriod: 'FIRST_BILLING' | 'RECURRING' | 'ONE_TIME';
-  };
-  status: 'ACTIVE' | 'INACTIVE' | 'EXPIRED';
-  validFrom: string;
-  validUntil: string;
+  description?: string;
+  discount: PromotionDiscount;
+  validFrom: Date;
+  validUntil: Date;
   usageLimit?: number;
-  currentUsage: number;
-  conditions?: {
-    minimumAmount?: number;
-    applicableProducts?: string[];
-    customerSegments?: string[];
-    firstTimeCustomersOnly?: boolean;
-    maxUsagePerCustomer?: number;
-    eligibleTiers?: string[];
-    stackable?: boolean;
-  };
-  metadata?: {
-    campaign?: string;
-    source?: string;
-    priority?: number;
-    autoApply?: boolean;
-    tags?: string[];
-  };
-  performance?: {
-    conversionRate?: number;
-    totalRevenueLoss?: number;
-    averageOrderValue?: number;
-    customerRetention?: number;
-  };
+  conditions?: PromotionConditions;
+  metadata?: PromotionMetadata;
+}
+
+/**
+ * 產生券碼輸入
+ */
+export interface GenerateCouponCodesInput extends CouponCodeFormat {
+  count: number;
+}
+
+/**
+ * 驗證優惠碼請求
+ * code 可為優惠碼或一次性券碼；帶有 subscriptionId 時視為結帳，驗證通過即原子佔用使用額度、寫入兌換紀錄並將折扣排程套用到訂閱
+ */
+export interface ValidatePromotionInput {
+  code: string;
+  productId: string;
+  customerId: string;
+  orderAmount?: number;
+  subscriptionId?: string;
+  cycleNumber?: number;
+  currency?: string;
 }
 
 export interface PromotionAnalytics {
@@ -83,201 +98,181 @@ export interface PromotionCampaign {
  */
 @Injectable()
 export class PromotionService {
-  private readonly promotions: Promotion[] = [
-    {
-      code: 'SUMMER2024',
-      name: 'Summer Special 2024',
-      description: '夏季特惠：首月享8折優惠',
-      type: 'PERCENTAGE',
-      discount: {
-        type: 'PERCENTAGE',
-        value: 20,
-        applicablePeriod: 'FIRST_BILLING',
-      },
-      status: 'ACTIVE',
-      validFrom: '2024-06-01T00:00:00Z',
-      validUntil: '2024-08-31T23:59:59Z',
-      usageLimit: 1000,
-      currentUsage: 234,
-      conditions: {
-        minimumAmount: 500,
-        maxUsagePerCustomer: 1,
-        stackable: false,
-      },
-      metadata: {
-        campaign: 'summer-campaign',
-        source: 'email',
-        priority: 1,
-        autoApply: false,
-        tags: ['seasonal', 'email-marketing'],
-      },
-      performance: {
-        conversionRate: 0.25,
-        totalRevenueLoss: 15000,
-        averageOrderValue: 850,
-        customerRetention: 0.68,
-      },
-    },
-    {
-      code: 'WELCOME100',
-      name: 'New Customer Welcome',
-      description: '新客戶專享：立即折扣100元',
-      type: 'FIXED_AMOUNT',
-      discount: {
-        type: 'FIXED_AMOUNT',
-        value: 100,
-        applicablePeriod: 'FIRST_BILLING',
-      },
-      status: 'ACTIVE',
-      validFrom: '2024-01-01T00:00:00Z',
-      validUntil: new Date(Date.now() + 60 * 60 * 24 * 10 * 1000).toISOString(), // 10天後過期
-      usageLimit: 5000,
-      currentUsage: 1456,
-      conditions: {
-        firstTimeCustomersOnly: true,
-        maxUsagePerCustomer: 1,
-        stackable: true,
-      },
-      metadata: {
-        campaign: 'new-customer-acquisition',
-        source: 'website',
-        priority: 2,
-        autoApply: true,
-        tags: ['welcome', 'acquisition'],
-      },
-      performance: {
-        conversionRate: 0.42,
-        totalRevenueLoss: 145600,
-        averageOrderValue: 750,
-        customerRetention: 0.72,
-      },
-    },
-    {
-      code: 'PREMIUM_ONLY',
-      name: 'Premium Plan Discount',
-      description: 'Premium方案專屬優惠',
-      type: 'PERCENTAGE',
-      discount: {
-        type: 'PERCENTAGE',
-        value: 15,
-        applicablePeriod: 'FIRST_BILLING',
-      },
-      status: 'ACTIVE',
-      validFrom: '2024-01-01T00:00:00Z',
-      validUntil: '2024-12-31T23:59:59Z',
-      usageLimit: 500,
-      currentUsage: 123,
-      conditions: {
-        applicableProducts: ['prod_premium_monthly', 'prod_premium_yearly'],
-        eligibleTiers: ['premium'],
-        stackable: false,
-      },
-      metadata: {
-        campaign: 'premium-upsell',
-        source: 'in-app',
-        priority: 3,
-        autoApply: false,
-        tags: ['premium', 'upsell'],
-      },
-      performance: {
-        conversionRate: 0.18,
-        totalRevenueLoss: 18450,
-        averageOrderValue: 1200,
-        customerRetention: 0.85,
-      },
-    },
-    {
-      code: 'NEW_CUSTOMER_ONLY',
-      name: 'First Time Customer Special',
-      description: '首次訂閱專屬優惠',
-      type: 'PERCENTAGE',
-      discount: {
-        type: 'PERCENTAGE',
-        value: 30,
-        applicablePeriod: 'FIRST_BILLING',
-      },
-      status: 'ACTIVE',
-      validFrom: '2024-01-01T00:00:00Z',
-      validUntil: '2024-12-31T23:59:59Z',
-      usageLimit: 1000,
-      currentUsage: 567,
-      conditions: {
-        firstTimeCustomersOnly: true,
-        minimumAmount: 1000,
-        maxUsagePerCustomer: 1,
-        stackable: false,
-      },
-      metadata: {
-        campaign: 'first-time-special',
-        source: 'social-media',
-        priority: 1,
-        autoApply: false,
-        tags: ['first-time', 'social'],
-      },
-      performance: {
-        conversionRate: 0.35,
-        totalRevenueLoss: 85000,
-        averageOrderValue: 1500,
-        customerRetention: 0.78,
-      },
-    },
-    {
-      code: 'EXPIRED2023',
-      name: 'Expired Promotion',
-      description: '已過期的優惠碼',
-      type: 'PERCENTAGE',
-      discount: {
-        type: 'PERCENTAGE',
-        value: 25,
-        applicablePeriod: 'FIRST_BILLING',
-      },
-      status: 'EXPIRED',
-      validFrom: '2023-01-01T00:00:00Z',
-      validUntil: '2023-12-31T23:59:59Z',
-      usageLimit: 1000,
-      currentUsage: 1000,
-      conditions: {
-        stackable: false,
-      },
-      metadata: {
-        campaign: 'year-end-2023',
-        source: 'email',
-        priority: 2,
-        tags: ['expired', 'year-end'],
-      },
-      performance: {
-        conversionRate: 0.22,
-        totalRevenueLoss: 62500,
-        averageOrderValue: 900,
-        customerRetention: 0.65,
-      },
-    },
-  ];
+  private readonly logger = new Logger(PromotionService.name);
+
+  constructor(
+    private readonly promotionRepository: PromotionRepository,
+    private readonly redemptionRepository: PromotionRedemptionRepository,
+    private readonly couponCodeRepository: CouponCodeRepository,
+    private readonly subscriptionRepository: SubscriptionRepository,
+  ) {}
+
+  /**
+   * 建立優惠
+   */
+  public async createPromotion(input: CreatePromotionInput): Promise<PromotionEntity> {
+    if (input.validUntil <= input.validFrom) {
+      throw new Error('validUntil must be after validFrom');
+    }
+
+    if (await this.couponCodeRepository.findByCode(input.code)) {
+      throw new Error(`Promotion code ${input.code} already exists`);
+    }
+
+    const promotion = new PromotionEntity(input.code, input.name, input.discount, input.validFrom, input.validUntil);
+    // 排程不合法時直接拋出
+    promotion.getDiscountSchedule();
+    promotion.description = input.description || '';
+    promotion.usageLimit = input.usageLimit;
+    promotion.conditions = input.conditions;
+    promotion.metadata = input.metadata;
+
+    const saved = await this.promotionRepository.save(promotion);
+    if (!saved) {
+      throw new Error(`Promotion code ${input.code} already exists`);
+    }
+
+    this.logger.log(`Promotion ${saved.code} created`);
+    return saved;
+  }
+
+  /**
+   * 取得優惠
+   */
+  public async getPromotion(code: string): Promise<CustomDefinition.TNullable<PromotionEntity>> {
+    return this.promotionRepository.findByCode(code);
+  }
+
+  /**
+   * 更新優惠內容
+   */
+  public async updatePromotion(code: string, changes: PromotionChanges): Promise<CustomDefinition.TNullable<PromotionEntity>> {
+    const promotion = await this.promotionRepository.findByCode(code);
+    if (!promotion) {
+      return undefined;
+    }
+
+    promotion.update(changes);
+    if (promotion.validUntil <= promotion.validFrom) {
+      throw new Error('validUntil must be after validFrom');
+    }
+    promotion.getDiscountSchedule();
+
+    return this.promotionRepository.save(promotion);
+  }
+
+  /**
+   * 暫停優惠，暫停期間無法兌換
+   */
+  public async pausePromotion(code: string): Promise<CustomDefinition.TNullable<PromotionEntity>> {
+    return this.changeStatus(code, (promotion) => promotion.pause());
+  }
+
+  /**
+   * 恢復已暫停的優惠
+   */
+  public async resumePromotion(code: string): Promise<CustomDefinition.TNullable<PromotionEntity>> {
+    return this.changeStatus(code, (promotion) => promotion.resume());
+  }
+
+  /**
+   * 封存優惠，封存後不可再修改或兌換
+   */
+  public async archivePromotion(code: string): Promise<CustomDefinition.TNullable<PromotionEntity>> {
+    return this.changeStatus(code, (promotion) => promotion.archive());
+  }
+
+  private async changeStatus(code: string, apply: (promotion: PromotionEntity) => void): Promise<CustomDefinition.TNullable<PromotionEntity>> {
+    const promotion = await this.promotionRepository.findByCode(code);
+    if (!promotion) {
+      return undefined;
+    }
+
+    apply(promotion);
+    this.logger.log(`Promotion ${code} is now ${promotion.status}`);
+    return this.promotionRepository.save(promotion);
+  }
+
+  /**
+   * 查詢優惠的兌換紀錄
+   */
+  public async getRedemptions(code: string, customerId?: string): Promise<CustomDefinition.TNullable<PromotionRedemptionEntity[]>> {
+    const promotion = await this.promotionRepository.findByCode(code);
+    if (!promotion) {
+      return undefined;
+    }
+
+    return this.redemptionRepository.findByPromotionId(promotion.id, customerId);
+  }
+
+  /**
+   * 為優惠產生一批一次性券碼
+   * 與既有券碼或優惠碼重複的代碼會重新產生，回傳批次 ID 與實際產生數量
+   */
+  public async generateCouponCodes(code: string, input: GenerateCouponCodesInput): Promise<CustomDefinition.TNullable<{ batchId: string; requested: number; generated: number }>> {
+    const promotion = await this.promotionRepository.findByCode(code);
+    if (!promotion) {
+      return undefined;
+    }
+    if (promotion.status === PromotionStatus.ARCHIVED) {
+      throw new Error('Cannot generate coupon codes for an archived promotion');
+    }
+    if (input.count < 1 || input.count > MAX_COUPON_CODES_PER_BATCH) {
+      throw new Error(`Coupon code count must be between 1 and ${MAX_COUPON_CODES_PER_BATCH}`);
+    }
+
+    const batchId = `batch_${Date.now()}`;
+    let generated = 0;
+    for (let attempt = 0; attempt < COUPON_GENERATION_ATTEMPTS && generated < input.count; attempt++) {
+      const candidates = generateCouponCodes(input.count - generated, input);
+      const taken = new Set(await this.promotionRepository.findExistingCodes(candidates));
+      const coupons = candidates.filter((candidate) => !taken.has(candidate)).map((candidate) => new CouponCodeEntity(promotion.id, promotion.code, candidate, batchId));
+      generated += await this.couponCodeRepository.insertMany(coupons);
+    }
+
+    this.logger.log(`Generated ${generated}/${input.count} coupon codes for promotion ${code} (${batchId})`);
+    return { batchId, requested: input.count, generated };
+  }
+
+  /**
+   * 查詢優惠的券碼（供匯出）
+   */
+  public async getCouponCodes(code: string, query: CouponCodeQuery = {}): Promise<CustomDefinition.TNullable<CouponCodeEntity[]>> {
+    const promotion = await this.promotionRepository.findByCode(code);
+    if (!promotion) {
+      return undefined;
+    }
+
+    return this.couponCodeRepository.findByPromotionId(promotion.id, query);
+  }
 
   /**
    * 驗證優惠碼 - Enhanced with better business logic
+   * 結帳時（帶 subscriptionId）總使用上限與每位客戶上限皆以原子操作保證，併發結帳不會超用
    */
-  public async validatePromotion(request: { code: string; productId: string; customerId: string; orderAmount?: number }): Promise<{
+  public async validatePromotion(request: ValidatePromotionInput): Promise<{
     valid: boolean;
-    promotion?: Promotion;
+    promotion?: PromotionEntity;
     discount?: {
       type: string;
       value: number;
       calculatedAmount?: number;
       applicablePeriod: string;
+      schedule?: { stages: DiscountStage[]; totalCycles: number | null };
     };
     eligibility: {
       eligible: boolean;
       reasons: string[];
     };
+    redemption?: PromotionRedemptionEntity;
   }> {
-    const promotion = this.promotions.find((p) => p.code === request.code);
+    const { promotion, coupon } = await this.resolveCode(request.code);
 
     if (!promotion) {
       throw new Error('Promotion code not found');
     }
 
-    const eligibility = await this.checkEligibility(promotion, request);
+    const eligibility = await this.checkEligibility(promotion, request, coupon);
 
     if (!eligibility.eligible) {
       return {
@@ -287,41 +282,178 @@ export class PromotionService {
       };
     }
 
-    // 計算折扣金額
+    // 計算首期折扣金額，後續各期依排程套用
+    const schedule = promotion.getDiscountSchedule();
+    const firstStage = schedule.stageAt(0);
     let calculatedAmount = 0;
-    if (request.orderAmount && promotion.discount.type === 'PERCENTAGE') {
-      calculatedAmount = Math.round((request.orderAmount * promotion.discount.value) / 100);
-    } else if (promotion.discount.type === 'FIXED_AMOUNT') {
-      calculatedAmount = promotion.discount.value;
+    if (request.orderAmount && firstStage.type === 'PERCENTAGE') {
+      calculatedAmount = Math.round((request.orderAmount * firstStage.value) / 100);
+    } else if (firstStage.type === 'FIXED_AMOUNT') {
+      calculatedAmount = firstStage.value;
     }
 
-    return {
-      valid: true,
-      promotion,
-      discount: {
-        type: promotion.discount.type,
-        value: promotion.discount.value,
-        calculatedAmount,
-        applicablePeriod: promotion.discount.applicablePeriod,
-      },
-      eligibility,
+    const discount = {
+      type: firstStage.type,
+      value: firstStage.value,
+      calculatedAmount,
+      applicablePeriod: promotion.discount.applicablePeriod,
+      schedule: schedule.toJSON(),
     };
+
+    if (!request.subscriptionId) {
+      return { valid: true, promotion, discount, eligibility };
+    }
+
+    const { redemption, reason } = await this.redeem(promotion, request, calculatedAmount, coupon);
+    if (!redemption) {
+      return {
+        valid: false,
+        promotion,
+        eligibility: { eligible: false, reasons: [reason] },
+      };
+    }
+
+    return { valid: true, promotion, discount, eligibility, redemption };
+  }
+
+  /**
+   * 釋放兌換（結帳失敗時），歸還總使用額度與客戶的使用序號，並自訂閱移除該優惠
+   */
+  public async releaseRedemption(redemptionId: string): Promise<boolean> {
+    const redemption = await this.redemptionRepository.findById(redemptionId);
+    if (!redemption || !(await this.redemptionRepository.delete(redemption.id))) {
+      return false;
+    }
+
+    const subscription = redemption.subscriptionId ? await this.subscriptionRepository.findById(redemption.subscriptionId) : undefined;
+    if (subscription?.appliedPromotions.some((p) => p.promotionId === redemption.promotionCode && p.status === 'ACTIVE')) {
+      subscription.removePromotion(redemption.promotionCode);
+      await this.subscriptionRepository.save(subscription);
+    }
+
+    await this.promotionRepository.decrementUsage(redemption.promotionId);
+    await this.promotionRepository.recordRedemption(redemption.promotionId, redemption.amount, -1);
+    if (redemption.couponCode) {
+      await this.couponCodeRepository.release(redemption.couponCode);
+    }
+    return true;
+  }
+
+  /**
+   * 解析代碼：先找優惠碼，找不到再找一次性券碼並取其所屬優惠
+   */
+  private async resolveCode(code: string): Promise<{ promotion?: PromotionEntity; coupon?: CouponCodeEntity }> {
+    const promotion = await this.promotionRepository.findByCode(code);
+    if (promotion) {
+      return { promotion };
+    }
+
+    const coupon = await this.couponCodeRepository.findByCode(code?.trim().toUpperCase());
+    if (!coupon) {
+      return {};
+    }
+
+    return { promotion: await this.promotionRepository.findById(coupon.promotionId), coupon };
+  }
+
+  /**
+   * 佔用使用額度並寫入兌換紀錄
+   * 依序原子累加總使用次數、兌換券碼、佔用客戶的使用序號；任一步失敗即歸還先前佔用的額度
+   * 成功後將兌換計入所屬優惠的成效數據，並自訂閱當期起套用折扣排程；寫入訂閱失敗時釋放兌換
+   */
+  private async redeem(
+    promotion: PromotionEntity,
+    request: ValidatePromotionInput,
+    amount: number,
+    coupon?: CouponCodeEntity,
+  ): Promise<{ redemption?: PromotionRedemptionEntity; reason?: string }> {
+    const subscription = await this.subscriptionRepository.findById(request.subscriptionId);
+    if (!subscription || subscription.customerId !== request.customerId) {
+      return { reason: 'Subscription not found' };
+    }
+
+    if (!(await this.promotionRepository.tryIncrementUsage(promotion.id))) {
+      return { reason: 'Promotion usage limit reached' };
+    }
+
+    if (coupon && !(await this.couponCodeRepository.claim(coupon.code, request.customerId, request.subscriptionId))) {
+      await this.promotionRepository.decrementUsage(promotion.id);
+      return { reason: 'Coupon code has already been used' };
+    }
+
+    const redemption = new PromotionRedemptionEntity(
+      promotion.id,
+      promotion.code,
+      request.customerId,
+      request.subscriptionId,
+      new Money(amount, request.currency || 'TWD'),
+      request.cycleNumber || 1,
+    );
+    redemption.couponCode = coupon?.code;
+
+    const inserted = await this.insertRedemption(promotion, redemption);
+    if (!inserted) {
+      await this.promotionRepository.decrementUsage(promotion.id);
+      if (coupon) {
+        await this.couponCodeRepository.release(coupon.code);
+      }
+      return { reason: 'Customer usage limit reached' };
+    }
+
+    await this.promotionRepository.recordRedemption(promotion.id, amount);
+
+    try {
+      subscription.applyPromotion(promotion.code, promotion.getDiscountSchedule(), subscription.currentPeriod.cycleNumber);
+      await this.subscriptionRepository.save(subscription);
+    } catch (error) {
+      this.logger.error(`Failed to apply promotion ${promotion.code} to subscription ${subscription.id}: ${error.message}`);
+      await this.releaseRedemption(inserted.id);
+      throw error;
+    }
+
+    return { redemption: inserted };
+  }
+
+  /**
+   * 寫入兌換紀錄；有每位客戶上限時佔用最小的未使用序號
+   * 釋放兌換會刪除紀錄而留下序號空缺，因此自 1 起逐一嘗試；序號已被佔用（含併發的兌換）時改試下一個序號直到達上限
+   */
+  private async insertRedemption(promotion: PromotionEntity, redemption: PromotionRedemptionEntity): Promise<CustomDefinition.TNullable<PromotionRedemptionEntity>> {
+    const maxUsagePerCustomer = promotion.conditions?.maxUsagePerCustomer;
+    if (!maxUsagePerCustomer) {
+      return this.redemptionRepository.insert(redemption);
+    }
+
+    if ((await this.redemptionRepository.countByCustomer(promotion.id, redemption.customerId)) >= maxUsagePerCustomer) {
+      return undefined;
+    }
+
+    for (let slot = 1; slot <= maxUsagePerCustomer; slot++) {
+      redemption.usageSlot = slot;
+      const inserted = await this.redemptionRepository.insert(redemption);
+      if (inserted) {
+        return inserted;
+      }
+    }
+
+    return undefined;
   }
 
   /**
    * 取得可用優惠
    */
-  public async getAvailablePromotions(request: { productId?: string; customerId?: string; type?: string }): Promise<{ promotions: Promotion[] }> {
+  public async getAvailablePromotions(request: { productId?: string; customerId?: string; type?: string }): Promise<{ promotions: PromotionEntity[] }> {
     if (!request.productId) {
       throw new Error('productId is required');
     }
 
-    let filteredPromotions = this.promotions.filter((promotion) => promotion.status === 'ACTIVE');
+    const now = new Date();
+    let filteredPromotions = (await this.promotionRepository.findAll([PromotionStatus.ACTIVE])).filter((promotion) => promotion.isWithinValidPeriod(now));
 
     // 按產品篩選
     if (request.productId) {
       filteredPromotions = filteredPromotions.filter((promotion) => {
-        if (!promotion.conditions?.applicableProducts) {
+        if (!promotion.conditions?.applicableProducts?.length) {
           return true; // 沒有產品限制的優惠對所有產品有效
         }
         return promotion.conditions.applicableProducts.includes(request.productId!);
@@ -333,40 +465,36 @@ export class PromotionService {
       filteredPromotions = filteredPromotions.filter((promotion) => promotion.type === request.type);
     }
 
-    // 為每個優惠添加剩餘使用次數
-    const promotionsWithUsage = filteredPromotions.map((promotion) => ({
-      ...promotion,
-      remainingUsage: promotion.usageLimit ? promotion.usageLimit - promotion.currentUsage : null,
-    }));
-
-    return { promotions: promotionsWithUsage };
+    return { promotions: filteredPromotions };
   }
 
   /**
    * 檢查優惠資格
    */
   private async checkEligibility(
-    promotion: Promotion,
+    promotion: PromotionEntity,
     request: { productId: string; customerId: string; orderAmount?: number },
+    coupon?: CouponCodeEntity,
   ): Promise<{ eligible: boolean; reasons: string[] }> {
     const reasons: string[] = [];
 
+    // 一次性券碼僅能兌換一次
+    if (coupon && !coupon.isAvailable()) {
+      reasons.push('Coupon code has already been used');
+    }
+
     // 檢查狀態
-    if (promotion.status !== 'ACTIVE') {
-      reasons.push('Promotion is not active');
+    if (promotion.status !== PromotionStatus.ACTIVE) {
+      reasons.push(promotion.status === PromotionStatus.EXPIRED ? 'Promotion code has expired' : 'Promotion is not active');
     }
 
     // 檢查有效期
-    const now = new Date();
-    const validFrom = new Date(promotion.validFrom);
-    const validUntil = new Date(promotion.validUntil);
-
-    if (now < validFrom || now > validUntil) {
+    if (promotion.status !== PromotionStatus.EXPIRED && !promotion.isWithinValidPeriod()) {
       reasons.push('Promotion code has expired');
     }
 
     // 檢查使用次數限制
-    if (promotion.usageLimit && promotion.currentUsage >= promotion.usageLimit) {
+    if (promotion.getRemainingUsage() === 0) {
       reasons.push('Promotion usage limit reached');
     }
 
@@ -378,7 +506,7 @@ export class PromotionService {
       }
 
       // 產品限制檢查
-      if (promotion.conditions.applicableProducts && !promotion.conditions.applicableProducts.includes(request.productId)) {
+      if (promotion.conditions.applicableProducts?.length && !promotion.conditions.applicableProducts.includes(request.productId)) {
         reasons.push('Product not eligible for this promotion');
       }
 
@@ -389,6 +517,14 @@ export class PromotionService {
           reasons.push('Customer not eligible for this promotion');
         }
       }
+
+      // 每位客戶使用次數檢查（結帳時另以使用序號原子保證）
+      if (promotion.conditions.maxUsagePerCustomer && request.customerId) {
+        const used = await this.redemptionRepository.countByCustomer(promotion.id, request.customerId);
+        if (used >= promotion.conditions.maxUsagePerCustomer) {
+          reasons.push('Customer usage limit reached');
+        }
+      }
     }
 
     return {
@@ -407,20 +543,15 @@ export class PromotionService {
   }
 
   /**
-   * 計算折扣金額
+   * 計算折扣金額，cycleOffset 為套用後的第幾期（從 0 起算）
    */
-  public async calculateDiscount(promotionCode: string, originalAmount: number): Promise<{ discountAmount: number; finalAmount: number }> {
-    const promotion = this.promotions.find((p) => p.code === promotionCode);
-    if (!promotion || promotion.status !== 'ACTIVE') {
+  public async calculateDiscount(promotionCode: string, originalAmount: number, cycleOffset: number = 0): Promise<{ discountAmount: number; finalAmount: number }> {
+    const promotion = await this.promotionRepository.findByCode(promotionCode);
+    if (!promotion || promotion.status !== PromotionStatus.ACTIVE) {
       return { discountAmount: 0, finalAmount: originalAmount };
     }
 
-    let discountAmount = 0;
-    if (promotion.discount.type === 'PERCENTAGE') {
-      discountAmount = Math.round((originalAmount * promotion.discount.value) / 100);
-    } else if (promotion.discount.type === 'FIXED_AMOUNT') {
-      discountAmount = Math.min(promotion.discount.value, originalAmount);
-    }
+    const discountAmount = promotion.getDiscountSchedule().calculateDiscount(new Money(originalAmount), cycleOffset).amount;
 
     return {
       discountAmount,
@@ -428,27 +559,18 @@ export class PromotionService {
     };
   }
 
-  /**
-   * 標記優惠碼已使用
-   */
-  public async markPromotionAsUsed(promotionCode: string): Promise<void> {
-    const promotion = this.promotions.find((p) => p.code === promotionCode);
-    if (promotion) {
-      promotion.currentUsage += 1;
-    }
-  }
-
   /**
    * 獲取優惠分析數據 - New Enhanced Method
    */
   public async getPromotionAnalytics(): Promise<PromotionAnalytics> {
-    const totalPromotions = this.promotions.length;
-    const activePromotions = this.promotions.filter((p) => p.status === 'ACTIVE').length;
-    const expiredPromotions = this.promotions.filter((p) => p.status === 'EXPIRED').length;
-    const totalUsage = this.promotions.reduce((sum, p) => sum + p.currentUsage, 0);
+    const promotions = await this.promotionRepository.findAll();
+    const totalPromotions = promotions.length;
+    const activePromotions = promotions.filter((p) => p.status === PromotionStatus.ACTIVE).length;
+    const expiredPromotions = promotions.filter((p) => p.status === PromotionStatus.EXPIRED).length;
+    const totalUsage = promotions.reduce((sum, p) => sum + p.currentUsage, 0);
 
     // Calculate conversion metrics
-    const promotionsWithPerformance = this.promotions.filter((p) => p.performance?.conversionRate);
+    const promotionsWithPerformance = promotions.filter((p) => p.performance?.conversionRate);
     const averageConversionRate =
       promotionsWithPerformance.length > 0 ? promotionsWithPerformance.reduce((sum, p) => sum + (p.performance?.conversionRate || 0), 0) / promotionsWithPerformance.length : 0;
 
@@ -463,8 +585,8 @@ export class PromotionService {
     );
 
     // Calculate revenue impact
-    const totalDiscountGiven = this.promotions.reduce((sum, p) => sum + (p.performance?.totalRevenueLoss || 0), 0);
-    const estimatedRevenueGained = this.promotions.reduce((sum, p) => {
+    const totalDiscountGiven = promotions.reduce((sum, p) => sum + (p.performance?.totalRevenueLoss || 0), 0);
+    const estimatedRevenueGained = promotions.reduce((sum, p) => {
       const avgOrderValue = p.performance?.averageOrderValue || 0;
       const conversionRate = p.performance?.conversionRate || 0;
       const usage = p.currentUsage;
@@ -493,7 +615,7 @@ export class PromotionService {
    * 自動應用最佳優惠 - New Enhanced Method
    */
   public async autoApplyBestPromotion(request: { productId: string; customerId: string; orderAmount: number }): Promise<{
-    appliedPromotion?: Promotion;
+    appliedPromotion?: PromotionEntity;
     discountAmount: number;
     finalAmount: number;
     savings: number;
@@ -505,7 +627,7 @@ export class PromotionService {
 
     const autoApplyPromotions = availablePromotions.promotions.filter((p) => p.metadata?.autoApply);
 
-    let bestPromotion: Promotion | undefined;
+    let bestPromotion: PromotionEntity | undefined;
     let bestDiscount = 0;
 
     for (const promotion of autoApplyPromotions) {
@@ -548,17 +670,17 @@ export class PromotionService {
     },
   ): Promise<{
     valid: boolean;
-    stackablePromotions: Promotion[];
+    stackablePromotions: PromotionEntity[];
     totalDiscount: number;
     finalAmount: number;
     conflicts: string[];
   }> {
-    const stackablePromotions: Promotion[] = [];
+    const stackablePromotions: PromotionEntity[] = [];
     const conflicts: string[] = [];
     let totalDiscount = 0;
 
     for (const code of promotionCodes) {
-      const promotion = this.promotions.find((p) => p.code === code);
+      const promotion = await this.promotionRepository.findByCode(code);
 
       if (!promotion) {
         conflicts.push(`Promotion code ${code} not found`);
@@ -616,7 +738,8 @@ export class PromotionService {
     }
 
     // Validate promotion codes exist
-    const invalidCodes = campaign.promotionCodes.filter((code) => !this.promotions.some((p) => p.code === code));
+    const promotions = await this.promotionRepository.findAll();
+    const invalidCodes = campaign.promotionCodes.filter((code) => !promotions.some((p) => p.code === code));
 
     if (invalidCodes.length > 0) {
       return {
@@ -641,7 +764,7 @@ export class PromotionService {
    * 優惠碼效能分析 - New Enhanced Method
    */
   public async analyzePromotionPerformance(promotionCode: string): Promise<{
-    promotion?: Promotion;
+    promotion?: PromotionEntity;
     performance: {
       usageRate: number;
       conversionRate: number;
@@ -651,7 +774,7 @@ export class PromotionService {
       recommendations: string[];
     };
   }> {
-    const promotion = this.promotions.find((p) => p.code === promotionCode);
+    const promotion = await this.promotionRepository.findByCode(promotionCode);
 
     if (!promotion) {
       throw new Error(`Promotion ${promotionCode} not found`);
@@ -704,10 +827,10 @@ export class PromotionService {
    * 智能優惠推薦 - New Enhanced Method
    */
   public async getPromotionRecommendations(customerProfile: { customerId: string; tier?: string; orderHistory?: number[]; preferences?: string[] }): Promise<{
-    recommendations: Promotion[];
+    recommendations: PromotionEntity[];
     reason: string;
   }> {
-    const activePromotions = this.promotions.filter((p) => p.status === 'ACTIVE');
+    const activePromotions = await this.promotionRepository.findAll([PromotionStatus.ACTIVE]);
 
     // Filter by customer segment
     let eligiblePromotions = activePromotions.filter((promotion) => {
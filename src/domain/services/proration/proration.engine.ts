@@ -0,0 +1,130 @@
+import { Injectable } from '@nestjs/common';
+import { DateCalculationService } from '../date-calculation/date-calculation.service';
+import { Money } from '../../value-objects/money';
+import { BillingCycleVO } from '../../value-objects/billing-cycle';
+import { PlanChangeType } from '../../enums/codes.const';
+
+/**
+ * 參與按比例計費的方案
+ */
+export interface ProrationPlan {
+  planId: string;
+  amount: Money;
+  billingCycle: BillingCycleVO;
+  /** 當期實際收取的方案費用（含折扣），退還未使用天數時以此為準；未提供時以定價計算 */
+  chargedAmount?: Money;
+}
+
+/**
+ * 按比例計費明細行
+ */
+export interface ProrationLine {
+  type: 'CREDIT' | 'CHARGE';
+  planId: string;
+  description: string;
+  /** 以分為單位，抵用為負數 */
+  amount: number;
+  periodStart: Date;
+  periodEnd: Date;
+  days: number;
+  totalDays: number;
+}
+
+/**
+ * 按比例計費結果
+ * netAmount 為正時立即扣款（immediateCharge），為負時轉為抵用額（creditAmount）於下期帳單折抵
+ */
+export interface ProrationBreakdown {
+  fromPlanId: string;
+  toPlanId: string;
+  direction: PlanChangeType.UPGRADE | PlanChangeType.DOWNGRADE;
+  changeDate: Date;
+  currency: string;
+  /** 計費週期不同時，自變更日重新起算計費期間 */
+  billingCycleChanged: boolean;
+  unusedCredit: number;
+  remainingCharge: number;
+  netAmount: number;
+  immediateCharge: number;
+  creditAmount: number;
+  newPeriod: { startDate: Date; endDate: Date };
+  lines: ProrationLine[];
+}
+
+/**
+ * 按比例計費引擎
+ * 立即變更方案時，依舊方案當期實收金額退還未使用天數並收取新方案剩餘天數；
+ * 週期相同時沿用當期，週期不同時新方案自變更日起收取完整一期
+ */
+@Injectable()
+export class ProrationEngine {
+  constructor(private readonly dateCalculation: DateCalculationService) {}
+
+  /**
+   * 計算方案變更的按比例金額，不會異動任何資料
+   */
+  public calculate(from: ProrationPlan, to: ProrationPlan, currentPeriod: { startDate: Date; endDate: Date }, changeDate: Date = new Date()): ProrationBreakdown {
+    if (from.amount.currency !== to.amount.currency) {
+      throw new Error('Cannot prorate between different currencies');
+    }
+    if (changeDate < currentPeriod.startDate || changeDate > currentPeriod.endDate) {
+      throw new Error('Change date must be within the current billing period');
+    }
+
+    const billingCycleChanged = from.billingCycle.type !== to.billingCycle.type;
+    const newPeriod = billingCycleChanged ? { startDate: changeDate, endDate: to.billingCycle.calculateNextBillingDate(changeDate) } : { ...currentPeriod };
+
+    const credit = this.dateCalculation.calculateProratedAmount(
+      (from.chargedAmount || from.amount).amount,
+      currentPeriod.startDate,
+      currentPeriod.endDate,
+      changeDate,
+      currentPeriod.endDate,
+    );
+    const charge = this.dateCalculation.calculateProratedAmount(to.amount.amount, newPeriod.startDate, newPeriod.endDate, changeDate, newPeriod.endDate);
+    const unusedCredit = Math.round(credit.proratedAmount);
+    const remainingCharge = Math.round(charge.proratedAmount);
+    const netAmount = remainingCharge - unusedCredit;
+
+    return {
+      fromPlanId: from.planId,
+      toPlanId: to.planId,
+      direction: this.dailyRate(to) > this.dailyRate(from) ? PlanChangeType.UPGRADE : PlanChangeType.DOWNGRADE,
+      changeDate,
+      currency: to.amount.currency,
+      billingCycleChanged,
+      unusedCredit,
+      remainingCharge,
+      netAmount,
+      immediateCharge: Math.max(0, netAmount),
+      creditAmount: Math.max(0, -netAmount),
+      newPeriod,
+      lines: [
+        {
+          type: 'CREDIT',
+          planId: from.planId,
+          description: `Unused time on ${from.planId}`,
+          amount: -unusedCredit,
+          periodStart: changeDate,
+          periodEnd: currentPeriod.endDate,
+          days: credit.usedDays,
+          totalDays: credit.totalDays,
+        },
+        {
+          type: 'CHARGE',
+          planId: to.planId,
+          description: `Remaining time on ${to.planId}`,
+          amount: remainingCharge,
+          periodStart: changeDate,
+          periodEnd: newPeriod.endDate,
+          days: charge.usedDays,
+          totalDays: charge.totalDays,
+        },
+      ],
+    };
+  }
+
+  private dailyRate(plan: ProrationPlan): number {
+    return plan.amount.amount / plan.billingCycle.getTotalCycleDays();
+  }
+}
@@ -0,0 +1,211 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { SubscriptionRepository } from '../../../infra/repositories/subscription.repository';
+import { BillingPlanRepository } from '../../../infra/repositories/billing-plan.repository';
+import { SubscriptionEntity } from '../../entities/subscription.entity';
+import { BillingPlanEntity } from '../../entities/billing-plan.entity';
+import { PaymentEntity } from '../../entities/payment.entity';
+import { CreditLedgerEntryEntity } from '../../entities/credit-ledger-entry.entity';
+import { BillingAttemptType, CreditSourceType, PaymentStatus, PlanChangeType, PlanStatus, SubscriptionStatus } from '../../enums/codes.const';
+import { Money } from '../../value-objects/money';
+import { PaymentService } from '../payment.service';
+import { CustomerCreditService } from '../credits/customer-credit.service';
+import { DomainEventBus } from '../events/domain-event-bus.service';
+import { ProrationBreakdown, ProrationEngine } from './proration.engine';
+
+/**
+ * 立即變更方案的結果
+ */
+export interface PlanChangeResult {
+  subscription: SubscriptionEntity;
+  breakdown: ProrationBreakdown;
+  /** 升級差額的扣款，扣款成功後才切換方案 */
+  payment?: PaymentEntity;
+  /** 降級差額轉入的抵用金分錄 */
+  credit?: CreditLedgerEntryEntity;
+}
+
+/** 差額扣款尚在進行中的付款狀態 */
+const PLAN_CHANGE_PENDING_STATUSES = [PaymentStatus.PENDING, PaymentStatus.PROCESSING, PaymentStatus.REQUIRES_ACTION, PaymentStatus.RETRYING];
+
+/**
+ * 方案按比例變更服務
+ * 預覽只計算明細；降級立即切換方案並將差額轉為客戶抵用金，
+ * 升級先扣取差額，扣款成功（payment.succeeded）後才切換方案，扣款失敗時維持原方案
+ */
+@Injectable()
+export class ProrationService implements OnModuleInit {
+  private readonly logger = new Logger(ProrationService.name);
+
+  constructor(
+    private readonly subscriptionRepository: SubscriptionRepository,
+    private readonly billingPlanRepository: BillingPlanRepository,
+    private readonly prorationEngine: ProrationEngine,
+    private readonly paymentService: PaymentService,
+    private readonly customerCreditService: CustomerCreditService,
+    private readonly eventBus: DomainEventBus,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.subscribe('payment.succeeded', 'plan-changes', async (message) => {
+      await this.completePlanChange(message.aggregateId);
+    });
+  }
+
+  /**
+   * 預覽方案變更的按比例明細，不寫入任何資料
+   */
+  public async previewPlanChange(subscriptionId: string, toPlanId: string, changeDate: Date = new Date()): Promise<ProrationBreakdown> {
+    const { subscription, plan } = await this.loadChange(subscriptionId, toPlanId);
+    const payments = await this.paymentService.getPaymentsBySubscriptionId(subscription.id);
+    return this.calculate(subscription, plan, changeDate, payments);
+  }
+
+  /**
+   * 變更方案並結算差額
+   * 需扣款時回傳差額付款，方案於扣款成功後才切換
+   */
+  public async applyPlanChange(subscriptionId: string, toPlanId: string): Promise<PlanChangeResult> {
+    const { subscription, plan } = await this.loadChange(subscriptionId, toPlanId);
+    const payments = await this.paymentService.getPaymentsBySubscriptionId(subscription.id);
+    if (payments.some((p) => p.metadata?.prorationOnly && PLAN_CHANGE_PENDING_STATUSES.includes(p.status))) {
+      throw new Error('Can only change plan after the pending plan change payment is settled');
+    }
+
+    const changeDate = new Date();
+    const breakdown = this.calculate(subscription, plan, changeDate, payments);
+
+    if (breakdown.immediateCharge > 0) {
+      const created = await this.paymentService.createPayment(
+        subscription.id,
+        subscription.customerId,
+        subscription.paymentMethodId,
+        breakdown.immediateCharge,
+        breakdown.currency,
+        `Plan change from ${breakdown.fromPlanId} to ${breakdown.toPlanId}`,
+        {
+          prorationOnly: true,
+          prorationAmount: breakdown.immediateCharge,
+          prorationDescription: `Proration for plan change from ${breakdown.fromPlanId} to ${breakdown.toPlanId}`,
+          planChange: {
+            fromPlanId: breakdown.fromPlanId,
+            toPlanId: breakdown.toPlanId,
+            direction: breakdown.direction,
+            changeDate: breakdown.changeDate,
+            newPeriod: breakdown.billingCycleChanged ? breakdown.newPeriod : undefined,
+            unusedCredit: breakdown.unusedCredit,
+            remainingCharge: breakdown.remainingCharge,
+          },
+        },
+      );
+      const payment = (await this.paymentService.startPaymentAttempt(created.id, BillingAttemptType.IMMEDIATE)) || created;
+
+      this.logger.log(`Subscription ${subscription.id} plan change ${breakdown.fromPlanId} -> ${breakdown.toPlanId} awaiting payment ${payment.id}`);
+      return { subscription, breakdown, payment };
+    }
+
+    this.switchPlan(subscription, plan, changeDate, breakdown.billingCycleChanged ? breakdown.newPeriod : undefined);
+    await this.subscriptionRepository.save(subscription);
+
+    let credit: CreditLedgerEntryEntity | undefined;
+    if (breakdown.creditAmount > 0) {
+      credit = await this.customerCreditService.grantCredit({
+        customerId: subscription.customerId,
+        amount: new Money(breakdown.creditAmount, breakdown.currency),
+        source: { type: CreditSourceType.PLAN_CHANGE, id: subscription.id },
+        reason: `Plan change from ${breakdown.fromPlanId} to ${breakdown.toPlanId}`,
+      });
+    }
+
+    this.logger.log(`Subscription ${subscription.id} changed plan ${breakdown.fromPlanId} -> ${breakdown.toPlanId}, net ${breakdown.netAmount} ${breakdown.currency}`);
+    return { subscription, breakdown, credit };
+  }
+
+  /**
+   * 差額扣款成功後切換方案，訂閱已不在原方案時略過
+   */
+  public async completePlanChange(paymentId: string): Promise<CustomDefinition.TNullable<SubscriptionEntity>> {
+    const payment = await this.paymentService.getPaymentById(paymentId);
+    const planChange = payment?.metadata?.prorationOnly ? payment.metadata.planChange : undefined;
+    if (!planChange) {
+      return undefined;
+    }
+
+    const subscription = await this.subscriptionRepository.findById(payment.subscriptionId);
+    if (!subscription || subscription.planId !== planChange.fromPlanId) {
+      this.logger.warn(`Plan change payment ${paymentId} settled but subscription ${payment.subscriptionId} is no longer on plan ${planChange.fromPlanId}`);
+      return subscription;
+    }
+
+    const plan = await this.billingPlanRepository.findByPlanId(planChange.toPlanId);
+    if (!plan) {
+      throw new Error(`Plan ${planChange.toPlanId} not found`);
+    }
+
+    const newPeriod = planChange.newPeriod ? { startDate: new Date(planChange.newPeriod.startDate), endDate: new Date(planChange.newPeriod.endDate) } : undefined;
+    this.switchPlan(subscription, plan, new Date(planChange.changeDate), newPeriod);
+    const saved = await this.subscriptionRepository.save(subscription);
+
+    this.logger.log(`Subscription ${subscription.id} changed plan ${planChange.fromPlanId} -> ${planChange.toPlanId} after payment ${paymentId}`);
+    return saved;
+  }
+
+  private switchPlan(subscription: SubscriptionEntity, plan: BillingPlanEntity, changeDate: Date, newPeriod?: { startDate: Date; endDate: Date }): void {
+    subscription.changePlan(plan.planId, PlanChangeType.IMMEDIATE, changeDate);
+    subscription.executePlanChange();
+    subscription.applyPlanPricing(plan.basePrice, plan.billingCycle, newPeriod);
+  }
+
+  private calculate(subscription: SubscriptionEntity, plan: BillingPlanEntity, changeDate: Date, payments: PaymentEntity[]): ProrationBreakdown {
+    return this.prorationEngine.calculate(
+      {
+        planId: subscription.planId,
+        amount: subscription.pricing.baseAmount,
+        billingCycle: subscription.billingCycle,
+        chargedAmount: this.chargedPlanAmount(subscription, payments),
+      },
+      { planId: plan.planId, amount: plan.basePrice, billingCycle: plan.billingCycle },
+      { startDate: subscription.currentPeriod.startDate, endDate: subscription.currentPeriod.endDate },
+      changeDate,
+    );
+  }
+
+  /**
+   * 當期實際收取的方案費用：取最近一筆成功的週期扣款，扣除用量費用並加回抵用金折抵，不超過方案定價
+   * 查無該方案的扣款時回傳 undefined，以定價計算
+   */
+  private chargedPlanAmount(subscription: SubscriptionEntity, payments: PaymentEntity[]): CustomDefinition.TNullable<Money> {
+    const charged = payments.find((p) => p.isSuccessful() && !p.metadata?.prorationOnly);
+    if (!charged || (charged.metadata?.planId && charged.metadata.planId !== subscription.planId)) {
+      return undefined;
+    }
+
+    const metadata = charged.metadata || {};
+    const discounted = ((metadata.discounts || []) as Array<{ amount: number }>).reduce((sum, discount) => sum + discount.amount, 0);
+    const planAmount =
+      metadata.planAmount !== undefined
+        ? Number(metadata.planAmount) - discounted
+        : charged.amount - ((metadata.usageCharges || []) as Array<{ amount: number }>).reduce((sum, charge) => sum + charge.amount, 0) + (Number(metadata.creditApplied) || 0);
+    return Money.min(new Money(planAmount, subscription.pricing.baseAmount.currency), subscription.pricing.baseAmount);
+  }
+
+  private async loadChange(subscriptionId: string, toPlanId: string): Promise<{ subscription: SubscriptionEntity; plan: BillingPlanEntity }> {
+    const subscription = await this.subscriptionRepository.findById(subscriptionId);
+    if (!subscription) {
+      throw new Error(`Subscription ${subscriptionId} not found`);
+    }
+    if (subscription.status !== SubscriptionStatus.ACTIVE) {
+      throw new Error('Can only change plan for active subscriptions');
+    }
+    if (subscription.planId === toPlanId) {
+      throw new Error(`Subscription is already on plan ${toPlanId}`);
+    }
+
+    const plan = await this.billingPlanRepository.findByPlanId(toPlanId);
+    if (!plan || plan.status !== PlanStatus.ACTIVE) {
+      throw new Error(`Plan ${toPlanId} not found`);
+    }
+
+    return { subscription, plan };
+  }
+}
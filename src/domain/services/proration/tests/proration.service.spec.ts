@@ -0,0 +1,188 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ProrationService } from '../proration.service';
+import { ProrationEngine } from '../proration.engine';
+import { DateCalculationService } from '../../date-calculation/date-calculation.service';
+import { PaymentService } from '../../payment.service';
+import { CustomerCreditService } from '../../credits/customer-credit.service';
+import { DomainEventBus } from '../../events/domain-event-bus.service';
+import { SubscriptionRepository } from '../../../../infra/repositories/subscription.repository';
+import { BillingPlanRepository } from '../../../../infra/repositories/billing-plan.repository';
+import { SubscriptionEntity } from '../../../entities/subscription.entity';
+import { BillingPlanEntity } from '../../../entities/billing-plan.entity';
+import { BillingAttemptType, CreditSourceType, PaymentStatus, PlanChangeType, SubscriptionStatus } from '../../../enums/codes.const';
+import { Money } from '../../../value-objects/money';
+import { BillingCycleVO } from '../../../value-objects/billing-cycle';
+
+describe('ProrationEngine', () => {
+  const engine = new ProrationEngine(new DateCalculationService());
+  // 1/1 ~ 1/31 共 31 天，1/17 變更時剩餘 15 天
+  const period = { startDate: new Date(2026, 0, 1), endDate: new Date(2026, 0, 31) };
+  const changeDate = new Date(2026, 0, 17);
+  const basic = { planId: 'plan_basic', amount: new Money(31000), billingCycle: BillingCycleVO.monthly() };
+  const pro = { planId: 'plan_pro', amount: new Money(62000), billingCycle: BillingCycleVO.monthly() };
+
+  it('credits unused time and charges the remaining time on the new plan', () => {
+    const upgrade = engine.calculate(basic, pro, period, changeDate);
+
+    expect(upgrade).toMatchObject({ direction: PlanChangeType.UPGRADE, unusedCredit: 15000, remainingCharge: 30000, netAmount: 15000, immediateCharge: 15000, creditAmount: 0 });
+    expect(upgrade.lines.map((line) => [line.type, line.amount, line.days, line.totalDays])).toEqual([
+      ['CREDIT', -15000, 15, 31],
+      ['CHARGE', 30000, 15, 31],
+    ]);
+
+    const downgrade = engine.calculate(pro, basic, period, changeDate);
+    expect(downgrade).toMatchObject({ direction: PlanChangeType.DOWNGRADE, netAmount: -15000, immediateCharge: 0, creditAmount: 15000 });
+  });
+
+  it('starts a new period when switching billing cycles', () => {
+    const yearly = { planId: 'plan_basic_yearly', amount: new Money(300000), billingCycle: BillingCycleVO.yearly() };
+    const breakdown = engine.calculate(basic, yearly, period, changeDate);
+
+    expect(breakdown.billingCycleChanged).toBe(true);
+    expect(breakdown.newPeriod).toEqual({ startDate: changeDate, endDate: yearly.billingCycle.calculateNextBillingDate(changeDate) });
+    expect(breakdown.remainingCharge).toBe(300000);
+    expect(breakdown.netAmount).toBe(285000);
+  });
+
+  it('rejects currency mismatches and dates outside the period', () => {
+    expect(() => engine.calculate(basic, { ...pro, amount: new Money(2000, 'USD') }, period, changeDate)).toThrow('different currencies');
+    expect(() => engine.calculate(basic, pro, period, new Date(2026, 1, 2))).toThrow('within the current billing period');
+  });
+});
+
+describe('ProrationService', () => {
+  let moduleRef: TestingModule;
+  let service: ProrationService;
+  let subscription: SubscriptionEntity;
+  let plans: Record<string, BillingPlanEntity>;
+  let subscriptionRepository: { findById: jest.Mock; save: jest.Mock };
+  let payments: Array<Record<string, any>>;
+  let paymentService: { createPayment: jest.Mock; startPaymentAttempt: jest.Mock; getPaymentsBySubscriptionId: jest.Mock; getPaymentById: jest.Mock };
+  let customerCreditService: { grantCredit: jest.Mock };
+
+  const buildPlan = (planId: string, amount: number) => {
+    const plan = new BillingPlanEntity('prod_api', planId, new Money(amount), BillingCycleVO.monthly());
+    plan.planId = planId;
+    plan.publish();
+    return plan;
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date(2026, 0, 17, 9) });
+
+    subscription = SubscriptionEntity.create({
+      customerId: '64b7f0c2a1b2c3d4e5f60002',
+      productId: 'prod_api',
+      planId: 'plan_basic',
+      paymentMethodId: 'pm_1',
+      baseAmount: new Money(31000),
+      billingCycle: BillingCycleVO.monthly(),
+    });
+    subscription.id = '64b7f0c2a1b2c3d4e5f60001';
+    subscription.status = SubscriptionStatus.ACTIVE;
+    subscription.updateBillingPeriod(new Date(2026, 0, 1), new Date(2026, 0, 31));
+
+    plans = { plan_pro: buildPlan('plan_pro', 62000), plan_lite: buildPlan('plan_lite', 15500) };
+    subscriptionRepository = {
+      findById: jest.fn(async (id) => (id === subscription.id ? subscription : undefined)),
+      save: jest.fn(async (entity) => entity),
+    };
+    payments = [];
+    paymentService = {
+      createPayment: jest.fn(async (...args) => ({ id: 'pay_1', subscriptionId: args[0], amount: args[3], metadata: args[6] })),
+      startPaymentAttempt: jest.fn(async () => undefined),
+      getPaymentsBySubscriptionId: jest.fn(async () => payments),
+      getPaymentById: jest.fn(async (id) => payments.find((p) => p.id === id)),
+    };
+    customerCreditService = { grantCredit: jest.fn(async (command) => ({ id: 'credit_1', ...command })) };
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        ProrationService,
+        ProrationEngine,
+        DateCalculationService,
+        { provide: SubscriptionRepository, useValue: subscriptionRepository },
+        { provide: BillingPlanRepository, useValue: { findByPlanId: jest.fn(async (planId) => plans[planId] || null) } },
+        { provide: PaymentService, useValue: paymentService },
+        { provide: CustomerCreditService, useValue: customerCreditService },
+        DomainEventBus,
+      ],
+    }).compile();
+
+    service = moduleRef.get(ProrationService);
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await moduleRef.close();
+  });
+
+  it('previews without changing the subscription', async () => {
+    const breakdown = await service.previewPlanChange(subscription.id, 'plan_pro');
+
+    expect(breakdown.immediateCharge).toBe(15000);
+    expect(subscription.planId).toBe('plan_basic');
+    expect(subscriptionRepository.save).not.toHaveBeenCalled();
+    expect(paymentService.createPayment).not.toHaveBeenCalled();
+  });
+
+  it('charges the upgrade difference and switches the plan only after the charge succeeds', async () => {
+    const result = await service.applyPlanChange(subscription.id, 'plan_pro');
+
+    expect(paymentService.createPayment).toHaveBeenCalledWith(
+      subscription.id,
+      subscription.customerId,
+      'pm_1',
+      15000,
+      'TWD',
+      'Plan change from plan_basic to plan_pro',
+      expect.objectContaining({ prorationOnly: true, prorationAmount: 15000 }),
+    );
+    expect(paymentService.startPaymentAttempt).toHaveBeenCalledWith('pay_1', BillingAttemptType.IMMEDIATE);
+    expect(result.payment.id).toBe('pay_1');
+    expect(subscription.planId).toBe('plan_basic');
+    expect(subscriptionRepository.save).not.toHaveBeenCalled();
+
+    // 扣款進行中不得再次變更
+    payments.push({ ...result.payment, status: PaymentStatus.PROCESSING, isSuccessful: () => false });
+    await expect(service.applyPlanChange(subscription.id, 'plan_lite')).rejects.toThrow('pending plan change payment');
+
+    await service.completePlanChange('pay_1');
+
+    expect(subscription.planId).toBe('plan_pro');
+    expect(subscription.pricing.baseAmount.amount).toBe(62000);
+    expect(subscriptionRepository.save).toHaveBeenCalledWith(subscription);
+  });
+
+  it('credits unused time from the amount charged for the current period', async () => {
+    // 當期以 8 折扣款 24,800，剩餘 15/31 天退還 12,000
+    payments.push({ id: 'pay_0', status: PaymentStatus.SUCCEEDED, amount: 24800, metadata: { planId: 'plan_basic', planAmount: 24800 }, isSuccessful: () => true });
+
+    const breakdown = await service.previewPlanChange(subscription.id, 'plan_pro');
+
+    expect(breakdown).toMatchObject({ unusedCredit: 12000, remainingCharge: 30000, immediateCharge: 18000 });
+  });
+
+  it('grants the downgrade difference as customer credit', async () => {
+    const result = await service.applyPlanChange(subscription.id, 'plan_lite');
+
+    expect(customerCreditService.grantCredit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        customerId: subscription.customerId,
+        amount: new Money(7500, 'TWD'),
+        source: { type: CreditSourceType.PLAN_CHANGE, id: subscription.id },
+      }),
+    );
+    expect(result.credit.id).toBe('credit_1');
+    expect(paymentService.createPayment).not.toHaveBeenCalled();
+    expect(subscriptionRepository.save).toHaveBeenCalledWith(subscription);
+  });
+
+  it('rejects unavailable plans and no-op changes', async () => {
+    plans.plan_pro.suspend();
+
+    await expect(service.previewPlanChange(subscription.id, 'plan_pro')).rejects.toThrow('Plan plan_pro not found');
+    await expect(service.previewPlanChange(subscription.id, 'plan_basic')).rejects.toThrow('already on plan plan_basic');
+    await expect(service.previewPlanChange('64b7f0c2a1b2c3d4e5f60009', 'plan_lite')).rejects.toThrow('not found');
+  });
+});
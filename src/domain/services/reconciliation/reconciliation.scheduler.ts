@@ -0,0 +1,44 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { ConfService } from '@myapp/conf';
+import { ReconciliationService } from './reconciliation.service';
+
+/** 對帳排程名稱 */
+export const RECONCILIATION_JOB = 'payment-reconciliation';
+
+/**
+ * 付款對帳排程
+ * 依設定的 cron 表達式觸發 ReconciliationService
+ */
+@Injectable()
+export class ReconciliationScheduler implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ReconciliationScheduler.name);
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly reconciliationService: ReconciliationService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const { enabled, cron, timezone } = this.confService.getConf().reconciliation;
+    if (!enabled) {
+      this.logger.log('Reconciliation scheduler is disabled');
+      return;
+    }
+
+    const job = new CronJob(cron, () => this.trigger(), null, false, timezone);
+    this.schedulerRegistry.addCronJob(RECONCILIATION_JOB, job);
+    job.start();
+    this.logger.log(`Payment reconciliation scheduled with "${cron}" (${timezone})`);
+  }
+
+  private async trigger(): Promise<void> {
+    try {
+      await this.reconciliationService.run();
+    } catch (error) {
+      this.logger.error(`Reconciliation run crashed: ${error.message}`, error.stack);
+    }
+  }
+}
@@ -0,0 +1,326 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { ConfService } from '@myapp/conf';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { PaymentService } from '../payment.service';
+import { PaymentGatewayManager } from '../payment/payment-gateway-manager.service';
+import { PaymentEntity } from '../../entities/payment.entity';
+import { ReconciliationRunEntity } from '../../entities/reconciliation-run.entity';
+import { ReconciliationDiscrepancyEntity } from '../../entities/reconciliation-discrepancy.entity';
+import { BillingRunTrigger, PaymentStatus, ReconciliationDiscrepancyStatus, ReconciliationDiscrepancyType } from '../../enums/codes.const';
+import { GatewayRoutingDecision, GatewayTransaction, PaymentStatus as GatewayPaymentStatus } from '../../interfaces/payment/payment-gateway.interface';
+import { PaymentRepository } from '../../../infra/repositories/payment.repository';
+import { JobLockRepository } from '../../../infra/repositories/job-lock.repository';
+import { ReconciliationRunRepository } from '../../../infra/repositories/reconciliation-run.repository';
+import { ReconciliationDiscrepancyQuery, ReconciliationDiscrepancyRepository } from '../../../infra/repositories/reconciliation-discrepancy.repository';
+
+/** 對帳作業鎖名稱 */
+export const RECONCILIATION_LOCK = 'payment-reconciliation';
+
+/** 付款未記錄扣款閘道時的差異閘道名稱 */
+const UNKNOWN_GATEWAY = 'unknown';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/** 比對的未結付款狀態 */
+const UNSETTLED_STATUSES = [PaymentStatus.PENDING, PaymentStatus.PROCESSING, PaymentStatus.RETRYING];
+
+/** 閘道端仍在處理中的交易狀態 */
+const IN_FLIGHT_STATUSES = [GatewayPaymentStatus.PENDING, GatewayPaymentStatus.PROCESSING, GatewayPaymentStatus.REQUIRES_ACTION];
+
+/** 閘道端未扣款即結束的交易狀態 */
+const UNPAID_STATUSES = [GatewayPaymentStatus.FAILED, GatewayPaymentStatus.CANCELED];
+
+/**
+ * 對帳執行選項
+ */
+export interface ReconciliationRunOptions {
+  /** 對帳基準時間，預設為現在 */
+  asOf?: Date;
+  /** 觸發來源 */
+  trigger?: BillingRunTrigger;
+}
+
+/**
+ * 差異的付款與交易明細
+ */
+type DiscrepancyDetails = Pick<
+  ReconciliationDiscrepancyEntity,
+  'paymentId' | 'subscriptionId' | 'customerId' | 'gatewayTransactionId' | 'localStatus' | 'gatewayStatus' | 'localAmount' | 'gatewayAmount' | 'currency'
+>;
+
+/**
+ * 付款對帳服務
+ * 比對區間內仍未結案的本地付款與閘道交易紀錄，並列出閘道端有、本地卻沒有的交易；
+ * 處理中的付款在閘道已確定成功或失敗且金額相符時自動補記結果，其餘差異留待人工處理
+ */
+@Injectable()
+export class ReconciliationService {
+  private readonly logger = new Logger(ReconciliationService.name);
+  private readonly owner = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly paymentRepository: PaymentRepository,
+    private readonly paymentService: PaymentService,
+    private readonly gatewayManager: PaymentGatewayManager,
+    private readonly jobLockRepository: JobLockRepository,
+    private readonly runRepository: ReconciliationRunRepository,
+    private readonly discrepancyRepository: ReconciliationDiscrepancyRepository,
+  ) {}
+
+  /**
+   * 執行一次對帳
+   * 無法取得作業鎖（其他實例執行中）時回傳 undefined
+   */
+  public async run(options: ReconciliationRunOptions = {}): Promise<CustomDefinition.TNullable<ReconciliationRunEntity>> {
+    const { windowHours, graceMinutes, batchSize, lockTtlMs } = this.confService.getConf().reconciliation;
+    const asOf = options.asOf || new Date();
+    const trigger = options.trigger || BillingRunTrigger.SCHEDULED;
+
+    if (!(await this.jobLockRepository.tryAcquire(RECONCILIATION_LOCK, this.owner, lockTtlMs))) {
+      this.logger.warn(`Reconciliation run skipped: lock ${RECONCILIATION_LOCK} is held by another instance`);
+      return undefined;
+    }
+
+    const windowStart = new Date(asOf.getTime() - windowHours * HOUR_MS);
+    const windowEnd = new Date(asOf.getTime() - graceMinutes * MINUTE_MS);
+    const run = new ReconciliationRunEntity(asOf, windowStart, windowEnd, trigger, this.owner);
+    await this.runRepository.save(run);
+    this.logger.log(`Reconciliation run ${run.id} started (trigger=${trigger}, window=${windowStart.toISOString()}~${windowEnd.toISOString()})`);
+
+    try {
+      let cursor: string | undefined;
+      while (true) {
+        const payments = await this.paymentRepository.findByStatusesUpdatedBetween(UNSETTLED_STATUSES, windowStart, windowEnd, batchSize, cursor);
+        for (const payment of payments) {
+          run.counters.checked++;
+          try {
+            await this.reconcilePayment(payment, run);
+          } catch (error) {
+            this.logger.error(`Failed to reconcile payment ${payment.id}: ${error.message}`, error.stack);
+            run.recordError({ paymentId: payment.id, error: error.message });
+          }
+        }
+        await this.runRepository.save(run);
+
+        if (payments.length < batchSize) {
+          break;
+        }
+        cursor = payments[payments.length - 1].id;
+
+        if (!(await this.jobLockRepository.renew(RECONCILIATION_LOCK, this.owner, lockTtlMs))) {
+          throw new Error(`Lost lock ${RECONCILIATION_LOCK} during reconciliation run`);
+        }
+      }
+
+      for (const gateway of this.gatewayManager.getAvailableGateways()) {
+        if (this.gatewayManager.supportsTransactionListing(gateway)) {
+          await this.findMissingLocally(gateway, run);
+        }
+      }
+      run.complete();
+    } catch (error) {
+      this.logger.error(`Reconciliation run ${run.id} failed: ${error.message}`, error.stack);
+      run.fail(error.message);
+    } finally {
+      await this.runRepository.save(run);
+      await this.jobLockRepository.release(RECONCILIATION_LOCK, this.owner);
+    }
+
+    const { checked, matched, autoResolved, open } = run.counters;
+    this.logger.log(`Reconciliation run ${run.id} ${run.status}: checked ${checked}, matched ${matched}, auto-resolved ${autoResolved}, open ${open}`);
+    return run;
+  }
+
+  /**
+   * 依狀態、類型與閘道查詢差異，預設只列出待人工處理的差異
+   */
+  public async listDiscrepancies(
+    query: ReconciliationDiscrepancyQuery = {},
+  ): Promise<{ discrepancies: ReconciliationDiscrepancyEntity[]; total: number; page: number; limit: number }> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const status = query.status || ReconciliationDiscrepancyStatus.OPEN;
+    const { discrepancies, total } = await this.discrepancyRepository.findByQuery({ ...query, status, page, limit });
+    return { discrepancies, total, page, limit };
+  }
+
+  /**
+   * 記錄差異的人工處理結果
+   */
+  public async resolveDiscrepancy(discrepancyId: string, resolvedBy: string, resolution: string): Promise<ReconciliationDiscrepancyEntity> {
+    const discrepancy = await this.discrepancyRepository.findById(discrepancyId);
+    if (!discrepancy) {
+      throw new Error(`Discrepancy ${discrepancyId} not found`);
+    }
+
+    discrepancy.resolve(resolvedBy, resolution);
+    await this.discrepancyRepository.save(discrepancy);
+    this.logger.log(`Discrepancy ${discrepancy.id} (${discrepancy.type}) resolved by ${resolvedBy}`);
+    return discrepancy;
+  }
+
+  /**
+   * 查詢對帳報告
+   */
+  public async getRun(runId: string): Promise<CustomDefinition.TNullable<ReconciliationRunEntity>> {
+    return this.runRepository.findById(runId);
+  }
+
+  /**
+   * 最近的對帳報告
+   */
+  public async getRecentRuns(limit: number = 20): Promise<ReconciliationRunEntity[]> {
+    return this.runRepository.findRecent(limit);
+  }
+
+  /**
+   * 比對單筆付款與閘道交易
+   */
+  private async reconcilePayment(payment: PaymentEntity, run: ReconciliationRunEntity): Promise<void> {
+    const { gateway, transactionId } = this.resolveGatewayReference(payment);
+    const local: DiscrepancyDetails = {
+      paymentId: payment.id,
+      subscriptionId: payment.subscriptionId,
+      customerId: payment.customerId,
+      localStatus: payment.status,
+      localAmount: payment.amount,
+      currency: payment.currency,
+    };
+
+    if (!gateway || !transactionId) {
+      // 尚未送出閘道（首次扣款或重試前）不需比對；處理中卻沒有閘道交易表示扣款流程中斷
+      if (payment.status !== PaymentStatus.PROCESSING) {
+        run.counters.matched++;
+        return;
+      }
+      await this.recordDiscrepancy(run, ReconciliationDiscrepancyType.MISSING_AT_GATEWAY, gateway || UNKNOWN_GATEWAY, payment.id, local);
+      return;
+    }
+
+    const transaction = await this.gatewayManager.lookupTransaction(gateway, transactionId);
+    const details: DiscrepancyDetails = { ...local, gatewayTransactionId: transactionId, gatewayStatus: transaction?.status, gatewayAmount: transaction?.amount };
+    if (!transaction) {
+      await this.recordDiscrepancy(run, ReconciliationDiscrepancyType.MISSING_AT_GATEWAY, gateway, transactionId, details);
+      return;
+    }
+    if (transaction.amount !== undefined && transaction.amount !== payment.amount) {
+      await this.recordDiscrepancy(run, ReconciliationDiscrepancyType.AMOUNT_MISMATCH, gateway, transactionId, details);
+      return;
+    }
+    if (IN_FLIGHT_STATUSES.includes(transaction.status)) {
+      run.counters.inFlight++;
+      return;
+    }
+    // 上次嘗試已失敗、等待重試的付款與閘道一致
+    if (UNPAID_STATUSES.includes(transaction.status) && payment.status !== PaymentStatus.PROCESSING) {
+      run.counters.matched++;
+      return;
+    }
+
+    const resolution = payment.status === PaymentStatus.PROCESSING ? await this.settle(payment, gateway, transaction) : undefined;
+    await this.recordDiscrepancy(run, ReconciliationDiscrepancyType.STATUS_MISMATCH, gateway, transactionId, details, resolution);
+  }
+
+  /**
+   * 依閘道結果補記處理中付款的成功或失敗，回傳處理方式；閘道狀態無法直接套用（例如已退款）時回傳 undefined
+   */
+  private async settle(payment: PaymentEntity, gateway: string, transaction: GatewayTransaction): Promise<string | undefined> {
+    if (transaction.status === GatewayPaymentStatus.SUCCEEDED) {
+      await this.paymentService.markPaymentSucceeded(payment.id, transaction.transactionId, gateway);
+      return 'MARKED_SUCCEEDED';
+    }
+    if (UNPAID_STATUSES.includes(transaction.status)) {
+      await this.paymentService.markPaymentFailed(payment.id, `Gateway reported ${transaction.status} during reconciliation`, `RECONCILED_${transaction.status}`);
+      return 'MARKED_FAILED';
+    }
+    return undefined;
+  }
+
+  /**
+   * 列出閘道端區間內建立的交易，找出本地沒有對應付款的扣款
+   */
+  private async findMissingLocally(gateway: string, run: ReconciliationRunEntity): Promise<void> {
+    let transactions: GatewayTransaction[];
+    try {
+      transactions = await this.gatewayManager.listTransactions(gateway, { createdFrom: run.windowStart, createdTo: run.windowEnd });
+    } catch (error) {
+      this.logger.error(`Failed to list transactions from ${gateway}: ${error.message}`);
+      run.recordError({ gateway, error: error.message });
+      return;
+    }
+
+    for (const transaction of transactions) {
+      // 未扣款即結束的交易不影響帳務
+      if (UNPAID_STATUSES.includes(transaction.status)) {
+        continue;
+      }
+      run.counters.gatewayTransactions++;
+
+      try {
+        const payment =
+          (transaction.reference && (await this.paymentRepository.findById(transaction.reference))) ||
+          (await this.paymentRepository.findByGatewayTransactionId(transaction.transactionId));
+        if (payment) {
+          continue;
+        }
+
+        await this.recordDiscrepancy(run, ReconciliationDiscrepancyType.MISSING_LOCALLY, gateway, transaction.transactionId, {
+          gatewayTransactionId: transaction.transactionId,
+          gatewayStatus: transaction.status,
+          gatewayAmount: transaction.amount,
+          currency: transaction.currency,
+        });
+      } catch (error) {
+        this.logger.error(`Failed to reconcile ${gateway} transaction ${transaction.transactionId}: ${error.message}`);
+        run.recordError({ gateway, error: `${transaction.transactionId}: ${error.message}` });
+      }
+    }
+  }
+
+  /**
+   * 寫入差異；相同差異仍待處理時更新原紀錄
+   */
+  private async recordDiscrepancy(
+    run: ReconciliationRunEntity,
+    type: ReconciliationDiscrepancyType,
+    gateway: string,
+    reference: string,
+    details: DiscrepancyDetails,
+    resolution?: string,
+  ): Promise<void> {
+    const at = new Date();
+    const existing = await this.discrepancyRepository.findOpenByKey(ReconciliationDiscrepancyEntity.buildKey(type, gateway, reference));
+    const discrepancy = existing || new ReconciliationDiscrepancyEntity(type, gateway, reference, at);
+    if (existing) {
+      existing.redetect(run.id, at);
+    } else {
+      discrepancy.runId = run.id;
+    }
+    Object.assign(discrepancy, details);
+    if (resolution) {
+      discrepancy.autoResolve(resolution, at);
+    }
+
+    await this.discrepancyRepository.save(discrepancy);
+    run.recordDiscrepancy(type, discrepancy.status);
+    if (discrepancy.isOpen()) {
+      this.logger.warn(`Reconciliation discrepancy ${type} on ${gateway} ${reference} (payment ${details.paymentId ?? '-'})`);
+    }
+  }
+
+  /**
+   * 付款扣款的閘道與閘道交易編號
+   * 扣款結果未寫回時以路由紀錄中該閘道最後一次嘗試的交易編號為準
+   */
+  private resolveGatewayReference(payment: PaymentEntity): { gateway?: string; transactionId?: string } {
+    const routing = payment.metadata?.routing as GatewayRoutingDecision | undefined;
+    const gateway: string | undefined = payment.metadata?.gateway || routing?.gateway;
+    const attempt = routing?.attempts?.filter((item) => item.gateway === gateway && item.transactionId).pop();
+
+    return { gateway, transactionId: payment.providerPaymentId || payment.externalTransactionId || attempt?.transactionId };
+  }
+}
@@ -0,0 +1,219 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfService } from '@myapp/conf';
+import { ReconciliationService } from '../reconciliation.service';
+import { PaymentService } from '../../payment.service';
+import { PaymentGatewayManager } from '../../payment/payment-gateway-manager.service';
+import { MockPaymentGateway } from '../../payment/mock-payment-gateway.service';
+import { PaymentRepository } from '../../../../infra/repositories/payment.repository';
+import { JobLockRepository } from '../../../../infra/repositories/job-lock.repository';
+import { ReconciliationRunRepository } from '../../../../infra/repositories/reconciliation-run.repository';
+import { ReconciliationDiscrepancyRepository } from '../../../../infra/repositories/reconciliation-discrepancy.repository';
+import { PaymentEntity, ReconciliationDiscrepancyEntity } from '../../../entities';
+import { PaymentMethodType as GatewayPaymentMethodType, PaymentStatus as GatewayPaymentStatus } from '../../../interfaces/payment/payment-gateway.interface';
+import { BillingRunStatus, PaymentFailureCategory, PaymentStatus, ReconciliationDiscrepancyStatus, ReconciliationDiscrepancyType } from '../../../enums/codes.const';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('ReconciliationService', () => {
+  const asOf = new Date(Date.now() + HOUR_MS);
+
+  let moduleRef: TestingModule;
+  let service: ReconciliationService;
+  let gateway: MockPaymentGateway;
+  let payments: PaymentEntity[];
+  let discrepancies: ReconciliationDiscrepancyEntity[];
+  let sequence: number;
+
+  const paymentRepository = {
+    findByStatusesUpdatedBetween: jest.fn(async (statuses: PaymentStatus[], start: Date, end: Date) =>
+      payments.filter((payment) => statuses.includes(payment.status) && payment.updatedAt >= start && payment.updatedAt <= end),
+    ),
+    findById: jest.fn(async (id: string) => payments.find((payment) => payment.id === id)),
+    findByGatewayTransactionId: jest.fn(async (transactionId: string) =>
+      payments.find((payment) => payment.metadata?.routing?.attempts?.some((attempt) => attempt.transactionId === transactionId)),
+    ),
+  };
+  const paymentService = {
+    markPaymentSucceeded: jest.fn(async (id: string, transactionId: string) => {
+      const payment = payments.find((item) => item.id === id);
+      payment.markSucceeded(transactionId);
+      return payment;
+    }),
+    markPaymentFailed: jest.fn(async (id: string, reason: string, code: string) => {
+      const payment = payments.find((item) => item.id === id);
+      payment.markFailed(reason, code);
+      return payment;
+    }),
+  };
+  const jobLockRepository = { tryAcquire: jest.fn(async () => true), renew: jest.fn(async () => true), release: jest.fn() };
+  const discrepancyRepository = {
+    save: jest.fn(async (discrepancy: ReconciliationDiscrepancyEntity) => {
+      if (discrepancy.isNew()) {
+        discrepancy.id = `disc_${++sequence}`;
+        discrepancies.push(discrepancy);
+      }
+      return discrepancy;
+    }),
+    findById: jest.fn(async (id: string) => discrepancies.find((discrepancy) => discrepancy.id === id)),
+    findOpenByKey: jest.fn(async (key: string) => discrepancies.find((discrepancy) => discrepancy.key === key && discrepancy.isOpen())),
+    findByQuery: jest.fn(async (query: Record<string, any>) => {
+      const matched = discrepancies.filter((discrepancy) => discrepancy.status === query.status);
+      return { discrepancies: matched, total: matched.length };
+    }),
+  };
+
+  const processingPayment = (id: string, amount: number = 1000) => {
+    const payment = new PaymentEntity('sub_1', 'cus_1', 'pm_1', amount, new Date(), new Date(Date.now() + 30 * 24 * HOUR_MS));
+    payment.id = id;
+    payment.startAttempt();
+    payments.push(payment);
+    return payment;
+  };
+
+  // 以模擬閘道扣款並寫入路由紀錄（與 PaymentProcessingService 相同），回傳閘道交易編號
+  const charge = async (payment: PaymentEntity, scenario: 'success' | 'failed' | 'processing', amount: number = payment.amount) => {
+    const result = await gateway.createPayment({ amount, currency: 'TWD', metadata: { paymentId: payment.id, __forceScenario: scenario } });
+    const attempt = { gateway: 'mock', success: result.success, status: result.status, transactionId: result.paymentId, gatewayError: false, attemptedAt: new Date() };
+    payment.metadata = { routing: { candidates: ['mock'], skipped: [], attempts: [attempt], gateway: 'mock', failedOver: false, decidedAt: new Date() } };
+    return result.paymentId;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    payments = [];
+    discrepancies = [];
+    sequence = 0;
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        ReconciliationService,
+        PaymentGatewayManager,
+        MockPaymentGateway,
+        { provide: ConfService, useValue: { getConf: () => ({ reconciliation: { windowHours: 72, graceMinutes: 30, batchSize: 100, lockTtlMs: 60_000 } }) } },
+        { provide: PaymentRepository, useValue: paymentRepository },
+        { provide: PaymentService, useValue: paymentService },
+        { provide: JobLockRepository, useValue: jobLockRepository },
+        { provide: ReconciliationRunRepository, useValue: { save: jest.fn(async (run) => Object.assign(run, { id: run.id || 'run_1' })) } },
+        { provide: ReconciliationDiscrepancyRepository, useValue: discrepancyRepository },
+      ],
+    }).compile();
+
+    service = moduleRef.get(ReconciliationService);
+    gateway = moduleRef.get(MockPaymentGateway);
+    jest.spyOn(gateway as any, 'simulateProcessingDelay').mockResolvedValue(undefined);
+    moduleRef.get(PaymentGatewayManager).registerGateway('mock', gateway, {
+      name: 'mock',
+      enabled: true,
+      testMode: true,
+      supportedCurrencies: ['TWD'],
+      supportedPaymentMethods: [GatewayPaymentMethodType.CREDIT_CARD],
+      processingFeeRate: 0.02,
+    });
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('settles a payment stuck in PROCESSING with the final gateway result', async () => {
+    const succeeded = processingPayment('pay_1');
+    const succeededTx = await charge(succeeded, 'processing');
+    gateway.simulateTransactionUpdate(succeededTx, { status: GatewayPaymentStatus.SUCCEEDED });
+    const failed = processingPayment('pay_2');
+    await charge(failed, 'failed');
+
+    const run = await service.run({ asOf });
+
+    expect(run.status).toBe(BillingRunStatus.COMPLETED);
+    expect(paymentService.markPaymentSucceeded).toHaveBeenCalledWith('pay_1', succeededTx, 'mock');
+    expect(paymentService.markPaymentFailed).toHaveBeenCalledWith('pay_2', 'Gateway reported FAILED during reconciliation', 'RECONCILED_FAILED');
+    expect(run.counters).toMatchObject({ checked: 2, autoResolved: 2, open: 0 });
+    expect(discrepancies.map((discrepancy) => [discrepancy.paymentId, discrepancy.status, discrepancy.resolution])).toEqual([
+      ['pay_1', ReconciliationDiscrepancyStatus.AUTO_RESOLVED, 'MARKED_SUCCEEDED'],
+      ['pay_2', ReconciliationDiscrepancyStatus.AUTO_RESOLVED, 'MARKED_FAILED'],
+    ]);
+  });
+
+  it('leaves in-flight and consistent payments alone', async () => {
+    await charge(processingPayment('pay_1'), 'processing');
+    const retrying = processingPayment('pay_2');
+    await charge(retrying, 'failed');
+    retrying.markAsFailed({ errorMessage: 'Card declined', category: PaymentFailureCategory.RETRIABLE, isRetriable: true });
+    retrying.transitionTo(PaymentStatus.RETRYING, 'Payment scheduled for retry', { failureCategory: PaymentFailureCategory.RETRIABLE });
+    expect(retrying.status).toBe(PaymentStatus.RETRYING);
+
+    const run = await service.run({ asOf });
+
+    expect(run.counters).toMatchObject({ checked: 2, inFlight: 1, matched: 1, open: 0, autoResolved: 0 });
+    expect(discrepancies).toHaveLength(0);
+    expect(paymentService.markPaymentSucceeded).not.toHaveBeenCalled();
+    expect(paymentService.markPaymentFailed).not.toHaveBeenCalled();
+  });
+
+  it('keeps amount mismatches open for manual resolution and dedupes repeated detections', async () => {
+    const payment = processingPayment('pay_1', 1000);
+    const transactionId = await charge(payment, 'success', 900);
+
+    await service.run({ asOf });
+    await service.run({ asOf });
+
+    expect(paymentService.markPaymentSucceeded).not.toHaveBeenCalled();
+    expect(discrepancies).toHaveLength(1);
+    expect(discrepancies[0]).toMatchObject({
+      type: ReconciliationDiscrepancyType.AMOUNT_MISMATCH,
+      status: ReconciliationDiscrepancyStatus.OPEN,
+      gatewayTransactionId: transactionId,
+      localAmount: 1000,
+      gatewayAmount: 900,
+      detectionCount: 2,
+    });
+
+    const { discrepancies: open } = await service.listDiscrepancies();
+    expect(open.map((discrepancy) => discrepancy.id)).toEqual(['disc_1']);
+
+    const resolved = await service.resolveDiscrepancy('disc_1', 'ops@example.com', 'Partial capture confirmed with ECPay');
+    expect(resolved).toMatchObject({ status: ReconciliationDiscrepancyStatus.RESOLVED, resolvedBy: 'ops@example.com' });
+    await expect(service.resolveDiscrepancy('disc_1', 'ops@example.com', 'again')).rejects.toThrow('already resolved');
+    await expect(service.resolveDiscrepancy('disc_x', 'ops@example.com', 'n/a')).rejects.toThrow('not found');
+  });
+
+  it('flags payments the gateway does not know about', async () => {
+    const unknown = processingPayment('pay_1');
+    unknown.metadata = { gateway: 'mock', routing: { gateway: 'mock', attempts: [{ gateway: 'mock', transactionId: 'pay_missing' }] } };
+    processingPayment('pay_2');
+
+    const run = await service.run({ asOf });
+
+    expect(run.discrepancies).toEqual({ [ReconciliationDiscrepancyType.MISSING_AT_GATEWAY]: 2 });
+    expect(discrepancies.map((discrepancy) => [discrepancy.paymentId, discrepancy.gateway, discrepancy.gatewayTransactionId])).toEqual([
+      ['pay_1', 'mock', 'pay_missing'],
+      ['pay_2', 'unknown', undefined],
+    ]);
+  });
+
+  it('flags captured gateway transactions without a local payment', async () => {
+    const ghost = await gateway.createPayment({ amount: 500, currency: 'TWD', metadata: { paymentId: 'pay_ghost', __forceScenario: 'success' } });
+    await gateway.createPayment({ amount: 500, currency: 'TWD', metadata: { paymentId: 'pay_declined', __forceScenario: 'failed' } });
+    const settled = processingPayment('pay_1');
+    const settledTx = await charge(settled, 'success');
+    settled.markSucceeded(settledTx);
+
+    const run = await service.run({ asOf });
+
+    expect(run.counters).toMatchObject({ checked: 0, gatewayTransactions: 2, open: 1 });
+    expect(discrepancies).toHaveLength(1);
+    expect(discrepancies[0]).toMatchObject({
+      type: ReconciliationDiscrepancyType.MISSING_LOCALLY,
+      gatewayTransactionId: ghost.paymentId,
+      gatewayStatus: GatewayPaymentStatus.SUCCEEDED,
+      gatewayAmount: 500,
+    });
+  });
+
+  it('skips the run when another instance holds the lock', async () => {
+    jobLockRepository.tryAcquire.mockResolvedValueOnce(false);
+
+    expect(await service.run({ asOf })).toBeUndefined();
+    expect(paymentRepository.findByStatusesUpdatedBetween).not.toHaveBeenCalled();
+  });
+});
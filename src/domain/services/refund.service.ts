@@ -1,26 +1,15 @@
-import { Injectable } from '@nestjs/common';
-
-export interface Refund {
-  id: string;
-  customerId: string;
-  subscriptionId?: string;
-  paymentId?: string;
-  orderId?: string;
-  amount: number;
-  currency: string;
-  reason: string;
-  status: 'PENDING' | 'APPROVED' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'REJECTED';
-  requestedAt: string;
-  processedAt?: string;
-  completedAt?: string;
-  refundMethod: 'ORIGINAL_PAYMENT' | 'BANK_TRANSFER' | 'STORE_CREDIT';
-  metadata: {
-    originalPaymentMethod: string;
-    refundReference?: string;
-    processingDetails?: string;
-    adminNotes?: string;
-  };
-}
+import { Injectable, Logger } from '@nestjs/common';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { RefundRepository, RefundQuery } from '../../infra/repositories/refund.repository';
+import { PaymentRepository } from '../../infra/repositories/payment.repository';
+import { SubscriptionRepository } from '../../infra/repositories/subscription.repository';
+import { PaymentGatewayManager } from './payment/payment-gateway-manager.service';
+import { CustomerCreditService } from './credits/customer-credit.service';
+import { RefundResult } from '../interfaces/payment/payment-gateway.interface';
+import { RefundEntity, RefundStatusChange } from '../entities/refund.entity';
+import { PaymentEntity } from '../entities/payment.entity';
+import { CreditSourceType, RefundMethod, RefundStatus, RefundType } from '../enums/codes.const';
+import { Money } from '../value-objects/money';
 
 export interface RefundPolicy {
   productId: string;
@@ -31,49 +20,27 @@ export interface RefundPolicy {
   conditions: string[];
 }
 
+export interface RequestRefundCommand {
+  customerId: string;
+  /** 指定退款的付款；未指定時取訂閱最近一筆可退款的付款 */
+  paymentId?: string;
+  subscriptionId?: string;
+  /** 退款金額（以分為單位），未指定時退還剩餘可退金額 */
+  amount?: number;
+  reason: string;
+  /** 退款方式，預設經原付款退回 */
+  refundMethod?: RefundMethod;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
 /**
  * 退款管理服務
- * 負責處理退款申請、審核和執行
+ * 負責處理退款申請、審核和執行；退款經原付款的支付閘道執行或轉為客戶抵用金，成功後回寫付款的退款紀錄
  */
 @Injectable()
 export class RefundService {
-  private readonly refunds: Refund[] = [
-    {
-      id: 'refund_001',
-      customerId: 'cust_123',
-      subscriptionId: 'sub_premium_001',
-      paymentId: 'pay_001',
-      amount: 999,
-      currency: 'TWD',
-      reason: 'Service dissatisfaction',
-      status: 'COMPLETED',
-      requestedAt: '2024-01-15T10:30:00Z',
-      processedAt: '2024-01-15T14:00:00Z',
-      completedAt: '2024-01-16T09:00:00Z',
-      refundMethod: 'ORIGINAL_PAYMENT',
-      metadata: {
-        originalPaymentMethod: 'credit_card',
-        refundReference: 'REF_20240115_001',
-        processingDetails: 'Refunded to original credit card',
-      },
-    },
-    {
-      id: 'refund_002',
-      customerId: 'cust_456',
-      subscriptionId: 'sub_basic_002',
-      amount: 299,
-      currency: 'TWD',
-      reason: 'Accidental purchase',
-      status: 'PROCESSING',
-      requestedAt: '2024-01-20T16:45:00Z',
-      processedAt: '2024-01-21T09:00:00Z',
-      refundMethod: 'ORIGINAL_PAYMENT',
-      metadata: {
-        originalPaymentMethod: 'credit_card',
-        processingDetails: 'Processing refund to original payment method',
-      },
-    },
-  ];
+  private readonly logger = new Logger(RefundService.name);
 
   private readonly refundPolicies: RefundPolicy[] = [
     {
@@ -110,123 +77,105 @@ export class RefundService {
     },
   ];
 
+  constructor(
+    private readonly refundRepository: RefundRepository,
+    private readonly paymentRepository: PaymentRepository,
+    private readonly subscriptionRepository: SubscriptionRepository,
+    private readonly paymentGatewayManager: PaymentGatewayManager,
+    private readonly customerCreditService: CustomerCreditService,
+  ) {}
+
   /**
    * 申請退款
+   * 不符資格的申請記錄為已取消；全額退款期內的申請直接核准並送出閘道，其餘待人工審核
    */
-  public async requestRefund(request: {
-    customerId: string;
-    subscriptionId?: string;
-    paymentId?: string;
-    orderId?: string;
-    amount: number;
-    reason: string;
-  }): Promise<{ refund: Refund; eligible: boolean; policy?: RefundPolicy }> {
+  public async requestRefund(request: RequestRefundCommand): Promise<{ refund: RefundEntity; eligible: boolean; policy?: RefundPolicy; reasons: string[] }> {
     if (!request.customerId) {
       throw new Error('Customer ID is required');
     }
 
-    if (!request.subscriptionId && !request.paymentId && !request.orderId) {
-      throw new Error('Either subscriptionId, paymentId, or orderId is required');
+    if (!request.subscriptionId && !request.paymentId) {
+      throw new Error('Either subscriptionId or paymentId is required');
+    }
+
+    const payment = await this.findRefundablePayment(request);
+    if (!payment || payment.customerId !== request.customerId) {
+      throw new Error('Refundable payment not found');
+    }
+
+    const remaining = await this.getRefundableBalance(payment);
+    const amount = new Money(request.amount ?? remaining.amount, payment.currency);
+    if (!amount.isPositive() || !payment.canRefund(amount) || !amount.isLessOrEqual(remaining)) {
+      throw new Error(`Refund amount exceeds refundable balance ${remaining.amount}`);
     }
 
     // 檢查退款資格
-    const eligibilityResult = await this.checkRefundEligibility({
+    const eligibility = await this.checkRefundEligibility({
       customerId: request.customerId,
-      subscriptionId: request.subscriptionId,
-      amount: request.amount,
+      subscriptionId: payment.subscriptionId,
+      amount: amount.amount,
+      paidAt: payment.paidAt || payment.createdAt,
     });
 
-    // 創建退款記錄
-    const refundId = `refund_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const newRefund: Refund = {
-      id: refundId,
-      customerId: request.customerId,
-      subscriptionId: request.subscriptionId,
-      paymentId: request.paymentId,
-      orderId: request.orderId,
-      amount: request.amount,
-      currency: 'TWD',
-      reason: request.reason,
-      status: eligibilityResult.eligible ? 'PENDING' : 'REJECTED',
-      requestedAt: new Date().toISOString(),
-      refundMethod: 'ORIGINAL_PAYMENT',
-      metadata: {
-        originalPaymentMethod: 'credit_card',
-        adminNotes: eligibilityResult.eligible ? 'Eligible for refund' : 'Not eligible for refund',
-      },
-    };
+    const refundType = amount.isEqual(payment.getAmount()) ? RefundType.FULL : RefundType.PARTIAL;
+    const refund = new RefundEntity(payment.id, payment.subscriptionId, payment.customerId, amount, refundType, request.reason);
+    refund.refundMethod = request.refundMethod || RefundMethod.ORIGINAL_PAYMENT;
 
-    this.refunds.push(newRefund);
+    if (!eligibility.eligible) {
+      refund.cancel(eligibility.reasons.join('; '));
+      await this.refundRepository.save(refund);
+      return { refund, eligible: false, policy: eligibility.policy, reasons: eligibility.reasons };
+    }
 
-    return {
-      refund: newRefund,
-      eligible: eligibilityResult.eligible,
-      policy: eligibilityResult.policy,
-    };
+    await this.refundRepository.save(refund);
+    if (eligibility.withinFullRefundPeriod) {
+      refund.approve('Auto-approved within full refund period');
+      await this.execute(refund, payment);
+    }
+
+    return { refund, eligible: true, policy: eligibility.policy, reasons: [] };
   }
 
   /**
    * 取得退款狀態
    */
-  public async getRefundStatus(refundId: string): Promise<{ refund: Refund | null; history: { timestamp: string; status: string; note?: string }[] }> {
+  public async getRefundStatus(refundId: string): Promise<{ refund: CustomDefinition.TNullable<RefundEntity>; history: RefundStatusChange[] }> {
     if (!refundId) {
       throw new Error('Refund ID is required');
     }
 
-    const refund = this.refunds.find((r) => r.id === refundId);
-    if (!refund) {
-      return { refund: null, history: [] };
-    }
-
-    // 模擬退款歷史記錄
-    const history = [
-      {
-        timestamp: refund.requestedAt,
-        status: 'REQUESTED',
-        note: 'Refund request submitted',
-      },
-    ];
-
-    if (refund.processedAt) {
-      history.push({
-        timestamp: refund.processedAt,
-        status: 'APPROVED',
-        note: 'Refund approved and processing initiated',
-      });
-    }
-
-    if (refund.completedAt) {
-      history.push({
-        timestamp: refund.completedAt,
-        status: 'COMPLETED',
-        note: 'Refund completed successfully',
-      });
-    }
-
-    return { refund, history };
+    const refund = await this.refundRepository.findById(refundId);
+    return { refund, history: refund?.statusHistory || [] };
   }
 
   /**
    * 取得客戶退款記錄
    */
-  public async getCustomerRefunds(customerId: string): Promise<{ refunds: Refund[] }> {
+  public async getCustomerRefunds(customerId: string): Promise<{ refunds: RefundEntity[] }> {
     if (!customerId) {
       throw new Error('Customer ID is required');
     }
 
-    const customerRefunds = this.refunds.filter((refund) => refund.customerId === customerId).sort((a, b) => new Date(b.requestedAt).getTime() - new Date(a.requestedAt).getTime());
+    return { refunds: await this.refundRepository.findByCustomerId(customerId) };
+  }
 
-    return { refunds: customerRefunds };
+  /**
+   * 取得訂閱退款記錄（新到舊）
+   */
+  public async getSubscriptionRefunds(subscriptionId: string, query: RefundQuery = {}): Promise<RefundEntity[]> {
+    return this.refundRepository.findBySubscriptionId(subscriptionId, query);
   }
 
   /**
    * 檢查退款資格
+   * 期限自付款時間起算，未提供時以訂閱建立時間起算
    */
   public async checkRefundEligibility(request: {
     customerId: string;
     subscriptionId?: string;
     amount: number;
-  }): Promise<{ eligible: boolean; policy?: RefundPolicy; reasons: string[] }> {
+    paidAt?: Date;
+  }): Promise<{ eligible: boolean; policy?: RefundPolicy; reasons: string[]; withinFullRefundPeriod?: boolean }> {
     const reasons: string[] = [];
 
     if (!request.subscriptionId) {
@@ -234,15 +183,8 @@ export class RefundService {
       return { eligible: false, reasons };
     }
 
-    // 模擬訂閱資料查詢
-    const subscription = {
-      id: request.subscriptionId,
-      productId: 'prod_basic_monthly',
-      createdAt: '2024-01-01T00:00:00Z',
-      status: 'ACTIVE',
-    };
-
-    if (!subscription) {
+    const subscription = await this.subscriptionRepository.findById(request.subscriptionId);
+    if (!subscription || subscription.customerId !== request.customerId) {
       reasons.push('Subscription not found');
       return { eligible: false, reasons };
     }
@@ -260,59 +202,58 @@ export class RefundService {
     }
 
     // 檢查退款期限
-    const subscriptionDate = new Date(subscription.createdAt);
-    const daysSinceSubscription = Math.floor((Date.now() - subscriptionDate.getTime()) / (1000 * 60 * 60 * 24));
+    const since = request.paidAt || subscription.createdAt;
+    const daysSince = Math.floor((Date.now() - new Date(since).getTime()) / DAY_MS);
 
-    if (daysSinceSubscription > policy.refundPeriodDays) {
+    if (daysSince > policy.refundPeriodDays) {
       reasons.push(`Refund period expired (${policy.refundPeriodDays} days limit)`);
       return { eligible: false, policy, reasons };
     }
 
     // 檢查是否允許部分退款
-    if (daysSinceSubscription > (policy.fullRefundPeriodDays || 0) && !policy.partialRefundAllowed) {
+    const withinFullRefundPeriod = daysSince <= (policy.fullRefundPeriodDays || 0);
+    if (!withinFullRefundPeriod && !policy.partialRefundAllowed) {
       reasons.push('Only full refund period has passed and partial refunds not allowed');
       return { eligible: false, policy, reasons };
     }
 
-    return { eligible: true, policy, reasons: [] };
+    return { eligible: true, policy, reasons: [], withinFullRefundPeriod };
   }
 
   /**
    * 計算退款金額
+   * 全額退款期內全額退還，之後依當期未使用天數按比例計算
    */
   public async calculateRefundAmount(request: { subscriptionId: string; originalAmount: number }): Promise<{
     refundAmount: number;
-    refundType: 'FULL' | 'PARTIAL';
+    refundType: RefundType;
     calculation: { originalAmount: number; usageDays: number; totalPeriodDays: number; refundPercentage: number };
   }> {
     if (!request.subscriptionId) {
       throw new Error('Subscription ID is required');
     }
 
-    // 模擬訂閱資料
-    const subscription = {
-      id: request.subscriptionId,
-      productId: 'prod_basic_monthly',
-      createdAt: '2024-01-01T00:00:00Z',
-      billingPeriod: 'monthly',
-    };
+    const subscription = await this.subscriptionRepository.findById(request.subscriptionId);
+    if (!subscription) {
+      throw new Error('Subscription not found');
+    }
 
     const policy = this.refundPolicies.find((p) => p.productId === subscription.productId);
     if (!policy) {
       throw new Error('Refund policy not found');
     }
 
-    const subscriptionDate = new Date(subscription.createdAt);
-    const daysSinceSubscription = Math.floor((Date.now() - subscriptionDate.getTime()) / (1000 * 60 * 60 * 24));
+    const periodStart = subscription.currentPeriodStart;
+    const usageDays = Math.floor((Date.now() - periodStart.getTime()) / DAY_MS);
 
     // 全額退款期間
-    if (daysSinceSubscription <= (policy.fullRefundPeriodDays || 0)) {
+    if (usageDays <= (policy.fullRefundPeriodDays || 0)) {
       return {
         refundAmount: request.originalAmount,
-        refundType: 'FULL',
+        refundType: RefundType.FULL,
         calculation: {
           originalAmount: request.originalAmount,
-          usageDays: daysSinceSubscription,
+          usageDays,
           totalPeriodDays: policy.fullRefundPeriodDays || 0,
           refundPercentage: 100,
         },
@@ -320,17 +261,17 @@ export class RefundService {
     }
 
     // 部分退款計算
-    const totalPeriodDays = subscription.billingPeriod === 'monthly' ? 30 : 365;
-    const unusedDays = Math.max(0, totalPeriodDays - daysSinceSubscription);
+    const totalPeriodDays = Math.max(1, Math.round((subscription.currentPeriodEnd.getTime() - periodStart.getTime()) / DAY_MS));
+    const unusedDays = Math.max(0, totalPeriodDays - usageDays);
     const refundPercentage = Math.round((unusedDays / totalPeriodDays) * 100);
     const refundAmount = Math.round((request.originalAmount * refundPercentage) / 100);
 
     return {
       refundAmount,
-      refundType: 'PARTIAL',
+      refundType: RefundType.PARTIAL,
       calculation: {
         originalAmount: request.originalAmount,
-        usageDays: daysSinceSubscription,
+        usageDays,
         totalPeriodDays,
         refundPercentage,
       },
@@ -339,51 +280,215 @@ export class RefundService {
 
   /**
    * 處理退款（審核和執行）
+   * 核准時重新檢查可退金額，並以狀態條件更新領取退款後才送出支付閘道；失敗的退款可再次核准重送
    */
-  public async processRefund(refundId: string, action: 'APPROVE' | 'REJECT', adminNotes?: string): Promise<{ success: boolean; refund: Refund; message: string }> {
+  public async processRefund(refundId: string, action: 'APPROVE' | 'REJECT', adminNotes?: string): Promise<{ success: boolean; refund: RefundEntity; message: string }> {
     if (!refundId) {
       throw new Error('Refund ID is required');
     }
 
-    const refund = this.refunds.find((r) => r.id === refundId);
+    const refund = await this.refundRepository.findById(refundId);
     if (!refund) {
       throw new Error('Refund not found');
     }
 
-    if (refund.status !== 'PENDING') {
+    const retrying = action === 'APPROVE' && refund.canRetry();
+    if (refund.status !== RefundStatus.PENDING && !retrying) {
       throw new Error(`Cannot process refund in ${refund.status} status`);
     }
 
-    const now = new Date().toISOString();
+    if (action === 'REJECT') {
+      refund.cancel(adminNotes || 'Refund rejected');
+      if (!(await this.refundRepository.transition(refund, RefundStatus.PENDING))) {
+        throw new Error(`Refund ${refund.id} is already being processed`);
+      }
+      return { success: true, refund, message: 'Refund rejected' };
+    }
 
-    if (action === 'APPROVE') {
-      refund.status = 'PROCESSING';
-      refund.processedAt = now;
-      refund.metadata.adminNotes = adminNotes || 'Refund approved';
+    const payment = await this.paymentRepository.findById(refund.paymentId);
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
 
-      // 模擬處理時間後完成
-      setTimeout(() => {
-        refund.status = 'COMPLETED';
-        refund.completedAt = new Date().toISOString();
-        refund.metadata.refundReference = `REF_${Date.now()}`;
-        refund.metadata.processingDetails = 'Refund processed successfully';
-      }, 1000);
+    const remaining = await this.getRefundableBalance(payment, refund.id);
+    if (!payment.canRefund(refund.getAmount()) || !refund.getAmount().isLessOrEqual(remaining)) {
+      throw new Error(`Refund amount exceeds refundable balance ${remaining.amount}`);
+    }
 
-      return {
-        success: true,
-        refund,
-        message: 'Refund approved and processing initiated',
-      };
+    const fromStatus = refund.status;
+    refund.approve(adminNotes);
+    if (!(await this.refundRepository.transition(refund, fromStatus))) {
+      throw new Error(`Refund ${refund.id} is already being processed`);
+    }
+    await this.execute(refund, payment);
+
+    switch (refund.status) {
+      case RefundStatus.SUCCEEDED:
+        return { success: true, refund, message: 'Refund completed' };
+      case RefundStatus.PROCESSING:
+        return { success: true, refund, message: 'Refund approved and processing initiated' };
+      default:
+        return { success: false, refund, message: `Refund failed: ${refund.failureReason}` };
+    }
+  }
+
+  /**
+   * 確認閘道非同步完成的退款（如人工退刷或 webhook 通知）
+   */
+  public async completeRefund(
+    refundId: string,
+    outcome: { succeeded: boolean; providerRefundId?: string; failureReason?: string },
+  ): Promise<CustomDefinition.TNullable<RefundEntity>> {
+    const refund = await this.refundRepository.findById(refundId);
+    if (!refund || refund.status !== RefundStatus.PROCESSING) {
+      return refund;
+    }
+
+    if (!outcome.succeeded) {
+      refund.markFailed(outcome.failureReason || 'Refund failed at gateway');
+      return this.refundRepository.save(refund);
+    }
+
+    const payment = await this.paymentRepository.findById(refund.paymentId);
+    refund.markSucceeded(outcome.providerRefundId);
+    if (payment) {
+      await this.applyToPayment(refund, payment);
+    }
+    return this.refundRepository.save(refund);
+  }
+
+  /**
+   * 記錄爭議敗訴的退單扣回
+   * 款項已由發卡機構經閘道扣回，不再送出閘道；扣回金額以付款剩餘可退金額為上限，已全額退款時回傳 undefined
+   */
+  public async recordChargeback(
+    payment: PaymentEntity,
+    amount: Money,
+    dispute: { disputeId: string; gateway: string; gatewayDisputeId?: string; reason: string },
+  ): Promise<CustomDefinition.TNullable<RefundEntity>> {
+    const remaining = payment.getAmount().subtract(payment.getTotalRefundedAmount());
+    const reversal = amount.isLessOrEqual(remaining) ? amount : remaining;
+    if (!reversal.isPositive()) {
+      return undefined;
+    }
+
+    const refundType = reversal.isEqual(payment.getAmount()) ? RefundType.FULL : RefundType.PARTIAL;
+    const refund = new RefundEntity(payment.id, payment.subscriptionId, payment.customerId, reversal, refundType, `Chargeback: ${dispute.reason}`);
+    refund.refundMethod = RefundMethod.CHARGEBACK;
+    refund.metadata = { disputeId: dispute.disputeId };
+    refund.approve('Dispute lost');
+    refund.startProcessing(dispute.gateway);
+    refund.markSucceeded(dispute.gatewayDisputeId);
+
+    await this.refundRepository.save(refund);
+    await this.applyToPayment(refund, payment);
+    return refund;
+  }
+
+  /**
+   * 付款剩餘可退金額
+   * 扣除已成功的退款與處理中（待審、已核准、已送出閘道）的退款，重新核准時排除該筆退款本身
+   */
+  private async getRefundableBalance(payment: PaymentEntity, excludeRefundId?: string): Promise<Money> {
+    const refunds = await this.refundRepository.findByPaymentId(payment.id);
+    const inFlight = refunds.filter((refund) => refund.id !== excludeRefundId && refund.isInFlight()).map((refund) => refund.getAmount());
+    return payment
+      .getAmount()
+      .subtract(payment.getTotalRefundedAmount())
+      .subtract(Money.sum(Money.zero(payment.currency), ...inFlight));
+  }
+
+  /**
+   * 指定付款時直接查找，否則取訂閱最近一筆可退款的付款
+   */
+  private async findRefundablePayment(request: RequestRefundCommand): Promise<CustomDefinition.TNullable<PaymentEntity>> {
+    if (request.paymentId) {
+      return this.paymentRepository.findById(request.paymentId);
+    }
+    const payments = await this.paymentRepository.findBySubscriptionId(request.subscriptionId);
+    return payments.find((payment) => payment.canRefund());
+  }
+
+  /**
+   * 經原付款的支付閘道執行退款
+   * 閘道受理但尚未完成時維持處理中，待 completeRefund 確認
+   */
+  private async execute(refund: RefundEntity, payment: PaymentEntity): Promise<void> {
+    if (refund.refundMethod === RefundMethod.STORE_CREDIT) {
+      return this.executeAsCredit(refund, payment);
+    }
+
+    let result: RefundResult;
+    try {
+      const gateway = this.paymentGatewayManager.getGateway(payment.metadata?.gateway).getName();
+      refund.startProcessing(gateway);
+      await this.refundRepository.save(refund);
+
+      result = await this.paymentGatewayManager.processRefund(gateway, payment.providerChargeId || payment.externalTransactionId, {
+        amount: refund.amount,
+        reason: refund.reason,
+        metadata: { refundId: refund.id },
+      });
+    } catch (error) {
+      this.logger.error(`Refund ${refund.id} failed: ${error.message}`);
+      refund.markFailed(error.message);
+      await this.refundRepository.save(refund);
+      return;
+    }
+
+    if (!result.success || result.status === RefundStatus.FAILED) {
+      refund.markFailed(result.errorMessage || 'Refund rejected by gateway');
+    } else if (result.status === RefundStatus.SUCCEEDED) {
+      refund.markSucceeded(result.refundId);
+      await this.applyToPayment(refund, payment);
     } else {
-      refund.status = 'REJECTED';
-      refund.processedAt = now;
-      refund.metadata.adminNotes = adminNotes || 'Refund rejected';
+      refund.recordProviderRefund(result.refundId);
+    }
 
-      return {
-        success: true,
-        refund,
-        message: 'Refund rejected',
-      };
+    await this.refundRepository.save(refund);
+  }
+
+  /**
+   * 將退款金額轉入客戶抵用金，不經支付閘道
+   */
+  private async executeAsCredit(refund: RefundEntity, payment: PaymentEntity): Promise<void> {
+    try {
+      refund.startProcessing('store_credit');
+      await this.refundRepository.save(refund);
+
+      await this.customerCreditService.grantCredit({
+        customerId: refund.customerId,
+        amount: refund.getAmount(),
+        source: { type: CreditSourceType.REFUND, id: refund.id },
+        reason: refund.reason,
+      });
+    } catch (error) {
+      this.logger.error(`Refund ${refund.id} failed: ${error.message}`);
+      refund.markFailed(error.message);
+      await this.refundRepository.save(refund);
+      return;
     }
+
+    refund.markSucceeded();
+    await this.applyToPayment(refund, payment);
+    await this.refundRepository.save(refund);
+  }
+
+  /**
+   * 回寫付款的退款紀錄，付款依累計退款金額轉為部分或全額退款
+   */
+  private async applyToPayment(refund: RefundEntity, payment: PaymentEntity): Promise<void> {
+    payment.addRefund({
+      refundId: refund.id,
+      refundAmount: refund.getAmount(),
+      refundedAt: refund.completedAt,
+      reason: refund.reason,
+      status: RefundStatus.SUCCEEDED,
+      providerRefundId: refund.providerRefundId,
+    });
+    payment.refundedAmount = payment.getTotalRefundedAmount().amount;
+    payment.refundedAt = refund.completedAt;
+    payment.refundReason = refund.reason;
+    await this.paymentRepository.save(payment);
   }
 }
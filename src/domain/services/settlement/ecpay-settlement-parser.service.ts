@@ -0,0 +1,64 @@
+import { Injectable } from '@nestjs/common';
+import { ISettlementFileParser, SettlementFileParseResult } from '../../interfaces/settlement';
+import { parseCsvAmount, parseCsvDate, parseCsvRecords } from '../../utils/csv.util';
+
+/** 撥款對帳檔欄位名稱（廠商後台匯出的 CSV 標題） */
+const COLUMNS = {
+  merchantTradeNo: '特店訂單編號',
+  tradeNo: '綠界訂單編號',
+  gwsr: '授權交易單號',
+  amount: '交易金額',
+  fee: '手續費',
+  netAmount: '撥款金額',
+  settlementDate: '撥款日期',
+};
+
+const REQUIRED_COLUMNS = [COLUMNS.merchantTradeNo, COLUMNS.amount, COLUMNS.fee, COLUMNS.settlementDate];
+
+/**
+ * 綠界撥款對帳檔解析器
+ * 一般交易以特店訂單編號比對；定期定額每期共用特店訂單編號，先以「特店訂單編號:授權交易單號」比對各期付款
+ */
+@Injectable()
+export class ECPaySettlementParser implements ISettlementFileParser {
+  getName(): string {
+    return 'ecpay';
+  }
+
+  parse(content: string): SettlementFileParseResult {
+    const result: SettlementFileParseResult = { rows: [], errors: [] };
+
+    for (const { rowNumber, values } of parseCsvRecords(content, REQUIRED_COLUMNS)) {
+      const merchantTradeNo = values[COLUMNS.merchantTradeNo];
+      const tradeNo = values[COLUMNS.tradeNo] || undefined;
+      const gwsr = values[COLUMNS.gwsr] || undefined;
+      const settlementDate = parseCsvDate(values[COLUMNS.settlementDate]);
+      const grossAmount = parseCsvAmount(values[COLUMNS.amount]);
+      const feeAmount = parseCsvAmount(values[COLUMNS.fee]);
+      const netAmount = values[COLUMNS.netAmount] ? parseCsvAmount(values[COLUMNS.netAmount]) : grossAmount - feeAmount;
+
+      if (!merchantTradeNo) {
+        result.errors.push({ rowNumber, error: `Missing ${COLUMNS.merchantTradeNo}` });
+      } else if (!settlementDate) {
+        result.errors.push({ rowNumber, error: `Invalid ${COLUMNS.settlementDate}: ${values[COLUMNS.settlementDate]}` });
+      } else if ([grossAmount, feeAmount, netAmount].some((amount) => amount === undefined || Number.isNaN(amount))) {
+        result.errors.push({ rowNumber, error: 'Invalid amount' });
+      } else {
+        result.rows.push({
+          rowNumber,
+          transactionId: merchantTradeNo,
+          matchKeys: [gwsr && `${merchantTradeNo}:${gwsr}`, tradeNo && `${merchantTradeNo}:${tradeNo}`, merchantTradeNo].filter(Boolean),
+          gatewayReference: tradeNo,
+          settlementDate,
+          grossAmount,
+          feeAmount,
+          netAmount,
+          currency: 'TWD',
+          raw: values,
+        });
+      }
+    }
+
+    return result;
+  }
+}
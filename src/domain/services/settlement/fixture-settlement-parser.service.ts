@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+import { ISettlementFileParser, SettlementFileParseResult } from '../../interfaces/settlement';
+import { parseCsvAmount, parseCsvDate, parseCsvRecords } from '../../utils/csv.util';
+
+const REQUIRED_COLUMNS = ['transaction_id', 'settlement_date', 'gross_amount', 'fee_amount'];
+
+/**
+ * 固定格式撥款檔解析器
+ * 對應 Mock 閘道，供本機開發與測試使用
+ *
+ * 欄位：transaction_id, settlement_date, gross_amount, fee_amount, net_amount（選填，預設為金額減手續費）, currency（選填）, reference（選填）
+ */
+@Injectable()
+export class FixtureSettlementParser implements ISettlementFileParser {
+  getName(): string {
+    return 'mock';
+  }
+
+  parse(content: string): SettlementFileParseResult {
+    const result: SettlementFileParseResult = { rows: [], errors: [] };
+
+    for (const { rowNumber, values } of parseCsvRecords(content, REQUIRED_COLUMNS)) {
+      const settlementDate = parseCsvDate(values.settlement_date);
+      const grossAmount = parseCsvAmount(values.gross_amount);
+      const feeAmount = parseCsvAmount(values.fee_amount);
+      const netAmount = values.net_amount ? parseCsvAmount(values.net_amount) : grossAmount - feeAmount;
+
+      if (!values.transaction_id) {
+        result.errors.push({ rowNumber, error: 'Missing transaction_id' });
+      } else if (!settlementDate) {
+        result.errors.push({ rowNumber, error: `Invalid settlement_date: ${values.settlement_date}` });
+      } else if ([grossAmount, feeAmount, netAmount].some((amount) => amount === undefined || Number.isNaN(amount))) {
+        result.errors.push({ rowNumber, error: 'Invalid amount' });
+      } else {
+        result.rows.push({
+          rowNumber,
+          transactionId: values.transaction_id,
+          gatewayReference: values.reference || undefined,
+          settlementDate,
+          grossAmount,
+          feeAmount,
+          netAmount,
+          currency: values.currency || 'TWD',
+          raw: values,
+        });
+      }
+    }
+
+    return result;
+  }
+}
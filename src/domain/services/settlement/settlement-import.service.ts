@@ -0,0 +1,151 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { createHash } from 'crypto';
+import { SettlementParserRegistry } from './settlement-parser-registry.service';
+import { BillingAttemptService } from '../billing-attempt.service';
+import { PaymentEntity, SettlementBatchEntity, SettlementRecordEntity } from '../../entities';
+import { PaymentStatus, SettlementRecordStatus } from '../../enums/codes.const';
+import { SettlementFileParseResult, SettlementFileRow } from '../../interfaces/settlement';
+import { Money } from '../../value-objects/money';
+import { PaymentRepository } from '../../../infra/repositories/payment.repository';
+import { SettlementBatchRepository } from '../../../infra/repositories/settlement-batch.repository';
+import { SettlementRecordRepository, SettlementRecordQuery, SettlementPayoutTotal } from '../../../infra/repositories/settlement-record.repository';
+
+/** 已扣款的付款狀態，退款仍會出現在當初扣款的撥款明細 */
+const CAPTURED_STATUSES = [PaymentStatus.SUCCEEDED, PaymentStatus.PARTIALLY_REFUNDED, PaymentStatus.REFUNDED];
+
+/**
+ * 撥款檔匯入服務
+ * 依閘道解析撥款檔、比對付款並記錄手續費與淨額；無法對應的明細保留於撥款明細供財務查詢
+ */
+@Injectable()
+export class SettlementImportService {
+  private readonly logger = new Logger(SettlementImportService.name);
+
+  constructor(
+    private readonly parserRegistry: SettlementParserRegistry,
+    private readonly paymentRepository: PaymentRepository,
+    private readonly billingAttemptService: BillingAttemptService,
+    private readonly batchRepository: SettlementBatchRepository,
+    private readonly recordRepository: SettlementRecordRepository,
+  ) {}
+
+  /**
+   * 匯入撥款檔
+   * 同一閘道相同內容的檔案只能匯入一次；個別資料列的錯誤記錄於批次，不中斷匯入
+   */
+  public async importFile(gateway: string, fileName: string, content: string, importedBy?: string): Promise<SettlementBatchEntity> {
+    const parser = this.parserRegistry.get(gateway);
+    const checksum = createHash('sha256').update(content).digest('hex');
+
+    const existing = await this.batchRepository.findByChecksum(gateway, checksum);
+    if (existing) {
+      throw new Error(`Settlement file already imported as batch ${existing.id}`);
+    }
+
+    let parsed: SettlementFileParseResult;
+    try {
+      parsed = parser.parse(content);
+    } catch (error) {
+      throw new Error(`Invalid settlement file: ${error.message}`);
+    }
+
+    const batch = await this.batchRepository.insert(new SettlementBatchEntity(gateway, fileName, checksum, importedBy));
+    if (!batch) {
+      throw new Error('Settlement file already imported');
+    }
+
+    parsed.errors.forEach(({ rowNumber, error }) => batch.recordError(rowNumber, error));
+    for (const row of parsed.rows) {
+      try {
+        batch.recordRow(await this.settleRow(batch, row));
+      } catch (error) {
+        this.logger.error(`Failed to settle row ${row.rowNumber} of batch ${batch.id}: ${error.message}`, error.stack);
+        batch.recordError(row.rowNumber, error.message);
+      }
+    }
+    await this.batchRepository.save(batch);
+
+    this.logger.log(
+      `Imported ${gateway} settlement file ${fileName} as batch ${batch.id}: ` +
+        `${batch.counters.matched}/${batch.counters.rows} matched, ${batch.counters.unmatched} unmatched, ${batch.counters.invalid} invalid`,
+    );
+    return batch;
+  }
+
+  public async getBatch(batchId: string): Promise<CustomDefinition.TNullable<SettlementBatchEntity>> {
+    return await this.batchRepository.findById(batchId);
+  }
+
+  public async getRecentBatches(gateway?: string, limit: number = 20): Promise<SettlementBatchEntity[]> {
+    return await this.batchRepository.findRecent(gateway, limit);
+  }
+
+  /**
+   * 查詢撥款明細，例如某批次中無法對應的明細
+   */
+  public async listRecords(query: SettlementRecordQuery = {}): Promise<{ records: SettlementRecordEntity[]; total: number; page: number; limit: number }> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const { records, total } = await this.recordRepository.findByQuery({ ...query, page, limit });
+    return { records, total, page, limit };
+  }
+
+  /**
+   * 依撥款日彙總各閘道的撥款金額（跨批次，重複撥款的明細不計入）
+   */
+  public async getPayoutSummary(from: string, to: string, gateway?: string): Promise<SettlementPayoutTotal[]> {
+    return await this.recordRepository.summarizePayouts(from, to, gateway);
+  }
+
+  /**
+   * 比對單筆明細；只有金額相符且已扣款的付款會記錄手續費與淨額
+   */
+  private async settleRow(batch: SettlementBatchEntity, row: SettlementFileRow): Promise<SettlementRecordEntity> {
+    const record = SettlementRecordEntity.fromRow(batch.id, batch.gateway, row);
+    const { payment, matchKey } = await this.findPayment(row);
+
+    if (!payment) {
+      record.classify(SettlementRecordStatus.UNMATCHED);
+    } else if (payment.settlement) {
+      record.markDuplicate(payment, matchKey);
+    } else if (payment.amount !== row.grossAmount || payment.currency !== row.currency) {
+      record.classify(SettlementRecordStatus.AMOUNT_MISMATCH, payment, matchKey);
+    } else if (!CAPTURED_STATUSES.includes(payment.status)) {
+      record.classify(SettlementRecordStatus.STATUS_MISMATCH, payment, matchKey);
+    } else {
+      record.classify(SettlementRecordStatus.MATCHED, payment, matchKey);
+    }
+    await this.recordRepository.save(record);
+
+    if (record.status === SettlementRecordStatus.MATCHED) {
+      const settlement = { settlementBatchId: batch.id, settlementDate: row.settlementDate, netAmount: row.netAmount };
+      payment.recordSettlement({
+        ...settlement,
+        settlementRecordId: record.id,
+        grossAmount: row.grossAmount,
+        feeAmount: row.feeAmount,
+        currency: row.currency,
+        settledAt: new Date(),
+      });
+      await this.paymentRepository.save(payment);
+      await this.billingAttemptService.recordSettlementFees(payment.id, new Money(row.feeAmount, row.currency), settlement);
+    }
+    return record;
+  }
+
+  /**
+   * 依序以解析器提供的交易編號查找付款（providerPaymentId、externalTransactionId 等）
+   * 同一編號對應多筆付款時（定期定額各期），優先選擇尚未撥款且金額相符的付款
+   */
+  private async findPayment(row: SettlementFileRow): Promise<{ payment?: PaymentEntity; matchKey?: string }> {
+    for (const matchKey of row.matchKeys?.length ? row.matchKeys : [row.transactionId]) {
+      const candidates = await this.paymentRepository.findAllByGatewayTransactionId(matchKey);
+      if (candidates.length > 0) {
+        const unsettled = candidates.filter((candidate) => !candidate.settlement);
+        return { payment: unsettled.find((candidate) => candidate.amount === row.grossAmount) || unsettled[0] || candidates[0], matchKey };
+      }
+    }
+    return {};
+  }
+}
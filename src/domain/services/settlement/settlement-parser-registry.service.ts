@@ -0,0 +1,35 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ISettlementFileParser } from '../../interfaces/settlement';
+
+/**
+ * 撥款檔解析器註冊表
+ * 依閘道名稱管理解析器
+ */
+@Injectable()
+export class SettlementParserRegistry {
+  private readonly logger = new Logger(SettlementParserRegistry.name);
+  private readonly parsers: Map<string, ISettlementFileParser> = new Map();
+
+  /**
+   * 註冊解析器
+   */
+  register(parser: ISettlementFileParser): void {
+    this.logger.log(`Registering settlement parser: ${parser.getName()}`);
+    this.parsers.set(parser.getName(), parser);
+  }
+
+  /**
+   * 取得閘道的解析器
+   */
+  get(gateway: string): ISettlementFileParser {
+    const parser = this.parsers.get(gateway);
+    if (!parser) {
+      throw new Error(`Settlement parser '${gateway}' not found`);
+    }
+    return parser;
+  }
+
+  getRegisteredGateways(): string[] {
+    return Array.from(this.parsers.keys());
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { SettlementParserRegistry } from './settlement-parser-registry.service';
+import { FixtureSettlementParser } from './fixture-settlement-parser.service';
+import { ECPaySettlementParser } from './ecpay-settlement-parser.service';
+
+/**
+ * 撥款檔解析器模組
+ * 註冊各閘道的撥款檔解析器
+ */
+@Module({
+  providers: [SettlementParserRegistry, FixtureSettlementParser, ECPaySettlementParser],
+  exports: [SettlementParserRegistry],
+})
+export class SettlementModule {
+  constructor(
+    private readonly registry: SettlementParserRegistry,
+    private readonly fixtureParser: FixtureSettlementParser,
+    private readonly ecpayParser: ECPaySettlementParser,
+  ) {
+    this.registry.register(this.fixtureParser);
+    this.registry.register(this.ecpayParser);
+  }
+}
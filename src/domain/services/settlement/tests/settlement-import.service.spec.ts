@@ -0,0 +1,189 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SettlementImportService } from '../settlement-import.service';
+import { SettlementParserRegistry } from '../settlement-parser-registry.service';
+import { FixtureSettlementParser } from '../fixture-settlement-parser.service';
+import { ECPaySettlementParser } from '../ecpay-settlement-parser.service';
+import { BillingAttemptService } from '../../billing-attempt.service';
+import { PaymentRepository } from '../../../../infra/repositories/payment.repository';
+import { BillingAttemptRepository } from '../../../../infra/repositories/billing-attempt.repository';
+import { SettlementBatchRepository } from '../../../../infra/repositories/settlement-batch.repository';
+import { SettlementRecordRepository } from '../../../../infra/repositories/settlement-record.repository';
+import { BillingAttemptEntity, PaymentEntity, SettlementBatchEntity, SettlementRecordEntity } from '../../../entities';
+import { PaymentStatus, SettlementRecordStatus } from '../../../enums/codes.const';
+import { Money } from '../../../value-objects/money';
+
+describe('SettlementImportService', () => {
+  let moduleRef: TestingModule;
+  let service: SettlementImportService;
+  let payments: PaymentEntity[];
+  let attempts: BillingAttemptEntity[];
+  let batches: SettlementBatchEntity[];
+  let records: SettlementRecordEntity[];
+
+  const paymentRepository = {
+    findAllByGatewayTransactionId: jest.fn(async (transactionId: string) =>
+      payments.filter((payment) => [payment.providerChargeId, payment.providerPaymentId, payment.externalTransactionId].includes(transactionId)),
+    ),
+    save: jest.fn(async (payment: PaymentEntity) => payment),
+  };
+  const billingAttemptRepository = {
+    findByPaymentId: jest.fn(async (paymentId: string) => attempts.filter((attempt) => attempt.paymentId === paymentId)),
+    save: jest.fn(async (attempt: BillingAttemptEntity) => attempt),
+  };
+  const batchRepository = {
+    findByChecksum: jest.fn(async (gateway: string, checksum: string) => batches.find((batch) => batch.gateway === gateway && batch.checksum === checksum)),
+    insert: jest.fn(async (batch: SettlementBatchEntity) => {
+      batch.id = `batch_${batches.length + 1}`;
+      batches.push(batch);
+      return batch;
+    }),
+    save: jest.fn(async (batch: SettlementBatchEntity) => batch),
+  };
+  const recordRepository = {
+    save: jest.fn(async (record: SettlementRecordEntity) => {
+      record.id = `rec_${records.length + 1}`;
+      records.push(record);
+      return record;
+    }),
+  };
+
+  const capturedPayment = (id: string, transactionId: string, amount: number = 1000) => {
+    const payment = new PaymentEntity('sub_1', 'cus_1', 'pm_1', amount, new Date(), new Date());
+    payment.id = id;
+    payment.startAttempt();
+    payment.markSucceeded(transactionId);
+    payments.push(payment);
+
+    const attempt = new BillingAttemptEntity('sub_1', 'cus_1', id, 'pm_1', new Money(amount, 'TWD'), new Date(), new Date());
+    attempt.start();
+    attempt.markSuccess({ externalTransactionId: transactionId });
+    attempts.push(attempt);
+    return payment;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    payments = [];
+    attempts = [];
+    batches = [];
+    records = [];
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        SettlementImportService,
+        SettlementParserRegistry,
+        BillingAttemptService,
+        { provide: PaymentRepository, useValue: paymentRepository },
+        { provide: BillingAttemptRepository, useValue: billingAttemptRepository },
+        { provide: SettlementBatchRepository, useValue: batchRepository },
+        { provide: SettlementRecordRepository, useValue: recordRepository },
+      ],
+    }).compile();
+
+    service = moduleRef.get(SettlementImportService);
+    const registry = moduleRef.get(SettlementParserRegistry);
+    registry.register(new FixtureSettlementParser());
+    registry.register(new ECPaySettlementParser());
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('matches rows to payments, records fees and summarizes payouts per settlement date', async () => {
+    const matched = capturedPayment('pay_1', 'tx_1');
+    capturedPayment('pay_2', 'tx_2', 800);
+    const failed = new PaymentEntity('sub_1', 'cus_1', 'pm_1', 500, new Date(), new Date());
+    failed.id = 'pay_3';
+    failed.externalTransactionId = 'tx_3';
+    failed.status = PaymentStatus.FAILED;
+    payments.push(failed);
+
+    const batch = await service.importFile(
+      'mock',
+      'settlement-20240305.csv',
+      [
+        'transaction_id,settlement_date,gross_amount,fee_amount,net_amount',
+        'tx_1,2024-03-05,1000,28,972',
+        'tx_2,2024-03-05,900,25,875',
+        'tx_3,2024-03-06,500,14,486',
+        'tx_unknown,2024-03-06,300,8,',
+        ',2024-03-06,100,3,97',
+      ].join('\n'),
+      'finance@example.com',
+    );
+
+    expect(batch.counters).toEqual({ rows: 4, matched: 1, unmatched: 1, amountMismatch: 1, statusMismatch: 1, duplicate: 0, invalid: 1 });
+    expect(batch.errors).toEqual([{ rowNumber: 6, error: 'Missing transaction_id' }]);
+    expect(batch.payouts).toEqual([
+      { settlementDate: '2024-03-05', currency: 'TWD', transactionCount: 2, matchedCount: 1, grossAmount: 1900, feeAmount: 53, netAmount: 1847 },
+      { settlementDate: '2024-03-06', currency: 'TWD', transactionCount: 2, matchedCount: 0, grossAmount: 800, feeAmount: 22, netAmount: 778 },
+    ]);
+    expect(records.map((record) => [record.transactionId, record.status, record.paymentId])).toEqual([
+      ['tx_1', SettlementRecordStatus.MATCHED, 'pay_1'],
+      ['tx_2', SettlementRecordStatus.AMOUNT_MISMATCH, 'pay_2'],
+      ['tx_3', SettlementRecordStatus.STATUS_MISMATCH, 'pay_3'],
+      ['tx_unknown', SettlementRecordStatus.UNMATCHED, undefined],
+    ]);
+    expect(records[3].netAmount).toBe(292);
+
+    expect(matched.settlement).toMatchObject({ settlementRecordId: 'rec_1', settlementBatchId: 'batch_1', settlementDate: '2024-03-05', feeAmount: 28, netAmount: 972 });
+    expect(paymentRepository.save).toHaveBeenCalledTimes(1);
+    expect(attempts[0].fees?.amount).toBe(28);
+    expect(attempts[0].metadata.settlement).toEqual({ settlementBatchId: 'batch_1', settlementDate: '2024-03-05', netAmount: 972 });
+    expect(attempts[1].fees).toBeUndefined();
+  });
+
+  it('rejects a re-imported file and flags rows already settled by an earlier file', async () => {
+    capturedPayment('pay_1', 'tx_1');
+    const first = 'transaction_id,settlement_date,gross_amount,fee_amount\ntx_1,2024-03-05,1000,28\n';
+    await service.importFile('mock', 'a.csv', first);
+
+    await expect(service.importFile('mock', 'a-copy.csv', first)).rejects.toThrow('Settlement file already imported as batch batch_1');
+
+    const overlapping = await service.importFile('mock', 'b.csv', 'transaction_id,settlement_date,gross_amount,fee_amount\ntx_1,2024-03-06,1000,28\n');
+
+    expect(overlapping.counters).toMatchObject({ rows: 1, matched: 0, duplicate: 1 });
+    expect(overlapping.payouts).toEqual([]);
+    expect(records[1]).toMatchObject({ status: SettlementRecordStatus.DUPLICATE, paymentId: 'pay_1', duplicateOf: 'rec_1' });
+    expect(attempts[0].fees?.amount).toBe(28);
+  });
+
+  it('parses ECPay settlement files and matches period executions by authorization serial', async () => {
+    const periods = ['gwsr_1', 'gwsr_2'].map((gwsr, index) => {
+      const payment = new PaymentEntity('sub_1', 'cus_1', 'pm_1', 299, new Date(), new Date());
+      payment.id = `pay_p${index + 1}`;
+      payment.providerPaymentId = 'EC_PERIOD';
+      payment.externalTransactionId = `EC_PERIOD:${gwsr}`;
+      payment.status = PaymentStatus.SUCCEEDED;
+      payments.push(payment);
+      return payment;
+    });
+    capturedPayment('pay_1', 'EC_ONCE', 1200);
+
+    const batch = await service.importFile(
+      'ecpay',
+      'ecpay-allocation.csv',
+      [
+        '特店訂單編號,綠界訂單編號,授權交易單號,交易金額,手續費,撥款金額,撥款日期',
+        'EC_PERIOD,2403050001,gwsr_2,299,8,291,2024/03/08',
+        'EC_ONCE,2403050002,,"1,200",33,"1,167",2024/03/08',
+      ].join('\r\n'),
+    );
+
+    expect(batch.counters).toMatchObject({ rows: 2, matched: 2, invalid: 0 });
+    expect(periods[0].settlement).toBeUndefined();
+    expect(periods[1].settlement).toMatchObject({ settlementDate: '2024-03-08', feeAmount: 8, netAmount: 291 });
+    expect(records.map((record) => [record.paymentId, record.matchKey, record.gatewayReference])).toEqual([
+      ['pay_p2', 'EC_PERIOD:gwsr_2', '2403050001'],
+      ['pay_1', 'EC_ONCE', '2403050002'],
+    ]);
+    expect(batch.payouts).toEqual([{ settlementDate: '2024-03-08', currency: 'TWD', transactionCount: 2, matchedCount: 2, grossAmount: 1499, feeAmount: 41, netAmount: 1458 }]);
+  });
+
+  it('rejects unknown gateways and files without the required columns', async () => {
+    await expect(service.importFile('stripe', 'x.csv', 'a,b\n1,2')).rejects.toThrow("Settlement parser 'stripe' not found");
+    await expect(service.importFile('ecpay', 'x.csv', '特店訂單編號,交易金額\nEC1,100')).rejects.toThrow('Invalid settlement file: CSV file is missing columns: 手續費, 撥款日期');
+    expect(batchRepository.insert).not.toHaveBeenCalled();
+  });
+});
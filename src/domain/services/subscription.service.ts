@@ -1,10 +1,13 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Optional } from '@nestjs/common';
 import { SubscriptionEntity, SubscriptionStatus, BillingCycle } from '../entities';
 import { CancellationReason } from '../enums/codes.const';
 import { SubscriptionRepository } from '../../infra/repositories/subscription.repository';
+import { PaymentMethodRepository } from '../../infra/repositories/payment-method.repository';
 import { CustomDefinition } from '@xxxhand/app-common';
 import { DateCalculationService } from './date-calculation/date-calculation.service';
 import { IBillingCycleConfig, BillingCycleType } from './date-calculation/interfaces/date-calculation.interface';
+import { ProrationEngine } from './proration/proration.engine';
+import { Money } from '../value-objects/money';
 
 /**
  * 訂閱管理服務
@@ -17,6 +20,8 @@ export class SubscriptionService {
     // TODO: Phase 4.2 - Re-add CustomerRepository when implementing customer management
     // private readonly customerRepository: CustomerRepository,
     private readonly dateCalculation: DateCalculationService,
+    private readonly prorationEngine: ProrationEngine,
+    @Optional() private readonly paymentMethodRepository?: PaymentMethodRepository,
   ) {}
 
   /**
@@ -153,6 +158,33 @@ export class SubscriptionService {
     return await this.subscriptionRepository.save(subscription);
   }
 
+  /**
+   * 更換訂閱的支付方式
+   * 支付方式需屬於同一客戶且可用；更換後發出 subscription.payment_method.changed，進行中的催收會以新支付方式重新扣款
+   */
+  public async updatePaymentMethod(subscriptionId: string, paymentMethodId: string): Promise<SubscriptionEntity> {
+    const subscription = await this.subscriptionRepository.findById(subscriptionId);
+    if (!subscription) {
+      throw new Error(`Subscription with ID ${subscriptionId} not found`);
+    }
+    if (subscription.isTerminated() || subscription.status === SubscriptionStatus.CANCELED) {
+      throw new Error('Cannot update payment method of an ended subscription');
+    }
+
+    if (this.paymentMethodRepository) {
+      const paymentMethod = await this.paymentMethodRepository.findById(paymentMethodId);
+      if (!paymentMethod || paymentMethod.customerId !== subscription.customerId) {
+        throw new Error(`Payment method ${paymentMethodId} not found`);
+      }
+      if (!paymentMethod.isAvailable()) {
+        throw new Error(`Payment method ${paymentMethodId} is not available`);
+      }
+    }
+
+    subscription.updatePaymentMethod(paymentMethodId);
+    return await this.subscriptionRepository.save(subscription);
+  }
+
   /**
    * 獲取需要計費的訂閱
    */
@@ -243,10 +275,12 @@ export class SubscriptionService {
 
     // 計算按比例計費
     if (effectiveDate === 'immediate' && prorationBehavior === 'create_prorations') {
-      const daysRemaining = Math.ceil((subscription.currentPeriodEnd.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
-      const totalDays = Math.ceil((subscription.currentPeriodEnd.getTime() - subscription.currentPeriodStart.getTime()) / (1000 * 60 * 60 * 24));
-      const prorationAmount = ((newAmount - oldAmount) * daysRemaining) / totalDays;
-      pricingAdjustment.prorationAmount = Math.round(prorationAmount);
+      const breakdown = this.prorationEngine.calculate(
+        { planId: subscription.planId, amount: subscription.pricing.baseAmount, billingCycle: subscription.billingCycle },
+        { planId: newPlanName, amount: new Money(newAmount, subscription.currency), billingCycle: subscription.billingCycle },
+        { startDate: subscription.currentPeriodStart, endDate: subscription.currentPeriodEnd },
+      );
+      pricingAdjustment.prorationAmount = breakdown.netAmount;
     }
 
     // 記錄變更信息到 metadata 中
@@ -296,8 +330,11 @@ export class SubscriptionService {
       throw new Error('Can only pause active subscriptions');
     }
 
-    subscription.status = SubscriptionStatus.PAUSED; // 使用PAUSED作為暫停狀態
-    subscription.updatedAt = new Date();
+    // 透過狀態機轉換以發出狀態變更事件（例如停用閘道定期定額）
+    const transition = subscription.pause(reason);
+    if (!transition.isValid) {
+      throw new Error(`Cannot pause subscription: ${transition.message}`);
+    }
 
     const updatedSubscription = await this.subscriptionRepository.save(subscription);
     const pausedAt = new Date();
@@ -326,8 +363,10 @@ export class SubscriptionService {
       throw new Error('Subscription is not paused');
     }
 
-    subscription.status = SubscriptionStatus.ACTIVE;
-    subscription.updatedAt = new Date();
+    const transition = subscription.resume();
+    if (!transition.isValid) {
+      throw new Error(`Cannot resume subscription: ${transition.message}`);
+    }
 
     // 重新計算下次計費日期
     const nextBillingDate = subscription.billingCycle.calculateNextBillingDate(new Date());
@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UsageService } from '../usage.service';
+import { UsageRecordRepository } from '../../../../infra/repositories/usage-record.repository';
+import { SubscriptionRepository } from '../../../../infra/repositories/subscription.repository';
+import { BillingPlanRepository } from '../../../../infra/repositories/billing-plan.repository';
+import { SubscriptionEntity } from '../../../entities/subscription.entity';
+import { BillingPlanEntity } from '../../../entities/billing-plan.entity';
+import { UsageRecordEntity } from '../../../entities/usage-record.entity';
+import { SubscriptionStatus, UsageAggregationType } from '../../../enums/codes.const';
+import { Money } from '../../../value-objects/money';
+import { BillingCycleVO } from '../../../value-objects/billing-cycle';
+
+describe('UsageService', () => {
+  let moduleRef: TestingModule;
+  let service: UsageService;
+  let subscription: SubscriptionEntity;
+  let plan: BillingPlanEntity;
+  let usageRecordRepository: { insert: jest.Mock; findByIdempotencyKey: jest.Mock; aggregate: jest.Mock };
+
+  beforeEach(async () => {
+    subscription = SubscriptionEntity.create({
+      customerId: '64b7f0c2a1b2c3d4e5f60002',
+      productId: 'prod_api',
+      planId: 'plan_api',
+      paymentMethodId: 'pm_1',
+      baseAmount: new Money(99900, 'TWD'),
+      billingCycle: BillingCycleVO.monthly(),
+    });
+    subscription.id = '64b7f0c2a1b2c3d4e5f60001';
+    subscription.status = SubscriptionStatus.ACTIVE;
+
+    plan = new BillingPlanEntity('prod_api', 'API 方案', new Money(99900, 'TWD'), BillingCycleVO.monthly());
+    plan.addBillingRule({ name: 'API 呼叫', type: 'USAGE', unit: 'api_calls', unitPrice: new Money(10, 'TWD'), includedUnits: 1000 });
+    plan.addBillingRule({ name: '席次', type: 'QUANTITY', unit: 'seats', unitPrice: new Money(10000, 'TWD'), includedUnits: 5, aggregation: UsageAggregationType.MAX });
+    plan.addLimit({ feature: 'api_calls', limit: 1000, unit: 'calls', isHardLimit: false });
+
+    usageRecordRepository = {
+      insert: jest.fn(async (record) => ({ record, duplicate: false })),
+      findByIdempotencyKey: jest.fn(async () => undefined),
+      aggregate: jest.fn(async () => [
+        { feature: 'api_calls', sum: 1500, max: 700, last: 300, count: 3 },
+        { feature: 'seats', sum: 20, max: 8, last: 6, count: 3 },
+      ]),
+    };
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        UsageService,
+        { provide: UsageRecordRepository, useValue: usageRecordRepository },
+        { provide: SubscriptionRepository, useValue: { findById: jest.fn(async (id) => (id === subscription.id ? subscription : undefined)) } },
+        { provide: BillingPlanRepository, useValue: { findByPlanId: jest.fn(async () => plan) } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(UsageService);
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('records usage once per idempotency key', async () => {
+    const first = await service.recordUsage({ subscriptionId: subscription.id, feature: 'api_calls', quantity: 20, idempotencyKey: 'evt_1' });
+    expect(first.outcome).toBe('recorded');
+    expect(usageRecordRepository.insert).toHaveBeenCalledTimes(1);
+
+    const existing = new UsageRecordEntity(subscription.id, subscription.customerId, 'api_calls', 20, 'evt_1');
+    usageRecordRepository.findByIdempotencyKey.mockResolvedValueOnce(existing);
+    const second = await service.recordUsage({ subscriptionId: subscription.id, feature: 'api_calls', quantity: 20, idempotencyKey: 'evt_1' });
+
+    expect(second).toEqual({ outcome: 'duplicate', record: existing });
+    expect(usageRecordRepository.insert).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects usage for unknown features, closed periods and inactive subscriptions', async () => {
+    const base = { subscriptionId: subscription.id, quantity: 1, idempotencyKey: 'evt_2' };
+
+    expect(await service.recordUsage({ ...base, feature: 'storage_gb' })).toEqual({ outcome: 'rejected', reason: 'unknown_feature' });
+    expect(await service.recordUsage({ ...base, feature: 'api_calls', timestamp: new Date(subscription.currentPeriodStart.getTime() - 1000) })).toEqual({
+      outcome: 'rejected',
+      reason: 'outside_period',
+    });
+    expect(await service.recordUsage({ ...base, subscriptionId: '64b7f0c2a1b2c3d4e5f6ffff', feature: 'api_calls' })).toEqual({
+      outcome: 'rejected',
+      reason: 'subscription_not_found',
+    });
+
+    subscription.status = SubscriptionStatus.CANCELED;
+    expect(await service.recordUsage({ ...base, feature: 'api_calls' })).toEqual({ outcome: 'rejected', reason: 'subscription_inactive' });
+    expect(usageRecordRepository.insert).not.toHaveBeenCalled();
+  });
+
+  it('prices period usage with each feature aggregation', async () => {
+    const result = await service.calculatePeriodCharges(subscription);
+
+    // api_calls 加總 1500，超出 500 × 10；seats 取最大值 8，超出 3 × 10000
+    expect(result.usage).toEqual({ api_calls: 1500, seats: 8 });
+    expect(result.charges).toEqual([
+      { feature: 'api_calls', quantity: 1500, amount: 5000 },
+      { feature: 'seats', quantity: 8, amount: 30000 },
+    ]);
+    expect(result.total.amount).toBe(35000);
+    expect(usageRecordRepository.aggregate).toHaveBeenCalledWith(subscription.id, subscription.currentPeriodStart, subscription.currentPeriodEnd);
+  });
+
+  it('reports current usage against plan limits', async () => {
+    const summary = await service.getCurrentUsage(subscription.id);
+
+    expect(summary.features.find((f) => f.feature === 'api_calls')).toMatchObject({ usage: 1500, limit: 1000, remaining: 0, exceeded: true });
+    expect(summary.features.find((f) => f.feature === 'seats')).toMatchObject({ aggregation: UsageAggregationType.MAX, usage: 8, exceeded: false });
+    expect(summary.estimatedOverage.amount).toBe(35000);
+  });
+});
@@ -0,0 +1,222 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { UsageAggregate, UsageRecordRepository } from '../../../infra/repositories/usage-record.repository';
+import { SubscriptionRepository } from '../../../infra/repositories/subscription.repository';
+import { BillingPlanRepository } from '../../../infra/repositories/billing-plan.repository';
+import { UsageRecordEntity } from '../../entities/usage-record.entity';
+import { SubscriptionEntity } from '../../entities/subscription.entity';
+import { BillingPlanEntity } from '../../entities/billing-plan.entity';
+import { SubscriptionStatus, UsageAggregationType } from '../../enums/codes.const';
+import { Money } from '../../value-objects/money';
+
+/** 可回報用量的訂閱狀態 */
+const METERABLE_STATUSES = [SubscriptionStatus.TRIALING, SubscriptionStatus.ACTIVE, SubscriptionStatus.GRACE_PERIOD, SubscriptionStatus.RETRY, SubscriptionStatus.PAST_DUE];
+
+/** 允許的用量時間誤差（用戶端時鐘偏差） */
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export interface RecordUsageCommand {
+  subscriptionId: string;
+  feature: string;
+  quantity: number;
+  idempotencyKey: string;
+  timestamp?: Date;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * 回報用量的結果；rejected 時 reason 說明原因
+ */
+export type RecordUsageResult =
+  | { outcome: 'recorded' | 'duplicate'; record: UsageRecordEntity }
+  | { outcome: 'rejected'; reason: 'subscription_not_found' | 'subscription_inactive' | 'outside_period' | 'unknown_feature' };
+
+/**
+ * 單一功能的期間用量
+ */
+export interface FeatureUsage {
+  feature: string;
+  aggregation: UsageAggregationType;
+  usage: number;
+  unit?: string;
+  limit?: number;
+  remaining?: number;
+  isHardLimit?: boolean;
+  exceeded: boolean;
+}
+
+/**
+ * 期間用量摘要
+ */
+export interface UsageSummary {
+  subscriptionId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  features: FeatureUsage[];
+  /** 依目前用量估算的超額費用 */
+  estimatedOverage: Money;
+}
+
+/**
+ * 期間的超額計費明細
+ */
+export interface UsageCharges {
+  usage: Record<string, number>;
+  charges: Array<{ feature: string; quantity: number; amount: number }>;
+  total: Money;
+}
+
+/**
+ * 用量計量服務
+ * 接收商家回報的用量，依方案的彙總方式（加總、最大值、最後一筆）彙總訂閱當期用量，
+ * 期末交由 BillingPlanEntity.calculateUsageFee 計算超額費用
+ */
+@Injectable()
+export class UsageService {
+  private readonly logger = new Logger(UsageService.name);
+
+  constructor(
+    private readonly usageRecordRepository: UsageRecordRepository,
+    private readonly subscriptionRepository: SubscriptionRepository,
+    private readonly billingPlanRepository: BillingPlanRepository,
+  ) {}
+
+  /**
+   * 記錄用量，相同冪等鍵重送時回傳原紀錄
+   * 用量時間須落在訂閱的當期內，已結算的期間不再接受
+   */
+  public async recordUsage(command: RecordUsageCommand): Promise<RecordUsageResult> {
+    const subscription = await this.subscriptionRepository.findById(command.subscriptionId);
+    if (!subscription) {
+      return { outcome: 'rejected', reason: 'subscription_not_found' };
+    }
+
+    const existing = await this.usageRecordRepository.findByIdempotencyKey(subscription.id, command.idempotencyKey);
+    if (existing) {
+      return { outcome: 'duplicate', record: existing };
+    }
+
+    if (!METERABLE_STATUSES.includes(subscription.status)) {
+      return { outcome: 'rejected', reason: 'subscription_inactive' };
+    }
+
+    const timestamp = command.timestamp || new Date();
+    if (timestamp < subscription.currentPeriodStart || timestamp.getTime() > Date.now() + MAX_CLOCK_SKEW_MS) {
+      return { outcome: 'rejected', reason: 'outside_period' };
+    }
+
+    const plan = await this.findPlan(subscription);
+    if (plan && !plan.getMeteredFeatures().includes(command.feature)) {
+      return { outcome: 'rejected', reason: 'unknown_feature' };
+    }
+
+    const record = new UsageRecordEntity(subscription.id, subscription.customerId, command.feature, command.quantity, command.idempotencyKey);
+    record.timestamp = timestamp;
+    record.metadata = command.metadata || {};
+
+    const result = await this.usageRecordRepository.insert(record);
+    return { outcome: result.duplicate ? 'duplicate' : 'recorded', record: result.record };
+  }
+
+  /**
+   * 查詢訂閱當期用量與方案限制
+   */
+  public async getCurrentUsage(subscriptionId: string): Promise<CustomDefinition.TNullable<UsageSummary>> {
+    const subscription = await this.subscriptionRepository.findById(subscriptionId);
+    if (!subscription) {
+      return undefined;
+    }
+
+    const plan = await this.findPlan(subscription);
+    const usage = await this.getPeriodUsage(subscription, plan);
+    const features = Array.from(new Set([...(plan?.getMeteredFeatures() || []), ...Object.keys(usage)]));
+
+    return {
+      subscriptionId: subscription.id,
+      periodStart: subscription.currentPeriodStart,
+      periodEnd: subscription.currentPeriodEnd,
+      features: features.map((feature) => {
+        const limit = plan?.getLimit(feature);
+        const value = usage[feature] || 0;
+        return {
+          feature,
+          aggregation: plan?.getUsageAggregation(feature) || UsageAggregationType.SUM,
+          usage: value,
+          unit: limit?.unit,
+          limit: limit?.limit,
+          remaining: limit ? Math.max(0, limit.limit - value) : undefined,
+          isHardLimit: limit?.isHardLimit,
+          exceeded: limit ? value > limit.limit : false,
+        };
+      }),
+      estimatedOverage: plan ? this.calculateCharges(plan, usage).total : Money.zero(subscription.pricing.currency),
+    };
+  }
+
+  /**
+   * 計算訂閱當期的超額費用，供期末扣款加計
+   * 找不到方案時無法計價，回傳零
+   */
+  public async calculatePeriodCharges(subscription: SubscriptionEntity): Promise<UsageCharges> {
+    const plan = await this.findPlan(subscription);
+    if (!plan) {
+      return { usage: {}, charges: [], total: Money.zero(subscription.pricing.currency) };
+    }
+
+    const usage = await this.getPeriodUsage(subscription, plan);
+    const result = this.calculateCharges(plan, usage);
+    if (result.total.isPositive()) {
+      this.logger.log(`Usage overage of ${result.total.formatSimple()} for subscription ${subscription.id}`);
+    }
+    return result;
+  }
+
+  /**
+   * 依方案的彙總方式彙總當期用量
+   */
+  public async getPeriodUsage(subscription: SubscriptionEntity, plan?: BillingPlanEntity): Promise<Record<string, number>> {
+    const aggregates = await this.usageRecordRepository.aggregate(subscription.id, subscription.currentPeriodStart, subscription.currentPeriodEnd);
+    return aggregates.reduce(
+      (usage, aggregate) => ({ ...usage, [aggregate.feature]: this.pick(aggregate, plan?.getUsageAggregation(aggregate.feature)) }),
+      {} as Record<string, number>,
+    );
+  }
+
+  /**
+   * 逐項計算超額費用，合計即為期末加計的金額
+   */
+  private calculateCharges(plan: BillingPlanEntity, usage: Record<string, number>): UsageCharges {
+    const charges = Object.entries(usage)
+      .map(([feature, quantity]) => ({ feature, quantity, amount: plan.calculateUsageFee({ [feature]: quantity }).amount }))
+      .filter((charge) => charge.amount > 0);
+
+    return {
+      usage,
+      charges,
+      total: new Money(
+        charges.reduce((sum, charge) => sum + charge.amount, 0),
+        plan.basePrice.currency,
+      ),
+    };
+  }
+
+  private pick(aggregate: UsageAggregate, aggregation: UsageAggregationType = UsageAggregationType.SUM): number {
+    switch (aggregation) {
+      case UsageAggregationType.MAX:
+        return aggregate.max;
+      case UsageAggregationType.LAST:
+        return aggregate.last;
+      default:
+        return aggregate.sum;
+    }
+  }
+
+  private async findPlan(subscription: SubscriptionEntity): Promise<CustomDefinition.TNullable<BillingPlanEntity>> {
+    try {
+      return (await this.billingPlanRepository.findByPlanId(subscription.planId)) || undefined;
+    } catch (error) {
+      this.logger.warn(`Failed to load plan ${subscription.planId}: ${error.message}`);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnApplicationShutdown } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { ConfService } from '@myapp/conf';
+import { MerchantWebhookService } from './merchant-webhook.service';
+
+/** 商家 Webhook 投遞排程名稱 */
+export const MERCHANT_WEBHOOK_JOB = 'merchant-webhooks';
+
+/**
+ * 商家 Webhook 投遞排程
+ * 定期投遞新建立與到期重試的紀錄
+ */
+@Injectable()
+export class MerchantWebhookScheduler implements OnApplicationBootstrap, OnApplicationShutdown {
+  private readonly logger = new Logger(MerchantWebhookScheduler.name);
+  private running = false;
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly webhookService: MerchantWebhookService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const { pollIntervalMs } = this.confService.getConf().merchantWebhooks;
+    this.schedulerRegistry.addInterval(
+      MERCHANT_WEBHOOK_JOB,
+      setInterval(() => this.trigger(), pollIntervalMs),
+    );
+  }
+
+  onApplicationShutdown() {
+    if (this.schedulerRegistry.doesExist('interval', MERCHANT_WEBHOOK_JOB)) {
+      this.schedulerRegistry.deleteInterval(MERCHANT_WEBHOOK_JOB);
+    }
+  }
+
+  private async trigger(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.webhookService.deliverDue();
+    } catch (error) {
+      this.logger.error(`Merchant webhook delivery crashed: ${error.message}`, error.stack);
+    } finally {
+      this.running = false;
+    }
+  }
+}
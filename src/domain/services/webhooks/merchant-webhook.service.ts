@@ -0,0 +1,261 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfService } from '@myapp/conf';
+import { CustomDefinition } from '@xxxhand/app-common';
+import { ALL_DOMAIN_EVENTS, DomainEventBus, DomainEventMessage } from '../events/domain-event-bus.service';
+import { WebhookEndpointRepository } from '../../../infra/repositories/webhook-endpoint.repository';
+import { WebhookDeliveryRepository } from '../../../infra/repositories/webhook-delivery.repository';
+import { WebhookEndpointEntity } from '../../entities/webhook-endpoint.entity';
+import { WebhookDeliveryAttempt, WebhookDeliveryEntity } from '../../entities/webhook-delivery.entity';
+import { RetryStrategyType, WebhookDeliveryStatus } from '../../enums/codes.const';
+import { RetryStrategyVO } from '../../value-objects/retry-strategy';
+import {
+  buildWebhookSignatureHeader,
+  generateWebhookSecret,
+  WEBHOOK_EVENT_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '../../utils/webhook-signature.util';
+
+/** 對商家開放的事件類型前綴 */
+export const MERCHANT_WEBHOOK_EVENT_PREFIXES = ['subscription.', 'payment.', 'refund.'];
+
+/** 在事件匯流排上的訂閱者名稱 */
+export const MERCHANT_WEBHOOK_HANDLER = 'merchant-webhooks';
+
+/** 保留的回應內容長度 */
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+export interface CreateWebhookEndpointCommand {
+  merchantId: string;
+  url: string;
+  events: string[];
+  description?: string;
+  secret?: string;
+}
+
+export interface UpdateWebhookEndpointCommand {
+  url?: string;
+  events?: string[];
+  description?: string;
+  enabled?: boolean;
+}
+
+export interface WebhookDeliveryQuery {
+  status?: WebhookDeliveryStatus;
+  page?: number;
+  limit?: number;
+}
+
+export interface WebhookDeliveryPage {
+  deliveries: WebhookDeliveryEntity[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * 商家 Webhook 服務
+ * 管理商家登記的端點，訂閱領域事件並以簽章請求投遞，失敗時以指數退避重試
+ */
+@Injectable()
+export class MerchantWebhookService implements OnModuleInit {
+  private readonly logger = new Logger(MerchantWebhookService.name);
+
+  constructor(
+    private readonly confService: ConfService,
+    private readonly endpointRepository: WebhookEndpointRepository,
+    private readonly deliveryRepository: WebhookDeliveryRepository,
+    private readonly eventBus: DomainEventBus,
+  ) {}
+
+  onModuleInit() {
+    this.eventBus.subscribe(ALL_DOMAIN_EVENTS, MERCHANT_WEBHOOK_HANDLER, async (message) => {
+      await this.enqueue(message);
+    });
+  }
+
+  /**
+   * 登記端點，未提供密鑰時自動產生
+   */
+  public async createEndpoint(command: CreateWebhookEndpointCommand): Promise<WebhookEndpointEntity> {
+    const endpoint = new WebhookEndpointEntity(command.merchantId, command.url, command.secret || generateWebhookSecret(), command.events);
+    endpoint.description = command.description;
+    return this.endpointRepository.save(endpoint);
+  }
+
+  public async listEndpoints(merchantId: string): Promise<WebhookEndpointEntity[]> {
+    return this.endpointRepository.findByMerchantId(merchantId);
+  }
+
+  public async getEndpoint(endpointId: string): Promise<CustomDefinition.TNullable<WebhookEndpointEntity>> {
+    return this.endpointRepository.findById(endpointId);
+  }
+
+  public async updateEndpoint(endpointId: string, command: UpdateWebhookEndpointCommand): Promise<CustomDefinition.TNullable<WebhookEndpointEntity>> {
+    const endpoint = await this.endpointRepository.findById(endpointId);
+    if (!endpoint) {
+      return undefined;
+    }
+
+    endpoint.update(command);
+    return this.endpointRepository.save(endpoint);
+  }
+
+  /**
+   * 更換端點密鑰，回傳含新密鑰的端點
+   */
+  public async rotateSecret(endpointId: string): Promise<CustomDefinition.TNullable<WebhookEndpointEntity>> {
+    const endpoint = await this.endpointRepository.findById(endpointId);
+    if (!endpoint) {
+      return undefined;
+    }
+
+    endpoint.rotateSecret(generateWebhookSecret());
+    return this.endpointRepository.save(endpoint);
+  }
+
+  public async deleteEndpoint(endpointId: string): Promise<boolean> {
+    return this.endpointRepository.delete(endpointId);
+  }
+
+  /**
+   * 為訂閱此事件的端點建立投遞紀錄
+   * 事件匯流排為至少一次派送，已建立過的投遞不會重複建立
+   */
+  public async enqueue(message: DomainEventMessage): Promise<number> {
+    if (!MERCHANT_WEBHOOK_EVENT_PREFIXES.some((prefix) => message.type.startsWith(prefix))) {
+      return 0;
+    }
+
+    const endpoints = (await this.endpointRepository.findEnabled()).filter((endpoint) => endpoint.matches(message.type));
+    let created = 0;
+    for (const endpoint of endpoints) {
+      const existing = await this.deliveryRepository.findByEndpointAndEvent(endpoint.id, message.eventId);
+      if (existing) {
+        continue;
+      }
+
+      const payload = {
+        id: message.eventId,
+        type: message.type,
+        createdAt: message.occurredAt,
+        data: {
+          aggregateType: message.aggregateType,
+          aggregateId: message.aggregateId,
+          ...message.payload,
+        },
+      };
+      await this.deliveryRepository.save(new WebhookDeliveryEntity(endpoint.id, endpoint.merchantId, message.eventId, message.type, payload));
+      created++;
+    }
+    return created;
+  }
+
+  /**
+   * 投遞到期的紀錄
+   */
+  public async deliverDue(limit: number = 50): Promise<number> {
+    const { timeoutMs } = this.confService.getConf().merchantWebhooks;
+    let processed = 0;
+
+    for (; processed < limit; processed++) {
+      const delivery = await this.deliveryRepository.claimDue(timeoutMs * 2);
+      if (!delivery) {
+        break;
+      }
+      await this.attempt(delivery);
+    }
+    return processed;
+  }
+
+  /**
+   * 查詢端點的投遞紀錄
+   */
+  public async listDeliveries(endpointId: string, query: WebhookDeliveryQuery = {}): Promise<WebhookDeliveryPage> {
+    const page = Math.max(1, query.page || 1);
+    const limit = Math.min(100, Math.max(1, query.limit || 20));
+
+    const [deliveries, total] = await Promise.all([
+      this.deliveryRepository.findByEndpointId(endpointId, query.status, limit, (page - 1) * limit),
+      this.deliveryRepository.countByEndpointId(endpointId, query.status),
+    ]);
+
+    return { deliveries, total, page, limit };
+  }
+
+  /**
+   * 手動重新投遞，立即送出並回傳結果
+   */
+  public async redeliver(endpointId: string, deliveryId: string): Promise<CustomDefinition.TNullable<WebhookDeliveryEntity>> {
+    const delivery = await this.deliveryRepository.findById(deliveryId);
+    if (!delivery || delivery.endpointId !== endpointId) {
+      return undefined;
+    }
+
+    delivery.redeliver();
+    return this.attempt(delivery);
+  }
+
+  /**
+   * 送出一次投遞並記錄結果
+   */
+  private async attempt(delivery: WebhookDeliveryEntity): Promise<WebhookDeliveryEntity> {
+    const endpoint = await this.endpointRepository.findById(delivery.endpointId);
+    if (!endpoint || !endpoint.enabled) {
+      delivery.recordFailure({ attemptedAt: new Date(), durationMs: 0, error: 'Endpoint removed or disabled' });
+      return this.deliveryRepository.save(delivery);
+    }
+
+    const result = await this.send(endpoint, delivery);
+    if (result.responseStatus >= 200 && result.responseStatus < 300) {
+      delivery.recordSuccess(result);
+    } else {
+      const { maxAttempts } = this.confService.getConf().merchantWebhooks;
+      const retryStrategy = new RetryStrategyVO(RetryStrategyType.EXPONENTIAL_BACKOFF, maxAttempts, 1, 2, 720);
+      const attemptNumber = delivery.attemptCount + 1;
+      const nextAttemptAt = retryStrategy.canRetry(attemptNumber) ? retryStrategy.calculateNextRetryTime(attemptNumber) : undefined;
+      delivery.recordFailure(result, nextAttemptAt);
+
+      if (!nextAttemptAt) {
+        this.logger.warn(`Webhook delivery ${delivery.id} to ${endpoint.url} gave up after ${delivery.attemptCount} attempts`);
+      }
+    }
+
+    return this.deliveryRepository.save(delivery);
+  }
+
+  /**
+   * 以簽章請求 POST 至端點
+   */
+  private async send(endpoint: WebhookEndpointEntity, delivery: WebhookDeliveryEntity): Promise<WebhookDeliveryAttempt> {
+    const { timeoutMs } = this.confService.getConf().merchantWebhooks;
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const attemptedAt = new Date();
+
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_EVENT_ID_HEADER]: delivery.eventId,
+          [WEBHOOK_TIMESTAMP_HEADER]: timestamp.toString(),
+          [WEBHOOK_SIGNATURE_HEADER]: buildWebhookSignatureHeader(endpoint.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      const responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY_LENGTH);
+
+      return {
+        attemptedAt,
+        responseStatus: response.status,
+        responseBody,
+        durationMs: Date.now() - attemptedAt.getTime(),
+        error: response.ok ? undefined : `HTTP ${response.status}`,
+      };
+    } catch (error) {
+      return { attemptedAt, durationMs: Date.now() - attemptedAt.getTime(), error: error.message };
+    }
+  }
+}
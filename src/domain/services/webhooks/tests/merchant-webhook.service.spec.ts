@@ -0,0 +1,183 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfService } from '@myapp/conf';
+import { MerchantWebhookService } from '../merchant-webhook.service';
+import { DomainEventBus, DomainEventMessage } from '../../events/domain-event-bus.service';
+import { WebhookEndpointRepository } from '../../../../infra/repositories/webhook-endpoint.repository';
+import { WebhookDeliveryRepository } from '../../../../infra/repositories/webhook-delivery.repository';
+import { WebhookEndpointEntity } from '../../../entities/webhook-endpoint.entity';
+import { WebhookDeliveryEntity } from '../../../entities/webhook-delivery.entity';
+import { RefundEntity } from '../../../entities/refund.entity';
+import { RefundMethod, RefundType, WebhookDeliveryStatus } from '../../../enums/codes.const';
+import { Money } from '../../../value-objects/money';
+import { verifyWebhookSignature, WEBHOOK_SIGNATURE_HEADER } from '../../../utils/webhook-signature.util';
+
+class InMemoryEndpointRepository {
+  public endpoints: WebhookEndpointEntity[] = [];
+  async save(entity: WebhookEndpointEntity) {
+    if (!entity.id) {
+      entity.id = `ep_${this.endpoints.length + 1}`;
+      this.endpoints.push(entity);
+    }
+    return entity;
+  }
+  async findById(id: string) {
+    return this.endpoints.find((e) => e.id === id);
+  }
+  async findEnabled() {
+    return this.endpoints.filter((e) => e.enabled);
+  }
+}
+
+class InMemoryDeliveryRepository {
+  public deliveries: WebhookDeliveryEntity[] = [];
+  async save(entity: WebhookDeliveryEntity) {
+    if (!entity.id) {
+      entity.id = `dlv_${this.deliveries.length + 1}`;
+      this.deliveries.push(entity);
+    }
+    return entity;
+  }
+  async findById(id: string) {
+    return this.deliveries.find((d) => d.id === id);
+  }
+  async findByEndpointAndEvent(endpointId: string, eventId: string) {
+    return this.deliveries.find((d) => d.endpointId === endpointId && d.eventId === eventId);
+  }
+  async claimDue(leaseMs: number) {
+    const now = new Date();
+    const delivery = this.deliveries.find((d) => d.status === WebhookDeliveryStatus.PENDING && d.nextAttemptAt <= now);
+    if (delivery) delivery.nextAttemptAt = new Date(now.getTime() + leaseMs);
+    return delivery;
+  }
+}
+
+describe('MerchantWebhookService', () => {
+  let moduleRef: TestingModule;
+  let service: MerchantWebhookService;
+  let endpoints: InMemoryEndpointRepository;
+  let deliveries: InMemoryDeliveryRepository;
+  let fetchSpy: jest.SpyInstance;
+
+  const message: DomainEventMessage = {
+    eventId: 'evt_1',
+    type: 'payment.succeeded',
+    aggregateType: 'Payment',
+    aggregateId: 'pay_1',
+    occurredAt: new Date('2024-01-01T00:00:00Z'),
+    payload: { paymentId: 'pay_1', amount: { amount: 29900, currency: 'TWD' } },
+    attempt: 1,
+  };
+
+  beforeEach(async () => {
+    endpoints = new InMemoryEndpointRepository();
+    deliveries = new InMemoryDeliveryRepository();
+    fetchSpy = jest.spyOn(global, 'fetch');
+
+    const confStub = {
+      getConf: () => ({ merchantWebhooks: { pollIntervalMs: 1000, timeoutMs: 1000, maxAttempts: 3 } }),
+    } as unknown as ConfService;
+
+    moduleRef = await Test.createTestingModule({
+      providers: [
+        MerchantWebhookService,
+        DomainEventBus,
+        { provide: ConfService, useValue: confStub },
+        { provide: WebhookEndpointRepository, useValue: endpoints },
+        { provide: WebhookDeliveryRepository, useValue: deliveries },
+      ],
+    }).compile();
+
+    service = moduleRef.get(MerchantWebhookService);
+  });
+
+  afterEach(async () => {
+    fetchSpy.mockRestore();
+    await moduleRef.close();
+  });
+
+  it('enqueues matching events once per endpoint', async () => {
+    await service.createEndpoint({ merchantId: 'm_1', url: 'https://merchant.test/hooks', events: ['payment.*'] });
+    await service.createEndpoint({ merchantId: 'm_1', url: 'https://merchant.test/subs', events: ['subscription.created'] });
+
+    expect(await service.enqueue(message)).toBe(1);
+    expect(await service.enqueue(message)).toBe(0);
+    expect(await service.enqueue({ ...message, eventId: 'evt_2', type: 'invoice.created' })).toBe(0);
+    expect(deliveries.deliveries).toHaveLength(1);
+    expect(deliveries.deliveries[0].payload).toMatchObject({ id: 'evt_1', type: 'payment.succeeded', data: { aggregateId: 'pay_1', paymentId: 'pay_1' } });
+  });
+
+  it('signs the payload and records a successful delivery', async () => {
+    const endpoint = await service.createEndpoint({ merchantId: 'm_1', url: 'https://merchant.test/hooks', events: ['*'] });
+    await service.enqueue(message);
+    fetchSpy.mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+    expect(await service.deliverDue()).toBe(1);
+
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe('https://merchant.test/hooks');
+    expect(verifyWebhookSignature(endpoint.secret, init.headers[WEBHOOK_SIGNATURE_HEADER], init.body)).toBe(true);
+    expect(verifyWebhookSignature('whsec_other', init.headers[WEBHOOK_SIGNATURE_HEADER], init.body)).toBe(false);
+
+    const delivery = deliveries.deliveries[0];
+    expect(delivery.status).toBe(WebhookDeliveryStatus.SUCCEEDED);
+    expect(delivery.attempts[0].responseStatus).toBe(200);
+  });
+
+  it('backs off on failures, gives up after max attempts and supports manual redelivery', async () => {
+    await service.createEndpoint({ merchantId: 'm_1', url: 'https://merchant.test/hooks', events: ['payment.succeeded'] });
+    await service.enqueue(message);
+    const delivery = deliveries.deliveries[0];
+
+    fetchSpy.mockResolvedValueOnce(new Response('boom', { status: 500 }));
+    await service.deliverDue();
+    expect(delivery.status).toBe(WebhookDeliveryStatus.PENDING);
+    expect(delivery.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+    expect(delivery.attempts[0].error).toBe('HTTP 500');
+
+    fetchSpy.mockRejectedValue(new Error('ECONNREFUSED'));
+    for (let i = 0; i < 2; i++) {
+      delivery.nextAttemptAt = new Date(Date.now() - 1000);
+      await service.deliverDue();
+    }
+    expect(delivery.status).toBe(WebhookDeliveryStatus.FAILED);
+    expect(delivery.attemptCount).toBe(3);
+    expect(delivery.nextAttemptAt).toBeUndefined();
+
+    fetchSpy.mockResolvedValueOnce(new Response(null, { status: 204 }));
+    const redelivered = await service.redeliver(delivery.endpointId, delivery.id);
+    expect(redelivered?.status).toBe(WebhookDeliveryStatus.SUCCEEDED);
+    expect(redelivered?.attemptCount).toBe(4);
+    expect(await service.redeliver('ep_other', delivery.id)).toBeUndefined();
+  });
+
+  it('delivers refund lifecycle events raised by the refund aggregate', async () => {
+    await service.createEndpoint({ merchantId: 'm_1', url: 'https://merchant.test/refunds', events: ['refund.*'] });
+    const refund = new RefundEntity('pay_1', 'sub_1', 'cus_1', new Money(500, 'TWD'), RefundType.PARTIAL, 'Duplicate charge');
+    refund.id = 'ref_1';
+    refund.approve();
+    refund.startProcessing('mock');
+    refund.markFailed('Gateway declined');
+    refund.startProcessing('mock');
+    refund.markSucceeded('re_1');
+
+    // 依外送集合的格式轉為派送訊息
+    const events = refund.pullDomainEvents();
+    for (const [index, event] of events.entries()) {
+      const { type, occurredAt, ...payload } = JSON.parse(JSON.stringify(event));
+      await service.enqueue({ eventId: `evt_ref_${index}`, type, aggregateType: 'Refund', aggregateId: refund.id, occurredAt: new Date(occurredAt), payload, attempt: 1 });
+    }
+    fetchSpy.mockResolvedValue(new Response('ok', { status: 200 }));
+
+    expect(await service.deliverDue()).toBe(3);
+    expect(deliveries.deliveries.map((delivery) => delivery.payload)).toEqual([
+      expect.objectContaining({ type: 'refund.requested', data: expect.objectContaining({ aggregateId: 'ref_1', paymentId: 'pay_1', reason: 'Duplicate charge' }) }),
+      expect.objectContaining({ type: 'refund.failed', data: expect.objectContaining({ aggregateId: 'ref_1', reason: 'Gateway declined' }) }),
+      expect.objectContaining({
+        type: 'refund.succeeded',
+        data: expect.objectContaining({ aggregateType: 'Refund', refundMethod: RefundMethod.ORIGINAL_PAYMENT, providerRefundId: 're_1' }),
+      }),
+    ]);
+    expect(deliveries.deliveries[0].payload.data.amount).toMatchObject({ amount: 500, currency: 'TWD' });
+    expect(deliveries.deliveries.every((delivery) => delivery.status === WebhookDeliveryStatus.SUCCEEDED)).toBe(true);
+  });
+});
@@ -0,0 +1,37 @@
+import { CouponCodeEntity } from '../../entities/coupon-code.entity';
+import { CouponCodeStatus } from '../../enums/codes.const';
+import { buildCouponCodesCsv, generateCouponCodes, normalizeCouponAlphabet } from '../coupon-code.util';
+
+describe('coupon-code.util', () => {
+  it('generates unique codes with the prefix, length and alphabet', () => {
+    const codes = generateCouponCodes(500, { prefix: 'INF-', length: 6, alphabet: 'ABCDEF2345' });
+
+    expect(new Set(codes).size).toBe(500);
+    codes.forEach((code) => expect(code).toMatch(/^INF-[ABCDEF2345]{6}$/));
+  });
+
+  it('never uses ambiguous characters', () => {
+    expect(normalizeCouponAlphabet('abc01OIL')).toBe('ABC');
+    expect(generateCouponCodes(200).join('')).not.toMatch(/[01OIL]/);
+    expect(() => normalizeCouponAlphabet('0O1IL2')).toThrow('at least 2 unambiguous characters');
+  });
+
+  it('refuses counts the code space cannot hold', () => {
+    expect(() => generateCouponCodes(10, { length: 2, alphabet: 'AB' })).toThrow('Coupon code space is too small');
+  });
+
+  it('exports coupons as CSV', () => {
+    const available = new CouponCodeEntity('p1', 'PARTNER', 'PARTNER-ABCD', 'batch_1');
+    const redeemed = new CouponCodeEntity('p1', 'PARTNER', 'PARTNER-EFGH', 'batch_1');
+    redeemed.status = CouponCodeStatus.REDEEMED;
+    redeemed.redeemedAt = new Date('2026-01-02T03:04:05Z');
+    redeemed.customerId = 'cust,1';
+
+    expect(buildCouponCodesCsv([available, redeemed]).split('\r\n')).toEqual([
+      'code,promotionCode,batchId,status,redeemedAt,customerId,subscriptionId',
+      'PARTNER-ABCD,PARTNER,batch_1,AVAILABLE,,,',
+      'PARTNER-EFGH,PARTNER,batch_1,REDEEMED,2026-01-02T03:04:05.000Z,"cust,1",',
+      '',
+    ]);
+  });
+});
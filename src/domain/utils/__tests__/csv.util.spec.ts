@@ -0,0 +1,38 @@
+import { parseCsv, parseCsvAmount, parseCsvDate, parseCsvRecords } from '../csv.util';
+
+describe('csv.util', () => {
+  it('parses quoted fields, escaped quotes and CRLF line endings', () => {
+    expect(parseCsv('\uFEFFa,b\r\n1,"x,""y"""\r\n\r\n2,"multi\nline"\n')).toEqual([
+      ['a', 'b'],
+      ['1', 'x,"y"'],
+      ['2', 'multi\nline'],
+    ]);
+  });
+
+  it('maps rows by header and keeps the original line numbers', () => {
+    const records = parseCsvRecords(' id , amount\n\nA1, 100 \n"A2",\n', ['id']);
+
+    expect(records).toEqual([
+      { rowNumber: 3, values: { id: 'A1', amount: '100' } },
+      { rowNumber: 4, values: { id: 'A2', amount: '' } },
+    ]);
+  });
+
+  it('rejects empty files and missing required columns', () => {
+    expect(() => parseCsvRecords('\n\n')).toThrow('CSV file is empty');
+    expect(() => parseCsvRecords('id,amount\nA1,100', ['id', 'fee'])).toThrow('CSV file is missing columns: fee');
+  });
+
+  it('parses amounts with thousands separators and normalizes dates', () => {
+    expect(parseCsvAmount('1,000')).toBe(1000);
+    expect(parseCsvAmount('-12.5')).toBe(-12.5);
+    expect(parseCsvAmount('')).toBeUndefined();
+    expect(parseCsvAmount('NT$100')).toBeUndefined();
+
+    expect(parseCsvDate('2024/03/05')).toBe('2024-03-05');
+    expect(parseCsvDate('20240305')).toBe('2024-03-05');
+    expect(parseCsvDate('2024-3-5 10:20:00')).toBe('2024-03-05');
+    expect(parseCsvDate('2024/02/30')).toBeUndefined();
+    expect(parseCsvDate('03/05/2024')).toBeUndefined();
+  });
+});
@@ -0,0 +1,38 @@
+import { EInvoiceRecipientType } from '../../enums/codes.const';
+import { eInvoicePeriodOf, isValidTaxId, normalizeEInvoicePreference, validateEInvoicePreference } from '../einvoice.util';
+
+describe('einvoice.util', () => {
+  it('validates tax IDs with the checksum, including the 7th-digit exception', () => {
+    expect(isValidTaxId('04595257')).toBe(true);
+    // 第 7 碼為 7，加 1 後整除
+    expect(isValidTaxId('12345675')).toBe(true);
+    // 112 年起以 5 整除即合法
+    expect(isValidTaxId('04595252')).toBe(true);
+    expect(isValidTaxId('12345678')).toBe(false);
+    expect(isValidTaxId('1234567')).toBe(false);
+  });
+
+  it('validates carriers, tax ID buyers and love codes', () => {
+    expect(validateEInvoicePreference({ type: EInvoiceRecipientType.MOBILE_BARCODE, carrierNumber: '/ABC+123' })).toBeUndefined();
+    expect(validateEInvoicePreference({ type: EInvoiceRecipientType.MOBILE_BARCODE, carrierNumber: 'ABC1234' })).toBe('Invalid mobile barcode carrier');
+    expect(validateEInvoicePreference({ type: EInvoiceRecipientType.CITIZEN_CERTIFICATE, carrierNumber: 'AB12345678901234' })).toBeUndefined();
+    expect(validateEInvoicePreference({ type: EInvoiceRecipientType.COMPANY, taxId: '04595257' })).toBe('Company name is required');
+    expect(validateEInvoicePreference({ type: EInvoiceRecipientType.DONATION, loveCode: '168001' })).toBeUndefined();
+    expect(validateEInvoicePreference({ type: EInvoiceRecipientType.DONATION, loveCode: '12' })).toBe('Invalid love code');
+    expect(validateEInvoicePreference({ type: 'PAPER' as EInvoiceRecipientType })).toBe('Unknown e-invoice recipient type');
+  });
+
+  it('keeps only the fields of the chosen recipient type', () => {
+    expect(normalizeEInvoicePreference({ type: EInvoiceRecipientType.DONATION, loveCode: '168001', carrierNumber: '/ABC+123' })).toEqual({
+      type: EInvoiceRecipientType.DONATION,
+      loveCode: '168001',
+    });
+  });
+
+  it('groups dates into bi-monthly invoice periods in Taipei time', () => {
+    // 台北時間 2024-02-29 23:00 與 2024-01-01 08:00 同屬 1-2 月期
+    expect(eInvoicePeriodOf(new Date('2024-02-29T15:00:00Z'))).toBe(eInvoicePeriodOf(new Date('2024-01-01T00:00:00Z')));
+    // 台北時間 2024-03-01 00:30 進入 3-4 月期
+    expect(eInvoicePeriodOf(new Date('2024-02-29T16:30:00Z'))).toBe('2024-2');
+  });
+});
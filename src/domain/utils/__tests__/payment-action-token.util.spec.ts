@@ -0,0 +1,25 @@
+import { createPaymentActionToken, verifyPaymentActionToken } from '../payment-action-token.util';
+
+describe('payment-action-token.util', () => {
+  const secret = 'test-secret';
+  const now = Date.UTC(2026, 0, 1);
+  const expiresAt = new Date(now + 3600 * 1000);
+
+  it('round-trips the claims until the action expires', () => {
+    const token = createPaymentActionToken(secret, 'pay_1', 'cus_1', expiresAt);
+
+    expect(verifyPaymentActionToken(secret, token, now + 1000)).toEqual({ paymentId: 'pay_1', customerId: 'cus_1', exp: now / 1000 + 3600 });
+    expect(verifyPaymentActionToken(secret, token, expiresAt.getTime())).toBeUndefined();
+  });
+
+  it('rejects tampered, foreign or malformed tokens', () => {
+    const token = createPaymentActionToken(secret, 'pay_1', 'cus_1', expiresAt);
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from(JSON.stringify({ paymentId: 'pay_2', customerId: 'cus_1', exp: now / 1000 + 3600 })).toString('base64url')}.${signature}`;
+
+    expect(verifyPaymentActionToken(secret, forged, now)).toBeUndefined();
+    expect(verifyPaymentActionToken('other-secret', token, now)).toBeUndefined();
+    expect(verifyPaymentActionToken(secret, 'not-a-token', now)).toBeUndefined();
+    expect(verifyPaymentActionToken(secret, undefined, now)).toBeUndefined();
+  });
+});
@@ -6,12 +6,14 @@ describe('payment-failure.util', () => {
     expect(mapFailureCategoryFromGateway('TIMEOUT', undefined)).toBe(PaymentFailureCategory.RETRIABLE);
     expect(mapFailureCategoryFromGateway('FAILED', 'CARD_DECLINED')).toBe(PaymentFailureCategory.NON_RETRIABLE);
     expect(mapFailureCategoryFromGateway('FAILED', 'INSUFFICIENT_FUNDS')).toBe(PaymentFailureCategory.DELAYED_RETRY);
+    expect(mapFailureCategoryFromGateway('FAILED', 'AUTHENTICATION_FAILED')).toBe(PaymentFailureCategory.DELAYED_RETRY);
   });
 
   it('maps message to failure category and checks retriable', () => {
     expect(mapFailureCategoryFromMessage('Network timeout')).toBe(PaymentFailureCategory.RETRIABLE);
     expect(isCategoryRetriable(PaymentFailureCategory.RETRIABLE)).toBe(true);
     expect(mapFailureCategoryFromMessage('card declined')).toBe(PaymentFailureCategory.NON_RETRIABLE);
+    expect(mapFailureCategoryFromMessage('Customer authentication not completed')).toBe(PaymentFailureCategory.DELAYED_RETRY);
     expect(isCategoryRetriable(PaymentFailureCategory.NON_RETRIABLE)).toBe(false);
   });
 });
@@ -0,0 +1,24 @@
+import { createPaymentMethodUpdateToken, verifyPaymentMethodUpdateToken } from '../payment-method-update-token.util';
+
+describe('payment-method-update-token.util', () => {
+  const secret = 'test-secret';
+  const now = Date.UTC(2026, 0, 1);
+
+  it('round-trips the claims until the token expires', () => {
+    const token = createPaymentMethodUpdateToken(secret, 'pm_1', 'cus_1', 3600, now);
+
+    expect(verifyPaymentMethodUpdateToken(secret, token, now + 1000)).toEqual({ paymentMethodId: 'pm_1', customerId: 'cus_1', exp: now / 1000 + 3600 });
+    expect(verifyPaymentMethodUpdateToken(secret, token, now + 3600 * 1000)).toBeUndefined();
+  });
+
+  it('rejects tampered, foreign or malformed tokens', () => {
+    const token = createPaymentMethodUpdateToken(secret, 'pm_1', 'cus_1', 3600, now);
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from(JSON.stringify({ paymentMethodId: 'pm_2', customerId: 'cus_1', exp: now / 1000 + 3600 })).toString('base64url')}.${signature}`;
+
+    expect(verifyPaymentMethodUpdateToken(secret, forged, now)).toBeUndefined();
+    expect(verifyPaymentMethodUpdateToken('other-secret', token, now)).toBeUndefined();
+    expect(verifyPaymentMethodUpdateToken(secret, 'not-a-token', now)).toBeUndefined();
+    expect(verifyPaymentMethodUpdateToken(secret, undefined, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,21 @@
+import { resolveQuietHoursEnd } from '../quiet-hours.util';
+
+describe('quiet-hours.util', () => {
+  const quietHours = { start: '22:00', end: '08:00' };
+
+  it('returns the end of quiet hours spanning midnight in the given timezone', () => {
+    // 台北時間 23:30
+    const resumeAt = resolveQuietHoursEnd(new Date('2024-03-01T15:30:00Z'), quietHours, 'Asia/Taipei');
+    expect(resumeAt?.toISOString()).toBe('2024-03-02T00:00:00.000Z');
+
+    // 台北時間 07:15
+    expect(resolveQuietHoursEnd(new Date('2024-03-01T23:15:00Z'), quietHours, 'Asia/Taipei')?.toISOString()).toBe('2024-03-02T00:00:00.000Z');
+  });
+
+  it('returns undefined outside quiet hours or without a valid setting', () => {
+    // 台北時間 12:00
+    expect(resolveQuietHoursEnd(new Date('2024-03-01T04:00:00Z'), quietHours, 'Asia/Taipei')).toBeUndefined();
+    expect(resolveQuietHoursEnd(new Date('2024-03-01T15:30:00Z'), undefined, 'Asia/Taipei')).toBeUndefined();
+    expect(resolveQuietHoursEnd(new Date('2024-03-01T15:30:00Z'), { start: '25:00', end: '08:00' }, 'Asia/Taipei')).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+import * as crypto from 'crypto';
+import { CouponCodeEntity } from '../entities/coupon-code.entity';
+
+/** 容易混淆的字元（0/O、1/I/L），產生券碼時一律排除 */
+export const AMBIGUOUS_COUPON_CHARACTERS = '0O1IL';
+
+/** 預設券碼字元集 */
+export const DEFAULT_COUPON_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/** 預設隨機段長度 */
+export const DEFAULT_COUPON_LENGTH = 8;
+
+/**
+ * 券碼格式設定
+ */
+export interface CouponCodeFormat {
+  /** 前綴（原樣保留） */
+  prefix?: string;
+  /** 隨機段長度 */
+  length?: number;
+  /** 隨機段字元集，會移除易混淆字元 */
+  alphabet?: string;
+}
+
+/**
+ * 整理字元集：轉大寫、去重並移除易混淆字元
+ */
+export function normalizeCouponAlphabet(alphabet: string = DEFAULT_COUPON_ALPHABET): string {
+  const characters = Array.from(new Set(alphabet.toUpperCase().split(''))).filter((c) => !AMBIGUOUS_COUPON_CHARACTERS.includes(c));
+  if (characters.length < 2) {
+    throw new Error('Coupon alphabet must contain at least 2 unambiguous characters');
+  }
+  return characters.join('');
+}
+
+/**
+ * 產生 count 組互不重複的券碼
+ * 可用組合數不足 count 的兩倍時拒絕產生，避免重試碰撞過多
+ */
+export function generateCouponCodes(count: number, format: CouponCodeFormat = {}): string[] {
+  const alphabet = normalizeCouponAlphabet(format.alphabet);
+  const length = format.length ?? DEFAULT_COUPON_LENGTH;
+  const prefix = format.prefix ?? '';
+
+  if (Math.pow(alphabet.length, length) < count * 2) {
+    throw new Error('Coupon code space is too small for the requested count');
+  }
+
+  const codes = new Set<string>();
+  while (codes.size < count) {
+    let code = prefix;
+    for (let i = 0; i < length; i++) {
+      code += alphabet[crypto.randomInt(alphabet.length)];
+    }
+    codes.add(code);
+  }
+  return Array.from(codes);
+}
+
+/**
+ * 匯出券碼為 CSV
+ */
+export function buildCouponCodesCsv(coupons: CouponCodeEntity[]): string {
+  const header = ['code', 'promotionCode', 'batchId', 'status', 'redeemedAt', 'customerId', 'subscriptionId'];
+  const rows = coupons.map((coupon) =>
+    [coupon.code, coupon.promotionCode, coupon.batchId, coupon.status, coupon.redeemedAt?.toISOString(), coupon.customerId, coupon.subscriptionId].map(toCsvField).join(','),
+  );
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function toCsvField(value?: string): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,121 @@
+/**
+ * 以標題列對應欄位的 CSV 資料列
+ */
+export interface CsvRecord {
+  /** 檔案中的資料列號（含標題列，從 1 開始） */
+  rowNumber: number;
+  values: Record<string, string>;
+}
+
+/**
+ * 解析 CSV（RFC 4180：雙引號包住的欄位可含逗號、換行，兩個雙引號代表一個雙引號）
+ * 移除 UTF-8 BOM，略過空白列
+ */
+export function parseCsv(content: string): string[][] {
+  return tokenize(content).map((row) => row.values);
+}
+
+/**
+ * 解析含標題列的 CSV，欄位名稱與值皆去除前後空白
+ * 缺少必要欄位時拋出錯誤
+ */
+export function parseCsvRecords(content: string, requiredColumns: string[] = []): CsvRecord[] {
+  const [header, ...rows] = tokenize(content);
+  if (!header) {
+    throw new Error('CSV file is empty');
+  }
+
+  const columns = header.values.map((column) => column.trim());
+  const missing = requiredColumns.filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`CSV file is missing columns: ${missing.join(', ')}`);
+  }
+
+  return rows.map((row) => ({
+    rowNumber: row.line,
+    values: Object.fromEntries(columns.map((column, position) => [column, (row.values[position] ?? '').trim()])),
+  }));
+}
+
+/**
+ * 逐字元切分欄位，並記錄每列在檔案中的起始列號（跳過的空白列仍計入列號，方便對照原始檔案）
+ */
+function tokenize(content: string): Array<{ line: number; values: string[] }> {
+  const text = (content || '').replace(/^\uFEFF/, '');
+  const rows: Array<{ line: number; values: string[] }> = [];
+  let values: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRow = () => {
+    values.push(field);
+    if (values.some((value) => value.trim() !== '')) {
+      rows.push({ line: start, values });
+    }
+    values = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      values.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+      start = ++line;
+    } else {
+      field += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * 解析金額欄位（允許千分位逗號），空白或格式錯誤時回傳 undefined
+ */
+export function parseCsvAmount(value: string): number | undefined {
+  const normalized = (value || '').replace(/,/g, '').trim();
+  if (!/^-?\d+(\.\d+)?$/.test(normalized)) {
+    return undefined;
+  }
+  return Number(normalized);
+}
+
+/**
+ * 將 YYYY-MM-DD、YYYY/MM/DD 或 YYYYMMDD（可帶時間）轉為 YYYY-MM-DD，格式錯誤時回傳 undefined
+ */
+export function parseCsvDate(value: string): string | undefined {
+  const match = /^(\d{4})[-/]?(\d{1,2})[-/]?(\d{1,2})(?:[ T].*)?$/.exec((value || '').trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date.toISOString().slice(0, 10);
+}
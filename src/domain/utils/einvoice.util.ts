@@ -0,0 +1,109 @@
+import { EInvoiceRecipientType } from '../enums/codes.const';
+
+/**
+ * 電子發票收受設定
+ */
+export interface EInvoicePreference {
+  type: EInvoiceRecipientType;
+  /** 載具號碼（手機條碼或自然人憑證） */
+  carrierNumber?: string;
+  /** 統一編號 */
+  taxId?: string;
+  /** 發票抬頭（公司名稱） */
+  companyName?: string;
+  /** 發票寄送地址（打統一編號時列印寄送） */
+  address?: string;
+  /** 愛心碼 */
+  loveCode?: string;
+}
+
+/** 統一編號檢查碼權重 */
+const TAX_ID_WEIGHTS = [1, 2, 1, 2, 1, 2, 4, 1];
+
+/**
+ * 手機條碼：斜線開頭加 7 碼（數字、大寫英文、+ - .）
+ */
+export function isValidMobileBarcode(value: string): boolean {
+  return /^\/[0-9A-Z.+-]{7}$/.test(value || '');
+}
+
+/**
+ * 自然人憑證：2 碼大寫英文加 14 碼數字
+ */
+export function isValidCitizenCertificate(value: string): boolean {
+  return /^[A-Z]{2}\d{14}$/.test(value || '');
+}
+
+/**
+ * 愛心碼：3 至 7 碼數字
+ */
+export function isValidLoveCode(value: string): boolean {
+  return /^\d{3,7}$/.test(value || '');
+}
+
+/**
+ * 統一編號：8 碼數字且通過檢查碼驗證
+ * 依財政部 112 年起的規則以 5 整除判斷（相容舊制的 10 整除），第 7 碼為 7 時可加 1 再判斷
+ */
+export function isValidTaxId(value: string): boolean {
+  if (!/^\d{8}$/.test(value || '')) {
+    return false;
+  }
+
+  const sum = TAX_ID_WEIGHTS.reduce((acc, weight, i) => {
+    const product = Number(value[i]) * weight;
+    return acc + Math.floor(product / 10) + (product % 10);
+  }, 0);
+
+  return sum % 5 === 0 || (value[6] === '7' && (sum + 1) % 5 === 0);
+}
+
+/**
+ * 檢查收受設定，回傳不符合的原因；通過時回傳 undefined
+ */
+export function validateEInvoicePreference(preference: EInvoicePreference): string | undefined {
+  switch (preference?.type) {
+    case EInvoiceRecipientType.MEMBER:
+      return undefined;
+    case EInvoiceRecipientType.MOBILE_BARCODE:
+      return isValidMobileBarcode(preference.carrierNumber) ? undefined : 'Invalid mobile barcode carrier';
+    case EInvoiceRecipientType.CITIZEN_CERTIFICATE:
+      return isValidCitizenCertificate(preference.carrierNumber) ? undefined : 'Invalid citizen digital certificate carrier';
+    case EInvoiceRecipientType.COMPANY:
+      if (!isValidTaxId(preference.taxId)) {
+        return 'Invalid tax ID';
+      }
+      return preference.companyName?.trim() ? undefined : 'Company name is required';
+    case EInvoiceRecipientType.DONATION:
+      return isValidLoveCode(preference.loveCode) ? undefined : 'Invalid love code';
+    default:
+      return 'Unknown e-invoice recipient type';
+  }
+}
+
+/**
+ * 只保留收受方式需要的欄位
+ */
+export function normalizeEInvoicePreference(preference: EInvoicePreference): EInvoicePreference {
+  switch (preference.type) {
+    case EInvoiceRecipientType.MOBILE_BARCODE:
+    case EInvoiceRecipientType.CITIZEN_CERTIFICATE:
+      return { type: preference.type, carrierNumber: preference.carrierNumber };
+    case EInvoiceRecipientType.COMPANY:
+      return { type: preference.type, taxId: preference.taxId, companyName: preference.companyName.trim(), address: preference.address?.trim() || undefined };
+    case EInvoiceRecipientType.DONATION:
+      return { type: preference.type, loveCode: preference.loveCode };
+    default:
+      return { type: preference.type };
+  }
+}
+
+/**
+ * 取得台灣發票的期別（每兩個月一期，例如 1-2 月為 1 期），用於判斷可否作廢
+ */
+export function eInvoicePeriodOf(date: Date, timezone: string = 'Asia/Taipei'): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone: timezone, year: 'numeric', month: 'numeric' }).formatToParts(date);
+  const year = Number(parts.find((p) => p.type === 'year')?.value);
+  const month = Number(parts.find((p) => p.type === 'month')?.value);
+  return `${year}-${Math.ceil(month / 2)}`;
+}
@@ -11,6 +11,8 @@ export function mapFailureCategoryFromGateway(status?: string, errorCode?: strin
     case 'INSUFFICIENT_FUNDS':
     case 'DAILY_LIMIT_EXCEEDED':
     case 'TEMPORARILY_UNAVAILABLE':
+    case 'AUTHENTICATION_FAILED':
+    case 'AUTHENTICATION_TIMEOUT':
       return PaymentFailureCategory.DELAYED_RETRY;
     case 'CARD_DECLINED':
     case 'DO_NOT_HONOR':
@@ -51,11 +53,48 @@ export function mapFailureCategoryFromMessage(msg?: string): PaymentFailureCateg
 
   if (m.includes('timeout') || m.includes('network')) return PaymentFailureCategory.RETRIABLE;
   if (m.includes('insufficient funds') || m.includes('balance')) return PaymentFailureCategory.DELAYED_RETRY;
+  if (m.includes('authentication')) return PaymentFailureCategory.DELAYED_RETRY;
   if (m.includes('declined') || m.includes('invalid') || m.includes('fraud')) return PaymentFailureCategory.NON_RETRIABLE;
 
   return PaymentFailureCategory.NON_RETRIABLE;
 }
 
+/** 閘道端的連線或暫時性錯誤碼 */
+const GATEWAY_AVAILABILITY_ERROR_CODES = ['GATEWAY_TIMEOUT', 'NETWORK_ERROR', 'TIMEOUT', 'SERVICE_UNAVAILABLE'];
+
+/**
+ * 是否為閘道端的連線或暫時性錯誤（可改用其他閘道），卡片拒絕等發卡端結果不算
+ */
+export function isGatewayAvailabilityError(errorCode?: string): boolean {
+  return GATEWAY_AVAILABILITY_ERROR_CODES.includes((errorCode || '').toUpperCase());
+}
+
+/** 請求確定未送達閘道的錯誤碼（斷路、連線被拒、服務不可用） */
+const GATEWAY_UNREACHABLE_ERROR_CODES = ['SERVICE_UNAVAILABLE', 'CONNECTION_REFUSED', 'ECONNREFUSED', 'CIRCUIT_OPEN'];
+
+/**
+ * 是否為請求確定未送達閘道的錯誤，可直接改用其他閘道；逾時等錯誤無法確定閘道是否已扣款，不算
+ */
+export function isGatewayUnreachableError(errorCode?: string): boolean {
+  return GATEWAY_UNREACHABLE_ERROR_CODES.includes((errorCode || '').toUpperCase());
+}
+
 export function isCategoryRetriable(category: PaymentFailureCategory): boolean {
   return category === PaymentFailureCategory.RETRIABLE || category === PaymentFailureCategory.DELAYED_RETRY;
 }
+
+/**
+ * 將支付失敗類別轉換為計費嘗試的失敗分類
+ */
+export function mapToAttemptFailureCategory(category?: PaymentFailureCategory): 'PAYMENT_METHOD' | 'INSUFFICIENT_FUNDS' | 'NETWORK' | 'SYSTEM' {
+  switch (category) {
+    case PaymentFailureCategory.RETRIABLE:
+      return 'NETWORK';
+    case PaymentFailureCategory.DELAYED_RETRY:
+      return 'INSUFFICIENT_FUNDS';
+    case PaymentFailureCategory.NON_RETRIABLE:
+      return 'PAYMENT_METHOD';
+    default:
+      return 'SYSTEM';
+  }
+}
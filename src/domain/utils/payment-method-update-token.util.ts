@@ -0,0 +1,52 @@
+import * as crypto from 'crypto';
+
+/**
+ * 支付方式更新連結的內容
+ */
+export interface PaymentMethodUpdateClaims {
+  /** 即將到期的支付方式 ID */
+  paymentMethodId: string;
+  /** 所屬客戶 ID */
+  customerId: string;
+  /** 到期時間（unix 秒） */
+  exp: number;
+}
+
+function sign(secret: string, payload: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * 產生更新連結的 token，格式 `<base64url 內容>.<base64url 簽章>`
+ */
+export function createPaymentMethodUpdateToken(secret: string, paymentMethodId: string, customerId: string, ttlSeconds: number, now: number = Date.now()): string {
+  const claims: PaymentMethodUpdateClaims = { paymentMethodId, customerId, exp: Math.floor(now / 1000) + ttlSeconds };
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(secret, payload)}`;
+}
+
+/**
+ * 驗證 token 的簽章與期限，失敗時回傳 undefined
+ */
+export function verifyPaymentMethodUpdateToken(secret: string, token: string, now: number = Date.now()): PaymentMethodUpdateClaims | undefined {
+  const [payload, signature] = (token || '').split('.');
+  if (!payload || !signature) {
+    return undefined;
+  }
+
+  const expected = Buffer.from(sign(secret, payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return undefined;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as PaymentMethodUpdateClaims;
+    if (!claims.paymentMethodId || !claims.customerId || !(claims.exp > Math.floor(now / 1000))) {
+      return undefined;
+    }
+    return claims;
+  } catch {
+    return undefined;
+  }
+}
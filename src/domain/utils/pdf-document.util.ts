@@ -0,0 +1,92 @@
+/**
+ * 單頁文字 PDF 產生工具
+ * 拉丁字元使用內建 Helvetica；含中文等其他字元的文字使用 Adobe CNS1 標準字型 MSung-Light（不嵌入字型）
+ */
+
+/**
+ * 一段文字（座標單位為 pt，原點在左下角）
+ */
+export interface PdfText {
+  text: string;
+  x: number;
+  y: number;
+  size?: number;
+  bold?: boolean;
+}
+
+/** A4 尺寸（pt） */
+export const PDF_A4_WIDTH = 595;
+export const PDF_A4_HEIGHT = 842;
+
+/** WinAnsiEncoding 中非 ASCII 的常用字元 */
+const WIN_ANSI_EXTRA: Record<string, number> = { '€': 0x80 };
+
+function isWinAnsi(text: string): boolean {
+  return [...text].every((ch) => ch.charCodeAt(0) < 0x80 || WIN_ANSI_EXTRA[ch] !== undefined);
+}
+
+/**
+ * 轉為 PDF 字面字串，跳脫括號與反斜線
+ */
+function toLiteralString(text: string): string {
+  const escaped = [...text]
+    .map((ch) => {
+      if (WIN_ANSI_EXTRA[ch] !== undefined) {
+        return `\\${WIN_ANSI_EXTRA[ch].toString(8)}`;
+      }
+      return ch === '(' || ch === ')' || ch === '\\' ? `\\${ch}` : ch;
+    })
+    .join('');
+  return `(${escaped})`;
+}
+
+/**
+ * 轉為 UCS-2 十六進位字串，超出 BMP 的字元以 ? 取代
+ */
+function toUcs2HexString(text: string): string {
+  const hex = [...text]
+    .map((ch) => {
+      const code = ch.codePointAt(0);
+      return (code > 0xffff ? 0x3f : code).toString(16).padStart(4, '0');
+    })
+    .join('');
+  return `<${hex}>`;
+}
+
+function textOperator(item: PdfText): string {
+  const size = item.size ?? 10;
+  const [font, value] = isWinAnsi(item.text) ? [item.bold ? 'F2' : 'F1', toLiteralString(item.text)] : ['F3', toUcs2HexString(item.text)];
+  return `BT /${font} ${size} Tf ${item.x} ${item.y} Td ${value} Tj ET`;
+}
+
+/**
+ * 產生單頁 A4 PDF
+ */
+export function renderTextPdf(items: PdfText[]): Buffer {
+  const content = items.map((item) => textOperator(item)).join('\n');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_A4_WIDTH} ${PDF_A4_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R /F3 6 0 R >> >> /Contents 9 0 R >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type0 /BaseFont /MSung-Light /Encoding /UniCNS-UCS2-H /DescendantFonts [7 0 R] >>',
+    '<< /Type /Font /Subtype /CIDFontType0 /BaseFont /MSung-Light /CIDSystemInfo << /Registry (Adobe) /Ordering (CNS1) /Supplement 0 >> /FontDescriptor 8 0 R /DW 1000 /W [1 95 500] >>',
+    '<< /Type /FontDescriptor /FontName /MSung-Light /Flags 6 /FontBBox [-160 -249 1015 1071] /ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 880 /StemV 93 >>',
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
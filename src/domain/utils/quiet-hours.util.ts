@@ -0,0 +1,49 @@
+/**
+ * 勿擾時段（HH:mm，可跨午夜，例如 22:00 - 08:00）
+ */
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * 將 HH:mm 轉為當日分鐘數，格式錯誤時回傳 undefined
+ */
+function toMinutes(value: string): number | undefined {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value || '');
+  return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+}
+
+/**
+ * 取得指定時區的當日分鐘數
+ */
+function minutesInTimezone(at: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).formatToParts(at);
+  const hour = Number(parts.find((p) => p.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find((p) => p.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+/**
+ * 若指定時間落在勿擾時段內，回傳勿擾結束的時間；否則回傳 undefined
+ */
+export function resolveQuietHoursEnd(at: Date, quietHours: QuietHours | undefined, timezone: string): Date | undefined {
+  const start = toMinutes(quietHours?.start);
+  const end = toMinutes(quietHours?.end);
+  if (start === undefined || end === undefined || start === end) {
+    return undefined;
+  }
+
+  const now = minutesInTimezone(at, timezone);
+  const inQuietHours = start < end ? now >= start && now < end : now >= start || now < end;
+  if (!inQuietHours) {
+    return undefined;
+  }
+
+  const minutesLeft = (end - now + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const resumeAt = new Date(at.getTime() + minutesLeft * 60 * 1000);
+  resumeAt.setUTCSeconds(0, 0);
+  return resumeAt;
+}
@@ -0,0 +1,47 @@
+import * as crypto from 'crypto';
+
+/** 簽章 header，格式 `t=<unix 秒>,v1=<hex>` */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+/** 時間戳 header（unix 秒） */
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+/** 事件 ID header，供接收端去重 */
+export const WEBHOOK_EVENT_ID_HEADER = 'X-Webhook-Event-Id';
+
+/**
+ * 產生簽章密鑰
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * 以 HMAC-SHA256 對 `<timestamp>.<body>` 簽章
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * 組出簽章 header 值
+ */
+export function buildWebhookSignatureHeader(secret: string, timestamp: number, body: string): string {
+  return `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, body)}`;
+}
+
+/**
+ * 驗證簽章 header，並拒絕超出容許時間差的請求以防重放
+ */
+export function verifyWebhookSignature(secret: string, header: string, body: string, toleranceSeconds: number = 300, now: number = Date.now()): boolean {
+  const parts = Object.fromEntries((header || '').split(',').map((part) => part.trim().split('=', 2)));
+  const timestamp = Number.parseInt(parts.t, 10);
+  if (!Number.isFinite(timestamp) || !parts.v1) {
+    return false;
+  }
+  if (Math.abs(Math.floor(now / 1000) - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body), 'hex');
+  const actual = Buffer.from(parts.v1, 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,86 @@
+import { SubscriptionEntity } from '../../entities/subscription.entity';
+import { PromotionDuration } from '../../enums/codes.const';
+import { DiscountSchedule } from '../discount-schedule';
+import { Money } from '../money';
+
+describe('DiscountSchedule', () => {
+  const base = new Money(1000);
+
+  it('picks the stage for each cycle and stops after the last one', () => {
+    const schedule = new DiscountSchedule([
+      { type: 'PERCENTAGE', value: 50, cycles: 3 },
+      { type: 'PERCENTAGE', value: 20, cycles: 6 },
+    ]);
+
+    expect(schedule.totalCycles).toBe(9);
+    expect([0, 2, 3, 8, 9].map((offset) => schedule.calculateDiscount(base, offset).amount)).toEqual([500, 500, 200, 200, 0]);
+  });
+
+  it('builds once, repeating and forever schedules', () => {
+    expect(DiscountSchedule.fromDuration('FIXED_AMOUNT', 300, PromotionDuration.ONCE).totalCycles).toBe(1);
+    expect(DiscountSchedule.fromDuration('FIXED_AMOUNT', 300, PromotionDuration.REPEATING, 4).totalCycles).toBe(4);
+
+    const forever = DiscountSchedule.fromDuration('FIXED_AMOUNT', 3000, PromotionDuration.FOREVER);
+    expect(forever.totalCycles).toBeNull();
+    expect(forever.calculateDiscount(base, 120).amount).toBe(1000);
+  });
+
+  it('rejects invalid stages', () => {
+    expect(() => DiscountSchedule.fromDuration('PERCENTAGE', 10, PromotionDuration.REPEATING)).toThrow('requires durationInCycles');
+    expect(() => DiscountSchedule.fromDuration('PERCENTAGE', 10, PromotionDuration.REPEATING, 1.5)).toThrow('cycles must be a positive integer');
+    expect(
+      () =>
+        new DiscountSchedule([
+          { type: 'PERCENTAGE', value: 10 },
+          { type: 'PERCENTAGE', value: 5, cycles: 1 },
+        ]),
+    ).toThrow('only the last stage can last forever');
+    expect(() => new DiscountSchedule([{ type: 'PERCENTAGE', value: 120, cycles: 1 }])).toThrow('invalid value');
+  });
+});
+
+describe('SubscriptionEntity promotion cycles', () => {
+  const renew = (subscription: SubscriptionEntity, times: number) => {
+    for (let i = 0; i < times; i++) {
+      subscription.recordSuccessfulBilling();
+    }
+  };
+
+  it('follows the schedule on each renewal and expires once the cycles are used up', () => {
+    const subscription = new SubscriptionEntity('cust_1', 'pm_1', 'Basic', 1000, 'monthly');
+    subscription.applyPromotion(
+      'promo_staged',
+      new DiscountSchedule([
+        { type: 'PERCENTAGE', value: 50, cycles: 3 },
+        { type: 'PERCENTAGE', value: 20, cycles: 6 },
+      ]),
+    );
+
+    expect(subscription.calculateCurrentPeriodAmount().amount).toBe(500);
+
+    renew(subscription, 3);
+    expect(subscription.currentPeriod.cycleNumber).toBe(4);
+    expect(subscription.calculateCurrentPeriodAmount().amount).toBe(800);
+    expect(subscription.appliedPromotions[0]).toMatchObject({ status: 'ACTIVE', cyclesApplied: 3, remainingCycles: 6, discountAmount: new Money(200) });
+
+    renew(subscription, 6);
+    expect(subscription.appliedPromotions[0]).toMatchObject({ status: 'EXPIRED', remainingCycles: 0 });
+    expect(subscription.appliedPromotions[0].expiredAt).toBeInstanceOf(Date);
+    expect(subscription.calculateCurrentPeriodAmount().amount).toBe(1000);
+  });
+
+  it('waits for the starting cycle and keeps fixed discounts until removed', () => {
+    const subscription = new SubscriptionEntity('cust_1', 'pm_1', 'Basic', 1000, 'monthly');
+    subscription.applyPromotion('promo_later', DiscountSchedule.fromDuration('FIXED_AMOUNT', 100, PromotionDuration.ONCE), 2);
+    subscription.applyPromotion('promo_fixed', new Money(50));
+
+    expect(subscription.calculateCurrentPeriodAmount().amount).toBe(950);
+
+    renew(subscription, 1);
+    expect(subscription.calculateCurrentPeriodAmount().amount).toBe(850);
+
+    renew(subscription, 5);
+    expect(subscription.appliedPromotions.map((p) => p.status)).toEqual(['EXPIRED', 'ACTIVE']);
+    expect(subscription.calculateCurrentPeriodAmount().amount).toBe(950);
+  });
+});
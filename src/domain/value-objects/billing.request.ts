@@ -1,5 +1,6 @@
-import { IsString, IsOptional, IsNumber, Min, IsDateString } from 'class-validator';
+import { IsString, IsOptional, IsNumber, Min, Max, IsDateString, IsEnum } from 'class-validator';
 import { Transform } from 'class-transformer';
+import { BillingAttemptStatus, BillingAttemptType } from '../enums/codes.const';
 
 /**
  * 訂閱計費請求 DTO
@@ -46,3 +47,37 @@ export class BillingReportRequest {
   @Transform(({ value }) => parseInt(value, 10))
   limit?: number = 100;
 }
+
+/**
+ * 計費嘗試歷史查詢請求 DTO
+ */
+export class BillingAttemptQueryRequest {
+  @IsOptional()
+  @IsEnum(BillingAttemptStatus)
+  status?: BillingAttemptStatus;
+
+  @IsOptional()
+  @IsEnum(BillingAttemptType)
+  type?: BillingAttemptType;
+
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  page?: number = 1;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value, 10))
+  limit?: number = 20;
+}
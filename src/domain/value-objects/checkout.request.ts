@@ -0,0 +1,98 @@
+import { IsString, IsNotEmpty, IsOptional, IsEnum, IsInt, IsNumber, IsObject, Min, Max, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaymentMethodType } from '../enums/codes.const';
+
+/**
+ * 建立結帳工作階段請求 DTO
+ */
+export class CreateCheckoutSessionRequest {
+  @IsString()
+  @IsNotEmpty()
+  customerId: string;
+
+  @IsString()
+  @IsOptional()
+  subscriptionId?: string;
+
+  @IsString()
+  @IsOptional()
+  paymentId?: string;
+
+  @IsString()
+  @IsOptional()
+  gateway?: string;
+
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  amount?: number;
+
+  @IsString()
+  @IsOptional()
+  currency?: string;
+
+  @IsString()
+  @IsOptional()
+  successUrl?: string;
+
+  @IsString()
+  @IsOptional()
+  cancelUrl?: string;
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, any>;
+}
+
+/**
+ * 卡片資料 DTO
+ */
+export class CheckoutCardDto {
+  @IsString()
+  @IsOptional()
+  number?: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  @IsOptional()
+  expMonth?: number;
+
+  @IsInt()
+  @IsOptional()
+  expYear?: number;
+
+  @IsString()
+  @IsOptional()
+  holderName?: string;
+
+  @IsString()
+  @IsOptional()
+  brand?: string;
+}
+
+/**
+ * 完成結帳工作階段請求 DTO
+ */
+export class CompleteCheckoutSessionRequest {
+  @IsString()
+  @IsNotEmpty()
+  sessionToken: string;
+
+  @IsEnum(PaymentMethodType)
+  @IsOptional()
+  paymentMethodType?: PaymentMethodType;
+
+  @IsString()
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  token?: string;
+
+  @ValidateNested()
+  @Type(() => CheckoutCardDto)
+  @IsOptional()
+  card?: CheckoutCardDto;
+}
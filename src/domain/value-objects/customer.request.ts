@@ -1,5 +1,6 @@
-import { IsString, IsNotEmpty, IsEmail, IsOptional, IsArray, ArrayMaxSize } from 'class-validator';
+import { IsString, IsNotEmpty, IsEmail, IsOptional, IsArray, ArrayMaxSize, IsEnum, IsInt, Min, Max, IsDateString, Length, IsNumber } from 'class-validator';
 import { Transform } from 'class-transformer';
+import { EInvoiceRecipientType } from '../enums/codes.const';
 
 /**
  * 創建客戶請求 DTO
@@ -114,3 +115,102 @@ export class AssignPaymentMethodRequest {
   @IsNotEmpty()
   paymentMethodId: string;
 }
+
+/**
+ * 電子發票收受設定請求 DTO
+ */
+export class UpdateEInvoiceSettingsRequest {
+  @IsEnum(EInvoiceRecipientType)
+  type: EInvoiceRecipientType;
+
+  @IsString()
+  @IsOptional()
+  carrierNumber?: string;
+
+  @IsString()
+  @IsOptional()
+  taxId?: string;
+
+  @IsString()
+  @IsOptional()
+  companyName?: string;
+
+  @IsString()
+  @IsOptional()
+  address?: string;
+
+  @IsString()
+  @IsOptional()
+  loveCode?: string;
+}
+
+/**
+ * 抵用金入帳請求 DTO
+ */
+export class GrantCreditRequest {
+  @IsInt()
+  @Min(1)
+  amount: number;
+
+  @IsString()
+  @Length(3, 3)
+  @IsOptional()
+  currency?: string = 'TWD';
+
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  @IsString()
+  @IsOptional()
+  actor?: string;
+
+  @IsDateString()
+  @IsOptional()
+  expiresAt?: string;
+}
+
+/**
+ * 抵用金收回請求 DTO
+ */
+export class RevokeCreditRequest {
+  @IsInt()
+  @Min(1)
+  amount: number;
+
+  @IsString()
+  @Length(3, 3)
+  @IsOptional()
+  currency?: string = 'TWD';
+
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  @IsString()
+  @IsOptional()
+  actor?: string;
+}
+
+/**
+ * 抵用金分錄查詢請求 DTO
+ */
+export class CreditEntriesQueryRequest {
+  @IsString()
+  @Length(3, 3)
+  @IsOptional()
+  currency?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  page?: number = 1;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value, 10))
+  limit?: number = 20;
+}
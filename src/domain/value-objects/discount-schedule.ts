@@ -0,0 +1,109 @@
+import { Money } from './money';
+import { PromotionDuration } from '../enums/codes.const';
+
+/**
+ * 折扣階段
+ */
+export interface DiscountStage {
+  type: 'PERCENTAGE' | 'FIXED_AMOUNT';
+  /** 百分比（0-100）或固定金額（以分為單位） */
+  value: number;
+  /** 持續期數，未設定表示持續至訂閱結束（僅限最後一個階段） */
+  cycles?: number;
+}
+
+/**
+ * 多期折扣排程
+ * 依套用後已計費的期數決定當期折扣，例如前 3 期 50% off、接著 6 期 20% off
+ */
+export class DiscountSchedule {
+  private readonly _stages: DiscountStage[];
+
+  constructor(stages: DiscountStage[]) {
+    if (!stages || stages.length === 0) {
+      throw new Error('Invalid discount schedule: at least one stage is required');
+    }
+
+    stages.forEach((stage, index) => {
+      if (stage.value < 0 || (stage.type === 'PERCENTAGE' && stage.value > 100)) {
+        throw new Error(`Invalid discount schedule: stage ${index + 1} has an invalid value`);
+      }
+      if (stage.cycles === undefined || stage.cycles === null) {
+        if (index !== stages.length - 1) {
+          throw new Error('Invalid discount schedule: only the last stage can last forever');
+        }
+      } else if (!Number.isInteger(stage.cycles) || stage.cycles < 1) {
+        throw new Error(`Invalid discount schedule: stage ${index + 1} cycles must be a positive integer`);
+      }
+    });
+
+    this._stages = stages.map((stage) => ({ type: stage.type, value: stage.value, ...(stage.cycles != null && { cycles: stage.cycles }) }));
+  }
+
+  /**
+   * 由持續期間建立單一階段的排程
+   */
+  static fromDuration(type: DiscountStage['type'], value: number, duration: PromotionDuration, durationInCycles?: number): DiscountSchedule {
+    switch (duration) {
+      case PromotionDuration.ONCE:
+        return new DiscountSchedule([{ type, value, cycles: 1 }]);
+      case PromotionDuration.REPEATING:
+        if (!durationInCycles) {
+          throw new Error('Invalid discount schedule: repeating duration requires durationInCycles');
+        }
+        return new DiscountSchedule([{ type, value, cycles: durationInCycles }]);
+      case PromotionDuration.FOREVER:
+      default:
+        return new DiscountSchedule([{ type, value }]);
+    }
+  }
+
+  get stages(): DiscountStage[] {
+    return this._stages.map((stage) => ({ ...stage }));
+  }
+
+  /**
+   * 總期數，null 表示不限期數
+   */
+  get totalCycles(): number | null {
+    const last = this._stages[this._stages.length - 1];
+    if (last.cycles === undefined) {
+      return null;
+    }
+    return this._stages.reduce((total, stage) => total + stage.cycles, 0);
+  }
+
+  /**
+   * 取得第 N 期（從 0 起算）適用的階段，期數用盡時回傳 undefined
+   */
+  stageAt(cycleOffset: number): DiscountStage | undefined {
+    let start = 0;
+    for (const stage of this._stages) {
+      if (stage.cycles === undefined || cycleOffset < start + stage.cycles) {
+        return cycleOffset >= start ? { ...stage } : undefined;
+      }
+      start += stage.cycles;
+    }
+    return undefined;
+  }
+
+  /**
+   * 計算第 N 期的折扣金額，不超過原始金額
+   */
+  calculateDiscount(baseAmount: Money, cycleOffset: number): Money {
+    const stage = this.stageAt(cycleOffset);
+    if (!stage) {
+      return Money.zero(baseAmount.currency);
+    }
+
+    const discount = stage.type === 'PERCENTAGE' ? baseAmount.percentage(stage.value) : new Money(stage.value, baseAmount.currency);
+    return Money.min(discount, baseAmount);
+  }
+
+  toJSON() {
+    return {
+      stages: this.stages,
+      totalCycles: this.totalCycles,
+    };
+  }
+}
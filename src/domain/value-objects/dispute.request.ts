@@ -0,0 +1,107 @@
+import { IsString, IsNotEmpty, IsOptional, IsEnum, IsNumber, IsDateString, IsIn, Min, Max } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { DisputeStatus } from '../enums/codes.const';
+
+/**
+ * 人工登錄爭議請求 DTO
+ */
+export class OpenDisputeRequest {
+  @IsString()
+  @IsNotEmpty()
+  paymentId: string;
+
+  /** 爭議金額（以分為單位），未指定時為付款全額 */
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  amount?: number;
+
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  @IsDateString()
+  @IsOptional()
+  responseDueBy?: string;
+
+  @IsString()
+  @IsOptional()
+  gatewayDisputeId?: string;
+}
+
+/**
+ * 上傳證據請求 DTO（multipart 表單欄位，檔案欄位為 file）
+ */
+export class UploadDisputeEvidenceRequest {
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsString()
+  @IsOptional()
+  uploadedBy?: string;
+}
+
+/**
+ * 提交爭議回覆請求 DTO
+ */
+export class SubmitDisputeResponseRequest {
+  @IsString()
+  @IsOptional()
+  note?: string;
+}
+
+/**
+ * 登錄爭議結果請求 DTO
+ */
+export class ResolveDisputeRequest {
+  @IsIn([DisputeStatus.WON, DisputeStatus.LOST])
+  outcome: DisputeStatus;
+
+  @IsString()
+  @IsOptional()
+  note?: string;
+}
+
+/**
+ * 爭議查詢請求 DTO
+ */
+export class DisputeQueryRequest {
+  @IsEnum(DisputeStatus)
+  @IsOptional()
+  status?: DisputeStatus;
+
+  @IsString()
+  @IsOptional()
+  gateway?: string;
+
+  @IsString()
+  @IsOptional()
+  customerId?: string;
+
+  @IsString()
+  @IsOptional()
+  subscriptionId?: string;
+
+  @IsString()
+  @IsOptional()
+  paymentId?: string;
+
+  /** 回覆期限早於此時間 */
+  @IsDateString()
+  @IsOptional()
+  dueBefore?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  page?: number = 1;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value, 10))
+  limit?: number = 20;
+}
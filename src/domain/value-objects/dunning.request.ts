@@ -0,0 +1,143 @@
+import { IsString, IsNotEmpty, IsOptional, IsArray, ArrayNotEmpty, IsBoolean, IsEnum, IsInt, IsNumber, Min, Max, ValidateNested } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { DunningFinalAction, DunningStatus, DunningStepAction } from '../enums/codes.const';
+
+/**
+ * 催收步驟 DTO
+ */
+export class DunningStepDto {
+  @IsInt()
+  @Min(0)
+  day: number;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(DunningStepAction, { each: true })
+  actions: DunningStepAction[];
+}
+
+/**
+ * 催收最終處置 DTO
+ */
+export class DunningFinalStepDto {
+  @IsInt()
+  @Min(0)
+  day: number;
+
+  @IsEnum(DunningFinalAction)
+  action: DunningFinalAction;
+}
+
+/**
+ * 建立催收活動請求 DTO
+ */
+export class CreateDunningCampaignRequest {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isDefault?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  productIds?: string[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DunningStepDto)
+  steps: DunningStepDto[];
+
+  @ValidateNested()
+  @Type(() => DunningFinalStepDto)
+  finalStep: DunningFinalStepDto;
+}
+
+/**
+ * 更新催收活動請求 DTO
+ */
+export class UpdateDunningCampaignRequest {
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  isDefault?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  productIds?: string[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DunningStepDto)
+  @IsOptional()
+  steps?: DunningStepDto[];
+
+  @ValidateNested()
+  @Type(() => DunningFinalStepDto)
+  @IsOptional()
+  finalStep?: DunningFinalStepDto;
+}
+
+/**
+ * 催收流程查詢請求 DTO
+ */
+export class DunningProcessQueryRequest {
+  @IsEnum(DunningStatus)
+  @IsOptional()
+  status?: DunningStatus;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Transform(({ value }) => parseInt(value, 10))
+  stage?: number;
+
+  @IsString()
+  @IsOptional()
+  campaignId?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  page?: number = 1;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value, 10))
+  limit?: number = 20;
+}
+
+/**
+ * 催收階段統計查詢請求 DTO
+ */
+export class DunningSummaryQueryRequest {
+  @IsEnum(DunningStatus)
+  @IsOptional()
+  status?: DunningStatus;
+}
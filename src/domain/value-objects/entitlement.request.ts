@@ -0,0 +1,17 @@
+import { IsInt, IsNotEmpty, IsOptional, IsString, Min } from 'class-validator';
+
+export class CheckEntitlementRequest {
+  @IsString()
+  @IsNotEmpty()
+  customerId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  feature: string;
+
+  /** 本次欲使用的數量，預設 1 */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  quantity?: number;
+}
@@ -4,3 +4,4 @@ export * from './state-machine';
 export * from './payment-method';
 export * from './notification';
 export * from './retry-policy';
+export * from './discount-schedule';
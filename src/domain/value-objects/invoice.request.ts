@@ -0,0 +1,27 @@
+import { IsOptional, IsNumber, Min, Max, IsIn } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+/** 發票輸出格式 */
+export const INVOICE_FORMATS = ['json', 'html', 'pdf'] as const;
+export type InvoiceFormat = (typeof INVOICE_FORMATS)[number];
+
+export class InvoiceFormatQueryRequest {
+  @IsOptional()
+  @IsIn(INVOICE_FORMATS)
+  format?: InvoiceFormat = 'json';
+}
+
+export class InvoiceListQueryRequest {
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  page?: number = 1;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value, 10))
+  limit?: number = 20;
+}
@@ -18,6 +18,8 @@ export enum NotificationType {
   PAYMENT_METHOD_EXPIRING = 'PAYMENT_METHOD_EXPIRING',
   /** 支付方式失效 */
   PAYMENT_METHOD_INVALID = 'PAYMENT_METHOD_INVALID',
+  /** 付款需客戶驗證 */
+  PAYMENT_ACTION_REQUIRED = 'PAYMENT_ACTION_REQUIRED',
   /** 帳單產生 */
   INVOICE_GENERATED = 'INVOICE_GENERATED',
   /** 退款處理 */
@@ -1,4 +1,4 @@
-import { IsString, IsNumber, IsOptional, Min, IsEnum, IsDateString } from 'class-validator';
+import { IsString, IsNumber, IsOptional, Min, IsEnum, IsDateString, IsNotEmpty } from 'class-validator';
 import { Transform } from 'class-transformer';
 import { PaymentStatus } from '../entities';
 
@@ -90,3 +90,13 @@ export class RefundRequest {
   @IsString()
   refundReason?: string;
 }
+
+/**
+ * 確認付款驗證請求 DTO
+ */
+export class ConfirmPaymentActionRequest {
+  /** 驗證通知連結中的 token */
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
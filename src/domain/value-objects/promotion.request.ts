@@ -1,4 +1,6 @@
-import { IsString, IsNotEmpty, IsOptional } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsIn, IsNumber, IsInt, IsBoolean, IsArray, IsDateString, IsEnum, Min, Max, Matches, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { CouponCodeStatus, PromotionDuration } from '../enums/codes.const';
 
 export class ValidatePromotionRequest {
   @IsString()
@@ -17,3 +19,204 @@ export class ValidatePromotionRequest {
   @IsOptional()
   customerId?: string;
 }
+
+/**
+ * 優惠折扣階段 DTO
+ */
+export class PromotionDiscountStageDto {
+  @IsIn(['PERCENTAGE', 'FIXED_AMOUNT'])
+  type: 'PERCENTAGE' | 'FIXED_AMOUNT';
+
+  @IsNumber()
+  @Min(0)
+  value: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  cycles?: number;
+}
+
+/**
+ * 優惠折扣設定 DTO
+ */
+export class PromotionDiscountDto {
+  @IsIn(['PERCENTAGE', 'FIXED_AMOUNT'])
+  type: 'PERCENTAGE' | 'FIXED_AMOUNT';
+
+  @IsNumber()
+  @Min(0)
+  value: number;
+
+  @IsIn(['FIRST_BILLING', 'RECURRING', 'ONE_TIME'])
+  applicablePeriod: 'FIRST_BILLING' | 'RECURRING' | 'ONE_TIME';
+
+  @IsOptional()
+  @IsEnum(PromotionDuration)
+  duration?: PromotionDuration;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  durationInCycles?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PromotionDiscountStageDto)
+  stages?: PromotionDiscountStageDto[];
+}
+
+/**
+ * 優惠使用條件 DTO
+ */
+export class PromotionConditionsDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minimumAmount?: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  applicableProducts?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  customerSegments?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  firstTimeCustomersOnly?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxUsagePerCustomer?: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  eligibleTiers?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  stackable?: boolean;
+}
+
+/**
+ * 建立優惠請求 DTO
+ */
+export class CreatePromotionRequest {
+  @Matches(/^[A-Z0-9_-]{3,32}$/)
+  code: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ValidateNested()
+  @Type(() => PromotionDiscountDto)
+  discount: PromotionDiscountDto;
+
+  @IsDateString()
+  validFrom: string;
+
+  @IsDateString()
+  validUntil: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimit?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PromotionConditionsDto)
+  conditions?: PromotionConditionsDto;
+
+  @IsOptional()
+  metadata?: Record<string, any>;
+}
+
+/**
+ * 更新優惠請求 DTO（優惠碼不可變更）
+ */
+export class UpdatePromotionRequest {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PromotionDiscountDto)
+  discount?: PromotionDiscountDto;
+
+  @IsOptional()
+  @IsDateString()
+  validFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  validUntil?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimit?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PromotionConditionsDto)
+  conditions?: PromotionConditionsDto;
+
+  @IsOptional()
+  metadata?: Record<string, any>;
+}
+
+/**
+ * 產生一次性券碼請求 DTO
+ */
+export class GenerateCouponCodesRequest {
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  count: number;
+
+  @IsOptional()
+  @Matches(/^[A-Z0-9_-]{1,16}$/)
+  prefix?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(4)
+  @Max(20)
+  length?: number;
+
+  @IsOptional()
+  @Matches(/^[A-Z0-9]{2,}$/)
+  alphabet?: string;
+}
+
+/**
+ * 匯出券碼查詢請求 DTO
+ */
+export class ExportCouponCodesRequest {
+  @IsOptional()
+  @IsEnum(CouponCodeStatus)
+  status?: CouponCodeStatus;
+
+  @IsOptional()
+  @IsString()
+  batchId?: string;
+}
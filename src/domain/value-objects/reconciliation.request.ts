@@ -0,0 +1,55 @@
+import { IsString, IsNotEmpty, IsOptional, IsEnum, IsNumber, IsDateString, Min, Max } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ReconciliationDiscrepancyStatus, ReconciliationDiscrepancyType } from '../enums/codes.const';
+
+/**
+ * 對帳差異查詢請求 DTO
+ */
+export class ReconciliationDiscrepancyQueryRequest {
+  @IsEnum(ReconciliationDiscrepancyStatus)
+  @IsOptional()
+  status?: ReconciliationDiscrepancyStatus;
+
+  @IsEnum(ReconciliationDiscrepancyType)
+  @IsOptional()
+  type?: ReconciliationDiscrepancyType;
+
+  @IsString()
+  @IsOptional()
+  gateway?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  page?: number = 1;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value, 10))
+  limit?: number = 20;
+}
+
+/**
+ * 人工處理對帳差異請求 DTO
+ */
+export class ResolveReconciliationDiscrepancyRequest {
+  @IsString()
+  @IsNotEmpty()
+  resolvedBy: string;
+
+  @IsString()
+  @IsNotEmpty()
+  resolution: string;
+}
+
+/**
+ * 手動執行對帳請求 DTO
+ */
+export class RunReconciliationRequest {
+  @IsDateString()
+  @IsOptional()
+  asOf?: string;
+}
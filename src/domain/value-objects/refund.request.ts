@@ -0,0 +1,42 @@
+import { IsEnum, IsIn, IsInt, IsMongoId, IsNotEmpty, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+import { RefundMethod } from '../enums/codes.const';
+
+export class CreateRefundRequest {
+  @IsMongoId()
+  customerId: string;
+
+  /** 指定退款的付款，未提供時取訂閱最近一筆可退款的付款；兩者至少提供一個 */
+  @IsOptional()
+  @IsMongoId()
+  paymentId?: string;
+
+  @IsOptional()
+  @IsMongoId()
+  subscriptionId?: string;
+
+  /** 退款金額（以分為單位），未提供時退還剩餘可退金額 */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  amount?: number;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+
+  /** 退款方式，預設經原付款退回；STORE_CREDIT 轉為客戶抵用金 */
+  @IsOptional()
+  @IsEnum(RefundMethod)
+  refundMethod?: RefundMethod;
+}
+
+export class ReviewRefundRequest {
+  @IsIn(['APPROVE', 'REJECT'])
+  action: 'APPROVE' | 'REJECT';
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  adminNotes?: string;
+}
@@ -0,0 +1,68 @@
+import { IsString, IsNotEmpty, IsOptional, IsEnum, IsNumber, Matches, Min, Max } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { SettlementRecordStatus } from '../enums/codes.const';
+
+/** 撥款日期格式 */
+const SETTLEMENT_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 匯入撥款檔請求 DTO（multipart 表單欄位，檔案欄位為 file）
+ */
+export class ImportSettlementFileRequest {
+  @IsString()
+  @IsNotEmpty()
+  gateway: string;
+
+  @IsString()
+  @IsOptional()
+  importedBy?: string;
+}
+
+/**
+ * 撥款明細查詢請求 DTO
+ */
+export class SettlementRecordQueryRequest {
+  @IsString()
+  @IsOptional()
+  batchId?: string;
+
+  @IsEnum(SettlementRecordStatus)
+  @IsOptional()
+  status?: SettlementRecordStatus;
+
+  @IsString()
+  @IsOptional()
+  gateway?: string;
+
+  @Matches(SETTLEMENT_DATE_PATTERN)
+  @IsOptional()
+  settlementDate?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  page?: number = 1;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value, 10))
+  limit?: number = 20;
+}
+
+/**
+ * 撥款摘要查詢請求 DTO（撥款日區間，YYYY-MM-DD）
+ */
+export class SettlementPayoutQueryRequest {
+  @Matches(SETTLEMENT_DATE_PATTERN)
+  from: string;
+
+  @Matches(SETTLEMENT_DATE_PATTERN)
+  to: string;
+
+  @IsString()
+  @IsOptional()
+  gateway?: string;
+}
@@ -42,9 +42,13 @@ export class SubscriptionStateMachine {
     [SubscriptionStatus.TRIALING, [SubscriptionStatus.ACTIVE, SubscriptionStatus.EXPIRED, SubscriptionStatus.CANCELED]],
     [SubscriptionStatus.ACTIVE, [SubscriptionStatus.PAUSED, SubscriptionStatus.GRACE_PERIOD, SubscriptionStatus.RETRY, SubscriptionStatus.CANCELED, SubscriptionStatus.REFUNDED]],
     [SubscriptionStatus.PAUSED, [SubscriptionStatus.ACTIVE, SubscriptionStatus.CANCELED, SubscriptionStatus.EXPIRED]],
-    [SubscriptionStatus.GRACE_PERIOD, [SubscriptionStatus.ACTIVE, SubscriptionStatus.RETRY, SubscriptionStatus.PAST_DUE, SubscriptionStatus.EXPIRED, SubscriptionStatus.CANCELED]],
+    // 催收結束時可暫停逾期中的訂閱
+    [
+      SubscriptionStatus.GRACE_PERIOD,
+      [SubscriptionStatus.ACTIVE, SubscriptionStatus.RETRY, SubscriptionStatus.PAST_DUE, SubscriptionStatus.PAUSED, SubscriptionStatus.EXPIRED, SubscriptionStatus.CANCELED],
+    ],
     [SubscriptionStatus.RETRY, [SubscriptionStatus.ACTIVE, SubscriptionStatus.GRACE_PERIOD, SubscriptionStatus.PAST_DUE, SubscriptionStatus.EXPIRED, SubscriptionStatus.CANCELED]],
-    [SubscriptionStatus.PAST_DUE, [SubscriptionStatus.ACTIVE, SubscriptionStatus.RETRY, SubscriptionStatus.EXPIRED, SubscriptionStatus.CANCELED]],
+    [SubscriptionStatus.PAST_DUE, [SubscriptionStatus.ACTIVE, SubscriptionStatus.RETRY, SubscriptionStatus.PAUSED, SubscriptionStatus.EXPIRED, SubscriptionStatus.CANCELED]],
     [SubscriptionStatus.CANCELED, [SubscriptionStatus.REFUNDED]],
     // 終止狀態無法轉換
     [SubscriptionStatus.EXPIRED, []],
@@ -254,7 +258,9 @@ export class PaymentStateMachine {
    */
   private static readonly VALID_TRANSITIONS = new Map<PaymentStatus, PaymentStatus[]>([
     [PaymentStatus.PENDING, [PaymentStatus.PROCESSING, PaymentStatus.CANCELED]],
-    [PaymentStatus.PROCESSING, [PaymentStatus.SUCCEEDED, PaymentStatus.FAILED, PaymentStatus.CANCELED]],
+    [PaymentStatus.PROCESSING, [PaymentStatus.SUCCEEDED, PaymentStatus.FAILED, PaymentStatus.CANCELED, PaymentStatus.REQUIRES_ACTION]],
+    // 客戶完成驗證後成功，驗證失敗或逾時進入失敗與重試流程
+    [PaymentStatus.REQUIRES_ACTION, [PaymentStatus.SUCCEEDED, PaymentStatus.FAILED, PaymentStatus.CANCELED]],
     [PaymentStatus.FAILED, [PaymentStatus.RETRYING, PaymentStatus.CANCELED]],
     [PaymentStatus.RETRYING, [PaymentStatus.PROCESSING, PaymentStatus.CANCELED]],
     [PaymentStatus.SUCCEEDED, [PaymentStatus.REFUNDED, PaymentStatus.PARTIALLY_REFUNDED]],
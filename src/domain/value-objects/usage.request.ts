@@ -0,0 +1,30 @@
+import { IsDateString, IsNotEmpty, IsNumber, IsObject, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+
+export class CreateUsageRecordRequest {
+  @IsString()
+  @IsNotEmpty()
+  subscriptionId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  feature: string;
+
+  @IsNumber()
+  @Min(0)
+  quantity: number;
+
+  /** 用量發生時間，未提供時以收到時間為準 */
+  @IsOptional()
+  @IsDateString()
+  timestamp?: string;
+
+  /** 冪等鍵，亦可由 Idempotency-Key 標頭提供 */
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  idempotencyKey?: string;
+
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
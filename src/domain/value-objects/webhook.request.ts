@@ -0,0 +1,76 @@
+import { IsString, IsOptional, IsNumber, Min, Max, IsEnum, IsUrl, IsArray, ArrayNotEmpty, Matches, IsBoolean, MinLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { WebhookDeliveryStatus } from '../enums/codes.const';
+
+/** 可訂閱的事件：`*`、`payment.*` 或完整事件類型 */
+const WEBHOOK_EVENT_FILTER = /^(\*|(subscription|payment|refund)\.(\*|[a-z_]+(\.[a-z_]+)*))$/;
+
+/**
+ * 登記 Webhook 端點請求 DTO
+ */
+export class CreateWebhookEndpointRequest {
+  @IsString()
+  merchantId: string;
+
+  @IsUrl({ require_tld: false, protocols: ['http', 'https'] })
+  url: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @Matches(WEBHOOK_EVENT_FILTER, { each: true })
+  events: string[];
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  secret?: string;
+}
+
+/**
+ * 更新 Webhook 端點請求 DTO
+ */
+export class UpdateWebhookEndpointRequest {
+  @IsOptional()
+  @IsUrl({ require_tld: false, protocols: ['http', 'https'] })
+  url?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @Matches(WEBHOOK_EVENT_FILTER, { each: true })
+  events?: string[];
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+/**
+ * Webhook 投遞紀錄查詢請求 DTO
+ */
+export class WebhookDeliveryQueryRequest {
+  @IsOptional()
+  @IsEnum(WebhookDeliveryStatus)
+  status?: WebhookDeliveryStatus;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10))
+  page?: number = 1;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value, 10))
+  limit?: number = 20;
+}
@@ -9,6 +9,11 @@
 import 'reflect-metadata';
 import type { Product } from '../domain/services/product.service';
 import { PromotionService } from '../domain/services/promotion.service';
+import { PromotionEntity } from '../domain/entities/promotion.entity';
+import { PromotionRepository } from '../infra/repositories/promotion.repository';
+import { PromotionRedemptionRepository } from '../infra/repositories/promotion-redemption.repository';
+import { CouponCodeRepository } from '../infra/repositories/coupon-code.repository';
+import { SubscriptionRepository } from '../infra/repositories/subscription.repository';
 
 // 設定假資料
 interface NewUserProductResult {
@@ -37,11 +42,37 @@ function getErrorMessage(error: unknown): string {
   }
 }
 
+/**
+ * 範例用的優惠目錄（取代 MongoDB），僅提供查詢所需的方法
+ */
+function createExamplePromotionService(): PromotionService {
+  const welcome = new PromotionEntity(
+    'WELCOME100',
+    'New Customer Welcome',
+    { type: 'FIXED_AMOUNT', value: 100, applicablePeriod: 'FIRST_BILLING' },
+    new Date('2024-01-01T00:00:00Z'),
+    new Date(Date.now() + 10 * 24 * 60 * 60 * 1000),
+  );
+  welcome.description = '新客戶專享：立即折扣100元';
+  welcome.conditions = { firstTimeCustomersOnly: true, maxUsagePerCustomer: 1, stackable: true };
+
+  const promotions = { findAll: async () => [welcome], findByCode: async (code: string) => (code === welcome.code ? welcome : undefined) };
+  const redemptions = { countByCustomer: async () => 0 };
+  const couponCodes = { findByCode: async () => undefined };
+  const subscriptions = { findById: async () => undefined };
+  return new PromotionService(
+    promotions as unknown as PromotionRepository,
+    redemptions as unknown as PromotionRedemptionRepository,
+    couponCodes as unknown as CouponCodeRepository,
+    subscriptions as unknown as SubscriptionRepository,
+  );
+}
+
 class NewUserProductFinder {
   private promotionService: PromotionService;
 
   constructor() {
-    this.promotionService = new PromotionService();
+    this.promotionService = createExamplePromotionService();
   }
 
   /**
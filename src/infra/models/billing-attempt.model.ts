@@ -1,6 +1,6 @@
 import { ObjectId } from 'mongodb';
 import { IBaseModel } from './base-model.interface';
-import { BillingAttemptStatus, BillingAttemptType, RetryStrategy } from '../../domain/enums/codes.const';
+import { BillingAttemptStatus, BillingAttemptType, RetryStrategyType } from '../../domain/enums/codes.const';
 
 /**
  * 計費嘗試資料模型
@@ -9,9 +9,15 @@ export interface IBillingAttemptModel extends IBaseModel {
   /** 所屬訂閱 ID */
   subscriptionId: ObjectId;
 
+  /** 所屬客戶 ID */
+  customerId: ObjectId;
+
   /** 關聯的支付記錄 ID */
   paymentId: ObjectId | null;
 
+  /** 使用的支付方式 ID */
+  paymentMethodId: ObjectId;
+
   /** 嘗試狀態 */
   status: BillingAttemptStatus;
 
@@ -21,12 +27,24 @@ export interface IBillingAttemptModel extends IBaseModel {
   /** 嘗試次數 */
   attemptNumber: number;
 
+  /** 是否為重試嘗試 */
+  isRetry: boolean;
+
+  /** 原始嘗試 ID（如果是重試） */
+  originalAttemptId?: ObjectId;
+
   /** 計費金額 */
   amount: number;
 
   /** 貨幣代碼 */
   currency: string;
 
+  /** 計費期間開始日期 */
+  billingPeriodStart: Date;
+
+  /** 計費期間結束日期 */
+  billingPeriodEnd: Date;
+
   /** 預定執行時間 */
   scheduledAt: Date;
 
@@ -39,17 +57,42 @@ export interface IBillingAttemptModel extends IBaseModel {
   /** 下次重試時間 */
   nextRetryAt?: Date;
 
+  /** 嘗試結果 */
+  result?: {
+    success: boolean;
+    message?: string;
+    errorCode?: string;
+    externalTransactionId?: string;
+    gatewayResponse?: Record<string, any>;
+    processingTimeMs?: number;
+  };
+
   /** 失敗原因 */
   failureReason?: string;
 
   /** 錯誤碼 */
   errorCode?: string;
 
-  /** 錯誤詳情 */
-  errorDetails?: string;
+  /** 失敗原因分類 */
+  failureCategory?: 'PAYMENT_METHOD' | 'INSUFFICIENT_FUNDS' | 'NETWORK' | 'SYSTEM' | 'VALIDATION';
+
+  /** 是否可重試 */
+  isRetriable: boolean;
+
+  /** 重試配置 */
+  retryConfig: {
+    strategy: RetryStrategyType;
+    maxRetries: number;
+    retryIntervalMinutes: number;
+    backoffMultiplier?: number;
+    maxRetryIntervalHours?: number;
+  };
+
+  /** 相關手續費（與計費金額同幣別） */
+  fees?: number;
 
-  /** 重試策略 */
-  retryStrategy?: RetryStrategy;
+  /** 稅額（與計費金額同幣別） */
+  taxAmount?: number;
 
   /** 處理持續時間（毫秒） */
   processingDuration?: number;
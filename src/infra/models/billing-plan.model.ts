@@ -1,5 +1,5 @@
 import { Schema, model, Document } from 'mongoose';
-import { PlanStatus, PlanType, BillingCycle } from '../../domain/enums/codes.const';
+import { PlanStatus, PlanType, BillingCycle, UsageAggregationType } from '../../domain/enums/codes.const';
 
 /**
  * 計費規則
@@ -16,6 +16,7 @@ interface IBillingRule {
   minimumUnits?: number;
   includedUnits?: number;
   tiers?: IPricingTier[];
+  aggregation?: UsageAggregationType;
 }
 
 /**
@@ -85,6 +86,7 @@ interface IPlanMetadata {
   supportedRegions: string[];
   minimumCommitmentMonths?: number;
   cancellationPolicy: 'IMMEDIATE' | 'END_OF_PERIOD' | 'WITH_PENALTY';
+  periodBillingGateway?: string;
 }
 
 /**
@@ -151,6 +153,7 @@ const BillingRuleSchema = new Schema({
   minimumUnits: { type: Number },
   includedUnits: { type: Number },
   tiers: [PricingTierSchema],
+  aggregation: { type: String, enum: Object.values(UsageAggregationType) },
 });
 
 /**
@@ -220,6 +223,7 @@ const PlanMetadataSchema = new Schema({
     enum: ['IMMEDIATE', 'END_OF_PERIOD', 'WITH_PENALTY'],
     default: 'END_OF_PERIOD',
   },
+  periodBillingGateway: { type: String },
 });
 
 /**
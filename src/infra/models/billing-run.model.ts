@@ -0,0 +1,54 @@
+import { IBaseModel } from './base-model.interface';
+import { BillingRunStatus, BillingRunTrigger } from '../../domain/enums/codes.const';
+
+/**
+ * 計費批次作業資料模型
+ */
+export interface IBillingRunModel extends IBaseModel {
+  /** 計費基準時間 */
+  asOf: Date;
+
+  /** 觸發來源 */
+  trigger: BillingRunTrigger;
+
+  /** 執行狀態 */
+  status: BillingRunStatus;
+
+  /** 執行實例識別 */
+  owner: string;
+
+  /** 開始時間 */
+  startedAt: Date;
+
+  /** 完成時間 */
+  completedAt?: Date;
+
+  /** 執行時長（毫秒） */
+  durationMs?: number;
+
+  /** 已處理批次數 */
+  batches: number;
+
+  /** 最後處理的訂閱 ID（游標） */
+  lastCursor?: string;
+
+  /** 到期計費統計 */
+  billing: {
+    processed: number;
+    succeeded: number;
+    failed: number;
+  };
+
+  /** 失敗重試統計 */
+  retries: {
+    processed: number;
+    succeeded: number;
+    failed: number;
+  };
+
+  /** 個別訂閱錯誤 */
+  errors: Array<{ subscriptionId: string; error: string }>;
+
+  /** 作業失敗原因 */
+  failureReason?: string;
+}
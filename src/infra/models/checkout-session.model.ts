@@ -0,0 +1,66 @@
+import { ObjectId } from 'mongodb';
+import { IBaseModel } from './base-model.interface';
+import { CheckoutSessionMode, CheckoutSessionStatus } from '../../domain/enums/codes.const';
+
+/**
+ * 結帳工作階段資料模型
+ * 只保存 token 的雜湊，以 tokenHash 查詢
+ */
+export interface ICheckoutSessionModel extends IBaseModel {
+  /** 用途 */
+  mode: CheckoutSessionMode;
+
+  /** 客戶 ID */
+  customerId: ObjectId;
+
+  /** 訂閱 ID（新訂閱為空） */
+  subscriptionId?: ObjectId;
+
+  /** 待重新扣款的付款 ID */
+  paymentId?: ObjectId;
+
+  /** 綁定支付方式的閘道 */
+  gateway: string;
+
+  /** 閘道付款頁需收取的金額 */
+  amount?: number;
+
+  /** 幣別 */
+  currency: string;
+
+  /** 狀態 */
+  status: CheckoutSessionStatus;
+
+  /** 一次性 token 的 SHA-256 雜湊 */
+  tokenHash: string;
+
+  /** 到期時間 */
+  expiresAt: Date;
+
+  /** 完成後導回的網址 */
+  successUrl?: string;
+
+  /** 取消時導回的網址 */
+  cancelUrl?: string;
+
+  /** 閘道端建立過的交易編號 */
+  gatewayTradeNos: string[];
+
+  /** 完成時綁定的支付方式 ID */
+  paymentMethodId?: ObjectId;
+
+  /** 完成時重新扣款的結果 */
+  paymentStatus?: string;
+
+  /** 完成時間 */
+  completedAt?: Date;
+
+  /** 最近一次完成失敗的原因 */
+  lastError?: string;
+
+  /** 完成處理的租約到期時間 */
+  lockedUntil?: Date;
+
+  /** 元資料 */
+  metadata: Record<string, any>;
+}
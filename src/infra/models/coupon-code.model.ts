@@ -0,0 +1,32 @@
+import { ObjectId } from 'mongodb';
+import { IBaseModel } from './base-model.interface';
+import { CouponCodeStatus } from '../../domain/enums/codes.const';
+
+/**
+ * 優惠券碼資料模型（隸屬於某個優惠的一次性代碼）
+ */
+export interface ICouponCodeModel extends IBaseModel {
+  /** 所屬優惠 ID */
+  promotionId: ObjectId;
+
+  /** 所屬優惠碼 */
+  promotionCode: string;
+
+  /** 券碼（全域唯一） */
+  code: string;
+
+  /** 產生批次 */
+  batchId: string;
+
+  /** 狀態 */
+  status: CouponCodeStatus;
+
+  /** 兌換時間 */
+  redeemedAt?: Date;
+
+  /** 兌換客戶 ID */
+  customerId?: string;
+
+  /** 兌換訂閱 ID */
+  subscriptionId?: string;
+}
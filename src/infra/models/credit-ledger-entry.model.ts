@@ -0,0 +1,48 @@
+import { ObjectId } from 'mongodb';
+import { IBaseModel } from './base-model.interface';
+import { CreditEntryType, CreditSourceType } from '../../domain/enums/codes.const';
+
+/**
+ * 抵用金分錄資料模型
+ * 分錄寫入後僅 remainingAmount（入帳額度的未使用金額）會被扣抵或失效原子更新
+ */
+export interface ICreditLedgerEntryModel extends IBaseModel {
+  /** 客戶 ID */
+  customerId: ObjectId;
+
+  /** 分錄類型 */
+  type: CreditEntryType;
+
+  /** 金額（以分為單位） */
+  amount: number;
+
+  /** 貨幣代碼 */
+  currency: string;
+
+  /** 借貸明細 */
+  lines: Array<{ account: string; debit: number; credit: number }>;
+
+  /** 舊版分錄的借方科目（改記借貸明細前寫入） */
+  debitAccount?: string;
+
+  /** 舊版分錄的貸方科目（改記借貸明細前寫入） */
+  creditAccount?: string;
+
+  /** 來源 */
+  source: { type: CreditSourceType; id?: string };
+
+  /** 原因 */
+  reason: string;
+
+  /** 操作者 */
+  actor?: string;
+
+  /** 入帳額度的到期時間 */
+  expiresAt?: Date;
+
+  /** 入帳額度尚未使用的金額 */
+  remainingAmount: number;
+
+  /** 沖銷的入帳分錄 */
+  allocations: Array<{ entryId: ObjectId; amount: number }>;
+}
@@ -1,6 +1,6 @@
 import { ObjectId } from 'mongodb';
 import { IBaseModel } from './base-model.interface';
-import { CustomerStatus } from '../../domain/enums/codes.const';
+import { CustomerStatus, EInvoiceRecipientType } from '../../domain/enums/codes.const';
 
 /**
  * 客戶資料模型
@@ -32,4 +32,14 @@ export interface ICustomerModel extends IBaseModel {
 
   /** 時區 */
   timezone: string;
+
+  /** 電子發票收受設定 */
+  eInvoicePreference?: {
+    type: EInvoiceRecipientType;
+    carrierNumber?: string;
+    taxId?: string;
+    companyName?: string;
+    address?: string;
+    loveCode?: string;
+  };
 }
@@ -0,0 +1,85 @@
+import { ObjectId } from 'mongodb';
+import { IBaseModel } from './base-model.interface';
+import { DisputeStatus } from '../../domain/enums/codes.const';
+
+/**
+ * 爭議證據附件
+ */
+export interface IDisputeEvidenceModel {
+  evidenceId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  storagePath: string;
+  description?: string;
+  uploadedBy?: string;
+  uploadedAt: Date;
+}
+
+/**
+ * 爭議狀態變更紀錄
+ */
+export interface IDisputeStatusChangeModel {
+  status: DisputeStatus;
+  changedAt: Date;
+  note?: string;
+}
+
+/**
+ * 付款爭議資料模型
+ */
+export interface IDisputeModel extends IBaseModel {
+  /** 被爭議的付款 ID */
+  paymentId: ObjectId;
+
+  /** 訂閱 ID */
+  subscriptionId: ObjectId;
+
+  /** 客戶 ID */
+  customerId: ObjectId;
+
+  /** 閘道名稱 */
+  gateway: string;
+
+  /** 閘道的爭議編號 */
+  gatewayDisputeId?: string;
+
+  /** 爭議金額（以分為單位） */
+  amount: number;
+
+  /** 貨幣代碼 */
+  currency: string;
+
+  /** 爭議原因 */
+  reason: string;
+
+  /** 爭議狀態 */
+  status: DisputeStatus;
+
+  /** 回覆期限 */
+  responseDueBy?: Date;
+
+  /** 爭議成立時間 */
+  openedAt: Date;
+
+  /** 提交回覆時間 */
+  respondedAt?: Date;
+
+  /** 回覆說明 */
+  responseNote?: string;
+
+  /** 結案時間 */
+  closedAt?: Date;
+
+  /** 證據附件 */
+  evidence: IDisputeEvidenceModel[];
+
+  /** 敗訴扣回時建立的退款 ID */
+  reversalRefundId?: ObjectId;
+
+  /** 狀態變更紀錄 */
+  statusHistory: IDisputeStatusChangeModel[];
+
+  /** 額外資訊 */
+  metadata?: Record<string, any>;
+}
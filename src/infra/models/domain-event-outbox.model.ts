@@ -0,0 +1,65 @@
+import { ObjectId } from 'mongodb';
+import { IBaseModel } from './base-model.interface';
+import { OutboxEventStatus } from '../../domain/enums/codes.const';
+
+/**
+ * 聚合內暫存的待外送事件
+ * 與聚合本身在同一次寫入中落地，再搬移至外送集合
+ */
+export interface IPendingDomainEventModel {
+  /** 事件 ID（同時作為外送集合的 _id） */
+  eventId: ObjectId;
+
+  /** 事件類型 */
+  type: string;
+
+  /** 事件發生時間 */
+  occurredAt: Date;
+
+  /** 事件內容 */
+  payload: Record<string, any>;
+}
+
+/**
+ * 領域事件外送資料模型
+ */
+export interface IDomainEventOutboxModel extends IBaseModel {
+  /** 聚合類型 */
+  aggregateType: string;
+
+  /** 聚合 ID */
+  aggregateId: string;
+
+  /** 事件類型 */
+  type: string;
+
+  /** 事件發生時間 */
+  occurredAt: Date;
+
+  /** 事件內容 */
+  payload: Record<string, any>;
+
+  /** 外送狀態 */
+  status: OutboxEventStatus;
+
+  /** 已派送次數 */
+  attempts: number;
+
+  /** 下次可派送時間 */
+  nextAttemptAt: Date;
+
+  /** 派送租約到期時間 */
+  lockedUntil?: Date;
+
+  /** 已成功處理的訂閱者 */
+  deliveredHandlers: string[];
+
+  /** 最後一次錯誤 */
+  lastError?: string;
+
+  /** 送達時間 */
+  deliveredAt?: Date;
+
+  /** 進入死信時間 */
+  deadLetteredAt?: Date;
+}
@@ -0,0 +1,44 @@
+import { IBaseModel } from './base-model.interface';
+import { DunningFinalAction, DunningStepAction } from '../../domain/enums/codes.const';
+
+/**
+ * 催收步驟
+ */
+export interface IDunningStepModel {
+  day: number;
+  actions: DunningStepAction[];
+}
+
+/**
+ * 催收最終處置
+ */
+export interface IDunningFinalStepModel {
+  day: number;
+  action: DunningFinalAction;
+}
+
+/**
+ * 催收活動資料模型
+ */
+export interface IDunningCampaignModel extends IBaseModel {
+  /** 名稱 */
+  name: string;
+
+  /** 描述 */
+  description?: string;
+
+  /** 是否為預設活動 */
+  isDefault: boolean;
+
+  /** 是否啟用 */
+  enabled: boolean;
+
+  /** 適用產品，空陣列表示全部 */
+  productIds: string[];
+
+  /** 催收步驟 */
+  steps: IDunningStepModel[];
+
+  /** 最終處置 */
+  finalStep: IDunningFinalStepModel;
+}
@@ -0,0 +1,68 @@
+import { ObjectId } from 'mongodb';
+import { IBaseModel } from './base-model.interface';
+import { IDunningFinalStepModel, IDunningStepModel } from './dunning-campaign.model';
+import { DunningFinalAction, DunningStatus, DunningStepAction } from '../../domain/enums/codes.const';
+
+/**
+ * 催收階段執行紀錄
+ */
+export interface IDunningStageRecordModel {
+  stage: number;
+  day: number;
+  executedAt: Date;
+  results: Array<{ action: DunningStepAction | DunningFinalAction; success: boolean; error?: string }>;
+}
+
+/**
+ * 訂閱催收流程資料模型
+ * 同一訂閱同時只會有一筆 ACTIVE 的流程
+ */
+export interface IDunningProcessModel extends IBaseModel {
+  /** 訂閱 ID */
+  subscriptionId: ObjectId;
+
+  /** 客戶 ID */
+  customerId: ObjectId;
+
+  /** 觸發催收的付款 ID */
+  paymentId: ObjectId;
+
+  /** 催收活動 ID（內建預設活動為空） */
+  campaignId?: ObjectId;
+
+  /** 催收活動名稱 */
+  campaignName: string;
+
+  /** 建立時複製的催收步驟 */
+  steps: IDunningStepModel[];
+
+  /** 建立時複製的最終處置 */
+  finalStep: IDunningFinalStepModel;
+
+  /** 狀態 */
+  status: DunningStatus;
+
+  /** 已執行的階段數 */
+  stage: number;
+
+  /** 最近執行階段的天數 */
+  stageDay?: number;
+
+  /** 流程中再次失敗的扣款次數 */
+  failedAttempts: number;
+
+  /** 開始時間 */
+  startedAt: Date;
+
+  /** 下一階段的執行時間 */
+  nextActionAt?: Date;
+
+  /** 結束時間 */
+  endedAt?: Date;
+
+  /** 結束原因 */
+  exitReason?: string;
+
+  /** 階段執行紀錄 */
+  history: IDunningStageRecordModel[];
+}
@@ -0,0 +1,41 @@
+import { IBaseModel } from './base-model.interface';
+import { IdempotencyKeyStatus } from '../../domain/enums/codes.const';
+
+/**
+ * 冪等鍵資料模型
+ * 以 Idempotency-Key 標頭值作為 _id，保存第一次請求的指紋與回應，expiresAt 到期由 TTL 索引刪除
+ */
+export interface IIdempotencyKeyModel extends IBaseModel {
+  /** 冪等鍵 */
+  _id: string;
+
+  /** 狀態 */
+  status: IdempotencyKeyStatus;
+
+  /** 請求指紋（方法、路徑與內容的 SHA-256） */
+  fingerprint: string;
+
+  /** 請求方法 */
+  method: string;
+
+  /** 請求路徑 */
+  path: string;
+
+  /** 第一次請求的追蹤 ID */
+  traceId?: string;
+
+  /** 處理中請求的佔用期限 */
+  lockedUntil?: Date;
+
+  /** 回應狀態碼 */
+  responseStatus?: number;
+
+  /** 回應內容 */
+  responseBody?: Record<string, any>;
+
+  /** 完成時間 */
+  completedAt?: Date;
+
+  /** 到期時間 */
+  expiresAt: Date;
+}
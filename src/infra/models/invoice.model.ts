@@ -0,0 +1,103 @@
+import { ObjectId } from 'mongodb';
+import { IBaseModel } from './base-model.interface';
+import { EInvoiceRecipientType, EInvoiceStatus, InvoiceLineItemType, InvoiceStatus } from '../../domain/enums/codes.const';
+
+/**
+ * 發票資料模型
+ * (merchantId, year, sequence) 為唯一索引，確保號碼不重複且不跳號
+ */
+export interface IInvoiceModel extends IBaseModel {
+  /** 商家 ID */
+  merchantId: string;
+
+  /** 客戶 ID */
+  customerId: ObjectId;
+
+  /** 訂閱 ID */
+  subscriptionId: ObjectId;
+
+  /** 付款 ID（每筆付款僅開立一張） */
+  paymentId: ObjectId;
+
+  /** 發票號碼 */
+  invoiceNumber: string;
+
+  /** 編號年度 */
+  year: number;
+
+  /** 年度內序號 */
+  sequence: number;
+
+  /** 狀態 */
+  status: InvoiceStatus;
+
+  /** 幣別 */
+  currency: string;
+
+  /** 明細 */
+  lineItems: Array<{
+    type: InvoiceLineItemType;
+    description: string;
+    quantity: number;
+    unitAmount: number;
+    amount: number;
+    referenceId?: string;
+  }>;
+
+  /** 未稅小計 */
+  subtotal: number;
+
+  /** 稅率（百分比） */
+  taxRate: number;
+
+  /** 稅額 */
+  taxAmount: number;
+
+  /** 總額 */
+  total: number;
+
+  /** 抬頭 */
+  billTo: {
+    name?: string;
+    email?: string;
+  };
+
+  /** 計費期間 */
+  periodStart?: Date;
+  periodEnd?: Date;
+
+  /** 開立時間 */
+  issuedAt: Date;
+
+  /** 作廢時間 */
+  voidedAt?: Date;
+
+  /** 作廢原因 */
+  voidReason?: string;
+
+  /** 電子發票 */
+  eInvoice?: {
+    provider: string;
+    status: EInvoiceStatus;
+    invoiceNumber: string;
+    invoiceDate: Date;
+    randomNumber?: string;
+    recipient: {
+      type: EInvoiceRecipientType;
+      carrierNumber?: string;
+      taxId?: string;
+      companyName?: string;
+      address?: string;
+      loveCode?: string;
+    };
+    salesAmount: number;
+    allowances: Array<{
+      allowanceNumber: string;
+      amount: number;
+      refundId: string;
+      issuedAt: Date;
+    }>;
+    voidedAt?: Date;
+    voidReason?: string;
+  };
+}
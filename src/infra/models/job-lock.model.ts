@@ -0,0 +1,17 @@
+/**
+ * 分散式作業鎖資料模型
+ * 以鎖名稱作為 _id，確保同一時間只有一個實例持有
+ */
+export interface IJobLockModel {
+  /** 鎖名稱 */
+  _id: string;
+
+  /** 持有者（執行實例識別） */
+  owner: string;
+
+  /** 取得時間 */
+  lockedAt: Date;
+
+  /** 逾期時間（持有者異常中止時可被其他實例接手） */
+  expiresAt: Date;
+}
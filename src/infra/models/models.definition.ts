@@ -5,6 +5,28 @@ import { IPaymentMethodModel } from './payment-method.model';
 import { ISubscriptionModel } from './subscription.model';
 import { IPaymentModel } from './payment.model';
 import { IBillingAttemptModel } from './billing-attempt.model';
+import { IBillingRunModel } from './billing-run.model';
+import { IJobLockModel } from './job-lock.model';
+import { IDomainEventOutboxModel } from './domain-event-outbox.model';
+import { IWebhookEndpointModel } from './webhook-endpoint.model';
+import { IWebhookDeliveryModel } from './webhook-delivery.model';
+import { INotificationModel } from './notification.model';
+import { IInvoiceModel } from './invoice.model';
+import { IUsageRecordModel } from './usage-record.model';
+import { IRefundModel } from './refund.model';
+import { IPromotionModel } from './promotion.model';
+import { IPromotionRedemptionModel } from './promotion-redemption.model';
+import { ICouponCodeModel } from './coupon-code.model';
+import { ICreditLedgerEntryModel } from './credit-ledger-entry.model';
+import { IDunningCampaignModel } from './dunning-campaign.model';
+import { IDunningProcessModel } from './dunning-process.model';
+import { ICheckoutSessionModel } from './checkout-session.model';
+import { IIdempotencyKeyModel } from './idempotency-key.model';
+import { IReconciliationRunModel } from './reconciliation-run.model';
+import { IReconciliationDiscrepancyModel } from './reconciliation-discrepancy.model';
+import { ISettlementBatchModel } from './settlement-batch.model';
+import { ISettlementRecordModel } from './settlement-record.model';
+import { IDisputeModel } from './dispute.model';
 
 export enum modelNames {
   // 核心領域集合
@@ -14,6 +36,58 @@ export enum modelNames {
   PAYMENTS = 'Payments',
   BILLING_ATTEMPTS = 'BillingAttempts',
 
+  // 排程作業集合
+  BILLING_RUNS = 'BillingRuns',
+  JOB_LOCKS = 'JobLocks',
+
+  // 領域事件集合
+  DOMAIN_EVENT_OUTBOX = 'DomainEventOutbox',
+
+  // 商家 Webhook 集合
+  WEBHOOK_ENDPOINTS = 'WebhookEndpoints',
+  WEBHOOK_DELIVERIES = 'WebhookDeliveries',
+
+  // 通知集合
+  NOTIFICATIONS = 'Notifications',
+
+  // 發票集合
+  INVOICES = 'Invoices',
+
+  // 用量計量集合
+  USAGE_RECORDS = 'UsageRecords',
+
+  // 退款集合
+  REFUNDS = 'Refunds',
+
+  // 優惠集合
+  PROMOTIONS = 'Promotions',
+  PROMOTION_REDEMPTIONS = 'PromotionRedemptions',
+  COUPON_CODES = 'CouponCodes',
+
+  // 抵用金集合
+  CREDIT_LEDGER_ENTRIES = 'CreditLedgerEntries',
+
+  // 催收集合
+  DUNNING_CAMPAIGNS = 'DunningCampaigns',
+  DUNNING_PROCESSES = 'DunningProcesses',
+
+  // 結帳工作階段集合
+  CHECKOUT_SESSIONS = 'CheckoutSessions',
+
+  // 冪等鍵集合
+  IDEMPOTENCY_KEYS = 'IdempotencyKeys',
+
+  // 對帳集合
+  RECONCILIATION_RUNS = 'ReconciliationRuns',
+  RECONCILIATION_DISCREPANCIES = 'ReconciliationDiscrepancies',
+
+  // 撥款集合
+  SETTLEMENT_BATCHES = 'SettlementBatches',
+  SETTLEMENT_RECORDS = 'SettlementRecords',
+
+  // 付款爭議集合
+  DISPUTES = 'Disputes',
+
   // 範例集合 (後續版本將移除)
   EXAMPLE = 'Examples',
 }
@@ -25,5 +99,57 @@ export type ISubscriptionDocument = WithId<ISubscriptionModel>;
 export type IPaymentDocument = WithId<IPaymentModel>;
 export type IBillingAttemptDocument = WithId<IBillingAttemptModel>;
 
+// 排程作業文檔型別
+export type IBillingRunDocument = WithId<IBillingRunModel>;
+export type IJobLockDocument = IJobLockModel;
+
+// 領域事件文檔型別
+export type IDomainEventOutboxDocument = WithId<IDomainEventOutboxModel>;
+
+// 商家 Webhook 文檔型別
+export type IWebhookEndpointDocument = WithId<IWebhookEndpointModel>;
+export type IWebhookDeliveryDocument = WithId<IWebhookDeliveryModel>;
+
+// 通知文檔型別
+export type INotificationDocument = INotificationModel;
+
+// 發票文檔型別
+export type IInvoiceDocument = WithId<IInvoiceModel>;
+
+// 用量計量文檔型別
+export type IUsageRecordDocument = WithId<IUsageRecordModel>;
+
+// 退款文檔型別
+export type IRefundDocument = WithId<IRefundModel>;
+
+// 優惠文檔型別
+export type IPromotionDocument = WithId<IPromotionModel>;
+export type IPromotionRedemptionDocument = WithId<IPromotionRedemptionModel>;
+export type ICouponCodeDocument = WithId<ICouponCodeModel>;
+
+// 抵用金文檔型別
+export type ICreditLedgerEntryDocument = WithId<ICreditLedgerEntryModel>;
+
+// 催收文檔型別
+export type IDunningCampaignDocument = WithId<IDunningCampaignModel>;
+export type IDunningProcessDocument = WithId<IDunningProcessModel>;
+
+// 結帳工作階段文檔型別
+export type ICheckoutSessionDocument = WithId<ICheckoutSessionModel>;
+
+// 冪等鍵文檔型別
+export type IIdempotencyKeyDocument = IIdempotencyKeyModel;
+
+// 對帳文檔型別
+export type IReconciliationRunDocument = WithId<IReconciliationRunModel>;
+export type IReconciliationDiscrepancyDocument = WithId<IReconciliationDiscrepancyModel>;
+
+// 撥款文檔型別
+export type ISettlementBatchDocument = WithId<ISettlementBatchModel>;
+export type ISettlementRecordDocument = WithId<ISettlementRecordModel>;
+
+// 付款爭議文檔型別
+export type IDisputeDocument = WithId<IDisputeModel>;
+
 // 範例文檔型別 (後續版本將移除)
 export type IExampleDocument = WithId<IExampleModel>;
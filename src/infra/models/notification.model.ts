@@ -0,0 +1,73 @@
+import { IBaseModel } from './base-model.interface';
+import {
+  NotificationChannel,
+  NotificationContent,
+  NotificationDeliveryOptions,
+  NotificationDeliveryResult,
+  NotificationPriority,
+  NotificationRecipient,
+  NotificationStatus,
+  NotificationTemplateVariables,
+  NotificationType,
+} from '../../domain/value-objects/notification';
+
+/**
+ * 通知資料模型
+ * 以通知 ID 作為 _id，事件觸發的通知使用可重現的 ID 以避免重複發送
+ */
+export interface INotificationModel extends IBaseModel {
+  /** 通知 ID */
+  _id: string;
+
+  /** 通知類型 */
+  type: NotificationType;
+
+  /** 優先級 */
+  priority: NotificationPriority;
+
+  /** 收件人 */
+  recipient: NotificationRecipient;
+
+  /** 通知內容（已套用模板） */
+  content: NotificationContent;
+
+  /** 發送管道 */
+  channels: NotificationChannel[];
+
+  /** 模板 ID */
+  templateId?: string;
+
+  /** 模板變數 */
+  templateVariables: NotificationTemplateVariables;
+
+  /** 發送選項 */
+  deliveryOptions: NotificationDeliveryOptions;
+
+  /** 元數據 */
+  metadata: Record<string, any>;
+
+  /** 狀態 */
+  status: NotificationStatus;
+
+  /** 發送結果 */
+  deliveryResults: NotificationDeliveryResult[];
+
+  /** 重試次數 */
+  retryCount: number;
+
+  /** 最後嘗試時間 */
+  lastAttemptAt?: Date;
+
+  /** 送達時間 */
+  deliveredAt?: Date;
+
+  /** 讀取時間 */
+  readAt?: Date;
+
+  /** 狀態變更紀錄 */
+  statusHistory: Array<{
+    status: NotificationStatus;
+    changedAt: Date;
+    reason?: string;
+  }>;
+}
@@ -1,6 +1,7 @@
 import { ObjectId } from 'mongodb';
 import { IBaseModel } from './base-model.interface';
-import { PaymentStatus, PaymentFailureCategory } from '../../domain/enums/codes.const';
+import { PaymentStatus, PaymentFailureCategory, RefundStatus } from '../../domain/enums/codes.const';
+import { IPendingDomainEventModel } from './domain-event-outbox.model';
 
 /**
  * 支付記錄資料模型
@@ -63,6 +64,41 @@ export interface IPaymentModel extends IBaseModel {
   /** 退款原因 */
   refundReason?: string;
 
+  /** 退款明細（金額以分為單位） */
+  refunds?: Array<{
+    refundId: string;
+    amount: number;
+    currency: string;
+    refundedAt: Date;
+    reason: string;
+    status: RefundStatus;
+    providerRefundId?: string;
+    metadata?: Record<string, any>;
+  }>;
+
+  /** 撥款明細 */
+  settlement?: {
+    settlementRecordId: ObjectId;
+    settlementBatchId: ObjectId;
+    settlementDate: string;
+    grossAmount: number;
+    feeAmount: number;
+    netAmount: number;
+    currency: string;
+    settledAt: Date;
+  };
+
+  /** 等待客戶完成的驗證（如 3-D Secure） */
+  customerAction?: {
+    gateway: string;
+    transactionId: string;
+    type: string;
+    redirectUrl?: string;
+    requestedAt: Date;
+    expiresAt: Date;
+    completedAt?: Date;
+  };
+
   /** 發票號碼 */
   invoiceNumber?: string;
 
@@ -97,4 +133,7 @@ export interface IPaymentModel extends IBaseModel {
     failureCategory?: PaymentFailureCategory; // 原註解: number
     retryStrategy: string;
   };
+
+  /** 尚未搬移至外送集合的領域事件 */
+  pendingEvents?: IPendingDomainEventModel[];
 }
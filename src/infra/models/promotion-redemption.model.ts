@@ -0,0 +1,37 @@
+import { ObjectId } from 'mongodb';
+import { IBaseModel } from './base-model.interface';
+
+/**
+ * 優惠兌換紀錄資料模型
+ */
+export interface IPromotionRedemptionModel extends IBaseModel {
+  /** 優惠 ID */
+  promotionId: ObjectId;
+
+  /** 優惠碼 */
+  promotionCode: string;
+
+  /** 使用的一次性券碼 */
+  couponCode?: string;
+
+  /** 客戶 ID */
+  customerId: string;
+
+  /** 訂閱 ID */
+  subscriptionId: string;
+
+  /** 折扣金額 */
+  amount: number;
+
+  /** 貨幣代碼 */
+  currency: string;
+
+  /** 套用的計費週期 */
+  cycleNumber: number;
+
+  /** 客戶在此優惠的使用序號，搭配唯一索引限制每位客戶的使用次數 */
+  usageSlot?: number;
+
+  /** 兌換時間 */
+  redeemedAt: Date;
+}
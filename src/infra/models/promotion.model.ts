@@ -0,0 +1,80 @@
+import { IBaseModel } from './base-model.interface';
+import { PromotionDuration, PromotionStatus } from '../../domain/enums/codes.const';
+
+/**
+ * 優惠折扣階段
+ */
+export interface IPromotionDiscountStageModel {
+  type: 'PERCENTAGE' | 'FIXED_AMOUNT';
+  value: number;
+  cycles?: number;
+}
+
+/**
+ * 優惠折扣設定
+ */
+export interface IPromotionDiscountModel {
+  type: 'PERCENTAGE' | 'FIXED_AMOUNT';
+  value: number;
+  applicablePeriod: 'FIRST_BILLING' | 'RECURRING' | 'ONE_TIME';
+  duration?: PromotionDuration;
+  durationInCycles?: number;
+  stages?: IPromotionDiscountStageModel[];
+}
+
+/**
+ * 優惠使用條件
+ */
+export interface IPromotionConditionsModel {
+  minimumAmount?: number;
+  applicableProducts?: string[];
+  customerSegments?: string[];
+  firstTimeCustomersOnly?: boolean;
+  maxUsagePerCustomer?: number;
+  eligibleTiers?: string[];
+  stackable?: boolean;
+}
+
+/**
+ * 優惠資料模型
+ */
+export interface IPromotionModel extends IBaseModel {
+  /** 優惠碼（唯一） */
+  code: string;
+
+  /** 名稱 */
+  name: string;
+
+  /** 描述 */
+  description: string;
+
+  /** 優惠類型 */
+  type: 'PERCENTAGE' | 'FIXED_AMOUNT' | 'FREE_TRIAL';
+
+  /** 折扣設定 */
+  discount: IPromotionDiscountModel;
+
+  /** 狀態 */
+  status: PromotionStatus;
+
+  /** 生效時間 */
+  validFrom: Date;
+
+  /** 失效時間 */
+  validUntil: Date;
+
+  /** 總使用上限（未設定表示不限） */
+  usageLimit?: number;
+
+  /** 已使用次數，僅透過原子更新異動 */
+  currentUsage: number;
+
+  /** 使用條件 */
+  conditions?: IPromotionConditionsModel;
+
+  /** 行銷資訊 */
+  metadata?: Record<string, any>;
+
+  /** 成效數據 */
+  performance?: Record<string, number>;
+}
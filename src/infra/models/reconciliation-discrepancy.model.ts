@@ -0,0 +1,69 @@
+import { ObjectId } from 'mongodb';
+import { IBaseModel } from './base-model.interface';
+import { ReconciliationDiscrepancyStatus, ReconciliationDiscrepancyType } from '../../domain/enums/codes.const';
+
+/**
+ * 對帳差異資料模型
+ * 同一差異在處理前重複偵測時以 key 更新同一筆
+ */
+export interface IReconciliationDiscrepancyModel extends IBaseModel {
+  /** 去重鍵：類型、閘道與交易編號（無交易編號時為付款 ID） */
+  key: string;
+
+  /** 差異類型 */
+  type: ReconciliationDiscrepancyType;
+
+  /** 處理狀態 */
+  status: ReconciliationDiscrepancyStatus;
+
+  /** 最近一次偵測的對帳作業 ID */
+  runId?: ObjectId;
+
+  /** 支付閘道 */
+  gateway: string;
+
+  /** 閘道交易編號 */
+  gatewayTransactionId?: string;
+
+  /** 本地付款 ID */
+  paymentId?: ObjectId;
+
+  /** 訂閱 ID */
+  subscriptionId?: ObjectId;
+
+  /** 客戶 ID */
+  customerId?: ObjectId;
+
+  /** 本地付款狀態 */
+  localStatus?: string;
+
+  /** 閘道交易狀態 */
+  gatewayStatus?: string;
+
+  /** 本地金額 */
+  localAmount?: number;
+
+  /** 閘道金額 */
+  gatewayAmount?: number;
+
+  /** 幣別 */
+  currency?: string;
+
+  /** 首次偵測時間 */
+  detectedAt: Date;
+
+  /** 最近一次偵測時間 */
+  lastDetectedAt: Date;
+
+  /** 偵測次數 */
+  detectionCount: number;
+
+  /** 處理方式（自動修正的動作或人工處理說明） */
+  resolution?: string;
+
+  /** 處理人員 */
+  resolvedBy?: string;
+
+  /** 處理時間 */
+  resolvedAt?: Date;
+}
@@ -0,0 +1,53 @@
+import { IBaseModel } from './base-model.interface';
+import { BillingRunStatus, BillingRunTrigger } from '../../domain/enums/codes.const';
+
+/**
+ * 對帳作業資料模型
+ */
+export interface IReconciliationRunModel extends IBaseModel {
+  /** 對帳基準時間 */
+  asOf: Date;
+
+  /** 比對區間起點（付款最後更新時間） */
+  windowStart: Date;
+
+  /** 比對區間終點 */
+  windowEnd: Date;
+
+  /** 觸發來源 */
+  trigger: BillingRunTrigger;
+
+  /** 執行狀態 */
+  status: BillingRunStatus;
+
+  /** 執行實例識別 */
+  owner: string;
+
+  /** 開始時間 */
+  startedAt: Date;
+
+  /** 完成時間 */
+  completedAt?: Date;
+
+  /** 執行時長（毫秒） */
+  durationMs?: number;
+
+  /** 比對統計 */
+  counters: {
+    checked: number;
+    matched: number;
+    inFlight: number;
+    gatewayTransactions: number;
+    autoResolved: number;
+    open: number;
+  };
+
+  /** 各差異類型的筆數 */
+  discrepancies: Record<string, number>;
+
+  /** 個別付款或閘道的錯誤 */
+  errors: Array<{ paymentId?: string; gateway?: string; error: string }>;
+
+  /** 作業失敗原因 */
+  failureReason?: string;
+}
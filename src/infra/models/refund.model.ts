@@ -0,0 +1,78 @@
+import { ObjectId } from 'mongodb';
+import { IBaseModel } from './base-model.interface';
+import { RefundMethod, RefundStatus, RefundType } from '../../domain/enums/codes.const';
+import { IPendingDomainEventModel } from './domain-event-outbox.model';
+
+/**
+ * 退款狀態變更紀錄
+ */
+export interface IRefundStatusChangeModel {
+  status: RefundStatus;
+  changedAt: Date;
+  note?: string;
+}
+
+/**
+ * 退款資料模型
+ */
+export interface IRefundModel extends IBaseModel {
+  /** 原付款 ID */
+  paymentId: ObjectId;
+
+  /** 訂閱 ID */
+  subscriptionId: ObjectId;
+
+  /** 客戶 ID */
+  customerId: ObjectId;
+
+  /** 退款金額（以分為單位） */
+  amount: number;
+
+  /** 貨幣代碼 */
+  currency: string;
+
+  /** 退款類型 */
+  refundType: RefundType;
+
+  /** 退款方式，舊資料未設定時視為原付款退回 */
+  refundMethod?: RefundMethod;
+
+  /** 退款原因 */
+  reason: string;
+
+  /** 退款狀態 */
+  status: RefundStatus;
+
+  /** 執行退款的支付閘道 */
+  gateway?: string;
+
+  /** 支付閘道的退款 ID */
+  providerRefundId?: string;
+
+  /** 申請時間 */
+  requestedAt: Date;
+
+  /** 送出閘道時間 */
+  processedAt?: Date;
+
+  /** 完成時間 */
+  completedAt?: Date;
+
+  /** 失敗時間 */
+  failedAt?: Date;
+
+  /** 失敗原因 */
+  failureReason?: string;
+
+  /** 審核備註 */
+  adminNotes?: string;
+
+  /** 狀態變更紀錄 */
+  statusHistory: IRefundStatusChangeModel[];
+
+  /** 額外資訊 */
+  metadata?: Record<string, any>;
+
+  /** 尚未搬移至外送集合的領域事件 */
+  pendingEvents?: IPendingDomainEventModel[];
+}
@@ -0,0 +1,43 @@
+import { IBaseModel } from './base-model.interface';
+
+/**
+ * 撥款檔匯入批次資料模型
+ */
+export interface ISettlementBatchModel extends IBaseModel {
+  /** 閘道名稱 */
+  gateway: string;
+
+  /** 上傳的檔名 */
+  fileName: string;
+
+  /** 檔案內容的 SHA-256，同一閘道相同檔案只能匯入一次 */
+  checksum: string;
+
+  /** 匯入者 */
+  importedBy?: string;
+
+  /** 比對統計 */
+  counters: {
+    rows: number;
+    matched: number;
+    unmatched: number;
+    amountMismatch: number;
+    statusMismatch: number;
+    duplicate: number;
+    invalid: number;
+  };
+
+  /** 各撥款日的撥款摘要 */
+  payouts: Array<{
+    settlementDate: string;
+    currency: string;
+    transactionCount: number;
+    matchedCount: number;
+    grossAmount: number;
+    feeAmount: number;
+    netAmount: number;
+  }>;
+
+  /** 無法解析或處理的資料列 */
+  errors: Array<{ rowNumber: number; error: string }>;
+}
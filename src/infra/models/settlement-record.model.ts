@@ -0,0 +1,60 @@
+import { ObjectId } from 'mongodb';
+import { IBaseModel } from './base-model.interface';
+import { PaymentStatus, SettlementRecordStatus } from '../../domain/enums/codes.const';
+
+/**
+ * 撥款明細資料模型
+ * 撥款檔中的每筆交易，記錄比對到的付款與手續費
+ */
+export interface ISettlementRecordModel extends IBaseModel {
+  /** 匯入批次 ID */
+  batchId: ObjectId;
+
+  /** 閘道名稱 */
+  gateway: string;
+
+  /** 檔案中的資料列號 */
+  rowNumber: number;
+
+  /** 閘道交易編號 */
+  transactionId: string;
+
+  /** 比對到付款時使用的交易編號 */
+  matchKey?: string;
+
+  /** 閘道端的交易序號 */
+  gatewayReference?: string;
+
+  /** 撥款日期（YYYY-MM-DD） */
+  settlementDate: string;
+
+  /** 交易金額 */
+  grossAmount: number;
+
+  /** 閘道手續費 */
+  feeAmount: number;
+
+  /** 撥款淨額 */
+  netAmount: number;
+
+  /** 幣別 */
+  currency: string;
+
+  /** 比對結果 */
+  status: SettlementRecordStatus;
+
+  /** 對應的付款 */
+  paymentId?: ObjectId;
+  subscriptionId?: ObjectId;
+  customerId?: ObjectId;
+
+  /** 比對當下的付款金額與狀態 */
+  paymentAmount?: number;
+  paymentStatus?: PaymentStatus;
+
+  /** 重複撥款時，先前對應的撥款明細 */
+  duplicateOf?: ObjectId;
+
+  /** 原始欄位 */
+  raw: Record<string, string>;
+}
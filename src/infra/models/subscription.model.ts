@@ -1,6 +1,28 @@
 import { ObjectId } from 'mongodb';
 import { IBaseModel } from './base-model.interface';
 import { SubscriptionStatus, BillingCycle } from '../../domain/enums/codes.const';
+import { IPendingDomainEventModel } from './domain-event-outbox.model';
+import { IPromotionDiscountStageModel } from './promotion.model';
+
+/**
+ * 套用的優惠
+ */
+export interface IAppliedPromotionModel {
+  promotionId: string;
+  appliedAt: Date;
+  /** 開始套用的計費期數 */
+  cycleNumber: number;
+  /** 當期折扣金額（以分為單位） */
+  discountAmount: number;
+  currency: string;
+  status: 'ACTIVE' | 'EXPIRED' | 'CANCELLED';
+  /** 折扣排程 */
+  schedule?: IPromotionDiscountStageModel[];
+  cyclesApplied?: number;
+  /** 剩餘期數，null 表示不限期數 */
+  remainingCycles?: number | null;
+  expiredAt?: Date;
+}
 
 /**
  * 訂閱資料模型
@@ -66,6 +88,12 @@ export interface ISubscriptionModel extends IBaseModel {
   /** 訂閱描述 */
   description?: string;
 
+  /** 套用的優惠與剩餘期數 */
+  appliedPromotions?: IAppliedPromotionModel[];
+
   /** 訂閱元資料 */
   metadata: Record<string, any>;
+
+  /** 尚未搬移至外送集合的領域事件 */
+  pendingEvents?: IPendingDomainEventModel[];
 }
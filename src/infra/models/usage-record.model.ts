@@ -0,0 +1,29 @@
+import { ObjectId } from 'mongodb';
+import { IBaseModel } from './base-model.interface';
+
+/**
+ * 用量紀錄資料模型
+ * (subscriptionId, idempotencyKey) 為唯一索引，重送的紀錄不會重複計量
+ */
+export interface IUsageRecordModel extends IBaseModel {
+  /** 訂閱 ID */
+  subscriptionId: ObjectId;
+
+  /** 客戶 ID */
+  customerId: ObjectId;
+
+  /** 計量功能 */
+  feature: string;
+
+  /** 數量 */
+  quantity: number;
+
+  /** 用量發生時間 */
+  timestamp: Date;
+
+  /** 冪等鍵 */
+  idempotencyKey: string;
+
+  /** 額外資訊 */
+  metadata?: Record<string, any>;
+}
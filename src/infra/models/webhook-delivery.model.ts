@@ -0,0 +1,41 @@
+import { ObjectId } from 'mongodb';
+import { IBaseModel } from './base-model.interface';
+import { WebhookDeliveryStatus } from '../../domain/enums/codes.const';
+
+/**
+ * 商家 Webhook 投遞資料模型
+ */
+export interface IWebhookDeliveryModel extends IBaseModel {
+  /** 端點 ID */
+  endpointId: ObjectId;
+
+  /** 商家 ID */
+  merchantId: string;
+
+  /** 來源領域事件 ID */
+  eventId: string;
+
+  /** 事件類型 */
+  eventType: string;
+
+  /** 投遞內容 */
+  payload: Record<string, any>;
+
+  /** 投遞狀態 */
+  status: WebhookDeliveryStatus;
+
+  /** 下次投遞時間 */
+  nextAttemptAt?: Date;
+
+  /** 投遞嘗試紀錄 */
+  attempts: Array<{
+    attemptedAt: Date;
+    responseStatus?: number;
+    responseBody?: string;
+    durationMs: number;
+    error?: string;
+  }>;
+
+  /** 成功送達時間 */
+  deliveredAt?: Date;
+}
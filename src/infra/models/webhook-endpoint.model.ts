@@ -0,0 +1,24 @@
+import { IBaseModel } from './base-model.interface';
+
+/**
+ * 商家 Webhook 端點資料模型
+ */
+export interface IWebhookEndpointModel extends IBaseModel {
+  /** 商家 ID */
+  merchantId: string;
+
+  /** 接收事件的 URL */
+  url: string;
+
+  /** HMAC-SHA256 簽章密鑰 */
+  secret: string;
+
+  /** 訂閱的事件類型 */
+  events: string[];
+
+  /** 端點描述 */
+  description?: string;
+
+  /** 是否啟用 */
+  enabled: boolean;
+}
@@ -0,0 +1,232 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { BillingAttemptEntity } from '../../domain/entities/billing-attempt.entity';
+import { BillingAttemptStatus, BillingAttemptType } from '../../domain/enums/codes.const';
+import { Money } from '../../domain/value-objects/money';
+import { modelNames, IBillingAttemptDocument } from '../models/models.definition';
+
+/**
+ * 計費嘗試查詢條件
+ */
+export interface BillingAttemptSearchCriteria {
+  subscriptionId?: string;
+  paymentId?: string;
+  status?: BillingAttemptStatus;
+  type?: BillingAttemptType;
+  /** 排程時間起（含） */
+  from?: Date;
+  /** 排程時間迄（含） */
+  to?: Date;
+}
+
+@Injectable()
+export class BillingAttemptRepository {
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 儲存計費嘗試實體
+   */
+  public async save(entity: BillingAttemptEntity): Promise<CustomDefinition.TNullable<BillingAttemptEntity>> {
+    if (!entity) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.BILLING_ATTEMPTS);
+
+    if (entity.isNew()) {
+      // 新建計費嘗試
+      const doc: Omit<IBillingAttemptDocument, '_id'> = {
+        subscriptionId: new ObjectId(entity.subscriptionId),
+        customerId: new ObjectId(entity.customerId),
+        paymentId: entity.paymentId ? new ObjectId(entity.paymentId) : null,
+        paymentMethodId: new ObjectId(entity.paymentMethodId),
+        originalAttemptId: entity.originalAttemptId ? new ObjectId(entity.originalAttemptId) : undefined,
+        ...this.toMutableFields(entity),
+        createdAt: entity.createdAt,
+      };
+
+      const result = await collection.insertOne(doc as any);
+      entity.id = result.insertedId.toHexString();
+      return entity;
+    } else {
+      // 更新現有計費嘗試（關聯 ID 建立後不變）
+      await collection.updateOne({ _id: new ObjectId(entity.id) }, { $set: this.toMutableFields(entity) });
+      return entity;
+    }
+  }
+
+  /**
+   * 根據 ID 查找計費嘗試
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<BillingAttemptEntity>> {
+    if (!CustomValidator.nonEmptyString(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.BILLING_ATTEMPTS);
+    const doc = (await collection.findOne({ _id: new ObjectId(id) })) as IBillingAttemptDocument;
+
+    if (!doc) {
+      return undefined;
+    }
+
+    return this.documentToEntity(doc);
+  }
+
+  /**
+   * 根據支付 ID 查找所有計費嘗試（依嘗試次數排序）
+   */
+  public async findByPaymentId(paymentId: string): Promise<BillingAttemptEntity[]> {
+    if (!CustomValidator.nonEmptyString(paymentId)) {
+      return [];
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.BILLING_ATTEMPTS);
+    const docs = (await collection
+      .find({ paymentId: new ObjectId(paymentId) })
+      .sort({ attemptNumber: 1, createdAt: 1 })
+      .toArray()) as IBillingAttemptDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 查找支付目前處理中的計費嘗試
+   */
+  public async findProcessingByPaymentId(paymentId: string): Promise<CustomDefinition.TNullable<BillingAttemptEntity>> {
+    if (!CustomValidator.nonEmptyString(paymentId)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.BILLING_ATTEMPTS);
+    const docs = (await collection
+      .find({ paymentId: new ObjectId(paymentId), status: BillingAttemptStatus.PROCESSING })
+      .sort({ attemptNumber: -1 })
+      .limit(1)
+      .toArray()) as IBillingAttemptDocument[];
+
+    if (docs.length === 0) {
+      return undefined;
+    }
+
+    return this.documentToEntity(docs[0]);
+  }
+
+  /**
+   * 搜尋計費嘗試（依排程時間倒序）
+   */
+  public async searchAttempts(criteria: BillingAttemptSearchCriteria, limit: number = 20, offset: number = 0): Promise<BillingAttemptEntity[]> {
+    const collection = this.mongoClient.getCollection(modelNames.BILLING_ATTEMPTS);
+    const docs = (await collection.find(this.buildFilter(criteria)).sort({ scheduledAt: -1, attemptNumber: -1 }).skip(offset).limit(limit).toArray()) as IBillingAttemptDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 計算搜尋結果總數
+   */
+  public async countSearchResults(criteria: BillingAttemptSearchCriteria): Promise<number> {
+    const collection = this.mongoClient.getCollection(modelNames.BILLING_ATTEMPTS);
+    return await collection.countDocuments(this.buildFilter(criteria));
+  }
+
+  /**
+   * 建立查詢條件
+   */
+  private buildFilter(criteria: BillingAttemptSearchCriteria): any {
+    const filter: any = {};
+
+    if (CustomValidator.nonEmptyString(criteria.subscriptionId)) {
+      filter.subscriptionId = new ObjectId(criteria.subscriptionId);
+    }
+    if (CustomValidator.nonEmptyString(criteria.paymentId)) {
+      filter.paymentId = new ObjectId(criteria.paymentId);
+    }
+    if (criteria.status) {
+      filter.status = criteria.status;
+    }
+    if (criteria.type) {
+      filter.attemptType = criteria.type;
+    }
+    if (criteria.from) {
+      filter.scheduledAt = { ...filter.scheduledAt, $gte: criteria.from };
+    }
+    if (criteria.to) {
+      filter.scheduledAt = { ...filter.scheduledAt, $lte: criteria.to };
+    }
+
+    return filter;
+  }
+
+  /**
+   * 可變更欄位（新增與更新共用）
+   */
+  private toMutableFields(entity: BillingAttemptEntity) {
+    return {
+      status: entity.status,
+      attemptType: entity.type,
+      attemptNumber: entity.attemptNumber,
+      isRetry: entity.isRetry,
+      amount: entity.amount.amount,
+      currency: entity.amount.currency,
+      billingPeriodStart: entity.billingPeriodStart,
+      billingPeriodEnd: entity.billingPeriodEnd,
+      scheduledAt: entity.scheduledAt,
+      startedAt: entity.startedAt,
+      completedAt: entity.completedAt,
+      nextRetryAt: entity.nextRetryAt,
+      result: entity.result,
+      failureReason: entity.result && !entity.result.success ? entity.result.message : undefined,
+      errorCode: entity.result?.errorCode,
+      failureCategory: entity.failureCategory,
+      isRetriable: entity.isRetriable,
+      retryConfig: entity.retryConfig,
+      fees: entity.fees?.amount,
+      taxAmount: entity.taxAmount?.amount,
+      processingDuration: entity.completedAt ? entity.getProcessingDuration() : undefined,
+      metadata: entity.metadata,
+      updatedAt: entity.updatedAt,
+    };
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: IBillingAttemptDocument): BillingAttemptEntity {
+    const entity = plainToInstance(BillingAttemptEntity, {
+      id: doc._id.toHexString(),
+      subscriptionId: doc.subscriptionId.toHexString(),
+      customerId: doc.customerId.toHexString(),
+      paymentId: doc.paymentId ? doc.paymentId.toHexString() : '',
+      paymentMethodId: doc.paymentMethodId.toHexString(),
+      type: doc.attemptType,
+      status: doc.status,
+      billingPeriodStart: doc.billingPeriodStart,
+      billingPeriodEnd: doc.billingPeriodEnd,
+      attemptNumber: doc.attemptNumber,
+      isRetry: doc.isRetry,
+      originalAttemptId: doc.originalAttemptId?.toHexString(),
+      scheduledAt: doc.scheduledAt,
+      startedAt: doc.startedAt,
+      completedAt: doc.completedAt,
+      result: doc.result,
+      retryConfig: doc.retryConfig,
+      nextRetryAt: doc.nextRetryAt,
+      failureCategory: doc.failureCategory,
+      isRetriable: doc.isRetriable,
+      metadata: doc.metadata || {},
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+
+    // 金額類欄位需還原為 Money 值物件
+    entity.amount = new Money(doc.amount, doc.currency);
+    entity.fees = doc.fees !== undefined && doc.fees !== null ? new Money(doc.fees, doc.currency) : undefined;
+    entity.taxAmount = doc.taxAmount !== undefined && doc.taxAmount !== null ? new Money(doc.taxAmount, doc.currency) : undefined;
+
+    return entity;
+  }
+}
@@ -40,6 +40,7 @@ export class BillingPlanRepository {
           },
           minimumUnits: rule.minimumUnits,
           includedUnits: rule.includedUnits,
+          aggregation: rule.aggregation,
           tiers: rule.tiers?.map((tier) => ({
             upTo: tier.upTo,
             unitPrice: {
@@ -107,6 +108,7 @@ export class BillingPlanRepository {
             },
             minimumUnits: rule.minimumUnits,
             includedUnits: rule.includedUnits,
+            aggregation: rule.aggregation,
             tiers: rule.tiers?.map((tier) => ({
               upTo: tier.upTo,
               unitPrice: {
@@ -257,6 +259,7 @@ export class BillingPlanRepository {
       unitPrice: new Money(rule.unitPrice.amount, rule.unitPrice.currency),
       minimumUnits: rule.minimumUnits,
       includedUnits: rule.includedUnits,
+      aggregation: rule.aggregation,
       tiers: rule.tiers?.map((tier) => ({
         upTo: tier.upTo,
         unitPrice: new Money(tier.unitPrice.amount, tier.unitPrice.currency),
@@ -0,0 +1,100 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { BillingRunEntity } from '../../domain/entities/billing-run.entity';
+import { modelNames, IBillingRunDocument } from '../models/models.definition';
+
+@Injectable()
+export class BillingRunRepository {
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 儲存計費批次作業摘要
+   */
+  public async save(entity: BillingRunEntity): Promise<CustomDefinition.TNullable<BillingRunEntity>> {
+    if (!entity) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.BILLING_RUNS);
+    const fields = {
+      asOf: entity.asOf,
+      trigger: entity.trigger,
+      status: entity.status,
+      owner: entity.owner,
+      startedAt: entity.startedAt,
+      completedAt: entity.completedAt,
+      durationMs: entity.getDuration(),
+      batches: entity.batches,
+      lastCursor: entity.lastCursor,
+      billing: entity.billing,
+      retries: entity.retries,
+      errors: entity.errors,
+      failureReason: entity.failureReason,
+      updatedAt: entity.updatedAt,
+    };
+
+    if (entity.isNew()) {
+      const doc: Omit<IBillingRunDocument, '_id'> = { ...fields, createdAt: entity.createdAt };
+      const result = await collection.insertOne(doc as any);
+      entity.id = result.insertedId.toHexString();
+      return entity;
+    }
+
+    await collection.updateOne({ _id: new ObjectId(entity.id) }, { $set: fields });
+    return entity;
+  }
+
+  /**
+   * 根據 ID 查找作業摘要
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<BillingRunEntity>> {
+    if (!CustomValidator.nonEmptyString(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.BILLING_RUNS);
+    const doc = (await collection.findOne({ _id: new ObjectId(id) })) as IBillingRunDocument;
+
+    if (!doc) {
+      return undefined;
+    }
+
+    return this.documentToEntity(doc);
+  }
+
+  /**
+   * 查找最近的作業摘要
+   */
+  public async findRecent(limit: number = 20): Promise<BillingRunEntity[]> {
+    const collection = this.mongoClient.getCollection(modelNames.BILLING_RUNS);
+    const docs = (await collection.find({}).sort({ startedAt: -1 }).limit(limit).toArray()) as IBillingRunDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: IBillingRunDocument): BillingRunEntity {
+    return plainToInstance(BillingRunEntity, {
+      id: doc._id.toHexString(),
+      asOf: doc.asOf,
+      trigger: doc.trigger,
+      status: doc.status,
+      owner: doc.owner,
+      startedAt: doc.startedAt,
+      completedAt: doc.completedAt,
+      batches: doc.batches,
+      lastCursor: doc.lastCursor,
+      billing: doc.billing,
+      retries: doc.retries,
+      errors: doc.errors || [],
+      failureReason: doc.failureReason,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,166 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { CheckoutSessionEntity } from '../../domain/entities/checkout-session.entity';
+import { CheckoutSessionStatus } from '../../domain/enums/codes.const';
+import { modelNames, ICheckoutSessionDocument } from '../models/models.definition';
+
+@Injectable()
+export class CheckoutSessionRepository implements OnModuleInit {
+  private readonly logger = new Logger(CheckoutSessionRepository.name);
+
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 建立索引
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.CHECKOUT_SESSIONS);
+      await collection.createIndexes([{ key: { tokenHash: 1 }, unique: true }, { key: { gatewayTradeNos: 1 } }, { key: { subscriptionId: 1, createdAt: -1 } }]);
+    } catch (error) {
+      this.logger.error(`Failed to ensure checkout session indexes: ${error.message}`);
+    }
+  }
+
+  /**
+   * 儲存工作階段
+   */
+  public async save(entity: CheckoutSessionEntity): Promise<CustomDefinition.TNullable<CheckoutSessionEntity>> {
+    if (!entity) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.CHECKOUT_SESSIONS);
+    const doc = this.entityToDocument(entity);
+
+    if (entity.isNew()) {
+      const result = await collection.insertOne(doc as any);
+      entity.id = result.insertedId.toHexString();
+    } else {
+      delete doc.createdAt;
+      await collection.updateOne({ _id: new ObjectId(entity.id) }, { $set: doc });
+    }
+    return entity;
+  }
+
+  /**
+   * 佔用開啟中的工作階段進行完成處理，其他請求持有未到期的租約時回傳 false
+   */
+  public async claim(entity: CheckoutSessionEntity, leaseUntil: Date, at: Date = new Date()): Promise<boolean> {
+    const collection = this.mongoClient.getCollection(modelNames.CHECKOUT_SESSIONS);
+    const result = await collection.updateOne(
+      {
+        _id: new ObjectId(entity.id),
+        status: CheckoutSessionStatus.OPEN,
+        $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: null }, { lockedUntil: { $lte: at } }],
+      },
+      { $set: { lockedUntil: leaseUntil, updatedAt: new Date() } },
+    );
+    if (result.modifiedCount !== 1) {
+      return false;
+    }
+    entity.lockedUntil = leaseUntil;
+    return true;
+  }
+
+  /**
+   * 根據 ID 查找工作階段
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<CheckoutSessionEntity>> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.CHECKOUT_SESSIONS);
+    const doc = (await collection.findOne({ _id: new ObjectId(id) })) as ICheckoutSessionDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 以 token 雜湊查找工作階段
+   */
+  public async findByTokenHash(tokenHash: string): Promise<CustomDefinition.TNullable<CheckoutSessionEntity>> {
+    if (!CustomValidator.nonEmptyString(tokenHash)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.CHECKOUT_SESSIONS);
+    const doc = (await collection.findOne({ tokenHash })) as ICheckoutSessionDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 以閘道交易編號查找工作階段
+   */
+  public async findByGatewayTradeNo(tradeNo: string): Promise<CustomDefinition.TNullable<CheckoutSessionEntity>> {
+    if (!CustomValidator.nonEmptyString(tradeNo)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.CHECKOUT_SESSIONS);
+    const doc = (await collection.findOne({ gatewayTradeNos: tradeNo })) as ICheckoutSessionDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  private entityToDocument(entity: CheckoutSessionEntity): Omit<ICheckoutSessionDocument, '_id'> {
+    return {
+      mode: entity.mode,
+      customerId: new ObjectId(entity.customerId),
+      subscriptionId: entity.subscriptionId ? new ObjectId(entity.subscriptionId) : undefined,
+      paymentId: entity.paymentId ? new ObjectId(entity.paymentId) : undefined,
+      gateway: entity.gateway,
+      amount: entity.amount,
+      currency: entity.currency,
+      status: entity.status,
+      tokenHash: entity.tokenHash,
+      expiresAt: entity.expiresAt,
+      successUrl: entity.successUrl,
+      cancelUrl: entity.cancelUrl,
+      gatewayTradeNos: entity.gatewayTradeNos,
+      paymentMethodId: entity.paymentMethodId ? new ObjectId(entity.paymentMethodId) : undefined,
+      paymentStatus: entity.paymentStatus,
+      completedAt: entity.completedAt,
+      lastError: entity.lastError,
+      lockedUntil: entity.lockedUntil,
+      metadata: entity.metadata,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+    };
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: ICheckoutSessionDocument): CheckoutSessionEntity {
+    return plainToInstance(CheckoutSessionEntity, {
+      id: doc._id.toHexString(),
+      mode: doc.mode,
+      customerId: doc.customerId?.toHexString(),
+      subscriptionId: doc.subscriptionId?.toHexString(),
+      paymentId: doc.paymentId?.toHexString(),
+      gateway: doc.gateway,
+      amount: doc.amount,
+      currency: doc.currency,
+      status: doc.status,
+      tokenHash: doc.tokenHash,
+      expiresAt: doc.expiresAt,
+      successUrl: doc.successUrl,
+      cancelUrl: doc.cancelUrl,
+      gatewayTradeNos: doc.gatewayTradeNos || [],
+      paymentMethodId: doc.paymentMethodId?.toHexString(),
+      paymentStatus: doc.paymentStatus,
+      completedAt: doc.completedAt,
+      lastError: doc.lastError,
+      lockedUntil: doc.lockedUntil,
+      metadata: doc.metadata || {},
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,174 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { CouponCodeEntity } from '../../domain/entities/coupon-code.entity';
+import { CouponCodeStatus } from '../../domain/enums/codes.const';
+import { modelNames, ICouponCodeDocument } from '../models/models.definition';
+
+/** MongoDB duplicate key 錯誤碼 */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * 券碼查詢條件
+ */
+export interface CouponCodeQuery {
+  status?: CouponCodeStatus;
+  batchId?: string;
+}
+
+@Injectable()
+export class CouponCodeRepository implements OnModuleInit {
+  private readonly logger = new Logger(CouponCodeRepository.name);
+
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 建立券碼唯一索引
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.COUPON_CODES);
+      await collection.createIndexes([{ key: { code: 1 }, unique: true }, { key: { promotionId: 1, status: 1 } }]);
+    } catch (error) {
+      this.logger.error(`Failed to ensure coupon code indexes: ${error.message}`);
+    }
+  }
+
+  /**
+   * 批次寫入券碼
+   * 與既有券碼重複者略過，回傳實際寫入的數量
+   */
+  public async insertMany(entities: CouponCodeEntity[]): Promise<number> {
+    if (!entities.length) {
+      return 0;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.COUPON_CODES);
+    const docs: Omit<ICouponCodeDocument, '_id'>[] = entities.map((entity) => ({
+      promotionId: new ObjectId(entity.promotionId),
+      promotionCode: entity.promotionCode,
+      code: entity.code,
+      batchId: entity.batchId,
+      status: entity.status,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+    }));
+
+    try {
+      const result = await collection.insertMany(docs as any[], { ordered: false });
+      return result.insertedCount;
+    } catch (error) {
+      const writeErrors = [].concat(error?.writeErrors || []);
+      if (!writeErrors.length || writeErrors.some((writeError) => writeError.code !== DUPLICATE_KEY_ERROR)) {
+        throw error;
+      }
+      return docs.length - writeErrors.length;
+    }
+  }
+
+  /**
+   * 回傳已存在的券碼
+   */
+  public async findExistingCodes(codes: string[]): Promise<string[]> {
+    if (!codes.length) {
+      return [];
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.COUPON_CODES);
+    const docs = await collection
+      .find({ code: { $in: codes } })
+      .project({ code: 1 })
+      .toArray();
+    return docs.map((doc) => doc.code);
+  }
+
+  /**
+   * 根據券碼查找
+   */
+  public async findByCode(code: string): Promise<CustomDefinition.TNullable<CouponCodeEntity>> {
+    if (!CustomValidator.nonEmptyString(code)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.COUPON_CODES);
+    const doc = (await collection.findOne({ code })) as ICouponCodeDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 查找優惠的券碼（依產生順序）
+   */
+  public async findByPromotionId(promotionId: string, query: CouponCodeQuery = {}): Promise<CouponCodeEntity[]> {
+    if (!CustomValidator.nonEmptyString(promotionId) || !ObjectId.isValid(promotionId)) {
+      return [];
+    }
+
+    const filter: Record<string, any> = { promotionId: new ObjectId(promotionId) };
+    if (query.status) {
+      filter.status = query.status;
+    }
+    if (query.batchId) {
+      filter.batchId = query.batchId;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.COUPON_CODES);
+    const docs = (await collection.find(filter).sort({ _id: 1 }).toArray()) as ICouponCodeDocument[];
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 原子兌換券碼，僅在券碼仍可使用時成功
+   */
+  public async claim(code: string, customerId: string, subscriptionId: string): Promise<CustomDefinition.TNullable<CouponCodeEntity>> {
+    if (!CustomValidator.nonEmptyString(code)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.COUPON_CODES);
+    const now = new Date();
+    const doc = (await collection.findOneAndUpdate(
+      { code, status: CouponCodeStatus.AVAILABLE },
+      { $set: { status: CouponCodeStatus.REDEEMED, redeemedAt: now, customerId, subscriptionId, updatedAt: now } },
+      { returnDocument: 'after' },
+    )) as ICouponCodeDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 釋放已兌換的券碼
+   */
+  public async release(code: string): Promise<void> {
+    if (!CustomValidator.nonEmptyString(code)) {
+      return;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.COUPON_CODES);
+    await collection.updateOne(
+      { code, status: CouponCodeStatus.REDEEMED },
+      { $set: { status: CouponCodeStatus.AVAILABLE, updatedAt: new Date() }, $unset: { redeemedAt: '', customerId: '', subscriptionId: '' } },
+    );
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: ICouponCodeDocument): CouponCodeEntity {
+    return plainToInstance(CouponCodeEntity, {
+      id: doc._id.toHexString(),
+      promotionId: doc.promotionId?.toHexString(),
+      promotionCode: doc.promotionCode,
+      code: doc.code,
+      batchId: doc.batchId,
+      status: doc.status,
+      redeemedAt: doc.redeemedAt,
+      customerId: doc.customerId,
+      subscriptionId: doc.subscriptionId,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
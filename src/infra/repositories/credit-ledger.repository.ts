@@ -0,0 +1,196 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { CreditLedgerEntryEntity, CreditSource } from '../../domain/entities/credit-ledger-entry.entity';
+import { CreditEntryType, CreditSourceType } from '../../domain/enums/codes.const';
+import { modelNames, ICreditLedgerEntryDocument } from '../models/models.definition';
+
+/** MongoDB duplicate key 錯誤碼 */
+const DUPLICATE_KEY_ERROR = 11000;
+
+export interface CreditLedgerQuery {
+  currency?: string;
+  page?: number;
+  limit?: number;
+}
+
+@Injectable()
+export class CreditLedgerRepository implements OnModuleInit {
+  private readonly logger = new Logger(CreditLedgerRepository.name);
+
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 建立索引
+   * 同一筆退款只能轉入一次抵用金，同一筆付款的扣抵只能沖回一次
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.CREDIT_LEDGER_ENTRIES);
+      await collection.createIndexes([
+        { key: { customerId: 1, createdAt: -1 } },
+        { key: { customerId: 1, currency: 1, type: 1, remainingAmount: 1 } },
+        { key: { 'source.type': 1, 'source.id': 1, type: 1 }, unique: true, partialFilterExpression: { 'source.type': CreditSourceType.REFUND } },
+        { key: { type: 1, 'source.id': 1 }, unique: true, partialFilterExpression: { type: CreditEntryType.REVERSAL } },
+      ]);
+    } catch (error) {
+      this.logger.error(`Failed to ensure credit ledger indexes: ${error.message}`);
+    }
+  }
+
+  /**
+   * 寫入分錄
+   * 借貸不平衡時拋出錯誤；重複的退款入帳或沖回不寫入並回傳 undefined
+   */
+  public async insert(entity: CreditLedgerEntryEntity): Promise<CustomDefinition.TNullable<CreditLedgerEntryEntity>> {
+    if (!entity.isBalanced()) {
+      throw new Error(`Credit ledger entry for customer ${entity.customerId} is not balanced`);
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.CREDIT_LEDGER_ENTRIES);
+    const doc: Omit<ICreditLedgerEntryDocument, '_id'> = {
+      customerId: new ObjectId(entity.customerId),
+      type: entity.type,
+      amount: entity.amount,
+      currency: entity.currency,
+      lines: entity.lines,
+      source: entity.source,
+      reason: entity.reason,
+      actor: entity.actor,
+      expiresAt: entity.expiresAt,
+      remainingAmount: entity.remainingAmount,
+      allocations: entity.allocations.map((allocation) => ({ entryId: new ObjectId(allocation.entryId), amount: allocation.amount })),
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+    };
+
+    try {
+      const result = await collection.insertOne(doc as any);
+      entity.id = result.insertedId.toHexString();
+      return entity;
+    } catch (error) {
+      if (error?.code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * 查詢客戶的分錄（新到舊）
+   */
+  public async findByCustomerId(customerId: string, query: CreditLedgerQuery = {}): Promise<{ entries: CreditLedgerEntryEntity[]; total: number }> {
+    if (!CustomValidator.nonEmptyString(customerId) || !ObjectId.isValid(customerId)) {
+      return { entries: [], total: 0 };
+    }
+
+    const filter: Record<string, any> = { customerId: new ObjectId(customerId) };
+    if (query.currency) {
+      filter.currency = query.currency;
+    }
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const collection = this.mongoClient.getCollection(modelNames.CREDIT_LEDGER_ENTRIES);
+    const [docs, total] = await Promise.all([
+      collection
+        .find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .toArray() as Promise<ICreditLedgerEntryDocument[]>,
+      collection.countDocuments(filter),
+    ]);
+
+    return { entries: docs.map((doc) => this.documentToEntity(doc)), total };
+  }
+
+  /**
+   * 查詢客戶仍有餘額的入帳額度，可指定幣別
+   */
+  public async findOpenCredits(customerId: string, currency?: string): Promise<CreditLedgerEntryEntity[]> {
+    if (!CustomValidator.nonEmptyString(customerId) || !ObjectId.isValid(customerId)) {
+      return [];
+    }
+
+    const filter: Record<string, any> = { customerId: new ObjectId(customerId), type: CreditEntryType.CREDIT, remainingAmount: { $gt: 0 } };
+    if (currency) {
+      filter.currency = currency;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.CREDIT_LEDGER_ENTRIES);
+    const docs = (await collection.find(filter).sort({ createdAt: 1, _id: 1 }).toArray()) as ICreditLedgerEntryDocument[];
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 依來源與類型查詢單筆分錄（如付款的扣抵分錄）
+   */
+  public async findBySource(source: CreditSource, type: CreditEntryType): Promise<CustomDefinition.TNullable<CreditLedgerEntryEntity>> {
+    if (!CustomValidator.nonEmptyString(source?.id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.CREDIT_LEDGER_ENTRIES);
+    const doc = (await collection.findOne({ 'source.type': source.type, 'source.id': source.id, type })) as ICreditLedgerEntryDocument;
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 原子扣抵入帳額度，餘額不足時不扣並回傳 false
+   */
+  public async consume(entryId: string, amount: number): Promise<boolean> {
+    const collection = this.mongoClient.getCollection(modelNames.CREDIT_LEDGER_ENTRIES);
+    const result = await collection.updateOne(
+      { _id: new ObjectId(entryId), type: CreditEntryType.CREDIT, remainingAmount: { $gte: amount } },
+      { $inc: { remainingAmount: -amount }, $set: { updatedAt: new Date() } },
+    );
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * 退回扣抵的額度（扣抵未完成時還原）
+   */
+  public async restore(entryId: string, amount: number): Promise<void> {
+    const collection = this.mongoClient.getCollection(modelNames.CREDIT_LEDGER_ENTRIES);
+    await collection.updateOne({ _id: new ObjectId(entryId), type: CreditEntryType.CREDIT }, { $inc: { remainingAmount: amount }, $set: { updatedAt: new Date() } });
+  }
+
+  /**
+   * 原子取走入帳額度的全部餘額（到期失效用），回傳取走的金額
+   */
+  public async takeRemaining(entryId: string): Promise<number> {
+    const collection = this.mongoClient.getCollection(modelNames.CREDIT_LEDGER_ENTRIES);
+    const doc = (await collection.findOneAndUpdate(
+      { _id: new ObjectId(entryId), type: CreditEntryType.CREDIT, remainingAmount: { $gt: 0 } },
+      { $set: { remainingAmount: 0, updatedAt: new Date() } },
+      { returnDocument: 'before' },
+    )) as ICreditLedgerEntryDocument;
+
+    return doc?.remainingAmount || 0;
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: ICreditLedgerEntryDocument): CreditLedgerEntryEntity {
+    return plainToInstance(CreditLedgerEntryEntity, {
+      id: doc._id.toHexString(),
+      customerId: doc.customerId?.toHexString(),
+      type: doc.type,
+      amount: doc.amount,
+      currency: doc.currency,
+      lines: doc.lines?.length ? doc.lines : CreditLedgerEntryEntity.journal(doc.debitAccount, doc.creditAccount, doc.amount),
+      source: doc.source,
+      reason: doc.reason,
+      actor: doc.actor,
+      expiresAt: doc.expiresAt,
+      remainingAmount: doc.remainingAmount,
+      allocations: (doc.allocations || []).map((allocation) => ({ entryId: allocation.entryId.toHexString(), amount: allocation.amount })),
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
@@ -32,6 +32,7 @@ export class CustomerRepository {
         tags: entity.tags,
         locale: entity.locale,
         timezone: entity.timezone,
+        eInvoicePreference: entity.eInvoicePreference,
         createdAt: entity.createdAt,
         updatedAt: entity.updatedAt,
       };
@@ -52,6 +53,7 @@ export class CustomerRepository {
           tags: entity.tags,
           locale: entity.locale,
           timezone: entity.timezone,
+          eInvoicePreference: entity.eInvoicePreference,
           updatedAt: entity.updatedAt,
         },
       };
@@ -65,7 +67,7 @@ export class CustomerRepository {
    * 根據 ID 查找客戶
    */
   public async findById(id: string): Promise<CustomDefinition.TNullable<CustomerEntity>> {
-    if (!CustomValidator.nonEmptyString(id)) {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
       return undefined;
     }
 
@@ -325,6 +327,7 @@ export class CustomerRepository {
       tags: doc.tags,
       locale: doc.locale,
       timezone: doc.timezone,
+      eInvoicePreference: doc.eInvoicePreference,
       createdAt: doc.createdAt,
       updatedAt: doc.updatedAt,
     });
@@ -0,0 +1,213 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { DisputeEntity } from '../../domain/entities/dispute.entity';
+import { DisputeStatus } from '../../domain/enums/codes.const';
+import { modelNames, IDisputeDocument } from '../models/models.definition';
+
+/**
+ * 爭議查詢條件
+ */
+export interface DisputeQuery {
+  status?: DisputeStatus;
+  gateway?: string;
+  customerId?: string;
+  subscriptionId?: string;
+  paymentId?: string;
+  /** 回覆期限早於此時間 */
+  dueBefore?: Date;
+  page?: number;
+  limit?: number;
+}
+
+@Injectable()
+export class DisputeRepository implements OnModuleInit {
+  private readonly logger = new Logger(DisputeRepository.name);
+
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 建立索引
+   * (gateway, gatewayDisputeId) 唯一，閘道重送的爭議通知只會建立一筆爭議
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.DISPUTES);
+      await collection.createIndexes([
+        { key: { gateway: 1, gatewayDisputeId: 1 }, unique: true, partialFilterExpression: { gatewayDisputeId: { $type: 'string' } } },
+        { key: { paymentId: 1 } },
+        { key: { status: 1, responseDueBy: 1 } },
+        { key: { customerId: 1, openedAt: -1 } },
+      ]);
+    } catch (error) {
+      this.logger.error(`Failed to ensure dispute indexes: ${error.message}`);
+    }
+  }
+
+  /**
+   * 儲存爭議
+   */
+  public async save(entity: DisputeEntity): Promise<CustomDefinition.TNullable<DisputeEntity>> {
+    if (!entity) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.DISPUTES);
+    const doc: Omit<IDisputeDocument, '_id'> = {
+      paymentId: new ObjectId(entity.paymentId),
+      subscriptionId: new ObjectId(entity.subscriptionId),
+      customerId: new ObjectId(entity.customerId),
+      gateway: entity.gateway,
+      gatewayDisputeId: entity.gatewayDisputeId,
+      amount: entity.amount,
+      currency: entity.currency,
+      reason: entity.reason,
+      status: entity.status,
+      responseDueBy: entity.responseDueBy,
+      openedAt: entity.openedAt,
+      respondedAt: entity.respondedAt,
+      responseNote: entity.responseNote,
+      closedAt: entity.closedAt,
+      evidence: entity.evidence,
+      reversalRefundId: entity.reversalRefundId ? new ObjectId(entity.reversalRefundId) : undefined,
+      statusHistory: entity.statusHistory,
+      metadata: entity.metadata,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+    };
+
+    if (entity.isNew()) {
+      const result = await collection.insertOne(doc as any);
+      entity.id = result.insertedId.toHexString();
+      return entity;
+    }
+
+    await collection.updateOne({ _id: new ObjectId(entity.id) }, { $set: doc });
+    return entity;
+  }
+
+  /**
+   * 根據 ID 查找爭議
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<DisputeEntity>> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.DISPUTES);
+    const doc = (await collection.findOne({ _id: new ObjectId(id) })) as IDisputeDocument;
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 依閘道爭議編號查找爭議
+   */
+  public async findByGatewayDisputeId(gateway: string, gatewayDisputeId: string): Promise<CustomDefinition.TNullable<DisputeEntity>> {
+    if (!CustomValidator.nonEmptyString(gatewayDisputeId)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.DISPUTES);
+    const doc = (await collection.findOne({ gateway, gatewayDisputeId })) as IDisputeDocument;
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 查找付款的所有爭議（新到舊）
+   */
+  public async findByPaymentId(paymentId: string): Promise<DisputeEntity[]> {
+    if (!CustomValidator.nonEmptyString(paymentId) || !ObjectId.isValid(paymentId)) {
+      return [];
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.DISPUTES);
+    const docs = (await collection
+      .find({ paymentId: new ObjectId(paymentId) })
+      .sort({ openedAt: -1 })
+      .toArray()) as IDisputeDocument[];
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 查找已過回覆期限仍待回覆的爭議（依期限先後）
+   */
+  public async findOverdue(asOf: Date, limit: number = 100): Promise<DisputeEntity[]> {
+    const collection = this.mongoClient.getCollection(modelNames.DISPUTES);
+    const docs = (await collection
+      .find({ status: DisputeStatus.NEEDS_RESPONSE, responseDueBy: { $lt: asOf } })
+      .sort({ responseDueBy: 1 })
+      .limit(limit)
+      .toArray()) as IDisputeDocument[];
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 依狀態、閘道、客戶、訂閱、付款與回覆期限查詢爭議（新到舊）
+   */
+  public async findByQuery(query: DisputeQuery = {}): Promise<{ disputes: DisputeEntity[]; total: number }> {
+    const filter: Record<string, any> = {};
+    for (const field of ['customerId', 'subscriptionId', 'paymentId'] as const) {
+      if (query[field]) {
+        if (!ObjectId.isValid(query[field])) {
+          return { disputes: [], total: 0 };
+        }
+        filter[field] = new ObjectId(query[field]);
+      }
+    }
+    if (query.status) {
+      filter.status = query.status;
+    }
+    if (query.gateway) {
+      filter.gateway = query.gateway;
+    }
+    if (query.dueBefore) {
+      filter.responseDueBy = { $lt: query.dueBefore };
+    }
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const collection = this.mongoClient.getCollection(modelNames.DISPUTES);
+    const [docs, total] = await Promise.all([
+      collection
+        .find(filter)
+        .sort({ openedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .toArray() as Promise<IDisputeDocument[]>,
+      collection.countDocuments(filter),
+    ]);
+
+    return { disputes: docs.map((doc) => this.documentToEntity(doc)), total };
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: IDisputeDocument): DisputeEntity {
+    return plainToInstance(DisputeEntity, {
+      id: doc._id.toHexString(),
+      paymentId: doc.paymentId?.toHexString(),
+      subscriptionId: doc.subscriptionId?.toHexString(),
+      customerId: doc.customerId?.toHexString(),
+      gateway: doc.gateway,
+      gatewayDisputeId: doc.gatewayDisputeId,
+      amount: doc.amount,
+      currency: doc.currency,
+      reason: doc.reason,
+      status: doc.status,
+      responseDueBy: doc.responseDueBy,
+      openedAt: doc.openedAt,
+      respondedAt: doc.respondedAt,
+      responseNote: doc.responseNote,
+      closedAt: doc.closedAt,
+      evidence: doc.evidence || [],
+      reversalRefundId: doc.reversalRefundId?.toHexString(),
+      statusHistory: doc.statusHistory || [],
+      metadata: doc.metadata || {},
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,103 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { DunningCampaignEntity } from '../../domain/entities/dunning-campaign.entity';
+import { modelNames, IDunningCampaignDocument } from '../models/models.definition';
+
+@Injectable()
+export class DunningCampaignRepository implements OnModuleInit {
+  private readonly logger = new Logger(DunningCampaignRepository.name);
+
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 建立索引
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.DUNNING_CAMPAIGNS);
+      await collection.createIndexes([{ key: { enabled: 1, isDefault: 1 } }, { key: { productIds: 1 } }]);
+    } catch (error) {
+      this.logger.error(`Failed to ensure dunning campaign indexes: ${error.message}`);
+    }
+  }
+
+  /**
+   * 儲存催收活動
+   */
+  public async save(entity: DunningCampaignEntity): Promise<DunningCampaignEntity> {
+    const collection = this.mongoClient.getCollection(modelNames.DUNNING_CAMPAIGNS);
+    const doc: Omit<IDunningCampaignDocument, '_id'> = {
+      name: entity.name,
+      description: entity.description,
+      isDefault: entity.isDefault,
+      enabled: entity.enabled,
+      productIds: entity.productIds,
+      steps: entity.steps,
+      finalStep: entity.finalStep,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+    };
+
+    if (entity.isNew()) {
+      const result = await collection.insertOne(doc as any);
+      entity.id = result.insertedId.toHexString();
+      return entity;
+    }
+
+    await collection.updateOne({ _id: new ObjectId(entity.id) }, { $set: doc });
+    return entity;
+  }
+
+  /**
+   * 根據 ID 查找催收活動
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<DunningCampaignEntity>> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.DUNNING_CAMPAIGNS);
+    const doc = (await collection.findOne({ _id: new ObjectId(id) })) as IDunningCampaignDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 查找所有催收活動（新到舊）
+   */
+  public async findAll(): Promise<DunningCampaignEntity[]> {
+    const collection = this.mongoClient.getCollection(modelNames.DUNNING_CAMPAIGNS);
+    const docs = (await collection.find({}).sort({ createdAt: -1 }).toArray()) as IDunningCampaignDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 取消其他活動的預設標記
+   */
+  public async clearDefault(exceptId: string): Promise<void> {
+    const collection = this.mongoClient.getCollection(modelNames.DUNNING_CAMPAIGNS);
+    await collection.updateMany({ isDefault: true, _id: { $ne: new ObjectId(exceptId) } }, { $set: { isDefault: false, updatedAt: new Date() } });
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: IDunningCampaignDocument): DunningCampaignEntity {
+    return plainToInstance(DunningCampaignEntity, {
+      id: doc._id.toHexString(),
+      name: doc.name,
+      description: doc.description,
+      isDefault: !!doc.isDefault,
+      enabled: doc.enabled !== false,
+      productIds: doc.productIds || [],
+      steps: doc.steps || [],
+      finalStep: doc.finalStep,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
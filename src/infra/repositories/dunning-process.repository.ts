@@ -0,0 +1,269 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { DunningProcessEntity } from '../../domain/entities/dunning-process.entity';
+import { DunningStatus } from '../../domain/enums/codes.const';
+import { modelNames, IDunningProcessDocument } from '../models/models.definition';
+
+/** MongoDB duplicate key 錯誤碼 */
+const DUPLICATE_KEY_ERROR = 11000;
+
+export interface DunningProcessQuery {
+  status?: DunningStatus;
+  stage?: number;
+  campaignId?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * 各活動、狀態與階段的流程數
+ */
+export interface DunningStageCount {
+  campaignId?: string;
+  campaignName: string;
+  status: DunningStatus;
+  stage: number;
+  count: number;
+}
+
+@Injectable()
+export class DunningProcessRepository implements OnModuleInit {
+  private readonly logger = new Logger(DunningProcessRepository.name);
+
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 建立索引
+   * 同一訂閱只能有一筆進行中的流程
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.DUNNING_PROCESSES);
+      await collection.createIndexes([
+        { key: { subscriptionId: 1 }, unique: true, partialFilterExpression: { status: DunningStatus.ACTIVE } },
+        { key: { status: 1, nextActionAt: 1 } },
+        { key: { status: 1, stage: 1, startedAt: -1 } },
+      ]);
+    } catch (error) {
+      this.logger.error(`Failed to ensure dunning process indexes: ${error.message}`);
+    }
+  }
+
+  /**
+   * 建立流程
+   * 訂閱已有進行中的流程時不建立並回傳 undefined
+   */
+  public async insert(entity: DunningProcessEntity): Promise<CustomDefinition.TNullable<DunningProcessEntity>> {
+    const collection = this.mongoClient.getCollection(modelNames.DUNNING_PROCESSES);
+    try {
+      const result = await collection.insertOne(this.entityToDocument(entity) as any);
+      entity.id = result.insertedId.toHexString();
+      return entity;
+    } catch (error) {
+      if (error?.code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * 以條件更新寫回流程，僅在狀態與階段仍為讀取時的值才更新，回傳是否成功
+   */
+  public async transition(entity: DunningProcessEntity, expected: { status: DunningStatus; stage: number }): Promise<boolean> {
+    const collection = this.mongoClient.getCollection(modelNames.DUNNING_PROCESSES);
+    const doc = this.entityToDocument(entity);
+    delete doc.createdAt;
+    const result = await collection.updateOne({ _id: new ObjectId(entity.id), status: expected.status, stage: expected.stage }, { $set: doc });
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * 佔用到期的階段：將下次執行時間延後到 leaseUntil，僅在流程仍停在讀取時的階段與時間才成功
+   * 執行失敗而未寫回時，流程會在租約到期後重新被排程撿起
+   */
+  public async claim(entity: DunningProcessEntity, leaseUntil: Date): Promise<boolean> {
+    const collection = this.mongoClient.getCollection(modelNames.DUNNING_PROCESSES);
+    const result = await collection.updateOne(
+      { _id: new ObjectId(entity.id), status: DunningStatus.ACTIVE, stage: entity.stage, nextActionAt: entity.nextActionAt },
+      { $set: { nextActionAt: leaseUntil, updatedAt: new Date() } },
+    );
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * 累加流程中的扣款失敗次數
+   */
+  public async incrementFailedAttempts(id: string): Promise<void> {
+    const collection = this.mongoClient.getCollection(modelNames.DUNNING_PROCESSES);
+    await collection.updateOne({ _id: new ObjectId(id) }, { $inc: { failedAttempts: 1 }, $set: { updatedAt: new Date() } });
+  }
+
+  /**
+   * 根據 ID 查找流程
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<DunningProcessEntity>> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.DUNNING_PROCESSES);
+    const doc = (await collection.findOne({ _id: new ObjectId(id) })) as IDunningProcessDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 查找訂閱進行中的流程
+   */
+  public async findActiveBySubscriptionId(subscriptionId: string): Promise<CustomDefinition.TNullable<DunningProcessEntity>> {
+    if (!CustomValidator.nonEmptyString(subscriptionId) || !ObjectId.isValid(subscriptionId)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.DUNNING_PROCESSES);
+    const doc = (await collection.findOne({ subscriptionId: new ObjectId(subscriptionId), status: DunningStatus.ACTIVE })) as IDunningProcessDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 查找訂閱的所有流程（新到舊）
+   */
+  public async findBySubscriptionId(subscriptionId: string): Promise<DunningProcessEntity[]> {
+    if (!CustomValidator.nonEmptyString(subscriptionId) || !ObjectId.isValid(subscriptionId)) {
+      return [];
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.DUNNING_PROCESSES);
+    const docs = (await collection
+      .find({ subscriptionId: new ObjectId(subscriptionId) })
+      .sort({ startedAt: -1 })
+      .toArray()) as IDunningProcessDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 查找已到期待執行的流程
+   */
+  public async findDue(asOf: Date, limit: number = 100): Promise<DunningProcessEntity[]> {
+    const collection = this.mongoClient.getCollection(modelNames.DUNNING_PROCESSES);
+    const docs = (await collection
+      .find({ status: DunningStatus.ACTIVE, nextActionAt: { $lte: asOf } })
+      .sort({ nextActionAt: 1 })
+      .limit(limit)
+      .toArray()) as IDunningProcessDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 依狀態、階段與活動查詢流程（新到舊）
+   */
+  public async findByQuery(query: DunningProcessQuery = {}): Promise<{ processes: DunningProcessEntity[]; total: number }> {
+    const filter: Record<string, any> = {};
+    if (query.status) {
+      filter.status = query.status;
+    }
+    if (query.stage !== undefined) {
+      filter.stage = query.stage;
+    }
+    if (query.campaignId) {
+      if (!ObjectId.isValid(query.campaignId)) {
+        return { processes: [], total: 0 };
+      }
+      filter.campaignId = new ObjectId(query.campaignId);
+    }
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const collection = this.mongoClient.getCollection(modelNames.DUNNING_PROCESSES);
+    const [docs, total] = await Promise.all([
+      collection
+        .find(filter)
+        .sort({ startedAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .toArray() as Promise<IDunningProcessDocument[]>,
+      collection.countDocuments(filter),
+    ]);
+
+    return { processes: docs.map((doc) => this.documentToEntity(doc)), total };
+  }
+
+  /**
+   * 依活動、狀態與階段統計流程數，可指定狀態
+   */
+  public async countByStage(status?: DunningStatus): Promise<DunningStageCount[]> {
+    const collection = this.mongoClient.getCollection(modelNames.DUNNING_PROCESSES);
+    const rows = await collection
+      .aggregate([
+        { $match: status ? { status } : {} },
+        { $group: { _id: { campaignId: '$campaignId', campaignName: '$campaignName', status: '$status', stage: '$stage' }, count: { $sum: 1 } } },
+        { $sort: { '_id.campaignName': 1, '_id.status': 1, '_id.stage': 1 } },
+      ])
+      .toArray();
+
+    return rows.map((row) => ({
+      campaignId: row._id.campaignId?.toHexString(),
+      campaignName: row._id.campaignName,
+      status: row._id.status,
+      stage: row._id.stage,
+      count: row.count,
+    }));
+  }
+
+  private entityToDocument(entity: DunningProcessEntity): Omit<IDunningProcessDocument, '_id'> {
+    return {
+      subscriptionId: new ObjectId(entity.subscriptionId),
+      customerId: new ObjectId(entity.customerId),
+      paymentId: new ObjectId(entity.paymentId),
+      campaignId: entity.campaignId ? new ObjectId(entity.campaignId) : undefined,
+      campaignName: entity.campaignName,
+      steps: entity.steps,
+      finalStep: entity.finalStep,
+      status: entity.status,
+      stage: entity.stage,
+      stageDay: entity.stageDay,
+      failedAttempts: entity.failedAttempts,
+      startedAt: entity.startedAt,
+      nextActionAt: entity.nextActionAt,
+      endedAt: entity.endedAt,
+      exitReason: entity.exitReason,
+      history: entity.history,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+    };
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: IDunningProcessDocument): DunningProcessEntity {
+    return plainToInstance(DunningProcessEntity, {
+      id: doc._id.toHexString(),
+      subscriptionId: doc.subscriptionId?.toHexString(),
+      customerId: doc.customerId?.toHexString(),
+      paymentId: doc.paymentId?.toHexString(),
+      campaignId: doc.campaignId?.toHexString(),
+      campaignName: doc.campaignName,
+      steps: doc.steps || [],
+      finalStep: doc.finalStep,
+      status: doc.status,
+      stage: doc.stage || 0,
+      stageDay: doc.stageDay,
+      failedAttempts: doc.failedAttempts || 0,
+      startedAt: doc.startedAt,
+      nextActionAt: doc.nextActionAt,
+      endedAt: doc.endedAt,
+      exitReason: doc.exitReason,
+      history: doc.history || [],
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
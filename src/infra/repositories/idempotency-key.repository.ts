@@ -0,0 +1,93 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { IdempotencyKeyStatus } from '../../domain/enums/codes.const';
+import { modelNames, IIdempotencyKeyDocument } from '../models/models.definition';
+
+/** MongoDB duplicate key 錯誤碼 */
+const DUPLICATE_KEY_ERROR = 11000;
+
+@Injectable()
+export class IdempotencyKeyRepository implements OnModuleInit {
+  private readonly logger = new Logger(IdempotencyKeyRepository.name);
+
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 建立索引，expiresAt 到期後由 TTL 索引刪除
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.IDEMPOTENCY_KEYS);
+      await collection.createIndexes([{ key: { expiresAt: 1 }, expireAfterSeconds: 0 }]);
+    } catch (error) {
+      this.logger.error(`Failed to ensure idempotency key indexes: ${error.message}`);
+    }
+  }
+
+  /**
+   * 佔用冪等鍵開始處理請求
+   * 鍵值不存在、已到期（TTL 尚未刪除），或相同請求處理中但佔用已逾時時成功，否則回傳 false
+   */
+  public async tryBegin(record: Omit<IIdempotencyKeyDocument, 'status' | 'createdAt' | 'updatedAt'>, at: Date = new Date()): Promise<boolean> {
+    const collection = this.mongoClient.getCollection(modelNames.IDEMPOTENCY_KEYS);
+
+    try {
+      const doc = await collection.findOneAndUpdate(
+        {
+          _id: record._id,
+          $or: [{ expiresAt: { $lte: at } }, { status: IdempotencyKeyStatus.IN_PROGRESS, fingerprint: record.fingerprint, lockedUntil: { $lte: at } }],
+        },
+        {
+          $set: { ...record, status: IdempotencyKeyStatus.IN_PROGRESS, createdAt: at, updatedAt: at },
+          $unset: { responseStatus: '', responseBody: '', completedAt: '' },
+        },
+        { upsert: true, returnDocument: 'after' },
+      );
+      return !!doc;
+    } catch (error) {
+      // 鍵值仍有效時，upsert 會因 _id 重複而失敗
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 以冪等鍵查找紀錄
+   */
+  public async findByKey(key: string): Promise<CustomDefinition.TNullable<IIdempotencyKeyDocument>> {
+    if (!CustomValidator.nonEmptyString(key)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.IDEMPOTENCY_KEYS);
+    const doc = (await collection.findOne({ _id: key })) as IIdempotencyKeyDocument;
+
+    return doc || undefined;
+  }
+
+  /**
+   * 保存回應並結束處理（僅處理中的相同請求可完成）
+   */
+  public async complete(key: string, fingerprint: string, responseStatus: number, responseBody: Record<string, any>, at: Date = new Date()): Promise<boolean> {
+    const collection = this.mongoClient.getCollection(modelNames.IDEMPOTENCY_KEYS);
+    const result = await collection.updateOne(
+      { _id: key, status: IdempotencyKeyStatus.IN_PROGRESS, fingerprint },
+      {
+        $set: { status: IdempotencyKeyStatus.COMPLETED, responseStatus, responseBody, completedAt: at, updatedAt: at },
+        $unset: { lockedUntil: '' },
+      },
+    );
+    return result.matchedCount === 1;
+  }
+
+  /**
+   * 釋放處理中的冪等鍵，讓相同請求可重新執行
+   */
+  public async release(key: string, fingerprint: string): Promise<void> {
+    const collection = this.mongoClient.getCollection(modelNames.IDEMPOTENCY_KEYS);
+    await collection.deleteOne({ _id: key, status: IdempotencyKeyStatus.IN_PROGRESS, fingerprint });
+  }
+}
@@ -0,0 +1,210 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { InvoiceEntity } from '../../domain/entities/invoice.entity';
+import { modelNames, IInvoiceDocument } from '../models/models.definition';
+
+/** MongoDB duplicate key 錯誤碼 */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/** 編號衝突時的最大重試次數 */
+const MAX_NUMBERING_ATTEMPTS = 10;
+
+@Injectable()
+export class InvoiceRepository implements OnModuleInit {
+  private readonly logger = new Logger(InvoiceRepository.name);
+
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 建立編號與查詢所需的索引
+   * 連續編號依賴 (merchantId, year, sequence) 唯一索引
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.INVOICES);
+      await collection.createIndexes([
+        { key: { merchantId: 1, year: 1, sequence: 1 }, unique: true },
+        { key: { paymentId: 1 }, unique: true },
+        { key: { customerId: 1, issuedAt: -1 } },
+      ]);
+    } catch (error) {
+      this.logger.error(`Failed to ensure invoice indexes: ${error.message}`);
+    }
+  }
+
+  /**
+   * 以下一個年度序號開立發票
+   * 序號取目前最大值 + 1，併發衝突時由唯一索引擋下並重新取號，因此不會跳號；
+   * 同一筆付款已開立過時回傳既有發票
+   */
+  public async insertWithNextNumber(entity: InvoiceEntity, year: number, prefix: string): Promise<InvoiceEntity> {
+    const collection = this.mongoClient.getCollection(modelNames.INVOICES);
+
+    for (let attempt = 1; ; attempt++) {
+      const last = (await collection.find({ merchantId: entity.merchantId, year }).sort({ sequence: -1 }).limit(1).project({ sequence: 1 }).next()) as IInvoiceDocument;
+      entity.assignNumber(year, (last?.sequence ?? 0) + 1, prefix);
+
+      try {
+        const result = await collection.insertOne(this.entityToDocument(entity) as any);
+        entity.id = result.insertedId.toHexString();
+        return entity;
+      } catch (error) {
+        if (error?.code !== DUPLICATE_KEY_ERROR) {
+          throw error;
+        }
+        if (error.keyPattern?.paymentId) {
+          return this.findByPaymentId(entity.paymentId);
+        }
+        if (attempt >= MAX_NUMBERING_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * 更新發票狀態與電子發票紀錄
+   */
+  public async save(entity: InvoiceEntity): Promise<CustomDefinition.TNullable<InvoiceEntity>> {
+    if (!entity || entity.isNew()) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.INVOICES);
+    await collection.updateOne(
+      { _id: new ObjectId(entity.id) },
+      { $set: { status: entity.status, voidedAt: entity.voidedAt, voidReason: entity.voidReason, eInvoice: entity.eInvoice, updatedAt: entity.updatedAt } },
+    );
+    return entity;
+  }
+
+  /**
+   * 根據 ID 查找發票
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<InvoiceEntity>> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.INVOICES);
+    const doc = (await collection.findOne({ _id: new ObjectId(id) })) as IInvoiceDocument;
+
+    if (!doc) {
+      return undefined;
+    }
+
+    return this.documentToEntity(doc);
+  }
+
+  /**
+   * 根據付款 ID 查找發票
+   */
+  public async findByPaymentId(paymentId: string): Promise<CustomDefinition.TNullable<InvoiceEntity>> {
+    if (!CustomValidator.nonEmptyString(paymentId) || !ObjectId.isValid(paymentId)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.INVOICES);
+    const doc = (await collection.findOne({ paymentId: new ObjectId(paymentId) })) as IInvoiceDocument;
+
+    if (!doc) {
+      return undefined;
+    }
+
+    return this.documentToEntity(doc);
+  }
+
+  /**
+   * 查找客戶的發票（新到舊）
+   */
+  public async findByCustomerId(customerId: string, limit: number = 20, offset: number = 0): Promise<InvoiceEntity[]> {
+    if (!CustomValidator.nonEmptyString(customerId) || !ObjectId.isValid(customerId)) {
+      return [];
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.INVOICES);
+    const docs = (await collection
+      .find({ customerId: new ObjectId(customerId) })
+      .sort({ issuedAt: -1 })
+      .skip(offset)
+      .limit(limit)
+      .toArray()) as IInvoiceDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 計算客戶的發票數量
+   */
+  public async countByCustomerId(customerId: string): Promise<number> {
+    if (!CustomValidator.nonEmptyString(customerId) || !ObjectId.isValid(customerId)) {
+      return 0;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.INVOICES);
+    return collection.countDocuments({ customerId: new ObjectId(customerId) });
+  }
+
+  private entityToDocument(entity: InvoiceEntity): Omit<IInvoiceDocument, '_id'> {
+    return {
+      merchantId: entity.merchantId,
+      customerId: new ObjectId(entity.customerId),
+      subscriptionId: new ObjectId(entity.subscriptionId),
+      paymentId: new ObjectId(entity.paymentId),
+      invoiceNumber: entity.invoiceNumber,
+      year: entity.year,
+      sequence: entity.sequence,
+      status: entity.status,
+      currency: entity.currency,
+      lineItems: entity.lineItems,
+      subtotal: entity.subtotal,
+      taxRate: entity.taxRate,
+      taxAmount: entity.taxAmount,
+      total: entity.total,
+      billTo: entity.billTo,
+      periodStart: entity.periodStart,
+      periodEnd: entity.periodEnd,
+      issuedAt: entity.issuedAt,
+      voidedAt: entity.voidedAt,
+      voidReason: entity.voidReason,
+      eInvoice: entity.eInvoice,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+    };
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: IInvoiceDocument): InvoiceEntity {
+    return plainToInstance(InvoiceEntity, {
+      id: doc._id.toHexString(),
+      merchantId: doc.merchantId,
+      customerId: doc.customerId?.toHexString(),
+      subscriptionId: doc.subscriptionId?.toHexString(),
+      paymentId: doc.paymentId?.toHexString(),
+      invoiceNumber: doc.invoiceNumber,
+      year: doc.year,
+      sequence: doc.sequence,
+      status: doc.status,
+      currency: doc.currency,
+      lineItems: doc.lineItems || [],
+      subtotal: doc.subtotal,
+      taxRate: doc.taxRate,
+      taxAmount: doc.taxAmount,
+      total: doc.total,
+      billTo: doc.billTo || {},
+      periodStart: doc.periodStart,
+      periodEnd: doc.periodEnd,
+      issuedAt: doc.issuedAt,
+      voidedAt: doc.voidedAt,
+      voidReason: doc.voidReason,
+      eInvoice: doc.eInvoice,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomMongoClient } from '@xxxhand/app-common';
+import { modelNames } from '../models/models.definition';
+
+/** MongoDB duplicate key 錯誤碼 */
+const DUPLICATE_KEY_ERROR = 11000;
+
+@Injectable()
+export class JobLockRepository {
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 嘗試取得作業鎖
+   * 鎖不存在、已逾期或已由同一持有者取得時成功，否則回傳 false
+   */
+  public async tryAcquire(name: string, owner: string, ttlMs: number): Promise<boolean> {
+    const collection = this.mongoClient.getCollection(modelNames.JOB_LOCKS);
+    const now = new Date();
+
+    try {
+      const doc = await collection.findOneAndUpdate(
+        { _id: name, $or: [{ expiresAt: { $lte: now } }, { owner }] },
+        { $set: { owner, lockedAt: now, expiresAt: new Date(now.getTime() + ttlMs) } },
+        { upsert: true, returnDocument: 'after' },
+      );
+      return !!doc && doc.owner === owner;
+    } catch (error) {
+      // 鎖仍由其他實例持有時，upsert 會因 _id 重複而失敗
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 延長作業鎖的有效期限
+   */
+  public async renew(name: string, owner: string, ttlMs: number): Promise<boolean> {
+    const collection = this.mongoClient.getCollection(modelNames.JOB_LOCKS);
+    const result = await collection.updateOne({ _id: name, owner }, { $set: { expiresAt: new Date(Date.now() + ttlMs) } });
+    return result.matchedCount === 1;
+  }
+
+  /**
+   * 釋放作業鎖（僅持有者可釋放）
+   */
+  public async release(name: string, owner: string): Promise<void> {
+    const collection = this.mongoClient.getCollection(modelNames.JOB_LOCKS);
+    await collection.deleteOne({ _id: name, owner });
+  }
+}
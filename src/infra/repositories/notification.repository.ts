@@ -0,0 +1,122 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { NotificationStatus, NotificationVO } from '../../domain/value-objects/notification';
+import { modelNames, INotificationDocument } from '../models/models.definition';
+
+/** MongoDB duplicate key 錯誤碼 */
+const DUPLICATE_KEY_ERROR = 11000;
+
+@Injectable()
+export class NotificationRepository {
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 新增通知，ID 已存在時回傳 false
+   */
+  public async create(notification: NotificationVO, reason?: string): Promise<boolean> {
+    const collection = this.mongoClient.getCollection(modelNames.NOTIFICATIONS);
+    const now = new Date();
+    const doc: INotificationDocument = {
+      _id: notification.id,
+      ...this.toFields(notification),
+      type: notification.type,
+      priority: notification.priority,
+      recipient: notification.recipient,
+      content: notification.content,
+      channels: notification.channels,
+      templateId: notification.templateId,
+      templateVariables: notification.templateVariables,
+      metadata: notification.metadata,
+      statusHistory: [{ status: notification.status, changedAt: now, reason }],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    try {
+      await collection.insertOne(doc as any);
+      return true;
+    } catch (error) {
+      if (error?.code === DUPLICATE_KEY_ERROR) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 由指定狀態轉換為通知目前的狀態並記錄變更
+   * 狀態已被其他流程變更時回傳 false，可作為發送前的領取
+   */
+  public async transition(notification: NotificationVO, fromStatus: NotificationStatus, reason?: string): Promise<boolean> {
+    const collection = this.mongoClient.getCollection(modelNames.NOTIFICATIONS);
+    const now = new Date();
+    const result = await collection.updateOne(
+      { _id: notification.id, status: fromStatus } as any,
+      {
+        $set: { ...this.toFields(notification), updatedAt: now },
+        $push: { statusHistory: { status: notification.status, changedAt: now, reason } },
+      } as any,
+    );
+    return result.matchedCount === 1;
+  }
+
+  /**
+   * 根據 ID 查找通知
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<NotificationVO>> {
+    if (!CustomValidator.nonEmptyString(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.NOTIFICATIONS);
+    const doc = (await collection.findOne({ _id: id } as any)) as unknown as INotificationDocument;
+
+    if (!doc) {
+      return undefined;
+    }
+
+    return this.documentToVO(doc);
+  }
+
+  /**
+   * 查找已到發送時間、且尚未用盡重試次數的待發送與失敗通知
+   */
+  public async findSendable(limit: number = 100): Promise<NotificationVO[]> {
+    const collection = this.mongoClient.getCollection(modelNames.NOTIFICATIONS);
+    const now = new Date();
+    const docs = (await collection
+      .find({
+        status: { $in: [NotificationStatus.PENDING, NotificationStatus.FAILED] },
+        $or: [{ 'deliveryOptions.sendAt': { $exists: false } }, { 'deliveryOptions.sendAt': { $lte: now } }],
+        $expr: { $lt: ['$retryCount', '$deliveryOptions.maxRetries'] },
+      })
+      .sort({ createdAt: 1 })
+      .limit(limit)
+      .toArray()) as unknown as INotificationDocument[];
+
+    return docs.map((doc) => this.documentToVO(doc));
+  }
+
+  /**
+   * 隨狀態變動的欄位
+   */
+  private toFields(notification: NotificationVO) {
+    return {
+      status: notification.status,
+      deliveryOptions: notification.deliveryOptions,
+      deliveryResults: notification.deliveryResults,
+      retryCount: notification.retryCount,
+      lastAttemptAt: notification.lastAttemptAt,
+      deliveredAt: notification.deliveredAt,
+      readAt: notification.readAt,
+    };
+  }
+
+  /**
+   * 將文檔轉換為值物件
+   */
+  private documentToVO(doc: INotificationDocument): NotificationVO {
+    return NotificationVO.fromJSON({ ...doc, id: doc._id });
+  }
+}
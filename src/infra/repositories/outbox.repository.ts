@@ -0,0 +1,232 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { DomainEvent } from '../../domain/events/domain-event';
+import { OutboxEventEntity } from '../../domain/entities/outbox-event.entity';
+import { OutboxEventStatus } from '../../domain/enums/codes.const';
+import { IPendingDomainEventModel } from '../models/domain-event-outbox.model';
+import { modelNames, IDomainEventOutboxDocument } from '../models/models.definition';
+
+/**
+ * 會產生領域事件的聚合類型
+ */
+export enum OutboxAggregateType {
+  PAYMENT = 'Payment',
+  SUBSCRIPTION = 'Subscription',
+  REFUND = 'Refund',
+}
+
+/** 聚合類型對應的集合 */
+const AGGREGATE_COLLECTIONS: Record<OutboxAggregateType, modelNames> = {
+  [OutboxAggregateType.PAYMENT]: modelNames.PAYMENTS,
+  [OutboxAggregateType.SUBSCRIPTION]: modelNames.SUBSCRIPTIONS,
+  [OutboxAggregateType.REFUND]: modelNames.REFUNDS,
+};
+
+@Injectable()
+export class OutboxRepository {
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 將領域事件轉為可隨聚合一併寫入的暫存格式
+   */
+  public stage(events: DomainEvent[]): IPendingDomainEventModel[] {
+    return events.map((event) => {
+      // Money 等值物件透過 toJSON 轉為純資料
+      const { type, occurredAt, ...payload } = JSON.parse(JSON.stringify(event));
+      return {
+        eventId: new ObjectId(),
+        type,
+        occurredAt: event.occurredAt ?? new Date(occurredAt),
+        payload,
+      };
+    });
+  }
+
+  /**
+   * 將聚合內暫存的事件搬移至外送集合
+   * 以事件 ID 作為 _id upsert，重複搬移不會產生重複事件
+   */
+  public async relay(aggregateType: OutboxAggregateType, aggregateId: string): Promise<number> {
+    if (!CustomValidator.nonEmptyString(aggregateId)) {
+      return 0;
+    }
+
+    const aggregates = this.mongoClient.getCollection(AGGREGATE_COLLECTIONS[aggregateType]);
+    const doc = await aggregates.findOne({ _id: new ObjectId(aggregateId) }, { projection: { pendingEvents: 1 } });
+    const pendingEvents = (doc?.pendingEvents || []) as IPendingDomainEventModel[];
+    if (pendingEvents.length === 0) {
+      return 0;
+    }
+
+    const now = new Date();
+    const outbox = this.mongoClient.getCollection(modelNames.DOMAIN_EVENT_OUTBOX);
+    await outbox.bulkWrite(
+      pendingEvents.map((event) => ({
+        updateOne: {
+          filter: { _id: event.eventId },
+          update: {
+            $setOnInsert: {
+              aggregateType,
+              aggregateId,
+              type: event.type,
+              occurredAt: event.occurredAt,
+              payload: event.payload,
+              status: OutboxEventStatus.PENDING,
+              attempts: 0,
+              nextAttemptAt: now,
+              deliveredHandlers: [],
+              createdAt: now,
+              updatedAt: now,
+            },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false },
+    );
+
+    await aggregates.updateOne({ _id: doc._id }, { $pull: { pendingEvents: { eventId: { $in: pendingEvents.map((e) => e.eventId) } } } } as any);
+    return pendingEvents.length;
+  }
+
+  /**
+   * 補搬先前寫入後未及搬移的事件
+   */
+  public async relayStranded(limit: number = 100): Promise<number> {
+    let relayed = 0;
+    for (const aggregateType of Object.values(OutboxAggregateType)) {
+      const aggregates = this.mongoClient.getCollection(AGGREGATE_COLLECTIONS[aggregateType]);
+      const docs = await aggregates
+        .find({ 'pendingEvents.0': { $exists: true } })
+        .project({ _id: 1 })
+        .limit(limit)
+        .toArray();
+
+      for (const doc of docs) {
+        relayed += await this.relay(aggregateType, doc._id.toHexString());
+      }
+    }
+    return relayed;
+  }
+
+  /**
+   * 領取一筆待派送事件
+   * 待派送且已到期，或派送租約逾期的事件可被領取
+   */
+  public async claimNext(leaseMs: number): Promise<CustomDefinition.TNullable<OutboxEventEntity>> {
+    const collection = this.mongoClient.getCollection(modelNames.DOMAIN_EVENT_OUTBOX);
+    const now = new Date();
+
+    const doc = (await collection.findOneAndUpdate(
+      {
+        $or: [
+          { status: OutboxEventStatus.PENDING, nextAttemptAt: { $lte: now } },
+          { status: OutboxEventStatus.PROCESSING, lockedUntil: { $lte: now } },
+        ],
+      },
+      { $set: { status: OutboxEventStatus.PROCESSING, lockedUntil: new Date(now.getTime() + leaseMs), updatedAt: now } },
+      { sort: { nextAttemptAt: 1 }, returnDocument: 'after' },
+    )) as IDomainEventOutboxDocument;
+
+    if (!doc) {
+      return undefined;
+    }
+
+    return this.documentToEntity(doc);
+  }
+
+  /**
+   * 儲存外送事件的派送進度
+   */
+  public async save(entity: OutboxEventEntity): Promise<CustomDefinition.TNullable<OutboxEventEntity>> {
+    if (!entity) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.DOMAIN_EVENT_OUTBOX);
+    const fields = {
+      status: entity.status,
+      attempts: entity.attempts,
+      nextAttemptAt: entity.nextAttemptAt,
+      lockedUntil: entity.lockedUntil,
+      deliveredHandlers: entity.deliveredHandlers,
+      lastError: entity.lastError,
+      deliveredAt: entity.deliveredAt,
+      deadLetteredAt: entity.deadLetteredAt,
+      updatedAt: entity.updatedAt,
+    };
+
+    if (entity.isNew()) {
+      const doc: Omit<IDomainEventOutboxDocument, '_id'> = {
+        ...fields,
+        aggregateType: entity.aggregateType,
+        aggregateId: entity.aggregateId,
+        type: entity.type,
+        occurredAt: entity.occurredAt,
+        payload: entity.payload,
+        createdAt: entity.createdAt,
+      };
+      const result = await collection.insertOne(doc as any);
+      entity.id = result.insertedId.toHexString();
+      return entity;
+    }
+
+    await collection.updateOne({ _id: new ObjectId(entity.id) }, { $set: fields });
+    return entity;
+  }
+
+  /**
+   * 根據 ID 查找外送事件
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<OutboxEventEntity>> {
+    if (!CustomValidator.nonEmptyString(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.DOMAIN_EVENT_OUTBOX);
+    const doc = (await collection.findOne({ _id: new ObjectId(id) })) as IDomainEventOutboxDocument;
+
+    if (!doc) {
+      return undefined;
+    }
+
+    return this.documentToEntity(doc);
+  }
+
+  /**
+   * 查找特定狀態的外送事件
+   */
+  public async findByStatus(status: OutboxEventStatus, limit: number = 100): Promise<OutboxEventEntity[]> {
+    const collection = this.mongoClient.getCollection(modelNames.DOMAIN_EVENT_OUTBOX);
+    const docs = (await collection.find({ status }).sort({ occurredAt: 1 }).limit(limit).toArray()) as IDomainEventOutboxDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: IDomainEventOutboxDocument): OutboxEventEntity {
+    return plainToInstance(OutboxEventEntity, {
+      id: doc._id.toHexString(),
+      aggregateType: doc.aggregateType,
+      aggregateId: doc.aggregateId,
+      type: doc.type,
+      occurredAt: doc.occurredAt,
+      payload: doc.payload || {},
+      status: doc.status,
+      attempts: doc.attempts,
+      nextAttemptAt: doc.nextAttemptAt,
+      lockedUntil: doc.lockedUntil,
+      deliveredHandlers: doc.deliveredHandlers || [],
+      lastError: doc.lastError,
+      deliveredAt: doc.deliveredAt,
+      deadLetteredAt: doc.deadLetteredAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
@@ -1,16 +1,30 @@
-import { Inject, Injectable } from '@nestjs/common';
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { plainToInstance } from 'class-transformer';
 import { ObjectId } from 'mongodb';
 import { DEFAULT_MONGO } from '@myapp/common';
 import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
 import { PaymentMethodEntity } from '../../domain/entities/payment-method.entity';
-import { PaymentMethodStatus } from '../../domain/enums/codes.const';
+import { PaymentMethodStatus, PaymentMethodType } from '../../domain/enums/codes.const';
 import { modelNames, IPaymentMethodDocument } from '../models/models.definition';
 
 @Injectable()
-export class PaymentMethodRepository {
+export class PaymentMethodRepository implements OnModuleInit {
+  private readonly logger = new Logger(PaymentMethodRepository.name);
+
   constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
 
+  /**
+   * 建立到期掃描用的索引
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.PAYMENT_METHODS);
+      await collection.createIndex({ status: 1, expiryDate: 1 });
+    } catch (error) {
+      this.logger.error(`Failed to ensure payment method indexes: ${error.message}`);
+    }
+  }
+
   /**
    * 儲存支付方式實體
    */
@@ -151,6 +165,25 @@ export class PaymentMethodRepository {
     return this.documentToEntity(doc);
   }
 
+  /**
+   * 查找在指定時間前到期的有效卡片，依 ID 分批讀取
+   */
+  public async findExpiringBefore(before: Date, limit: number = 100, afterId?: string): Promise<PaymentMethodEntity[]> {
+    const filter: Record<string, any> = {
+      status: PaymentMethodStatus.ACTIVE,
+      type: { $in: [PaymentMethodType.CREDIT_CARD, PaymentMethodType.DEBIT_CARD] },
+      expiryDate: { $lte: before },
+    };
+    if (afterId) {
+      filter._id = { $gt: new ObjectId(afterId) };
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.PAYMENT_METHODS);
+    const docs = (await collection.find(filter).sort({ _id: 1 }).limit(limit).toArray()) as IPaymentMethodDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
   /**
    * 將文檔轉換為實體
    */
@@ -1,15 +1,52 @@
-import { Inject, Injectable } from '@nestjs/common';
+import { Inject, Injectable, Logger, OnModuleInit, Optional } from '@nestjs/common';
 import { plainToInstance } from 'class-transformer';
 import { ObjectId } from 'mongodb';
 import { DEFAULT_MONGO } from '@myapp/common';
 import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
 import { PaymentEntity } from '../../domain/entities/payment.entity';
 import { PaymentStatus } from '../../domain/enums/codes.const';
+import { Money } from '../../domain/value-objects/money';
+import { OutboxRepository, OutboxAggregateType } from './outbox.repository';
 import { modelNames, IPaymentDocument } from '../models/models.definition';
 
+const DUPLICATE_KEY_ERROR = 11000;
+
 @Injectable()
-export class PaymentRepository {
-  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+export class PaymentRepository implements OnModuleInit {
+  private readonly logger = new Logger(PaymentRepository.name);
+
+  constructor(
+    @Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient,
+    @Optional() private readonly outboxRepository?: OutboxRepository,
+  ) {}
+
+  /**
+   * 建立索引
+   * 定期定額每期執行只能有一筆支付
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.PAYMENTS);
+      await collection.createIndexes([{ key: { externalTransactionId: 1 }, unique: true, partialFilterExpression: { 'metadata.periodOrderNo': { $exists: true } } }]);
+    } catch (error) {
+      this.logger.error(`Failed to ensure payment indexes: ${error.message}`);
+    }
+  }
+
+  /**
+   * 新增支付記錄
+   * 違反唯一索引（如重複的定期定額執行）時不寫入並回傳 undefined
+   */
+  public async insert(entity: PaymentEntity): Promise<CustomDefinition.TNullable<PaymentEntity>> {
+    try {
+      return await this.save(entity);
+    } catch (error) {
+      if (error?.code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+      return undefined;
+    }
+  }
 
   /**
    * 儲存支付記錄實體
@@ -20,6 +57,8 @@ export class PaymentRepository {
     }
 
     const collection = this.mongoClient.getCollection(modelNames.PAYMENTS);
+    // 領域事件隨聚合同一次寫入，確保狀態與事件一致
+    const pendingEvents = this.outboxRepository ? this.outboxRepository.stage(entity.pullDomainEvents()) : [];
 
     if (entity.isNew()) {
       // 新建支付記錄
@@ -43,6 +82,9 @@ export class PaymentRepository {
         refundedAt: entity.refundedAt,
         refundedAmount: entity.refundedAmount,
         refundReason: entity.refundReason,
+        refunds: this.refundsToDocument(entity),
+        settlement: this.settlementToDocument(entity),
+        customerAction: entity.customerAction,
         invoiceNumber: entity.invoiceNumber,
         receiptNumber: entity.receiptNumber,
         metadata: entity.metadata,
@@ -70,12 +112,14 @@ export class PaymentRepository {
               retryStrategy: entity.retryState.retryStrategy,
             }
           : undefined,
+        pendingEvents,
         createdAt: entity.createdAt,
         updatedAt: entity.updatedAt,
       };
 
       const result = await collection.insertOne(doc as any);
       entity.id = result.insertedId.toHexString();
+      await this.relayPendingEvents(entity.id, pendingEvents.length);
       return entity;
     } else {
       // 更新現有支付記錄
@@ -100,6 +144,9 @@ export class PaymentRepository {
           refundedAt: entity.refundedAt,
           refundedAmount: entity.refundedAmount,
           refundReason: entity.refundReason,
+          refunds: this.refundsToDocument(entity),
+          settlement: this.settlementToDocument(entity),
+          customerAction: entity.customerAction,
           invoiceNumber: entity.invoiceNumber,
           receiptNumber: entity.receiptNumber,
           metadata: entity.metadata,
@@ -131,7 +178,10 @@ export class PaymentRepository {
         },
       };
 
-      await collection.updateOne({ _id: new ObjectId(entity.id) }, updateDoc);
+      const update = pendingEvents.length > 0 ? { ...updateDoc, $push: { pendingEvents: { $each: pendingEvents } } } : updateDoc;
+
+      await collection.updateOne({ _id: new ObjectId(entity.id) }, update as any);
+      await this.relayPendingEvents(entity.id, pendingEvents.length);
       return entity;
     }
   }
@@ -201,6 +251,20 @@ export class PaymentRepository {
     return docs.map((doc) => this.documentToEntity(doc));
   }
 
+  /**
+   * 查找客戶驗證已逾期仍未完成的支付記錄（依期限先後）
+   */
+  public async findExpiredActions(asOf: Date, limit: number = 100): Promise<PaymentEntity[]> {
+    const collection = this.mongoClient.getCollection(modelNames.PAYMENTS);
+    const docs = (await collection
+      .find({ status: PaymentStatus.REQUIRES_ACTION, 'customerAction.expiresAt': { $lte: asOf } })
+      .sort({ 'customerAction.expiresAt': 1 })
+      .limit(limit)
+      .toArray()) as IPaymentDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
   /**
    * 查找失敗的支付記錄（可重試）
    */
@@ -234,6 +298,53 @@ export class PaymentRepository {
     return this.documentToEntity(doc);
   }
 
+  /**
+   * 以閘道交易編號查找支付記錄（扣款成功的 providerChargeId、外部交易編號或路由嘗試紀錄）
+   */
+  public async findByGatewayTransactionId(transactionId: string): Promise<CustomDefinition.TNullable<PaymentEntity>> {
+    if (!CustomValidator.nonEmptyString(transactionId)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.PAYMENTS);
+    const doc = (await collection.findOne(this.gatewayTransactionFilter(transactionId))) as IPaymentDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 以閘道交易編號查找所有支付記錄（依建立時間排序）
+   * 定期定額各期共用 providerPaymentId，撥款比對時需從多筆中挑選
+   */
+  public async findAllByGatewayTransactionId(transactionId: string, limit: number = 20): Promise<PaymentEntity[]> {
+    if (!CustomValidator.nonEmptyString(transactionId)) {
+      return [];
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.PAYMENTS);
+    const docs = (await collection.find(this.gatewayTransactionFilter(transactionId)).sort({ createdAt: 1 }).limit(limit).toArray()) as IPaymentDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 查找期間內最後更新且狀態符合的支付記錄，依 ID 游標分批
+   */
+  public async findByStatusesUpdatedBetween(statuses: PaymentStatus[], startDate: Date, endDate: Date, limit: number = 100, cursor?: string): Promise<PaymentEntity[]> {
+    const filter: Record<string, any> = {
+      status: { $in: statuses },
+      updatedAt: { $gte: startDate, $lte: endDate },
+    };
+    if (cursor) {
+      filter._id = { $gt: new ObjectId(cursor) };
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.PAYMENTS);
+    const docs = (await collection.find(filter).sort({ _id: 1 }).limit(limit).toArray()) as IPaymentDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
   /**
    * 查找特定期間的支付記錄
    */
@@ -309,6 +420,58 @@ export class PaymentRepository {
     return stats || { totalAmount: 0, successCount: 0, failureCount: 0, refundedAmount: 0 };
   }
 
+  /**
+   * 將剛寫入的領域事件搬移至外送集合
+   */
+  private async relayPendingEvents(id: string, count: number): Promise<void> {
+    if (count === 0) {
+      return;
+    }
+    // 事件已隨聚合落地，搬移失敗時由派送器補搬
+    await this.outboxRepository.relay(OutboxAggregateType.PAYMENT, id).catch(() => undefined);
+  }
+
+  private gatewayTransactionFilter(transactionId: string): Record<string, any> {
+    return {
+      $or: [
+        { providerChargeId: transactionId },
+        { providerPaymentId: transactionId },
+        { externalTransactionId: transactionId },
+        { 'metadata.routing.attempts.transactionId': transactionId },
+      ],
+    };
+  }
+
+  /**
+   * 撥款明細的關聯 ID 以 ObjectId 儲存
+   */
+  private settlementToDocument(entity: PaymentEntity): IPaymentDocument['settlement'] {
+    if (!entity.settlement) {
+      return undefined;
+    }
+    return {
+      ...entity.settlement,
+      settlementRecordId: new ObjectId(entity.settlement.settlementRecordId),
+      settlementBatchId: new ObjectId(entity.settlement.settlementBatchId),
+    };
+  }
+
+  /**
+   * 退款明細的金額拆為數值與幣別儲存
+   */
+  private refundsToDocument(entity: PaymentEntity): IPaymentDocument['refunds'] {
+    return entity.refunds?.map((refund) => ({
+      refundId: refund.refundId,
+      amount: refund.refundAmount.amount,
+      currency: refund.refundAmount.currency,
+      refundedAt: refund.refundedAt,
+      reason: refund.reason,
+      status: refund.status,
+      providerRefundId: refund.providerRefundId,
+      metadata: refund.metadata,
+    }));
+  }
+
   /**
    * 將文檔轉換為實體
    */
@@ -334,6 +497,23 @@ export class PaymentRepository {
       refundedAt: doc.refundedAt,
       refundedAmount: doc.refundedAmount,
       refundReason: doc.refundReason,
+      refunds: doc.refunds?.map((refund) => ({
+        refundId: refund.refundId,
+        refundAmount: new Money(refund.amount, refund.currency),
+        refundedAt: refund.refundedAt,
+        reason: refund.reason,
+        status: refund.status,
+        providerRefundId: refund.providerRefundId,
+        metadata: refund.metadata,
+      })),
+      settlement: doc.settlement
+        ? {
+            ...doc.settlement,
+            settlementRecordId: doc.settlement.settlementRecordId.toHexString(),
+            settlementBatchId: doc.settlement.settlementBatchId.toHexString(),
+          }
+        : undefined,
+      customerAction: doc.customerAction,
       invoiceNumber: doc.invoiceNumber,
       receiptNumber: doc.receiptNumber,
       metadata: doc.metadata,
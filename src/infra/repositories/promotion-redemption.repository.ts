@@ -0,0 +1,147 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { PromotionRedemptionEntity } from '../../domain/entities/promotion-redemption.entity';
+import { modelNames, IPromotionRedemptionDocument } from '../models/models.definition';
+
+/** MongoDB duplicate key 錯誤碼 */
+const DUPLICATE_KEY_ERROR = 11000;
+
+@Injectable()
+export class PromotionRedemptionRepository implements OnModuleInit {
+  private readonly logger = new Logger(PromotionRedemptionRepository.name);
+
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 建立索引
+   * (promotionId, customerId, usageSlot) 唯一，確保同一客戶的同一序號只能被一筆兌換佔用
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.PROMOTION_REDEMPTIONS);
+      await collection.createIndexes([
+        { key: { promotionId: 1, customerId: 1, usageSlot: 1 }, unique: true, partialFilterExpression: { usageSlot: { $exists: true } } },
+        { key: { customerId: 1, redeemedAt: -1 } },
+        { key: { subscriptionId: 1 } },
+      ]);
+    } catch (error) {
+      this.logger.error(`Failed to ensure promotion redemption indexes: ${error.message}`);
+    }
+  }
+
+  /**
+   * 寫入兌換紀錄
+   * 使用序號已被佔用時不寫入並回傳 undefined
+   */
+  public async insert(entity: PromotionRedemptionEntity): Promise<CustomDefinition.TNullable<PromotionRedemptionEntity>> {
+    const collection = this.mongoClient.getCollection(modelNames.PROMOTION_REDEMPTIONS);
+    const doc: Omit<IPromotionRedemptionDocument, '_id'> = {
+      promotionId: new ObjectId(entity.promotionId),
+      promotionCode: entity.promotionCode,
+      couponCode: entity.couponCode,
+      customerId: entity.customerId,
+      subscriptionId: entity.subscriptionId,
+      amount: entity.amount,
+      currency: entity.currency,
+      cycleNumber: entity.cycleNumber,
+      redeemedAt: entity.redeemedAt,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+    };
+    if (entity.usageSlot !== undefined) {
+      doc.usageSlot = entity.usageSlot;
+    }
+
+    try {
+      const result = await collection.insertOne(doc as any);
+      entity.id = result.insertedId.toHexString();
+      return entity;
+    } catch (error) {
+      if (error?.code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * 根據 ID 查找兌換紀錄
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<PromotionRedemptionEntity>> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.PROMOTION_REDEMPTIONS);
+    const doc = (await collection.findOne({ _id: new ObjectId(id) })) as IPromotionRedemptionDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 計算客戶已使用某優惠的次數
+   */
+  public async countByCustomer(promotionId: string, customerId: string): Promise<number> {
+    if (!CustomValidator.nonEmptyString(promotionId) || !ObjectId.isValid(promotionId) || !CustomValidator.nonEmptyString(customerId)) {
+      return 0;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.PROMOTION_REDEMPTIONS);
+    return collection.countDocuments({ promotionId: new ObjectId(promotionId), customerId });
+  }
+
+  /**
+   * 查找優惠的兌換紀錄（新到舊，可依客戶篩選）
+   */
+  public async findByPromotionId(promotionId: string, customerId?: string): Promise<PromotionRedemptionEntity[]> {
+    if (!CustomValidator.nonEmptyString(promotionId) || !ObjectId.isValid(promotionId)) {
+      return [];
+    }
+
+    const filter: Record<string, any> = { promotionId: new ObjectId(promotionId) };
+    if (customerId) {
+      filter.customerId = customerId;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.PROMOTION_REDEMPTIONS);
+    const docs = (await collection.find(filter).sort({ redeemedAt: -1 }).toArray()) as IPromotionRedemptionDocument[];
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 刪除兌換紀錄（結帳失敗時釋放），回傳是否有刪除
+   */
+  public async delete(id: string): Promise<boolean> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return false;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.PROMOTION_REDEMPTIONS);
+    const result = await collection.deleteOne({ _id: new ObjectId(id) });
+    return result.deletedCount === 1;
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: IPromotionRedemptionDocument): PromotionRedemptionEntity {
+    return plainToInstance(PromotionRedemptionEntity, {
+      id: doc._id.toHexString(),
+      promotionId: doc.promotionId?.toHexString(),
+      promotionCode: doc.promotionCode,
+      couponCode: doc.couponCode,
+      customerId: doc.customerId,
+      subscriptionId: doc.subscriptionId,
+      amount: doc.amount,
+      currency: doc.currency,
+      cycleNumber: doc.cycleNumber,
+      usageSlot: doc.usageSlot,
+      redeemedAt: doc.redeemedAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,202 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { PromotionEntity } from '../../domain/entities/promotion.entity';
+import { PromotionStatus } from '../../domain/enums/codes.const';
+import { modelNames, IPromotionDocument } from '../models/models.definition';
+
+/** MongoDB duplicate key 錯誤碼 */
+const DUPLICATE_KEY_ERROR = 11000;
+
+@Injectable()
+export class PromotionRepository implements OnModuleInit {
+  private readonly logger = new Logger(PromotionRepository.name);
+
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 建立優惠碼唯一索引
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.PROMOTIONS);
+      await collection.createIndexes([{ key: { code: 1 }, unique: true }, { key: { status: 1, validUntil: 1 } }]);
+    } catch (error) {
+      this.logger.error(`Failed to ensure promotion indexes: ${error.message}`);
+    }
+  }
+
+  /**
+   * 儲存優惠
+   * 更新時不覆寫 currentUsage 與 performance，兩者只經由原子累加異動
+   * 新增時優惠碼已存在則回傳 undefined
+   */
+  public async save(entity: PromotionEntity): Promise<CustomDefinition.TNullable<PromotionEntity>> {
+    if (!entity) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.PROMOTIONS);
+    const doc: Omit<IPromotionDocument, '_id' | 'currentUsage' | 'performance'> = {
+      code: entity.code,
+      name: entity.name,
+      description: entity.description,
+      type: entity.type,
+      discount: entity.discount,
+      status: entity.status,
+      validFrom: entity.validFrom,
+      validUntil: entity.validUntil,
+      usageLimit: entity.usageLimit,
+      conditions: entity.conditions,
+      metadata: entity.metadata,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+    };
+
+    if (entity.isNew()) {
+      try {
+        const result = await collection.insertOne({ ...doc, currentUsage: entity.currentUsage, performance: entity.performance || {} } as any);
+        entity.id = result.insertedId.toHexString();
+        return entity;
+      } catch (error) {
+        if (error?.code !== DUPLICATE_KEY_ERROR) {
+          throw error;
+        }
+        return undefined;
+      }
+    }
+
+    await collection.updateOne({ _id: new ObjectId(entity.id) }, { $set: doc });
+    return entity;
+  }
+
+  /**
+   * 根據 ID 查找優惠
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<PromotionEntity>> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.PROMOTIONS);
+    const doc = (await collection.findOne({ _id: new ObjectId(id) })) as IPromotionDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 根據優惠碼查找優惠
+   */
+  public async findByCode(code: string): Promise<CustomDefinition.TNullable<PromotionEntity>> {
+    if (!CustomValidator.nonEmptyString(code)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.PROMOTIONS);
+    const doc = (await collection.findOne({ code })) as IPromotionDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 查找優惠（可依狀態篩選）
+   */
+  public async findAll(statuses?: PromotionStatus[]): Promise<PromotionEntity[]> {
+    const collection = this.mongoClient.getCollection(modelNames.PROMOTIONS);
+    const filter = statuses?.length ? { status: { $in: statuses } } : {};
+    const docs = (await collection.find(filter).sort({ createdAt: -1 }).toArray()) as IPromotionDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 原子佔用一次使用額度
+   * 僅在優惠為 ACTIVE 且未達總使用上限時累加，回傳是否成功
+   */
+  public async tryIncrementUsage(id: string): Promise<boolean> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return false;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.PROMOTIONS);
+    const result = await collection.updateOne(
+      {
+        _id: new ObjectId(id),
+        status: PromotionStatus.ACTIVE,
+        $or: [{ usageLimit: null }, { $expr: { $lt: ['$currentUsage', '$usageLimit'] } }],
+      },
+      { $inc: { currentUsage: 1 }, $set: { updatedAt: new Date() } },
+    );
+
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * 釋放一次使用額度
+   */
+  public async decrementUsage(id: string): Promise<void> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.PROMOTIONS);
+    await collection.updateOne({ _id: new ObjectId(id), currentUsage: { $gt: 0 } }, { $inc: { currentUsage: -1 }, $set: { updatedAt: new Date() } });
+  }
+
+  /**
+   * 回傳已被優惠使用的代碼
+   */
+  public async findExistingCodes(codes: string[]): Promise<string[]> {
+    if (!codes.length) {
+      return [];
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.PROMOTIONS);
+    const docs = await collection
+      .find({ code: { $in: codes } })
+      .project({ code: 1 })
+      .toArray();
+    return docs.map((doc) => doc.code);
+  }
+
+  /**
+   * 將兌換計入優惠成效（兌換次數與折扣總額），釋放兌換時以負值回沖
+   */
+  public async recordRedemption(id: string, discountAmount: number, count: 1 | -1 = 1): Promise<void> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.PROMOTIONS);
+    await collection.updateOne(
+      { _id: new ObjectId(id) },
+      { $inc: { 'performance.redemptionCount': count, 'performance.totalRevenueLoss': count * discountAmount }, $set: { updatedAt: new Date() } },
+    );
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: IPromotionDocument): PromotionEntity {
+    return plainToInstance(PromotionEntity, {
+      id: doc._id.toHexString(),
+      code: doc.code,
+      name: doc.name,
+      description: doc.description,
+      type: doc.type,
+      discount: doc.discount,
+      status: doc.status,
+      validFrom: doc.validFrom,
+      validUntil: doc.validUntil,
+      usageLimit: doc.usageLimit ?? undefined,
+      currentUsage: doc.currentUsage || 0,
+      conditions: doc.conditions,
+      metadata: doc.metadata,
+      performance: doc.performance,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,173 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { ReconciliationDiscrepancyEntity } from '../../domain/entities/reconciliation-discrepancy.entity';
+import { ReconciliationDiscrepancyStatus, ReconciliationDiscrepancyType } from '../../domain/enums/codes.const';
+import { modelNames, IReconciliationDiscrepancyDocument } from '../models/models.definition';
+
+export interface ReconciliationDiscrepancyQuery {
+  status?: ReconciliationDiscrepancyStatus;
+  type?: ReconciliationDiscrepancyType;
+  gateway?: string;
+  page?: number;
+  limit?: number;
+}
+
+@Injectable()
+export class ReconciliationDiscrepancyRepository implements OnModuleInit {
+  private readonly logger = new Logger(ReconciliationDiscrepancyRepository.name);
+
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 建立索引
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.RECONCILIATION_DISCREPANCIES);
+      await collection.createIndexes([{ key: { key: 1, status: 1 } }, { key: { status: 1, type: 1, lastDetectedAt: -1 } }, { key: { paymentId: 1 } }]);
+    } catch (error) {
+      this.logger.error(`Failed to ensure reconciliation discrepancy indexes: ${error.message}`);
+    }
+  }
+
+  /**
+   * 儲存對帳差異
+   */
+  public async save(entity: ReconciliationDiscrepancyEntity): Promise<CustomDefinition.TNullable<ReconciliationDiscrepancyEntity>> {
+    if (!entity) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.RECONCILIATION_DISCREPANCIES);
+    const doc = this.entityToDocument(entity);
+
+    if (entity.isNew()) {
+      const result = await collection.insertOne(doc as any);
+      entity.id = result.insertedId.toHexString();
+    } else {
+      delete doc.createdAt;
+      await collection.updateOne({ _id: new ObjectId(entity.id) }, { $set: doc });
+    }
+    return entity;
+  }
+
+  /**
+   * 根據 ID 查找差異
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<ReconciliationDiscrepancyEntity>> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.RECONCILIATION_DISCREPANCIES);
+    const doc = (await collection.findOne({ _id: new ObjectId(id) })) as IReconciliationDiscrepancyDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 以去重鍵查找待處理的差異
+   */
+  public async findOpenByKey(key: string): Promise<CustomDefinition.TNullable<ReconciliationDiscrepancyEntity>> {
+    if (!CustomValidator.nonEmptyString(key)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.RECONCILIATION_DISCREPANCIES);
+    const doc = (await collection.findOne({ key, status: ReconciliationDiscrepancyStatus.OPEN })) as IReconciliationDiscrepancyDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 依狀態、類型與閘道查詢差異（最近偵測的在前）
+   */
+  public async findByQuery(query: ReconciliationDiscrepancyQuery = {}): Promise<{ discrepancies: ReconciliationDiscrepancyEntity[]; total: number }> {
+    const filter: Record<string, any> = {};
+    if (query.status) {
+      filter.status = query.status;
+    }
+    if (query.type) {
+      filter.type = query.type;
+    }
+    if (query.gateway) {
+      filter.gateway = query.gateway;
+    }
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const collection = this.mongoClient.getCollection(modelNames.RECONCILIATION_DISCREPANCIES);
+    const [docs, total] = await Promise.all([
+      collection
+        .find(filter)
+        .sort({ lastDetectedAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .toArray() as Promise<IReconciliationDiscrepancyDocument[]>,
+      collection.countDocuments(filter),
+    ]);
+
+    return { discrepancies: docs.map((doc) => this.documentToEntity(doc)), total };
+  }
+
+  private entityToDocument(entity: ReconciliationDiscrepancyEntity): Omit<IReconciliationDiscrepancyDocument, '_id'> {
+    return {
+      key: entity.key,
+      type: entity.type,
+      status: entity.status,
+      runId: entity.runId ? new ObjectId(entity.runId) : undefined,
+      gateway: entity.gateway,
+      gatewayTransactionId: entity.gatewayTransactionId,
+      paymentId: entity.paymentId ? new ObjectId(entity.paymentId) : undefined,
+      subscriptionId: entity.subscriptionId ? new ObjectId(entity.subscriptionId) : undefined,
+      customerId: entity.customerId ? new ObjectId(entity.customerId) : undefined,
+      localStatus: entity.localStatus,
+      gatewayStatus: entity.gatewayStatus,
+      localAmount: entity.localAmount,
+      gatewayAmount: entity.gatewayAmount,
+      currency: entity.currency,
+      detectedAt: entity.detectedAt,
+      lastDetectedAt: entity.lastDetectedAt,
+      detectionCount: entity.detectionCount,
+      resolution: entity.resolution,
+      resolvedBy: entity.resolvedBy,
+      resolvedAt: entity.resolvedAt,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+    };
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: IReconciliationDiscrepancyDocument): ReconciliationDiscrepancyEntity {
+    return plainToInstance(ReconciliationDiscrepancyEntity, {
+      id: doc._id.toHexString(),
+      key: doc.key,
+      type: doc.type,
+      status: doc.status,
+      runId: doc.runId?.toHexString(),
+      gateway: doc.gateway,
+      gatewayTransactionId: doc.gatewayTransactionId,
+      paymentId: doc.paymentId?.toHexString(),
+      subscriptionId: doc.subscriptionId?.toHexString(),
+      customerId: doc.customerId?.toHexString(),
+      localStatus: doc.localStatus,
+      gatewayStatus: doc.gatewayStatus,
+      localAmount: doc.localAmount,
+      gatewayAmount: doc.gatewayAmount,
+      currency: doc.currency,
+      detectedAt: doc.detectedAt,
+      lastDetectedAt: doc.lastDetectedAt,
+      detectionCount: doc.detectionCount,
+      resolution: doc.resolution,
+      resolvedBy: doc.resolvedBy,
+      resolvedAt: doc.resolvedAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,96 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { ReconciliationRunEntity } from '../../domain/entities/reconciliation-run.entity';
+import { modelNames, IReconciliationRunDocument } from '../models/models.definition';
+
+@Injectable()
+export class ReconciliationRunRepository {
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 儲存對帳作業摘要
+   */
+  public async save(entity: ReconciliationRunEntity): Promise<CustomDefinition.TNullable<ReconciliationRunEntity>> {
+    if (!entity) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.RECONCILIATION_RUNS);
+    const fields = {
+      asOf: entity.asOf,
+      windowStart: entity.windowStart,
+      windowEnd: entity.windowEnd,
+      trigger: entity.trigger,
+      status: entity.status,
+      owner: entity.owner,
+      startedAt: entity.startedAt,
+      completedAt: entity.completedAt,
+      durationMs: entity.getDuration(),
+      counters: entity.counters,
+      discrepancies: entity.discrepancies,
+      errors: entity.errors,
+      failureReason: entity.failureReason,
+      updatedAt: entity.updatedAt,
+    };
+
+    if (entity.isNew()) {
+      const doc: Omit<IReconciliationRunDocument, '_id'> = { ...fields, createdAt: entity.createdAt };
+      const result = await collection.insertOne(doc as any);
+      entity.id = result.insertedId.toHexString();
+      return entity;
+    }
+
+    await collection.updateOne({ _id: new ObjectId(entity.id) }, { $set: fields });
+    return entity;
+  }
+
+  /**
+   * 根據 ID 查找作業摘要
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<ReconciliationRunEntity>> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.RECONCILIATION_RUNS);
+    const doc = (await collection.findOne({ _id: new ObjectId(id) })) as IReconciliationRunDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 查找最近的作業摘要
+   */
+  public async findRecent(limit: number = 20): Promise<ReconciliationRunEntity[]> {
+    const collection = this.mongoClient.getCollection(modelNames.RECONCILIATION_RUNS);
+    const docs = (await collection.find({}).sort({ startedAt: -1 }).limit(limit).toArray()) as IReconciliationRunDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: IReconciliationRunDocument): ReconciliationRunEntity {
+    return plainToInstance(ReconciliationRunEntity, {
+      id: doc._id.toHexString(),
+      asOf: doc.asOf,
+      windowStart: doc.windowStart,
+      windowEnd: doc.windowEnd,
+      trigger: doc.trigger,
+      status: doc.status,
+      owner: doc.owner,
+      startedAt: doc.startedAt,
+      completedAt: doc.completedAt,
+      counters: doc.counters,
+      discrepancies: doc.discrepancies || {},
+      errors: doc.errors || [],
+      failureReason: doc.failureReason,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,220 @@
+import { Inject, Injectable, Logger, OnModuleInit, Optional } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { RefundEntity } from '../../domain/entities/refund.entity';
+import { RefundMethod, RefundStatus } from '../../domain/enums/codes.const';
+import { OutboxRepository, OutboxAggregateType } from './outbox.repository';
+import { IPendingDomainEventModel } from '../models/domain-event-outbox.model';
+import { modelNames, IRefundDocument } from '../models/models.definition';
+
+/**
+ * 退款查詢條件
+ */
+export interface RefundQuery {
+  status?: RefundStatus;
+  requestedFrom?: Date;
+  requestedTo?: Date;
+}
+
+@Injectable()
+export class RefundRepository implements OnModuleInit {
+  private readonly logger = new Logger(RefundRepository.name);
+
+  constructor(
+    @Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient,
+    @Optional() private readonly outboxRepository?: OutboxRepository,
+  ) {}
+
+  /**
+   * 建立查詢所需的索引
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.REFUNDS);
+      await collection.createIndexes([{ key: { paymentId: 1 } }, { key: { subscriptionId: 1, requestedAt: -1 } }, { key: { customerId: 1, requestedAt: -1 } }]);
+    } catch (error) {
+      this.logger.error(`Failed to ensure refund indexes: ${error.message}`);
+    }
+  }
+
+  /**
+   * 儲存退款
+   */
+  public async save(entity: RefundEntity): Promise<CustomDefinition.TNullable<RefundEntity>> {
+    if (!entity) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.REFUNDS);
+    const doc = this.entityToDocument(entity);
+    // 領域事件隨聚合同一次寫入，確保狀態與事件一致
+    const pendingEvents = this.outboxRepository ? this.outboxRepository.stage(entity.pullDomainEvents()) : [];
+
+    if (entity.isNew()) {
+      const result = await collection.insertOne({ ...doc, pendingEvents } as any);
+      entity.id = result.insertedId.toHexString();
+      await this.relayPendingEvents(entity.id, pendingEvents.length);
+      return entity;
+    }
+
+    await collection.updateOne({ _id: new ObjectId(entity.id) }, this.withPendingEvents({ $set: doc }, pendingEvents));
+    await this.relayPendingEvents(entity.id, pendingEvents.length);
+    return entity;
+  }
+
+  /**
+   * 僅在退款仍為指定狀態時儲存目前狀態與領域事件
+   * 狀態已被其他流程變更時回傳 false（事件一併捨棄），可作為送出閘道前的領取
+   */
+  public async transition(entity: RefundEntity, fromStatus: RefundStatus): Promise<boolean> {
+    if (!CustomValidator.nonEmptyString(entity?.id) || !ObjectId.isValid(entity.id)) {
+      return false;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.REFUNDS);
+    const pendingEvents = this.outboxRepository ? this.outboxRepository.stage(entity.pullDomainEvents()) : [];
+    const result = await collection.updateOne({ _id: new ObjectId(entity.id), status: fromStatus }, this.withPendingEvents({ $set: this.entityToDocument(entity) }, pendingEvents));
+    if (result.matchedCount !== 1) {
+      return false;
+    }
+
+    await this.relayPendingEvents(entity.id, pendingEvents.length);
+    return true;
+  }
+
+  /**
+   * 根據 ID 查找退款
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<RefundEntity>> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.REFUNDS);
+    const doc = (await collection.findOne({ _id: new ObjectId(id) })) as IRefundDocument;
+
+    if (!doc) {
+      return undefined;
+    }
+
+    return this.documentToEntity(doc);
+  }
+
+  /**
+   * 查找付款的所有退款
+   */
+  public async findByPaymentId(paymentId: string): Promise<RefundEntity[]> {
+    return this.findBy('paymentId', paymentId);
+  }
+
+  /**
+   * 查找訂閱的退款（新到舊）
+   */
+  public async findBySubscriptionId(subscriptionId: string, query: RefundQuery = {}): Promise<RefundEntity[]> {
+    return this.findBy('subscriptionId', subscriptionId, query);
+  }
+
+  /**
+   * 查找客戶的退款（新到舊）
+   */
+  public async findByCustomerId(customerId: string, query: RefundQuery = {}): Promise<RefundEntity[]> {
+    return this.findBy('customerId', customerId, query);
+  }
+
+  private async findBy(field: 'paymentId' | 'subscriptionId' | 'customerId', id: string, query: RefundQuery = {}): Promise<RefundEntity[]> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return [];
+    }
+
+    const filter: Record<string, any> = { [field]: new ObjectId(id) };
+    if (query.status) {
+      filter.status = query.status;
+    }
+    if (query.requestedFrom || query.requestedTo) {
+      filter.requestedAt = {
+        ...(query.requestedFrom && { $gte: query.requestedFrom }),
+        ...(query.requestedTo && { $lte: query.requestedTo }),
+      };
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.REFUNDS);
+    const docs = (await collection.find(filter).sort({ requestedAt: -1 }).toArray()) as IRefundDocument[];
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  private withPendingEvents(update: Record<string, any>, pendingEvents: IPendingDomainEventModel[]): Record<string, any> {
+    return pendingEvents.length > 0 ? { ...update, $push: { pendingEvents: { $each: pendingEvents } } } : update;
+  }
+
+  /**
+   * 將剛寫入的領域事件搬移至外送集合
+   */
+  private async relayPendingEvents(id: string, count: number): Promise<void> {
+    if (count === 0) {
+      return;
+    }
+    // 事件已隨聚合落地，搬移失敗時由派送器補搬
+    await this.outboxRepository.relay(OutboxAggregateType.REFUND, id).catch(() => undefined);
+  }
+
+  /**
+   * 將實體轉換為文檔
+   */
+  private entityToDocument(entity: RefundEntity): Omit<IRefundDocument, '_id'> {
+    return {
+      paymentId: new ObjectId(entity.paymentId),
+      subscriptionId: new ObjectId(entity.subscriptionId),
+      customerId: new ObjectId(entity.customerId),
+      amount: entity.amount,
+      currency: entity.currency,
+      refundType: entity.refundType,
+      refundMethod: entity.refundMethod,
+      reason: entity.reason,
+      status: entity.status,
+      gateway: entity.gateway,
+      providerRefundId: entity.providerRefundId,
+      requestedAt: entity.requestedAt,
+      processedAt: entity.processedAt,
+      completedAt: entity.completedAt,
+      failedAt: entity.failedAt,
+      failureReason: entity.failureReason,
+      adminNotes: entity.adminNotes,
+      statusHistory: entity.statusHistory,
+      metadata: entity.metadata,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+    };
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: IRefundDocument): RefundEntity {
+    return plainToInstance(RefundEntity, {
+      id: doc._id.toHexString(),
+      paymentId: doc.paymentId?.toHexString(),
+      subscriptionId: doc.subscriptionId?.toHexString(),
+      customerId: doc.customerId?.toHexString(),
+      amount: doc.amount,
+      currency: doc.currency,
+      refundType: doc.refundType,
+      refundMethod: doc.refundMethod || RefundMethod.ORIGINAL_PAYMENT,
+      reason: doc.reason,
+      status: doc.status,
+      gateway: doc.gateway,
+      providerRefundId: doc.providerRefundId,
+      requestedAt: doc.requestedAt,
+      processedAt: doc.processedAt,
+      completedAt: doc.completedAt,
+      failedAt: doc.failedAt,
+      failureReason: doc.failureReason,
+      adminNotes: doc.adminNotes,
+      statusHistory: doc.statusHistory || [],
+      metadata: doc.metadata || {},
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
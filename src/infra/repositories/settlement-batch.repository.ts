@@ -0,0 +1,135 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { SettlementBatchEntity } from '../../domain/entities/settlement-batch.entity';
+import { modelNames, ISettlementBatchDocument } from '../models/models.definition';
+
+/** MongoDB duplicate key 錯誤碼 */
+const DUPLICATE_KEY_ERROR = 11000;
+
+@Injectable()
+export class SettlementBatchRepository implements OnModuleInit {
+  private readonly logger = new Logger(SettlementBatchRepository.name);
+
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 建立索引
+   * (gateway, checksum) 唯一，同一份撥款檔同時上傳也只會匯入一次
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.SETTLEMENT_BATCHES);
+      await collection.createIndexes([{ key: { gateway: 1, checksum: 1 }, unique: true }, { key: { createdAt: -1 } }]);
+    } catch (error) {
+      this.logger.error(`Failed to ensure settlement batch indexes: ${error.message}`);
+    }
+  }
+
+  /**
+   * 寫入匯入批次
+   * 相同檔案已匯入時不寫入並回傳 undefined
+   */
+  public async insert(entity: SettlementBatchEntity): Promise<CustomDefinition.TNullable<SettlementBatchEntity>> {
+    const collection = this.mongoClient.getCollection(modelNames.SETTLEMENT_BATCHES);
+    const doc: Omit<ISettlementBatchDocument, '_id'> = { ...this.toFields(entity), createdAt: entity.createdAt };
+
+    try {
+      const result = await collection.insertOne(doc as any);
+      entity.id = result.insertedId.toHexString();
+      return entity;
+    } catch (error) {
+      if (error?.code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * 更新匯入批次的統計
+   */
+  public async save(entity: SettlementBatchEntity): Promise<CustomDefinition.TNullable<SettlementBatchEntity>> {
+    if (!entity) {
+      return undefined;
+    }
+    if (entity.isNew()) {
+      return await this.insert(entity);
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.SETTLEMENT_BATCHES);
+    await collection.updateOne({ _id: new ObjectId(entity.id) }, { $set: this.toFields(entity) });
+    return entity;
+  }
+
+  /**
+   * 根據 ID 查找匯入批次
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<SettlementBatchEntity>> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.SETTLEMENT_BATCHES);
+    const doc = (await collection.findOne({ _id: new ObjectId(id) })) as ISettlementBatchDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 以檔案內容雜湊查找已匯入的批次
+   */
+  public async findByChecksum(gateway: string, checksum: string): Promise<CustomDefinition.TNullable<SettlementBatchEntity>> {
+    const collection = this.mongoClient.getCollection(modelNames.SETTLEMENT_BATCHES);
+    const doc = (await collection.findOne({ gateway, checksum })) as ISettlementBatchDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 查找最近的匯入批次，可指定閘道
+   */
+  public async findRecent(gateway?: string, limit: number = 20): Promise<SettlementBatchEntity[]> {
+    const collection = this.mongoClient.getCollection(modelNames.SETTLEMENT_BATCHES);
+    const docs = (await collection
+      .find(gateway ? { gateway } : {})
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .toArray()) as ISettlementBatchDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  private toFields(entity: SettlementBatchEntity): Omit<ISettlementBatchDocument, '_id' | 'createdAt'> {
+    return {
+      gateway: entity.gateway,
+      fileName: entity.fileName,
+      checksum: entity.checksum,
+      importedBy: entity.importedBy,
+      counters: entity.counters,
+      payouts: entity.payouts,
+      errors: entity.errors,
+      updatedAt: entity.updatedAt,
+    };
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: ISettlementBatchDocument): SettlementBatchEntity {
+    return plainToInstance(SettlementBatchEntity, {
+      id: doc._id.toHexString(),
+      gateway: doc.gateway,
+      fileName: doc.fileName,
+      checksum: doc.checksum,
+      importedBy: doc.importedBy,
+      counters: doc.counters,
+      payouts: doc.payouts || [],
+      errors: doc.errors || [],
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
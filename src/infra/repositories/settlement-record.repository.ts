@@ -0,0 +1,208 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomMongoClient } from '@xxxhand/app-common';
+import { SettlementRecordEntity } from '../../domain/entities/settlement-record.entity';
+import { SettlementRecordStatus } from '../../domain/enums/codes.const';
+import { modelNames, ISettlementRecordDocument } from '../models/models.definition';
+
+export interface SettlementRecordQuery {
+  batchId?: string;
+  status?: SettlementRecordStatus;
+  gateway?: string;
+  settlementDate?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * 跨批次彙總的單一撥款日撥款摘要
+ */
+export interface SettlementPayoutTotal {
+  settlementDate: string;
+  gateway: string;
+  currency: string;
+  transactionCount: number;
+  matchedCount: number;
+  grossAmount: number;
+  feeAmount: number;
+  netAmount: number;
+}
+
+@Injectable()
+export class SettlementRecordRepository implements OnModuleInit {
+  private readonly logger = new Logger(SettlementRecordRepository.name);
+
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 建立索引
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.SETTLEMENT_RECORDS);
+      await collection.createIndexes([
+        { key: { batchId: 1, rowNumber: 1 } },
+        { key: { status: 1, settlementDate: -1 } },
+        { key: { settlementDate: 1, gateway: 1 } },
+        { key: { paymentId: 1 } },
+      ]);
+    } catch (error) {
+      this.logger.error(`Failed to ensure settlement record indexes: ${error.message}`);
+    }
+  }
+
+  /**
+   * 儲存撥款明細
+   */
+  public async save(entity: SettlementRecordEntity): Promise<CustomDefinition.TNullable<SettlementRecordEntity>> {
+    if (!entity) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.SETTLEMENT_RECORDS);
+    const doc = this.entityToDocument(entity);
+
+    if (entity.isNew()) {
+      const result = await collection.insertOne(doc as any);
+      entity.id = result.insertedId.toHexString();
+    } else {
+      delete doc.createdAt;
+      await collection.updateOne({ _id: new ObjectId(entity.id) }, { $set: doc });
+    }
+    return entity;
+  }
+
+  /**
+   * 依批次、比對結果、閘道與撥款日查詢明細（依批次與列號排序）
+   */
+  public async findByQuery(query: SettlementRecordQuery = {}): Promise<{ records: SettlementRecordEntity[]; total: number }> {
+    const filter: Record<string, any> = {};
+    if (query.batchId) {
+      if (!ObjectId.isValid(query.batchId)) {
+        return { records: [], total: 0 };
+      }
+      filter.batchId = new ObjectId(query.batchId);
+    }
+    if (query.status) {
+      filter.status = query.status;
+    }
+    if (query.gateway) {
+      filter.gateway = query.gateway;
+    }
+    if (query.settlementDate) {
+      filter.settlementDate = query.settlementDate;
+    }
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const collection = this.mongoClient.getCollection(modelNames.SETTLEMENT_RECORDS);
+    const [docs, total] = await Promise.all([
+      collection
+        .find(filter)
+        .sort({ batchId: -1, rowNumber: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .toArray() as Promise<ISettlementRecordDocument[]>,
+      collection.countDocuments(filter),
+    ]);
+
+    return { records: docs.map((doc) => this.documentToEntity(doc)), total };
+  }
+
+  /**
+   * 依撥款日、閘道與幣別彙總撥款金額，重複撥款的明細不計入
+   */
+  public async summarizePayouts(from: string, to: string, gateway?: string): Promise<SettlementPayoutTotal[]> {
+    const match: Record<string, any> = { settlementDate: { $gte: from, $lte: to }, status: { $ne: SettlementRecordStatus.DUPLICATE } };
+    if (gateway) {
+      match.gateway = gateway;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.SETTLEMENT_RECORDS);
+    const rows = await collection
+      .aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: { settlementDate: '$settlementDate', gateway: '$gateway', currency: '$currency' },
+            transactionCount: { $sum: 1 },
+            matchedCount: { $sum: { $cond: [{ $eq: ['$status', SettlementRecordStatus.MATCHED] }, 1, 0] } },
+            grossAmount: { $sum: '$grossAmount' },
+            feeAmount: { $sum: '$feeAmount' },
+            netAmount: { $sum: '$netAmount' },
+          },
+        },
+        { $sort: { '_id.settlementDate': 1, '_id.gateway': 1, '_id.currency': 1 } },
+      ])
+      .toArray();
+
+    return rows.map((row) => ({
+      settlementDate: row._id.settlementDate,
+      gateway: row._id.gateway,
+      currency: row._id.currency,
+      transactionCount: row.transactionCount,
+      matchedCount: row.matchedCount,
+      grossAmount: row.grossAmount,
+      feeAmount: row.feeAmount,
+      netAmount: row.netAmount,
+    }));
+  }
+
+  private entityToDocument(entity: SettlementRecordEntity): Omit<ISettlementRecordDocument, '_id'> {
+    return {
+      batchId: new ObjectId(entity.batchId),
+      gateway: entity.gateway,
+      rowNumber: entity.rowNumber,
+      transactionId: entity.transactionId,
+      matchKey: entity.matchKey,
+      gatewayReference: entity.gatewayReference,
+      settlementDate: entity.settlementDate,
+      grossAmount: entity.grossAmount,
+      feeAmount: entity.feeAmount,
+      netAmount: entity.netAmount,
+      currency: entity.currency,
+      status: entity.status,
+      paymentId: entity.paymentId ? new ObjectId(entity.paymentId) : undefined,
+      subscriptionId: entity.subscriptionId ? new ObjectId(entity.subscriptionId) : undefined,
+      customerId: entity.customerId ? new ObjectId(entity.customerId) : undefined,
+      paymentAmount: entity.paymentAmount,
+      paymentStatus: entity.paymentStatus,
+      duplicateOf: entity.duplicateOf ? new ObjectId(entity.duplicateOf) : undefined,
+      raw: entity.raw,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+    };
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: ISettlementRecordDocument): SettlementRecordEntity {
+    return plainToInstance(SettlementRecordEntity, {
+      id: doc._id.toHexString(),
+      batchId: doc.batchId.toHexString(),
+      gateway: doc.gateway,
+      rowNumber: doc.rowNumber,
+      transactionId: doc.transactionId,
+      matchKey: doc.matchKey,
+      gatewayReference: doc.gatewayReference,
+      settlementDate: doc.settlementDate,
+      grossAmount: doc.grossAmount,
+      feeAmount: doc.feeAmount,
+      netAmount: doc.netAmount,
+      currency: doc.currency,
+      status: doc.status,
+      paymentId: doc.paymentId?.toHexString(),
+      subscriptionId: doc.subscriptionId?.toHexString(),
+      customerId: doc.customerId?.toHexString(),
+      paymentAmount: doc.paymentAmount,
+      paymentStatus: doc.paymentStatus,
+      duplicateOf: doc.duplicateOf?.toHexString(),
+      raw: doc.raw || {},
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
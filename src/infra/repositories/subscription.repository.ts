@@ -1,15 +1,35 @@
-import { Inject, Injectable } from '@nestjs/common';
+import { Inject, Injectable, Logger, OnModuleInit, Optional } from '@nestjs/common';
 import { plainToInstance } from 'class-transformer';
 import { ObjectId } from 'mongodb';
 import { DEFAULT_MONGO } from '@myapp/common';
 import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
-import { SubscriptionEntity } from '../../domain/entities/subscription.entity';
+import { SubscriptionEntity, AppliedPromotion } from '../../domain/entities/subscription.entity';
 import { SubscriptionStatus } from '../../domain/enums/codes.const';
+import { Money } from '../../domain/value-objects/money';
+import { OutboxRepository, OutboxAggregateType } from './outbox.repository';
 import { modelNames, ISubscriptionDocument } from '../models/models.definition';
+import { IAppliedPromotionModel } from '../models/subscription.model';
 
 @Injectable()
-export class SubscriptionRepository {
-  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+export class SubscriptionRepository implements OnModuleInit {
+  private readonly logger = new Logger(SubscriptionRepository.name);
+
+  constructor(
+    @Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient,
+    @Optional() private readonly outboxRepository?: OutboxRepository,
+  ) {}
+
+  /**
+   * 建立索引
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.SUBSCRIPTIONS);
+      await collection.createIndex({ 'metadata.periodOrder.merchantTradeNo': 1 }, { sparse: true });
+    } catch (error) {
+      this.logger.error(`Failed to ensure subscription indexes: ${error.message}`);
+    }
+  }
 
   /**
    * 儲存訂閱實體
@@ -20,6 +40,8 @@ export class SubscriptionRepository {
     }
 
     const collection = this.mongoClient.getCollection(modelNames.SUBSCRIPTIONS);
+    // 領域事件隨聚合同一次寫入，確保狀態與事件一致
+    const pendingEvents = this.outboxRepository ? this.outboxRepository.stage(entity.pullDomainEvents()) : [];
 
     if (entity.isNew()) {
       // 新建訂閱
@@ -44,13 +66,16 @@ export class SubscriptionRepository {
         lastFailedBillingDate: entity.lastFailedBillingDate,
         gracePeriodEndDate: entity.gracePeriodEndDate,
         description: entity.description,
+        appliedPromotions: this.toAppliedPromotionModels(entity.appliedPromotions),
         metadata: entity.metadata,
+        pendingEvents,
         createdAt: entity.createdAt,
         updatedAt: entity.updatedAt,
       };
 
       const result = await collection.insertOne(doc as any);
       entity.id = result.insertedId.toHexString();
+      await this.relayPendingEvents(entity.id, pendingEvents.length);
       return entity;
     } else {
       // 更新現有訂閱
@@ -76,12 +101,16 @@ export class SubscriptionRepository {
           lastFailedBillingDate: entity.lastFailedBillingDate,
           gracePeriodEndDate: entity.gracePeriodEndDate,
           description: entity.description,
+          appliedPromotions: this.toAppliedPromotionModels(entity.appliedPromotions),
           metadata: entity.metadata,
           updatedAt: entity.updatedAt,
         },
       };
 
-      await collection.updateOne({ _id: new ObjectId(entity.id) }, updateDoc);
+      const update = pendingEvents.length > 0 ? { ...updateDoc, $push: { pendingEvents: { $each: pendingEvents } } } : updateDoc;
+
+      await collection.updateOne({ _id: new ObjectId(entity.id) }, update as any);
+      await this.relayPendingEvents(entity.id, pendingEvents.length);
       return entity;
     }
   }
@@ -122,19 +151,23 @@ export class SubscriptionRepository {
 
   /**
    * 查找需要計費的訂閱
+   * 依 _id 排序，傳入 afterId 可作為游標取得下一批
    */
-  public async findDueForBilling(startDate: Date, endDate: Date, limit: number = 100): Promise<SubscriptionEntity[]> {
+  public async findDueForBilling(startDate: Date, endDate: Date, limit: number = 100, afterId?: string): Promise<SubscriptionEntity[]> {
     const collection = this.mongoClient.getCollection(modelNames.SUBSCRIPTIONS);
-    const docs = (await collection
-      .find({
-        status: SubscriptionStatus.ACTIVE,
-        nextBillingDate: {
-          $gte: startDate,
-          $lte: endDate,
-        },
-      })
-      .limit(limit)
-      .toArray()) as ISubscriptionDocument[];
+    const filter: any = {
+      status: SubscriptionStatus.ACTIVE,
+      nextBillingDate: {
+        $gte: startDate,
+        $lte: endDate,
+      },
+    };
+
+    if (CustomValidator.nonEmptyString(afterId)) {
+      filter._id = { $gt: new ObjectId(afterId) };
+    }
+
+    const docs = (await collection.find(filter).sort({ _id: 1 }).limit(limit).toArray()) as ISubscriptionDocument[];
 
     return docs.map((doc) => this.documentToEntity(doc));
   }
@@ -222,6 +255,31 @@ export class SubscriptionRepository {
     return docs.map((doc) => this.documentToEntity(doc));
   }
 
+  /**
+   * 根據閘道定期定額訂單編號查找訂閱
+   */
+  public async findByPeriodOrderNo(merchantTradeNo: string): Promise<CustomDefinition.TNullable<SubscriptionEntity>> {
+    if (!CustomValidator.nonEmptyString(merchantTradeNo)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.SUBSCRIPTIONS);
+    const doc = (await collection.findOne({ 'metadata.periodOrder.merchantTradeNo': merchantTradeNo })) as ISubscriptionDocument;
+
+    return doc ? this.documentToEntity(doc) : undefined;
+  }
+
+  /**
+   * 將剛寫入的領域事件搬移至外送集合
+   */
+  private async relayPendingEvents(id: string, count: number): Promise<void> {
+    if (count === 0) {
+      return;
+    }
+    // 事件已隨聚合落地，搬移失敗時由派送器補搬
+    await this.outboxRepository.relay(OutboxAggregateType.SUBSCRIPTION, id).catch(() => undefined);
+  }
+
   /**
    * 將文檔轉換為實體
    */
@@ -248,6 +306,10 @@ export class SubscriptionRepository {
       lastFailedBillingDate: doc.lastFailedBillingDate,
       gracePeriodEndDate: doc.gracePeriodEndDate,
       description: doc.description,
+      appliedPromotions: (doc.appliedPromotions || []).map(({ currency, ...promotion }) => ({
+        ...promotion,
+        discountAmount: new Money(promotion.discountAmount, currency),
+      })),
       metadata: doc.metadata,
       createdAt: doc.createdAt,
       updatedAt: doc.updatedAt,
@@ -255,4 +317,22 @@ export class SubscriptionRepository {
 
     return entity;
   }
+
+  /**
+   * 將套用的優惠轉為儲存格式
+   */
+  private toAppliedPromotionModels(promotions: AppliedPromotion[] = []): IAppliedPromotionModel[] {
+    return promotions.map((promotion) => ({
+      promotionId: promotion.promotionId,
+      appliedAt: promotion.appliedAt,
+      cycleNumber: promotion.cycleNumber,
+      discountAmount: promotion.discountAmount.amount,
+      currency: promotion.discountAmount.currency,
+      status: promotion.status,
+      schedule: promotion.schedule,
+      cyclesApplied: promotion.cyclesApplied,
+      remainingCycles: promotion.remainingCycles,
+      expiredAt: promotion.expiredAt,
+    }));
+  }
 }
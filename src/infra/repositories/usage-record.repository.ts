@@ -0,0 +1,135 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { UsageRecordEntity } from '../../domain/entities/usage-record.entity';
+import { modelNames, IUsageRecordDocument } from '../models/models.definition';
+
+/** MongoDB duplicate key 錯誤碼 */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * 功能在期間內的彙總值
+ */
+export interface UsageAggregate {
+  feature: string;
+  sum: number;
+  max: number;
+  last: number;
+  count: number;
+}
+
+@Injectable()
+export class UsageRecordRepository implements OnModuleInit {
+  private readonly logger = new Logger(UsageRecordRepository.name);
+
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 建立去重與彙總所需的索引
+   */
+  async onModuleInit() {
+    try {
+      const collection = this.mongoClient.getCollection(modelNames.USAGE_RECORDS);
+      await collection.createIndexes([{ key: { subscriptionId: 1, idempotencyKey: 1 }, unique: true }, { key: { subscriptionId: 1, timestamp: 1 } }]);
+    } catch (error) {
+      this.logger.error(`Failed to ensure usage record indexes: ${error.message}`);
+    }
+  }
+
+  /**
+   * 寫入用量紀錄
+   * 冪等鍵已存在時不寫入，回傳既有紀錄與 duplicate = true
+   */
+  public async insert(entity: UsageRecordEntity): Promise<{ record: UsageRecordEntity; duplicate: boolean }> {
+    const collection = this.mongoClient.getCollection(modelNames.USAGE_RECORDS);
+    const doc: Omit<IUsageRecordDocument, '_id'> = {
+      subscriptionId: new ObjectId(entity.subscriptionId),
+      customerId: new ObjectId(entity.customerId),
+      feature: entity.feature,
+      quantity: entity.quantity,
+      timestamp: entity.timestamp,
+      idempotencyKey: entity.idempotencyKey,
+      metadata: entity.metadata,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+    };
+
+    try {
+      const result = await collection.insertOne(doc as any);
+      entity.id = result.insertedId.toHexString();
+      return { record: entity, duplicate: false };
+    } catch (error) {
+      if (error?.code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+      return { record: await this.findByIdempotencyKey(entity.subscriptionId, entity.idempotencyKey), duplicate: true };
+    }
+  }
+
+  /**
+   * 根據冪等鍵查找紀錄
+   */
+  public async findByIdempotencyKey(subscriptionId: string, idempotencyKey: string): Promise<CustomDefinition.TNullable<UsageRecordEntity>> {
+    if (!CustomValidator.nonEmptyString(subscriptionId) || !ObjectId.isValid(subscriptionId) || !CustomValidator.nonEmptyString(idempotencyKey)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.USAGE_RECORDS);
+    const doc = (await collection.findOne({ subscriptionId: new ObjectId(subscriptionId), idempotencyKey })) as IUsageRecordDocument;
+
+    if (!doc) {
+      return undefined;
+    }
+
+    return this.documentToEntity(doc);
+  }
+
+  /**
+   * 彙總訂閱在 [start, end) 期間內各功能的用量
+   * 同時計算加總、最大值與最後一筆（依用量發生時間），由呼叫端依方案選用
+   */
+  public async aggregate(subscriptionId: string, start: Date, end: Date): Promise<UsageAggregate[]> {
+    if (!CustomValidator.nonEmptyString(subscriptionId) || !ObjectId.isValid(subscriptionId)) {
+      return [];
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.USAGE_RECORDS);
+    const docs = await collection
+      .aggregate([
+        { $match: { subscriptionId: new ObjectId(subscriptionId), timestamp: { $gte: start, $lt: end } } },
+        { $sort: { timestamp: 1, _id: 1 } },
+        {
+          $group: {
+            _id: '$feature',
+            sum: { $sum: '$quantity' },
+            max: { $max: '$quantity' },
+            last: { $last: '$quantity' },
+            count: { $sum: 1 },
+          },
+        },
+      ])
+      .toArray();
+
+    return docs.map((doc) => ({ feature: doc._id, sum: doc.sum, max: doc.max, last: doc.last, count: doc.count }));
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: IUsageRecordDocument): UsageRecordEntity {
+    return plainToInstance(UsageRecordEntity, {
+      id: doc._id.toHexString(),
+      subscriptionId: doc.subscriptionId?.toHexString(),
+      customerId: doc.customerId?.toHexString(),
+      feature: doc.feature,
+      quantity: doc.quantity,
+      timestamp: doc.timestamp,
+      idempotencyKey: doc.idempotencyKey,
+      metadata: doc.metadata || {},
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,148 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { WebhookDeliveryEntity } from '../../domain/entities/webhook-delivery.entity';
+import { WebhookDeliveryStatus } from '../../domain/enums/codes.const';
+import { modelNames, IWebhookDeliveryDocument } from '../models/models.definition';
+
+@Injectable()
+export class WebhookDeliveryRepository {
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 儲存投遞紀錄
+   */
+  public async save(entity: WebhookDeliveryEntity): Promise<CustomDefinition.TNullable<WebhookDeliveryEntity>> {
+    if (!entity) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.WEBHOOK_DELIVERIES);
+    const fields = {
+      status: entity.status,
+      nextAttemptAt: entity.nextAttemptAt,
+      attempts: entity.attempts,
+      deliveredAt: entity.deliveredAt,
+      updatedAt: entity.updatedAt,
+    };
+
+    if (entity.isNew()) {
+      const doc: Omit<IWebhookDeliveryDocument, '_id'> = {
+        ...fields,
+        endpointId: new ObjectId(entity.endpointId),
+        merchantId: entity.merchantId,
+        eventId: entity.eventId,
+        eventType: entity.eventType,
+        payload: entity.payload,
+        createdAt: entity.createdAt,
+      };
+      const result = await collection.insertOne(doc as any);
+      entity.id = result.insertedId.toHexString();
+      return entity;
+    }
+
+    await collection.updateOne({ _id: new ObjectId(entity.id) }, { $set: fields });
+    return entity;
+  }
+
+  /**
+   * 根據 ID 查找投遞紀錄
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<WebhookDeliveryEntity>> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.WEBHOOK_DELIVERIES);
+    const doc = (await collection.findOne({ _id: new ObjectId(id) })) as IWebhookDeliveryDocument;
+
+    if (!doc) {
+      return undefined;
+    }
+
+    return this.documentToEntity(doc);
+  }
+
+  /**
+   * 查找事件對端點的投遞紀錄（避免重複建立）
+   */
+  public async findByEndpointAndEvent(endpointId: string, eventId: string): Promise<CustomDefinition.TNullable<WebhookDeliveryEntity>> {
+    const collection = this.mongoClient.getCollection(modelNames.WEBHOOK_DELIVERIES);
+    const doc = (await collection.findOne({ endpointId: new ObjectId(endpointId), eventId })) as IWebhookDeliveryDocument;
+
+    if (!doc) {
+      return undefined;
+    }
+
+    return this.documentToEntity(doc);
+  }
+
+  /**
+   * 領取一筆到期的待投遞紀錄
+   * 領取時將下次投遞時間延後 leaseMs，處理中斷時逾期後可再被領取
+   */
+  public async claimDue(leaseMs: number): Promise<CustomDefinition.TNullable<WebhookDeliveryEntity>> {
+    const collection = this.mongoClient.getCollection(modelNames.WEBHOOK_DELIVERIES);
+    const now = new Date();
+
+    const doc = (await collection.findOneAndUpdate(
+      { status: WebhookDeliveryStatus.PENDING, nextAttemptAt: { $lte: now } },
+      { $set: { nextAttemptAt: new Date(now.getTime() + leaseMs) } },
+      { sort: { nextAttemptAt: 1 }, returnDocument: 'after' },
+    )) as IWebhookDeliveryDocument;
+
+    if (!doc) {
+      return undefined;
+    }
+
+    return this.documentToEntity(doc);
+  }
+
+  /**
+   * 查詢端點的投遞紀錄
+   */
+  public async findByEndpointId(endpointId: string, status?: WebhookDeliveryStatus, limit: number = 20, offset: number = 0): Promise<WebhookDeliveryEntity[]> {
+    const collection = this.mongoClient.getCollection(modelNames.WEBHOOK_DELIVERIES);
+    const docs = (await collection.find(this.buildFilter(endpointId, status)).sort({ createdAt: -1 }).skip(offset).limit(limit).toArray()) as IWebhookDeliveryDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 計算端點的投遞紀錄數量
+   */
+  public async countByEndpointId(endpointId: string, status?: WebhookDeliveryStatus): Promise<number> {
+    const collection = this.mongoClient.getCollection(modelNames.WEBHOOK_DELIVERIES);
+    return collection.countDocuments(this.buildFilter(endpointId, status));
+  }
+
+  private buildFilter(endpointId: string, status?: WebhookDeliveryStatus): Record<string, any> {
+    const filter: Record<string, any> = { endpointId: new ObjectId(endpointId) };
+    if (status) {
+      filter.status = status;
+    }
+    return filter;
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: IWebhookDeliveryDocument): WebhookDeliveryEntity {
+    return plainToInstance(WebhookDeliveryEntity, {
+      id: doc._id.toHexString(),
+      endpointId: doc.endpointId.toHexString(),
+      merchantId: doc.merchantId,
+      eventId: doc.eventId,
+      eventType: doc.eventType,
+      payload: doc.payload || {},
+      status: doc.status,
+      nextAttemptAt: doc.nextAttemptAt,
+      attempts: doc.attempts || [],
+      deliveredAt: doc.deliveredAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,114 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { ObjectId } from 'mongodb';
+import { DEFAULT_MONGO } from '@myapp/common';
+import { CustomDefinition, CustomValidator, CustomMongoClient } from '@xxxhand/app-common';
+import { WebhookEndpointEntity } from '../../domain/entities/webhook-endpoint.entity';
+import { modelNames, IWebhookEndpointDocument } from '../models/models.definition';
+
+@Injectable()
+export class WebhookEndpointRepository {
+  constructor(@Inject(DEFAULT_MONGO) private readonly mongoClient: CustomMongoClient) {}
+
+  /**
+   * 儲存 Webhook 端點
+   */
+  public async save(entity: WebhookEndpointEntity): Promise<CustomDefinition.TNullable<WebhookEndpointEntity>> {
+    if (!entity) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.WEBHOOK_ENDPOINTS);
+    const fields = {
+      merchantId: entity.merchantId,
+      url: entity.url,
+      secret: entity.secret,
+      events: entity.events,
+      description: entity.description,
+      enabled: entity.enabled,
+      updatedAt: entity.updatedAt,
+    };
+
+    if (entity.isNew()) {
+      const doc: Omit<IWebhookEndpointDocument, '_id'> = { ...fields, createdAt: entity.createdAt };
+      const result = await collection.insertOne(doc as any);
+      entity.id = result.insertedId.toHexString();
+      return entity;
+    }
+
+    await collection.updateOne({ _id: new ObjectId(entity.id) }, { $set: fields });
+    return entity;
+  }
+
+  /**
+   * 根據 ID 查找端點
+   */
+  public async findById(id: string): Promise<CustomDefinition.TNullable<WebhookEndpointEntity>> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return undefined;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.WEBHOOK_ENDPOINTS);
+    const doc = (await collection.findOne({ _id: new ObjectId(id) })) as IWebhookEndpointDocument;
+
+    if (!doc) {
+      return undefined;
+    }
+
+    return this.documentToEntity(doc);
+  }
+
+  /**
+   * 查找商家的所有端點
+   */
+  public async findByMerchantId(merchantId: string): Promise<WebhookEndpointEntity[]> {
+    if (!CustomValidator.nonEmptyString(merchantId)) {
+      return [];
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.WEBHOOK_ENDPOINTS);
+    const docs = (await collection.find({ merchantId }).sort({ createdAt: 1 }).toArray()) as IWebhookEndpointDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 查找所有啟用中的端點
+   */
+  public async findEnabled(): Promise<WebhookEndpointEntity[]> {
+    const collection = this.mongoClient.getCollection(modelNames.WEBHOOK_ENDPOINTS);
+    const docs = (await collection.find({ enabled: true }).toArray()) as IWebhookEndpointDocument[];
+
+    return docs.map((doc) => this.documentToEntity(doc));
+  }
+
+  /**
+   * 刪除端點
+   */
+  public async delete(id: string): Promise<boolean> {
+    if (!CustomValidator.nonEmptyString(id) || !ObjectId.isValid(id)) {
+      return false;
+    }
+
+    const collection = this.mongoClient.getCollection(modelNames.WEBHOOK_ENDPOINTS);
+    const result = await collection.deleteOne({ _id: new ObjectId(id) });
+    return result.deletedCount === 1;
+  }
+
+  /**
+   * 將文檔轉換為實體
+   */
+  private documentToEntity(doc: IWebhookEndpointDocument): WebhookEndpointEntity {
+    return plainToInstance(WebhookEndpointEntity, {
+      id: doc._id.toHexString(),
+      merchantId: doc.merchantId,
+      url: doc.url,
+      secret: doc.secret,
+      events: doc.events || [],
+      description: doc.description,
+      enabled: doc.enabled,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt,
+    });
+  }
+}
@@ -8,6 +8,7 @@ import { PaymentMethodRepository } from '../src/infra/repositories/payment-metho
 import { BusinessRulesEngineModule } from '../src/domain/services/rules-engine/business-rules-engine.module';
 import { RetryStrategyEngine } from '../src/domain/services/rules-engine/retry-strategy.engine';
 import { DateCalculationService } from '../src/domain/services/date-calculation/date-calculation.service';
+import { ProrationEngine } from '../src/domain/services/proration/proration.engine';
 import { PaymentProcessingService } from '../src/domain/services/payment-processing.service';
 import { PaymentGatewayManager } from '../src/domain/services/payment/payment-gateway-manager.service';
 import { SubscriptionEntity } from '../src/domain/entities/subscription.entity';
@@ -62,6 +63,7 @@ class StubPaymentMethodRepository {
 class StubGatewayManager {
   // jest will mock this
   processPayment = jest.fn();
+  selectPaymentRoute = jest.fn(() => ({ candidates: ['mock'], skipped: [], failover: true }));
   registerGateway() {}
   setDefaultGateway() {}
 }
@@ -84,6 +86,7 @@ describe('Billing → Payment failure → RetryEngine → Subscription RETRY/PAS
         BillingService,
         SubscriptionService,
         DateCalculationService,
+        ProrationEngine,
         PaymentProcessingService,
         { provide: PaymentGatewayManager, useValue: gateway },
         { provide: SubscriptionRepository, useValue: subs },
@@ -12,6 +12,7 @@ describe('PaymentProcessingService failure category mapping (e2e-lite)', () => {
 
   const gatewayMock = {
     processPayment: jest.fn(),
+    selectPaymentRoute: jest.fn(() => ({ candidates: ['mock'], skipped: [], failover: true })),
   } as unknown as PaymentGatewayManager;
 
   const paymentMethodRepoMock = {
@@ -24,7 +25,7 @@ describe('PaymentProcessingService failure category mapping (e2e-lite)', () => {
   } as unknown as PaymentMethodRepository;
 
   const paymentServiceStub = {
-    // Not used in these tests
+    recordRoutingDecision: jest.fn(),
   } as unknown as PaymentService;
 
   beforeAll(async () => {
@@ -8,9 +8,49 @@ describe('PromotionsController (e2e)', () => {
   const dbHelper = new MongoHelper('PromotionsController');
   const db = dbHelper.mongo;
 
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const activeWindow = { validFrom: new Date(Date.now() - DAY_MS).toISOString(), validUntil: new Date(Date.now() + 30 * DAY_MS).toISOString() };
+  const seedPromotions = [
+    {
+      code: 'SUMMER2024',
+      name: 'Summer Special',
+      description: '夏季特惠',
+      discount: { type: 'PERCENTAGE', value: 20, applicablePeriod: 'FIRST_BILLING' },
+      ...activeWindow,
+      usageLimit: 1000,
+    },
+    {
+      code: 'EXPIRED2023',
+      name: 'Expired Promotion',
+      description: '已過期的優惠碼',
+      discount: { type: 'PERCENTAGE', value: 25, applicablePeriod: 'FIRST_BILLING' },
+      validFrom: '2023-01-01T00:00:00Z',
+      validUntil: '2023-12-31T23:59:59Z',
+    },
+    {
+      code: 'PREMIUM_ONLY',
+      name: 'Premium Plan Discount',
+      description: 'Premium方案專屬優惠',
+      discount: { type: 'FIXED_AMOUNT', value: 100, applicablePeriod: 'FIRST_BILLING' },
+      ...activeWindow,
+      conditions: { applicableProducts: ['prod_premium_monthly'] },
+    },
+    {
+      code: 'NEW_CUSTOMER_ONLY',
+      name: 'First Time Customer Special',
+      description: '首次訂閱專屬優惠',
+      discount: { type: 'FIXED_AMOUNT', value: 150, applicablePeriod: 'FIRST_BILLING' },
+      ...activeWindow,
+      conditions: { firstTimeCustomersOnly: true, maxUsagePerCustomer: 1 },
+    },
+  ];
+
   beforeAll(async () => {
     agent = await AppHelper.getAgent();
     await db.tryConnect();
+    for (const promotion of seedPromotions) {
+      await agent.post('/api/v1/promotions').send(promotion).expect(HttpStatus.CREATED);
+    }
   });
   afterAll(async () => {
     await AppHelper.closeAgent();
@@ -211,4 +251,82 @@ describe('PromotionsController (e2e)', () => {
       });
     });
   });
+
+  describe('Promotion administration', () => {
+    it('should reject a duplicate promotion code', async () => {
+      const response = await agent.post('/api/v1/promotions').send(seedPromotions[0]).expect(HttpStatus.CONFLICT);
+
+      expect(response.body.message).toContain('Promotion code already exists');
+    });
+
+    it('should reject an invalid validity window', async () => {
+      await agent
+        .post('/api/v1/promotions')
+        .send({ ...seedPromotions[0], code: 'BAD_WINDOW', validFrom: activeWindow.validUntil, validUntil: activeWindow.validFrom })
+        .expect(HttpStatus.BAD_REQUEST);
+    });
+
+    it('should update a promotion', async () => {
+      const response = await agent.put('/api/v1/promotions/SUMMER2024').send({ name: 'Summer Special 2026', usageLimit: 500 }).expect(HttpStatus.OK);
+
+      expect(response.body.result).toMatchObject({ code: 'SUMMER2024', name: 'Summer Special 2026', usageLimit: 500, remainingUsage: 500 });
+    });
+
+    it('should pause, resume and archive a promotion', async () => {
+      await agent
+        .post('/api/v1/promotions')
+        .send({ ...seedPromotions[0], code: 'FLASH_SALE' })
+        .expect(HttpStatus.CREATED);
+
+      const paused = await agent.post('/api/v1/promotions/FLASH_SALE/pause').expect(HttpStatus.OK);
+      expect(paused.body.result.status).toBe('PAUSED');
+
+      const validation = await agent.post('/api/v1/promotions/validate').send({ code: 'FLASH_SALE', productId: 'prod_basic_monthly' }).expect(HttpStatus.OK);
+      expect(validation.body.result.eligibility.reasons).toContain('Promotion is not active');
+
+      await agent.post('/api/v1/promotions/FLASH_SALE/resume').expect(HttpStatus.OK);
+      const archived = await agent.post('/api/v1/promotions/FLASH_SALE/archive').expect(HttpStatus.OK);
+      expect(archived.body.result.status).toBe('ARCHIVED');
+
+      await agent.post('/api/v1/promotions/FLASH_SALE/resume').expect(HttpStatus.CONFLICT);
+      await agent.put('/api/v1/promotions/FLASH_SALE').send({ name: 'Again' }).expect(HttpStatus.CONFLICT);
+    });
+
+    it('should return 404 for an unknown promotion', async () => {
+      await agent.post('/api/v1/promotions/UNKNOWN/pause').expect(HttpStatus.NOT_FOUND);
+      await agent.get('/api/v1/promotions/UNKNOWN/redemptions').expect(HttpStatus.NOT_FOUND);
+    });
+
+    it('should list redemptions of a promotion', async () => {
+      const response = await agent.get('/api/v1/promotions/SUMMER2024/redemptions').expect(HttpStatus.OK);
+
+      expect(response.body.result).toEqual({ code: 'SUMMER2024', redemptions: [] });
+    });
+  });
+
+  describe('Coupon codes', () => {
+    it('should generate single-use codes and export them as CSV', async () => {
+      const generated = await agent.post('/api/v1/promotions/SUMMER2024/coupon-codes').send({ count: 20, prefix: 'INF-', length: 6 }).expect(HttpStatus.CREATED);
+      expect(generated.body.result).toMatchObject({ code: 'SUMMER2024', requested: 20, generated: 20 });
+
+      const exported = await agent.get(`/api/v1/promotions/SUMMER2024/coupon-codes/export?batchId=${generated.body.result.batchId}`).expect(HttpStatus.OK);
+      expect(exported.headers['content-type']).toContain('text/csv');
+      expect(exported.headers['content-disposition']).toContain('SUMMER2024-coupon-codes.csv');
+
+      const rows = exported.text.trim().split('\r\n');
+      expect(rows[0]).toBe('code,promotionCode,batchId,status,redeemedAt,customerId,subscriptionId');
+      expect(rows).toHaveLength(21);
+      rows.slice(1).forEach((row) => expect(row).toMatch(/^INF-[A-HJ-KM-NP-Z2-9]{6},SUMMER2024,batch_\d+,AVAILABLE,,,$/));
+
+      const couponCode = rows[1].split(',')[0];
+      const validation = await agent.post('/api/v1/promotions/validate').send({ code: couponCode, productId: 'prod_basic_monthly' }).expect(HttpStatus.OK);
+      expect(validation.body.result).toMatchObject({ valid: true, promotion: { code: 'SUMMER2024' } });
+    });
+
+    it('should reject an invalid generation request', async () => {
+      await agent.post('/api/v1/promotions/SUMMER2024/coupon-codes').send({ count: 0 }).expect(HttpStatus.BAD_REQUEST);
+      await agent.post('/api/v1/promotions/SUMMER2024/coupon-codes').send({ count: 100, length: 4, alphabet: 'AB' }).expect(HttpStatus.BAD_REQUEST);
+      await agent.post('/api/v1/promotions/UNKNOWN/coupon-codes').send({ count: 1 }).expect(HttpStatus.NOT_FOUND);
+    });
+  });
 });
@@ -4,6 +4,7 @@ import { BillingService } from '../src/domain/services/billing.service';
 import { PaymentService } from '../src/domain/services/payment.service';
 import { SubscriptionService } from '../src/domain/services/subscription.service';
 import { DateCalculationService } from '../src/domain/services/date-calculation/date-calculation.service';
+import { ProrationEngine } from '../src/domain/services/proration/proration.engine';
 import { PaymentProcessingService } from '../src/domain/services/payment-processing.service';
 import { PaymentGatewayManager } from '../src/domain/services/payment/payment-gateway-manager.service';
 import { SubscriptionRepository } from '../src/infra/repositories/subscription.repository';
@@ -59,6 +60,7 @@ class StubPaymentMethodRepository {
 
 class StubGatewayManager {
   processPayment = jest.fn();
+  selectPaymentRoute = jest.fn(() => ({ candidates: ['mock'], skipped: [], failover: true }));
   registerGateway() {}
   setDefaultGateway() {}
 }
@@ -79,6 +81,7 @@ describe('Subscription reactivation requires metadata.paymentResolved (e2e-lite)
         BillingService,
         SubscriptionService,
         DateCalculationService,
+        ProrationEngine,
         PaymentProcessingService,
         { provide: PaymentGatewayManager, useClass: StubGatewayManager },
         { provide: SubscriptionRepository, useValue: subs },